@@ -26,6 +26,10 @@ const cookieParser = require("cookie-parser");
 const rateLimit = require("express-rate-limit");
 const { createClient } = require("@supabase/supabase-js");
 const notificationScheduler = require("./server/notificationScheduler.cjs");
+const {
+  PostingFetchError,
+  fetchPostingHtml,
+} = require("./server/postingFetcher.cjs");
 const app = express();
 const PORT = process.env.PORT || 3000;
 
@@ -92,6 +96,18 @@ const aiApiLimiter = rateLimit({
   },
 });
 
+// Limit job posting captures, which fetch other sites
+const postingLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 20, // limit each IP to 20 posting captures per minute
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    status: 429,
+    message: "Too many posting captures, please try again later.",
+  },
+});
+
 // Apply global rate limiting to all requests
 app.use(globalLimiter);
 
@@ -496,6 +512,35 @@ app.post(
   }
 );
 
+// Fetch a job posting's HTML so the browser can snapshot it
+app.post(
+  "/api/postings/fetch",
+  authenticateUser,
+  postingLimiter,
+  async (req, res) => {
+    const { url } = req.body || {};
+
+    if (typeof url !== "string" || !url) {
+      return res
+        .status(400)
+        .json({ success: false, message: "A posting URL is required" });
+    }
+
+    try {
+      const posting = await fetchPostingHtml(url);
+      return res.json({ success: true, ...posting });
+    } catch (error) {
+      if (error instanceof PostingFetchError) {
+        return res
+          .status(error.status)
+          .json({ success: false, message: error.message });
+      }
+      console.error("Error fetching job posting:", error);
+      return res.status(500).json({ success: false, message: "Server error" });
+    }
+  }
+);
+
 //=============================================================================
 // SERVER STARTUP
 //=============================================================================
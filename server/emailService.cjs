@@ -311,6 +311,89 @@ class EmailService {
     });
   }
 
+  /**
+   * Send follow-up reminder email
+   */
+  async sendFollowUpReminder(userEmail, userName, title, description) {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Follow-up Reminder</title>
+          <style>
+            body {
+              font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+              line-height: 1.6;
+              color: #333;
+              max-width: 600px;
+              margin: 0 auto;
+              padding: 20px;
+            }
+            .header {
+              background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+              color: white;
+              padding: 30px;
+              text-align: center;
+              border-radius: 10px 10px 0 0;
+            }
+            .content {
+              background: #f8f9fa;
+              padding: 30px;
+              border-radius: 0 0 10px 10px;
+            }
+            .cta-button {
+              display: inline-block;
+              background: #667eea;
+              color: white;
+              padding: 12px 24px;
+              text-decoration: none;
+              border-radius: 5px;
+              margin: 20px 0;
+            }
+            .footer {
+              text-align: center;
+              margin-top: 30px;
+              color: #666;
+              font-size: 14px;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <h1>⏰ Follow-up Reminder</h1>
+            <p>${title}</p>
+          </div>
+          
+          <div class="content">
+            <p>Hi ${userName},</p>
+            
+            <p>${description}</p>
+            
+            <a href="https://jobtrakr.co.uk/notifications" class="cta-button">
+              View Reminders
+            </a>
+            
+            <p>You can snooze this reminder from your notifications.</p>
+            
+            <p>Best regards,<br>The JobTrakr Team</p>
+          </div>
+          
+          <div class="footer">
+            <p>This email was sent from JobTrakr. You can manage your follow-up reminders in your account settings.</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: userEmail,
+      subject: title,
+      html,
+    });
+  }
+
   /**
    * Check if email service is available
    */
@@ -0,0 +1,188 @@
+/**
+ * Follow-up reminder rules
+ *
+ * Decides which applications the notification scheduler should remind
+ * users about:
+ * - Applications left in an "applied" stage with no update for N days
+ * - Applications still in an "interview" stage M days after the interview
+ * - Tasks on an application's checklist still open after their due date
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Outcomes of the default pipeline stages, for users who never customised theirs
+const DEFAULT_STAGE_OUTCOMES = {
+  saved: "saved",
+  applied: "applied",
+  interview: "interview",
+  offer: "offer",
+  rejected: "rejected",
+};
+
+// Rules used until the user saves their notification preferences
+const DEFAULT_RULES = {
+  stale_application_reminders: true,
+  stale_application_days: 14,
+  interview_outcome_reminders: true,
+  interview_outcome_days: 7,
+  follow_up_emails: true,
+  overdue_task_reminders: true,
+};
+
+/**
+ * The user's rules, with defaults for anything not saved
+ */
+const getFollowUpRules = (preferences) => {
+  const rules = { ...DEFAULT_RULES };
+  if (!preferences) return rules;
+
+  Object.keys(rules).forEach((key) => {
+    if (preferences[key] !== null && preferences[key] !== undefined) {
+      rules[key] = preferences[key];
+    }
+  });
+  return rules;
+};
+
+/**
+ * Outcome of a job's status, from the user's pipeline stages
+ *
+ * @param stages The user's pipeline stages; empty for the default pipeline
+ */
+const getStageOutcome = (status, stages) => {
+  if (!stages || stages.length === 0) {
+    return DEFAULT_STAGE_OUTCOMES[status] || null;
+  }
+  const stage = stages.find((stage) => stage.key === status);
+  return stage ? stage.outcome : null;
+};
+
+const daysBetween = (from, to) =>
+  Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+
+/**
+ * Reminders due for one user's applications
+ *
+ * @param jobs The user's applications, not trashed or archived
+ * @param options.stages The user's pipeline stages
+ * @param options.preferences The user's notification preferences row, if any
+ * @param options.lastInterviews Date and event ID of each job's latest past interview, by job ID
+ * @param options.openTasks The jobs' tasks that aren't completed and have a due date
+ * @param options.now Current time
+ * @returns Reminders with a key that identifies what each one is about
+ */
+const getDueFollowUpReminders = (
+  jobs,
+  { stages, preferences, lastInterviews, openTasks = [], now }
+) => {
+  const rules = getFollowUpRules(preferences);
+  const reminders = [];
+
+  jobs.forEach((job) => {
+    const outcome = getStageOutcome(job.status, stages);
+
+    if (outcome === "applied" && rules.stale_application_reminders) {
+      const lastUpdated = new Date(job.last_updated || job.created_at);
+      const days = daysBetween(lastUpdated, now);
+
+      if (days >= rules.stale_application_days) {
+        reminders.push({
+          job,
+          rule: "stale_application",
+          // A later update starts the wait again
+          reminderKey: `stale_application:${
+            job.id
+          }:${lastUpdated.toISOString()}`,
+          title: `Follow up: ${job.position} at ${job.company}`,
+          description: `No update on your application for ${job.position} at ${
+            job.company
+          } in ${days} day${days === 1 ? "" : "s"}. Consider following up.`,
+        });
+      }
+    }
+
+    const interview = lastInterviews[job.id];
+    if (
+      outcome === "interview" &&
+      interview &&
+      rules.interview_outcome_reminders
+    ) {
+      const days = daysBetween(new Date(interview.date), now);
+
+      if (days >= rules.interview_outcome_days) {
+        reminders.push({
+          job,
+          rule: "interview_outcome",
+          reminderKey: `interview_outcome:${job.id}:${interview.eventId}`,
+          title: `Any news? ${job.position} at ${job.company}`,
+          description: `Your interview for ${job.position} at ${
+            job.company
+          } was ${days} day${
+            days === 1 ? "" : "s"
+          } ago and has no outcome yet. Consider following up.`,
+        });
+      }
+    }
+  });
+
+  if (rules.overdue_task_reminders) {
+    const jobsById = {};
+    jobs.forEach((job) => {
+      jobsById[job.id] = job;
+    });
+
+    openTasks.forEach((task) => {
+      const job = jobsById[task.job_application_id];
+      if (!job || !task.due_date) return;
+
+      // Due dates have no time; a task is overdue from the day after
+      const days = daysBetween(new Date(`${task.due_date}T00:00:00Z`), now);
+
+      if (days >= 1) {
+        reminders.push({
+          job,
+          rule: "overdue_task",
+          // Moving the due date starts the wait again
+          reminderKey: `overdue_task:${task.id}:${task.due_date}`,
+          title: `Overdue: ${task.title}`,
+          description: `"${task.title}" for ${job.position} at ${
+            job.company
+          } was due ${days} day${days === 1 ? "" : "s"} ago.`,
+        });
+      }
+    });
+  }
+
+  return reminders;
+};
+
+/**
+ * Date and event ID of each job's latest interview before now
+ *
+ * @param events Interview events, in any order
+ */
+const getLastInterviews = (events, now) => {
+  const lastInterviews = {};
+
+  events.forEach((event) => {
+    const date = new Date(event.date);
+    if (date > now) return;
+
+    const latest = lastInterviews[event.job_application_id];
+    if (!latest || date > new Date(latest.date)) {
+      lastInterviews[event.job_application_id] = {
+        date: event.date,
+        eventId: event.id,
+      };
+    }
+  });
+
+  return lastInterviews;
+};
+
+module.exports = {
+  getFollowUpRules,
+  getStageOutcome,
+  getDueFollowUpReminders,
+  getLastInterviews,
+};
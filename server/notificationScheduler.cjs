@@ -2,7 +2,16 @@
 require("dotenv").config();
 const cron = require("node-cron");
 const { createClient } = require("@supabase/supabase-js");
-const emailService = require("./emailService");
+const emailService = require("./emailService.cjs");
+const {
+  getDueFollowUpReminders,
+  getFollowUpRules,
+  getLastInterviews,
+  getStageOutcome,
+} = require("./followUpReminders.cjs");
+
+// Applications are read in batches, below the API's row limit
+const JOB_BATCH_SIZE = 1000;
 
 class NotificationScheduler {
   constructor() {
@@ -33,11 +42,13 @@ class NotificationScheduler {
     this.supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Schedule job to run every hour at minute 0
-    // This checks for interviews coming up in the next 3 days
+    // This checks for interviews coming up in the next 3 days, and
+    // applications and tasks due a follow-up
     this.cronJob = cron.schedule(
       "0 * * * *",
       () => {
         this.checkUpcomingInterviews();
+        this.checkFollowUpReminders();
       },
       {
         scheduled: false, // Don't start automatically
@@ -159,6 +170,7 @@ class NotificationScheduler {
         .from("job_applications")
         .select("id, user_id, company, position, status")
         .eq("id", event.job_application_id)
+        .is("deleted_at", null)
         .single();
 
       if (jobError || !jobApp) {
@@ -286,6 +298,246 @@ class NotificationScheduler {
     }
   }
 
+  /**
+   * Remind users about applications with no update, interviews with no
+   * outcome and overdue tasks, following each user's rules
+   */
+  async checkFollowUpReminders() {
+    if (!this.supabase) {
+      console.warn("Supabase not configured; skipping follow-up check");
+      return;
+    }
+
+    try {
+      const now = new Date();
+      const jobsByUser = {};
+
+      // Applications not in the trash or archived
+      for (let from = 0; ; from += JOB_BATCH_SIZE) {
+        const { data: jobs, error: jobsError } = await this.supabase
+          .from("job_applications")
+          .select(
+            "id, user_id, company, position, status, last_updated, created_at"
+          )
+          .is("deleted_at", null)
+          .is("archived_at", null)
+          .order("id")
+          .range(from, from + JOB_BATCH_SIZE - 1);
+
+        if (jobsError) {
+          throw jobsError;
+        }
+
+        (jobs || []).forEach((job) => {
+          jobsByUser[job.user_id] = jobsByUser[job.user_id] || [];
+          jobsByUser[job.user_id].push(job);
+        });
+
+        if (!jobs || jobs.length < JOB_BATCH_SIZE) break;
+      }
+
+      for (const userId of Object.keys(jobsByUser)) {
+        await this.processFollowUpsForUser(userId, jobsByUser[userId], now);
+      }
+    } catch (error) {
+      console.error("Error checking follow-up reminders:", error);
+    }
+  }
+
+  /**
+   * Create, or bring back after a snooze, one user's follow-up reminders
+   */
+  async processFollowUpsForUser(userId, jobs, now) {
+    try {
+      const [prefsResult, stagesResult] = await Promise.all([
+        this.supabase
+          .from("notification_preferences")
+          .select("*")
+          .eq("user_id", userId)
+          .maybeSingle(),
+        this.supabase
+          .from("pipeline_stages")
+          .select("key, outcome")
+          .eq("user_id", userId),
+      ]);
+
+      const preferences = prefsResult.data;
+      const stages = stagesResult.data || [];
+      const rules = getFollowUpRules(preferences);
+
+      // Past interviews of the applications still at the interview stage
+      const interviewJobIds = jobs
+        .filter((job) => getStageOutcome(job.status, stages) === "interview")
+        .map((job) => job.id);
+      let events = [];
+
+      if (interviewJobIds.length > 0) {
+        const { data, error: eventsError } = await this.supabase
+          .from("job_events")
+          .select("id, job_application_id, date")
+          .in("job_application_id", interviewJobIds)
+          .lte("date", now.toISOString())
+          .ilike("title", "%interview%");
+
+        if (eventsError) {
+          throw eventsError;
+        }
+        events = data || [];
+      }
+
+      // Open tasks that are due; ones on trashed or archived applications
+      // have no job to match and are skipped
+      let openTasks = [];
+
+      if (rules.overdue_task_reminders) {
+        const { data, error: tasksError } = await this.supabase
+          .from("job_tasks")
+          .select("id, job_application_id, title, due_date")
+          .eq("user_id", userId)
+          .is("completed_at", null)
+          .lt("due_date", now.toISOString().slice(0, 10));
+
+        if (tasksError) {
+          throw tasksError;
+        }
+        openTasks = data || [];
+      }
+
+      const reminders = getDueFollowUpReminders(jobs, {
+        stages,
+        preferences,
+        lastInterviews: getLastInterviews(events, now),
+        openTasks,
+        now,
+      });
+
+      if (reminders.length === 0) {
+        return;
+      }
+
+      // Reminders already sent, including snoozed and dismissed ones
+      const { data: existing, error: existingError } = await this.supabase
+        .from("notifications")
+        .select("id, reminder_key, snoozed_until, dismissed_at")
+        .eq("user_id", userId)
+        .in(
+          "reminder_key",
+          reminders.map((reminder) => reminder.reminderKey)
+        );
+
+      if (existingError) {
+        throw existingError;
+      }
+
+      const existingByKey = {};
+      (existing || []).forEach((notification) => {
+        existingByKey[notification.reminder_key] = notification;
+      });
+
+      const sendEmail = !!preferences?.email_enabled && rules.follow_up_emails;
+
+      for (const reminder of reminders) {
+        const notification = existingByKey[reminder.reminderKey];
+
+        if (!notification) {
+          await this.createFollowUpNotification(userId, reminder);
+        } else if (
+          !notification.dismissed_at &&
+          notification.snoozed_until &&
+          new Date(notification.snoozed_until) <= now
+        ) {
+          await this.endSnooze(notification.id);
+        } else {
+          continue;
+        }
+
+        if (sendEmail) {
+          await this.sendFollowUpEmail(userId, reminder);
+        }
+      }
+    } catch (error) {
+      console.error("Error processing follow-up reminders:", error);
+    }
+  }
+
+  /**
+   * Create a notification record for a follow-up reminder
+   */
+  async createFollowUpNotification(userId, reminder) {
+    const { error } = await this.supabase.from("notifications").insert({
+      user_id: userId,
+      type: "followUp",
+      title: reminder.title,
+      description: reminder.description,
+      job_application_id: reminder.job.id,
+      reminder_key: reminder.reminderKey,
+      read: false,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      console.error("Error creating follow-up notification:", error);
+    }
+  }
+
+  /**
+   * Show a snoozed reminder again, as unread
+   */
+  async endSnooze(notificationId) {
+    const { error } = await this.supabase
+      .from("notifications")
+      .update({
+        snoozed_until: null,
+        read: false,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", notificationId);
+
+    if (error) {
+      console.error("Error ending notification snooze:", error);
+    }
+  }
+
+  /**
+   * Email a follow-up reminder to the user
+   */
+  async sendFollowUpEmail(userId, reminder) {
+    const [profileResult, authResult] = await Promise.all([
+      this.supabase
+        .from("profiles")
+        .select("first_name, last_name, email")
+        .eq("id", userId)
+        .maybeSingle(),
+      this.supabase.auth.admin.getUserById(userId),
+    ]);
+
+    const profile = profileResult.data;
+    const userEmail = authResult.data?.user?.email || profile?.email;
+    if (!userEmail) {
+      console.error("No email found for user", userId);
+      return;
+    }
+
+    const userName =
+      profile?.first_name && profile?.last_name
+        ? `${profile.first_name} ${profile.last_name}`
+        : userEmail.split("@")[0];
+
+    const emailSent = await emailService.sendFollowUpReminder(
+      userEmail,
+      userName,
+      reminder.title,
+      reminder.description
+    );
+
+    if (!emailSent) {
+      console.error(
+        `Failed to send follow-up reminder for ${reminder.job.position} at ${reminder.job.company}`
+      );
+    }
+  }
+
   /**
    * Manually trigger interview check (for testing)
    */
@@ -0,0 +1,211 @@
+/**
+ * Job posting fetcher
+ *
+ * Downloads the HTML of a job posting for the browser, which can't read
+ * other sites itself. The browser sanitises the HTML before storing it.
+ *
+ * Only public http(s) addresses are fetched, so the server can't be used
+ * to reach its own network. The connection is made to the address that was
+ * checked, so a second DNS answer can't point it somewhere private.
+ */
+
+const dns = require("dns").promises;
+const net = require("net");
+const { Agent, fetch } = require("undici");
+
+const FETCH_TIMEOUT_MS = 10 * 1000;
+const MAX_REDIRECTS = 5;
+const MAX_POSTING_BYTES = 2 * 1024 * 1024; // 2MB
+
+/**
+ * Error with a message that is safe to show to the user
+ */
+class PostingFetchError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = "PostingFetchError";
+    this.status = status;
+  }
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not
+ * on the public internet
+ */
+const isPrivateAddress = (address) => {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224 // Multicast and reserved
+    );
+  }
+
+  const lower = address.toLowerCase();
+  if (lower.startsWith("::ffff:")) {
+    return isPrivateAddress(lower.slice("::ffff:".length));
+  }
+  return (
+    lower === "::" ||
+    lower === "::1" ||
+    lower.startsWith("fc") ||
+    lower.startsWith("fd") || // Unique local
+    lower.startsWith("fe80") || // Link-local
+    lower.startsWith("ff") // Multicast
+  );
+};
+
+/**
+ * Check a URL may be fetched, throwing a PostingFetchError if not
+ *
+ * @returns The parsed URL and the addresses its hostname resolved to
+ */
+const assertPublicUrl = async (url) => {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new PostingFetchError("Invalid posting URL");
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new PostingFetchError("Only http and https postings can be captured");
+  }
+  if (parsed.username || parsed.password) {
+    throw new PostingFetchError("Posting URLs can't include credentials");
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(hostname)
+    ? [{ address: hostname, family: net.isIP(hostname) }]
+    : await dns.lookup(hostname, { all: true }).catch(() => {
+        throw new PostingFetchError("Couldn't find the posting's website");
+      });
+
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new PostingFetchError("Posting URL is not a public address");
+  }
+
+  return { parsed, addresses };
+};
+
+/**
+ * A connection pool that resolves every hostname to the given addresses
+ * instead of looking it up again
+ */
+const createPinnedAgent = (addresses) =>
+  new Agent({
+    connect: {
+      lookup: (hostname, options, callback) => {
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+    },
+  });
+
+/**
+ * Read a response body as text, stopping at the size limit
+ */
+const readLimitedText = async (response) => {
+  const reader = response.body.getReader();
+  const chunks = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > MAX_POSTING_BYTES) {
+      await reader.cancel();
+      throw new PostingFetchError("Posting page is too large", 413);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+/**
+ * Fetch a job posting's HTML, following redirects to public addresses only
+ *
+ * @returns The HTML and the URL it was finally read from
+ */
+const fetchPostingHtml = async (url) => {
+  let currentUrl = url;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const { parsed, addresses } = await assertPublicUrl(currentUrl);
+    const agent = createPinnedAgent(addresses);
+
+    try {
+      let response;
+      try {
+        response = await fetch(parsed, {
+          dispatcher: agent,
+          redirect: "manual",
+          signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+          headers: {
+            Accept: "text/html,application/xhtml+xml",
+            "User-Agent": "Mozilla/5.0 (compatible; JobTrakr posting snapshot)",
+          },
+        });
+      } catch {
+        throw new PostingFetchError("Couldn't reach the posting", 502);
+      }
+
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get("location");
+        if (!location) {
+          throw new PostingFetchError("Posting redirected nowhere", 502);
+        }
+        currentUrl = new URL(location, parsed).toString();
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new PostingFetchError(
+          response.status === 404 || response.status === 410
+            ? "The posting has been taken down"
+            : `The posting's website returned an error (${response.status})`,
+          502
+        );
+      }
+
+      const contentType = response.headers.get("content-type") || "";
+      if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+        throw new PostingFetchError("The posting URL is not a web page");
+      }
+
+      // The timeout also covers the body, which can fail part way through
+      let html;
+      try {
+        html = await readLimitedText(response);
+      } catch (error) {
+        if (error instanceof PostingFetchError) throw error;
+        throw new PostingFetchError("Couldn't reach the posting", 502);
+      }
+
+      return { html, url: parsed.toString() };
+    } finally {
+      agent.destroy().catch(() => {});
+    }
+  }
+
+  throw new PostingFetchError("Posting redirected too many times", 502);
+};
+
+module.exports = {
+  PostingFetchError,
+  fetchPostingHtml,
+  isPrivateAddress,
+};
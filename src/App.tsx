@@ -43,6 +43,9 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import AuthProvider from "./contexts/AuthContext";
 import AvatarProvider from "./contexts/AvatarContext";
 import JobProvider from "./contexts/JobContext";
+import PipelineProvider from "./contexts/PipelineContext";
+import TagProvider from "./contexts/TagContext";
+import SavedViewProvider from "./contexts/SavedViewContext";
 import NotificationProvider from "./contexts/NotificationContext";
 import CreditsProvider from "./contexts/CreditsContext";
 import { AIProvider } from "./contexts/AIContext";
@@ -66,6 +69,13 @@ import Applications from "./pages/Applications";
 import Kanban from "./pages/Kanban";
 import Documents from "./pages/Documents";
 import Calendar from "./pages/Calendar";
+import Contacts from "./pages/Contacts";
+import Companies from "./pages/Companies";
+import CompanyDetails from "./pages/CompanyDetails";
+import Offers from "./pages/Offers";
+import Tasks from "./pages/Tasks";
+import Trash from "./pages/Trash";
+import Duplicates from "./pages/Duplicates";
 import NotFound from "./pages/NotFound";
 import LandingPage from "./pages/Landing";
 import Notifications from "./pages/Notifications";
@@ -103,6 +113,7 @@ const routerFutureConfig = {
 
 // Lazy-loaded components to improve initial load performance
 const SettingsIndex = lazy(() => import("./pages/settings/index"));
+const PipelineSettingsPage = lazy(() => import("./pages/settings/pipeline"));
 const IntegrationsPage = lazy(() => import("./pages/settings/integrations"));
 const ProfilePage = lazy(() => import("./pages/settings/profile"));
 const SecurityPage = lazy(() => import("./pages/settings/security"));
@@ -159,137 +170,179 @@ const AppContent = () => (
         <AuthProvider>
           <AvatarProvider>
             <JobProvider>
-              <NotificationProvider>
-                <CreditsProvider>
-                  <AIProvider>
-                    <TooltipProvider>
-                      {/* Notification components */}
-                      <Toaster />
-                      <Sonner />
-                      <ScrollToTop />
-                      <SecurityMonitor />
-                      <FaviconNotifier />
+              <PipelineProvider>
+                <TagProvider>
+                  <SavedViewProvider>
+                    <NotificationProvider>
+                      <CreditsProvider>
+                        <AIProvider>
+                          <TooltipProvider>
+                            {/* Notification components */}
+                            <Toaster />
+                            <Sonner />
+                            <ScrollToTop />
+                            <SecurityMonitor />
+                            <FaviconNotifier />
 
-                      <Routes>
-                        {" "}
-                        {/* Public routes - accessible to all users */}{" "}
-                        <Route path="/" element={<LandingPage />} />{" "}
-                        <Route path="/login" element={<Login />} />{" "}
-                        <Route path="/signup" element={<SignUp />} />{" "}
-                        <Route
-                          path="/forgot-password"
-                          element={<ForgotPassword />}
-                        />{" "}
-                        <Route
-                          path="/reset-password"
-                          element={<ResetPassword />}
-                        />{" "}
-                        <Route
-                          path="/verify-email"
-                          element={<EmailVerification />}
-                        />{" "}
-                        <Route
-                          path="/auth/callback"
-                          element={<AuthCallback />}
-                        />{" "}
-                        <Route
-                          path="/auth/gmail/callback"
-                          element={<EmailCallback />}
-                        />{" "}
-                        <Route
-                          path="/auth/outlook/callback"
-                          element={<EmailCallback />}
-                        />
-                        {/* Legal pages - public access */}
-                        <Route
-                          path="/privacy-policy"
-                          element={<PrivacyPolicy />}
-                        />
-                        <Route path="/terms" element={<TermsOfService />} />
-                        <Route path="/contact" element={<Contact />} />
-                        {/* Help pages - public access */}
-                        <Route
-                          path="/help/browser-extension"
-                          element={
-                            <Suspense fallback={<LoadingFallback />}>
-                              <BrowserExtensionHelp />
-                            </Suspense>
-                          }
-                        />
-                        {/* Protected routes - require authentication */}
-                        <Route element={<ProtectedRoute />}>
-                          {/* Dashboard and main application routes */}
-                          <Route path="/dashboard" element={<Index />} />
-                          <Route
-                            path="/applications"
-                            element={<Applications />}
-                          />
-                          <Route path="/kanban" element={<Kanban />} />
-                          <Route path="/documents" element={<Documents />} />
-                          <Route path="/calendar" element={<Calendar />} />
-                          <Route
-                            path="/notifications"
-                            element={<Notifications />}
-                          />
+                            <Routes>
+                              {" "}
+                              {/* Public routes - accessible to all users */}{" "}
+                              <Route path="/" element={<LandingPage />} />{" "}
+                              <Route path="/login" element={<Login />} />{" "}
+                              <Route path="/signup" element={<SignUp />} />{" "}
+                              <Route
+                                path="/forgot-password"
+                                element={<ForgotPassword />}
+                              />{" "}
+                              <Route
+                                path="/reset-password"
+                                element={<ResetPassword />}
+                              />{" "}
+                              <Route
+                                path="/verify-email"
+                                element={<EmailVerification />}
+                              />{" "}
+                              <Route
+                                path="/auth/callback"
+                                element={<AuthCallback />}
+                              />{" "}
+                              <Route
+                                path="/auth/gmail/callback"
+                                element={<EmailCallback />}
+                              />{" "}
+                              <Route
+                                path="/auth/outlook/callback"
+                                element={<EmailCallback />}
+                              />
+                              {/* Legal pages - public access */}
+                              <Route
+                                path="/privacy-policy"
+                                element={<PrivacyPolicy />}
+                              />
+                              <Route
+                                path="/terms"
+                                element={<TermsOfService />}
+                              />
+                              <Route path="/contact" element={<Contact />} />
+                              {/* Help pages - public access */}
+                              <Route
+                                path="/help/browser-extension"
+                                element={
+                                  <Suspense fallback={<LoadingFallback />}>
+                                    <BrowserExtensionHelp />
+                                  </Suspense>
+                                }
+                              />
+                              {/* Protected routes - require authentication */}
+                              <Route element={<ProtectedRoute />}>
+                                {/* Dashboard and main application routes */}
+                                <Route path="/dashboard" element={<Index />} />
+                                <Route
+                                  path="/applications"
+                                  element={<Applications />}
+                                />
+                                <Route path="/kanban" element={<Kanban />} />
+                                <Route
+                                  path="/documents"
+                                  element={<Documents />}
+                                />
+                                <Route
+                                  path="/calendar"
+                                  element={<Calendar />}
+                                />
+                                <Route
+                                  path="/contacts"
+                                  element={<Contacts />}
+                                />
+                                <Route
+                                  path="/companies"
+                                  element={<Companies />}
+                                />
+                                <Route
+                                  path="/companies/:companyId"
+                                  element={<CompanyDetails />}
+                                />
+                                <Route path="/offers" element={<Offers />} />
+                                <Route path="/tasks" element={<Tasks />} />
+                                <Route path="/trash" element={<Trash />} />
+                                <Route
+                                  path="/duplicates"
+                                  element={<Duplicates />}
+                                />
+                                <Route
+                                  path="/notifications"
+                                  element={<Notifications />}
+                                />
 
-                          {/* Settings routes - lazy loaded */}
-                          <Route
-                            path="/settings"
-                            element={
-                              <Suspense fallback={<LoadingFallback />}>
-                                <SettingsIndex />
-                              </Suspense>
-                            }
-                          />
-                          <Route
-                            path="/settings/integrations"
-                            element={
-                              <Suspense
-                                fallback={<LoadingFallback />}
-                                key="integrations-page"
-                              >
-                                <IntegrationsPage />
-                              </Suspense>
-                            }
-                          />
-                          <Route
-                            path="/settings/profile"
-                            element={
-                              <Suspense fallback={<LoadingFallback />}>
-                                <ProfilePage />
-                              </Suspense>
-                            }
-                          />
-                          <Route
-                            path="/settings/security"
-                            element={
-                              <Suspense fallback={<LoadingFallback />}>
-                                <SecurityPage />
-                              </Suspense>
-                            }
-                          />
-                          <Route
-                            path="/settings/notifications"
-                            element={
-                              <Suspense fallback={<LoadingFallback />}>
-                                <NotificationsPage />
-                              </Suspense>
-                            }
-                          />
+                                {/* Settings routes - lazy loaded */}
+                                <Route
+                                  path="/settings"
+                                  element={
+                                    <Suspense fallback={<LoadingFallback />}>
+                                      <SettingsIndex />
+                                    </Suspense>
+                                  }
+                                />
+                                <Route
+                                  path="/settings/pipeline"
+                                  element={
+                                    <Suspense fallback={<LoadingFallback />}>
+                                      <PipelineSettingsPage />
+                                    </Suspense>
+                                  }
+                                />
+                                <Route
+                                  path="/settings/integrations"
+                                  element={
+                                    <Suspense
+                                      fallback={<LoadingFallback />}
+                                      key="integrations-page"
+                                    >
+                                      <IntegrationsPage />
+                                    </Suspense>
+                                  }
+                                />
+                                <Route
+                                  path="/settings/profile"
+                                  element={
+                                    <Suspense fallback={<LoadingFallback />}>
+                                      <ProfilePage />
+                                    </Suspense>
+                                  }
+                                />
+                                <Route
+                                  path="/settings/security"
+                                  element={
+                                    <Suspense fallback={<LoadingFallback />}>
+                                      <SecurityPage />
+                                    </Suspense>
+                                  }
+                                />
+                                <Route
+                                  path="/settings/notifications"
+                                  element={
+                                    <Suspense fallback={<LoadingFallback />}>
+                                      <NotificationsPage />
+                                    </Suspense>
+                                  }
+                                />
 
-                          {/* Admin routes - protected with role check */}
-                          <Route
-                            path="/admin/security"
-                            element={<SecurityAdmin />}
-                          />
-                        </Route>
-                        {/* Fallback route for any undefined paths */}
-                        <Route path="*" element={<NotFound />} />
-                      </Routes>
-                    </TooltipProvider>
-                  </AIProvider>
-                </CreditsProvider>
-              </NotificationProvider>
+                                {/* Admin routes - protected with role check */}
+                                <Route
+                                  path="/admin/security"
+                                  element={<SecurityAdmin />}
+                                />
+                              </Route>
+                              {/* Fallback route for any undefined paths */}
+                              <Route path="*" element={<NotFound />} />
+                            </Routes>
+                          </TooltipProvider>
+                        </AIProvider>
+                      </CreditsProvider>
+                    </NotificationProvider>
+                  </SavedViewProvider>
+                </TagProvider>
+              </PipelineProvider>
             </JobProvider>
           </AvatarProvider>
         </AuthProvider>
@@ -1,4 +1,5 @@
-import { JobApplication, statusLabels } from '@/data/mockJobs'
+import { JobApplication, getStatusCount } from '@/data/mockJobs'
+import { usePipeline } from '@/contexts/PipelineContext'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Check, Clock, MessageSquare, XCircle, Bookmark } from 'lucide-react'
 import { Progress } from '@/components/ui/progress'
@@ -16,14 +17,10 @@ interface ApplicationStatsProps {
 }
 
 const ApplicationStats = ({ jobs }: ApplicationStatsProps) => {
-	// Generate data for status distribution
-	const statusCount = {
-		saved: jobs.filter((job) => job.status === 'saved').length,
-		applied: jobs.filter((job) => job.status === 'applied').length,
-		interview: jobs.filter((job) => job.status === 'interview').length,
-		offer: jobs.filter((job) => job.status === 'offer').length,
-		rejected: jobs.filter((job) => job.status === 'rejected').length,
-	}
+	const { stages } = usePipeline()
+
+	// Generate data for status distribution, grouping custom stages by outcome
+	const statusCount = getStatusCount(jobs, stages)
 
 	const totalJobs = jobs.length
 
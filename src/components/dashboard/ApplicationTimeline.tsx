@@ -1,4 +1,5 @@
 import { JobApplication } from "@/data/mockJobs";
+import { usePipeline } from "@/contexts/PipelineContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   AreaChart,
@@ -16,6 +17,8 @@ interface ApplicationTimelineProps {
 }
 
 const ApplicationTimeline = ({ jobs }: ApplicationTimelineProps) => {
+  const { getOutcome } = usePipeline();
+
   // Get the data for applications over time (last 6 months)
   const getApplicationTimelineData = () => {
     const now = new Date();
@@ -47,7 +50,7 @@ const ApplicationTimeline = ({ jobs }: ApplicationTimelineProps) => {
         return (
           isAfter(jobDate, month) &&
           !isAfter(jobDate, nextMonth) &&
-          job.status === "interview"
+          getOutcome(job.status) === "interview"
         );
       }).length;
 
@@ -57,7 +60,7 @@ const ApplicationTimeline = ({ jobs }: ApplicationTimelineProps) => {
         return (
           isAfter(jobDate, month) &&
           !isAfter(jobDate, nextMonth) &&
-          job.status === "offer"
+          getOutcome(job.status) === "offer"
         );
       }).length;
 
@@ -1,4 +1,5 @@
 import { JobApplication } from '@/data/mockJobs'
+import { usePipeline } from '@/contexts/PipelineContext'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { formatDistanceToNow } from 'date-fns'
 import {
@@ -16,6 +17,8 @@ interface RecentActivityProps {
 }
 
 const RecentActivity = ({ jobs }: RecentActivityProps) => {
+	const { getOutcome } = usePipeline()
+
 	// Get all activities from job applications
 	const getRecentActivities = () => {
 		const activities = []
@@ -27,7 +30,7 @@ const RecentActivity = ({ jobs }: RecentActivityProps) => {
 					id: `app-${job.id}`,
 					date: new Date(job.appliedDate),
 					type: 'application',
-					status: job.status,
+					status: getOutcome(job.status),
 					company: job.company,
 					position: job.position,
 				})
@@ -44,7 +47,7 @@ const RecentActivity = ({ jobs }: RecentActivityProps) => {
 					id: `status-${job.id}`,
 					date: new Date(job.lastUpdated),
 					type: 'statusChange',
-					status: job.status,
+					status: getOutcome(job.status),
 					company: job.company,
 					position: job.position,
 				})
@@ -0,0 +1,156 @@
+import { useMemo } from 'react'
+import { Handshake, Send } from 'lucide-react'
+import { JobApplication } from '@/data/mockJobs'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ConversionStats, getReferralComparison } from '@/utils/referralUtils'
+
+interface ReferralStatsProps {
+	jobs: JobApplication[]
+	isLoading?: boolean // Rates are shown once every application has loaded
+}
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`
+
+const ReferralStats = ({ jobs, isLoading }: ReferralStatsProps) => {
+	const { getOutcome } = usePipeline()
+
+	const comparison = useMemo(
+		() => getReferralComparison(jobs, getOutcome),
+		[jobs, getOutcome]
+	)
+
+	// Referrers the user hasn't thanked yet
+	const pendingThanks = jobs.filter(
+		(job) => job.referral && job.referral.followUpStatus === 'pending'
+	).length
+
+	const groups: {
+		label: string
+		icon: React.ElementType
+		color: string
+		stats: ConversionStats
+	}[] = [
+		{
+			label: 'Referral',
+			icon: Handshake,
+			color: 'text-green-600',
+			stats: comparison.referral,
+		},
+		{
+			label: 'Cold',
+			icon: Send,
+			color: 'text-blue-600',
+			stats: comparison.cold,
+		},
+	]
+
+	const { referral, cold } = comparison
+	const interviewLift =
+		referral.applications && cold.interviewRate
+			? referral.interviewRate / cold.interviewRate
+			: null
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='text-xl'>
+					Referrals vs Cold Applications
+				</CardTitle>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<div className='space-y-3'>
+						<Skeleton className='h-4 w-2/3' />
+						<Skeleton className='h-2 w-full' />
+						<Skeleton className='h-4 w-1/2' />
+						<Skeleton className='h-2 w-full' />
+					</div>
+				) : referral.applications + cold.applications > 0 ? (
+					<div className='space-y-6'>
+						{groups.map((group) => {
+							const Icon = group.icon
+							return (
+								<div
+									key={group.label}
+									className='space-y-3'
+								>
+									<div className='flex justify-between items-center text-sm'>
+										<div className='flex items-center gap-2 font-medium text-gray-800'>
+											<Icon className={`h-4 w-4 ${group.color}`} />
+											{group.label}
+										</div>
+										<span className='text-gray-600'>
+											{group.stats.applications}{' '}
+											{group.stats.applications === 1
+												? 'application'
+												: 'applications'}
+										</span>
+									</div>
+									<div className='space-y-1'>
+										<div className='flex justify-between text-xs text-gray-600'>
+											<span>Interview rate</span>
+											<span>
+												{group.stats.interviews} (
+												{formatPercent(group.stats.interviewRate)})
+											</span>
+										</div>
+										<Progress
+											value={group.stats.interviewRate * 100}
+											className='h-2'
+										/>
+									</div>
+									<div className='space-y-1'>
+										<div className='flex justify-between text-xs text-gray-600'>
+											<span>Offer rate</span>
+											<span>
+												{group.stats.offers} (
+												{formatPercent(group.stats.offerRate)})
+											</span>
+										</div>
+										<Progress
+											value={group.stats.offerRate * 100}
+											className='h-2'
+										/>
+									</div>
+								</div>
+							)
+						})}
+
+						<div className='bg-gray-50 rounded-lg p-4 text-sm text-gray-700 space-y-1'>
+							{interviewLift !== null ? (
+								<p>
+									Referrals get you an interview{' '}
+									<span className='font-semibold'>
+										{interviewLift.toFixed(1)}×
+									</span>{' '}
+									as often as cold applications
+								</p>
+							) : (
+								<p>
+									Record referrals on your applications to compare them with
+									cold ones
+								</p>
+							)}
+							{pendingThanks > 0 && (
+								<p className='text-amber-700'>
+									{pendingThanks}{' '}
+									{pendingThanks === 1 ? 'referrer' : 'referrers'} still to
+									thank
+								</p>
+							)}
+						</div>
+					</div>
+				) : (
+					<div className='h-40 flex items-center justify-center'>
+						<p className='text-gray-500'>No application data available</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
+
+export default ReferralStats
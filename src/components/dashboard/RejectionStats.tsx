@@ -0,0 +1,118 @@
+import { useMemo } from 'react'
+import { JobApplication } from '@/data/mockJobs'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Badge } from '@/components/ui/badge'
+import { RejectionCount, getRejectionAnalysis } from '@/utils/rejectionUtils'
+
+interface RejectionStatsProps {
+	jobs: JobApplication[]
+	isLoading?: boolean // Rates are shown once every application has loaded
+}
+
+// Reasons listed before the rest are left out
+const MAX_REASONS = 5
+
+const RejectionStats = ({ jobs, isLoading }: RejectionStatsProps) => {
+	const { getOutcome } = usePipeline()
+
+	const analysis = useMemo(
+		() => getRejectionAnalysis(jobs, getOutcome),
+		[jobs, getOutcome]
+	)
+
+	const { rejected, recorded, byStage, byReason, byRejectedBy, topStage } =
+		analysis
+
+	const renderBars = <T extends string>(
+		title: string,
+		counts: RejectionCount<T>[]
+	) => (
+		<div className='space-y-2'>
+			<p className='text-sm font-medium text-gray-800'>{title}</p>
+			{counts.map((entry) => (
+				<div
+					key={entry.key}
+					className='space-y-1'
+				>
+					<div className='flex justify-between text-xs text-gray-600'>
+						<span>{entry.label}</span>
+						<span>{entry.count}</span>
+					</div>
+					<Progress
+						value={(entry.count / recorded) * 100}
+						className='h-2'
+					/>
+				</div>
+			))}
+		</div>
+	)
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className='text-xl'>Why Applications End</CardTitle>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<div className='space-y-3'>
+						<Skeleton className='h-4 w-2/3' />
+						<Skeleton className='h-2 w-full' />
+						<Skeleton className='h-4 w-1/2' />
+						<Skeleton className='h-2 w-full' />
+					</div>
+				) : recorded > 0 ? (
+					<div className='space-y-6'>
+						{byStage.length > 0 && renderBars('Stage reached', byStage)}
+						{byReason.length > 0 &&
+							renderBars('Top reasons', byReason.slice(0, MAX_REASONS))}
+
+						<div className='flex flex-wrap gap-2'>
+							{byRejectedBy.map((entry) => (
+								<Badge
+									key={entry.key}
+									variant='outline'
+								>
+									{entry.label}: {entry.count}
+								</Badge>
+							))}
+						</div>
+
+						<div className='bg-gray-50 rounded-lg p-4 text-sm text-gray-700 space-y-1'>
+							{topStage ? (
+								<p>
+									Most rejections come after the{' '}
+									<span className='font-semibold'>
+										{topStage.label.toLowerCase()}
+									</span>{' '}
+									({topStage.count} of {recorded})
+								</p>
+							) : (
+								<p>Record the stage reached to see where applications stall</p>
+							)}
+							{recorded < rejected && (
+								<p className='text-gray-500'>
+									{rejected - recorded} of {rejected} rejected{' '}
+									{rejected === 1 ? 'application has' : 'applications have'} no
+									details yet
+								</p>
+							)}
+						</div>
+					</div>
+				) : (
+					<div className='h-40 flex items-center justify-center text-center'>
+						<p className='text-gray-500'>
+							{rejected > 0
+								? 'Record why applications were rejected to see patterns'
+								: 'No rejections yet'}
+						</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
+
+export default RejectionStats
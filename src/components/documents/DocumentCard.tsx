@@ -4,6 +4,7 @@ import {
   Trash2,
   AlertTriangle,
   Loader2,
+  Send,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { formatDistanceToNow } from "date-fns";
@@ -12,14 +13,28 @@ import { Document } from "@/hooks/useDocuments";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { DocumentApplication } from "@/services/applicationDocumentService";
 
 interface DocumentCardProps {
   document: Document;
   onDelete: (id: string) => Promise<boolean>;
   onClick?: () => void;
+  applications?: DocumentApplication[]; // Applications this document was sent with
+  onApplicationClick?: (jobId: string) => void;
 }
 
-const DocumentCard = ({ document, onDelete, onClick }: DocumentCardProps) => {
+const DocumentCard = ({
+  document,
+  onDelete,
+  onClick,
+  applications = [],
+  onApplicationClick,
+}: DocumentCardProps) => {
   const [isDownloading, setIsDownloading] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [downloadError, setDownloadError] = useState(false);
@@ -146,6 +161,42 @@ const DocumentCard = ({ document, onDelete, onClick }: DocumentCardProps) => {
             })}
           </span>
         </div>
+        {applications.length > 0 && (
+          <div onClick={(e) => e.stopPropagation()}>
+            <Popover>
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  className="flex items-center text-xs text-blue-600 hover:underline mt-1"
+                >
+                  <Send className="h-3 w-3 mr-1" />
+                  Sent with {applications.length}{" "}
+                  {applications.length === 1 ? "application" : "applications"}
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 p-2" align="start">
+                <div className="max-h-64 overflow-y-auto">
+                  {applications.map((application) => (
+                    <button
+                      key={`${application.jobId}-${application.kind}`}
+                      type="button"
+                      onClick={() => onApplicationClick?.(application.jobId)}
+                      disabled={!onApplicationClick}
+                      className="w-full text-left rounded px-2 py-1.5 text-sm hover:bg-gray-50 disabled:hover:bg-transparent"
+                    >
+                      <p className="font-medium truncate">
+                        {application.position}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {application.company}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              </PopoverContent>
+            </Popover>
+          </div>
+        )}
       </div>
       <div className="flex space-x-1" onClick={(e) => e.stopPropagation()}>
         <Button
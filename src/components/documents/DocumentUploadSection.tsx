@@ -14,6 +14,7 @@ import { useDocuments } from "@/hooks/useDocuments";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Document } from "@/hooks/useDocuments";
+import { DocumentApplication } from "@/services/applicationDocumentService";
 
 interface DocumentUploadSectionProps {
   title: string;
@@ -21,6 +22,8 @@ interface DocumentUploadSectionProps {
   fileType: "resume" | "coverletter" | "other";
   acceptedFileTypes: string;
   onDocumentClick?: (document: Document) => void;
+  applications?: DocumentApplication[]; // Applications the user's documents were sent with
+  onApplicationClick?: (jobId: string) => void;
 }
 
 const DocumentUploadSection = ({
@@ -29,6 +32,8 @@ const DocumentUploadSection = ({
   fileType,
   acceptedFileTypes,
   onDocumentClick,
+  applications = [],
+  onApplicationClick,
 }: DocumentUploadSectionProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [initialLoad, setInitialLoad] = useState(true);
@@ -159,6 +164,10 @@ const DocumentUploadSection = ({
                     ? () => handleDocumentCardClick(doc)
                     : undefined
                 }
+                applications={applications.filter(
+                  (application) => application.documentId === doc.id
+                )}
+                onApplicationClick={onApplicationClick}
               />
             ))}
           </div>
@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  ApplicationDocument,
+  ApplicationDocumentContent,
+  fetchApplicationDocumentContent,
+} from "@/services/applicationDocumentService";
+
+interface DocumentViewerDialogProps {
+  document: ApplicationDocument | null;
+  onClose: () => void;
+}
+
+// Types the browser can show inline; others (e.g. DOCX) are downloaded
+const canShowInline = (mimeType?: string) =>
+  !!mimeType &&
+  (mimeType === "application/pdf" ||
+    mimeType.startsWith("text/") ||
+    mimeType.startsWith("image/"));
+
+const DocumentViewerDialog = ({
+  document,
+  onClose,
+}: DocumentViewerDialogProps) => {
+  const [content, setContent] = useState<ApplicationDocumentContent | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!document) return;
+
+    setContent(null);
+    setError(null);
+    setIsLoading(true);
+    fetchApplicationDocumentContent(document)
+      .then(setContent)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Please try again")
+      )
+      .finally(() => setIsLoading(false));
+  }, [document]);
+
+  return (
+    <Dialog open={!!document} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{document?.name}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="h-[60vh] flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : content?.text !== undefined ? (
+          <div className="max-h-[70vh] overflow-y-auto whitespace-pre-wrap rounded-md border bg-gray-50 p-4 text-sm">
+            {content.text}
+          </div>
+        ) : content?.url && canShowInline(content.mimeType) ? (
+          content.mimeType.startsWith("image/") ? (
+            <img
+              src={content.url}
+              alt={document?.name}
+              className="max-h-[70vh] mx-auto"
+            />
+          ) : (
+            <iframe
+              src={content.url}
+              title={document?.name}
+              className="w-full h-[70vh] rounded-md border"
+            />
+          )
+        ) : content?.url ? (
+          <div className="py-8 text-center space-y-3">
+            <p className="text-sm text-gray-500">
+              This file type can't be shown here
+            </p>
+            <Button asChild variant="outline">
+              <a href={content.url} target="_blank" rel="noopener noreferrer">
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </a>
+            </Button>
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentViewerDialog;
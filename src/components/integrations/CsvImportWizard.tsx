@@ -0,0 +1,710 @@
+import { ChangeEvent, useCallback, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+	AlertCircle,
+	AlertTriangle,
+	CheckCircle,
+	Copy,
+	FileSpreadsheet,
+	Upload,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { useAuth } from '@/contexts/AuthContext'
+import { useJobs } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { useTags } from '@/contexts/TagContext'
+import { useToast } from '@/hooks/use-toast'
+import { fetchDuplicateCandidates } from '@/services/duplicateService'
+import { JobApplication, JobTag } from '@/data/mockJobs'
+import {
+	ColumnMapping,
+	DateFormat,
+	ImportField,
+	ParsedCsv,
+	REQUIRED_IMPORT_FIELDS,
+	buildImportRows,
+	dateFormatLabels,
+	detectDateFormat,
+	getFieldValues,
+	guessColumnMapping,
+	guessStatusMapping,
+	importFieldLabels,
+	importFields,
+	parseCsv,
+	parseImportDate,
+} from '@/utils/csvImportUtils'
+import {
+	JobExport,
+	addExportedDetails,
+	exportToParsedCsv,
+	getMissingExportTags,
+	parseJobExport,
+} from '@/utils/exportUtils'
+
+type WizardStep = 'upload' | 'columns' | 'values' | 'preview' | 'done'
+
+const stepTitles: Record<WizardStep, string> = {
+	upload: 'Import from a spreadsheet',
+	columns: 'Match columns',
+	values: 'Match dates and statuses',
+	preview: 'Review import',
+	done: 'Import complete',
+}
+
+// Select value for columns that aren't imported
+const SKIP_COLUMN = 'skip'
+
+interface ImportSummary {
+	imported: number
+	invalid: number
+	duplicates: number
+}
+
+interface CsvImportWizardProps {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Dialog that imports applications from a CSV or TSV file: columns are
+ * matched to fields, dates and statuses to the user's formats and stages,
+ * and every row is validated and checked for duplicates before importing.
+ * JSON exports from the tracker skip matching columns and bring their
+ * notes, contacts, events, history and tags along.
+ */
+const CsvImportWizard = ({ open, onOpenChange }: CsvImportWizardProps) => {
+	const { user } = useAuth()
+	const { jobs, importJobs } = useJobs()
+	const { stages, getStageLabel } = usePipeline()
+	const { tags, createTag } = useTags()
+	const { toast } = useToast()
+	const navigate = useNavigate()
+
+	const [step, setStep] = useState<WizardStep>('upload')
+	const [fileName, setFileName] = useState('')
+	const [csv, setCsv] = useState<ParsedCsv | null>(null)
+	const [exported, setExported] = useState<JobExport | null>(null)
+	const [mapping, setMapping] = useState<ColumnMapping>([])
+	const [dateFormat, setDateFormat] = useState<DateFormat>('ymd')
+	const [statusMapping, setStatusMapping] = useState<Record<string, string>>({})
+	const [defaultStatus, setDefaultStatus] = useState('')
+	const [existingJobs, setExistingJobs] = useState<JobApplication[]>([])
+	const [skipDuplicates, setSkipDuplicates] = useState(true)
+	const [isImporting, setIsImporting] = useState(false)
+	const [summary, setSummary] = useState<ImportSummary | null>(null)
+
+	const reset = () => {
+		setStep('upload')
+		setFileName('')
+		setCsv(null)
+		setExported(null)
+		setMapping([])
+		setSummary(null)
+	}
+
+	const handleOpenChange = (isOpen: boolean) => {
+		if (!isOpen && !isImporting) reset()
+		onOpenChange(isOpen)
+	}
+
+	const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0]
+		e.target.value = ''
+		if (!file) return
+
+		try {
+			const text = await file.text()
+			const isJson = file.name.toLowerCase().endsWith('.json')
+			const data = isJson ? parseJobExport(text) : null
+			if (isJson && !data) {
+				toast({
+					title: 'Could not read file',
+					description:
+						'Only JSON files exported from this tracker can be imported',
+					variant: 'destructive',
+				})
+				return
+			}
+
+			const parsed = data ? exportToParsedCsv(data) : parseCsv(text)
+			if (parsed.rows.length === 0) {
+				toast({
+					title: 'Nothing to import',
+					description:
+						'The file needs a header row and at least one row below it',
+					variant: 'destructive',
+				})
+				return
+			}
+
+			const guessed = guessColumnMapping(parsed.headers)
+			const fallbackStatus =
+				stages.find((stage) => stage.outcome === 'applied')?.key ||
+				stages[0]?.key ||
+				'applied'
+			setFileName(file.name)
+			setCsv(parsed)
+			setExported(data)
+			setMapping(guessed)
+			setDateFormat(
+				detectDateFormat(getFieldValues(parsed, guessed, 'appliedDate'))
+			)
+			setDefaultStatus(fallbackStatus)
+
+			if (data) {
+				// An export's columns are known, so only statuses need matching
+				setStatusMapping(
+					guessStatusMapping(
+						getFieldValues(parsed, guessed, 'status'),
+						stages,
+						fallbackStatus
+					)
+				)
+				setStep('values')
+			} else {
+				setStep('columns')
+			}
+		} catch (error) {
+			console.error('Error reading import file:', error)
+			toast({
+				title: 'Could not read file',
+				description:
+					error instanceof Error ? error.message : 'Please try another file',
+				variant: 'destructive',
+			})
+			return
+		}
+
+		// Compare with every application, not just the ones loaded so far
+		if (user?.id) {
+			fetchDuplicateCandidates(user.id)
+				.then(setExistingJobs)
+				.catch((error) => {
+					console.error(
+						'Error loading applications for duplicate check:',
+						error
+					)
+					setExistingJobs(jobs)
+				})
+		}
+	}
+
+	/**
+	 * Import a column into a field, taking the field from any other column
+	 */
+	const setColumnField = (column: number, value: string) => {
+		const field = value === SKIP_COLUMN ? null : (value as ImportField)
+		setMapping((prev) =>
+			prev.map((current, i) =>
+				i === column ? field : current === field ? null : current
+			)
+		)
+	}
+
+	const missingFields = REQUIRED_IMPORT_FIELDS.filter(
+		(field) => !mapping.includes(field)
+	)
+
+	const statusValues = useMemo(
+		() =>
+			csv
+				? [
+						...new Set(
+							getFieldValues(csv, mapping, 'status')
+								.map((value) => value.trim())
+								.filter(Boolean)
+						),
+				  ]
+				: [],
+		[csv, mapping]
+	)
+
+	const dateSamples = useMemo(
+		() =>
+			csv
+				? getFieldValues(csv, mapping, 'appliedDate')
+						.filter(Boolean)
+						.slice(0, 3)
+				: [],
+		[csv, mapping]
+	)
+
+	const goToValues = () => {
+		setStatusMapping(guessStatusMapping(statusValues, stages, defaultStatus))
+		setDateFormat(detectDateFormat(getFieldValues(csv, mapping, 'appliedDate')))
+		setStep('values')
+	}
+
+	const buildRows = useCallback(
+		(withTags: JobTag[]) => {
+			const built = buildImportRows(
+				csv,
+				{ mapping, dateFormat, statusMapping, defaultStatus },
+				existingJobs
+			)
+			return exported ? addExportedDetails(built, exported, withTags) : built
+		},
+		[
+			csv,
+			exported,
+			mapping,
+			dateFormat,
+			statusMapping,
+			defaultStatus,
+			existingJobs,
+		]
+	)
+
+	const rows = useMemo(
+		() => (csv && step === 'preview' ? buildRows(tags) : []),
+		[csv, step, buildRows, tags]
+	)
+
+	const invalidRows = rows.filter((row) => row.errors.length > 0)
+	const duplicateRows = rows.filter(
+		(row) => row.errors.length === 0 && row.duplicate
+	)
+	const rowsToImport = rows.filter(
+		(row) => row.errors.length === 0 && !(skipDuplicates && row.duplicate)
+	)
+
+	const handleImport = async () => {
+		setIsImporting(true)
+		try {
+			let jobsToImport = rowsToImport.map((row) => row.job)
+
+			// Create the export's tags the user doesn't have, then apply them
+			if (exported) {
+				const missing = getMissingExportTags(exported, tags)
+				if (missing.length > 0) {
+					const created = await Promise.all(
+						missing.map((tag) => createTag(tag.name, tag.color))
+					)
+					const allTags = [...tags, ...created.filter(Boolean)]
+					const lines = new Set(rowsToImport.map((row) => row.line))
+					jobsToImport = buildRows(allTags)
+						.filter((row) => lines.has(row.line))
+						.map((row) => row.job)
+				}
+			}
+
+			const imported = await importJobs(jobsToImport)
+			if (imported > 0) {
+				setSummary({
+					imported,
+					invalid: invalidRows.length,
+					duplicates: skipDuplicates ? duplicateRows.length : 0,
+				})
+				setStep('done')
+			}
+		} finally {
+			setIsImporting(false)
+		}
+	}
+
+	return (
+		<Dialog
+			open={open}
+			onOpenChange={handleOpenChange}
+		>
+			<DialogContent className='sm:max-w-[760px] max-h-[90vh] overflow-y-auto'>
+				<DialogHeader>
+					<DialogTitle>{stepTitles[step]}</DialogTitle>
+					<DialogDescription>
+						{step === 'upload'
+							? 'Upload a CSV or TSV file exported from Excel, Google Sheets or another tracker, or a JSON export from this one.'
+							: step === 'done'
+							? fileName
+							: `${fileName} · ${csv?.rows.length ?? 0} rows`}
+					</DialogDescription>
+				</DialogHeader>
+
+				{step === 'upload' && (
+					<label className='flex flex-col items-center justify-center gap-2 border-2 border-dashed border-gray-200 rounded-lg py-10 cursor-pointer hover:bg-gray-50'>
+						<FileSpreadsheet className='h-8 w-8 text-gray-400' />
+						<span className='text-sm font-medium'>Choose a file</span>
+						<span className='text-xs text-gray-500'>
+							The first row should name the columns, e.g. Company, Position,
+							Date applied, Status
+						</span>
+						<input
+							type='file'
+							accept='.csv,.tsv,.txt,.json,text/csv,text/tab-separated-values,application/json'
+							className='sr-only'
+							onChange={handleFileChange}
+						/>
+					</label>
+				)}
+
+				{step === 'columns' && csv && (
+					<div className='space-y-4'>
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Column</TableHead>
+									<TableHead>First value</TableHead>
+									<TableHead className='w-[200px]'>Import as</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{csv.headers.map((header, column) => (
+									<TableRow key={column}>
+										<TableCell className='font-medium'>
+											{header || `Column ${column + 1}`}
+										</TableCell>
+										<TableCell className='text-gray-500 max-w-[220px] truncate'>
+											{csv.rows[0][column]}
+										</TableCell>
+										<TableCell>
+											<Select
+												value={mapping[column] || SKIP_COLUMN}
+												onValueChange={(value) => setColumnField(column, value)}
+											>
+												<SelectTrigger className='h-8'>
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													<SelectItem value={SKIP_COLUMN}>
+														Don't import
+													</SelectItem>
+													{importFields.map((field) => (
+														<SelectItem
+															key={field}
+															value={field}
+														>
+															{importFieldLabels[field]}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+						{missingFields.length > 0 && (
+							<p className='text-sm text-red-600'>
+								Choose the columns for{' '}
+								{missingFields
+									.map((field) => importFieldLabels[field].toLowerCase())
+									.join(' and ')}
+								.
+							</p>
+						)}
+					</div>
+				)}
+
+				{step === 'values' && (
+					<div className='space-y-6'>
+						{mapping.includes('appliedDate') && !exported && (
+							<div className='space-y-2'>
+								<Label>Date format</Label>
+								<Select
+									value={dateFormat}
+									onValueChange={(value) => setDateFormat(value as DateFormat)}
+								>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{Object.entries(dateFormatLabels).map(([format, label]) => (
+											<SelectItem
+												key={format}
+												value={format}
+											>
+												{label}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+								{dateSamples.map((sample) => (
+									<p
+										key={sample}
+										className='text-xs text-gray-500'
+									>
+										{sample} →{' '}
+										{parseImportDate(sample, dateFormat) || 'not a valid date'}
+									</p>
+								))}
+							</div>
+						)}
+
+						<div className='space-y-2'>
+							<Label>Statuses</Label>
+							{statusValues.length === 0 && (
+								<p className='text-sm text-gray-500'>
+									No statuses in the file. Choose the stage to import into
+									below.
+								</p>
+							)}
+							{statusValues.map((value) => (
+								<div
+									key={value}
+									className='flex items-center gap-3'
+								>
+									<span className='flex-1 text-sm truncate'>{value}</span>
+									<Select
+										value={statusMapping[value]}
+										onValueChange={(key) =>
+											setStatusMapping((prev) => ({ ...prev, [value]: key }))
+										}
+									>
+										<SelectTrigger className='w-[220px] h-8'>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{stages.map((stage) => (
+												<SelectItem
+													key={stage.key}
+													value={stage.key}
+												>
+													{stage.label}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								</div>
+							))}
+							<div className='flex items-center gap-3'>
+								<span className='flex-1 text-sm text-gray-500'>
+									Rows without a status
+								</span>
+								<Select
+									value={defaultStatus}
+									onValueChange={setDefaultStatus}
+								>
+									<SelectTrigger className='w-[220px] h-8'>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{stages.map((stage) => (
+											<SelectItem
+												key={stage.key}
+												value={stage.key}
+											>
+												{stage.label}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+						</div>
+					</div>
+				)}
+
+				{step === 'preview' && (
+					<div className='space-y-4'>
+						<div className='flex flex-wrap gap-4 text-sm'>
+							<span className='flex items-center text-green-700'>
+								<CheckCircle className='mr-1.5 h-4 w-4' />
+								{rowsToImport.length} to import
+							</span>
+							<span className='flex items-center text-red-600'>
+								<AlertCircle className='mr-1.5 h-4 w-4' />
+								{invalidRows.length} with errors
+							</span>
+							<span className='flex items-center text-amber-600'>
+								<Copy className='mr-1.5 h-4 w-4' />
+								{duplicateRows.length} possible duplicates
+							</span>
+						</div>
+
+						<div className='flex items-center space-x-2'>
+							<Checkbox
+								id='skip-duplicates'
+								checked={skipDuplicates}
+								onCheckedChange={(checked) =>
+									setSkipDuplicates(checked === true)
+								}
+							/>
+							<Label htmlFor='skip-duplicates'>
+								Skip rows that look like applications you already track
+							</Label>
+						</div>
+
+						<div className='max-h-[45vh] overflow-y-auto border rounded-md'>
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead className='w-[60px]'>Row</TableHead>
+										<TableHead>Application</TableHead>
+										<TableHead>Status</TableHead>
+										<TableHead>Applied</TableHead>
+										<TableHead>Issues</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{rows.map((row) => (
+										<TableRow
+											key={row.line}
+											className={
+												row.errors.length > 0 ? 'bg-red-50' : undefined
+											}
+										>
+											<TableCell className='text-gray-500'>
+												{row.line}
+											</TableCell>
+											<TableCell>
+												<div className='font-medium'>
+													{row.job.position || '—'}
+												</div>
+												<div className='text-xs text-gray-500'>
+													{row.job.company || '—'}
+												</div>
+											</TableCell>
+											<TableCell>{getStageLabel(row.job.status)}</TableCell>
+											<TableCell>{row.job.appliedDate || '—'}</TableCell>
+											<TableCell className='text-xs space-y-1'>
+												{row.errors.map((error) => (
+													<div
+														key={error}
+														className='flex items-start text-red-600'
+													>
+														<AlertCircle className='mr-1 h-3.5 w-3.5 shrink-0' />
+														{error}
+													</div>
+												))}
+												{row.warnings.map((warning) => (
+													<div
+														key={warning}
+														className='flex items-start text-amber-600'
+													>
+														<AlertTriangle className='mr-1 h-3.5 w-3.5 shrink-0' />
+														{warning}
+													</div>
+												))}
+												{row.errors.length === 0 && row.duplicate && (
+													<div className='flex items-start text-amber-600'>
+														<Copy className='mr-1 h-3.5 w-3.5 shrink-0' />
+														Looks like {row.duplicate.job.position} at{' '}
+														{row.duplicate.job.company}
+													</div>
+												)}
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</div>
+					</div>
+				)}
+
+				{step === 'done' && summary && (
+					<div className='space-y-2 text-sm'>
+						<p className='flex items-center text-green-700'>
+							<CheckCircle className='mr-2 h-4 w-4' />
+							{summary.imported === 1
+								? '1 application imported'
+								: `${summary.imported} applications imported`}
+						</p>
+						{summary.duplicates > 0 && (
+							<p className='text-gray-600'>
+								{summary.duplicates} possible duplicates skipped
+							</p>
+						)}
+						{summary.invalid > 0 && (
+							<p className='text-gray-600'>
+								{summary.invalid} rows with errors skipped
+							</p>
+						)}
+					</div>
+				)}
+
+				<DialogFooter>
+					{step === 'columns' && (
+						<>
+							<Button
+								variant='outline'
+								onClick={reset}
+							>
+								Choose another file
+							</Button>
+							<Button
+								onClick={goToValues}
+								disabled={missingFields.length > 0}
+							>
+								Next
+							</Button>
+						</>
+					)}
+					{step === 'values' && (
+						<>
+							<Button
+								variant='outline'
+								onClick={() => (exported ? reset() : setStep('columns'))}
+							>
+								{exported ? 'Choose another file' : 'Back'}
+							</Button>
+							<Button onClick={() => setStep('preview')}>Preview</Button>
+						</>
+					)}
+					{step === 'preview' && (
+						<>
+							<Button
+								variant='outline'
+								onClick={() => setStep('values')}
+								disabled={isImporting}
+							>
+								Back
+							</Button>
+							<Button
+								onClick={handleImport}
+								disabled={isImporting || rowsToImport.length === 0}
+							>
+								<Upload className='mr-2 h-4 w-4' />
+								{isImporting
+									? 'Importing...'
+									: `Import ${rowsToImport.length} applications`}
+							</Button>
+						</>
+					)}
+					{step === 'done' && (
+						<>
+							<Button
+								variant='outline'
+								onClick={reset}
+							>
+								Import another file
+							</Button>
+							<Button
+								onClick={() => {
+									handleOpenChange(false)
+									navigate('/applications')
+								}}
+							>
+								View applications
+							</Button>
+						</>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+export default CsvImportWizard
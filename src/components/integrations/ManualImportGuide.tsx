@@ -19,11 +19,11 @@ import {
 	CheckCircle,
 	HelpCircle,
 	FileText,
-	Linkedin,
-	Briefcase,
+	FileSpreadsheet,
 } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
 import { useToast } from '@/components/ui/use-toast'
+import CsvImportWizard from './CsvImportWizard'
 
 // Custom styles for logo images to prevent layout shifts and flashing
 const logoImageStyle = {
@@ -42,6 +42,7 @@ const ManualImportGuide = () => {
 	const [loading, setLoading] = useState(false)
 	const [instructions, setInstructions] = useState<string | null>(null)
 	const [imageLoaded, setImageLoaded] = useState(false)
+	const [isCsvImportOpen, setIsCsvImportOpen] = useState(false)
 
 	// Reset image loaded state when tab changes
 	useEffect(() => {
@@ -96,7 +97,7 @@ const ManualImportGuide = () => {
 			<CardHeader>
 				<CardTitle className='text-xl'>Import Job Applications</CardTitle>
 				<CardDescription>
-					Import your job applications from LinkedIn and Indeed
+					Import your job applications from LinkedIn, Indeed or a spreadsheet
 				</CardDescription>
 			</CardHeader>
 			<CardContent>
@@ -125,9 +126,10 @@ const ManualImportGuide = () => {
 						value={activeTab}
 						onValueChange={setActiveTab}
 					>
-						<TabsList className='grid w-full grid-cols-2'>
+						<TabsList className='grid w-full grid-cols-3'>
 							<TabsTrigger value='linkedin'>LinkedIn</TabsTrigger>
 							<TabsTrigger value='indeed'>Indeed</TabsTrigger>
+							<TabsTrigger value='spreadsheet'>Spreadsheet</TabsTrigger>
 						</TabsList>
 						<TabsContent
 							value='linkedin'
@@ -217,8 +219,36 @@ const ManualImportGuide = () => {
 								</div>
 							</div>
 						</TabsContent>
+						<TabsContent
+							value='spreadsheet'
+							className='space-y-4 mt-4'
+						>
+							<div className='bg-muted p-4 rounded-lg'>
+								<h3 className='font-medium flex items-center'>
+									<FileSpreadsheet className='mr-2 h-5 w-5 text-green-600' />
+									Spreadsheet (CSV or TSV)
+								</h3>
+								<p className='text-sm mt-2'>
+									Bring in the applications you've tracked in Excel, Google
+									Sheets or another tool. You'll match the columns and review
+									every row before anything is imported.
+								</p>
+								<div className='mt-4'>
+									<Button
+										onClick={() => setIsCsvImportOpen(true)}
+										className='w-full'
+									>
+										Import from File
+									</Button>
+								</div>
+							</div>
+						</TabsContent>
 					</Tabs>
 				)}
+				<CsvImportWizard
+					open={isCsvImportOpen}
+					onOpenChange={setIsCsvImportOpen}
+				/>
 			</CardContent>
 			<CardFooter className='flex justify-between'>
 				<div className='flex items-center text-sm text-muted-foreground'>
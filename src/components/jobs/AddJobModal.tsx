@@ -8,10 +8,27 @@ import {
 	DialogFooter,
 	DialogClose,
 } from '@/components/ui/dialog'
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
 import { Button } from '@/components/ui/button'
 import { PlusCircle } from 'lucide-react'
 import { JobApplication } from '@/data/mockJobs'
+import { useAuth } from '@/contexts/AuthContext'
 import { useJobs } from '@/contexts/JobContext'
+import { fetchDuplicateCandidates } from '@/services/duplicateService'
+import {
+	DuplicateMatch,
+	duplicateReasonLabels,
+	findDuplicates,
+} from '@/utils/duplicateUtils'
 import JobForm from './JobForm'
 
 interface AddJobModalProps {
@@ -22,9 +39,34 @@ interface AddJobModalProps {
 const AddJobModal = ({ onAddJob, buttonId }: AddJobModalProps) => {
 	const [open, setOpen] = useState(false)
 	const [isSubmitting, setIsSubmitting] = useState(false)
-	const { addJob } = useJobs()
+	// A job held back because it looks like one already tracked
+	const [pendingJob, setPendingJob] = useState<JobApplication | null>(null)
+	const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([])
+	const { user } = useAuth()
+	const { jobs, addJob } = useJobs()
 
 	const handleSubmit = async (job: JobApplication) => {
+		// Compare with every application, not just the ones loaded so far
+		let existingJobs = jobs
+		if (user?.id) {
+			try {
+				existingJobs = await fetchDuplicateCandidates(user.id)
+			} catch (error) {
+				console.error('Error loading applications for duplicate check:', error)
+			}
+		}
+
+		const matches = findDuplicates(job, existingJobs)
+		if (matches.length > 0) {
+			setPendingJob(job)
+			setDuplicates(matches)
+			return
+		}
+
+		await saveJob(job)
+	}
+
+	const saveJob = async (job: JobApplication) => {
 		// Prevent duplicate submissions
 		if (isSubmitting) return
 
@@ -52,6 +94,14 @@ const AddJobModal = ({ onAddJob, buttonId }: AddJobModalProps) => {
 		setOpen(false)
 	}
 
+	const handleAddAnyway = async () => {
+		const job = pendingJob
+		setPendingJob(null)
+		if (job) {
+			await saveJob(job)
+		}
+	}
+
 	return (
 		<Dialog
 			open={open}
@@ -91,6 +141,45 @@ const AddJobModal = ({ onAddJob, buttonId }: AddJobModalProps) => {
 					</Button>
 				</DialogFooter>
 			</DialogContent>
+
+			<AlertDialog
+				open={!!pendingJob}
+				onOpenChange={(isOpen) => !isOpen && setPendingJob(null)}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Possible duplicate</AlertDialogTitle>
+						<AlertDialogDescription>
+							This looks like an application you already track.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<ul className='space-y-2 text-sm'>
+						{duplicates.slice(0, 3).map((match) => (
+							<li
+								key={match.job.id}
+								className='rounded-md border p-2'
+							>
+								<p className='font-medium'>
+									{match.job.position} at {match.job.company}
+								</p>
+								<p className='text-xs text-gray-500'>
+									{duplicateReasonLabels[match.reason]}
+									{match.job.appliedDate &&
+										` · Applied ${new Date(
+											match.job.appliedDate
+										).toLocaleDateString()}`}
+								</p>
+							</li>
+						))}
+					</ul>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Go back</AlertDialogCancel>
+						<AlertDialogAction onClick={handleAddAnyway}>
+							Add anyway
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
 		</Dialog>
 	)
 }
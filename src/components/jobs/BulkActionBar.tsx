@@ -0,0 +1,293 @@
+import { useState } from 'react'
+import {
+	Archive,
+	ArchiveRestore,
+	CalendarClock,
+	ChevronDown,
+	Download,
+	Tag,
+	Trash2,
+	X,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSub,
+	DropdownMenuSubContent,
+	DropdownMenuSubTrigger,
+	DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from '@/components/ui/popover'
+import { useJobs } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { useTags } from '@/contexts/TagContext'
+import { useJobExport } from '@/hooks/use-job-export'
+import { JobBulkEdit, describeBulkEdit } from '@/utils/bulkEditUtils'
+import { exportFormatLabels, exportFormats } from '@/utils/exportUtils'
+import { sortTags } from '@/utils/tagUtils'
+
+interface BulkActionBarProps {
+	selectedIds: string[]
+	onClear: () => void
+	onSelectAll?: () => void // Select every job shown
+	canSelectMore?: boolean // Not every job shown is selected
+	archived?: boolean // The selection is of archived jobs
+}
+
+/**
+ * Bar of actions for the selected jobs. Each action is one operation the
+ * toast that follows can undo.
+ */
+const BulkActionBar = ({
+	selectedIds,
+	onClear,
+	onSelectAll,
+	canSelectMore = false,
+	archived = false,
+}: BulkActionBarProps) => {
+	const { jobs, bulkEditJobs, deleteJobs } = useJobs()
+	const { stages, getStageLabel } = usePipeline()
+	const { tags } = useTags()
+	const { exportJobs, isExporting } = useJobExport()
+	const [followUpDate, setFollowUpDate] = useState('')
+	const [isFollowUpOpen, setIsFollowUpOpen] = useState(false)
+
+	if (selectedIds.length === 0) return null
+
+	const count = selectedIds.length
+	const sortedTags = sortTags(tags)
+
+	const edit = (change: JobBulkEdit) =>
+		bulkEditJobs(
+			selectedIds,
+			change,
+			describeBulkEdit(change, count, getStageLabel)
+		)
+
+	const handleArchive = async () => {
+		await edit({ type: archived ? 'unarchive' : 'archive' })
+		onClear()
+	}
+
+	const handleDelete = async () => {
+		await deleteJobs(selectedIds)
+		onClear()
+	}
+
+	const handleFollowUp = (date: string | null) => {
+		setIsFollowUpOpen(false)
+		edit({ type: 'followUp', date })
+	}
+
+	return (
+		<div className='fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center gap-2 bg-white border border-gray-200 rounded-lg shadow-lg px-4 py-2 max-w-[95vw]'>
+			<span className='text-sm font-medium mr-1'>{count} selected</span>
+			{canSelectMore && onSelectAll && (
+				<Button
+					variant='link'
+					size='sm'
+					className='h-8 px-1'
+					onClick={onSelectAll}
+				>
+					Select all
+				</Button>
+			)}
+
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button
+						variant='outline'
+						size='sm'
+						className='h-8'
+					>
+						Status
+						<ChevronDown className='ml-1 h-4 w-4' />
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent align='start'>
+					<DropdownMenuLabel>Move to</DropdownMenuLabel>
+					{stages.map((stage) => (
+						<DropdownMenuItem
+							key={stage.key}
+							onSelect={() => edit({ type: 'status', status: stage.key })}
+						>
+							<span
+								className='w-2 h-2 rounded-full mr-2'
+								style={{ backgroundColor: stage.color }}
+							/>
+							{stage.label}
+						</DropdownMenuItem>
+					))}
+				</DropdownMenuContent>
+			</DropdownMenu>
+
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button
+						variant='outline'
+						size='sm'
+						className='h-8'
+						disabled={tags.length === 0}
+					>
+						<Tag className='mr-1 h-4 w-4' />
+						Tags
+						<ChevronDown className='ml-1 h-4 w-4' />
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent align='start'>
+					<DropdownMenuSub>
+						<DropdownMenuSubTrigger>Add tag</DropdownMenuSubTrigger>
+						<DropdownMenuSubContent>
+							{sortedTags.map((tag) => (
+								<DropdownMenuItem
+									key={tag.id}
+									onSelect={() => edit({ type: 'addTags', tagIds: [tag.id] })}
+								>
+									<span
+										className='w-2 h-2 rounded-full mr-2'
+										style={{ backgroundColor: tag.color }}
+									/>
+									{tag.name}
+								</DropdownMenuItem>
+							))}
+						</DropdownMenuSubContent>
+					</DropdownMenuSub>
+					<DropdownMenuSub>
+						<DropdownMenuSubTrigger>Remove tag</DropdownMenuSubTrigger>
+						<DropdownMenuSubContent>
+							{sortedTags.map((tag) => (
+								<DropdownMenuItem
+									key={tag.id}
+									onSelect={() =>
+										edit({ type: 'removeTags', tagIds: [tag.id] })
+									}
+								>
+									<span
+										className='w-2 h-2 rounded-full mr-2'
+										style={{ backgroundColor: tag.color }}
+									/>
+									{tag.name}
+								</DropdownMenuItem>
+							))}
+						</DropdownMenuSubContent>
+					</DropdownMenuSub>
+				</DropdownMenuContent>
+			</DropdownMenu>
+
+			<Popover
+				open={isFollowUpOpen}
+				onOpenChange={setIsFollowUpOpen}
+			>
+				<PopoverTrigger asChild>
+					<Button
+						variant='outline'
+						size='sm'
+						className='h-8'
+					>
+						<CalendarClock className='mr-1 h-4 w-4' />
+						Follow up
+					</Button>
+				</PopoverTrigger>
+				<PopoverContent className='w-64 space-y-3'>
+					<Input
+						type='date'
+						value={followUpDate}
+						onChange={(e) => setFollowUpDate(e.target.value)}
+						aria-label='Follow-up date'
+					/>
+					<div className='flex justify-between'>
+						<Button
+							variant='ghost'
+							size='sm'
+							onClick={() => handleFollowUp(null)}
+						>
+							Clear
+						</Button>
+						<Button
+							size='sm'
+							disabled={!followUpDate}
+							onClick={() => handleFollowUp(followUpDate)}
+						>
+							Set date
+						</Button>
+					</div>
+				</PopoverContent>
+			</Popover>
+
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button
+						variant='outline'
+						size='sm'
+						className='h-8'
+						disabled={isExporting}
+					>
+						<Download className='mr-1 h-4 w-4' />
+						Export
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent align='start'>
+					{exportFormats.map((format) => (
+						<DropdownMenuItem
+							key={format}
+							onSelect={() =>
+								exportJobs(
+									async () =>
+										jobs.filter((job) => selectedIds.includes(job.id)),
+									'selected applications',
+									format
+								)
+							}
+						>
+							{exportFormatLabels[format]}
+						</DropdownMenuItem>
+					))}
+				</DropdownMenuContent>
+			</DropdownMenu>
+
+			<Button
+				variant='outline'
+				size='sm'
+				className='h-8'
+				onClick={handleArchive}
+			>
+				{archived ? (
+					<ArchiveRestore className='mr-1 h-4 w-4' />
+				) : (
+					<Archive className='mr-1 h-4 w-4' />
+				)}
+				{archived ? 'Unarchive' : 'Archive'}
+			</Button>
+
+			<Button
+				variant='outline'
+				size='sm'
+				className='h-8 text-red-600 hover:text-red-700'
+				onClick={handleDelete}
+			>
+				<Trash2 className='mr-1 h-4 w-4' />
+				Delete
+			</Button>
+
+			<Button
+				variant='ghost'
+				size='sm'
+				className='h-8 w-8 p-0'
+				onClick={onClear}
+				aria-label='Clear selection'
+			>
+				<X className='h-4 w-4' />
+			</Button>
+		</div>
+	)
+}
+
+export default BulkActionBar
@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react'
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { Company } from '@/data/mockJobs'
+import { isSafeUrl } from '@/utils/security'
+import { getCompanyDomain, parseCompanyAliases } from '@/utils/companyUtils'
+
+interface CompanyFormDialogProps {
+	isOpen: boolean
+	onClose: () => void
+	onSubmit: (company: Company) => Promise<void>
+	company: Company
+}
+
+const COMPANY_SIZES = [
+	'1-10',
+	'11-50',
+	'51-200',
+	'201-1000',
+	'1001-5000',
+	'5000+',
+]
+
+// Select items can't have an empty value
+const NO_SIZE = 'none'
+
+const CompanyFormDialog = ({
+	isOpen,
+	onClose,
+	onSubmit,
+	company,
+}: CompanyFormDialogProps) => {
+	const [formData, setFormData] = useState({
+		name: '',
+		aliases: '',
+		website: '',
+		domain: '',
+		logoUrl: '',
+		size: NO_SIZE,
+		industry: '',
+		notes: '',
+	})
+	const [error, setError] = useState<string | null>(null)
+	const [isSaving, setIsSaving] = useState(false)
+
+	// Reset the form whenever the dialog opens
+	useEffect(() => {
+		if (!isOpen) return
+		setError(null)
+		setFormData({
+			name: company.name,
+			aliases: company.aliases.join(', '),
+			website: company.website || '',
+			domain: company.domain || '',
+			logoUrl: company.logoUrl || '',
+			size: company.size || NO_SIZE,
+			industry: company.industry || '',
+			notes: company.notes || '',
+		})
+	}, [isOpen, company])
+
+	const handleChange = (
+		e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+	) => {
+		const { name, value } = e.target
+		setFormData((prev) => ({ ...prev, [name]: value }))
+	}
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+
+		if (!formData.name.trim()) {
+			setError('Name is required')
+			return
+		}
+		for (const [label, url] of [
+			['Website', formData.website],
+			['Logo', formData.logoUrl],
+		]) {
+			if (url.trim() && !isSafeUrl(url.trim())) {
+				setError(`${label} must be an http or https link`)
+				return
+			}
+		}
+
+		setIsSaving(true)
+		try {
+			await onSubmit({
+				id: company.id,
+				name: formData.name,
+				aliases: parseCompanyAliases(formData.aliases),
+				website: formData.website || undefined,
+				domain:
+					formData.domain.trim() || getCompanyDomain(formData.website.trim()),
+				logoUrl: formData.logoUrl || undefined,
+				size: formData.size === NO_SIZE ? undefined : formData.size,
+				industry: formData.industry || undefined,
+				notes: formData.notes || undefined,
+			})
+			onClose()
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Please try again')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Dialog
+			open={isOpen}
+			onOpenChange={onClose}
+		>
+			<DialogContent className='sm:max-w-[500px]'>
+				<DialogHeader>
+					<DialogTitle>Edit Company</DialogTitle>
+				</DialogHeader>
+
+				<form
+					onSubmit={handleSubmit}
+					className='grid gap-4 py-2'
+				>
+					<div className='grid gap-2'>
+						<Label htmlFor='company-name'>Name</Label>
+						<Input
+							id='company-name'
+							name='name'
+							value={formData.name}
+							onChange={handleChange}
+						/>
+					</div>
+					<div className='grid gap-2'>
+						<Label htmlFor='company-aliases'>Also known as</Label>
+						<Input
+							id='company-aliases'
+							name='aliases'
+							value={formData.aliases}
+							onChange={handleChange}
+							placeholder='Acme Inc, Acme Corporation'
+						/>
+						<p className='text-xs text-gray-500'>
+							Applications saved under these names are linked to this company
+						</p>
+					</div>
+					<div className='grid grid-cols-2 gap-4'>
+						<div className='grid gap-2'>
+							<Label htmlFor='company-website'>Website</Label>
+							<Input
+								id='company-website'
+								name='website'
+								value={formData.website}
+								onChange={handleChange}
+								placeholder='https://acme.com'
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label htmlFor='company-domain'>Domain</Label>
+							<Input
+								id='company-domain'
+								name='domain'
+								value={formData.domain}
+								onChange={handleChange}
+								placeholder='acme.com'
+							/>
+						</div>
+					</div>
+					<div className='grid gap-2'>
+						<Label htmlFor='company-logo'>Logo URL</Label>
+						<Input
+							id='company-logo'
+							name='logoUrl'
+							value={formData.logoUrl}
+							onChange={handleChange}
+						/>
+					</div>
+					<div className='grid grid-cols-2 gap-4'>
+						<div className='grid gap-2'>
+							<Label htmlFor='company-industry'>Industry</Label>
+							<Input
+								id='company-industry'
+								name='industry'
+								value={formData.industry}
+								onChange={handleChange}
+								placeholder='Software'
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label>Size</Label>
+							<Select
+								value={formData.size}
+								onValueChange={(size) =>
+									setFormData((prev) => ({ ...prev, size }))
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={NO_SIZE}>Unknown</SelectItem>
+									{COMPANY_SIZES.map((size) => (
+										<SelectItem
+											key={size}
+											value={size}
+										>
+											{size} people
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+					<div className='grid gap-2'>
+						<Label htmlFor='company-notes'>Notes</Label>
+						<Textarea
+							id='company-notes'
+							name='notes'
+							value={formData.notes}
+							onChange={handleChange}
+							rows={3}
+						/>
+					</div>
+
+					{error && <p className='text-sm text-red-600'>{error}</p>}
+
+					<DialogFooter>
+						<Button
+							type='button'
+							variant='outline'
+							onClick={onClose}
+						>
+							Cancel
+						</Button>
+						<Button
+							type='submit'
+							disabled={isSaving}
+						>
+							{isSaving ? 'Saving...' : 'Save Changes'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+export default CompanyFormDialog
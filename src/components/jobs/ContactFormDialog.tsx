@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { JobContact } from '@/data/mockJobs'
+import { JobContactInput } from '@/contexts/JobContext'
+
+interface ContactFormDialogProps {
+	isOpen: boolean
+	onClose: () => void
+	onSubmit: (contact: JobContactInput) => void | Promise<void>
+	initialData?: JobContact | null
+}
+
+const emptyForm = {
+	name: '',
+	email: '',
+	phone: '',
+	position: '',
+	lastContactedAt: '',
+}
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
+
+const ContactFormDialog = ({
+	isOpen,
+	onClose,
+	onSubmit,
+	initialData,
+}: ContactFormDialogProps) => {
+	const [formData, setFormData] = useState(emptyForm)
+	const [error, setError] = useState<string | null>(null)
+
+	// Reset the form whenever the dialog opens
+	useEffect(() => {
+		if (!isOpen) return
+		setError(null)
+		setFormData(
+			initialData
+				? {
+						name: initialData.name || '',
+						email: initialData.email || '',
+						phone: initialData.phone || '',
+						position: initialData.position || '',
+						lastContactedAt: initialData.lastContactedAt
+							? format(new Date(initialData.lastContactedAt), 'yyyy-MM-dd')
+							: '',
+				  }
+				: emptyForm
+		)
+	}, [isOpen, initialData])
+
+	const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const { name, value } = e.target
+		setFormData((prev) => ({ ...prev, [name]: value }))
+	}
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+
+		if (!formData.name.trim()) {
+			setError('Name is required')
+			return
+		}
+		if (!isValidEmail(formData.email.trim())) {
+			setError('A valid email address is required')
+			return
+		}
+
+		await onSubmit({
+			name: formData.name,
+			email: formData.email,
+			phone: formData.phone || undefined,
+			position: formData.position || undefined,
+			lastContactedAt: formData.lastContactedAt
+				? new Date(formData.lastContactedAt).toISOString()
+				: undefined,
+		})
+		onClose()
+	}
+
+	return (
+		<Dialog
+			open={isOpen}
+			onOpenChange={onClose}
+		>
+			<DialogContent className='sm:max-w-[450px]'>
+				<DialogHeader>
+					<DialogTitle>
+						{initialData ? 'Edit Contact' : 'Add Contact'}
+					</DialogTitle>
+				</DialogHeader>
+
+				<form
+					onSubmit={handleSubmit}
+					className='grid gap-4 py-2'
+				>
+					<div className='grid gap-2'>
+						<Label htmlFor='contact-name'>Name</Label>
+						<Input
+							id='contact-name'
+							name='name'
+							value={formData.name}
+							onChange={handleChange}
+							placeholder='Jane Smith'
+						/>
+					</div>
+					<div className='grid gap-2'>
+						<Label htmlFor='contact-email'>Email</Label>
+						<Input
+							id='contact-email'
+							name='email'
+							type='email'
+							value={formData.email}
+							onChange={handleChange}
+							placeholder='jane@company.com'
+						/>
+					</div>
+					<div className='grid grid-cols-2 gap-4'>
+						<div className='grid gap-2'>
+							<Label htmlFor='contact-position'>Role</Label>
+							<Input
+								id='contact-position'
+								name='position'
+								value={formData.position}
+								onChange={handleChange}
+								placeholder='Recruiter'
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label htmlFor='contact-phone'>Phone</Label>
+							<Input
+								id='contact-phone'
+								name='phone'
+								value={formData.phone}
+								onChange={handleChange}
+							/>
+						</div>
+					</div>
+					<div className='grid gap-2'>
+						<Label htmlFor='contact-last-contacted'>Last contacted</Label>
+						<Input
+							id='contact-last-contacted'
+							name='lastContactedAt'
+							type='date'
+							value={formData.lastContactedAt}
+							onChange={handleChange}
+						/>
+					</div>
+
+					{error && <p className='text-sm text-red-600'>{error}</p>}
+
+					<DialogFooter>
+						<Button
+							type='button'
+							variant='outline'
+							onClick={onClose}
+						>
+							Cancel
+						</Button>
+						<Button type='submit'>
+							{initialData ? 'Save Changes' : 'Add Contact'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+export default ContactFormDialog
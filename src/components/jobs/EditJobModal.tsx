@@ -11,7 +11,9 @@ import { Button } from '@/components/ui/button'
 import { toast } from 'sonner'
 import { JobApplication } from '@/data/mockJobs'
 import { useJobs } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
 import JobForm from './JobForm'
+import RejectionFormDialog from './RejectionFormDialog'
 
 interface EditJobModalProps {
 	isOpen: boolean
@@ -20,8 +22,11 @@ interface EditJobModalProps {
 }
 
 const EditJobModal = ({ isOpen, onClose, jobId }: EditJobModalProps) => {
-	const { jobs, updateJob } = useJobs()
+	const { jobs, updateJob, saveRejection } = useJobs()
+	const { getOutcome } = usePipeline()
 	const [initialJob, setInitialJob] = useState<JobApplication | null>(null)
+	// Set after saving a move into a rejected stage, to ask why
+	const [isRecordingRejection, setIsRecordingRejection] = useState(false)
 
 	// Find the job when jobId changes
 	useEffect(() => {
@@ -39,9 +44,9 @@ const EditJobModal = ({ isOpen, onClose, jobId }: EditJobModalProps) => {
 						// Combine basic job with detailed data from cache
 						const fullJob = {
 							...basicJob,
-							companyWebsite: parsedDetails.company_website || '',
+							companyWebsite: parsedDetails.companyWebsite || '',
 							salary: parsedDetails.salary || '',
-							jobDescription: parsedDetails.job_description || '',
+							jobDescription: parsedDetails.jobDescription || '',
 						}
 						setInitialJob(fullJob)
 						return
@@ -79,7 +84,15 @@ const EditJobModal = ({ isOpen, onClose, jobId }: EditJobModalProps) => {
 				sessionStorage.removeItem(`job_details_${jobToUpdate.id}`)
 
 				toast.success('Job updated successfully!')
-				onClose()
+
+				const wasRejected =
+					getOutcome(jobToUpdate.status) === 'rejected' &&
+					getOutcome(initialJob.status) !== 'rejected'
+				if (wasRejected) {
+					setIsRecordingRejection(true)
+				} else {
+					onClose()
+				}
 			})
 			.catch((error) => {
 				console.error('Error updating job:', error)
@@ -91,39 +104,54 @@ const EditJobModal = ({ isOpen, onClose, jobId }: EditJobModalProps) => {
 		onClose()
 	}
 
+	const handleRejectionClose = () => {
+		setIsRecordingRejection(false)
+		onClose()
+	}
+
 	if (!initialJob) return null
 
 	return (
-		<Dialog
-			open={isOpen}
-			onOpenChange={onClose}
-		>
-			<DialogContent className='sm:max-w-[550px]'>
-				<DialogHeader>
-					<DialogTitle>Edit Job Application</DialogTitle>
-				</DialogHeader>
-
-				<JobForm
-					onSubmit={handleSubmit}
-					onCancel={handleCancel}
-					initialData={initialJob}
-				/>
-
-				<DialogFooter>
-					<DialogClose asChild>
-						<Button variant='outline'>Cancel</Button>
-					</DialogClose>
-					<Button
-						onClick={() => {
-							// Find the form submit button by its id and click it
-							document.getElementById('job-form-submit')?.click()
-						}}
-					>
-						Save Changes
-					</Button>
-				</DialogFooter>
-			</DialogContent>
-		</Dialog>
+		<>
+			<Dialog
+				open={isOpen && !isRecordingRejection}
+				onOpenChange={onClose}
+			>
+				<DialogContent className='sm:max-w-[550px]'>
+					<DialogHeader>
+						<DialogTitle>Edit Job Application</DialogTitle>
+					</DialogHeader>
+
+					<JobForm
+						onSubmit={handleSubmit}
+						onCancel={handleCancel}
+						initialData={initialJob}
+					/>
+
+					<DialogFooter>
+						<DialogClose asChild>
+							<Button variant='outline'>Cancel</Button>
+						</DialogClose>
+						<Button
+							onClick={() => {
+								// Find the form submit button by its id and click it
+								document.getElementById('job-form-submit')?.click()
+							}}
+						>
+							Save Changes
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+
+			<RejectionFormDialog
+				isOpen={isOpen && isRecordingRejection}
+				onClose={handleRejectionClose}
+				onSubmit={(rejection) => saveRejection(initialJob.id, rejection)}
+				job={initialJob}
+				initialData={jobs.find((job) => job.id === initialJob.id)?.rejection}
+			/>
+		</>
 	)
 }
 
@@ -0,0 +1,71 @@
+import { ChevronDown, Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useJobs } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { useTags } from '@/contexts/TagContext'
+import { useJobExport } from '@/hooks/use-job-export'
+import { JobPageQuery } from '@/utils/jobPageUtils'
+import { exportFormatLabels, exportFormats } from '@/utils/exportUtils'
+
+interface ExportMenuProps {
+	query: JobPageQuery // The applications shown, with the page's filters
+	name: string // What is shown, e.g. the saved view's name, for the file name
+}
+
+/**
+ * Menu for downloading the applications shown on the Applications page,
+ * with their events, notes, contacts and the user's documents
+ */
+const ExportMenu = ({ query, name }: ExportMenuProps) => {
+	const { fetchAllJobs } = useJobs()
+	const { stages } = usePipeline()
+	const { tags } = useTags()
+	const { exportJobs, isExporting } = useJobExport()
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button
+					variant='outline'
+					size='sm'
+					className='rounded-md text-sm h-9'
+					disabled={isExporting}
+				>
+					<Download className='mr-2 h-4 w-4' />
+					{isExporting ? 'Exporting...' : 'Export'}
+					<ChevronDown className='ml-2 h-4 w-4' />
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent
+				align='end'
+				className='w-72'
+			>
+				<DropdownMenuLabel>Export the applications shown</DropdownMenuLabel>
+				{exportFormats.map((format) => (
+					<DropdownMenuItem
+						key={format}
+						// Every matching application, not just the pages loaded so far
+						onSelect={() =>
+							exportJobs(
+								() => fetchAllJobs(query, { stages, tags }),
+								name,
+								format
+							)
+						}
+					>
+						{exportFormatLabels[format]}
+					</DropdownMenuItem>
+				))}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	)
+}
+
+export default ExportMenu
@@ -7,12 +7,16 @@
  */
 
 import { X } from "lucide-react";
-import { JobApplication, statusLabels } from "@/data/mockJobs";
+import { JobApplication } from "@/data/mockJobs";
+import { usePipeline } from "@/contexts/PipelineContext";
+import { useTags } from "@/contexts/TagContext";
 import { Dispatch, SetStateAction, memo, useCallback } from "react";
 
 interface FilterTagsProps {
   statusFilter: JobApplication["status"][];
   handleToggleStatus: (status: JobApplication["status"]) => void;
+  tagFilter?: string[];
+  handleToggleTag?: (tagId: string) => void;
   clearFilters: () => void;
   searchTerm?: string;
   setSearchTerm?: Dispatch<SetStateAction<string>>;
@@ -22,13 +26,20 @@ const FilterTags = memo(
   ({
     statusFilter,
     handleToggleStatus,
+    tagFilter = [],
+    handleToggleTag,
     clearFilters,
     searchTerm = "",
     setSearchTerm,
   }: FilterTagsProps) => {
+    const { getStageLabel } = usePipeline();
+    const { getTag } = useTags();
+    const activeTags = tagFilter.map(getTag).filter(Boolean);
+    const filterCount = statusFilter.length + activeTags.length;
+
     // Don't render anything if no filters are active
     const hasActiveFilters =
-      statusFilter.length > 0 || (searchTerm && searchTerm.trim() !== "");
+      filterCount > 0 || (searchTerm && searchTerm.trim() !== "");
 
     if (!hasActiveFilters) return null;
 
@@ -52,18 +63,42 @@ const FilterTags = memo(
               className="flex items-center bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs py-1 px-2 rounded-full"
               role="status"
             >
-              {statusLabels[status]}
+              {getStageLabel(status)}
               <button
                 className="ml-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
                 onClick={() => handleToggleStatus(status)}
-                aria-label={`Remove ${statusLabels[status]} filter`}
-                title={`Remove ${statusLabels[status]} filter`}
+                aria-label={`Remove ${getStageLabel(status)} filter`}
+                title={`Remove ${getStageLabel(status)} filter`}
               >
                 <X className="h-3 w-3" />
               </button>
             </div>
           ))}
 
+          {/* Tag filter tags */}
+          {handleToggleTag &&
+            activeTags.map((tag) => (
+              <div
+                key={tag.id}
+                className="flex items-center bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs py-1 px-2 rounded-full"
+                role="status"
+              >
+                <span
+                  className="w-2 h-2 rounded-full mr-1.5"
+                  style={{ backgroundColor: tag.color }}
+                />
+                {tag.name}
+                <button
+                  className="ml-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  onClick={() => handleToggleTag(tag.id)}
+                  aria-label={`Remove ${tag.name} filter`}
+                  title={`Remove ${tag.name} filter`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+
           {/* Search term tag */}
           {searchTerm && searchTerm.trim() !== "" && setSearchTerm && (
             <div
@@ -84,8 +119,7 @@ const FilterTags = memo(
 
           {/* Clear all button */}
           {hasActiveFilters &&
-            (statusFilter.length > 1 ||
-              (searchTerm && statusFilter.length > 0)) && (
+            (filterCount > 1 || (searchTerm && filterCount > 0)) && (
               <button
                 className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:underline"
                 onClick={clearFilters}
@@ -0,0 +1,40 @@
+import { Fragment, useMemo } from 'react'
+
+interface HighlightedTextProps {
+	text: string
+	terms?: string[]
+}
+
+const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Renders text with every case-insensitive occurrence of the terms marked
+ */
+const HighlightedText = ({ text, terms = [] }: HighlightedTextProps) => {
+	const parts = useMemo(() => {
+		const patterns = terms.filter(Boolean).map(escapeRegExp)
+		if (!text || patterns.length === 0) return [text]
+		return text.split(new RegExp(`(${patterns.join('|')})`, 'gi'))
+	}, [text, terms])
+
+	return (
+		<>
+			{parts.map((part, index) =>
+				// split() puts captured matches at odd indexes
+				index % 2 === 1 ? (
+					<mark
+						key={index}
+						className='bg-yellow-200 text-inherit rounded-sm'
+					>
+						{part}
+					</mark>
+				) : (
+					<Fragment key={index}>{part}</Fragment>
+				)
+			)}
+		</>
+	)
+}
+
+export default HighlightedText
@@ -1,11 +1,19 @@
-import { JobApplication, statusLabels } from "@/data/mockJobs";
+import { JobApplication, StageOutcome } from "@/data/mockJobs";
+import { QueryHighlights } from "@/utils/jobQueryUtils";
+import { JobCardField, jobCardFields } from "@/utils/savedViewUtils";
+import { usePipeline } from "@/contexts/PipelineContext";
+import { useTags } from "@/contexts/TagContext";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
-import { X } from "lucide-react";
+import { X, StickyNote, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
 import JobDetailsModal from "./JobDetailsModal";
+import JobTagList from "./JobTagList";
+import HighlightedText from "./HighlightedText";
 import { formatSalaryForDisplay } from "@/utils/currencyUtils";
+import { TRASH_RETENTION_DAYS } from "@/utils/trashUtils";
 import {
   Dialog,
   DialogContent,
@@ -18,10 +26,14 @@ import {
 interface JobCardProps {
   job: JobApplication;
   onRemove: (id: string) => void;
+  highlights?: QueryHighlights; // Search matches to mark in the card
+  visibleFields?: JobCardField[]; // Optional details to show; all by default
+  isSelected?: boolean;
+  onSelectChange?: (extend: boolean) => void; // Shows a checkbox; extend on shift-click
 }
 
-const getStatusColor = (status: JobApplication["status"]) => {
-  switch (status) {
+const getStatusColor = (outcome: StageOutcome) => {
+  switch (outcome) {
     case "offer":
       return "bg-[#DCFCE7]"; // Green for offers
     case "rejected":
@@ -36,11 +48,23 @@ const getStatusColor = (status: JobApplication["status"]) => {
   }
 };
 
-const JobCard = ({ job, onRemove }: JobCardProps) => {
+const JobCard = ({
+  job,
+  onRemove,
+  highlights,
+  visibleFields = jobCardFields,
+  isSelected = false,
+  onSelectChange,
+}: JobCardProps) => {
   const { toast } = useToast();
+  const { getStage } = usePipeline();
+  const stage = getStage(job.status);
+  const { getTagsForJob } = useTags();
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
   const [isConfirmRemoveOpen, setIsConfirmRemoveOpen] = useState(false);
 
+  const shows = (field: JobCardField) => visibleFields.includes(field);
+
   const handleOpenRemoveConfirm = () => {
     setIsConfirmRemoveOpen(true);
   };
@@ -62,16 +86,31 @@ const JobCard = ({ job, onRemove }: JobCardProps) => {
     setIsDetailsModalOpen(true);
   };
 
-  const cardBgColor = getStatusColor(job.status);
-  const salaryDisplay = formatSalaryForDisplay(job.salary, job.location);
+  const cardBgColor = getStatusColor(stage.outcome);
+  const salaryDisplay = formatSalaryForDisplay(
+    job.salaryRange || job.salary,
+    job.location
+  );
 
   return (
     <>
       <Card
-        className={`h-full border-0 overflow-hidden ${cardBgColor} shadow-none rounded-xl`}
+        className={`h-full border-0 overflow-hidden ${cardBgColor} shadow-none rounded-xl ${
+          isSelected ? "ring-2 ring-primary" : ""
+        }`}
       >
         <div className="flex justify-between items-center px-4 pt-4">
-          <span className="text-sm text-gray-600">
+          {onSelectChange && (
+            <Checkbox
+              checked={isSelected}
+              onClick={(e) => onSelectChange(e.shiftKey)}
+              // Keep shift-click from selecting text
+              onMouseDown={(e) => e.shiftKey && e.preventDefault()}
+              className="mr-2 bg-white/70"
+              aria-label={`Select ${job.position} at ${job.company}`}
+            />
+          )}
+          <span className="text-sm text-gray-600 mr-auto">
             {job.appliedDate
               ? new Date(job.appliedDate).toLocaleDateString("en-US", {
                   day: "numeric",
@@ -96,37 +135,76 @@ const JobCard = ({ job, onRemove }: JobCardProps) => {
 
         <CardContent className="p-4">
           <div className="mb-3">
-            <div className="text-sm text-gray-700 mb-1">{job.company}</div>
+            <div className="text-sm text-gray-700 mb-1">
+              <HighlightedText text={job.company} terms={highlights?.company} />
+            </div>
             <h3 className="font-bold text-lg text-gray-900 mb-1">
-              {job.position}
+              <HighlightedText
+                text={job.position}
+                terms={highlights?.position}
+              />
             </h3>
+            {/* The card only shows location when a search matched it */}
+            {job.location &&
+              highlights?.location.some((term) =>
+                job.location.toLowerCase().includes(term)
+              ) && (
+                <div className="text-xs text-gray-600">
+                  <HighlightedText
+                    text={job.location}
+                    terms={highlights.location}
+                  />
+                </div>
+              )}
           </div>
 
+          {shows("tags") && <JobTagList tags={getTagsForJob(job)} />}
+
           <div className="flex flex-wrap gap-2 my-3">
-            {job.employmentType && (
+            {shows("details") && job.employmentType && (
               <span className="text-xs px-3 py-1 bg-white/70 rounded-full text-gray-700">
                 {job.employmentType}
               </span>
             )}
-            {job.type && (
+            {shows("details") && job.type && (
               <span className="text-xs px-3 py-1 bg-white/70 rounded-full text-gray-700">
                 {job.type}
               </span>
             )}
-            {job.remote !== undefined && (
+            {shows("details") && job.remote !== undefined && (
               <span className="text-xs px-3 py-1 bg-white/70 rounded-full text-gray-700">
                 {job.workType || (job.remote ? "Remote" : "On-site")}
               </span>
             )}
-            <span className="text-xs px-3 py-1 bg-white/70 rounded-full text-gray-700 font-bold">
-              {statusLabels[job.status]}
+            <span className="text-xs px-3 py-1 bg-white/70 rounded-full text-gray-700 font-bold flex items-center">
+              <span
+                className="w-2 h-2 rounded-full mr-1.5"
+                style={{ backgroundColor: stage.color }}
+              />
+              {stage.label}
             </span>
+            {shows("notes") && job.notes && job.notes.length > 0 && (
+              <span className="text-xs px-3 py-1 bg-white/70 rounded-full text-gray-700 flex items-center">
+                <StickyNote size={12} className="mr-1" />
+                {job.notes.length} {job.notes.length === 1 ? "note" : "notes"}
+              </span>
+            )}
+            {job.followUpDate && (
+              <span className="text-xs px-3 py-1 bg-white/70 rounded-full text-gray-700 flex items-center">
+                <CalendarClock size={12} className="mr-1" />
+                Follow up {/* Read as a local date, not midnight UTC */}
+                {new Date(`${job.followUpDate}T00:00:00`).toLocaleDateString(
+                  "en-US",
+                  { day: "numeric", month: "short" }
+                )}
+              </span>
+            )}
           </div>
         </CardContent>
 
         <CardFooter className="flex items-center justify-between p-4 pt-0">
           <div className="flex items-center text-sm text-gray-700">
-            {salaryDisplay}
+            {shows("salary") && salaryDisplay}
           </div>
           <Button
             variant="default"
@@ -152,8 +230,8 @@ const JobCard = ({ job, onRemove }: JobCardProps) => {
           <DialogHeader>
             <DialogTitle>Remove this job application?</DialogTitle>
             <DialogDescription>
-              This will permanently delete the job application from your
-              records.
+              The job application will be moved to the trash, where it can be
+              restored for {TRASH_RETENTION_DAYS} days.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="flex space-x-2 justify-end">
@@ -0,0 +1,169 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import {
+	Mail,
+	Phone,
+	UserCircle,
+	Pencil,
+	Trash2,
+	Plus,
+	MessageSquare,
+} from 'lucide-react'
+import { JobContact } from '@/data/mockJobs'
+import { JobContactInput, useJobs } from '@/contexts/JobContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import ContactFormDialog from './ContactFormDialog'
+
+interface JobContactsProps {
+	jobId: string
+	contacts: JobContact[]
+	referrerId?: string // Contact who referred the user for this job
+}
+
+const JobContacts = ({ jobId, contacts, referrerId }: JobContactsProps) => {
+	const { addContact, updateContact, deleteContact, logContactTouch } =
+		useJobs()
+	const [isFormOpen, setIsFormOpen] = useState(false)
+	const [editingContact, setEditingContact] = useState<JobContact | null>(null)
+
+	const handleOpenAdd = () => {
+		setEditingContact(null)
+		setIsFormOpen(true)
+	}
+
+	const handleOpenEdit = (contact: JobContact) => {
+		setEditingContact(contact)
+		setIsFormOpen(true)
+	}
+
+	const handleSubmit = async (contact: JobContactInput) => {
+		if (editingContact) {
+			await updateContact(jobId, editingContact.id, contact)
+		} else {
+			await addContact(jobId, contact)
+		}
+	}
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex items-center justify-between border-b pb-1'>
+				<h3 className='text-lg font-semibold'>Contacts</h3>
+				<Button
+					variant='ghost'
+					size='sm'
+					onClick={handleOpenAdd}
+				>
+					<Plus className='w-4 h-4 mr-1' />
+					Add Contact
+				</Button>
+			</div>
+
+			{contacts.length === 0 ? (
+				<div className='bg-gray-50 p-4 rounded-md text-sm'>
+					<p className='text-gray-500 italic'>
+						No recruiters or hiring managers added yet
+					</p>
+				</div>
+			) : (
+				<div className='space-y-4 px-1'>
+					{contacts.map((contact) => (
+						<div
+							key={contact.id}
+							className='bg-gray-50 p-4 rounded-md'
+						>
+							<div className='flex items-start justify-between mb-3'>
+								<div className='flex items-center space-x-2'>
+									<UserCircle className='w-5 h-5 text-gray-500 flex-shrink-0' />
+									<p className='font-medium'>{contact.name}</p>
+									{contact.position && (
+										<Badge
+											variant='outline'
+											className='ml-2'
+										>
+											{contact.position}
+										</Badge>
+									)}
+									{contact.id === referrerId && (
+										<Badge className='bg-green-100 text-green-700 hover:bg-green-100'>
+											Referrer
+										</Badge>
+									)}
+								</div>
+								<div className='flex flex-shrink-0'>
+									<Button
+										variant='ghost'
+										size='sm'
+										className='h-7 w-7 p-0'
+										onClick={() => logContactTouch(contact.email)}
+										title='Mark as contacted today'
+										aria-label='Mark as contacted today'
+									>
+										<MessageSquare className='w-3.5 h-3.5' />
+									</Button>
+									<Button
+										variant='ghost'
+										size='sm'
+										className='h-7 w-7 p-0'
+										onClick={() => handleOpenEdit(contact)}
+										aria-label='Edit contact'
+									>
+										<Pencil className='w-3.5 h-3.5' />
+									</Button>
+									<Button
+										variant='ghost'
+										size='sm'
+										className='h-7 w-7 p-0 text-red-600 hover:text-red-700'
+										onClick={() => deleteContact(jobId, contact.id)}
+										aria-label='Delete contact'
+									>
+										<Trash2 className='w-3.5 h-3.5' />
+									</Button>
+								</div>
+							</div>
+							<div className='flex flex-col space-y-2 pl-7'>
+								<div className='flex items-center space-x-2'>
+									<Mail className='w-4 h-4 text-gray-500 flex-shrink-0' />
+									<a
+										href={`mailto:${contact.email}`}
+										className='text-blue-600 hover:underline text-sm'
+									>
+										{contact.email}
+									</a>
+								</div>
+								{contact.phone && (
+									<div className='flex items-center space-x-2'>
+										<Phone className='w-4 h-4 text-gray-500 flex-shrink-0' />
+										<a
+											href={`tel:${contact.phone}`}
+											className='text-blue-600 hover:underline text-sm'
+										>
+											{contact.phone}
+										</a>
+									</div>
+								)}
+								<p className='text-xs text-gray-500'>
+									{contact.lastContactedAt
+										? `Last contacted ${format(
+												new Date(contact.lastContactedAt),
+												'MMM d, yyyy'
+										  )}`
+										: 'Not contacted yet'}
+								</p>
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+
+			<ContactFormDialog
+				isOpen={isFormOpen}
+				onClose={() => setIsFormOpen(false)}
+				onSubmit={handleSubmit}
+				initialData={editingContact}
+			/>
+		</div>
+	)
+}
+
+export default JobContacts
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { JobApplication, statusLabels } from '@/data/mockJobs'
+import { JobApplication, StageOutcome } from '@/data/mockJobs'
 import {
 	Dialog,
 	DialogContent,
@@ -14,27 +14,43 @@ import {
 	MapPin,
 	Building,
 	Globe,
-	Phone,
-	Mail,
-	UserCircle,
 	Clock,
 	CalendarDays,
 	ExternalLink,
 } from 'lucide-react'
 import { format } from 'date-fns'
+import { Link } from 'react-router-dom'
 import { useJobs } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { getJobById } from '@/services/jobRepository'
 import EditJobModal from './EditJobModal'
+import JobNotes from './JobNotes'
+import JobContacts from './JobContacts'
+import JobReferralDetails from './JobReferralDetails'
+import JobRejectionDetails from './JobRejectionDetails'
+import JobDocuments from './JobDocuments'
+import JobTasks from './JobTasks'
+import JobStatusTimeline from './JobStatusTimeline'
+import JobPostingSnapshot from './JobPostingSnapshot'
 import { formatSalaryForDisplay, getCurrencyIcon } from '@/utils/currencyUtils'
-import { supabase } from '@/lib/supabase'
 
 interface JobDetailsModalProps {
 	isOpen: boolean
 	onClose: () => void
 	jobId: string | null
+	fallbackJob?: JobApplication // Shown when the job isn't loaded in the job list
 }
 
-const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
-	const { jobs, updateJob } = useJobs()
+const JobDetailsModal = ({
+	isOpen,
+	onClose,
+	jobId,
+	fallbackJob,
+}: JobDetailsModalProps) => {
+	const { jobs, updateJob, fetchJobsById } = useJobs()
+	const { getStage } = usePipeline()
+	const { user } = useAuth()
 	const [isEditModalOpen, setIsEditModalOpen] = useState(false)
 	const [fullJobDetails, setFullJobDetails] = useState<JobApplication | null>(
 		null
@@ -42,7 +58,17 @@ const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
 	const [isLoadingDetails, setIsLoadingDetails] = useState(false)
 
 	// Find the job in the jobs array for basic information
-	const basicJob = jobs.find((j) => j.id === jobId)
+	const loadedJob = jobs.find((j) => j.id === jobId)
+	const basicJob = loadedJob || fallbackJob
+
+	// Load a job lists haven't loaded, with its notes and contacts
+	useEffect(() => {
+		if (!jobId || !isOpen || loadedJob) return
+
+		fetchJobsById([jobId]).catch((err) => {
+			console.error('Error loading job:', err)
+		})
+	}, [jobId, isOpen, loadedJob, fetchJobsById])
 
 	// Combine basic job with any loaded full details
 	const job = fullJobDetails || basicJob
@@ -57,12 +83,11 @@ const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
 			if (cachedDetails) {
 				try {
 					const parsedDetails = JSON.parse(cachedDetails)
-					// Convert DB format to frontend format
 					const formattedJob = {
 						...basicJob,
-						companyWebsite: parsedDetails.company_website || '',
+						companyWebsite: parsedDetails.companyWebsite || '',
 						salary: parsedDetails.salary || '',
-						jobDescription: parsedDetails.job_description || '',
+						jobDescription: parsedDetails.jobDescription || '',
 					}
 					setFullJobDetails(formattedJob)
 					return
@@ -75,23 +100,24 @@ const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
 			// No valid cache, fetch from database
 			setIsLoadingDetails(true)
 			try {
-				const { data, error } = await supabase
-					.from('job_applications')
-					.select('*')
-					.eq('id', jobId)
-					.single()
-
-				if (error) throw error
+				const data = user?.id ? await getJobById(user.id, jobId) : null
 				if (data) {
 					// Cache the full details for future use
-					sessionStorage.setItem(`job_details_${jobId}`, JSON.stringify(data))
+					sessionStorage.setItem(
+						`job_details_${jobId}`,
+						JSON.stringify({
+							companyWebsite: data.companyWebsite,
+							salary: data.salary,
+							jobDescription: data.jobDescription,
+						})
+					)
 
 					// Combine with the basic job data
 					const fullJob = {
 						...basicJob,
-						companyWebsite: data.company_website || '',
+						companyWebsite: data.companyWebsite || '',
 						salary: data.salary || '',
-						jobDescription: data.job_description || '',
+						jobDescription: data.jobDescription || '',
 					}
 					setFullJobDetails(fullJob)
 				}
@@ -103,7 +129,7 @@ const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
 		}
 
 		loadFullDetails()
-	}, [jobId, isOpen, basicJob])
+	}, [jobId, isOpen, basicJob, user?.id])
 
 	// Reset state when modal closes or when the edit modal closes to ensure fresh data
 	useEffect(() => {
@@ -130,8 +156,8 @@ const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
 		}
 	}
 
-	const getStatusColorClass = (status: JobApplication['status']) => {
-		switch (status) {
+	const getStatusColorClass = (outcome: StageOutcome) => {
+		switch (outcome) {
 			case 'offer':
 				return 'bg-green-100 text-green-800'
 			case 'rejected':
@@ -146,6 +172,8 @@ const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
 		}
 	}
 
+	const stage = getStage(job.status)
+
 	const handleOpenEditModal = () => {
 		setIsEditModalOpen(true)
 	}
@@ -183,13 +211,26 @@ const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
 								)}
 								<div>
 									<div className='flex items-center space-x-2'>
-										<p className='font-medium'>{job.company}</p>
+										{job.companyId ? (
+											<Link
+												to={`/companies/${job.companyId}`}
+												className='font-medium hover:underline'
+											>
+												{job.company}
+											</Link>
+										) : (
+											<p className='font-medium'>{job.company}</p>
+										)}
 										<Badge
 											className={`${getStatusColorClass(
-												job.status
+												stage.outcome
 											)} px-2 py-1 text-xs font-medium`}
 										>
-											{statusLabels[job.status]}
+											<span
+												className='w-2 h-2 rounded-full mr-1.5'
+												style={{ backgroundColor: stage.color }}
+											/>
+											{stage.label}
 										</Badge>
 									</div>
 
@@ -229,7 +270,12 @@ const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
 									{getCurrencyIcon(job.location)}
 									<div>
 										<p className='text-sm text-gray-500 font-medium'>Salary</p>
-										<p>{formatSalaryForDisplay(job.salary, job.location)}</p>
+										<p>
+											{formatSalaryForDisplay(
+												job.salaryRange || job.salary,
+												job.location
+											)}
+										</p>
 									</div>
 								</div>
 
@@ -311,57 +357,37 @@ const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
 							</div>
 						)}
 
+						{/* Checklist */}
+						<JobTasks jobId={job.id} />
+
+						{/* Why the application ended */}
+						{basicJob &&
+							(stage.outcome === 'rejected' || basicJob.rejection) && (
+								<JobRejectionDetails job={basicJob} />
+							)}
+
+						{/* Captured posting */}
+						<JobPostingSnapshot
+							jobId={job.id}
+							jobUrl={job.jobUrl}
+						/>
+
+						{/* Resume and cover letter sent */}
+						<JobDocuments jobId={job.id} />
+
+						{/* Referral */}
+						<JobReferralDetails
+							jobId={job.id}
+							referral={basicJob?.referral}
+							contacts={basicJob?.contacts || job.contacts || []}
+						/>
+
 						{/* Contacts */}
-						{job.contacts && job.contacts.length > 0 && (
-							<div className='space-y-3'>
-								<h3 className='text-lg font-semibold border-b pb-1'>
-									Contacts
-								</h3>
-								<div className='space-y-4 px-1'>
-									{job.contacts.map((contact, index) => (
-										<div
-											key={index}
-											className='bg-gray-50 p-4 rounded-md'
-										>
-											<div className='flex items-center space-x-2 mb-3'>
-												<UserCircle className='w-5 h-5 text-gray-500 flex-shrink-0' />
-												<p className='font-medium'>{contact.name}</p>
-												{contact.position && (
-													<Badge
-														variant='outline'
-														className='ml-2'
-													>
-														{contact.position}
-													</Badge>
-												)}
-											</div>
-											<div className='flex flex-col space-y-2 pl-7'>
-												<div className='flex items-center space-x-2'>
-													<Mail className='w-4 h-4 text-gray-500 flex-shrink-0' />
-													<a
-														href={`mailto:${contact.email}`}
-														className='text-blue-600 hover:underline text-sm'
-													>
-														{contact.email}
-													</a>
-												</div>
-												{contact.phone && (
-													<div className='flex items-center space-x-2'>
-														<Phone className='w-4 h-4 text-gray-500 flex-shrink-0' />
-														<a
-															href={`tel:${contact.phone}`}
-															className='text-blue-600 hover:underline text-sm'
-														>
-															{contact.phone}
-														</a>
-													</div>
-												)}
-											</div>
-										</div>
-									))}
-								</div>
-							</div>
-						)}
+						<JobContacts
+							jobId={job.id}
+							contacts={basicJob?.contacts || job.contacts || []}
+							referrerId={basicJob?.referral?.contactId}
+						/>
 
 						{/* Events / Timeline */}
 						{job.events && job.events.length > 0 && (
@@ -392,22 +418,14 @@ const JobDetailsModal = ({ isOpen, onClose, jobId }: JobDetailsModalProps) => {
 							</div>
 						)}
 
+						{/* Status history */}
+						<JobStatusTimeline job={basicJob || job} />
+
 						{/* Notes */}
-						{job.notes && job.notes.length > 0 && (
-							<div className='space-y-3'>
-								<h3 className='text-lg font-semibold border-b pb-1'>Notes</h3>
-								<ul className='space-y-2 list-disc pl-6'>
-									{job.notes.map((note, index) => (
-										<li
-											key={index}
-											className='text-sm'
-										>
-											{note}
-										</li>
-									))}
-								</ul>
-							</div>
-						)}
+						<JobNotes
+							jobId={job.id}
+							notes={basicJob?.notes || job.notes || []}
+						/>
 					</div>
 
 					<DialogFooter className='flex justify-between items-center gap-4 pt-6 mt-4 border-t'>
@@ -0,0 +1,208 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { FileText, Sparkles, Pencil, Trash2, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { useAuth } from '@/contexts/AuthContext'
+import { useToast } from '@/hooks/use-toast'
+import { useApplicationDocuments } from '@/hooks/use-application-documents'
+import {
+	ApplicationDocument,
+	ApplicationDocumentKind,
+	ApplicationDocumentOption,
+	fetchApplicationDocumentOptions,
+} from '@/services/applicationDocumentService'
+import DocumentViewerDialog from '@/components/documents/DocumentViewerDialog'
+
+interface JobDocumentsProps {
+	jobId: string
+}
+
+const kinds: { kind: ApplicationDocumentKind; label: string }[] = [
+	{ kind: 'resume', label: 'Resume' },
+	{ kind: 'coverletter', label: 'Cover letter' },
+]
+
+// Select values say which table an option comes from
+const getOptionValue = (option: ApplicationDocumentOption) =>
+	option.documentId ? `doc:${option.documentId}` : `ai:${option.aiContentId}`
+
+const JobDocuments = ({ jobId }: JobDocumentsProps) => {
+	const { user } = useAuth()
+	const { toast } = useToast()
+	const { documents, isLoading, attach, detach } =
+		useApplicationDocuments(jobId)
+	const [pickingKind, setPickingKind] =
+		useState<ApplicationDocumentKind | null>(null)
+	const [options, setOptions] = useState<ApplicationDocumentOption[]>([])
+	const [isLoadingOptions, setIsLoadingOptions] = useState(false)
+	const [viewing, setViewing] = useState<ApplicationDocument | null>(null)
+
+	const handleStartPicking = async (kind: ApplicationDocumentKind) => {
+		if (!user) return
+		setPickingKind(kind)
+		setOptions([])
+		setIsLoadingOptions(true)
+		try {
+			setOptions(await fetchApplicationDocumentOptions(user.id, kind))
+		} catch (error) {
+			console.error('Error loading documents:', error)
+			toast({
+				title: 'Error loading documents',
+				description:
+					error instanceof Error ? error.message : 'Please try again',
+				variant: 'destructive',
+			})
+			setPickingKind(null)
+		} finally {
+			setIsLoadingOptions(false)
+		}
+	}
+
+	const handlePick = async (value: string) => {
+		const option = options.find((o) => getOptionValue(o) === value)
+		if (!option || !pickingKind) return
+		await attach(pickingKind, option)
+		setPickingKind(null)
+	}
+
+	return (
+		<div className='space-y-3'>
+			<h3 className='text-lg font-semibold border-b pb-1'>Documents Sent</h3>
+
+			{isLoading ? (
+				<div className='bg-gray-50 p-4 rounded-md animate-pulse'>
+					<div className='h-4 bg-gray-200 rounded w-1/2 mb-2'></div>
+					<div className='h-4 bg-gray-200 rounded w-2/3'></div>
+				</div>
+			) : (
+				<div className='bg-gray-50 p-4 rounded-md space-y-3'>
+					{kinds.map(({ kind, label }) => {
+						const document = documents.find((doc) => doc.kind === kind)
+						const isDeleted =
+							document && !document.documentId && !document.aiContentId
+						const Icon = document?.aiContentId ? Sparkles : FileText
+
+						return (
+							<div
+								key={kind}
+								className='flex items-center justify-between gap-3 text-sm'
+							>
+								<div className='min-w-0 flex-1'>
+									<p className='text-xs text-gray-500'>{label}</p>
+									{pickingKind === kind ? (
+										<Select
+											onValueChange={handlePick}
+											disabled={isLoadingOptions}
+										>
+											<SelectTrigger className='h-8 mt-1'>
+												<SelectValue
+													placeholder={
+														isLoadingOptions
+															? 'Loading...'
+															: options.length
+															? `Choose a ${label.toLowerCase()}`
+															: `No ${label.toLowerCase()}s uploaded or generated yet`
+													}
+												/>
+											</SelectTrigger>
+											<SelectContent>
+												{options.map((option) => (
+													<SelectItem
+														key={getOptionValue(option)}
+														value={getOptionValue(option)}
+													>
+														{option.name}
+														{option.aiContentId &&
+															(option.jobId === jobId
+																? ' (AI, for this job)'
+																: ' (AI)')}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									) : document ? (
+										<button
+											type='button'
+											onClick={() => setViewing(document)}
+											disabled={isDeleted}
+											className='flex items-center text-left text-blue-600 hover:underline disabled:text-gray-500 disabled:no-underline'
+										>
+											<Icon className='w-4 h-4 mr-1.5 flex-shrink-0' />
+											<span className='truncate'>{document.name}</span>
+											{isDeleted && (
+												<span className='ml-1 flex-shrink-0'>(deleted)</span>
+											)}
+										</button>
+									) : (
+										<p className='text-gray-500 italic'>Not recorded</p>
+									)}
+									{document && pickingKind !== kind && (
+										<p className='text-xs text-gray-500'>
+											Recorded{' '}
+											{format(new Date(document.attachedAt), 'MMM d, yyyy')}
+										</p>
+									)}
+								</div>
+								<div className='flex flex-shrink-0'>
+									{pickingKind === kind ? (
+										<Button
+											variant='ghost'
+											size='sm'
+											onClick={() => setPickingKind(null)}
+										>
+											Cancel
+										</Button>
+									) : document ? (
+										<>
+											<Button
+												variant='ghost'
+												size='sm'
+												className='h-7 w-7 p-0'
+												onClick={() => handleStartPicking(kind)}
+												aria-label={`Change ${label.toLowerCase()}`}
+											>
+												<Pencil className='w-3.5 h-3.5' />
+											</Button>
+											<Button
+												variant='ghost'
+												size='sm'
+												className='h-7 w-7 p-0 text-red-600 hover:text-red-700'
+												onClick={() => detach(kind)}
+												aria-label={`Remove ${label.toLowerCase()}`}
+											>
+												<Trash2 className='w-3.5 h-3.5' />
+											</Button>
+										</>
+									) : (
+										<Button
+											variant='ghost'
+											size='sm'
+											onClick={() => handleStartPicking(kind)}
+										>
+											<Plus className='w-4 h-4 mr-1' />
+											Choose
+										</Button>
+									)}
+								</div>
+							</div>
+						)
+					})}
+				</div>
+			)}
+
+			<DocumentViewerDialog
+				document={viewing}
+				onClose={() => setViewing(null)}
+			/>
+		</div>
+	)
+}
+
+export default JobDocuments
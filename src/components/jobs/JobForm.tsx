@@ -1,10 +1,14 @@
 import { useState, useEffect } from 'react'
 import { toast } from 'sonner'
-import { JobApplication } from '@/data/mockJobs'
+import { JobApplication, SalaryRange } from '@/data/mockJobs'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { useTags } from '@/contexts/TagContext'
+import { getSalaryRange, parseSalary } from '@/utils/currencyUtils'
 import CompanyInfoFields from './form/CompanyInfoFields'
 import LocationStatusFields from './form/LocationStatusFields'
 import AdditionalInfoFields from './form/AdditionalInfoFields'
 import JobDescriptionField from './form/JobDescriptionField'
+import TagsField from './form/TagsField'
 import { v4 as uuidv4 } from 'uuid'
 import { format } from 'date-fns'
 
@@ -15,26 +19,37 @@ interface JobFormProps {
 }
 
 const JobForm = ({ onSubmit, onCancel, initialData }: JobFormProps) => {
+	const { stages, getOutcome } = usePipeline()
+	const { getTag } = useTags()
+	// New jobs start in the first stage of the user's pipeline
+	const defaultStatus = stages[0]?.key || 'saved'
+
 	const [jobData, setJobData] = useState<{
 		company: string
 		position: string
 		location: string
-		status: JobApplication['status'] // Use the status type from JobApplication
+		status: JobApplication['status'] // Key of a pipeline stage
 		companyWebsite: string
+		jobUrl: string
 		salary: string
+		salaryRange: SalaryRange | null // Parsed from salary, then editable
 		jobDescription: string
 		workType: JobApplication['workType']
 		employmentType: JobApplication['employmentType']
+		tagIds: string[]
 	}>({
 		company: initialData?.company || '',
 		position: initialData?.position || '',
 		location: initialData?.location || '',
-		status: initialData?.status || 'saved', // Default status is "saved"
+		status: initialData?.status || defaultStatus,
 		companyWebsite: initialData?.companyWebsite || '',
+		jobUrl: initialData?.jobUrl || '',
 		salary: initialData?.salary || '',
+		salaryRange: initialData ? getSalaryRange(initialData) : null,
 		jobDescription: initialData?.jobDescription || '',
 		workType: initialData?.workType || 'On-site',
 		employmentType: initialData?.employmentType || 'Full-time',
+		tagIds: initialData?.tagIds || [],
 	})
 
 	// State for interview date and time
@@ -50,12 +65,15 @@ const JobForm = ({ onSubmit, onCancel, initialData }: JobFormProps) => {
 				company: initialData.company || '',
 				position: initialData.position || '',
 				location: initialData.location || '',
-				status: initialData.status || 'saved',
+				status: initialData.status,
 				companyWebsite: initialData.companyWebsite || '',
+				jobUrl: initialData.jobUrl || '',
 				salary: initialData.salary || '',
+				salaryRange: getSalaryRange(initialData),
 				jobDescription: initialData.jobDescription || '',
 				workType: initialData.workType || 'On-site',
 				employmentType: initialData.employmentType || 'Full-time',
+				tagIds: initialData.tagIds || [],
 			})
 
 			// Look for interview events to populate interview date/time
@@ -85,17 +103,34 @@ const JobForm = ({ onSubmit, onCancel, initialData }: JobFormProps) => {
 		e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
 	) => {
 		const { name, value } = e.target
-		setJobData((prev) => ({ ...prev, [name]: value }))
+		setJobData((prev) => ({
+			...prev,
+			[name]: value,
+			// Re-derive the structured salary whenever the text changes
+			...(name === 'salary'
+				? { salaryRange: parseSalary(value, prev.location) }
+				: {}),
+		}))
+	}
+
+	const handleSalaryRangeChange = (changes: Partial<SalaryRange>) => {
+		setJobData((prev) => ({
+			...prev,
+			salaryRange: {
+				currency: 'USD',
+				period: 'annual',
+				...prev.salaryRange,
+				...changes,
+			},
+		}))
 	}
 
 	const handleStatusChange = (value: string) => {
-		// Ensure value is a valid status type before assigning
-		if (
-			['applied', 'interview', 'offer', 'rejected', 'saved'].includes(value)
-		) {
+		// Ensure value is one of the user's stages before assigning
+		if (stages.some((stage) => stage.key === value)) {
 			setJobData((prev) => ({
 				...prev,
-				status: value as JobApplication['status'],
+				status: value,
 			}))
 		}
 	}
@@ -120,6 +155,13 @@ const JobForm = ({ onSubmit, onCancel, initialData }: JobFormProps) => {
 		}
 	}
 
+	const handleTagsChange = (tagIds: string[]) => {
+		setJobData((prev) => ({
+			...prev,
+			tagIds,
+		}))
+	}
+
 	const handleInterviewDateChange = (date: Date) => {
 		setInterviewDate(date)
 	}
@@ -142,8 +184,8 @@ const JobForm = ({ onSubmit, onCancel, initialData }: JobFormProps) => {
 			const events = initialData?.events ? [...initialData.events] : []
 			let formEvents = events
 
-			// If status is interview and we have a date, add an interview event
-			if (jobData.status === 'interview' && interviewDate) {
+			// If the stage is an interview stage and we have a date, add an interview event
+			if (getOutcome(jobData.status) === 'interview' && interviewDate) {
 				// Format the date with time if available
 				let formattedDate: string
 				if (interviewTime) {
@@ -197,19 +239,27 @@ const JobForm = ({ onSubmit, onCancel, initialData }: JobFormProps) => {
 				status: jobData.status,
 				appliedDate:
 					initialData?.appliedDate ||
-					(jobData.status === 'saved' ? '' : new Date().toISOString()),
+					(getOutcome(jobData.status) === 'saved'
+						? ''
+						: new Date().toISOString()),
 				lastUpdated: new Date().toISOString(),
 				companyWebsite: jobData.companyWebsite,
+				jobUrl: jobData.jobUrl || undefined,
 				salary: jobData.salary,
+				salaryRange: jobData.salaryRange || undefined,
 				jobDescription: sanitizedJobDescription,
 				workType: jobData.workType,
 				employmentType: jobData.employmentType,
 				remote: jobData.workType === 'Remote' || jobData.workType === 'Hybrid',
+				// Drop tags that were deleted while the form was open
+				tagIds: jobData.tagIds.filter((id) => getTag(id)),
 				// Include the updated events
 				events: formEvents,
 				// Preserve other fields from initialData if they exist
 				notes: initialData?.notes || [],
 				contacts: initialData?.contacts || [],
+				externalId: initialData?.externalId,
+				externalPlatform: initialData?.externalPlatform,
 			}
 
 			// Pass the job to the parent component
@@ -247,6 +297,12 @@ const JobForm = ({ onSubmit, onCancel, initialData }: JobFormProps) => {
 				<AdditionalInfoFields
 					jobData={jobData}
 					handleChange={handleChange}
+					handleSalaryRangeChange={handleSalaryRangeChange}
+				/>
+
+				<TagsField
+					tagIds={jobData.tagIds}
+					handleTagsChange={handleTagsChange}
 				/>
 
 				<JobDescriptionField
@@ -2,56 +2,90 @@
  * JobList Component
  *
  * A smart component that manages job application filtering, sorting and display.
- * Handles search, status filtering, and sorting with proper error and loading states.
- * Uses memoization for performance optimization of expensive operations.
+ * Handles query search, status and tag filtering, and sorting with proper error and loading states.
+ * Jobs are sorted, filtered and paged by the database; more load as the list is scrolled.
+ * Sort and filters can be controlled by the parent, e.g. to keep them in the URL.
+ * Jobs can be selected for bulk actions, shift-clicking to select a range.
  */
 
-import { JobApplication, statusLabels } from "@/data/mockJobs";
+import { JobApplication } from "@/data/mockJobs";
 import { useState, useEffect, useMemo, useCallback } from "react";
+import { usePaginatedJobs } from "@/hooks/use-paginated-jobs";
+import { useJobSelection } from "@/hooks/use-job-selection";
 import JobSearchBar from "./JobSearchBar";
 import StatusFilterDropdown from "./StatusFilterDropdown";
 import FilterTags from "./FilterTags";
 import JobListDisplay from "./JobListDisplay";
+import BulkActionBar from "./BulkActionBar";
 import { useJobs } from "@/contexts/JobContext";
+import { usePipeline } from "@/contexts/PipelineContext";
+import { useTags } from "@/contexts/TagContext";
 import { AlertCircle } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  QueryValueSource,
+  getQueryHighlights,
+  parseJobQuery,
+} from "@/utils/jobQueryUtils";
+import { JobPageQuery } from "@/utils/jobPageUtils";
+import {
+  EMPTY_JOB_LIST_FILTERS,
+  JobCardField,
+  JobListFilters,
+} from "@/utils/savedViewUtils";
 
 interface JobListProps {
-  jobs: JobApplication[];
-  isLoading?: boolean;
-  error?: Error | null;
-  onRetry?: () => void;
+  scope?: string[]; // Stage keys to show, e.g. the current tab; all jobs if unset
+  archived?: boolean; // Show archived jobs instead
   sortBy?: string;
-  setSortBy?: (value: string) => void;
+  filters?: JobListFilters;
+  setFilters?: (filters: JobListFilters) => void;
+  visibleFields?: JobCardField[];
+  onTotalCountChange?: (count: number) => void;
 }
 
 const JobList = ({
-  jobs: initialJobs,
-  isLoading = false,
-  error = null,
-  onRetry,
+  scope,
+  archived = false,
   sortBy: externalSortBy,
-  setSortBy: externalSetSortBy,
+  filters: externalFilters,
+  setFilters: externalSetFilters,
+  visibleFields,
+  onTotalCountChange,
 }: JobListProps) => {
   // Local state
-  const [internalSortBy, setInternalSortBy] = useState("newest");
-  const [searchTerm, setSearchTerm] = useState("");
-  const [jobs, setJobs] = useState<JobApplication[]>(initialJobs);
-  const [statusFilter, setStatusFilter] = useState<JobApplication["status"][]>(
-    []
+  const [internalFilters, setInternalFilters] = useState<JobListFilters>(
+    EMPTY_JOB_LIST_FILTERS
   );
 
   // Global state
-  const { deleteJob } = useJobs();
+  const { jobs: loadedJobs, deleteJob } = useJobs();
+  const { stages } = usePipeline();
+  const { tags } = useTags();
 
-  // Use either external or internal sort state
-  const sortBy = externalSortBy || internalSortBy;
-  const setSortBy = externalSetSortBy || setInternalSortBy;
+  // Use either external or internal sort and filter state
+  const sortBy = externalSortBy || "newest";
+  const filters = externalFilters || internalFilters;
+  const setFilters = externalSetFilters || setInternalFilters;
+  const {
+    search: searchTerm,
+    statuses: statusFilter,
+    tags: tagFilter,
+  } = filters;
 
-  // Update local jobs state when initialJobs prop changes
-  useEffect(() => {
-    setJobs(initialJobs);
-  }, [initialJobs]);
+  /**
+   * Change some filters, keeping the rest
+   */
+  const updateFilters = useCallback(
+    (changes: Partial<JobListFilters>) =>
+      setFilters({ ...filters, ...changes }),
+    [filters, setFilters]
+  );
+
+  const setSearchTerm = useCallback(
+    (search: string) => updateFilters({ search }),
+    [updateFilters]
+  );
 
   /**
    * Handle job deletion with error handling
@@ -60,7 +94,7 @@ const JobList = ({
     async (id: string) => {
       try {
         await deleteJob(id);
-        // Global state will trigger a props update, no need to modify local state
+        // Global state updates the list, no need to modify local state
       } catch (error) {
         console.error("Error removing job:", error);
         // Error is handled by the JobContext with toast notifications
@@ -72,83 +106,99 @@ const JobList = ({
   /**
    * Toggle a status in the filter list
    */
-  const handleToggleStatus = useCallback((status: JobApplication["status"]) => {
-    setStatusFilter((prev) =>
-      prev.includes(status)
-        ? prev.filter((s) => s !== status)
-        : [...prev, status]
-    );
-  }, []);
+  const handleToggleStatus = useCallback(
+    (status: JobApplication["status"]) => {
+      updateFilters({
+        statuses: statusFilter.includes(status)
+          ? statusFilter.filter((s) => s !== status)
+          : [...statusFilter, status],
+      });
+    },
+    [statusFilter, updateFilters]
+  );
+
+  /**
+   * Toggle a tag in the filter list
+   */
+  const handleToggleTag = useCallback(
+    (tagId: string) => {
+      updateFilters({
+        tags: tagFilter.includes(tagId)
+          ? tagFilter.filter((id) => id !== tagId)
+          : [...tagFilter, tagId],
+      });
+    },
+    [tagFilter, updateFilters]
+  );
 
   /**
    * Clear all applied filters
    */
   const clearFilters = useCallback(() => {
-    setStatusFilter([]);
-    setSearchTerm("");
-  }, []);
+    setFilters(EMPTY_JOB_LIST_FILTERS);
+  }, [setFilters]);
 
   /**
-   * Normalize search term for case-insensitive comparison
+   * Parse the search box into query terms, e.g. "company:stripe salary>80k"
    */
-  const normalizedSearchTerm = useMemo(
-    () => searchTerm.toLowerCase().trim(),
-    [searchTerm]
+  const queryTerms = useMemo(() => parseJobQuery(searchTerm), [searchTerm]);
+
+  const highlights = useMemo(
+    () => getQueryHighlights(queryTerms),
+    [queryTerms]
   );
 
   /**
-   * Apply filters to the job list
-   * Memoized to prevent unnecessary recalculations
+   * What the database is asked for
    */
-  const filteredJobs = useMemo(() => {
-    // If no filters applied, return all jobs
-    if (normalizedSearchTerm === "" && statusFilter.length === 0) {
-      return jobs;
-    }
-
-    return jobs.filter((job) => {
-      // Text search filter - match against multiple fields
-      const matchesSearch =
-        normalizedSearchTerm === "" ||
-        job.company.toLowerCase().includes(normalizedSearchTerm) ||
-        job.position.toLowerCase().includes(normalizedSearchTerm) ||
-        (job.location &&
-          job.location.toLowerCase().includes(normalizedSearchTerm));
-
-      // Status filter - only apply if statuses are selected
-      const matchesStatus =
-        statusFilter.length === 0 || statusFilter.includes(job.status);
-
-      return matchesSearch && matchesStatus;
-    });
-  }, [jobs, normalizedSearchTerm, statusFilter]);
+  const pageQuery = useMemo<JobPageQuery>(
+    () => ({
+      sortBy,
+      scope,
+      statuses: statusFilter,
+      tagIds: tagFilter,
+      terms: queryTerms,
+      archived,
+    }),
+    [sortBy, scope, statusFilter, tagFilter, queryTerms, archived]
+  );
+
+  const {
+    jobs: sortedJobs,
+    totalCount,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    error,
+    reload,
+  } = usePaginatedJobs(pageQuery);
+
+  useEffect(() => {
+    onTotalCountChange?.(totalCount);
+  }, [totalCount, onTotalCountChange]);
+
+  // Jobs selected for bulk actions, in the order shown
+  const jobIds = useMemo(() => sortedJobs.map((job) => job.id), [sortedJobs]);
+  const { selectedIds, toggle, selectAll, clear } = useJobSelection(jobIds);
+
+  const handleToggleSelect = useCallback(
+    (id: string, extend: boolean) => toggle(id, jobIds, extend),
+    [toggle, jobIds]
+  );
 
   /**
-   * Sort the filtered jobs based on the selected sort method
-   * Memoized to prevent unnecessary recalculations
+   * Values offered by the search box's autocomplete, from the jobs loaded so far
    */
-  const sortedJobs = useMemo(() => {
-    return [...filteredJobs].sort((a, b) => {
-      switch (sortBy) {
-        case "newest":
-          return (
-            new Date(b.appliedDate || b.lastUpdated).getTime() -
-            new Date(a.appliedDate || a.lastUpdated).getTime()
-          );
-        case "oldest":
-          return (
-            new Date(a.appliedDate || a.lastUpdated).getTime() -
-            new Date(b.appliedDate || b.lastUpdated).getTime()
-          );
-        case "company":
-          return a.company.localeCompare(b.company);
-        case "position":
-          return a.position.localeCompare(b.position);
-        default:
-          return 0;
-      }
-    });
-  }, [filteredJobs, sortBy]);
+  const suggestionValues = useMemo<QueryValueSource>(
+    () => ({
+      companies: loadedJobs.map((job) => job.company).filter(Boolean),
+      locations: loadedJobs.map((job) => job.location).filter(Boolean),
+      statuses: stages.map((stage) => stage.label),
+      tags: tags.map((tag) => tag.name),
+    }),
+    [loadedJobs, stages, tags]
+  );
 
   // Show error if one exists
   if (error) {
@@ -159,14 +209,12 @@ const JobList = ({
         <AlertDescription>
           {error.message ||
             "Failed to load job applications. Please try again."}
-          {onRetry && (
-            <button
-              onClick={onRetry}
-              className="underline ml-2 hover:text-red-400"
-            >
-              Retry
-            </button>
-          )}
+          <button
+            onClick={reload}
+            className="underline ml-2 hover:text-red-400"
+          >
+            Retry
+          </button>
         </AlertDescription>
       </Alert>
     );
@@ -175,22 +223,30 @@ const JobList = ({
   return (
     <div className="w-full">
       <div className="flex flex-col sm:flex-row gap-2 sm:space-x-4 mb-6">
-        <JobSearchBar searchTerm={searchTerm} setSearchTerm={setSearchTerm} />
+        <JobSearchBar
+          searchTerm={searchTerm}
+          setSearchTerm={setSearchTerm}
+          suggestionValues={suggestionValues}
+        />
 
         <StatusFilterDropdown
           statusFilter={statusFilter}
           handleToggleStatus={handleToggleStatus}
+          tagFilter={tagFilter}
+          handleToggleTag={handleToggleTag}
           clearFilters={clearFilters}
         />
       </div>
 
       {/* Only show filter tags if there are filters applied */}
-      {(statusFilter.length > 0 || searchTerm) && (
+      {(statusFilter.length > 0 || tagFilter.length > 0 || searchTerm) && (
         <FilterTags
           searchTerm={searchTerm}
           setSearchTerm={setSearchTerm}
           statusFilter={statusFilter}
           handleToggleStatus={handleToggleStatus}
+          tagFilter={tagFilter}
+          handleToggleTag={handleToggleTag}
           clearFilters={clearFilters}
         />
       )}
@@ -198,16 +254,33 @@ const JobList = ({
       <div aria-live="polite" className="sr-only">
         {isLoading
           ? "Loading job applications"
-          : `${sortedJobs.length} job applications found${
-              statusFilter.length > 0 ? " with filters applied" : ""
+          : `${totalCount} job applications found${
+              statusFilter.length > 0 || tagFilter.length > 0
+                ? " with filters applied"
+                : ""
             }`}
       </div>
 
       <JobListDisplay
         jobs={sortedJobs}
         onRemoveJob={handleRemoveJob}
+        highlights={highlights}
+        visibleFields={visibleFields}
         isLoading={isLoading}
-        onRetry={onRetry}
+        onRetry={reload}
+        hasMore={hasMore}
+        isLoadingMore={isLoadingMore}
+        onLoadMore={loadMore}
+        selectedIds={selectedIds}
+        onToggleSelect={handleToggleSelect}
+      />
+
+      <BulkActionBar
+        selectedIds={selectedIds}
+        onClear={clear}
+        onSelectAll={() => selectAll(jobIds)}
+        canSelectMore={selectedIds.length < jobIds.length}
+        archived={archived}
       />
     </div>
   );
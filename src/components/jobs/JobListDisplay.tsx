@@ -3,15 +3,20 @@
  *
  * Renders a grid of job cards with loading skeletons and empty states.
  * Handles loading, empty results, and retry functionality.
+ * Only the rows of cards on screen are rendered, and the next page is
+ * requested as the end of the list scrolls into view.
  * Uses React.memo for performance optimization.
  */
 
 import { JobApplication } from "@/data/mockJobs";
+import { QueryHighlights } from "@/utils/jobQueryUtils";
+import { JobCardField } from "@/utils/savedViewUtils";
 import JobCard from "./JobCard";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Search, Inbox, AlertCircle } from "lucide-react";
-import { memo, useMemo } from "react";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { Loader2, RefreshCw, Search, Inbox, AlertCircle } from "lucide-react";
+import { memo, useEffect, useMemo, useRef, useState } from "react";
 
 interface JobListDisplayProps {
   jobs: JobApplication[];
@@ -19,30 +24,86 @@ interface JobListDisplayProps {
   isLoading?: boolean;
   onRetry?: () => void;
   error?: Error | null;
+  highlights?: QueryHighlights;
+  visibleFields?: JobCardField[];
+  hasMore?: boolean; // More jobs can be loaded
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  selectedIds?: string[]; // Jobs selected for bulk actions
+  onToggleSelect?: (id: string, extend: boolean) => void;
 }
 
+// Estimated height of a row of cards, including the gap below it
+const ESTIMATED_ROW_HEIGHT = 260;
+
+/**
+ * Grid column count at the current viewport width, matching the grid classes
+ */
+const getColumnCount = () => {
+  const viewportWidth = window.innerWidth;
+
+  if (viewportWidth >= 1536) return 5; // 2xl
+  if (viewportWidth >= 1280) return 4; // xl
+  if (viewportWidth >= 1024) return 3; // lg
+  if (viewportWidth >= 640) return 2; // sm
+  return 1;
+};
+
 const JobListDisplay = ({
   jobs,
   onRemoveJob,
   isLoading = false,
   onRetry,
   error = null,
+  highlights,
+  visibleFields,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  selectedIds,
+  onToggleSelect,
 }: JobListDisplayProps) => {
-  // Calculate number of skeleton cards based on viewport size
-  const skeletonCount = useMemo(() => {
-    // Get approximate column count based on viewport width
-    const viewportWidth = window.innerWidth;
-    let columns = 1;
-
-    if (viewportWidth >= 1536) columns = 5; // 2xl
-    else if (viewportWidth >= 1280) columns = 4; // xl
-    else if (viewportWidth >= 1024) columns = 3; // lg
-    else if (viewportWidth >= 640) columns = 2; // sm
-
-    // Return enough skeletons for 2 rows
-    return columns * 2;
+  const [columns, setColumns] = useState(getColumnCount);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Keep the row layout in step with the grid breakpoints
+  useEffect(() => {
+    const handleResize = () => setColumns(getColumnCount());
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
   }, []);
 
+  // Split jobs into rows of cards, so only rows on screen are rendered
+  const rows = useMemo(() => {
+    const result: JobApplication[][] = [];
+    for (let i = 0; i < jobs.length; i += columns) {
+      result.push(jobs.slice(i, i + columns));
+    }
+    return result;
+  }, [jobs, columns]);
+
+  // A row is keyed by its jobs, so it is measured again when they change
+  const rowKeys = useMemo(
+    () => rows.map((row) => row.map((job) => job.id).join(",")),
+    [rows]
+  );
+
+  const { start, end, paddingTop, paddingBottom, measureRow } = useVirtualRows({
+    rowKeys,
+    estimateRowHeight: ESTIMATED_ROW_HEIGHT,
+    containerRef,
+  });
+
+  // Load the next page as the last rows come into view
+  useEffect(() => {
+    if (hasMore && !isLoadingMore && onLoadMore && end >= rows.length - 1) {
+      onLoadMore();
+    }
+  }, [hasMore, isLoadingMore, onLoadMore, end, rows.length]);
+
+  // Enough skeletons for 2 rows
+  const skeletonCount = columns * 2;
+
   // Show skeleton placeholders while loading
   if (isLoading) {
     return (
@@ -129,15 +190,39 @@ const JobListDisplay = ({
     );
   }
 
-  // Render the job grid
+  // Render the rows of the job grid that are on screen
   return (
-    <div
-      className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4 sm:gap-6"
-      aria-live="polite"
-    >
-      {jobs.map((job) => (
-        <JobCard key={job.id} job={job} onRemove={onRemoveJob} />
+    <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+      {rows.slice(start, end).map((row, i) => (
+        <div
+          key={rowKeys[start + i]}
+          ref={measureRow(rowKeys[start + i])}
+          className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4 sm:gap-6 pb-4 sm:pb-6"
+        >
+          {row.map((job) => (
+            <JobCard
+              key={job.id}
+              job={job}
+              onRemove={onRemoveJob}
+              highlights={highlights}
+              visibleFields={visibleFields}
+              isSelected={selectedIds?.includes(job.id)}
+              onSelectChange={
+                onToggleSelect
+                  ? (extend) => onToggleSelect(job.id, extend)
+                  : undefined
+              }
+            />
+          ))}
+        </div>
       ))}
+
+      {isLoadingMore && (
+        <div className="flex justify-center py-4 text-sm text-gray-500">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Loading more applications...
+        </div>
+      )}
     </div>
   );
 };
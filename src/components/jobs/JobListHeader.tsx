@@ -1,3 +1,13 @@
+import { Eye } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+	DropdownMenu,
+	DropdownMenuCheckboxItem,
+	DropdownMenuContent,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import {
 	Select,
 	SelectContent,
@@ -5,14 +15,36 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from '@/components/ui/select'
+import {
+	JobCardField,
+	jobCardFieldLabels,
+	jobCardFields,
+} from '@/utils/savedViewUtils'
 
 interface JobListHeaderProps {
 	jobCount: number
 	sortBy: string
 	setSortBy: (value: string) => void
+	visibleFields?: JobCardField[]
+	setVisibleFields?: (fields: JobCardField[]) => void
 }
 
-const JobListHeader = ({ jobCount, sortBy, setSortBy }: JobListHeaderProps) => {
+const JobListHeader = ({
+	jobCount,
+	sortBy,
+	setSortBy,
+	visibleFields = jobCardFields,
+	setVisibleFields,
+}: JobListHeaderProps) => {
+	const toggleField = (field: JobCardField) => {
+		setVisibleFields(
+			visibleFields.includes(field)
+				? visibleFields.filter((f) => f !== field)
+				: // Keep the fields in their usual order
+				  jobCardFields.filter((f) => f === field || visibleFields.includes(f))
+		)
+	}
+
 	return (
 		<div className='flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0'>
 			<div className='flex items-center'>
@@ -25,9 +57,42 @@ const JobListHeader = ({ jobCount, sortBy, setSortBy }: JobListHeaderProps) => {
 			</div>
 
 			<div className='flex items-center gap-2 text-sm'>
+				{setVisibleFields && (
+					<DropdownMenu>
+						<DropdownMenuTrigger asChild>
+							<Button
+								variant='outline'
+								size='sm'
+								className='h-8 border-gray-200 bg-white'
+							>
+								<Eye className='h-4 w-4 mr-2' />
+								Show
+							</Button>
+						</DropdownMenuTrigger>
+						<DropdownMenuContent
+							align='end'
+							className='w-56'
+						>
+							<DropdownMenuLabel>Show on cards</DropdownMenuLabel>
+							<DropdownMenuSeparator />
+							{jobCardFields.map((field) => (
+								<DropdownMenuCheckboxItem
+									key={field}
+									checked={visibleFields.includes(field)}
+									onSelect={(e) => {
+										e.preventDefault()
+										toggleField(field)
+									}}
+								>
+									{jobCardFieldLabels[field]}
+								</DropdownMenuCheckboxItem>
+							))}
+						</DropdownMenuContent>
+					</DropdownMenu>
+				)}
 				<span className='text-gray-500'>Sort by:</span>
 				<Select
-					defaultValue={sortBy}
+					value={sortBy}
 					onValueChange={setSortBy}
 				>
 					<SelectTrigger className='w-[130px] h-8 border border-gray-200 rounded bg-white text-sm'>
@@ -38,6 +103,8 @@ const JobListHeader = ({ jobCount, sortBy, setSortBy }: JobListHeaderProps) => {
 						<SelectItem value='oldest'>Oldest First</SelectItem>
 						<SelectItem value='company'>Company Name</SelectItem>
 						<SelectItem value='position'>Position</SelectItem>
+						<SelectItem value='salary-high'>Highest Salary</SelectItem>
+						<SelectItem value='salary-low'>Lowest Salary</SelectItem>
 					</SelectContent>
 				</Select>
 			</div>
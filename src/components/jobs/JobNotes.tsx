@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Pencil, Trash2, Check, X, StickyNote } from 'lucide-react'
+import { JobNote } from '@/data/mockJobs'
+import { useJobs } from '@/contexts/JobContext'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+
+interface JobNotesProps {
+	jobId: string
+	notes: JobNote[]
+}
+
+const formatTimestamp = (dateString: string) => {
+	try {
+		return format(new Date(dateString), 'MMM d, yyyy h:mm a')
+	} catch {
+		return dateString
+	}
+}
+
+const JobNotes = ({ jobId, notes }: JobNotesProps) => {
+	const { addNote, updateNote, deleteNote } = useJobs()
+	const [newNote, setNewNote] = useState('')
+	const [isSaving, setIsSaving] = useState(false)
+	const [editingNoteId, setEditingNoteId] = useState<string | null>(null)
+	const [editingContent, setEditingContent] = useState('')
+
+	const handleAddNote = async () => {
+		if (!newNote.trim()) return
+		setIsSaving(true)
+		try {
+			await addNote(jobId, newNote)
+			setNewNote('')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const handleStartEdit = (note: JobNote) => {
+		setEditingNoteId(note.id)
+		setEditingContent(note.content)
+	}
+
+	const handleCancelEdit = () => {
+		setEditingNoteId(null)
+		setEditingContent('')
+	}
+
+	const handleSaveEdit = async () => {
+		if (!editingNoteId || !editingContent.trim()) return
+		await updateNote(jobId, editingNoteId, editingContent)
+		handleCancelEdit()
+	}
+
+	return (
+		<div className='space-y-3'>
+			<h3 className='text-lg font-semibold border-b pb-1'>Notes</h3>
+
+			{notes.length === 0 ? (
+				<div className='bg-gray-50 p-4 rounded-md text-sm'>
+					<p className='text-gray-500 italic flex items-center'>
+						<StickyNote className='w-4 h-4 mr-2 flex-shrink-0' />
+						No notes yet
+					</p>
+				</div>
+			) : (
+				<ul className='space-y-3 px-1'>
+					{notes.map((note) => (
+						<li
+							key={note.id}
+							className='bg-gray-50 p-3 rounded-md'
+						>
+							{editingNoteId === note.id ? (
+								<div className='space-y-2'>
+									<Textarea
+										value={editingContent}
+										onChange={(e) => setEditingContent(e.target.value)}
+										className='min-h-[80px] text-sm'
+										autoFocus
+									/>
+									<div className='flex justify-end gap-2'>
+										<Button
+											variant='ghost'
+											size='sm'
+											onClick={handleCancelEdit}
+										>
+											<X className='w-4 h-4 mr-1' />
+											Cancel
+										</Button>
+										<Button
+											size='sm'
+											onClick={handleSaveEdit}
+											disabled={!editingContent.trim()}
+										>
+											<Check className='w-4 h-4 mr-1' />
+											Save
+										</Button>
+									</div>
+								</div>
+							) : (
+								<>
+									<div className='flex items-start justify-between gap-2'>
+										<p className='text-sm whitespace-pre-wrap'>
+											{note.content}
+										</p>
+										<div className='flex flex-shrink-0'>
+											<Button
+												variant='ghost'
+												size='sm'
+												className='h-7 w-7 p-0'
+												onClick={() => handleStartEdit(note)}
+												aria-label='Edit note'
+											>
+												<Pencil className='w-3.5 h-3.5' />
+											</Button>
+											<Button
+												variant='ghost'
+												size='sm'
+												className='h-7 w-7 p-0 text-red-600 hover:text-red-700'
+												onClick={() => deleteNote(jobId, note.id)}
+												aria-label='Delete note'
+											>
+												<Trash2 className='w-3.5 h-3.5' />
+											</Button>
+										</div>
+									</div>
+									<p className='text-xs text-gray-500 mt-2'>
+										{formatTimestamp(note.createdAt)}
+										{note.updatedAt && note.updatedAt !== note.createdAt && (
+											<span> · edited {formatTimestamp(note.updatedAt)}</span>
+										)}
+									</p>
+								</>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+
+			<div className='space-y-2 px-1'>
+				<Textarea
+					value={newNote}
+					onChange={(e) => setNewNote(e.target.value)}
+					placeholder='Add a note...'
+					className='min-h-[80px] text-sm'
+				/>
+				<div className='flex justify-end'>
+					<Button
+						size='sm'
+						onClick={handleAddNote}
+						disabled={isSaving || !newNote.trim()}
+					>
+						{isSaving ? 'Saving...' : 'Add Note'}
+					</Button>
+				</div>
+			</div>
+		</div>
+	)
+}
+
+export default JobNotes
@@ -0,0 +1,205 @@
+import { useEffect, useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { Camera, FileText, GitCompare, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { usePostingSnapshots } from '@/hooks/use-posting-snapshots'
+import {
+	diffPostingText,
+	sanitizePostingHtml,
+} from '@/utils/postingSnapshotUtils'
+
+interface JobPostingSnapshotProps {
+	jobId: string
+	jobUrl?: string
+}
+
+// Styles for the posting's own markup, as there is no typography plugin
+const POSTING_CONTENT_CLASSES =
+	'[&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-semibold [&_h4]:font-semibold [&_p]:my-2 [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_li]:my-1 [&_a]:text-blue-600 [&_a]:underline'
+
+const formatCaptureDate = (date: string) =>
+	format(new Date(date), 'MMM d, yyyy h:mm a')
+
+const JobPostingSnapshot = ({ jobId, jobUrl }: JobPostingSnapshotProps) => {
+	const { snapshots, isLoading, isCapturing, capture } = usePostingSnapshots(
+		jobId,
+		jobUrl
+	)
+	const [selectedId, setSelectedId] = useState<string | null>(null)
+	const [showChanges, setShowChanges] = useState(false)
+
+	// Show the newest capture whenever the list changes
+	useEffect(() => {
+		setSelectedId(snapshots[0]?.id ?? null)
+		setShowChanges(false)
+	}, [snapshots])
+
+	const selectedIndex = snapshots.findIndex(
+		(snapshot) => snapshot.id === selectedId
+	)
+	const selected = snapshots[selectedIndex]
+	const previous = selectedIndex >= 0 ? snapshots[selectedIndex + 1] : undefined
+
+	const html = useMemo(
+		() => (selected ? sanitizePostingHtml(selected.html) : ''),
+		[selected]
+	)
+
+	const changes = useMemo(
+		() =>
+			showChanges && selected && previous
+				? diffPostingText(previous.text, selected.text)
+				: [],
+		[showChanges, selected, previous]
+	)
+	const addedCount = changes.filter((line) => line.type === 'added').length
+	const removedCount = changes.filter((line) => line.type === 'removed').length
+
+	return (
+		<div className='space-y-3'>
+			<h3 className='text-lg font-semibold border-b pb-1'>Job Posting</h3>
+
+			{isLoading ? (
+				<div className='bg-gray-50 p-4 rounded-md animate-pulse'>
+					<div className='h-4 bg-gray-200 rounded w-3/4 mb-2'></div>
+					<div className='h-4 bg-gray-200 rounded w-full mb-2'></div>
+					<div className='h-4 bg-gray-200 rounded w-2/3'></div>
+				</div>
+			) : !selected ? (
+				<div className='bg-gray-50 p-4 rounded-md text-sm flex items-center justify-between gap-4'>
+					<p className='text-gray-500 italic flex items-center'>
+						<FileText className='w-4 h-4 mr-2 flex-shrink-0' />
+						{jobUrl
+							? 'The posting has not been captured yet'
+							: 'Add the job URL to capture its posting'}
+					</p>
+					{jobUrl && (
+						<Button
+							variant='outline'
+							size='sm'
+							onClick={capture}
+							disabled={isCapturing}
+						>
+							<Camera className='w-4 h-4 mr-1' />
+							{isCapturing ? 'Capturing...' : 'Capture posting'}
+						</Button>
+					)}
+				</div>
+			) : (
+				<>
+					<div className='flex flex-wrap items-center justify-between gap-2 text-sm'>
+						{snapshots.length > 1 ? (
+							<Select
+								value={selected.id}
+								onValueChange={setSelectedId}
+							>
+								<SelectTrigger className='w-64 h-8'>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{snapshots.map((snapshot) => (
+										<SelectItem
+											key={snapshot.id}
+											value={snapshot.id}
+										>
+											Captured {formatCaptureDate(snapshot.capturedAt)}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						) : (
+							<span className='text-gray-500'>
+								Captured {formatCaptureDate(selected.capturedAt)}
+							</span>
+						)}
+
+						<div className='flex gap-2'>
+							{previous && (
+								<Button
+									variant={showChanges ? 'secondary' : 'outline'}
+									size='sm'
+									onClick={() => setShowChanges(!showChanges)}
+								>
+									<GitCompare className='w-4 h-4 mr-1' />
+									{showChanges ? 'Show posting' : 'Show changes'}
+								</Button>
+							)}
+							{jobUrl && (
+								<Button
+									variant='outline'
+									size='sm'
+									onClick={capture}
+									disabled={isCapturing}
+								>
+									<RefreshCw
+										className={`w-4 h-4 mr-1 ${
+											isCapturing ? 'animate-spin' : ''
+										}`}
+									/>
+									Re-capture
+								</Button>
+							)}
+						</div>
+					</div>
+
+					{showChanges && previous ? (
+						<div className='bg-gray-50 p-4 rounded-md text-sm max-h-96 overflow-y-auto'>
+							<p className='text-gray-500 mb-3'>
+								Changes since {formatCaptureDate(previous.capturedAt)}:{' '}
+								<span className='text-green-700'>{addedCount} added</span>,{' '}
+								<span className='text-red-700'>{removedCount} removed</span>
+							</p>
+							{addedCount + removedCount === 0 ? (
+								<p className='text-gray-500 italic'>
+									Only the formatting changed
+								</p>
+							) : (
+								<div className='font-mono text-xs space-y-0.5 whitespace-pre-wrap'>
+									{changes.map((line, index) =>
+										line.type === 'added' ? (
+											<p
+												key={index}
+												className='bg-green-50 text-green-800 px-2'
+											>
+												+ {line.text}
+											</p>
+										) : line.type === 'removed' ? (
+											<p
+												key={index}
+												className='bg-red-50 text-red-800 line-through px-2'
+											>
+												− {line.text}
+											</p>
+										) : (
+											<p
+												key={index}
+												className='text-gray-600 px-2'
+											>
+												{'  '}
+												{line.text}
+											</p>
+										)
+									)}
+								</div>
+							)}
+						</div>
+					) : (
+						<div
+							className={`bg-gray-50 p-4 rounded-md text-sm max-h-96 overflow-y-auto break-words ${POSTING_CONTENT_CLASSES}`}
+							dangerouslySetInnerHTML={{ __html: html }}
+						/>
+					)}
+				</>
+			)}
+		</div>
+	)
+}
+
+export default JobPostingSnapshot
@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Handshake, Pencil, Trash2, Plus, Check } from 'lucide-react'
+import { JobContact, JobReferral } from '@/data/mockJobs'
+import {
+	JobContactInput,
+	JobReferralInput,
+	useJobs,
+} from '@/contexts/JobContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+	referralFollowUpLabels,
+	referralRelationshipLabels,
+} from '@/utils/referralUtils'
+import ReferralFormDialog from './ReferralFormDialog'
+
+interface JobReferralDetailsProps {
+	jobId: string
+	referral?: JobReferral
+	contacts: JobContact[]
+}
+
+const followUpBadgeColors = {
+	pending: 'border-amber-200 bg-amber-50 text-amber-700',
+	followedUp: 'border-blue-200 bg-blue-50 text-blue-700',
+	thanked: 'border-green-200 bg-green-50 text-green-700',
+}
+
+// Dates are stored as YYYY-MM-DD; parse as local time, not UTC midnight
+const formatDay = (date: string) =>
+	format(new Date(`${date}T00:00:00`), 'MMM d, yyyy')
+
+const JobReferralDetails = ({
+	jobId,
+	referral,
+	contacts,
+}: JobReferralDetailsProps) => {
+	const { addContact, saveReferral, deleteReferral } = useJobs()
+	const [isFormOpen, setIsFormOpen] = useState(false)
+
+	const handleSubmit = async (
+		input: JobReferralInput,
+		newContact?: JobContactInput
+	) => {
+		const contactId = newContact
+			? await addContact(jobId, newContact)
+			: input.contactId
+		if (newContact && !contactId) return
+
+		await saveReferral(jobId, { ...input, contactId })
+	}
+
+	const handleMarkThanked = () => {
+		saveReferral(jobId, { ...referral, followUpStatus: 'thanked' })
+	}
+
+	// Show the contact's current name in case it was edited since
+	const referrer = contacts.find((c) => c.id === referral?.contactId)
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex items-center justify-between border-b pb-1'>
+				<h3 className='text-lg font-semibold'>Referral</h3>
+				{!referral && (
+					<Button
+						variant='ghost'
+						size='sm'
+						onClick={() => setIsFormOpen(true)}
+					>
+						<Plus className='w-4 h-4 mr-1' />
+						Add Referral
+					</Button>
+				)}
+			</div>
+
+			{!referral ? (
+				<div className='bg-gray-50 p-4 rounded-md text-sm'>
+					<p className='text-gray-500 italic'>
+						Not referred. Add who referred you to compare referral and cold
+						applications on the dashboard
+					</p>
+				</div>
+			) : (
+				<div className='bg-gray-50 p-4 rounded-md'>
+					<div className='flex items-start justify-between mb-3'>
+						<div className='flex items-center space-x-2'>
+							<Handshake className='w-5 h-5 text-gray-500 flex-shrink-0' />
+							<p className='font-medium'>
+								{referrer?.name || referral.referrerName}
+							</p>
+							{referral.relationship && (
+								<Badge
+									variant='outline'
+									className='ml-2'
+								>
+									{referralRelationshipLabels[referral.relationship]}
+								</Badge>
+							)}
+						</div>
+						<div className='flex flex-shrink-0'>
+							{referral.followUpStatus !== 'thanked' && (
+								<Button
+									variant='ghost'
+									size='sm'
+									className='h-7 w-7 p-0'
+									onClick={handleMarkThanked}
+									title='Mark as thanked'
+									aria-label='Mark as thanked'
+								>
+									<Check className='w-3.5 h-3.5' />
+								</Button>
+							)}
+							<Button
+								variant='ghost'
+								size='sm'
+								className='h-7 w-7 p-0'
+								onClick={() => setIsFormOpen(true)}
+								aria-label='Edit referral'
+							>
+								<Pencil className='w-3.5 h-3.5' />
+							</Button>
+							<Button
+								variant='ghost'
+								size='sm'
+								className='h-7 w-7 p-0 text-red-600 hover:text-red-700'
+								onClick={() => deleteReferral(jobId)}
+								aria-label='Delete referral'
+							>
+								<Trash2 className='w-3.5 h-3.5' />
+							</Button>
+						</div>
+					</div>
+					<div className='flex flex-col space-y-1 pl-7 text-sm text-gray-600'>
+						<p>
+							{referral.requestedDate
+								? `Requested ${formatDay(referral.requestedDate)}`
+								: 'Request date not set'}
+						</p>
+						<p>
+							{referral.submittedDate
+								? `Submitted ${formatDay(referral.submittedDate)}`
+								: 'Not submitted yet'}
+						</p>
+						<div>
+							<Badge
+								variant='outline'
+								className={followUpBadgeColors[referral.followUpStatus]}
+							>
+								{referralFollowUpLabels[referral.followUpStatus]}
+							</Badge>
+						</div>
+					</div>
+				</div>
+			)}
+
+			<ReferralFormDialog
+				isOpen={isFormOpen}
+				onClose={() => setIsFormOpen(false)}
+				onSubmit={handleSubmit}
+				contacts={contacts}
+				initialData={referral}
+			/>
+		</div>
+	)
+}
+
+export default JobReferralDetails
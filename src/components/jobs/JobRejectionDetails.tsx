@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { Ban, Pencil, Trash2, Plus } from 'lucide-react'
+import { JobApplication } from '@/data/mockJobs'
+import { useJobs } from '@/contexts/JobContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+	rejectedByLabels,
+	rejectionReasonLabels,
+	rejectionStageLabels,
+} from '@/utils/rejectionUtils'
+import RejectionFormDialog from './RejectionFormDialog'
+
+interface JobRejectionDetailsProps {
+	job: JobApplication
+}
+
+const JobRejectionDetails = ({ job }: JobRejectionDetailsProps) => {
+	const { saveRejection, deleteRejection } = useJobs()
+	const [isFormOpen, setIsFormOpen] = useState(false)
+	const { rejection } = job
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex items-center justify-between border-b pb-1'>
+				<h3 className='text-lg font-semibold'>Rejection</h3>
+				{!rejection && (
+					<Button
+						variant='ghost'
+						size='sm'
+						onClick={() => setIsFormOpen(true)}
+					>
+						<Plus className='w-4 h-4 mr-1' />
+						Add Details
+					</Button>
+				)}
+			</div>
+
+			{!rejection ? (
+				<div className='bg-gray-50 p-4 rounded-md text-sm'>
+					<p className='text-gray-500 italic'>
+						Not recorded. Add why this ended to see patterns on the dashboard
+					</p>
+				</div>
+			) : (
+				<div className='bg-gray-50 p-4 rounded-md'>
+					<div className='flex items-start justify-between mb-3'>
+						<div className='flex items-center space-x-2'>
+							<Ban className='w-5 h-5 text-gray-500 flex-shrink-0' />
+							<p className='font-medium'>
+								{rejectedByLabels[rejection.rejectedBy]}
+							</p>
+						</div>
+						<div className='flex flex-shrink-0'>
+							<Button
+								variant='ghost'
+								size='sm'
+								className='h-7 w-7 p-0'
+								onClick={() => setIsFormOpen(true)}
+								aria-label='Edit rejection'
+							>
+								<Pencil className='w-3.5 h-3.5' />
+							</Button>
+							<Button
+								variant='ghost'
+								size='sm'
+								className='h-7 w-7 p-0 text-red-600 hover:text-red-700'
+								onClick={() => deleteRejection(job.id)}
+								aria-label='Delete rejection'
+							>
+								<Trash2 className='w-3.5 h-3.5' />
+							</Button>
+						</div>
+					</div>
+					<div className='flex flex-col space-y-2 pl-7 text-sm text-gray-600'>
+						<div className='flex flex-wrap gap-2'>
+							{rejection.stageReached && (
+								<Badge variant='outline'>
+									After {rejectionStageLabels[rejection.stageReached]}
+								</Badge>
+							)}
+							{rejection.reason && (
+								<Badge variant='outline'>
+									{rejectionReasonLabels[rejection.reason]}
+								</Badge>
+							)}
+						</div>
+						{rejection.feedback && (
+							<p className='whitespace-pre-wrap'>{rejection.feedback}</p>
+						)}
+					</div>
+				</div>
+			)}
+
+			<RejectionFormDialog
+				isOpen={isFormOpen}
+				onClose={() => setIsFormOpen(false)}
+				onSubmit={(input) => saveRejection(job.id, input)}
+				job={job}
+				initialData={rejection}
+			/>
+		</div>
+	)
+}
+
+export default JobRejectionDetails
@@ -1,24 +1,163 @@
-
+import { KeyboardEvent, useMemo, useRef, useState } from "react";
 import { Search } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import {
+  QuerySuggestion,
+  QueryValueSource,
+  getActiveToken,
+  getQuerySuggestions,
+} from "@/utils/jobQueryUtils";
 
 interface JobSearchBarProps {
   searchTerm: string;
   setSearchTerm: (value: string) => void;
   className?: string;
+  suggestionValues?: QueryValueSource; // Values offered after "field:"
 }
 
-const JobSearchBar = ({ searchTerm, setSearchTerm, className }: JobSearchBarProps) => {
+const EMPTY_VALUES: QueryValueSource = {
+  companies: [],
+  locations: [],
+  statuses: [],
+  tags: [],
+};
+
+/**
+ * Search box that accepts plain text or query terms such as
+ * `company:stripe salary>80000 -tag:contract`, completing field names
+ * and values for the term under the caret
+ */
+const JobSearchBar = ({
+  searchTerm,
+  setSearchTerm,
+  className,
+  suggestionValues = EMPTY_VALUES,
+}: JobSearchBarProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const token = useMemo(
+    () => getActiveToken(searchTerm, caret),
+    [searchTerm, caret]
+  );
+
+  const suggestions = useMemo(
+    () => (token.text ? getQuerySuggestions(token.text, suggestionValues) : []),
+    [token.text, suggestionValues]
+  );
+
+  const showSuggestions = isFocused && !isDismissed && suggestions.length > 0;
+
+  const updateCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? searchTerm.length);
+  };
+
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const before = searchTerm.slice(0, token.start);
+    const after = searchTerm.slice(token.end);
+    // Keep typing a value straight after "field:", otherwise start a new term
+    const separator = /[:<>=]$/.test(suggestion.value) || after ? "" : " ";
+    const nextValue = `${before}${suggestion.value}${separator}${after}`;
+    const nextCaret =
+      before.length + suggestion.value.length + separator.length;
+
+    setSearchTerm(nextValue);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((prev) => (prev + 1) % suggestions.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex(
+          (prev) => (prev - 1 + suggestions.length) % suggestions.length
+        );
+        break;
+      case "Enter":
+      case "Tab":
+        e.preventDefault();
+        applySuggestion(
+          suggestions[Math.min(activeIndex, suggestions.length - 1)]
+        );
+        break;
+      case "Escape":
+        setIsDismissed(true);
+        break;
+    }
+  };
+
   return (
     <div className={cn("relative flex-1", className)}>
       <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
       <Input
-        placeholder="Search jobs..."
+        ref={inputRef}
+        placeholder="Search jobs, or filter e.g. company:stripe status:interview"
         className="pl-9 bg-white border-gray-200"
         value={searchTerm}
-        onChange={(e) => setSearchTerm(e.target.value)}
+        onChange={(e) => {
+          setSearchTerm(e.target.value);
+          setCaret(e.target.selectionStart ?? e.target.value.length);
+          setIsDismissed(false);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCaret}
+        onClick={updateCaret}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        role="combobox"
+        aria-expanded={showSuggestions}
+        aria-controls="job-search-suggestions"
+        aria-autocomplete="list"
       />
+      {showSuggestions && (
+        <ul
+          id="job-search-suggestions"
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto rounded-md border border-gray-200 bg-white py-1 text-sm shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.value}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                "flex cursor-pointer items-center justify-between px-3 py-1.5",
+                index === activeIndex && "bg-gray-100"
+              )}
+              // Apply before the input loses focus and closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applySuggestion(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="ml-4 text-xs text-gray-500">
+                  {suggestion.description}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
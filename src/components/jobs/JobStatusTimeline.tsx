@@ -0,0 +1,121 @@
+import { format } from 'date-fns'
+import { ArrowRight, Clock, History } from 'lucide-react'
+import { JobApplication } from '@/data/mockJobs'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { Badge } from '@/components/ui/badge'
+import {
+	formatDuration,
+	getResponseTime,
+	getStagePeriods,
+	getStatusHistory,
+	statusChangeSourceLabels,
+} from '@/utils/statusHistoryUtils'
+
+interface JobStatusTimelineProps {
+	job: JobApplication
+}
+
+const JobStatusTimeline = ({ job }: JobStatusTimelineProps) => {
+	const { getStage, getOutcome } = usePipeline()
+
+	const history = getStatusHistory(job)
+	const periods = getStagePeriods(job)
+	const currentPeriod = periods[periods.length - 1]
+	const responseTime = getResponseTime(job, getOutcome)
+
+	const renderStageLabel = (status: string) => {
+		const stage = getStage(status)
+		return (
+			<span className='inline-flex items-center font-medium'>
+				<span
+					className='w-2 h-2 rounded-full mr-1.5'
+					style={{ backgroundColor: stage.color }}
+				/>
+				{stage.label}
+			</span>
+		)
+	}
+
+	return (
+		<div className='space-y-3'>
+			<h3 className='text-lg font-semibold border-b pb-1'>Status History</h3>
+
+			{history.length === 0 ? (
+				<div className='bg-gray-50 p-4 rounded-md text-sm'>
+					<p className='text-gray-500 italic flex items-center'>
+						<History className='w-4 h-4 mr-2 flex-shrink-0' />
+						No status changes recorded yet
+					</p>
+				</div>
+			) : (
+				<>
+					<div className='flex flex-wrap gap-2 px-1 text-sm'>
+						{currentPeriod && (
+							<Badge
+								variant='outline'
+								className='font-normal'
+							>
+								<Clock className='w-3.5 h-3.5 mr-1' />
+								In {getStage(currentPeriod.status).label} for{' '}
+								{formatDuration(currentPeriod.durationMs)}
+							</Badge>
+						)}
+						{responseTime !== null && (
+							<Badge
+								variant='outline'
+								className='font-normal'
+							>
+								Company replied after {formatDuration(responseTime)}
+							</Badge>
+						)}
+					</div>
+
+					<ol className='relative border-l border-gray-200 ml-3 space-y-4'>
+						{history.map((change, index) => (
+							<li
+								key={change.id}
+								className='ml-4'
+							>
+								<span
+									className='absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white'
+									style={{
+										backgroundColor: getStage(change.toStatus).color,
+									}}
+								/>
+								<div className='flex flex-wrap items-center gap-2 text-sm'>
+									{change.fromStatus ? (
+										<>
+											{renderStageLabel(change.fromStatus)}
+											<ArrowRight className='w-3.5 h-3.5 text-gray-400' />
+										</>
+									) : (
+										<span className='text-gray-500'>Created as</span>
+									)}
+									{renderStageLabel(change.toStatus)}
+									<Badge
+										variant='secondary'
+										className='text-xs font-normal'
+									>
+										{statusChangeSourceLabels[change.source] || change.source}
+									</Badge>
+								</div>
+								<p className='text-xs text-gray-500 mt-1'>
+									{format(new Date(change.changedAt), 'MMM d, yyyy h:mm a')}
+									{periods[index] && (
+										<span>
+											{' '}
+											· {periods[index].exitedAt ? 'Stayed' : 'So far'}{' '}
+											{formatDuration(periods[index].durationMs)}
+										</span>
+									)}
+								</p>
+							</li>
+						))}
+					</ol>
+				</>
+			)}
+		</div>
+	)
+}
+
+export default JobStatusTimeline
@@ -0,0 +1,48 @@
+import { X } from 'lucide-react'
+import { JobTag } from '@/data/mockJobs'
+import { hexToRgba } from '@/utils/pipelineUtils'
+
+interface JobTagListProps {
+	tags: JobTag[]
+	onRemove?: (id: string) => void
+	className?: string
+}
+
+/**
+ * A job's tags as coloured chips, optionally with a button to remove each
+ */
+const JobTagList = ({ tags, onRemove, className = '' }: JobTagListProps) => {
+	if (tags.length === 0) return null
+
+	return (
+		<div className={`flex flex-wrap gap-1 ${className}`}>
+			{tags.map((tag) => (
+				<span
+					key={tag.id}
+					className='inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium'
+					style={{
+						backgroundColor: hexToRgba(tag.color, 0.15),
+						color: tag.color,
+					}}
+				>
+					{tag.name}
+					{onRemove && (
+						<button
+							type='button'
+							className='ml-1 opacity-70 hover:opacity-100'
+							onClick={(e) => {
+								e.stopPropagation()
+								onRemove(tag.id)
+							}}
+							aria-label={`Remove ${tag.name} tag`}
+						>
+							<X className='h-3 w-3' />
+						</button>
+					)}
+				</span>
+			))}
+		</div>
+	)
+}
+
+export default JobTagList
@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react'
+import { ListChecks } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useTasks } from '@/hooks/use-tasks'
+import { sortTasksByDueDate } from '@/utils/taskUtils'
+import TaskItem from '@/components/tasks/TaskItem'
+
+interface JobTasksProps {
+	jobId: string
+}
+
+const JobTasks = ({ jobId }: JobTasksProps) => {
+	const { tasks, isLoading, addTask, toggleTask, removeTask } = useTasks(jobId)
+	const [newTitle, setNewTitle] = useState('')
+	const [newDueDate, setNewDueDate] = useState('')
+	const [isSaving, setIsSaving] = useState(false)
+
+	const sortedTasks = useMemo(() => sortTasksByDueDate(tasks), [tasks])
+	const doneCount = tasks.filter((task) => task.completedAt).length
+
+	const handleAddTask = async (e: React.FormEvent) => {
+		e.preventDefault()
+		if (!newTitle.trim()) return
+
+		setIsSaving(true)
+		try {
+			await addTask(jobId, {
+				title: newTitle,
+				dueDate: newDueDate || undefined,
+			})
+			setNewTitle('')
+			setNewDueDate('')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex items-center justify-between border-b pb-1'>
+				<h3 className='text-lg font-semibold'>Tasks</h3>
+				{tasks.length > 0 && (
+					<span className='text-sm text-gray-500'>
+						{doneCount} of {tasks.length} done
+					</span>
+				)}
+			</div>
+
+			{isLoading ? (
+				<div className='bg-gray-50 p-4 rounded-md animate-pulse'>
+					<div className='h-4 bg-gray-200 rounded w-2/3 mb-2'></div>
+					<div className='h-4 bg-gray-200 rounded w-1/2'></div>
+				</div>
+			) : tasks.length === 0 ? (
+				<div className='bg-gray-50 p-4 rounded-md text-sm'>
+					<p className='text-gray-500 italic flex items-center'>
+						<ListChecks className='w-4 h-4 mr-2 flex-shrink-0' />
+						No tasks yet
+					</p>
+				</div>
+			) : (
+				<div className='divide-y px-1'>
+					{sortedTasks.map((task) => (
+						<TaskItem
+							key={task.id}
+							task={task}
+							onToggle={toggleTask}
+							onDelete={removeTask}
+						/>
+					))}
+				</div>
+			)}
+
+			<form
+				onSubmit={handleAddTask}
+				className='flex gap-2 px-1'
+			>
+				<Input
+					value={newTitle}
+					onChange={(e) => setNewTitle(e.target.value)}
+					placeholder='Add a task, e.g. Send thank-you notes'
+					aria-label='Task'
+				/>
+				<Input
+					type='date'
+					value={newDueDate}
+					onChange={(e) => setNewDueDate(e.target.value)}
+					className='w-[150px] flex-shrink-0'
+					aria-label='Due date'
+				/>
+				<Button
+					type='submit'
+					size='sm'
+					className='h-10 flex-shrink-0'
+					disabled={isSaving || !newTitle.trim()}
+				>
+					Add
+				</Button>
+			</form>
+		</div>
+	)
+}
+
+export default JobTasks
@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react'
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	JobContact,
+	JobReferral,
+	ReferralFollowUpStatus,
+	ReferralRelationship,
+} from '@/data/mockJobs'
+import { JobContactInput, JobReferralInput } from '@/contexts/JobContext'
+import {
+	referralFollowUpLabels,
+	referralRelationshipLabels,
+} from '@/utils/referralUtils'
+
+interface ReferralFormDialogProps {
+	isOpen: boolean
+	onClose: () => void
+	// newContact is set when the referrer isn't one of the job's contacts yet
+	onSubmit: (
+		referral: JobReferralInput,
+		newContact?: JobContactInput
+	) => Promise<void>
+	contacts: JobContact[]
+	initialData?: JobReferral | null
+}
+
+// Select items can't have an empty value
+const NEW_CONTACT = 'new'
+const NO_RELATIONSHIP = 'none'
+
+const emptyForm = {
+	contactId: NEW_CONTACT,
+	name: '',
+	email: '',
+	relationship: NO_RELATIONSHIP,
+	requestedDate: '',
+	submittedDate: '',
+	followUpStatus: 'pending' as ReferralFollowUpStatus,
+}
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
+
+const ReferralFormDialog = ({
+	isOpen,
+	onClose,
+	onSubmit,
+	contacts,
+	initialData,
+}: ReferralFormDialogProps) => {
+	const [formData, setFormData] = useState(emptyForm)
+	const [error, setError] = useState<string | null>(null)
+	const [isSaving, setIsSaving] = useState(false)
+
+	// Reset the form whenever the dialog opens
+	useEffect(() => {
+		if (!isOpen) return
+		setError(null)
+		const linkedContact = contacts.find(
+			(contact) => contact.id === initialData?.contactId
+		)
+		setFormData(
+			initialData
+				? {
+						...emptyForm,
+						contactId: linkedContact?.id || NEW_CONTACT,
+						name: linkedContact ? '' : initialData.referrerName,
+						relationship: initialData.relationship || NO_RELATIONSHIP,
+						requestedDate: initialData.requestedDate || '',
+						submittedDate: initialData.submittedDate || '',
+						followUpStatus: initialData.followUpStatus,
+				  }
+				: { ...emptyForm, contactId: contacts[0]?.id || NEW_CONTACT }
+		)
+	}, [isOpen, initialData, contacts])
+
+	const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const { name, value } = e.target
+		setFormData((prev) => ({ ...prev, [name]: value }))
+	}
+
+	const isNewContact = formData.contactId === NEW_CONTACT
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+
+		if (isNewContact) {
+			if (!formData.name.trim()) {
+				setError('Name is required')
+				return
+			}
+			if (!isValidEmail(formData.email.trim())) {
+				setError('A valid email address is required')
+				return
+			}
+		}
+		if (
+			formData.requestedDate &&
+			formData.submittedDate &&
+			formData.submittedDate < formData.requestedDate
+		) {
+			setError("The referral can't be submitted before it was requested")
+			return
+		}
+
+		const contact = contacts.find((c) => c.id === formData.contactId)
+		setIsSaving(true)
+		try {
+			await onSubmit(
+				{
+					contactId: contact?.id,
+					referrerName: contact ? contact.name : formData.name,
+					relationship:
+						formData.relationship === NO_RELATIONSHIP
+							? undefined
+							: (formData.relationship as ReferralRelationship),
+					requestedDate: formData.requestedDate || undefined,
+					submittedDate: formData.submittedDate || undefined,
+					followUpStatus: formData.followUpStatus,
+				},
+				contact
+					? undefined
+					: {
+							name: formData.name,
+							email: formData.email,
+							position:
+								formData.relationship === NO_RELATIONSHIP
+									? undefined
+									: referralRelationshipLabels[
+											formData.relationship as ReferralRelationship
+									  ],
+					  }
+			)
+			onClose()
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Dialog
+			open={isOpen}
+			onOpenChange={onClose}
+		>
+			<DialogContent className='sm:max-w-[450px]'>
+				<DialogHeader>
+					<DialogTitle>
+						{initialData ? 'Edit Referral' : 'Add Referral'}
+					</DialogTitle>
+				</DialogHeader>
+
+				<form
+					onSubmit={handleSubmit}
+					className='grid gap-4 py-2'
+				>
+					<div className='grid gap-2'>
+						<Label>Referred by</Label>
+						<Select
+							value={formData.contactId}
+							onValueChange={(contactId) =>
+								setFormData((prev) => ({ ...prev, contactId }))
+							}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{contacts.map((contact) => (
+									<SelectItem
+										key={contact.id}
+										value={contact.id}
+									>
+										{contact.name}
+									</SelectItem>
+								))}
+								<SelectItem value={NEW_CONTACT}>New contact...</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+					{isNewContact && (
+						<div className='grid grid-cols-2 gap-4'>
+							<div className='grid gap-2'>
+								<Label htmlFor='referral-name'>Name</Label>
+								<Input
+									id='referral-name'
+									name='name'
+									value={formData.name}
+									onChange={handleChange}
+									placeholder='Jane Smith'
+								/>
+							</div>
+							<div className='grid gap-2'>
+								<Label htmlFor='referral-email'>Email</Label>
+								<Input
+									id='referral-email'
+									name='email'
+									type='email'
+									value={formData.email}
+									onChange={handleChange}
+									placeholder='jane@company.com'
+								/>
+							</div>
+						</div>
+					)}
+					<div className='grid gap-2'>
+						<Label>Relationship</Label>
+						<Select
+							value={formData.relationship}
+							onValueChange={(relationship) =>
+								setFormData((prev) => ({ ...prev, relationship }))
+							}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={NO_RELATIONSHIP}>Not specified</SelectItem>
+								{Object.entries(referralRelationshipLabels).map(
+									([value, label]) => (
+										<SelectItem
+											key={value}
+											value={value}
+										>
+											{label}
+										</SelectItem>
+									)
+								)}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className='grid grid-cols-2 gap-4'>
+						<div className='grid gap-2'>
+							<Label htmlFor='referral-requested'>Requested</Label>
+							<Input
+								id='referral-requested'
+								name='requestedDate'
+								type='date'
+								value={formData.requestedDate}
+								onChange={handleChange}
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label htmlFor='referral-submitted'>Submitted</Label>
+							<Input
+								id='referral-submitted'
+								name='submittedDate'
+								type='date'
+								value={formData.submittedDate}
+								onChange={handleChange}
+							/>
+						</div>
+					</div>
+					<div className='grid gap-2'>
+						<Label>Thank-you / follow-up</Label>
+						<Select
+							value={formData.followUpStatus}
+							onValueChange={(followUpStatus) =>
+								setFormData((prev) => ({
+									...prev,
+									followUpStatus: followUpStatus as ReferralFollowUpStatus,
+								}))
+							}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(referralFollowUpLabels).map(
+									([value, label]) => (
+										<SelectItem
+											key={value}
+											value={value}
+										>
+											{label}
+										</SelectItem>
+									)
+								)}
+							</SelectContent>
+						</Select>
+					</div>
+
+					{error && <p className='text-sm text-red-600'>{error}</p>}
+
+					<DialogFooter>
+						<Button
+							type='button'
+							variant='outline'
+							onClick={onClose}
+						>
+							Cancel
+						</Button>
+						<Button
+							type='submit'
+							disabled={isSaving}
+						>
+							{initialData ? 'Save Changes' : 'Add Referral'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+export default ReferralFormDialog
@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	JobApplication,
+	JobRejection,
+	RejectedBy,
+	RejectionReason,
+	RejectionStage,
+} from '@/data/mockJobs'
+import { JobRejectionInput } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
+import {
+	guessRejectionStage,
+	rejectedByLabels,
+	rejectionReasonLabels,
+	rejectionStageLabels,
+} from '@/utils/rejectionUtils'
+
+interface RejectionFormDialogProps {
+	isOpen: boolean
+	// Also called after saving
+	onClose: () => void
+	onSubmit: (rejection: JobRejectionInput) => Promise<void>
+	job: JobApplication | null
+	initialData?: JobRejection | null
+}
+
+// Select items can't have an empty value
+const NOT_SPECIFIED = 'none'
+
+const emptyForm = {
+	rejectedBy: 'company' as RejectedBy,
+	stageReached: NOT_SPECIFIED,
+	reason: NOT_SPECIFIED,
+	feedback: '',
+}
+
+const RejectionFormDialog = ({
+	isOpen,
+	onClose,
+	onSubmit,
+	job,
+	initialData,
+}: RejectionFormDialogProps) => {
+	const { getOutcome } = usePipeline()
+	const [formData, setFormData] = useState(emptyForm)
+	const [isSaving, setIsSaving] = useState(false)
+
+	// New records start from how far the job's history says it got
+	const guessedStage = job ? guessRejectionStage(job, getOutcome) : undefined
+
+	// Reset the form whenever the dialog opens
+	useEffect(() => {
+		if (!isOpen) return
+		setFormData(
+			initialData
+				? {
+						rejectedBy: initialData.rejectedBy,
+						stageReached: initialData.stageReached || NOT_SPECIFIED,
+						reason: initialData.reason || NOT_SPECIFIED,
+						feedback: initialData.feedback || '',
+				  }
+				: {
+						...emptyForm,
+						stageReached: guessedStage || NOT_SPECIFIED,
+				  }
+		)
+	}, [isOpen, initialData, guessedStage])
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+
+		setIsSaving(true)
+		try {
+			await onSubmit({
+				rejectedBy: formData.rejectedBy,
+				stageReached:
+					formData.stageReached === NOT_SPECIFIED
+						? undefined
+						: (formData.stageReached as RejectionStage),
+				reason:
+					formData.reason === NOT_SPECIFIED
+						? undefined
+						: (formData.reason as RejectionReason),
+				feedback: formData.feedback.trim() || undefined,
+			})
+			onClose()
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Dialog
+			open={isOpen}
+			onOpenChange={onClose}
+		>
+			<DialogContent className='sm:max-w-[450px]'>
+				<DialogHeader>
+					<DialogTitle>
+						{initialData ? 'Edit Rejection' : 'What Happened?'}
+					</DialogTitle>
+					{!initialData && (
+						<DialogDescription>
+							Optional. Recording why applications end shows patterns on your
+							dashboard
+							{job && ` (${job.position} at ${job.company})`}
+						</DialogDescription>
+					)}
+				</DialogHeader>
+
+				<form
+					onSubmit={handleSubmit}
+					className='grid gap-4 py-2'
+				>
+					<div className='grid gap-2'>
+						<Label>Who ended it</Label>
+						<Select
+							value={formData.rejectedBy}
+							onValueChange={(rejectedBy) =>
+								setFormData((prev) => ({
+									...prev,
+									rejectedBy: rejectedBy as RejectedBy,
+								}))
+							}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(rejectedByLabels).map(([value, label]) => (
+									<SelectItem
+										key={value}
+										value={value}
+									>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className='grid grid-cols-2 gap-4'>
+						<div className='grid gap-2'>
+							<Label>Stage reached</Label>
+							<Select
+								value={formData.stageReached}
+								onValueChange={(stageReached) =>
+									setFormData((prev) => ({ ...prev, stageReached }))
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={NOT_SPECIFIED}>Not specified</SelectItem>
+									{Object.entries(rejectionStageLabels).map(
+										([value, label]) => (
+											<SelectItem
+												key={value}
+												value={value}
+											>
+												{label}
+											</SelectItem>
+										)
+									)}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className='grid gap-2'>
+							<Label>Reason</Label>
+							<Select
+								value={formData.reason}
+								onValueChange={(reason) =>
+									setFormData((prev) => ({ ...prev, reason }))
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={NOT_SPECIFIED}>Not specified</SelectItem>
+									{Object.entries(rejectionReasonLabels).map(
+										([value, label]) => (
+											<SelectItem
+												key={value}
+												value={value}
+											>
+												{label}
+											</SelectItem>
+										)
+									)}
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+					<div className='grid gap-2'>
+						<Label htmlFor='rejection-feedback'>Feedback</Label>
+						<Textarea
+							id='rejection-feedback'
+							value={formData.feedback}
+							onChange={(e) =>
+								setFormData((prev) => ({ ...prev, feedback: e.target.value }))
+							}
+							placeholder='What they said, or your own notes'
+							rows={3}
+						/>
+					</div>
+
+					<DialogFooter>
+						<Button
+							type='button'
+							variant='outline'
+							onClick={onClose}
+						>
+							{initialData ? 'Cancel' : 'Skip'}
+						</Button>
+						<Button
+							type='submit'
+							disabled={isSaving}
+						>
+							Save
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+export default RejectionFormDialog
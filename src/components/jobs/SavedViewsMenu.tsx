@@ -0,0 +1,292 @@
+import { useState } from 'react'
+import {
+	Bookmark,
+	Check,
+	ChevronDown,
+	Link as LinkIcon,
+	Pin,
+	PinOff,
+	Plus,
+	Save,
+	Star,
+	StarOff,
+	Trash2,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useSavedViews } from '@/contexts/SavedViewContext'
+import { useToast } from '@/hooks/use-toast'
+import {
+	ApplicationViewState,
+	SavedView,
+	isSameViewState,
+	viewStateToSearchParams,
+} from '@/utils/savedViewUtils'
+
+interface SavedViewsMenuProps {
+	state: ApplicationViewState // What the Applications page is showing now
+	activeViewId: string | null
+	onSelectView: (view: SavedView) => void
+}
+
+/**
+ * Menu for opening, saving and sharing saved views of the Applications page
+ */
+const SavedViewsMenu = ({
+	state,
+	activeViewId,
+	onSelectView,
+}: SavedViewsMenuProps) => {
+	const { views, getView, createView, updateView, setDefaultView, deleteView } =
+		useSavedViews()
+	const { toast } = useToast()
+	const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false)
+	const [name, setName] = useState('')
+	const [isPinned, setIsPinned] = useState(false)
+	const [isDefault, setIsDefault] = useState(false)
+	const [isSaving, setIsSaving] = useState(false)
+
+	const activeView = activeViewId ? getView(activeViewId) : undefined
+	const hasChanges = activeView && !isSameViewState(activeView.state, state)
+
+	const openSaveDialog = () => {
+		setName('')
+		setIsPinned(false)
+		setIsDefault(false)
+		setIsSaveDialogOpen(true)
+	}
+
+	const handleSave = async () => {
+		setIsSaving(true)
+		try {
+			const view = await createView({ name, state, isPinned }, isDefault)
+			if (view) {
+				setIsSaveDialogOpen(false)
+				onSelectView(view)
+				toast({
+					title: 'View saved',
+					description: `"${view.name}" has been saved`,
+				})
+			}
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const handleCopyLink = async () => {
+		// Shared links carry the view itself, as saved views are private
+		const params = viewStateToSearchParams(state)
+		const url = `${window.location.origin}/applications?${params}`
+
+		try {
+			await navigator.clipboard.writeText(url)
+			toast({
+				title: 'Link copied',
+				description: 'Anyone with access to the app can open this view',
+			})
+		} catch (error) {
+			console.error('Error copying link:', error)
+			toast({
+				title: 'Could not copy link',
+				description: url,
+				variant: 'destructive',
+			})
+		}
+	}
+
+	return (
+		<>
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button
+						variant='outline'
+						size='sm'
+						className='rounded-md text-sm h-9 max-w-[220px]'
+					>
+						<Bookmark className='mr-2 h-4 w-4 shrink-0' />
+						<span className='truncate'>
+							{activeView ? activeView.name : 'Views'}
+							{hasChanges && ' (edited)'}
+						</span>
+						<ChevronDown className='ml-2 h-4 w-4 shrink-0' />
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent
+					align='end'
+					className='w-64'
+				>
+					<DropdownMenuLabel>Saved views</DropdownMenuLabel>
+					{views.length === 0 && (
+						<div className='px-2 py-1.5 text-sm text-gray-500'>
+							No saved views yet
+						</div>
+					)}
+					{views.map((view) => (
+						<DropdownMenuItem
+							key={view.id}
+							onSelect={() => onSelectView(view)}
+						>
+							<Check
+								className={`mr-2 h-4 w-4 ${
+									view.id === activeViewId ? 'opacity-100' : 'opacity-0'
+								}`}
+							/>
+							<span className='flex-1 truncate'>{view.name}</span>
+							{view.isDefault && (
+								<Star className='ml-2 h-3.5 w-3.5 text-amber-500' />
+							)}
+							{view.isPinned && (
+								<Pin className='ml-2 h-3.5 w-3.5 text-gray-400' />
+							)}
+						</DropdownMenuItem>
+					))}
+
+					<DropdownMenuSeparator />
+					<DropdownMenuItem onSelect={openSaveDialog}>
+						<Plus className='mr-2 h-4 w-4' />
+						Save as new view…
+					</DropdownMenuItem>
+					{activeView && hasChanges && (
+						<DropdownMenuItem
+							onSelect={() => updateView(activeView.id, { state })}
+						>
+							<Save className='mr-2 h-4 w-4' />
+							<span className='truncate'>Update "{activeView.name}"</span>
+						</DropdownMenuItem>
+					)}
+					{activeView && (
+						<>
+							<DropdownMenuItem
+								onSelect={() =>
+									updateView(activeView.id, { isPinned: !activeView.isPinned })
+								}
+							>
+								{activeView.isPinned ? (
+									<PinOff className='mr-2 h-4 w-4' />
+								) : (
+									<Pin className='mr-2 h-4 w-4' />
+								)}
+								{activeView.isPinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+							</DropdownMenuItem>
+							<DropdownMenuItem
+								onSelect={() =>
+									setDefaultView(activeView.isDefault ? null : activeView.id)
+								}
+							>
+								{activeView.isDefault ? (
+									<StarOff className='mr-2 h-4 w-4' />
+								) : (
+									<Star className='mr-2 h-4 w-4' />
+								)}
+								{activeView.isDefault ? 'Clear default' : 'Set as default'}
+							</DropdownMenuItem>
+						</>
+					)}
+					<DropdownMenuItem onSelect={handleCopyLink}>
+						<LinkIcon className='mr-2 h-4 w-4' />
+						Copy link
+					</DropdownMenuItem>
+					{activeView && (
+						<>
+							<DropdownMenuSeparator />
+							<DropdownMenuItem
+								className='text-red-600 focus:text-red-600'
+								onSelect={() => deleteView(activeView.id)}
+							>
+								<Trash2 className='mr-2 h-4 w-4' />
+								Delete view
+							</DropdownMenuItem>
+						</>
+					)}
+				</DropdownMenuContent>
+			</DropdownMenu>
+
+			<Dialog
+				open={isSaveDialogOpen}
+				onOpenChange={setIsSaveDialogOpen}
+			>
+				<DialogContent className='sm:max-w-[425px]'>
+					<DialogHeader>
+						<DialogTitle>Save view</DialogTitle>
+						<DialogDescription>
+							Saves the current tab, sort, filters and card fields.
+						</DialogDescription>
+					</DialogHeader>
+
+					<form
+						id='save-view-form'
+						className='space-y-4 py-2'
+						onSubmit={(e) => {
+							e.preventDefault()
+							handleSave()
+						}}
+					>
+						<div className='space-y-2'>
+							<Label htmlFor='view-name'>Name</Label>
+							<Input
+								id='view-name'
+								value={name}
+								onChange={(e) => setName(e.target.value)}
+								placeholder='e.g. Remote interviews'
+								maxLength={50}
+								autoFocus
+							/>
+						</div>
+						<div className='flex items-center space-x-2'>
+							<Checkbox
+								id='view-pinned'
+								checked={isPinned}
+								onCheckedChange={(checked) => setIsPinned(checked === true)}
+							/>
+							<Label htmlFor='view-pinned'>Pin to sidebar</Label>
+						</div>
+						<div className='flex items-center space-x-2'>
+							<Checkbox
+								id='view-default'
+								checked={isDefault}
+								onCheckedChange={(checked) => setIsDefault(checked === true)}
+							/>
+							<Label htmlFor='view-default'>Open this view by default</Label>
+						</div>
+					</form>
+
+					<DialogFooter>
+						<Button
+							variant='outline'
+							onClick={() => setIsSaveDialogOpen(false)}
+						>
+							Cancel
+						</Button>
+						<Button
+							type='submit'
+							form='save-view-form'
+							disabled={isSaving || !name.trim()}
+						>
+							{isSaving ? 'Saving...' : 'Save view'}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</>
+	)
+}
+
+export default SavedViewsMenu
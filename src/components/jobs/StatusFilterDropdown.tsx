@@ -11,27 +11,37 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { X } from "lucide-react";
 import { JobApplication } from "@/data/mockJobs";
+import { usePipeline } from "@/contexts/PipelineContext";
+import { useTags } from "@/contexts/TagContext";
 
 interface StatusFilterDropdownProps {
   statusFilter: JobApplication['status'][];
   handleToggleStatus: (status: JobApplication['status']) => void;
+  tagFilter?: string[];
+  handleToggleTag?: (tagId: string) => void;
   clearFilters: () => void;
 }
 
 const StatusFilterDropdown = ({ 
   statusFilter, 
   handleToggleStatus,
+  tagFilter = [],
+  handleToggleTag,
   clearFilters 
 }: StatusFilterDropdownProps) => {
+  const { stages } = usePipeline();
+  const { tags } = useTags();
+  const activeCount = statusFilter.length + tagFilter.length;
+
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
         <Button variant="outline" className="bg-white border-gray-200">
           <Filter className="h-4 w-4 mr-2" />
-          Status Filters
-          {statusFilter.length > 0 && (
+          {handleToggleTag ? "Filters" : "Status Filters"}
+          {activeCount > 0 && (
             <span className="ml-2 h-5 w-5 bg-black text-white rounded-full text-xs flex items-center justify-center">
-              {statusFilter.length}
+              {activeCount}
             </span>
           )}
         </Button>
@@ -39,53 +49,46 @@ const StatusFilterDropdown = ({
       <DropdownMenuContent className="w-56">
         <DropdownMenuLabel>Filter by Status</DropdownMenuLabel>
         <DropdownMenuSeparator />
-        <DropdownMenuCheckboxItem
-          checked={statusFilter.includes("applied")}
-          onSelect={(e) => {
-            e.preventDefault();
-            handleToggleStatus("applied");
-          }}
-        >
-          Applied
-        </DropdownMenuCheckboxItem>
-        <DropdownMenuCheckboxItem
-          checked={statusFilter.includes("interview")}
-          onSelect={(e) => {
-            e.preventDefault();
-            handleToggleStatus("interview");
-          }}
-        >
-          Interview
-        </DropdownMenuCheckboxItem>
-        <DropdownMenuCheckboxItem
-          checked={statusFilter.includes("offer")}
-          onSelect={(e) => {
-            e.preventDefault();
-            handleToggleStatus("offer");
-          }}
-        >
-          Offer
-        </DropdownMenuCheckboxItem>
-        <DropdownMenuCheckboxItem
-          checked={statusFilter.includes("rejected")}
-          onSelect={(e) => {
-            e.preventDefault();
-            handleToggleStatus("rejected");
-          }}
-        >
-          Rejected
-        </DropdownMenuCheckboxItem>
-        <DropdownMenuCheckboxItem
-          checked={statusFilter.includes("saved")}
-          onSelect={(e) => {
-            e.preventDefault();
-            handleToggleStatus("saved");
-          }}
-        >
-          Saved
-        </DropdownMenuCheckboxItem>
+        {stages.map((stage) => (
+          <DropdownMenuCheckboxItem
+            key={stage.key}
+            checked={statusFilter.includes(stage.key)}
+            onSelect={(e) => {
+              e.preventDefault();
+              handleToggleStatus(stage.key);
+            }}
+          >
+            <span
+              className="w-2 h-2 rounded-full mr-2 flex-shrink-0"
+              style={{ backgroundColor: stage.color }}
+            />
+            {stage.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+        {handleToggleTag && tags.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Filter by Tag</DropdownMenuLabel>
+            {tags.map((tag) => (
+              <DropdownMenuCheckboxItem
+                key={tag.id}
+                checked={tagFilter.includes(tag.id)}
+                onSelect={(e) => {
+                  e.preventDefault();
+                  handleToggleTag(tag.id);
+                }}
+              >
+                <span
+                  className="w-2 h-2 rounded-full mr-2 flex-shrink-0"
+                  style={{ backgroundColor: tag.color }}
+                />
+                {tag.name}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </>
+        )}
         <DropdownMenuSeparator />
-        {statusFilter.length > 0 && (
+        {activeCount > 0 && (
           <Button 
             variant="ghost" 
             className="w-full justify-start text-xs text-gray-500" 
@@ -0,0 +1,123 @@
+import { ReactNode, useState } from 'react'
+import { Check, Plus, Tag } from 'lucide-react'
+import { useTags } from '@/contexts/TagContext'
+import { Button } from '@/components/ui/button'
+import {
+	Command,
+	CommandEmpty,
+	CommandGroup,
+	CommandInput,
+	CommandItem,
+	CommandList,
+} from '@/components/ui/command'
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from '@/components/ui/popover'
+import { findTagByName } from '@/utils/tagUtils'
+
+interface TagPickerProps {
+	value: string[]
+	onChange: (tagIds: string[]) => void
+	trigger?: ReactNode // Replaces the default "Add tags" button
+}
+
+/**
+ * Searchable list of the user's tags, toggled on and off a job.
+ * Typing a name that doesn't exist yet offers to create it.
+ */
+const TagPicker = ({ value, onChange, trigger }: TagPickerProps) => {
+	const { tags, createTag } = useTags()
+	const [open, setOpen] = useState(false)
+	const [search, setSearch] = useState('')
+
+	const trimmedSearch = search.trim()
+	const canCreate = trimmedSearch !== '' && !findTagByName(tags, trimmedSearch)
+
+	const toggleTag = (id: string) => {
+		onChange(
+			value.includes(id)
+				? value.filter((tagId) => tagId !== id)
+				: [...value, id]
+		)
+	}
+
+	const handleCreate = async () => {
+		const tag = await createTag(trimmedSearch)
+		if (tag && !value.includes(tag.id)) {
+			onChange([...value, tag.id])
+		}
+		setSearch('')
+	}
+
+	return (
+		<Popover
+			open={open}
+			onOpenChange={setOpen}
+		>
+			<PopoverTrigger
+				asChild
+				onClick={(e) => e.stopPropagation()}
+			>
+				{trigger || (
+					<Button
+						type='button'
+						variant='outline'
+						size='sm'
+					>
+						<Tag className='w-4 h-4 mr-1' />
+						Add tags
+					</Button>
+				)}
+			</PopoverTrigger>
+			<PopoverContent
+				className='w-56 p-0'
+				align='start'
+				onClick={(e) => e.stopPropagation()}
+			>
+				<Command>
+					<CommandInput
+						placeholder='Find or create a tag...'
+						value={search}
+						onValueChange={setSearch}
+					/>
+					<CommandList>
+						{!canCreate && <CommandEmpty>No tags yet</CommandEmpty>}
+						{tags.length > 0 && (
+							<CommandGroup>
+								{tags.map((tag) => (
+									<CommandItem
+										key={tag.id}
+										value={tag.name}
+										onSelect={() => toggleTag(tag.id)}
+									>
+										<span
+											className='w-2 h-2 rounded-full mr-2 flex-shrink-0'
+											style={{ backgroundColor: tag.color }}
+										/>
+										<span className='flex-1 truncate'>{tag.name}</span>
+										{value.includes(tag.id) && <Check className='h-4 w-4' />}
+									</CommandItem>
+								))}
+							</CommandGroup>
+						)}
+						{canCreate && (
+							<CommandGroup>
+								<CommandItem
+									value={`create ${trimmedSearch}`}
+									onSelect={handleCreate}
+								>
+									<Plus className='h-4 w-4 mr-2' />
+									Create "{trimmedSearch}"
+								</CommandItem>
+							</CommandGroup>
+						)}
+					</CommandList>
+				</Command>
+			</PopoverContent>
+		</Popover>
+	)
+}
+
+export default TagPicker
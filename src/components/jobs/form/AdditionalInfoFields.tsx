@@ -1,16 +1,39 @@
 
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { JobApplication } from "@/data/mockJobs";
-import { getCurrencySymbol } from "@/utils/currencyUtils";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { JobApplication, SalaryPeriod, SalaryRange } from "@/data/mockJobs";
+import {
+  getCurrencySymbol,
+  salaryPeriodLabels,
+  supportedCurrencies,
+} from "@/utils/currencyUtils";
 
 interface AdditionalInfoFieldsProps {
   jobData: Partial<JobApplication>;
   handleChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  handleSalaryRangeChange: (changes: Partial<SalaryRange>) => void;
 }
 
-const AdditionalInfoFields = ({ jobData, handleChange }: AdditionalInfoFieldsProps) => {
+const AdditionalInfoFields = ({
+  jobData,
+  handleChange,
+  handleSalaryRangeChange,
+}: AdditionalInfoFieldsProps) => {
   const currencySymbol = getCurrencySymbol();
+  const salaryRange = jobData.salaryRange;
+
+  const handleAmountChange =
+    (field: "min" | "max") => (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value === "" ? undefined : Number(e.target.value);
+      handleSalaryRangeChange({ [field]: value });
+    };
 
   return (
     <div className="grid grid-cols-2 gap-4">
@@ -34,6 +57,76 @@ const AdditionalInfoFields = ({ jobData, handleChange }: AdditionalInfoFieldsPro
           placeholder={`e.g. ${currencySymbol}70,000 - ${currencySymbol}90,000`} 
         />
       </div>
+      {jobData.salary && (
+        <div className="col-span-2 grid grid-cols-4 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="salaryMin" className="text-xs text-gray-500">
+              Min
+            </Label>
+            <Input
+              id="salaryMin"
+              type="number"
+              min={0}
+              value={salaryRange?.min ?? ""}
+              onChange={handleAmountChange("min")}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="salaryMax" className="text-xs text-gray-500">
+              Max
+            </Label>
+            <Input
+              id="salaryMax"
+              type="number"
+              min={0}
+              value={salaryRange?.max ?? ""}
+              onChange={handleAmountChange("max")}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Currency</Label>
+            <Select
+              value={salaryRange?.currency || ""}
+              onValueChange={(currency) =>
+                handleSalaryRangeChange({ currency })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Currency" />
+              </SelectTrigger>
+              <SelectContent>
+                {supportedCurrencies.map((currency) => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Pay period</Label>
+            <Select
+              value={salaryRange?.period || ""}
+              onValueChange={(period) =>
+                handleSalaryRangeChange({ period: period as SalaryPeriod })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Period" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(salaryPeriodLabels) as SalaryPeriod[]).map(
+                  (period) => (
+                    <SelectItem key={period} value={period}>
+                      {salaryPeriodLabels[period]}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
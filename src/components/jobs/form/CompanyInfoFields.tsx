@@ -31,6 +31,17 @@ const CompanyInfoFields = ({ jobData, handleChange }: CompanyInfoFieldsProps) =>
           required 
         />
       </div>
+      <div className="space-y-2 col-span-2">
+        <Label htmlFor="jobUrl">Job Posting URL</Label>
+        <Input
+          id="jobUrl"
+          name="jobUrl"
+          type="url"
+          value={jobData.jobUrl || ""}
+          onChange={handleChange}
+          placeholder="https://..."
+        />
+      </div>
     </div>
   );
 };
@@ -8,6 +8,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { JobApplication } from "@/data/mockJobs";
+import { usePipeline } from "@/contexts/PipelineContext";
 import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
@@ -42,15 +43,16 @@ const LocationStatusFields = ({
   handleInterviewDateChange,
   handleInterviewTimeChange,
 }: LocationStatusFieldsProps) => {
+  const { stages, getOutcome } = usePipeline();
   const [showInterviewFields, setShowInterviewFields] = useState(false);
   const [interviewDate, setInterviewDate] = useState<Date | undefined>(
     undefined
   );
   const [interviewTime, setInterviewTime] = useState<string>("");
 
-  // Show interview fields if status is "interview"
+  // Show interview fields if the stage maps to the "interview" outcome
   useEffect(() => {
-    setShowInterviewFields(jobData.status === "interview");
+    setShowInterviewFields(getOutcome(jobData.status) === "interview");
 
     // If we have event data with interview date, populate the fields
     const sourceEvents = events || jobData.events;
@@ -73,7 +75,7 @@ const LocationStatusFields = ({
         }
       }
     }
-  }, [jobData.status, events, jobData.events]);
+  }, [jobData.status, events, jobData.events, getOutcome]);
 
   const onDateChange = (date: Date | undefined) => {
     setInterviewDate(date);
@@ -91,8 +93,8 @@ const LocationStatusFields = ({
 
   const onStatusChange = (value: string) => {
     handleStatusChange(value);
-    // Show interview fields immediately if status is changed to interview
-    setShowInterviewFields(value === "interview");
+    // Show interview fields immediately if status is changed to an interview stage
+    setShowInterviewFields(getOutcome(value) === "interview");
   };
 
   return (
@@ -111,24 +113,24 @@ const LocationStatusFields = ({
         <div className="space-y-2">
           <Label htmlFor="status">Status</Label>
           <Select
-            value={jobData.status || "saved"}
+            value={jobData.status || stages[0]?.key}
             onValueChange={onStatusChange}
           >
             <SelectTrigger>
               <SelectValue placeholder="Select status" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="saved">Saved</SelectItem>
-              <SelectItem value="applied">Applied</SelectItem>
-              <SelectItem value="interview">Interview</SelectItem>
-              <SelectItem value="offer">Offer</SelectItem>
-              <SelectItem value="rejected">Rejected</SelectItem>
+              {stages.map((stage) => (
+                <SelectItem key={stage.key} value={stage.key}>
+                  {stage.label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
       </div>
 
-      {/* Interview details section - only visible when status is "interview" */}
+      {/* Interview details section - only visible for interview stages */}
       {showInterviewFields && (
         <div className="border p-4 rounded-md bg-blue-50 mt-2 mb-2">
           <h3 className="text-sm font-medium mb-3">Interview Details</h3>
@@ -0,0 +1,38 @@
+import { Label } from '@/components/ui/label'
+import { useTags } from '@/contexts/TagContext'
+import JobTagList from '../JobTagList'
+import TagPicker from '../TagPicker'
+
+interface TagsFieldProps {
+	tagIds: string[]
+	handleTagsChange: (tagIds: string[]) => void
+}
+
+/**
+ * TagsField - Shows the job's tags as removable chips, with a picker to add
+ * existing tags or create new ones
+ */
+const TagsField = ({ tagIds, handleTagsChange }: TagsFieldProps) => {
+	const { tags } = useTags()
+	const selectedTags = tags.filter((tag) => tagIds.includes(tag.id))
+
+	return (
+		<div className='space-y-2'>
+			<Label>Tags</Label>
+			<div className='flex flex-wrap items-center gap-2'>
+				<JobTagList
+					tags={selectedTags}
+					onRemove={(id) =>
+						handleTagsChange(tagIds.filter((tagId) => tagId !== id))
+					}
+				/>
+				<TagPicker
+					value={tagIds}
+					onChange={handleTagsChange}
+				/>
+			</div>
+		</div>
+	)
+}
+
+export default TagsField
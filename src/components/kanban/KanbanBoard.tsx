@@ -1,42 +1,69 @@
-import { JobApplication, statusLabels } from '@/data/mockJobs'
+import { useState } from 'react'
+import { JobApplication } from '@/data/mockJobs'
+import { useJobs } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
+import RejectionFormDialog from '@/components/jobs/RejectionFormDialog'
 import KanbanColumn from './KanbanColumn'
 
 interface KanbanBoardProps {
-	jobs: JobApplication[]
 	onCardMove: (id: string, newStatus: JobApplication['status']) => void
+	selectedIds: string[] // Cards selected for bulk actions
+	onToggleSelect: (id: string, orderedIds: string[], extend: boolean) => void
 }
 
-const KanbanBoard = ({ jobs, onCardMove }: KanbanBoardProps) => {
-	// Define all possible statuses
-	const statuses: JobApplication['status'][] = [
-		'saved',
-		'applied',
-		'interview',
-		'offer',
-		'rejected',
-	]
+const KanbanBoard = ({
+	onCardMove,
+	selectedIds,
+	onToggleSelect,
+}: KanbanBoardProps) => {
+	// Columns follow the user's pipeline stages
+	const { stages, getOutcome } = usePipeline()
+	const { jobs, saveRejection } = useJobs()
+	const [rejectedJobId, setRejectedJobId] = useState<string | null>(null)
+
+	// Offer to record why when a card is dropped into a rejected stage
+	const handleCardMove = (id: string, newStatus: JobApplication['status']) => {
+		const job = jobs.find((job) => job.id === id)
+		onCardMove(id, newStatus)
+		if (
+			job &&
+			getOutcome(newStatus) === 'rejected' &&
+			getOutcome(job.status) !== 'rejected'
+		) {
+			setRejectedJobId(id)
+		}
+	}
+
+	const rejectedJob = jobs.find((job) => job.id === rejectedJobId) || null
 
 	return (
 		<div className='w-full overflow-x-auto pb-6'>
 			<div className='flex min-w-max gap-4'>
-				{statuses.map((status) => {
-					const statusJobs = jobs.filter((job) => job.status === status)
-
-					return (
-						<div
-							key={status}
-							className='w-[280px] md:w-[300px] flex-shrink-0'
-						>
-							<KanbanColumn
-								status={status}
-								statusLabel={statusLabels[status]}
-								jobs={statusJobs}
-								onCardMove={onCardMove}
-							/>
-						</div>
-					)
-				})}
+				{stages.map((stage) => (
+					<div
+						key={stage.key}
+						className='w-[280px] md:w-[300px] flex-shrink-0'
+					>
+						<KanbanColumn
+							status={stage.key}
+							statusLabel={stage.label}
+							statusColor={stage.color}
+							outcome={stage.outcome}
+							onCardMove={handleCardMove}
+							selectedIds={selectedIds}
+							onToggleSelect={onToggleSelect}
+						/>
+					</div>
+				))}
 			</div>
+
+			<RejectionFormDialog
+				isOpen={!!rejectedJob}
+				onClose={() => setRejectedJobId(null)}
+				onSubmit={(rejection) => saveRejection(rejectedJobId, rejection)}
+				job={rejectedJob}
+				initialData={rejectedJob?.rejection}
+			/>
 		</div>
 	)
 }
@@ -1,24 +1,38 @@
-import { JobApplication, statusLabels } from '@/data/mockJobs'
+import { JobApplication } from '@/data/mockJobs'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { useTags } from '@/contexts/TagContext'
+import { useJobs } from '@/contexts/JobContext'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Building, ArrowRightIcon, ArrowLeftIcon } from 'lucide-react'
+import {
+	Building,
+	ArrowRightIcon,
+	ArrowLeftIcon,
+	StickyNote,
+	Tag,
+} from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import { formatSalaryForDisplay } from '@/utils/currencyUtils'
+import JobTagList from '@/components/jobs/JobTagList'
+import TagPicker from '@/components/jobs/TagPicker'
 
 interface KanbanCardProps {
 	job: JobApplication
 	onCardMove: (id: string, newStatus: JobApplication['status']) => void
+	isSelected?: boolean
+	onClick?: (e: React.MouseEvent) => void // Clicks outside the card's buttons
 }
 
-const statuses: JobApplication['status'][] = [
-	'saved',
-	'applied',
-	'interview',
-	'offer',
-	'rejected',
-]
-
-const KanbanCard = ({ job, onCardMove }: KanbanCardProps) => {
+const KanbanCard = ({
+	job,
+	onCardMove,
+	isSelected = false,
+	onClick,
+}: KanbanCardProps) => {
+	const { stages } = usePipeline()
+	const { getTagsForJob } = useTags()
+	const { updateJob } = useJobs()
+	const statuses = stages.map((stage) => stage.key)
 	const currentStatusIndex = statuses.indexOf(job.status)
 
 	const moveLeft = (e: React.MouseEvent) => {
@@ -35,6 +49,10 @@ const KanbanCard = ({ job, onCardMove }: KanbanCardProps) => {
 		}
 	}
 
+	const handleTagsChange = (tagIds: string[]) => {
+		updateJob({ ...job, tagIds, lastUpdated: new Date().toISOString() })
+	}
+
 	const formattedDate = (dateString: string) => {
 		if (!dateString) return ''
 		try {
@@ -45,7 +63,17 @@ const KanbanCard = ({ job, onCardMove }: KanbanCardProps) => {
 	}
 
 	return (
-		<Card className='shadow-sm hover:shadow-md transition-shadow cursor-pointer bg-white'>
+		<Card
+			className={`shadow-sm hover:shadow-md transition-shadow cursor-pointer bg-white ${
+				isSelected ? 'ring-2 ring-primary' : ''
+			}`}
+			onClick={(e) => {
+				if (!(e.target as HTMLElement).closest('button')) onClick?.(e)
+			}}
+			// Keep shift-click from selecting text
+			onMouseDown={(e) => e.shiftKey && e.preventDefault()}
+			aria-selected={isSelected}
+		>
 			<CardContent className='p-3'>
 				<div className='mb-1.5'>
 					<div className='flex items-center text-gray-600 text-sm mb-1'>
@@ -60,12 +88,40 @@ const KanbanCard = ({ job, onCardMove }: KanbanCardProps) => {
 					)}
 				</div>
 
+				<div className='flex items-start gap-1'>
+					<JobTagList
+						tags={getTagsForJob(job)}
+						className='flex-1'
+					/>
+					<TagPicker
+						value={job.tagIds || []}
+						onChange={handleTagsChange}
+						trigger={
+							<Button
+								variant='ghost'
+								size='sm'
+								className='p-0 h-5 w-5 ml-auto text-gray-400 hover:text-gray-700'
+								aria-label='Edit tags'
+							>
+								<Tag className='h-3 w-3' />
+							</Button>
+						}
+					/>
+				</div>
+
 				{job.appliedDate && (
 					<div className='text-xs text-gray-500 mt-1'>
 						Applied {formattedDate(job.appliedDate)}
 					</div>
 				)}
 
+				{job.notes && job.notes.length > 0 && (
+					<div className='flex items-center text-xs text-gray-500 mt-1'>
+						<StickyNote className='mr-1 h-3 w-3' />
+						{job.notes.length} {job.notes.length === 1 ? 'note' : 'notes'}
+					</div>
+				)}
+
 				<div className='flex justify-between items-center mt-2'>
 					<Button
 						variant='ghost'
@@ -79,7 +135,10 @@ const KanbanCard = ({ job, onCardMove }: KanbanCardProps) => {
 
 					{job.salary && (
 						<div className='text-xs font-medium'>
-							{formatSalaryForDisplay(job.salary, job.location)}
+							{formatSalaryForDisplay(
+								job.salaryRange || job.salary,
+								job.location
+							)}
 						</div>
 					)}
 
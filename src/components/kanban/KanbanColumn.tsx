@@ -1,15 +1,26 @@
-import { JobApplication, statusLabels } from '@/data/mockJobs'
+import { useEffect, useMemo, useRef } from 'react'
+import { Loader2 } from 'lucide-react'
+import { JobApplication, StageOutcome } from '@/data/mockJobs'
+import { usePaginatedJobs } from '@/hooks/use-paginated-jobs'
+import { useVirtualRows } from '@/hooks/use-virtual-rows'
+import { JobPageQuery } from '@/utils/jobPageUtils'
 import KanbanCard from './KanbanCard'
 
+// Estimated height of a card, including the space below it
+const ESTIMATED_CARD_HEIGHT = 150
+
 interface KanbanColumnProps {
 	status: JobApplication['status']
 	statusLabel: string
-	jobs: JobApplication[]
+	statusColor: string
+	outcome: StageOutcome
 	onCardMove: (id: string, newStatus: JobApplication['status']) => void
+	selectedIds: string[]
+	onToggleSelect: (id: string, orderedIds: string[], extend: boolean) => void
 }
 
-const getStatusColor = (status: JobApplication['status']) => {
-	switch (status) {
+const getStatusColor = (outcome: StageOutcome) => {
+	switch (outcome) {
 		case 'offer':
 			return 'bg-[#DCFCE7] border-green-300' // Green for offers
 		case 'rejected':
@@ -24,13 +35,52 @@ const getStatusColor = (status: JobApplication['status']) => {
 	}
 }
 
+/**
+ * A column of the board. Each column pages through its own jobs, most
+ * recently updated first, and only renders the cards in view.
+ */
 const KanbanColumn = ({
 	status,
 	statusLabel,
-	jobs,
+	statusColor,
+	outcome,
 	onCardMove,
+	selectedIds,
+	onToggleSelect,
 }: KanbanColumnProps) => {
-	const columnColorClass = getStatusColor(status)
+	const columnColorClass = getStatusColor(outcome)
+	const query = useMemo<JobPageQuery>(
+		() => ({ sortBy: 'updated', scope: [status] }),
+		[status]
+	)
+	const { jobs, totalCount, hasMore, isLoadingMore, loadMore } =
+		usePaginatedJobs(query)
+
+	const listRef = useRef<HTMLDivElement>(null)
+	const jobIds = useMemo(() => jobs.map((job) => job.id), [jobs])
+	const { start, end, paddingTop, paddingBottom, measureRow } = useVirtualRows({
+		rowKeys: jobIds,
+		estimateRowHeight: ESTIMATED_CARD_HEIGHT,
+		containerRef: listRef,
+	})
+
+	/**
+	 * Shift-click selects from the last card selected in this column,
+	 * ctrl- or cmd-click a single card. Once cards are selected, a plain
+	 * click selects too.
+	 */
+	const handleCardClick = (id: string, e: React.MouseEvent) => {
+		const isModified = e.shiftKey || e.metaKey || e.ctrlKey
+		if (!isModified && selectedIds.length === 0) return
+		onToggleSelect(id, jobIds, e.shiftKey)
+	}
+
+	// Load the next page as the last cards come into view
+	useEffect(() => {
+		if (hasMore && !isLoadingMore && end >= jobs.length - 1) {
+			loadMore()
+		}
+	}, [hasMore, isLoadingMore, loadMore, end, jobs.length])
 
 	return (
 		<div
@@ -38,22 +88,43 @@ const KanbanColumn = ({
 		>
 			<div className='flex items-center justify-between mb-3'>
 				<h3 className='font-semibold flex items-center'>
+					<span
+						className='w-2.5 h-2.5 rounded-full mr-2 flex-shrink-0'
+						style={{ backgroundColor: statusColor }}
+					/>
 					{statusLabel}
 					<span className='ml-2 text-sm font-normal text-gray-500 bg-white/50 px-2 py-0.5 rounded-full'>
-						{jobs.length}
+						{totalCount}
 					</span>
 				</h3>
 			</div>
 
-			<div className='flex-1 overflow-y-auto pr-1 space-y-3 scrollbar-thin'>
+			<div className='flex-1 overflow-y-auto pr-1 scrollbar-thin'>
 				{jobs.length > 0 ? (
-					jobs.map((job) => (
-						<KanbanCard
-							key={job.id}
-							job={job}
-							onCardMove={onCardMove}
-						/>
-					))
+					<div
+						ref={listRef}
+						style={{ paddingTop, paddingBottom }}
+					>
+						{jobs.slice(start, end).map((job) => (
+							<div
+								key={job.id}
+								ref={measureRow(job.id)}
+								className='pb-3'
+							>
+								<KanbanCard
+									job={job}
+									onCardMove={onCardMove}
+									isSelected={selectedIds.includes(job.id)}
+									onClick={(e) => handleCardClick(job.id, e)}
+								/>
+							</div>
+						))}
+						{isLoadingMore && (
+							<div className='flex justify-center py-2 text-gray-500'>
+								<Loader2 className='h-4 w-4 animate-spin' />
+							</div>
+						)}
+					</div>
 				) : (
 					<div className='text-center py-4 text-gray-500 italic text-sm'>
 						No jobs in this column
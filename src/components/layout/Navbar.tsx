@@ -1,4 +1,12 @@
-import { Bell, Search, PlusCircle, Menu, Calendar, User } from "lucide-react";
+import {
+  Bell,
+  Search,
+  PlusCircle,
+  Menu,
+  Calendar,
+  User,
+  CloudOff,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import CacheBreakingAvatar from "@/components/common/CacheBreakingAvatar";
@@ -48,7 +56,7 @@ const Navbar = ({ onMenuClick }: NavbarProps = {}) => {
     useNotifications();
   const isMounted = useRef(true);
   const [addJobModalOpen, setAddJobModalOpen] = useState(false);
-  const { addJob } = useJobs();
+  const { addJob, pendingMutationCount } = useJobs();
 
   // Get the 3 most recent notifications - memoize to prevent recalculation
   const recentNotifications = useMemo(() => {
@@ -195,6 +203,17 @@ const Navbar = ({ onMenuClick }: NavbarProps = {}) => {
             <>
               {/* Remove mobile search button */}
 
+              {/* Changes made offline that have not reached the server yet */}
+              {pendingMutationCount > 0 && (
+                <span
+                  className="hidden sm:flex items-center text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-full px-2 py-1"
+                  title="These changes were made offline and will sync automatically"
+                >
+                  <CloudOff className="h-3.5 w-3.5 mr-1" />
+                  {pendingMutationCount} unsynced
+                </span>
+              )}
+
               {/* Add job button - collapsed on mobile */}
               <div className="hidden sm:block">
                 <AddJobModal />
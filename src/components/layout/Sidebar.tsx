@@ -7,10 +7,16 @@ import {
 	Settings,
 	Coffee,
 	HeartHandshake,
+	Users,
+	Bookmark,
+	Building2,
+	Scale,
+	ListTodo,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Link, useLocation } from 'react-router-dom'
 import { useEffect, useState } from 'react'
+import { useSavedViews } from '@/contexts/SavedViewContext'
 
 interface SidebarLinkProps {
 	icon: React.ElementType
@@ -21,6 +27,7 @@ interface SidebarLinkProps {
 	highlight?: boolean
 	onClick?: () => void
 	collapsed?: boolean
+	nested?: boolean // Indented under the link above, e.g. a saved view
 }
 
 const SidebarLink = ({
@@ -32,6 +39,7 @@ const SidebarLink = ({
 	highlight,
 	onClick,
 	collapsed = false,
+	nested = false,
 }: SidebarLinkProps) => {
 	// Handle click to ensure scroll resets
 	const handleClick = () => {
@@ -94,15 +102,19 @@ const SidebarLink = ({
 			onClick={handleClick}
 			className={cn(
 				'flex items-center space-x-3 py-2 rounded-md transition-colors',
-				collapsed ? 'justify-center px-2' : 'px-4',
+				collapsed
+					? 'justify-center px-2'
+					: nested
+					? 'pl-10 pr-4 text-sm'
+					: 'px-4',
 				active
 					? 'bg-blue-50 text-blue-700'
 					: 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
 			)}
 			title={collapsed ? label : undefined}
 		>
-			<Icon className='h-5 w-5' />
-			{!collapsed && <span>{label}</span>}
+			<Icon className={nested ? 'h-4 w-4' : 'h-5 w-5'} />
+			{!collapsed && <span className='truncate'>{label}</span>}
 		</Link>
 	)
 }
@@ -115,6 +127,8 @@ interface SidebarProps {
 const Sidebar = ({ onLinkClick, collapsed = false }: SidebarProps = {}) => {
 	const location = useLocation()
 	const currentPath = location.pathname
+	const currentViewId = new URLSearchParams(location.search).get('view')
+	const { pinnedViews } = useSavedViews()
 	const [showAnimation, setShowAnimation] = useState(false)
 
 	// Add animation effect that triggers periodically
@@ -160,10 +174,23 @@ const Sidebar = ({ onLinkClick, collapsed = false }: SidebarProps = {}) => {
 							icon={Briefcase}
 							label='My Applications'
 							to='/applications'
-							active={currentPath === '/applications'}
+							active={currentPath === '/applications' && !currentViewId}
 							onClick={onLinkClick}
 							collapsed={collapsed}
 						/>
+						{pinnedViews.map((view) => (
+							<SidebarLink
+								key={view.id}
+								icon={Bookmark}
+								label={view.name}
+								to={`/applications?view=${view.id}`}
+								active={
+									currentPath === '/applications' && currentViewId === view.id
+								}
+								onClick={onLinkClick}
+								nested
+							/>
+						))}
 						<SidebarLink
 							icon={Kanban}
 							label='Kanban Board'
@@ -198,6 +225,38 @@ const Sidebar = ({ onLinkClick, collapsed = false }: SidebarProps = {}) => {
 							onClick={onLinkClick}
 							collapsed={collapsed}
 						/>
+						<SidebarLink
+							icon={Users}
+							label='Contacts'
+							to='/contacts'
+							active={currentPath === '/contacts'}
+							onClick={onLinkClick}
+							collapsed={collapsed}
+						/>
+						<SidebarLink
+							icon={Building2}
+							label='Companies'
+							to='/companies'
+							active={currentPath.startsWith('/companies')}
+							onClick={onLinkClick}
+							collapsed={collapsed}
+						/>
+						<SidebarLink
+							icon={Scale}
+							label='Offers'
+							to='/offers'
+							active={currentPath === '/offers'}
+							onClick={onLinkClick}
+							collapsed={collapsed}
+						/>
+						<SidebarLink
+							icon={ListTodo}
+							label='My Tasks'
+							to='/tasks'
+							active={currentPath === '/tasks'}
+							onClick={onLinkClick}
+							collapsed={collapsed}
+						/>
 					</nav>
 				</div>
 			)}
@@ -272,6 +331,38 @@ const Sidebar = ({ onLinkClick, collapsed = false }: SidebarProps = {}) => {
 							onClick={onLinkClick}
 							collapsed={collapsed}
 						/>
+						<SidebarLink
+							icon={Users}
+							label='Contacts'
+							to='/contacts'
+							active={currentPath === '/contacts'}
+							onClick={onLinkClick}
+							collapsed={collapsed}
+						/>
+						<SidebarLink
+							icon={Building2}
+							label='Companies'
+							to='/companies'
+							active={currentPath.startsWith('/companies')}
+							onClick={onLinkClick}
+							collapsed={collapsed}
+						/>
+						<SidebarLink
+							icon={Scale}
+							label='Offers'
+							to='/offers'
+							active={currentPath === '/offers'}
+							onClick={onLinkClick}
+							collapsed={collapsed}
+						/>
+						<SidebarLink
+							icon={ListTodo}
+							label='My Tasks'
+							to='/tasks'
+							active={currentPath === '/tasks'}
+							onClick={onLinkClick}
+							collapsed={collapsed}
+						/>
 						<SidebarLink
 							icon={Settings}
 							label='Settings'
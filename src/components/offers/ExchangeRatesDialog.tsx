@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { supportedCurrencies } from '@/utils/currencyUtils'
+import { DEFAULT_EXCHANGE_RATES } from '@/utils/offerUtils'
+
+interface ExchangeRatesDialogProps {
+	isOpen: boolean
+	onClose: () => void
+	onSubmit: (rates: Record<string, number>) => Promise<void>
+	rates: Record<string, number>
+}
+
+const ExchangeRatesDialog = ({
+	isOpen,
+	onClose,
+	onSubmit,
+	rates,
+}: ExchangeRatesDialogProps) => {
+	const [values, setValues] = useState<Record<string, string>>({})
+	const [error, setError] = useState<string | null>(null)
+	const [isSaving, setIsSaving] = useState(false)
+
+	useEffect(() => {
+		if (!isOpen) return
+		setError(null)
+		setValues(
+			Object.fromEntries(
+				supportedCurrencies.map((code) => [code, String(rates[code] ?? '')])
+			)
+		)
+	}, [isOpen, rates])
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+
+		const nextRates: Record<string, number> = { USD: 1 }
+		for (const code of supportedCurrencies) {
+			if (code === 'USD') continue
+			const rate = Number(values[code])
+			if (!values[code]?.trim() || isNaN(rate) || rate <= 0) {
+				setError(`Enter a rate above zero for ${code}`)
+				return
+			}
+			nextRates[code] = rate
+		}
+
+		setIsSaving(true)
+		try {
+			await onSubmit(nextRates)
+			onClose()
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Dialog
+			open={isOpen}
+			onOpenChange={onClose}
+		>
+			<DialogContent className='sm:max-w-[400px]'>
+				<DialogHeader>
+					<DialogTitle>Exchange Rates</DialogTitle>
+					<DialogDescription>
+						How much of each currency one US dollar buys, used to compare offers
+						in different currencies
+					</DialogDescription>
+				</DialogHeader>
+
+				<form
+					onSubmit={handleSubmit}
+					className='grid gap-4 py-2'
+				>
+					<div className='grid grid-cols-2 gap-4'>
+						{supportedCurrencies
+							.filter((code) => code !== 'USD')
+							.map((code) => (
+								<div
+									key={code}
+									className='grid gap-2'
+								>
+									<Label htmlFor={`rate-${code}`}>{code} per USD</Label>
+									<Input
+										id={`rate-${code}`}
+										type='number'
+										min='0'
+										step='any'
+										value={values[code] || ''}
+										onChange={(e) =>
+											setValues((prev) => ({ ...prev, [code]: e.target.value }))
+										}
+									/>
+								</div>
+							))}
+					</div>
+
+					{error && <p className='text-sm text-red-600'>{error}</p>}
+
+					<DialogFooter className='sm:justify-between'>
+						<Button
+							type='button'
+							variant='ghost'
+							onClick={() =>
+								setValues(
+									Object.fromEntries(
+										Object.entries(DEFAULT_EXCHANGE_RATES).map(
+											([code, rate]) => [code, String(rate)]
+										)
+									)
+								)
+							}
+						>
+							Reset to defaults
+						</Button>
+						<div className='flex gap-2'>
+							<Button
+								type='button'
+								variant='outline'
+								onClick={onClose}
+							>
+								Cancel
+							</Button>
+							<Button
+								type='submit'
+								disabled={isSaving}
+							>
+								Save Rates
+							</Button>
+						</div>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+export default ExchangeRatesDialog
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { v4 as uuidv4 } from 'uuid'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { OfferCriterion, OfferCriterionSource } from '@/services/offerService'
+import { criterionSourceLabels } from '@/utils/offerUtils'
+import { createStageKey } from '@/utils/pipelineUtils'
+
+interface OfferCriteriaDialogProps {
+	isOpen: boolean
+	onClose: () => void
+	onSubmit: (criteria: OfferCriterion[]) => Promise<void>
+	criteria: OfferCriterion[]
+}
+
+// New rows don't have a key until they're saved, so are tracked by id
+interface CriterionRow extends Omit<OfferCriterion, 'key'> {
+	key?: string
+}
+
+const OfferCriteriaDialog = ({
+	isOpen,
+	onClose,
+	onSubmit,
+	criteria,
+}: OfferCriteriaDialogProps) => {
+	const [rows, setRows] = useState<CriterionRow[]>([])
+	const [error, setError] = useState<string | null>(null)
+	const [isSaving, setIsSaving] = useState(false)
+
+	useEffect(() => {
+		if (!isOpen) return
+		setError(null)
+		setRows(criteria)
+	}, [isOpen, criteria])
+
+	const updateRow = (id: string, changes: Partial<CriterionRow>) => {
+		setRows((prev) =>
+			prev.map((row) => (row.id === id ? { ...row, ...changes } : row))
+		)
+	}
+
+	const handleAdd = () => {
+		setRows((prev) => [
+			...prev,
+			{
+				id: uuidv4(),
+				label: '',
+				weight: 3,
+				source: 'rating',
+				position: prev.length,
+			},
+		])
+	}
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+
+		if (rows.some((row) => !row.label.trim())) {
+			setError('Every criterion needs a name')
+			return
+		}
+		if (
+			rows.some((row) => isNaN(row.weight) || row.weight < 0 || row.weight > 10)
+		) {
+			setError('Weights must be between 0 and 10')
+			return
+		}
+
+		// Existing criteria keep their key so ratings given to offers still apply
+		const nextCriteria: OfferCriterion[] = []
+		rows.forEach((row, index) => {
+			nextCriteria.push({
+				...row,
+				label: row.label.trim(),
+				key:
+					row.key || createStageKey(row.label, [...criteria, ...nextCriteria]),
+				position: index,
+			})
+		})
+
+		setIsSaving(true)
+		try {
+			await onSubmit(nextCriteria)
+			onClose()
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Dialog
+			open={isOpen}
+			onOpenChange={onClose}
+		>
+			<DialogContent className='sm:max-w-[600px]'>
+				<DialogHeader>
+					<DialogTitle>Scoring Criteria</DialogTitle>
+					<DialogDescription>
+						What matters to you in an offer, weighted from 0 (ignore) to 10
+					</DialogDescription>
+				</DialogHeader>
+
+				<form
+					onSubmit={handleSubmit}
+					className='grid gap-4 py-2'
+				>
+					<div className='grid gap-2'>
+						<div className='grid grid-cols-[1fr_160px_70px_32px] gap-2 text-xs text-gray-500'>
+							<Label>Criterion</Label>
+							<Label>Scored by</Label>
+							<Label>Weight</Label>
+						</div>
+						{rows.map((row) => (
+							<div
+								key={row.id}
+								className='grid grid-cols-[1fr_160px_70px_32px] gap-2 items-center'
+							>
+								<Input
+									value={row.label}
+									onChange={(e) => updateRow(row.id, { label: e.target.value })}
+									placeholder='e.g. Commute'
+									aria-label='Criterion name'
+								/>
+								<Select
+									value={row.source}
+									onValueChange={(source) =>
+										updateRow(row.id, {
+											source: source as OfferCriterionSource,
+										})
+									}
+								>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{Object.entries(criterionSourceLabels).map(
+											([value, label]) => (
+												<SelectItem
+													key={value}
+													value={value}
+												>
+													{label}
+												</SelectItem>
+											)
+										)}
+									</SelectContent>
+								</Select>
+								<Input
+									type='number'
+									min='0'
+									max='10'
+									value={row.weight}
+									onChange={(e) =>
+										updateRow(row.id, { weight: Number(e.target.value) })
+									}
+									aria-label='Weight'
+								/>
+								<Button
+									type='button'
+									variant='ghost'
+									size='sm'
+									className='h-8 w-8 p-0 text-red-600 hover:text-red-700'
+									onClick={() =>
+										setRows((prev) => prev.filter((r) => r.id !== row.id))
+									}
+									aria-label='Remove criterion'
+								>
+									<Trash2 className='w-3.5 h-3.5' />
+								</Button>
+							</div>
+						))}
+						<div>
+							<Button
+								type='button'
+								variant='ghost'
+								size='sm'
+								onClick={handleAdd}
+							>
+								<Plus className='w-4 h-4 mr-1' />
+								Add Criterion
+							</Button>
+						</div>
+					</div>
+
+					{error && <p className='text-sm text-red-600'>{error}</p>}
+
+					<DialogFooter>
+						<Button
+							type='button'
+							variant='outline'
+							onClick={onClose}
+						>
+							Cancel
+						</Button>
+						<Button
+							type='submit'
+							disabled={isSaving}
+						>
+							Save Criteria
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+export default OfferCriteriaDialog
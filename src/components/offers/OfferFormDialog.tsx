@@ -0,0 +1,511 @@
+import { useEffect, useState } from 'react'
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { JobApplication } from '@/data/mockJobs'
+import {
+	JobOffer,
+	JobOfferInput,
+	OfferBonusType,
+	OfferCriterion,
+} from '@/services/offerService'
+import {
+	getAnnualSalary,
+	getSalaryRange,
+	supportedCurrencies,
+} from '@/utils/currencyUtils'
+
+interface OfferFormDialogProps {
+	isOpen: boolean
+	onClose: () => void
+	onSubmit: (offer: JobOfferInput) => Promise<boolean>
+	job: JobApplication | null
+	criteria: OfferCriterion[]
+	defaultCurrency: string
+	initialData?: JobOffer | null
+}
+
+// Select items can't have an empty value
+const NO_WORK_TYPE = 'none'
+const NOT_RATED = 'none'
+
+// Amount fields, kept as text while editing
+const amountFields = [
+	'baseSalary',
+	'bonus',
+	'equityValue',
+	'vestingYears',
+	'vestingCliffMonths',
+	'signOnBonus',
+	'benefitsValue',
+	'ptoDays',
+] as const
+
+type AmountField = (typeof amountFields)[number]
+
+const emptyForm = {
+	currency: 'USD',
+	baseSalary: '',
+	bonus: '',
+	bonusType: 'amount' as OfferBonusType,
+	equityValue: '',
+	vestingYears: '4',
+	vestingCliffMonths: '',
+	signOnBonus: '',
+	benefits: '',
+	benefitsValue: '',
+	ptoDays: '',
+	location: '',
+	workType: NO_WORK_TYPE,
+	startDate: '',
+	responseDeadline: '',
+	ratings: {} as Record<string, number>,
+	notes: '',
+}
+
+const toText = (value?: number) => (value === undefined ? '' : String(value))
+
+const OfferFormDialog = ({
+	isOpen,
+	onClose,
+	onSubmit,
+	job,
+	criteria,
+	defaultCurrency,
+	initialData,
+}: OfferFormDialogProps) => {
+	const [formData, setFormData] = useState(emptyForm)
+	const [error, setError] = useState<string | null>(null)
+	const [isSaving, setIsSaving] = useState(false)
+
+	// Reset the form whenever the dialog opens, starting new offers from the
+	// job's advertised salary and location
+	useEffect(() => {
+		if (!isOpen) return
+		setError(null)
+
+		if (initialData) {
+			setFormData({
+				...emptyForm,
+				...Object.fromEntries(
+					amountFields.map((field) => [field, toText(initialData[field])])
+				),
+				currency: initialData.currency,
+				bonusType: initialData.bonusType,
+				benefits: initialData.benefits || '',
+				location: initialData.location || '',
+				workType: initialData.workType || NO_WORK_TYPE,
+				startDate: initialData.startDate || '',
+				responseDeadline: initialData.responseDeadline || '',
+				ratings: initialData.ratings,
+				notes: initialData.notes || '',
+			})
+			return
+		}
+
+		const salaryRange = job ? getSalaryRange(job) : null
+		const annualSalary = getAnnualSalary(salaryRange)
+		setFormData({
+			...emptyForm,
+			currency: salaryRange?.currency || defaultCurrency,
+			baseSalary: annualSalary ? String(Math.round(annualSalary)) : '',
+			location: job?.location || '',
+			workType: job?.workType || NO_WORK_TYPE,
+		})
+	}, [isOpen, initialData, job, defaultCurrency])
+
+	const handleChange = (
+		e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+	) => {
+		const { name, value } = e.target
+		setFormData((prev) => ({ ...prev, [name]: value }))
+	}
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+
+		const amounts = {} as Record<AmountField, number | undefined>
+		for (const field of amountFields) {
+			const text = formData[field].trim()
+			const value = text ? Number(text) : undefined
+			if (value !== undefined && (isNaN(value) || value < 0)) {
+				setError('Amounts must be positive numbers')
+				return
+			}
+			amounts[field] = value
+		}
+		if (!amounts.baseSalary) {
+			setError('Base salary is required')
+			return
+		}
+		if (!amounts.vestingYears) {
+			setError('The vesting period must be longer than zero')
+			return
+		}
+
+		setIsSaving(true)
+		try {
+			const saved = await onSubmit({
+				...amounts,
+				currency: formData.currency,
+				bonusType: formData.bonusType,
+				vestingYears: amounts.vestingYears,
+				benefits: formData.benefits.trim() || undefined,
+				location: formData.location.trim() || undefined,
+				workType:
+					formData.workType === NO_WORK_TYPE
+						? undefined
+						: (formData.workType as JobOfferInput['workType']),
+				startDate: formData.startDate || undefined,
+				responseDeadline: formData.responseDeadline || undefined,
+				ratings: formData.ratings,
+				notes: formData.notes.trim() || undefined,
+			})
+			if (saved) onClose()
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const handleRatingChange = (key: string, value: string) => {
+		setFormData((prev) => {
+			const ratings = { ...prev.ratings }
+			if (value === NOT_RATED) {
+				delete ratings[key]
+			} else {
+				ratings[key] = Number(value)
+			}
+			return { ...prev, ratings }
+		})
+	}
+
+	const ratingCriteria = criteria.filter(
+		(criterion) => criterion.source === 'rating'
+	)
+
+	return (
+		<Dialog
+			open={isOpen}
+			onOpenChange={onClose}
+		>
+			<DialogContent className='sm:max-w-[600px] max-h-[90vh] overflow-y-auto'>
+				<DialogHeader>
+					<DialogTitle>
+						{initialData ? 'Edit Offer' : 'Add Offer'}
+						{job && (
+							<span className='block text-sm font-normal text-gray-500 mt-1'>
+								{job.position} at {job.company}
+							</span>
+						)}
+					</DialogTitle>
+				</DialogHeader>
+
+				<form
+					onSubmit={handleSubmit}
+					className='grid gap-4 py-2'
+				>
+					<div className='grid grid-cols-3 gap-4'>
+						<div className='grid gap-2'>
+							<Label>Currency</Label>
+							<Select
+								value={formData.currency}
+								onValueChange={(currency) =>
+									setFormData((prev) => ({ ...prev, currency }))
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{supportedCurrencies.map((code) => (
+										<SelectItem
+											key={code}
+											value={code}
+										>
+											{code}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className='grid gap-2 col-span-2'>
+							<Label htmlFor='offer-base'>Base salary (per year)</Label>
+							<Input
+								id='offer-base'
+								name='baseSalary'
+								type='number'
+								min='0'
+								value={formData.baseSalary}
+								onChange={handleChange}
+								placeholder='120000'
+							/>
+						</div>
+					</div>
+
+					<div className='grid grid-cols-3 gap-4'>
+						<div className='grid gap-2 col-span-2'>
+							<Label htmlFor='offer-bonus'>Target bonus (per year)</Label>
+							<Input
+								id='offer-bonus'
+								name='bonus'
+								type='number'
+								min='0'
+								value={formData.bonus}
+								onChange={handleChange}
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label>Bonus is</Label>
+							<Select
+								value={formData.bonusType}
+								onValueChange={(bonusType) =>
+									setFormData((prev) => ({
+										...prev,
+										bonusType: bonusType as OfferBonusType,
+									}))
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value='amount'>An amount</SelectItem>
+									<SelectItem value='percent'>% of base</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+
+					<div className='grid grid-cols-3 gap-4'>
+						<div className='grid gap-2'>
+							<Label htmlFor='offer-equity'>Equity grant value</Label>
+							<Input
+								id='offer-equity'
+								name='equityValue'
+								type='number'
+								min='0'
+								value={formData.equityValue}
+								onChange={handleChange}
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label htmlFor='offer-vesting'>Vesting (years)</Label>
+							<Input
+								id='offer-vesting'
+								name='vestingYears'
+								type='number'
+								min='0'
+								step='0.5'
+								value={formData.vestingYears}
+								onChange={handleChange}
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label htmlFor='offer-cliff'>Cliff (months)</Label>
+							<Input
+								id='offer-cliff'
+								name='vestingCliffMonths'
+								type='number'
+								min='0'
+								value={formData.vestingCliffMonths}
+								onChange={handleChange}
+							/>
+						</div>
+					</div>
+
+					<div className='grid grid-cols-2 gap-4'>
+						<div className='grid gap-2'>
+							<Label htmlFor='offer-sign-on'>Sign-on bonus</Label>
+							<Input
+								id='offer-sign-on'
+								name='signOnBonus'
+								type='number'
+								min='0'
+								value={formData.signOnBonus}
+								onChange={handleChange}
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label htmlFor='offer-pto'>PTO (days per year)</Label>
+							<Input
+								id='offer-pto'
+								name='ptoDays'
+								type='number'
+								min='0'
+								value={formData.ptoDays}
+								onChange={handleChange}
+							/>
+						</div>
+					</div>
+
+					<div className='grid grid-cols-3 gap-4'>
+						<div className='grid gap-2 col-span-2'>
+							<Label htmlFor='offer-benefits'>Benefits</Label>
+							<Input
+								id='offer-benefits'
+								name='benefits'
+								value={formData.benefits}
+								onChange={handleChange}
+								placeholder='Health, 5% pension match, learning budget'
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label htmlFor='offer-benefits-value'>Worth (per year)</Label>
+							<Input
+								id='offer-benefits-value'
+								name='benefitsValue'
+								type='number'
+								min='0'
+								value={formData.benefitsValue}
+								onChange={handleChange}
+							/>
+						</div>
+					</div>
+
+					<div className='grid grid-cols-2 gap-4'>
+						<div className='grid gap-2'>
+							<Label htmlFor='offer-location'>Location</Label>
+							<Input
+								id='offer-location'
+								name='location'
+								value={formData.location}
+								onChange={handleChange}
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label>Work type</Label>
+							<Select
+								value={formData.workType}
+								onValueChange={(workType) =>
+									setFormData((prev) => ({ ...prev, workType }))
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={NO_WORK_TYPE}>Not specified</SelectItem>
+									<SelectItem value='On-site'>On-site</SelectItem>
+									<SelectItem value='Remote'>Remote</SelectItem>
+									<SelectItem value='Hybrid'>Hybrid</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+
+					<div className='grid grid-cols-2 gap-4'>
+						<div className='grid gap-2'>
+							<Label htmlFor='offer-start'>Start date</Label>
+							<Input
+								id='offer-start'
+								name='startDate'
+								type='date'
+								value={formData.startDate}
+								onChange={handleChange}
+							/>
+						</div>
+						<div className='grid gap-2'>
+							<Label htmlFor='offer-deadline'>Respond by</Label>
+							<Input
+								id='offer-deadline'
+								name='responseDeadline'
+								type='date'
+								value={formData.responseDeadline}
+								onChange={handleChange}
+							/>
+						</div>
+					</div>
+
+					{ratingCriteria.length > 0 && (
+						<div className='grid gap-2'>
+							<Label>Your ratings</Label>
+							<div className='grid grid-cols-2 gap-3'>
+								{ratingCriteria.map((criterion) => (
+									<div
+										key={criterion.key}
+										className='flex items-center justify-between gap-2'
+									>
+										<span className='text-sm text-gray-700 truncate'>
+											{criterion.label}
+										</span>
+										<Select
+											value={
+												formData.ratings[criterion.key]
+													? String(formData.ratings[criterion.key])
+													: NOT_RATED
+											}
+											onValueChange={(value) =>
+												handleRatingChange(criterion.key, value)
+											}
+										>
+											<SelectTrigger className='w-[100px] h-8'>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value={NOT_RATED}>Not rated</SelectItem>
+												{[1, 2, 3, 4, 5].map((rating) => (
+													<SelectItem
+														key={rating}
+														value={String(rating)}
+													>
+														{rating} / 5
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+								))}
+							</div>
+						</div>
+					)}
+
+					<div className='grid gap-2'>
+						<Label htmlFor='offer-notes'>Notes</Label>
+						<Textarea
+							id='offer-notes'
+							name='notes'
+							value={formData.notes}
+							onChange={handleChange}
+							rows={3}
+						/>
+					</div>
+
+					{error && <p className='text-sm text-red-600'>{error}</p>}
+
+					<DialogFooter>
+						<Button
+							type='button'
+							variant='outline'
+							onClick={onClose}
+						>
+							Cancel
+						</Button>
+						<Button
+							type='submit'
+							disabled={isSaving}
+						>
+							{initialData ? 'Save Changes' : 'Add Offer'}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+export default OfferFormDialog
@@ -9,8 +9,9 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
-import { Mail } from "lucide-react";
+import { CalendarClock, Mail } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { logger } from "@/utils/logger";
 
@@ -28,6 +29,16 @@ export const NotificationsTab = () => {
     marketing: false,
   });
 
+  // Follow-up reminder rules, applied by the notification scheduler
+  const [followUpRules, setFollowUpRules] = useState({
+    staleApplicationReminders: true,
+    staleApplicationDays: 14,
+    interviewOutcomeReminders: true,
+    interviewOutcomeDays: 7,
+    overdueTaskReminders: true,
+    followUpEmails: true,
+  });
+
   // Fetch notification preferences on mount
   useEffect(() => {
     const fetchNotificationPreferences = async () => {
@@ -66,6 +77,14 @@ export const NotificationsTab = () => {
             interviewReminders: data.interview_reminders || true,
             marketing: data.marketing || false,
           });
+          setFollowUpRules({
+            staleApplicationReminders: data.stale_application_reminders ?? true,
+            staleApplicationDays: data.stale_application_days ?? 14,
+            interviewOutcomeReminders: data.interview_outcome_reminders ?? true,
+            interviewOutcomeDays: data.interview_outcome_days ?? 7,
+            overdueTaskReminders: data.overdue_task_reminders ?? true,
+            followUpEmails: data.follow_up_emails ?? true,
+          });
         }
       } catch (error: any) {
         logger.error("Error fetching notification preferences:", error);
@@ -99,6 +118,12 @@ export const NotificationsTab = () => {
         application_status: notifications.applicationStatus,
         interview_reminders: notifications.interviewReminders,
         marketing: notifications.marketing,
+        stale_application_reminders: followUpRules.staleApplicationReminders,
+        stale_application_days: followUpRules.staleApplicationDays,
+        interview_outcome_reminders: followUpRules.interviewOutcomeReminders,
+        interview_outcome_days: followUpRules.interviewOutcomeDays,
+        overdue_task_reminders: followUpRules.overdueTaskReminders,
+        follow_up_emails: followUpRules.followUpEmails,
         updated_at: new Date().toISOString(),
       });
 
@@ -123,6 +148,20 @@ export const NotificationsTab = () => {
     }
   };
 
+  // Handle changing a follow-up rule
+  const handleFollowUpRuleChange = (
+    key: keyof typeof followUpRules,
+    value: boolean | number
+  ) => {
+    setFollowUpRules((prev) => ({
+      ...prev,
+      [key]: value,
+    }));
+  };
+
+  // Days must be a whole number of at least 1
+  const parseDays = (value: string) => Math.max(1, parseInt(value, 10) || 1);
+
   // Handle changing notification settings
   const handleNotificationChange = (key: string, value: boolean) => {
     setNotifications((prev) => ({
@@ -206,6 +245,101 @@ export const NotificationsTab = () => {
             />
           </div>
         </div>
+
+        <div className="space-y-3">
+          <div className="space-y-0.5">
+            <div className="flex items-center gap-2">
+              <CalendarClock className="h-4 w-4 text-muted-foreground" />
+              <h3 className="font-medium">Follow-up reminders</h3>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Get a reminder you can snooze when an application goes quiet or a
+              task is overdue
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <span>Applied with no update for</span>
+              <Input
+                type="number"
+                min={1}
+                className="h-8 w-16"
+                value={followUpRules.staleApplicationDays}
+                onChange={(e) =>
+                  handleFollowUpRuleChange(
+                    "staleApplicationDays",
+                    parseDays(e.target.value)
+                  )
+                }
+                disabled={
+                  isInitializing || !followUpRules.staleApplicationReminders
+                }
+                aria-label="Days with no update"
+              />
+              <span>days</span>
+            </div>
+            <Switch
+              checked={followUpRules.staleApplicationReminders}
+              onCheckedChange={(checked) =>
+                handleFollowUpRuleChange("staleApplicationReminders", checked)
+              }
+              disabled={isInitializing}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <span>No outcome</span>
+              <Input
+                type="number"
+                min={1}
+                className="h-8 w-16"
+                value={followUpRules.interviewOutcomeDays}
+                onChange={(e) =>
+                  handleFollowUpRuleChange(
+                    "interviewOutcomeDays",
+                    parseDays(e.target.value)
+                  )
+                }
+                disabled={
+                  isInitializing || !followUpRules.interviewOutcomeReminders
+                }
+                aria-label="Days after the interview"
+              />
+              <span>days after an interview</span>
+            </div>
+            <Switch
+              checked={followUpRules.interviewOutcomeReminders}
+              onCheckedChange={(checked) =>
+                handleFollowUpRuleChange("interviewOutcomeReminders", checked)
+              }
+              disabled={isInitializing}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm">Tasks past their due date</p>
+            <Switch
+              checked={followUpRules.overdueTaskReminders}
+              onCheckedChange={(checked) =>
+                handleFollowUpRuleChange("overdueTaskReminders", checked)
+              }
+              disabled={isInitializing}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm">Email follow-up reminders too</p>
+            <Switch
+              checked={followUpRules.followUpEmails}
+              onCheckedChange={(checked) =>
+                handleFollowUpRuleChange("followUpEmails", checked)
+              }
+              disabled={isInitializing || !notifications.email}
+            />
+          </div>
+        </div>
       </CardContent>
       <CardFooter>
         <Button
@@ -0,0 +1,308 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { PipelineStage, StageOutcome, stageOutcomes } from "@/data/mockJobs";
+import { usePipeline } from "@/contexts/PipelineContext";
+import { useAllJobs } from "@/hooks/use-all-jobs";
+import { outcomeLabels } from "@/utils/pipelineUtils";
+
+const OutcomeSelect = ({
+  value,
+  onChange,
+}: {
+  value: StageOutcome;
+  onChange: (value: StageOutcome) => void;
+}) => (
+  <Select value={value} onValueChange={(v) => onChange(v as StageOutcome)}>
+    <SelectTrigger className="w-[150px]">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {stageOutcomes.map((outcome) => (
+        <SelectItem key={outcome} value={outcome}>
+          {outcomeLabels[outcome]}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+/**
+ * Lets the user add, rename, recolour, reorder and delete the stages
+ * shown on their board. Each stage maps to an outcome so dashboard
+ * totals stay meaningful.
+ */
+const PipelineStagesSettings = () => {
+  const {
+    stages,
+    addStage,
+    updateStage,
+    deleteStage,
+    reorderStages,
+    resetStages,
+  } = usePipeline();
+  // Counts cover applications lists haven't loaded too
+  const { jobs } = useAllJobs();
+
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [colors, setColors] = useState<Record<string, string>>({});
+  const [newLabel, setNewLabel] = useState("");
+  const [newColor, setNewColor] = useState("#0EA5E9");
+  const [newOutcome, setNewOutcome] = useState<StageOutcome>("interview");
+  const [stageToDelete, setStageToDelete] = useState<PipelineStage | null>(
+    null
+  );
+  const [reassignTo, setReassignTo] = useState("");
+
+  // Keep the editable fields in sync with saved stages
+  useEffect(() => {
+    setLabels(
+      Object.fromEntries(stages.map((stage) => [stage.key, stage.label]))
+    );
+    setColors(
+      Object.fromEntries(stages.map((stage) => [stage.key, stage.color]))
+    );
+  }, [stages]);
+
+  const jobCount = (key: string) =>
+    jobs.filter((job) => job.status === key).length;
+
+  const handleLabelBlur = (stage: PipelineStage) => {
+    const label = (labels[stage.key] || "").trim();
+    if (!label) {
+      setLabels((prev) => ({ ...prev, [stage.key]: stage.label }));
+      return;
+    }
+    if (label !== stage.label) {
+      updateStage(stage.key, { label });
+    }
+  };
+
+  // The colour picker fires on every drag, so only save once it closes
+  const handleColorBlur = (stage: PipelineStage) => {
+    const color = colors[stage.key];
+    if (color && color !== stage.color) {
+      updateStage(stage.key, { color });
+    }
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length) return;
+    const keys = stages.map((stage) => stage.key);
+    [keys[index], keys[target]] = [keys[target], keys[index]];
+    reorderStages(keys);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLabel.trim()) return;
+    await addStage({ label: newLabel, color: newColor, outcome: newOutcome });
+    setNewLabel("");
+  };
+
+  const openDeleteDialog = (stage: PipelineStage) => {
+    setStageToDelete(stage);
+    setReassignTo(stages.find((s) => s.key !== stage.key)?.key || "");
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!stageToDelete || !reassignTo) return;
+    await deleteStage(stageToDelete.key, reassignTo);
+    setStageToDelete(null);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Pipeline Stages</CardTitle>
+          <CardDescription>
+            Customise the columns on your board. Each stage rolls up to an
+            outcome that is used for dashboard statistics.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {stages.map((stage, index) => (
+            <div
+              key={stage.key}
+              className="flex flex-wrap items-center gap-2 rounded-md border p-2"
+            >
+              <input
+                type="color"
+                value={colors[stage.key] ?? stage.color}
+                onChange={(e) =>
+                  setColors((prev) => ({
+                    ...prev,
+                    [stage.key]: e.target.value,
+                  }))
+                }
+                onBlur={() => handleColorBlur(stage)}
+                className="h-9 w-9 cursor-pointer rounded border-0 bg-transparent p-0"
+                aria-label={`${stage.label} colour`}
+              />
+              <Input
+                value={labels[stage.key] ?? stage.label}
+                onChange={(e) =>
+                  setLabels((prev) => ({
+                    ...prev,
+                    [stage.key]: e.target.value,
+                  }))
+                }
+                onBlur={() => handleLabelBlur(stage)}
+                className="flex-1 min-w-[140px]"
+                aria-label="Stage name"
+              />
+              <OutcomeSelect
+                value={stage.outcome}
+                onChange={(outcome) => updateStage(stage.key, { outcome })}
+              />
+              <span className="w-16 text-center text-xs text-gray-500">
+                {jobCount(stage.key)} jobs
+              </span>
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0}
+                  aria-label="Move stage up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === stages.length - 1}
+                  aria-label="Move stage down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                  onClick={() => openDeleteDialog(stage)}
+                  disabled={stages.length <= 1}
+                  aria-label="Delete stage"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <form
+            onSubmit={handleAdd}
+            className="flex flex-wrap items-end gap-2 border-t pt-4"
+          >
+            <input
+              type="color"
+              value={newColor}
+              onChange={(e) => setNewColor(e.target.value)}
+              className="h-9 w-9 cursor-pointer rounded border-0 bg-transparent p-0"
+              aria-label="New stage colour"
+            />
+            <div className="flex-1 min-w-[140px] space-y-1">
+              <Label htmlFor="new-stage-label">New stage</Label>
+              <Input
+                id="new-stage-label"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                placeholder="e.g. Phone screen"
+              />
+            </div>
+            <OutcomeSelect value={newOutcome} onChange={setNewOutcome} />
+            <Button type="submit" disabled={!newLabel.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Stage
+            </Button>
+          </form>
+        </CardContent>
+        <CardFooter>
+          <Button variant="outline" onClick={resetStages}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset to defaults
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Dialog
+        open={!!stageToDelete}
+        onOpenChange={(open) => !open && setStageToDelete(null)}
+      >
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Delete "{stageToDelete?.label}"?</DialogTitle>
+            <DialogDescription>
+              {stageToDelete && jobCount(stageToDelete.key) > 0
+                ? `${jobCount(
+                    stageToDelete.key
+                  )} application(s) will be moved to the stage you choose.`
+                : "No applications are in this stage."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Move applications to</Label>
+            <Select value={reassignTo} onValueChange={setReassignTo}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select stage" />
+              </SelectTrigger>
+              <SelectContent>
+                {stages
+                  .filter((stage) => stage.key !== stageToDelete?.key)
+                  .map((stage) => (
+                    <SelectItem key={stage.key} value={stage.key}>
+                      {stage.label}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStageToDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmDelete}
+              disabled={!reassignTo}
+            >
+              Delete Stage
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PipelineStagesSettings;
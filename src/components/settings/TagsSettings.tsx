@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Trash2 } from "lucide-react";
+import { JobTag } from "@/data/mockJobs";
+import { useTags } from "@/contexts/TagContext";
+import { useAllJobs } from "@/hooks/use-all-jobs";
+import { getNextTagColor } from "@/utils/tagUtils";
+
+/**
+ * Lets the user create, rename, recolour and delete the tags they use to
+ * group applications
+ */
+const TagsSettings = () => {
+  const { tags, createTag, updateTag, deleteTag } = useTags();
+  // Counts cover applications lists haven't loaded too
+  const { jobs } = useAllJobs();
+
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [colors, setColors] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(getNextTagColor(tags));
+  const [tagToDelete, setTagToDelete] = useState<JobTag | null>(null);
+
+  // Keep the editable fields in sync with saved tags
+  useEffect(() => {
+    setNames(Object.fromEntries(tags.map((tag) => [tag.id, tag.name])));
+    setColors(Object.fromEntries(tags.map((tag) => [tag.id, tag.color])));
+    setNewColor(getNextTagColor(tags));
+  }, [tags]);
+
+  const jobCount = (id: string) =>
+    jobs.filter((job) => job.tagIds?.includes(id)).length;
+
+  const handleNameBlur = (tag: JobTag) => {
+    const name = (names[tag.id] || "").trim();
+    if (!name) {
+      setNames((prev) => ({ ...prev, [tag.id]: tag.name }));
+      return;
+    }
+    if (name !== tag.name) {
+      updateTag(tag.id, { name });
+    }
+  };
+
+  // The colour picker fires on every drag, so only save once it closes
+  const handleColorBlur = (tag: JobTag) => {
+    const color = colors[tag.id];
+    if (color && color !== tag.color) {
+      updateTag(tag.id, { color });
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    await createTag(newName, newColor);
+    setNewName("");
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!tagToDelete) return;
+    await deleteTag(tagToDelete.id);
+    setTagToDelete(null);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Tags</CardTitle>
+          <CardDescription>
+            Label applications across stages, e.g. "dream company" or
+            "referral", and filter your applications by them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {tags.length === 0 && (
+            <p className="text-sm text-gray-500">
+              You haven't created any tags yet.
+            </p>
+          )}
+          {tags.map((tag) => (
+            <div
+              key={tag.id}
+              className="flex flex-wrap items-center gap-2 rounded-md border p-2"
+            >
+              <input
+                type="color"
+                value={colors[tag.id] ?? tag.color}
+                onChange={(e) =>
+                  setColors((prev) => ({ ...prev, [tag.id]: e.target.value }))
+                }
+                onBlur={() => handleColorBlur(tag)}
+                className="h-9 w-9 cursor-pointer rounded border-0 bg-transparent p-0"
+                aria-label={`${tag.name} colour`}
+              />
+              <Input
+                value={names[tag.id] ?? tag.name}
+                onChange={(e) =>
+                  setNames((prev) => ({ ...prev, [tag.id]: e.target.value }))
+                }
+                onBlur={() => handleNameBlur(tag)}
+                className="flex-1 min-w-[140px]"
+                aria-label="Tag name"
+              />
+              <span className="w-16 text-center text-xs text-gray-500">
+                {jobCount(tag.id)} jobs
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                onClick={() => setTagToDelete(tag)}
+                aria-label="Delete tag"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <form
+            onSubmit={handleAdd}
+            className="flex flex-wrap items-end gap-2 border-t pt-4"
+          >
+            <input
+              type="color"
+              value={newColor}
+              onChange={(e) => setNewColor(e.target.value)}
+              className="h-9 w-9 cursor-pointer rounded border-0 bg-transparent p-0"
+              aria-label="New tag colour"
+            />
+            <div className="flex-1 min-w-[140px] space-y-1">
+              <Label htmlFor="new-tag-name">New tag</Label>
+              <Input
+                id="new-tag-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g. Dream company"
+              />
+            </div>
+            <Button type="submit" disabled={!newName.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Tag
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={!!tagToDelete}
+        onOpenChange={(open) => !open && setTagToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{tagToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {tagToDelete && jobCount(tagToDelete.id) > 0
+                ? `It will be removed from ${jobCount(
+                    tagToDelete.id
+                  )} application(s). The applications themselves are kept.`
+                : "No applications have this tag."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete Tag
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default TagsSettings;
@@ -0,0 +1,76 @@
+import { Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { JobTask } from '@/services/taskService'
+import { DEADLINE_WARNING_DAYS, formatDeadline } from '@/utils/offerUtils'
+import { getDaysUntilDue } from '@/utils/taskUtils'
+
+interface TaskItemProps {
+	task: JobTask
+	onToggle: (task: JobTask) => void
+	onDelete: (taskId: string) => void
+	// Shows the application the task is on, opening it when clicked
+	onOpenJob?: (jobId: string) => void
+}
+
+const getDueBadgeColor = (daysLeft: number) =>
+	daysLeft < 0
+		? 'border-red-200 bg-red-50 text-red-700'
+		: daysLeft <= DEADLINE_WARNING_DAYS
+		? 'border-amber-200 bg-amber-50 text-amber-700'
+		: 'border-gray-200 bg-gray-50 text-gray-700'
+
+const TaskItem = ({ task, onToggle, onDelete, onOpenJob }: TaskItemProps) => {
+	const daysLeft = getDaysUntilDue(task)
+	const isDone = !!task.completedAt
+
+	return (
+		<div className='flex items-start gap-3 py-2'>
+			<Checkbox
+				id={`task-${task.id}`}
+				checked={isDone}
+				onCheckedChange={() => onToggle(task)}
+				className='mt-0.5'
+			/>
+			<div className='flex-1 min-w-0'>
+				<label
+					htmlFor={`task-${task.id}`}
+					className={`text-sm cursor-pointer ${
+						isDone ? 'line-through text-gray-400' : 'text-gray-900'
+					}`}
+				>
+					{task.title}
+				</label>
+				{onOpenJob && (
+					<button
+						type='button'
+						className='block text-xs text-gray-500 hover:text-blue-600 truncate'
+						onClick={() => onOpenJob(task.jobId)}
+					>
+						{task.job.position} at {task.job.company}
+					</button>
+				)}
+			</div>
+			{!isDone && daysLeft !== undefined && (
+				<Badge
+					variant='outline'
+					className={`flex-shrink-0 ${getDueBadgeColor(daysLeft)}`}
+				>
+					{formatDeadline(daysLeft)}
+				</Badge>
+			)}
+			<Button
+				variant='ghost'
+				size='sm'
+				className='h-7 w-7 p-0 flex-shrink-0 text-red-600 hover:text-red-700'
+				onClick={() => onDelete(task.id)}
+				aria-label='Delete task'
+			>
+				<Trash2 className='w-3.5 h-3.5' />
+			</Button>
+		</div>
+	)
+}
+
+export default TaskItem
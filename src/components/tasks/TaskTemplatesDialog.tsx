@@ -0,0 +1,224 @@
+import { useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { v4 as uuidv4 } from 'uuid'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { TaskTemplate } from '@/services/taskService'
+import { createStageKey } from '@/utils/pipelineUtils'
+
+interface TaskTemplatesDialogProps {
+	isOpen: boolean
+	onClose: () => void
+	onSubmit: (templates: TaskTemplate[]) => Promise<void>
+	templates: TaskTemplate[]
+}
+
+// New rows don't have a key until they're saved, so are tracked by id
+interface TemplateRow extends Omit<TaskTemplate, 'key'> {
+	key?: string
+}
+
+const TaskTemplatesDialog = ({
+	isOpen,
+	onClose,
+	onSubmit,
+	templates,
+}: TaskTemplatesDialogProps) => {
+	const { stages } = usePipeline()
+	const [rows, setRows] = useState<TemplateRow[]>([])
+	const [error, setError] = useState<string | null>(null)
+	const [isSaving, setIsSaving] = useState(false)
+
+	useEffect(() => {
+		if (!isOpen) return
+		setError(null)
+		setRows(templates)
+	}, [isOpen, templates])
+
+	const updateRow = (id: string, changes: Partial<TemplateRow>) => {
+		setRows((prev) =>
+			prev.map((row) => (row.id === id ? { ...row, ...changes } : row))
+		)
+	}
+
+	const handleAdd = () => {
+		setRows((prev) => [
+			...prev,
+			{
+				id: uuidv4(),
+				stageKey: stages[0]?.key || '',
+				title: '',
+				position: prev.length,
+			},
+		])
+	}
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+
+		if (rows.some((row) => !row.title.trim())) {
+			setError('Every task needs a name')
+			return
+		}
+		if (rows.some((row) => row.dueInDays < 0)) {
+			setError('Due in days must be 0 or more')
+			return
+		}
+
+		// Existing templates keep their key so they aren't added to jobs twice
+		const nextTemplates: TaskTemplate[] = []
+		rows.forEach((row, index) => {
+			nextTemplates.push({
+				...row,
+				title: row.title.trim(),
+				key:
+					row.key ||
+					createStageKey(row.title, [...templates, ...nextTemplates]),
+				position: index,
+			})
+		})
+
+		setIsSaving(true)
+		try {
+			await onSubmit(nextTemplates)
+			onClose()
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Dialog
+			open={isOpen}
+			onOpenChange={onClose}
+		>
+			<DialogContent className='sm:max-w-[600px]'>
+				<DialogHeader>
+					<DialogTitle>Stage Tasks</DialogTitle>
+					<DialogDescription>
+						Tasks added to an application when it moves into a stage. Leave the
+						days empty for tasks with no due date.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form
+					onSubmit={handleSubmit}
+					className='grid gap-4 py-2'
+				>
+					<div className='grid gap-2'>
+						<div className='grid grid-cols-[150px_1fr_80px_32px] gap-2 text-xs text-gray-500'>
+							<Label>Stage</Label>
+							<Label>Task</Label>
+							<Label>Due in days</Label>
+						</div>
+						{rows.map((row) => (
+							<div
+								key={row.id}
+								className='grid grid-cols-[150px_1fr_80px_32px] gap-2 items-center'
+							>
+								<Select
+									value={row.stageKey}
+									onValueChange={(stageKey) => updateRow(row.id, { stageKey })}
+								>
+									<SelectTrigger aria-label='Stage'>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{stages.map((stage) => (
+											<SelectItem
+												key={stage.key}
+												value={stage.key}
+											>
+												{stage.label}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+								<Input
+									value={row.title}
+									onChange={(e) => updateRow(row.id, { title: e.target.value })}
+									placeholder='e.g. Complete the take-home'
+									aria-label='Task name'
+								/>
+								<Input
+									type='number'
+									min='0'
+									value={row.dueInDays ?? ''}
+									onChange={(e) =>
+										updateRow(row.id, {
+											dueInDays:
+												e.target.value === ''
+													? undefined
+													: Number(e.target.value),
+										})
+									}
+									aria-label='Due in days'
+								/>
+								<Button
+									type='button'
+									variant='ghost'
+									size='sm'
+									className='h-8 w-8 p-0 text-red-600 hover:text-red-700'
+									onClick={() =>
+										setRows((prev) => prev.filter((r) => r.id !== row.id))
+									}
+									aria-label='Remove task'
+								>
+									<Trash2 className='w-3.5 h-3.5' />
+								</Button>
+							</div>
+						))}
+						<div>
+							<Button
+								type='button'
+								variant='ghost'
+								size='sm'
+								onClick={handleAdd}
+							>
+								<Plus className='w-4 h-4 mr-1' />
+								Add Task
+							</Button>
+						</div>
+					</div>
+
+					{error && <p className='text-sm text-red-600'>{error}</p>}
+
+					<DialogFooter>
+						<Button
+							type='button'
+							variant='outline'
+							onClick={onClose}
+						>
+							Cancel
+						</Button>
+						<Button
+							type='submit'
+							disabled={isSaving}
+						>
+							Save Tasks
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+export default TaskTemplatesDialog
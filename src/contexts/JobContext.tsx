@@ -3,13 +3,26 @@
  *
  * This context provides job application data management functionality throughout the application.
  * It handles:
- * - Loading job applications from the database
- * - Adding, updating, and deleting job applications
+ * - Loading the most recently updated job applications, and pages of them
+ *   sorted and filtered by the database for lists
+ * - Adding, updating, and deleting job applications, importing many at once
+ *   and editing many at once with undo
+ * - Keeping deleted applications in a trash so they can be restored
+ * - Merging duplicate applications into one record
+ * - Queueing changes made offline and replaying them when back online
+ * - Merging changes made in other tabs, devices or the browser extension
+ *   as they arrive over Supabase realtime
+ * - Managing the notes and contacts attached to each application
+ * - Recording who referred the user and why an application was rejected
+ * - Capturing a snapshot of the posting when a job is saved with a URL
+ * - Recording every status change so time-in-stage can be measured
+ * - Adding the user's templated tasks when an application changes stage
  * - Caching job data for better performance
  * - Managing loading states and error handling
  *
- * The context uses Supabase as the backend database and implements
- * optimistic updates for a better user experience.
+ * The context uses Supabase as the backend database, reading and mapping
+ * job rows through the job repository, and implements optimistic updates
+ * for a better user experience.
  */
 
 //=============================================================================
@@ -25,53 +38,162 @@ import {
   useCallback,
   useRef,
 } from "react";
-import { JobApplication, mockJobs } from "@/data/mockJobs";
+import {
+  JobApplication,
+  JobContact,
+  JobNote,
+  JobReferral,
+  JobRejection,
+  JobStatusChange,
+  StatusChangeSource,
+  mockJobs,
+} from "@/data/mockJobs";
 import { supabase } from "@/lib/supabase";
+import { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
 import { useAuth } from "@/contexts/AuthContext";
 import { v4 as uuidv4 } from "uuid";
 import { useToast } from "@/hooks/use-toast";
+import { findContactByEmail, normalizeEmail } from "@/utils/contactUtils";
+import { findDuplicates } from "@/utils/duplicateUtils";
+import { capturePostingSnapshot } from "@/services/postingSnapshotService";
+import {
+  JobBulkEdit,
+  applyBulkEdit,
+  isChangedByBulkEdit,
+  revertBulkEdit,
+} from "@/utils/bulkEditUtils";
+import { ToastAction } from "@/components/ui/toast";
+import { Link } from "react-router-dom";
+import {
+  countQueuedMutations,
+  enqueueMutation,
+  getQueuedMutations,
+  isNetworkError,
+  removeMutation,
+} from "@/lib/offlineQueue";
+import {
+  JobStatusChangeDB,
+  mapStatusChangeFromDB,
+  recordStatusChanges,
+} from "@/services/statusHistoryService";
+import { addStageTasks } from "@/services/taskService";
+import { mergeDuplicateJob } from "@/services/duplicateService";
+import {
+  JobApplicationDB,
+  backfillSalaryRanges,
+  deleteTrashedJobs,
+  fetchJobLastUpdated,
+  fetchJobRowsById,
+  fetchJobRowPage,
+  fetchRecentJobRows,
+  fetchTrashedJobs,
+  insertJobs,
+  mapJobFromDB,
+  restoreTrashedJobs,
+  saveJob,
+  trashJobs,
+  updateJobColumns,
+} from "@/services/jobRepository";
+import { QueryFilterContext } from "@/utils/jobQueryUtils";
+import {
+  JOB_PAGE_SIZE,
+  JobPageCursor,
+  JobPageQuery,
+} from "@/utils/jobPageUtils";
 
 //=============================================================================
 // TYPE DEFINITIONS
 //=============================================================================
 
 /**
- * Database representation of a job application
+ * Database representation of a job event
+ * This matches the schema in Supabase
+ */
+interface JobEventDB {
+  id?: string;
+  job_application_id: string;
+  date: string;
+  title: string;
+  description: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Database representation of a job application note
+ * This matches the schema in Supabase
+ */
+interface JobNoteDB {
+  id: string;
+  job_application_id: string;
+  note: string;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+/**
+ * Database representation of a job application contact
  * This matches the schema in Supabase
  */
-interface JobApplicationDB {
+interface JobContactDB {
   id: string;
-  user_id: string;
-  company: string;
-  position: string;
-  location: string | null;
-  status: string;
-  applied_date: string | null;
-  last_updated: string;
-  company_website: string | null;
-  salary: string | null;
-  job_description: string | null;
-  work_type: string | null;
-  employment_type: string | null;
-  remote: boolean;
+  job_application_id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  position: string | null;
+  last_contacted_at: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
 /**
- * Database representation of a job event
+ * Contact fields editable by the user
+ */
+export type JobContactInput = Omit<JobContact, "id">;
+
+/**
+ * Database representation of a job referral
  * This matches the schema in Supabase
  */
-interface JobEventDB {
-  id?: string;
+interface JobReferralDB {
+  id: string;
   job_application_id: string;
-  date: string;
-  title: string;
-  description: string | null;
+  contact_id: string | null;
+  referrer_name: string;
+  relationship: string | null;
+  requested_date: string | null;
+  submitted_date: string | null;
+  follow_up_status: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Referral fields editable by the user
+ */
+export type JobReferralInput = Omit<JobReferral, "id">;
+
+/**
+ * Database representation of a job rejection
+ * This matches the schema in Supabase
+ */
+interface JobRejectionDB {
+  id: string;
+  job_application_id: string;
+  stage_reached: string | null;
+  reason: string | null;
+  rejected_by: string;
+  feedback: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
+/**
+ * Rejection fields editable by the user
+ */
+export type JobRejectionInput = Omit<JobRejection, "id">;
+
 /**
  * Job event interface for frontend usage
  * Must match the shape in JobApplication.events
@@ -83,18 +205,114 @@ interface JobEvent {
   description?: string; // Using optional string to match JobApplication.events
 }
 
+/**
+ * Give events without one an ID, so a replayed mutation can skip the
+ * events an interrupted attempt already wrote
+ */
+const withEventIds = <T extends JobEvent>(
+  events: T[] = []
+): (T & { id: string })[] =>
+  events.map((event) => ({ ...event, id: event.id || uuidv4() }));
+
+/**
+ * A change to job applications or their events. Written straight away
+ * when online, otherwise queued in IndexedDB and replayed in order.
+ * Every row is written with its ID, so replaying a mutation that was
+ * partly written skips what is already saved.
+ */
+type JobMutation =
+  | { type: "addJob"; job: JobApplication; initialStatus: JobStatusChange }
+  | {
+      type: "importJobs";
+      jobs: JobApplication[];
+      initialStatuses: JobStatusChange[]; // By index in jobs
+    }
+  | {
+      type: "updateJob";
+      job: JobApplication;
+      baseLastUpdated: string; // last_updated of the version that was edited
+      statusChange: JobStatusChange | null;
+      newEvents: JobEvent[];
+    }
+  | {
+      type: "updateJobs";
+      updates: { ids: string[]; changes: Partial<JobApplicationDB> }[]; // Jobs given the same values
+      statusChanges: { jobId: string; change: JobStatusChange }[];
+    }
+  | { type: "deleteJobs"; ids: string[]; deletedAt: string }
+  | { type: "restoreJobs"; ids: string[] };
+
 /**
  * JobContext interface defining the contract for consumers
  */
+/**
+ * One page of a paged job list
+ */
+export interface JobPage {
+  jobs: JobApplication[];
+  cursor: JobPageCursor | null; // Where the next page starts, null on the last page
+  totalCount: number | null; // Jobs matching the query, counted on the first page only
+}
+
 interface JobContextType {
   jobs: JobApplication[];
+  trashedJobs: JobApplication[];
   isLoading: boolean;
+  jobsRevision: number; // Changes whenever loaded jobs change, e.g. to reload stats
+  reloadCount: number; // Changes when a reload drops pages lists loaded, so they load them again
   addJob: (job: JobApplication) => Promise<void>;
   deleteJob: (id: string) => Promise<void>;
-  updateJob: (job: JobApplication) => Promise<void>;
+  importJobs: (jobs: JobApplication[]) => Promise<number>;
+  bulkEditJobs: (
+    ids: string[],
+    edit: JobBulkEdit,
+    title: string
+  ) => Promise<void>;
+  deleteJobs: (ids: string[]) => Promise<void>;
+  fetchTrash: () => Promise<void>;
+  restoreJobs: (ids: string[]) => Promise<void>;
+  permanentlyDeleteJobs: (ids: string[]) => Promise<void>;
+  mergeJobs: (primaryId: string, duplicateId: string) => Promise<void>;
+  pendingMutationCount: number;
+  syncPendingMutations: () => Promise<void>;
+  updateJob: (
+    job: JobApplication,
+    source?: StatusChangeSource
+  ) => Promise<void>;
   refreshJobs: () => Promise<void>;
+  fetchJobPage: (
+    query: JobPageQuery,
+    context: QueryFilterContext,
+    cursor?: JobPageCursor | null
+  ) => Promise<JobPage>;
+  fetchAllJobs: (
+    query: JobPageQuery,
+    context: QueryFilterContext
+  ) => Promise<JobApplication[]>;
+  fetchJobsById: (ids: string[]) => Promise<JobApplication[]>;
+  addNote: (jobId: string, content: string) => Promise<void>;
+  updateNote: (jobId: string, noteId: string, content: string) => Promise<void>;
+  deleteNote: (jobId: string, noteId: string) => Promise<void>;
+  addContact: (
+    jobId: string,
+    contact: JobContactInput
+  ) => Promise<string | undefined>;
+  updateContact: (
+    jobId: string,
+    contactId: string,
+    contact: JobContactInput
+  ) => Promise<void>;
+  deleteContact: (jobId: string, contactId: string) => Promise<void>;
+  logContactTouch: (email: string, date?: string) => Promise<void>;
+  saveReferral: (jobId: string, referral: JobReferralInput) => Promise<void>;
+  deleteReferral: (jobId: string) => Promise<void>;
+  saveRejection: (jobId: string, rejection: JobRejectionInput) => Promise<void>;
+  deleteRejection: (jobId: string) => Promise<void>;
 }
 
+// Rows written per request when importing many jobs
+const IMPORT_BATCH_SIZE = 100;
+
 //=============================================================================
 // CONTEXT CREATION
 //=============================================================================
@@ -128,11 +346,23 @@ interface JobProviderProps {
  */
 function JobProvider({ children }: JobProviderProps) {
   const [jobs, setJobs] = useState<JobApplication[]>([]);
+  const [trashedJobs, setTrashedJobs] = useState<JobApplication[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [jobsRevision, setJobsRevision] = useState(0);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [pendingMutationCount, setPendingMutationCount] = useState(0);
   const { user } = useAuth();
   const { toast } = useToast();
   const fetchInProgressRef = useRef<Promise<void> | null>(null);
   const lastLoadTimeRef = useRef<number>(0);
+  // Full copies of jobs deleted this session, so undo restores them instantly
+  const deletedSnapshotsRef = useRef<Map<string, JobApplication>>(new Map());
+  // Mirrors pendingMutationCount so queued writes are never overtaken
+  const pendingCountRef = useRef(0);
+  const syncInProgressRef = useRef(false);
+  // Latest jobs for realtime handlers, which outlive the render they were created in
+  const jobsRef = useRef<JobApplication[]>([]);
+  jobsRef.current = jobs;
 
   // Add mounted ref to prevent state updates after unmount
   const isMountedRef = useRef(true);
@@ -157,6 +387,7 @@ function JobProvider({ children }: JobProviderProps) {
     (updater: React.SetStateAction<JobApplication[]>) => {
       if (isMountedRef.current) {
         setJobs(updater);
+        setJobsRevision((revision) => revision + 1);
       }
     },
     []
@@ -172,52 +403,95 @@ function JobProvider({ children }: JobProviderProps) {
   }, []);
 
   /**
-   * Convert a database job record to frontend format
-   * Maps database field names to frontend property names
-   */
-  const mapJobFromDB = (
-    dbJob: JobApplicationDB,
-    events: JobEvent[] = []
-  ): JobApplication => ({
-    id: dbJob.id,
-    company: dbJob.company,
-    position: dbJob.position,
-    location: dbJob.location || "",
-    status: dbJob.status as JobApplication["status"],
-    appliedDate: dbJob.applied_date || "",
-    lastUpdated: dbJob.last_updated,
-    companyWebsite: dbJob.company_website || "",
-    salary: dbJob.salary || "",
-    jobDescription: dbJob.job_description || "",
-    workType: (dbJob.work_type || "On-site") as JobApplication["workType"],
-    employmentType: (dbJob.employment_type ||
-      "Full-time") as JobApplication["employmentType"],
-    remote: dbJob.remote || false,
-    events: events,
-    notes: [], // To be implemented when notes table is available
-    contacts: [], // To be implemented when contacts table is available
+   * Convert a database event record to frontend format
+   */
+  const mapEventFromDB = (dbEvent: JobEventDB): JobEvent => ({
+    id: dbEvent.id,
+    date: dbEvent.date,
+    title: dbEvent.title,
+    description: dbEvent.description || undefined,
+  });
+
+  /**
+   * Convert a database note record to frontend format
+   */
+  const mapNoteFromDB = (dbNote: JobNoteDB): JobNote => ({
+    id: dbNote.id,
+    content: dbNote.note,
+    createdAt: dbNote.created_at,
+    updatedAt: dbNote.updated_at || undefined,
+  });
+
+  /**
+   * Convert a database contact record to frontend format
+   */
+  const mapContactFromDB = (dbContact: JobContactDB): JobContact => ({
+    id: dbContact.id,
+    name: dbContact.name,
+    email: dbContact.email,
+    phone: dbContact.phone || undefined,
+    position: dbContact.position || undefined,
+    lastContactedAt: dbContact.last_contacted_at || undefined,
+  });
+
+  /**
+   * Prepare contact data for database insertion/update
+   */
+  const prepareContactForDB = (contact: JobContactInput) => ({
+    name: contact.name.trim(),
+    email: normalizeEmail(contact.email),
+    phone: contact.phone?.trim() || null,
+    position: contact.position?.trim() || null,
+    last_contacted_at: contact.lastContactedAt || null,
+  });
+
+  /**
+   * Convert a database referral record to frontend format
+   */
+  const mapReferralFromDB = (dbReferral: JobReferralDB): JobReferral => ({
+    id: dbReferral.id,
+    contactId: dbReferral.contact_id || undefined,
+    referrerName: dbReferral.referrer_name,
+    relationship:
+      (dbReferral.relationship as JobReferral["relationship"]) || undefined,
+    requestedDate: dbReferral.requested_date || undefined,
+    submittedDate: dbReferral.submitted_date || undefined,
+    followUpStatus:
+      dbReferral.follow_up_status as JobReferral["followUpStatus"],
+  });
+
+  /**
+   * Prepare referral data for database insertion/update
+   */
+  const prepareReferralForDB = (referral: JobReferralInput) => ({
+    contact_id: referral.contactId || null,
+    referrer_name: referral.referrerName.trim(),
+    relationship: referral.relationship || null,
+    requested_date: referral.requestedDate || null,
+    submitted_date: referral.submittedDate || null,
+    follow_up_status: referral.followUpStatus,
+  });
+
+  /**
+   * Convert a database rejection record to frontend format
+   */
+  const mapRejectionFromDB = (dbRejection: JobRejectionDB): JobRejection => ({
+    id: dbRejection.id,
+    stageReached:
+      (dbRejection.stage_reached as JobRejection["stageReached"]) || undefined,
+    reason: (dbRejection.reason as JobRejection["reason"]) || undefined,
+    rejectedBy: dbRejection.rejected_by as JobRejection["rejectedBy"],
+    feedback: dbRejection.feedback || undefined,
   });
 
   /**
-   * Prepare job data for database insertion/update
-   * Maps frontend property names to database field names
-   */
-  const prepareJobForDB = (
-    job: JobApplication
-  ): Omit<JobApplicationDB, "id" | "user_id"> => ({
-    company: job.company,
-    position: job.position,
-    location: job.location || null,
-    status: job.status,
-    applied_date: job.appliedDate || null,
-    last_updated: new Date().toISOString(),
-    company_website: job.companyWebsite || null,
-    salary: job.salary || null,
-    job_description:
-      typeof job.jobDescription === "string" ? job.jobDescription : "",
-    work_type: job.workType || "On-site",
-    employment_type: job.employmentType || "Full-time",
-    remote: job.remote || false,
+   * Prepare rejection data for database insertion/update
+   */
+  const prepareRejectionForDB = (rejection: JobRejectionInput) => ({
+    stage_reached: rejection.stageReached || null,
+    reason: rejection.reason || null,
+    rejected_by: rejection.rejectedBy,
+    feedback: rejection.feedback?.trim() || null,
   });
 
   //=============================================================================
@@ -346,27 +620,8 @@ function JobProvider({ children }: JobProviderProps) {
       // Record the fetch time for throttling
       lastLoadTimeRef.current = Date.now();
 
-      // First, get the total count of jobs
-      const { count: totalCount, error: countError } = await supabase
-        .from("job_applications")
-        .select("id", { count: "exact", head: true })
-        .eq("user_id", user.id);
-
-      if (countError) {
-        throw new Error(`Error counting jobs: ${countError.message}`);
-      }
-
-      // Initial fetch of jobs - limited to first 50 for performance
-      const { data: jobsData, error: jobsError } = await supabase
-        .from("job_applications")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("last_updated", { ascending: false })
-        .limit(50);
-
-      if (jobsError) {
-        throw new Error(`Error fetching jobs: ${jobsError.message}`);
-      }
+      // The most recently updated jobs; lists page in the rest
+      const jobsData = await fetchRecentJobRows(user.id, JOB_PAGE_SIZE);
 
       // Fetch all job IDs for the related data queries
       const jobIds = jobsData.map((job) => job.id);
@@ -441,14 +696,39 @@ function JobProvider({ children }: JobProviderProps) {
         });
       }
 
+      // Fetch notes, contacts, referrals, rejections and status history for
+      // the jobs
+      const [
+        notesById,
+        contactsById,
+        referralsById,
+        rejectionsById,
+        historyById,
+      ] = await Promise.all([
+        fetchNotesForJobs(jobIds),
+        fetchContactsForJobs(jobIds),
+        fetchReferralsForJobs(jobIds),
+        fetchRejectionsForJobs(jobIds),
+        fetchStatusHistoryForJobs(jobIds),
+      ]);
+
       // Map database jobs to frontend format
       const mappedJobs = jobsData.map((dbJob) => {
         const jobEvents = eventsById[dbJob.id] || [];
-        return mapJobFromDB(dbJob, jobEvents);
+        return mapJobFromDB(
+          dbJob,
+          jobEvents,
+          notesById[dbJob.id] || [],
+          contactsById[dbJob.id] || [],
+          historyById[dbJob.id] || [],
+          referralsById[dbJob.id],
+          rejectionsById[dbJob.id]
+        );
       });
 
-      // Update state with the fetched jobs
-      safeSetJobs(mappedJobs);
+      // The server's copy replaces state, so failed optimistic edits and
+      // jobs deleted elsewhere don't linger
+      replaceJobs(mappedJobs);
 
       if (updateLoadingState) {
         safeSetLoading(false);
@@ -471,14 +751,6 @@ function JobProvider({ children }: JobProviderProps) {
         // Continue without caching - this is non-critical
       }
 
-      // If there are more jobs to fetch (beyond the initial 50), get them in the background
-      if ((totalCount || 0) > 50) {
-        fetchRemainingJobs(50, totalCount || 0, mappedJobs).catch((err) => {
-          console.error("Error fetching remaining jobs:", err);
-          // This is a background operation, so we don't need to update loading state
-        });
-      }
-
       // Prefetch job details in the background for better UX
       prefetchJobDetails(jobIds.slice(0, 10)).catch((err) => {
         console.error("Error prefetching job details:", err);
@@ -498,111 +770,328 @@ function JobProvider({ children }: JobProviderProps) {
   };
 
   /**
-   * Fetch remaining jobs beyond the initial limit
-   * This is used for pagination when there are many jobs
+   * Replace state with jobs fetched from the server
+   */
+  const replaceJobs = (fetchedJobs: JobApplication[]) => {
+    const fetchedIds = new Set(fetchedJobs.map((job) => job.id));
+    const dropsLoadedJobs = jobsRef.current.some(
+      (job) => !fetchedIds.has(job.id)
+    );
+
+    // Update the ref straight away, so the jobs can be acted on before the next render
+    jobsRef.current = fetchedJobs;
+    safeSetJobs(fetchedJobs);
+    if (dropsLoadedJobs && isMountedRef.current) {
+      setReloadCount((count) => count + 1);
+    }
+  };
+
+  /**
+   * Merge a page of fetched jobs into state. Jobs already loaded are replaced
+   * unless the loaded copy is newer, e.g. an optimistic edit.
+   */
+  const mergeFetchedJobs = (fetchedJobs: JobApplication[]) => {
+    const merge = (prev: JobApplication[]) => {
+      const fetchedById = new Map(fetchedJobs.map((job) => [job.id, job]));
+      const merged = prev.map((job) => {
+        const fetched = fetchedById.get(job.id);
+        if (!fetched) return job;
+        fetchedById.delete(job.id);
+        return new Date(job.lastUpdated).getTime() >
+          new Date(fetched.lastUpdated).getTime()
+          ? job
+          : fetched;
+      });
+      return [...merged, ...fetchedById.values()];
+    };
+
+    // Update the ref straight away, so the jobs can be acted on before the next render
+    jobsRef.current = merge(jobsRef.current);
+    // Loading more jobs doesn't change any, so jobsRevision is left as it is
+    if (isMountedRef.current) {
+      setJobs(merge);
+    }
+  };
+
+  /**
+   * Map fetched job rows, reusing the loaded copy of any job that hasn't
+   * changed since, so only new and changed jobs load their related records
+   */
+  const mapFetchedJobRows = async (
+    rows: JobApplicationDB[]
+  ): Promise<JobApplication[]> => {
+    const jobsById = new Map(jobsRef.current.map((job) => [job.id, job]));
+    const changedRows = rows.filter(
+      (row) => jobsById.get(row.id)?.lastUpdated !== row.last_updated
+    );
+
+    if (changedRows.length > 0) {
+      (await mapJobsWithDetails(changedRows)).forEach((job) =>
+        jobsById.set(job.id, job)
+      );
+    }
+
+    return rows
+      .map((row) => jobsById.get(row.id))
+      .filter(Boolean) as JobApplication[];
+  };
+
+  /**
+   * Fetch one page of a job list, sorted and filtered in the database.
+   * The page's jobs are merged into state, so lists show them from `jobs`.
    *
-   * @param offset The number of jobs already fetched
-   * @param totalCount The total number of jobs to fetch
-   * @param existingJobs The jobs already fetched
+   * @param query What the list shows and how it is sorted
+   * @param context Stages and tags that search terms refer to
+   * @param cursor Where the previous page ended, null for the first page
    */
-  const fetchRemainingJobs = async (
-    offset: number,
-    totalCount: number,
-    existingJobs: JobApplication[]
-  ) => {
-    if (!user?.id) return;
+  const fetchJobPage = async (
+    query: JobPageQuery,
+    context: QueryFilterContext,
+    cursor: JobPageCursor | null = null
+  ): Promise<JobPage> => {
+    if (!user?.id) return { jobs: [], cursor: null, totalCount: 0 };
+
+    const page = await fetchJobRowPage(
+      user.id,
+      query,
+      context,
+      cursor,
+      JOB_PAGE_SIZE
+    );
+    const pageJobs = await mapFetchedJobRows(page.rows);
+    mergeFetchedJobs(pageJobs);
+
+    return {
+      jobs: pageJobs,
+      cursor: page.cursor,
+      totalCount: page.totalCount,
+    };
+  };
 
-    try {
-      // Calculate how many more batches we need
-      const BATCH_SIZE = 50;
-      const batchesNeeded = Math.ceil((totalCount - offset) / BATCH_SIZE);
+  /**
+   * Fetch every job matching a query, page by page, e.g. to act on all of
+   * them rather than the pages a list has loaded
+   *
+   * @param query Which jobs to fetch and in what order
+   * @param context Stages and tags that search terms refer to
+   */
+  const fetchAllJobs = async (
+    query: JobPageQuery,
+    context: QueryFilterContext
+  ): Promise<JobApplication[]> => {
+    const allJobs: JobApplication[] = [];
+    let cursor: JobPageCursor | null = null;
+    do {
+      const page = await fetchJobPage(query, context, cursor);
+      allJobs.push(...page.jobs);
+      cursor = page.cursor;
+    } while (cursor);
+    return allJobs;
+  };
 
-      const allNewJobs: JobApplication[] = [];
+  /**
+   * Load jobs lists haven't loaded, e.g. one opened from the calendar, and
+   * keep them in state
+   *
+   * @param ids The jobs to load; ones already loaded are returned as they are
+   */
+  const fetchJobsById = async (ids: string[]): Promise<JobApplication[]> => {
+    if (!user?.id) return [];
+
+    const loadedIds = new Set(jobsRef.current.map((job) => job.id));
+    const missingIds = ids.filter((id) => !loadedIds.has(id));
+    if (missingIds.length > 0) {
+      const rows = await fetchJobRowsById(user.id, missingIds);
+      if (rows.length > 0) {
+        mergeFetchedJobs(await mapJobsWithDetails(rows));
+      }
+    }
 
-      // Fetch each batch sequentially
-      for (let i = 0; i < batchesNeeded; i++) {
-        const currentOffset = offset + i * BATCH_SIZE;
+    return jobsRef.current.filter((job) => ids.includes(job.id));
+  };
 
-        const { data: jobsData, error: jobsError } = await supabase
-          .from("job_applications")
-          .select("*")
-          .eq("user_id", user.id)
-          .order("last_updated", { ascending: false })
-          .range(currentOffset, currentOffset + BATCH_SIZE - 1);
+  /**
+   * Fetch notes for a set of jobs, grouped by job ID
+   * Notes are returned oldest first so they read as a running log
+   *
+   * @param jobIds The IDs of jobs to fetch notes for
+   */
+  const fetchNotesForJobs = async (
+    jobIds: string[]
+  ): Promise<Record<string, JobNote[]>> => {
+    const notesById: Record<string, JobNote[]> = {};
+    if (!jobIds.length) return notesById;
+
+    try {
+      const { data: notesData, error: notesError } = await supabase
+        .from("job_application_notes")
+        .select("*")
+        .in("job_application_id", jobIds)
+        .order("created_at", { ascending: true });
 
-        if (jobsError) {
-          throw new Error(`Error fetching jobs batch: ${jobsError.message}`);
+      if (notesError) {
+        console.error("Error fetching job notes:", notesError);
+        // Continue without notes rather than failing completely
+        return notesById;
+      }
+
+      notesData?.forEach((note: JobNoteDB) => {
+        const jobId = note.job_application_id;
+        if (!notesById[jobId]) {
+          notesById[jobId] = [];
         }
+        notesById[jobId].push(mapNoteFromDB(note));
+      });
+    } catch (err) {
+      console.error("Error fetching job notes:", err);
+    }
 
-        if (!jobsData.length) break; // No more data
+    return notesById;
+  };
 
-        // Get IDs for related data
-        const jobIds = jobsData.map((job) => job.id);
+  /**
+   * Fetch contacts for a set of jobs, grouped by job ID
+   *
+   * @param jobIds The IDs of jobs to fetch contacts for
+   */
+  const fetchContactsForJobs = async (
+    jobIds: string[]
+  ): Promise<Record<string, JobContact[]>> => {
+    const contactsById: Record<string, JobContact[]> = {};
+    if (!jobIds.length) return contactsById;
 
-        // Fetch events for these jobs
-        const { data: eventsData, error: eventsError } = await supabase
-          .from("job_events")
-          .select("*")
-          .in("job_application_id", jobIds)
-          .order("date", { ascending: false });
+    try {
+      const { data: contactsData, error: contactsError } = await supabase
+        .from("job_application_contacts")
+        .select("*")
+        .in("job_application_id", jobIds)
+        .order("created_at", { ascending: true });
+
+      if (contactsError) {
+        console.error("Error fetching job contacts:", contactsError);
+        // Continue without contacts rather than failing completely
+        return contactsById;
+      }
 
-        if (eventsError) {
-          console.error("Error fetching job events for batch:", eventsError);
-          // Continue without events
+      contactsData?.forEach((contact: JobContactDB) => {
+        const jobId = contact.job_application_id;
+        if (!contactsById[jobId]) {
+          contactsById[jobId] = [];
         }
+        contactsById[jobId].push(mapContactFromDB(contact));
+      });
+    } catch (err) {
+      console.error("Error fetching job contacts:", err);
+    }
 
-        // Group events by job ID
-        const eventsById: Record<string, JobEvent[]> = {};
-        eventsData?.forEach((event) => {
-          const jobId = event.job_application_id;
-          if (!eventsById[jobId]) {
-            eventsById[jobId] = [];
-          }
-          eventsById[jobId].push({
-            id: event.id,
-            date: event.date,
-            title: event.title,
-            description: event.description,
-          });
-        });
+    return contactsById;
+  };
 
-        // Map batch jobs to frontend format
-        const mappedBatchJobs = jobsData.map((dbJob) => {
-          const jobEvents = eventsById[dbJob.id] || [];
-          return mapJobFromDB(dbJob, jobEvents);
-        });
+  /**
+   * Fetch referrals for a set of jobs, keyed by job ID
+   *
+   * @param jobIds The IDs of jobs to fetch referrals for
+   */
+  const fetchReferralsForJobs = async (
+    jobIds: string[]
+  ): Promise<Record<string, JobReferral>> => {
+    const referralsById: Record<string, JobReferral> = {};
+    if (!jobIds.length) return referralsById;
 
-        allNewJobs.push(...mappedBatchJobs);
+    try {
+      const { data: referralsData, error: referralsError } = await supabase
+        .from("job_referrals")
+        .select("*")
+        .in("job_application_id", jobIds);
+
+      if (referralsError) {
+        console.error("Error fetching job referrals:", referralsError);
+        // Continue without referrals rather than failing completely
+        return referralsById;
       }
 
-      // Combine existing and new jobs, ensuring no duplicates
-      const existingIds = new Set(existingJobs.map((job) => job.id));
-      const uniqueNewJobs = allNewJobs.filter(
-        (job) => !existingIds.has(job.id)
-      );
+      referralsData?.forEach((referral: JobReferralDB) => {
+        referralsById[referral.job_application_id] =
+          mapReferralFromDB(referral);
+      });
+    } catch (err) {
+      console.error("Error fetching job referrals:", err);
+    }
 
-      if (uniqueNewJobs.length > 0) {
-        safeSetJobs((prev) => [...prev, ...uniqueNewJobs]);
+    return referralsById;
+  };
 
-        // Update the cache with the complete job list
-        try {
-          const allJobs = [...existingJobs, ...uniqueNewJobs];
-          const userCacheKey = `user_${user.id}_jobs`;
-          localStorage.setItem(userCacheKey, JSON.stringify(allJobs));
-          localStorage.setItem(
-            `${userCacheKey}_timestamp`,
-            Date.now().toString()
-          );
-          localStorage.setItem("cached_jobs", JSON.stringify(allJobs));
-          localStorage.setItem("cached_jobs_timestamp", Date.now().toString());
-        } catch (e) {
-          console.error("Error updating cache with remaining jobs:", e);
-        }
+  /**
+   * Fetch rejections for a set of jobs, keyed by job ID
+   *
+   * @param jobIds The IDs of jobs to fetch rejections for
+   */
+  const fetchRejectionsForJobs = async (
+    jobIds: string[]
+  ): Promise<Record<string, JobRejection>> => {
+    const rejectionsById: Record<string, JobRejection> = {};
+    if (!jobIds.length) return rejectionsById;
+
+    try {
+      const { data: rejectionsData, error: rejectionsError } = await supabase
+        .from("job_rejections")
+        .select("*")
+        .in("job_application_id", jobIds);
+
+      if (rejectionsError) {
+        console.error("Error fetching job rejections:", rejectionsError);
+        // Continue without rejections rather than failing completely
+        return rejectionsById;
       }
-    } catch (error: any) {
-      console.error("Error fetching remaining jobs:", error);
-      // Don't update loading state or show toast as this is a background operation
+
+      rejectionsData?.forEach((rejection: JobRejectionDB) => {
+        rejectionsById[rejection.job_application_id] =
+          mapRejectionFromDB(rejection);
+      });
+    } catch (err) {
+      console.error("Error fetching job rejections:", err);
+    }
+
+    return rejectionsById;
+  };
+
+  /**
+   * Fetch status history for a set of jobs, grouped by job ID
+   * Transitions are returned oldest first
+   *
+   * @param jobIds The IDs of jobs to fetch history for
+   */
+  const fetchStatusHistoryForJobs = async (
+    jobIds: string[]
+  ): Promise<Record<string, JobStatusChange[]>> => {
+    const historyById: Record<string, JobStatusChange[]> = {};
+    if (!jobIds.length) return historyById;
+
+    try {
+      const { data: historyData, error: historyError } = await supabase
+        .from("job_status_history")
+        .select("*")
+        .in("job_application_id", jobIds)
+        .order("changed_at", { ascending: true });
+
+      if (historyError) {
+        console.error("Error fetching status history:", historyError);
+        // Continue without history rather than failing completely
+        return historyById;
+      }
+
+      historyData?.forEach((change: JobStatusChangeDB) => {
+        const jobId = change.job_application_id;
+        if (!historyById[jobId]) {
+          historyById[jobId] = [];
+        }
+        historyById[jobId].push(mapStatusChangeFromDB(change));
+      });
+    } catch (err) {
+      console.error("Error fetching status history:", err);
     }
+
+    return historyById;
   };
 
   /**
@@ -616,38 +1105,8 @@ function JobProvider({ children }: JobProviderProps) {
 
     try {
       // This function would fetch additional related data for jobs
-      // For example, contacts, detailed notes, etc.
-      // Currently this is a placeholder for future implementation
-      // Example implementation (commented out until tables exist):
-      /*
-      // Fetch job contacts
-      const { data: contactsData } = await supabase
-        .from('job_contacts')
-        .select('*')
-        .in('job_application_id', jobIds);
-      
-      // Fetch detailed notes
-      const { data: notesData } = await supabase
-        .from('job_notes')
-        .select('*')
-        .in('job_application_id', jobIds);
-      
-      // Update jobs with this additional data
-      if (contactsData?.length || notesData?.length) {
-        setJobs(prevJobs => {
-          return prevJobs.map(job => {
-            const jobContacts = contactsData?.filter(c => c.job_application_id === job.id) || [];
-            const jobNotes = notesData?.filter(n => n.job_application_id === job.id) || [];
-            
-            return {
-              ...job,
-              contacts: jobContacts,
-              notes: jobNotes
-            };
-          });
-        });
-      }
-      */
+      // Notes and contacts are loaded alongside the jobs themselves,
+      // so this is currently a placeholder for future implementation
     } catch (error) {
       console.error("Error prefetching job details:", error);
       // This is a background operation so we don't need to handle the error visibly
@@ -663,253 +1122,2115 @@ function JobProvider({ children }: JobProviderProps) {
    * Publicly exposed method to force a complete refresh
    */
   const refreshJobs = async () => {
-    // Simply delegate to loadJobs which handles all the logic
-    return loadJobs();
+    // Skip loadJobs' rate limit and cache, as callers know the jobs changed
+    return fetchJobs(false);
+  };
+
+  //=============================================================================
+  // OFFLINE QUEUE
+  //=============================================================================
+
+  const setPendingCount = (count: number) => {
+    pendingCountRef.current = count;
+    if (isMountedRef.current) {
+      setPendingMutationCount(count);
+    }
   };
 
   /**
-   * Add a new job application
+   * Write rows that belong to a job, e.g. its events. Rows already written
+   * by an interrupted attempt are skipped.
+   * A network error is thrown so the mutation stays queued and the rows
+   * are written on replay; other errors are logged, as the job is saved.
    *
-   * @param job The job to add
+   * @param table The table to write to
+   * @param rows The rows, each with its ID
+   * @param description What the rows are, for the log
    */
-  const addJob = async (job: JobApplication): Promise<void> => {
-    if (!user?.id) {
-      toast({
-        title: "Authentication required",
-        description: "Please log in to add jobs",
-        variant: "destructive",
-      });
-      return;
+  const writeJobRows = async (
+    table: string,
+    rows: { id: string }[],
+    description: string
+  ): Promise<void> => {
+    if (rows.length === 0) return;
+
+    const { error } = await supabase
+      .from(table)
+      .upsert(rows, { onConflict: "id", ignoreDuplicates: true });
+
+    if (error) {
+      if (isNetworkError(error)) throw error;
+      console.error(`Error adding ${description}:`, error);
     }
+  };
 
-    try {
-      // Generate a new ID if not provided
-      const jobToAdd = {
-        ...job,
-        id: job.id || uuidv4(),
-        lastUpdated: new Date().toISOString(),
-      };
-
-      // Optimistically update the UI
-      safeSetJobs((prev) => [jobToAdd, ...prev]);
-
-      // Prepare job data for database
-      const jobData = prepareJobForDB(jobToAdd);
-
-      // Insert job into database
-      const { data: newJob, error } = await supabase
-        .from("job_applications")
-        .insert([
-          {
-            ...jobData,
-            id: jobToAdd.id,
-            user_id: user.id,
-          },
-        ])
-        .select()
-        .single();
-
-      if (error) {
-        throw new Error(`Failed to add job: ${error.message}`);
-      }
-
-      // Add any events if specified
-      if (jobToAdd.events && jobToAdd.events.length > 0) {
-        const events = jobToAdd.events.map((event) => ({
-          job_application_id: jobToAdd.id,
+  /**
+   * Write the events, notes and contacts that jobs are created with
+   *
+   * @param jobsWithRows The new jobs
+   * @param description What the jobs are, for the log
+   */
+  const writeNewJobRows = async (
+    jobsWithRows: JobApplication[],
+    description: string
+  ): Promise<void> => {
+    await writeJobRows(
+      "job_events",
+      jobsWithRows.flatMap((job) =>
+        withEventIds(job.events).map((event) => ({
+          id: event.id,
+          job_application_id: job.id,
           date: event.date,
           title: event.title,
           description: event.description || null,
-        }));
-
-        const { error: eventsError } = await supabase
-          .from("job_events")
-          .insert(events);
+        }))
+      ),
+      `${description} events`
+    );
+
+    await writeJobRows(
+      "job_application_notes",
+      jobsWithRows.flatMap((job) =>
+        (job.notes || []).map((note) => ({
+          id: note.id,
+          job_application_id: job.id,
+          note: note.content,
+          created_at: note.createdAt,
+        }))
+      ),
+      `${description} notes`
+    );
+
+    await writeJobRows(
+      "job_application_contacts",
+      jobsWithRows.flatMap((job) =>
+        (job.contacts || []).map((contact) => ({
+          ...prepareContactForDB(contact),
+          id: contact.id,
+          job_application_id: job.id,
+        }))
+      ),
+      `${description} contacts`
+    );
+  };
 
-        if (eventsError) {
-          console.error("Error adding job events:", eventsError);
-          // Continue despite event error
-        }
-      }
+  /**
+   * Write a mutation to the database
+   * Shared by live saves and by replaying the offline queue
+   *
+   * @param mutation The change to write
+   * @param userId The owner of the jobs being changed
+   */
+  const writeMutation = async (
+    mutation: JobMutation,
+    userId: string
+  ): Promise<void> => {
+    switch (mutation.type) {
+      case "addJob": {
+        const { job, initialStatus } = mutation;
+
+        // Skipped if an interrupted attempt already saved the job
+        await insertJobs(userId, [job]);
+        await writeNewJobRows([job], "job");
+
+        // Record the status the job starts in
+        await recordStatusChanges(userId, [
+          { jobId: job.id, change: initialStatus },
+        ]);
+        await addStageTasks(userId, [{ jobId: job.id, change: initialStatus }]);
+        return;
+      }
+
+      case "importJobs": {
+        const { jobs: importedJobs, initialStatuses } = mutation;
+
+        // Saved in batches; rows already written by an interrupted attempt are skipped
+        for (let i = 0; i < importedJobs.length; i += IMPORT_BATCH_SIZE) {
+          const batch = importedJobs.slice(i, i + IMPORT_BATCH_SIZE);
+
+          await insertJobs(userId, batch);
+          await writeNewJobRows(batch, "imported job");
+
+          // Jobs re-imported from an export bring their whole history.
+          // Stage tasks aren't added, as imported jobs are usually past them.
+          await recordStatusChanges(
+            userId,
+            batch.flatMap((job, index) =>
+              (job.statusHistory?.length
+                ? job.statusHistory
+                : [initialStatuses[i + index]]
+              ).map((change) => ({ jobId: job.id, change }))
+            )
+          );
+        }
+        return;
+      }
+
+      case "updateJobs": {
+        const { updates, statusChanges } = mutation;
+
+        for (const { ids, changes } of updates) {
+          await updateJobColumns(userId, ids, changes);
+        }
+
+        await recordStatusChanges(userId, statusChanges);
+        await addStageTasks(userId, statusChanges);
+        return;
+      }
+
+      case "updateJob": {
+        const { job, statusChange, newEvents } = mutation;
+
+        await saveJob(userId, job);
+
+        if (statusChange) {
+          await recordStatusChanges(userId, [
+            { jobId: job.id, change: statusChange },
+          ]);
+          await addStageTasks(userId, [
+            { jobId: job.id, change: statusChange },
+          ]);
+        }
+
+        await writeJobRows(
+          "job_events",
+          withEventIds(newEvents).map((event) => ({
+            id: event.id,
+            job_application_id: job.id,
+            date: event.date,
+            title: event.title,
+            description: event.description || null,
+          })),
+          "new job events"
+        );
+        return;
+      }
+
+      case "deleteJobs":
+        await trashJobs(userId, mutation.ids, mutation.deletedAt);
+        return;
+
+      case "restoreJobs":
+        await restoreTrashedJobs(userId, mutation.ids);
+        return;
+    }
+  };
+
+  /**
+   * Write a mutation now, or queue it if the network is unavailable.
+   * Once anything is queued, later mutations queue behind it so they
+   * reach the database in the order they were made.
+   *
+   * @returns "saved" if written, "queued" if stored for later
+   */
+  const saveMutation = async (
+    mutation: JobMutation
+  ): Promise<"saved" | "queued"> => {
+    if (!user?.id) {
+      throw new Error("Please log in to save changes");
+    }
+
+    if (
+      navigator.onLine &&
+      pendingCountRef.current === 0 &&
+      !syncInProgressRef.current
+    ) {
+      try {
+        await writeMutation(mutation, user.id);
+        return "saved";
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    await enqueueMutation(user.id, mutation);
+    setPendingCount(pendingCountRef.current + 1);
+    return "queued";
+  };
+
+  /**
+   * Whether a queued update was made against a version of the job that
+   * has since been changed (or removed) elsewhere
+   */
+  const hasConflict = async (
+    mutation: Extract<JobMutation, { type: "updateJob" }>,
+    userId: string
+  ): Promise<boolean> => {
+    const lastUpdated = await fetchJobLastUpdated(userId, mutation.job.id);
+    if (!lastUpdated) return true;
+
+    return (
+      new Date(lastUpdated).getTime() >
+      new Date(mutation.baseLastUpdated).getTime()
+    );
+  };
+
+  /**
+   * Replay queued mutations in order.
+   * Updates that conflict with a newer server version are discarded so
+   * the newer version is kept, and so are mutations the server rejects.
+   * Stops at the first network error, leaving the rest queued.
+   */
+  const syncPendingMutations = async (): Promise<void> => {
+    if (!user?.id || syncInProgressRef.current || !navigator.onLine) return;
+
+    syncInProgressRef.current = true;
+    let syncedCount = 0;
+    let rejectedCount = 0;
+    const conflicts: string[] = [];
+
+    try {
+      let offline = false;
+      while (!offline) {
+        const queued = await getQueuedMutations<JobMutation>(user.id);
+        if (queued.length === 0) break;
+
+        for (const { seq, mutation } of queued) {
+          try {
+            if (
+              mutation.type === "updateJob" &&
+              (await hasConflict(mutation, user.id))
+            ) {
+              conflicts.push(
+                `${mutation.job.position} at ${mutation.job.company}`
+              );
+            } else {
+              await writeMutation(mutation, user.id);
+              syncedCount++;
+            }
+          } catch (error) {
+            if (isNetworkError(error)) {
+              offline = true;
+              break;
+            }
+            console.error("Discarding offline change:", error);
+            rejectedCount++;
+          }
+
+          await removeMutation(seq);
+        }
+      }
+
+      setPendingCount(await countQueuedMutations(user.id));
+    } catch (error) {
+      console.error("Error syncing offline changes:", error);
+    } finally {
+      syncInProgressRef.current = false;
+    }
+
+    if (syncedCount + rejectedCount + conflicts.length === 0) return;
+
+    // Replace optimistic state with what the server now holds
+    await fetchJobs(false);
+
+    if (conflicts.length > 0 || rejectedCount > 0) {
+      toast({
+        title: "Some offline changes were not saved",
+        description:
+          conflicts.length > 0
+            ? `${conflicts.join(
+                ", "
+              )} changed elsewhere while you were offline, so the newer version was kept`
+            : `${rejectedCount} change(s) could not be saved`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Offline changes synced",
+        description: `${syncedCount} change(s) saved`,
+      });
+    }
+  };
+
+  // Latest sync for the listeners and timers that replay the queue, which
+  // outlive the render they were created in
+  const syncPendingMutationsRef = useRef(syncPendingMutations);
+  syncPendingMutationsRef.current = syncPendingMutations;
+
+  /**
+   * Tell the user a change was stored for later
+   */
+  const toastQueued = () => {
+    toast({
+      title: "Saved offline",
+      description: "Your change will sync when you're back online",
+    });
+  };
+
+  //=============================================================================
+  // REALTIME SYNC
+  //=============================================================================
+
+  /**
+   * Map job rows received over realtime, loading their events, notes,
+   * contacts and status history
+   */
+  const mapJobsWithDetails = async (
+    dbJobs: JobApplicationDB[]
+  ): Promise<JobApplication[]> => {
+    const jobIds = dbJobs.map((job) => job.id);
+
+    const [
+      eventsResult,
+      notesById,
+      contactsById,
+      referralsById,
+      rejectionsById,
+      historyById,
+    ] = await Promise.all([
+      supabase
+        .from("job_events")
+        .select("*")
+        .in("job_application_id", jobIds)
+        .order("date", { ascending: false }),
+      fetchNotesForJobs(jobIds),
+      fetchContactsForJobs(jobIds),
+      fetchReferralsForJobs(jobIds),
+      fetchRejectionsForJobs(jobIds),
+      fetchStatusHistoryForJobs(jobIds),
+    ]);
+
+    if (eventsResult.error) {
+      console.error("Error fetching job events:", eventsResult.error);
+      // Continue without events
+    }
+
+    const eventsById: Record<string, JobEvent[]> = {};
+    ((eventsResult.data || []) as JobEventDB[]).forEach((event) => {
+      if (!eventsById[event.job_application_id]) {
+        eventsById[event.job_application_id] = [];
+      }
+      eventsById[event.job_application_id].push(mapEventFromDB(event));
+    });
+
+    return dbJobs.map((dbJob) =>
+      mapJobFromDB(
+        dbJob,
+        eventsById[dbJob.id] || [],
+        notesById[dbJob.id] || [],
+        contactsById[dbJob.id] || [],
+        historyById[dbJob.id] || [],
+        referralsById[dbJob.id],
+        rejectionsById[dbJob.id]
+      )
+    );
+  };
+
+  /**
+   * Merge a change to a job_applications row into state.
+   * Changes older than the version already shown are ignored, so the
+   * echo of a save never overwrites a newer optimistic edit.
+   */
+  const handleJobRowChange = async (
+    payload: RealtimePostgresChangesPayload<JobApplicationDB>
+  ): Promise<void> => {
+    if (payload.eventType === "DELETE") {
+      const id = payload.old.id;
+      safeSetJobs((prev) => prev.filter((job) => job.id !== id));
+      setTrashedJobs((prev) => prev.filter((job) => job.id !== id));
+      return;
+    }
+
+    const row = payload.new;
+
+    // Moved to the trash elsewhere; the trash view reloads when opened
+    if (row.deleted_at) {
+      safeSetJobs((prev) => prev.filter((job) => job.id !== row.id));
+      return;
+    }
+
+    setTrashedJobs((prev) => prev.filter((job) => job.id !== row.id));
+
+    const existing = jobsRef.current.find((job) => job.id === row.id);
+    if (!existing) {
+      const [newJob] = await mapJobsWithDetails([row]);
+      safeSetJobs((prev) =>
+        prev.some((job) => job.id === newJob.id) ? prev : [newJob, ...prev]
+      );
+
+      // Jobs saved from the extension, imports or another device skip the
+      // add form's duplicate check, so flag likely duplicates here
+      const [duplicate] = findDuplicates(newJob, jobsRef.current);
+      if (payload.eventType === "INSERT" && duplicate) {
+        toast({
+          title: "Possible duplicate added",
+          description: `${newJob.position} at ${newJob.company} looks like one you already track`,
+          action: (
+            <ToastAction altText="Review duplicates" asChild>
+              <Link to="/duplicates">Review</Link>
+            </ToastAction>
+          ),
+        });
+      }
+
+      // Postings saved from the extension are captured by whichever tab
+      // sees them first; later captures of the same text are ignored
+      if (payload.eventType === "INSERT" && user?.id && row.external_url) {
+        capturePostingSnapshot(user.id, row.id, row.external_url).catch(
+          (error) => console.error("Error capturing job posting:", error)
+        );
+      }
+      return;
+    }
+
+    if (
+      new Date(row.last_updated).getTime() <
+      new Date(existing.lastUpdated).getTime()
+    ) {
+      return;
+    }
+
+    // A status change made elsewhere also added a history entry
+    const statusHistory =
+      row.status !== existing.status
+        ? (await fetchStatusHistoryForJobs([row.id]))[row.id] ||
+          existing.statusHistory
+        : existing.statusHistory;
+
+    safeSetJobs((prev) =>
+      prev.map((job) =>
+        job.id === row.id
+          ? mapJobFromDB(
+              row,
+              job.events,
+              job.notes,
+              job.contacts,
+              statusHistory,
+              job.referral,
+              job.rejection
+            )
+          : job
+      )
+    );
+  };
+
+  /**
+   * Merge a change to a job_events row into its job
+   */
+  const handleEventRowChange = (
+    payload: RealtimePostgresChangesPayload<JobEventDB>
+  ) => {
+    if (payload.eventType === "DELETE") {
+      // Deletes only carry the primary key, so look for the event in every job
+      const id = payload.old.id;
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          (job.events as JobEvent[] | undefined)?.some(
+            (event) => event.id === id
+          )
+            ? {
+                ...job,
+                events: (job.events as JobEvent[]).filter(
+                  (event) => event.id !== id
+                ),
+              }
+            : job
+        )
+      );
+      return;
+    }
+
+    const event = mapEventFromDB(payload.new);
+
+    safeSetJobs((prev) =>
+      prev.map((job) => {
+        if (job.id !== payload.new.job_application_id) return job;
+
+        const events = (job.events || []) as JobEvent[];
+        // Events saved from this tab have no ID until they come back from the database
+        const index = events.findIndex(
+          (existing) =>
+            existing.id === event.id ||
+            (!existing.id &&
+              existing.title === event.title &&
+              new Date(existing.date).getTime() ===
+                new Date(event.date).getTime())
+        );
+
+        return {
+          ...job,
+          events:
+            index === -1
+              ? [...events, event]
+              : events.map((existing, i) => (i === index ? event : existing)),
+        };
+      })
+    );
+  };
+
+  // Latest handlers for the realtime subscription, which outlives the
+  // render it was created in
+  const realtimeHandlersRef = useRef({
+    handleJobRowChange,
+    handleEventRowChange,
+    fetchJobs,
+  });
+  realtimeHandlersRef.current = {
+    handleJobRowChange,
+    handleEventRowChange,
+    fetchJobs,
+  };
+
+  /**
+   * Add a new job application
+   *
+   * @param job The job to add
+   */
+  const addJob = async (job: JobApplication): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to add jobs",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      // Generate a new ID if not provided
+      const now = new Date().toISOString();
+      const initialStatus: JobStatusChange = {
+        id: uuidv4(),
+        toStatus: job.status,
+        changedAt: now,
+        source: "manual",
+      };
+      const jobToAdd = {
+        ...job,
+        id: job.id || uuidv4(),
+        events: withEventIds(job.events),
+        lastUpdated: now,
+        statusHistory: [initialStatus],
+      };
+
+      // Optimistically update the UI
+      safeSetJobs((prev) => [jobToAdd, ...prev]);
+
+      const saved = await saveMutation({
+        type: "addJob",
+        job: jobToAdd,
+        initialStatus,
+      });
+
+      // Update cache
+      updateJobsCache();
+
+      if (saved === "queued") {
+        toastQueued();
+        return;
+      }
+
+      toast({
+        title: "Job added",
+        description: `${jobToAdd.position} at ${jobToAdd.company} added successfully`,
+      });
+
+      // The posting may be edited or taken down later, so keep a copy now
+      if (jobToAdd.jobUrl) {
+        capturePostingSnapshot(user.id, jobToAdd.id, jobToAdd.jobUrl).catch(
+          (error) => console.error("Error capturing job posting:", error)
+        );
+      }
+    } catch (error: any) {
+      console.error("Error adding job:", error);
+
+      // Revert optimistic update on error
+      safeSetJobs((prev) => prev.filter((prevJob) => prevJob.id !== job.id));
+
+      toast({
+        title: "Error adding job",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Add many job applications at once, e.g. rows imported from a spreadsheet.
+   * They are saved together, with one toast rather than one per job.
+   *
+   * @param jobsToImport The jobs to add
+   * @returns The number of jobs added, 0 if saving failed
+   */
+  const importJobs = async (
+    jobsToImport: JobApplication[]
+  ): Promise<number> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to import jobs",
+        variant: "destructive",
+      });
+      return 0;
+    }
+    if (jobsToImport.length === 0) return 0;
+
+    const now = new Date().toISOString();
+    const initialStatuses: JobStatusChange[] = [];
+    const importedJobs = jobsToImport.map((job) => {
+      // Keep the history of a job re-imported from an export
+      if (job.statusHistory?.length) {
+        initialStatuses.push(job.statusHistory[0]);
+        return {
+          ...job,
+          id: job.id || uuidv4(),
+          events: withEventIds(job.events),
+          lastUpdated: now,
+        };
+      }
+
+      // Time in the first stage counts from when the job was applied to
+      const initialStatus: JobStatusChange = {
+        id: uuidv4(),
+        toStatus: job.status,
+        changedAt: job.appliedDate
+          ? new Date(job.appliedDate).toISOString()
+          : now,
+        source: "import",
+      };
+      initialStatuses.push(initialStatus);
+      return {
+        ...job,
+        id: job.id || uuidv4(),
+        events: withEventIds(job.events),
+        lastUpdated: now,
+        statusHistory: [initialStatus],
+      };
+    });
+    const importedIds = new Set(importedJobs.map((job) => job.id));
+
+    // Optimistically update the UI
+    safeSetJobs((prev) => [...importedJobs, ...prev]);
+
+    try {
+      const saved = await saveMutation({
+        type: "importJobs",
+        jobs: importedJobs,
+        initialStatuses,
+      });
+
+      // Update cache
+      updateJobsCache();
+
+      if (saved === "queued") {
+        toastQueued();
+      } else {
+        toast({
+          title:
+            importedJobs.length === 1
+              ? "1 application imported"
+              : `${importedJobs.length} applications imported`,
+        });
+      }
+      return importedJobs.length;
+    } catch (error) {
+      console.error("Error importing jobs:", error);
+
+      // Revert optimistic update on error
+      safeSetJobs((prev) => prev.filter((job) => !importedIds.has(job.id)));
+
+      toast({
+        title: "Error importing jobs",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+      return 0;
+    }
+  };
+
+  /**
+   * Move a job application to the trash
+   *
+   * @param id The ID of the job to delete
+   */
+  const deleteJob = async (id: string): Promise<void> => {
+    await deleteJobs([id]);
+  };
+
+  /**
+   * Move job applications to the trash.
+   * Rows are only marked as deleted, so their events, notes and contacts
+   * survive until the trash is purged. The toast offers an undo.
+   *
+   * @param ids The IDs of the jobs to delete
+   */
+  const deleteJobs = async (ids: string[]): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to delete jobs",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Jobs may have been loaded since this render, e.g. to delete a whole status
+    const jobsToDelete = jobsRef.current.filter((job) => ids.includes(job.id));
+    if (jobsToDelete.length === 0) return;
+
+    const deletedAt = new Date().toISOString();
+    const deletedIds = jobsToDelete.map((job) => job.id);
+
+    // Optimistically move the jobs to the trash
+    jobsToDelete.forEach((job) => deletedSnapshotsRef.current.set(job.id, job));
+    safeSetJobs((prev) => prev.filter((job) => !deletedIds.includes(job.id)));
+    setTrashedJobs((prev) => [
+      ...jobsToDelete.map((job) => ({ ...job, deletedAt })),
+      ...prev.filter((job) => !deletedIds.includes(job.id)),
+    ]);
+
+    try {
+      await saveMutation({ type: "deleteJobs", ids: deletedIds, deletedAt });
+
+      // Update cache
+      updateJobsCache();
+
+      toast({
+        title:
+          jobsToDelete.length === 1
+            ? "Job moved to trash"
+            : `${jobsToDelete.length} jobs moved to trash`,
+        description:
+          jobsToDelete.length === 1
+            ? `${jobsToDelete[0].position} at ${jobsToDelete[0].company}`
+            : "You can restore them from the trash",
+        action: (
+          <ToastAction
+            altText="Undo delete"
+            onClick={() => restoreJobs(deletedIds)}
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      console.error("Error deleting job:", error);
+
+      // Revert optimistic update on error
+      safeSetJobs((prev) => [
+        ...jobsToDelete,
+        ...prev.filter((job) => !deletedIds.includes(job.id)),
+      ]);
+      setTrashedJobs((prev) =>
+        prev.filter((job) => !deletedIds.includes(job.id))
+      );
+
+      toast({
+        title: "Error deleting job",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Load the applications in the trash, first purging any that have
+   * been there longer than the retention period
+   */
+  const fetchTrash = useCallback(async (): Promise<void> => {
+    if (!user?.id) return;
+
+    try {
+      setTrashedJobs(await fetchTrashedJobs(user.id));
+    } catch (error) {
+      console.error("Error loading trash:", error);
+      toast({
+        title: "Error loading trash",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  }, [user?.id, toast]);
+
+  /**
+   * Restore job applications from the trash
+   * Jobs deleted in this session are restored from memory; others are
+   * reloaded with their events, notes and contacts.
+   *
+   * @param ids The IDs of the jobs to restore
+   */
+  const restoreJobs = async (ids: string[]): Promise<void> => {
+    if (!user?.id || ids.length === 0) return;
+
+    const snapshots = ids
+      .map((id) => deletedSnapshotsRef.current.get(id))
+      .filter(Boolean) as JobApplication[];
+
+    // Optimistically move the jobs back
+    setTrashedJobs((prev) => prev.filter((job) => !ids.includes(job.id)));
+    safeSetJobs((prev) => [
+      ...snapshots,
+      ...prev.filter((job) => !ids.includes(job.id)),
+    ]);
+
+    try {
+      const saved = await saveMutation({ type: "restoreJobs", ids });
+
+      ids.forEach((id) => deletedSnapshotsRef.current.delete(id));
+
+      // Jobs restored from a previous session reappear once synced
+      if (saved === "saved" && snapshots.length < ids.length) {
+        await fetchJobs(false);
+      }
+
+      toast({
+        title:
+          ids.length === 1 ? "Job restored" : `${ids.length} jobs restored`,
+      });
+    } catch (error) {
+      console.error("Error restoring job:", error);
+
+      // Revert optimistic update on error
+      safeSetJobs((prev) => prev.filter((job) => !ids.includes(job.id)));
+      await fetchTrash();
+
+      toast({
+        title: "Error restoring job",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Permanently delete job applications that are in the trash.
+   * Their events, notes and contacts are removed with them.
+   *
+   * @param ids The IDs of the trashed jobs to delete
+   */
+  const permanentlyDeleteJobs = async (ids: string[]): Promise<void> => {
+    if (!user?.id || ids.length === 0) return;
+
+    const previousTrash = trashedJobs;
+    setTrashedJobs((prev) => prev.filter((job) => !ids.includes(job.id)));
+
+    try {
+      await deleteTrashedJobs(user.id, ids);
+
+      ids.forEach((id) => deletedSnapshotsRef.current.delete(id));
+
+      toast({
+        title:
+          ids.length === 1
+            ? "Job permanently deleted"
+            : `${ids.length} jobs permanently deleted`,
+      });
+    } catch (error) {
+      console.error("Error permanently deleting job:", error);
+      setTrashedJobs(previousTrash);
+      toast({
+        title: "Error deleting job",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Merge a duplicate application into another.
+   * The duplicate's events, notes, contacts, status history, tags, linked
+   * emails, posting snapshots, documents, tasks, referral, offer and
+   * rejection move to the primary application, blank fields on the primary
+   * are filled in from the duplicate, and the duplicate is moved to the trash.
+   *
+   * @param primaryId The application to keep
+   * @param duplicateId The application to merge in and trash
+   */
+  const mergeJobs = async (
+    primaryId: string,
+    duplicateId: string
+  ): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to merge jobs",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (primaryId === duplicateId) return;
+
+    // Either may be one lists haven't loaded
+    let primary: JobApplication | undefined;
+    let duplicate: JobApplication | undefined;
+    try {
+      const pair = await fetchJobsById([primaryId, duplicateId]);
+      primary = pair.find((job) => job.id === primaryId);
+      duplicate = pair.find((job) => job.id === duplicateId);
+      if (!primary || !duplicate) {
+        throw new Error("Both applications must exist and not be in the trash");
+      }
+    } catch (error) {
+      console.error("Error loading jobs to merge:", error);
+      toast({
+        title: "Error merging jobs",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // A person on both applications is kept once, with the primary's details
+    const primaryEmails = new Set(
+      (primary.contacts || []).map((contact) => normalizeEmail(contact.email))
+    );
+    const movedContacts = (duplicate.contacts || []).filter(
+      (contact) => !primaryEmails.has(normalizeEmail(contact.email))
+    );
+    const appliedDates = [primary.appliedDate, duplicate.appliedDate]
+      .filter(Boolean)
+      .sort();
+
+    const merged: JobApplication = {
+      ...primary,
+      location: primary.location || duplicate.location,
+      companyWebsite: primary.companyWebsite || duplicate.companyWebsite,
+      jobUrl: primary.jobUrl || duplicate.jobUrl,
+      externalId: primary.externalId || duplicate.externalId,
+      externalPlatform: primary.externalPlatform || duplicate.externalPlatform,
+      salary: primary.salary || duplicate.salary,
+      salaryRange: primary.salaryRange || duplicate.salaryRange,
+      jobDescription: primary.jobDescription || duplicate.jobDescription,
+      appliedDate: appliedDates[0] || "",
+      lastUpdated: new Date().toISOString(),
+      events: [...(primary.events || []), ...(duplicate.events || [])],
+      notes: [...(primary.notes || []), ...(duplicate.notes || [])].sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      ),
+      contacts: [...(primary.contacts || []), ...movedContacts],
+      tagIds: Array.from(
+        new Set([...(primary.tagIds || []), ...(duplicate.tagIds || [])])
+      ),
+      statusHistory: [
+        ...(primary.statusHistory || []),
+        ...(duplicate.statusHistory || []),
+      ].sort(
+        (a, b) =>
+          new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime()
+      ),
+      referral: primary.referral || duplicate.referral,
+      rejection: primary.rejection || duplicate.rejection,
+    };
+    const deletedAt = new Date().toISOString();
+
+    // Optimistically update the UI
+    safeSetJobs((prev) =>
+      prev
+        .filter((job) => job.id !== duplicateId)
+        .map((job) => (job.id === primaryId ? merged : job))
+    );
+
+    try {
+      // Moves the related rows, saves the primary and trashes the duplicate
+      // together, so nothing is left half merged
+      await mergeDuplicateJob(
+        merged,
+        duplicateId,
+        movedContacts.map((contact) => contact.id),
+        deletedAt
+      );
+      setTrashedJobs((prev) => [
+        { ...duplicate, deletedAt },
+        ...prev.filter((job) => job.id !== duplicateId),
+      ]);
+
+      // Update cache
+      updateJobsCache();
+
+      toast({
+        title: "Jobs merged",
+        description: `${duplicate.position} at ${duplicate.company} was merged into ${primary.position} at ${primary.company}`,
+      });
+    } catch (error) {
+      console.error("Error merging jobs:", error);
+
+      // Undo the optimistic merge
+      await fetchJobs(false);
+
+      toast({
+        title: "Error merging jobs",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Save the fields a bulk edit changes for many jobs in one mutation.
+   * Jobs given the same values are written with a single request.
+   *
+   * @param previousJobs The jobs as they are now
+   * @param editedJobs The same jobs with their new values, in the same order
+   * @returns Whether the edit was saved or queued
+   */
+  const saveJobEdits = async (
+    previousJobs: JobApplication[],
+    editedJobs: JobApplication[]
+  ): Promise<"saved" | "queued"> => {
+    const now = new Date().toISOString();
+    const statusChanges: { jobId: string; change: JobStatusChange }[] = [];
+
+    const savedJobs = editedJobs.map((job, index) => {
+      const previous = previousJobs[index];
+      if (previous.status === job.status) return { ...job, lastUpdated: now };
+
+      const change: JobStatusChange = {
+        id: uuidv4(),
+        fromStatus: previous.status,
+        toStatus: job.status,
+        changedAt: now,
+        source: "manual",
+      };
+      statusChanges.push({ jobId: job.id, change });
+      return {
+        ...job,
+        lastUpdated: now,
+        statusHistory: [...(previous.statusHistory || []), change],
+      };
+    });
+
+    // Group jobs given the same values, e.g. every job moved to one stage
+    const updatesByValues = new Map<
+      string,
+      { ids: string[]; changes: Partial<JobApplicationDB> }
+    >();
+    savedJobs.forEach((job) => {
+      const changes: Partial<JobApplicationDB> = {
+        status: job.status,
+        tag_ids: job.tagIds || [],
+        follow_up_date: job.followUpDate || null,
+        archived_at: job.archivedAt || null,
+        last_updated: now,
+      };
+      const key = JSON.stringify(changes);
+      const update = updatesByValues.get(key) || { ids: [], changes };
+      update.ids.push(job.id);
+      updatesByValues.set(key, update);
+    });
+
+    // Optimistically update the UI
+    const savedById = new Map(savedJobs.map((job) => [job.id, job]));
+    const previousById = new Map(previousJobs.map((job) => [job.id, job]));
+    safeSetJobs((prev) => prev.map((job) => savedById.get(job.id) || job));
+
+    try {
+      const saved = await saveMutation({
+        type: "updateJobs",
+        updates: [...updatesByValues.values()],
+        statusChanges,
+      });
+
+      // Update cache
+      updateJobsCache();
+      return saved;
+    } catch (error) {
+      // Revert optimistic update on error
+      safeSetJobs((prev) => prev.map((job) => previousById.get(job.id) || job));
+      throw error;
+    }
+  };
+
+  /**
+   * Change the status, tags, follow-up date or archiving of many jobs at
+   * once. The change is saved as one operation, and the toast offers to
+   * undo all of it.
+   *
+   * @param ids The IDs of the jobs to change
+   * @param edit The change to make to each of them
+   * @param title What was changed, for the toast, see describeBulkEdit
+   */
+  const bulkEditJobs = async (
+    ids: string[],
+    edit: JobBulkEdit,
+    title: string
+  ): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to update jobs",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const previousJobs = jobsRef.current.filter(
+      (job) =>
+        ids.includes(job.id) &&
+        isChangedByBulkEdit(job, applyBulkEdit(job, edit, now))
+    );
+    if (previousJobs.length === 0) return;
+
+    const editedIds = previousJobs.map((job) => job.id);
+
+    /**
+     * Put the edited fields back as they were, keeping later edits
+     */
+    const undo = async () => {
+      const currentJobs = jobsRef.current.filter((job) =>
+        editedIds.includes(job.id)
+      );
+      const previousById = new Map(previousJobs.map((job) => [job.id, job]));
+
+      try {
+        await saveJobEdits(
+          currentJobs,
+          currentJobs.map((job) =>
+            revertBulkEdit(job, previousById.get(job.id))
+          )
+        );
+        toast({ title: "Changes undone" });
+      } catch (error) {
+        console.error("Error undoing bulk edit:", error);
+        toast({
+          title: "Error undoing changes",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      }
+    };
+
+    try {
+      const saved = await saveJobEdits(
+        previousJobs,
+        previousJobs.map((job) => applyBulkEdit(job, edit, now))
+      );
+
+      toast({
+        title,
+        description:
+          saved === "queued"
+            ? "Your change will sync when you're back online"
+            : undefined,
+        action: (
+          <ToastAction altText="Undo changes" onClick={undo}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      console.error("Error updating jobs:", error);
+      toast({
+        title: "Error updating jobs",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Update an existing job application
+   * A status change is appended to the job's status history
+   *
+   * @param updatedJob The job with updated data
+   * @param source What triggered the update, recorded with any status change
+   */
+  const updateJob = async (
+    updatedJob: JobApplication,
+    source: StatusChangeSource = "manual"
+  ): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to update jobs",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      // Get the current job data for comparison
+      const currentJob = jobs.find((job) => job.id === updatedJob.id);
+      if (!currentJob) {
+        throw new Error("Job not found");
+      }
+
+      // Apply last updated timestamp
+      const now = new Date().toISOString();
+      const statusChange: JobStatusChange | null =
+        currentJob.status !== updatedJob.status
+          ? {
+              id: uuidv4(),
+              fromStatus: currentJob.status,
+              toStatus: updatedJob.status,
+              changedAt: now,
+              source,
+            }
+          : null;
+
+      // Events from the database have IDs; new events added by the user
+      // are given theirs here
+      const events = withEventIds(updatedJob.events);
+      const existingEventIds = new Set(
+        (currentJob.events || []).map((event: JobEvent) => event.id)
+      );
+      const newEvents = events.filter(
+        (event) => !existingEventIds.has(event.id)
+      );
+
+      const jobWithTimestamp = {
+        ...updatedJob,
+        events,
+        lastUpdated: now,
+        statusHistory: statusChange
+          ? [...(currentJob.statusHistory || []), statusChange]
+          : currentJob.statusHistory,
+      };
+
+      // Optimistically update UI
+      safeSetJobs((prev) =>
+        prev.map((job) => (job.id === updatedJob.id ? jobWithTimestamp : job))
+      );
+
+      const saved = await saveMutation({
+        type: "updateJob",
+        job: jobWithTimestamp,
+        baseLastUpdated: currentJob.lastUpdated,
+        statusChange,
+        newEvents,
+      });
+
+      // Update cache
+      updateJobsCache();
+
+      if (saved === "queued") {
+        toastQueued();
+        return;
+      }
+
+      toast({
+        title: "Job updated",
+        description: `${updatedJob.position} at ${updatedJob.company} updated`,
+      });
+    } catch (error: any) {
+      console.error("Error updating job:", error);
+
+      // Revert optimistic update on error, whenever the jobs were last loaded
+      await fetchJobs(false);
+
+      toast({
+        title: "Error updating job",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Add a timestamped note to a job application
+   *
+   * @param jobId The ID of the job the note belongs to
+   * @param content The note text
+   */
+  const addNote = async (jobId: string, content: string): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to add notes",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const trimmed = content.trim();
+    if (!trimmed) return;
+
+    const now = new Date().toISOString();
+    const noteToAdd: JobNote = {
+      id: uuidv4(),
+      content: trimmed,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      // Optimistically update the UI
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId
+            ? { ...job, notes: [...(job.notes || []), noteToAdd] }
+            : job
+        )
+      );
+
+      const { error } = await supabase.from("job_application_notes").insert([
+        {
+          id: noteToAdd.id,
+          job_application_id: jobId,
+          note: noteToAdd.content,
+          created_at: noteToAdd.createdAt,
+        },
+      ]);
+
+      if (error) {
+        throw new Error(`Failed to add note: ${error.message}`);
+      }
+
+      // Update cache
+      updateJobsCache();
+    } catch (error) {
+      console.error("Error adding note:", error);
+
+      // Revert optimistic update on error
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId
+            ? {
+                ...job,
+                notes: (job.notes || []).filter(
+                  (note) => note.id !== noteToAdd.id
+                ),
+              }
+            : job
+        )
+      );
+
+      toast({
+        title: "Error adding note",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Edit the text of an existing note
+   *
+   * @param jobId The ID of the job the note belongs to
+   * @param noteId The ID of the note to edit
+   * @param content The new note text
+   */
+  const updateNote = async (
+    jobId: string,
+    noteId: string,
+    content: string
+  ): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to update notes",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const trimmed = content.trim();
+    if (!trimmed) return;
+
+    // Store a copy of the note before editing for recovery
+    const previousNote = jobs
+      .find((job) => job.id === jobId)
+      ?.notes?.find((note) => note.id === noteId);
+
+    try {
+      if (!previousNote) {
+        throw new Error("Note not found");
+      }
+
+      const updatedNote: JobNote = {
+        ...previousNote,
+        content: trimmed,
+        updatedAt: new Date().toISOString(),
+      };
+
+      // Optimistically update the UI
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId
+            ? {
+                ...job,
+                notes: (job.notes || []).map((note) =>
+                  note.id === noteId ? updatedNote : note
+                ),
+              }
+            : job
+        )
+      );
+
+      const { error } = await supabase
+        .from("job_application_notes")
+        .update({
+          note: updatedNote.content,
+          updated_at: updatedNote.updatedAt,
+        })
+        .eq("id", noteId)
+        .eq("job_application_id", jobId);
+
+      if (error) {
+        throw new Error(`Failed to update note: ${error.message}`);
+      }
+
+      // Update cache
+      updateJobsCache();
+    } catch (error) {
+      console.error("Error updating note:", error);
+
+      // Revert optimistic update on error
+      if (previousNote) {
+        safeSetJobs((prev) =>
+          prev.map((job) =>
+            job.id === jobId
+              ? {
+                  ...job,
+                  notes: (job.notes || []).map((note) =>
+                    note.id === noteId ? previousNote : note
+                  ),
+                }
+              : job
+          )
+        );
+      }
+
+      toast({
+        title: "Error updating note",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Delete a note from a job application
+   *
+   * @param jobId The ID of the job the note belongs to
+   * @param noteId The ID of the note to delete
+   */
+  const deleteNote = async (jobId: string, noteId: string): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to delete notes",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Store a copy of the notes before deletion for recovery
+    const previousNotes = jobs.find((job) => job.id === jobId)?.notes || [];
+
+    try {
+      // Optimistically update the UI
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId
+            ? {
+                ...job,
+                notes: (job.notes || []).filter((note) => note.id !== noteId),
+              }
+            : job
+        )
+      );
+
+      const { error } = await supabase
+        .from("job_application_notes")
+        .delete()
+        .eq("id", noteId)
+        .eq("job_application_id", jobId);
+
+      if (error) {
+        throw new Error(`Failed to delete note: ${error.message}`);
+      }
+
+      // Update cache
+      updateJobsCache();
+    } catch (error) {
+      console.error("Error deleting note:", error);
+
+      // Revert optimistic update on error
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId ? { ...job, notes: previousNotes } : job
+        )
+      );
+
+      toast({
+        title: "Error deleting note",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Add a contact to a job application
+   * If the job already has a contact with the same email, that contact is
+   * updated instead so each person only appears once per application
+   *
+   * @param jobId The ID of the job the contact belongs to
+   * @param contact The contact details
+   * @returns The ID of the contact, or undefined if it couldn't be saved
+   */
+  const addContact = async (
+    jobId: string,
+    contact: JobContactInput
+  ): Promise<string | undefined> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to add contacts",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const job = jobs.find((job) => job.id === jobId);
+    const duplicate = findContactByEmail(job?.contacts, contact.email);
+    if (duplicate) {
+      await updateContact(jobId, duplicate.id, {
+        ...contact,
+        lastContactedAt: contact.lastContactedAt || duplicate.lastContactedAt,
+      });
+      return duplicate.id;
+    }
+
+    const contactToAdd: JobContact = {
+      ...contact,
+      id: uuidv4(),
+      email: normalizeEmail(contact.email),
+    };
+
+    try {
+      // Optimistically update the UI
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId
+            ? { ...job, contacts: [...(job.contacts || []), contactToAdd] }
+            : job
+        )
+      );
+
+      const { error } = await supabase.from("job_application_contacts").insert([
+        {
+          ...prepareContactForDB(contactToAdd),
+          id: contactToAdd.id,
+          job_application_id: jobId,
+        },
+      ]);
+
+      if (error) {
+        throw new Error(`Failed to add contact: ${error.message}`);
+      }
+
+      // Update cache
+      updateJobsCache();
+
+      toast({
+        title: "Contact added",
+        description: `${contactToAdd.name} added to ${job?.company || "job"}`,
+      });
+      return contactToAdd.id;
+    } catch (error) {
+      console.error("Error adding contact:", error);
+
+      // Revert optimistic update on error
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId
+            ? {
+                ...job,
+                contacts: (job.contacts || []).filter(
+                  (c) => c.id !== contactToAdd.id
+                ),
+              }
+            : job
+        )
+      );
 
-      // Update cache
-      updateJobsCache();
+      toast({
+        title: "Error adding contact",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
 
+  /**
+   * Update an existing contact on a job application
+   *
+   * @param jobId The ID of the job the contact belongs to
+   * @param contactId The ID of the contact to update
+   * @param contact The new contact details
+   */
+  const updateContact = async (
+    jobId: string,
+    contactId: string,
+    contact: JobContactInput
+  ): Promise<void> => {
+    if (!user?.id) {
       toast({
-        title: "Job added",
-        description: `${jobToAdd.position} at ${jobToAdd.company} added successfully`,
+        title: "Authentication required",
+        description: "Please log in to update contacts",
+        variant: "destructive",
       });
-    } catch (error: any) {
-      console.error("Error adding job:", error);
+      return;
+    }
+
+    // Store a copy of the contacts before editing for recovery
+    const previousContacts =
+      jobs.find((job) => job.id === jobId)?.contacts || [];
+
+    const updatedContact: JobContact = {
+      ...contact,
+      id: contactId,
+      email: normalizeEmail(contact.email),
+    };
+
+    try {
+      // Optimistically update the UI
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId
+            ? {
+                ...job,
+                contacts: (job.contacts || []).map((c) =>
+                  c.id === contactId ? updatedContact : c
+                ),
+              }
+            : job
+        )
+      );
+
+      const { error } = await supabase
+        .from("job_application_contacts")
+        .update(prepareContactForDB(updatedContact))
+        .eq("id", contactId)
+        .eq("job_application_id", jobId);
+
+      if (error) {
+        throw new Error(`Failed to update contact: ${error.message}`);
+      }
+
+      // Update cache
+      updateJobsCache();
+    } catch (error) {
+      console.error("Error updating contact:", error);
 
       // Revert optimistic update on error
-      safeSetJobs((prev) => prev.filter((prevJob) => prevJob.id !== job.id));
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId ? { ...job, contacts: previousContacts } : job
+        )
+      );
 
       toast({
-        title: "Error adding job",
-        description: error.message || "Please try again",
+        title: "Error updating contact",
+        description:
+          error instanceof Error ? error.message : "Please try again",
         variant: "destructive",
       });
     }
   };
 
   /**
-   * Delete a job application
+   * Remove a contact from a job application
    *
-   * @param id The ID of the job to delete
+   * @param jobId The ID of the job the contact belongs to
+   * @param contactId The ID of the contact to delete
    */
-  const deleteJob = async (id: string): Promise<void> => {
+  const deleteContact = async (
+    jobId: string,
+    contactId: string
+  ): Promise<void> => {
     if (!user?.id) {
       toast({
         title: "Authentication required",
-        description: "Please log in to delete jobs",
+        description: "Please log in to delete contacts",
         variant: "destructive",
       });
       return;
     }
 
-    try {
-      // Store a copy of the job before deletion for recovery
-      const jobToDelete = jobs.find((job) => job.id === id);
-      if (!jobToDelete) {
-        throw new Error("Job not found");
-      }
+    // Store a copy of the contacts before deletion for recovery
+    const previousJob = jobs.find((job) => job.id === jobId);
+    const previousContacts = previousJob?.contacts || [];
 
-      // Optimistically update UI
-      safeSetJobs((prev) => prev.filter((job) => job.id !== id));
+    try {
+      // Optimistically update the UI. A referral by this contact keeps the
+      // referrer's name but is no longer linked to them
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId
+            ? {
+                ...job,
+                contacts: (job.contacts || []).filter(
+                  (c) => c.id !== contactId
+                ),
+                referral:
+                  job.referral?.contactId === contactId
+                    ? { ...job.referral, contactId: undefined }
+                    : job.referral,
+              }
+            : job
+        )
+      );
 
-      // Delete job from database
       const { error } = await supabase
-        .from("job_applications")
+        .from("job_application_contacts")
         .delete()
-        .eq("id", id)
-        .eq("user_id", user.id); // Ensure we only delete user's own jobs
+        .eq("id", contactId)
+        .eq("job_application_id", jobId);
 
       if (error) {
-        throw new Error(`Failed to delete job: ${error.message}`);
+        throw new Error(`Failed to delete contact: ${error.message}`);
       }
 
       // Update cache
       updateJobsCache();
+    } catch (error) {
+      console.error("Error deleting contact:", error);
+
+      // Revert optimistic update on error
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId
+            ? {
+                ...job,
+                contacts: previousContacts,
+                referral: previousJob?.referral,
+              }
+            : job
+        )
+      );
 
       toast({
-        title: "Job deleted",
-        description: `${jobToDelete.position} at ${jobToDelete.company} deleted`,
+        title: "Error deleting contact",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
       });
-    } catch (error: any) {
-      console.error("Error deleting job:", error);
+    }
+  };
 
-      // Revert optimistic update on error
-      if (jobs.find((job) => job.id === id) === undefined) {
-        await loadJobs(); // Reload jobs if the one we tried to delete is no longer in state
+  /**
+   * Record that a person was contacted
+   * Updates every contact record with this email across all applications
+   *
+   * @param email The contact's email address
+   * @param date When they were contacted (defaults to now)
+   */
+  const logContactTouch = async (
+    email: string,
+    date: string = new Date().toISOString()
+  ): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to update contacts",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Contacts are stored with normalised emails
+    const key = normalizeEmail(email);
+    if (!key) return;
+
+    // Store a copy of the jobs before editing for recovery
+    const previousJobs = jobs;
+
+    try {
+      // Optimistically update the UI
+      safeSetJobs((prev) =>
+        prev.map((job) => ({
+          ...job,
+          contacts: job.contacts?.map((contact) =>
+            normalizeEmail(contact.email) === key
+              ? { ...contact, lastContactedAt: date }
+              : contact
+          ),
+        }))
+      );
+
+      const { error } = await supabase
+        .from("job_application_contacts")
+        .update({ last_contacted_at: date })
+        .eq("email", key);
+
+      if (error) {
+        throw new Error(`Failed to update contact: ${error.message}`);
       }
 
+      // Update cache
+      updateJobsCache();
+    } catch (error) {
+      console.error("Error logging contact:", error);
+
+      // Revert optimistic update on error
+      safeSetJobs(previousJobs);
+
       toast({
-        title: "Error deleting job",
-        description: error.message || "Please try again",
+        title: "Error updating contact",
+        description:
+          error instanceof Error ? error.message : "Please try again",
         variant: "destructive",
       });
     }
   };
 
   /**
-   * Update an existing job application
+   * Record or update who referred the user for a job application
+   * An application has at most one referral, so this replaces any existing one
    *
-   * @param updatedJob The job with updated data
+   * @param jobId The ID of the job the referral is for
+   * @param referral The referral details
    */
-  const updateJob = async (updatedJob: JobApplication): Promise<void> => {
+  const saveReferral = async (
+    jobId: string,
+    referral: JobReferralInput
+  ): Promise<void> => {
     if (!user?.id) {
       toast({
         title: "Authentication required",
-        description: "Please log in to update jobs",
+        description: "Please log in to save referrals",
         variant: "destructive",
       });
       return;
     }
 
+    // Store a copy of the referral before editing for recovery
+    const previousReferral = jobs.find((job) => job.id === jobId)?.referral;
+    const savedReferral: JobReferral = {
+      ...referral,
+      id: previousReferral?.id || uuidv4(),
+    };
+
     try {
-      // Get the current job data for comparison
-      const currentJob = jobs.find((job) => job.id === updatedJob.id);
-      if (!currentJob) {
-        throw new Error("Job not found");
+      // Optimistically update the UI
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId ? { ...job, referral: savedReferral } : job
+        )
+      );
+
+      const { error } = await supabase.from("job_referrals").upsert(
+        {
+          ...prepareReferralForDB(savedReferral),
+          id: savedReferral.id,
+          job_application_id: jobId,
+        },
+        { onConflict: "job_application_id" }
+      );
+
+      if (error) {
+        throw new Error(`Failed to save referral: ${error.message}`);
       }
 
-      // Apply last updated timestamp
-      const jobWithTimestamp = {
-        ...updatedJob,
-        lastUpdated: new Date().toISOString(),
-      };
+      // Update cache
+      updateJobsCache();
+    } catch (error) {
+      console.error("Error saving referral:", error);
 
-      // Optimistically update UI
+      // Revert optimistic update on error
       safeSetJobs((prev) =>
-        prev.map((job) => (job.id === updatedJob.id ? jobWithTimestamp : job))
+        prev.map((job) =>
+          job.id === jobId ? { ...job, referral: previousReferral } : job
+        )
       );
 
-      // Prepare job data for database
-      const jobData = prepareJobForDB(jobWithTimestamp);
+      toast({
+        title: "Error saving referral",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Remove the referral from a job application
+   * The referrer stays on the application as a contact
+   *
+   * @param jobId The ID of the job to remove the referral from
+   */
+  const deleteReferral = async (jobId: string): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to delete referrals",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Store a copy of the referral before deletion for recovery
+    const previousReferral = jobs.find((job) => job.id === jobId)?.referral;
+    if (!previousReferral) return;
+
+    try {
+      // Optimistically update the UI
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId ? { ...job, referral: undefined } : job
+        )
+      );
 
-      // Update job in database
       const { error } = await supabase
-        .from("job_applications")
-        .update(jobData)
-        .eq("id", updatedJob.id)
-        .eq("user_id", user.id); // Ensure we only update user's own jobs
+        .from("job_referrals")
+        .delete()
+        .eq("job_application_id", jobId);
 
       if (error) {
-        throw new Error(`Failed to update job: ${error.message}`);
+        throw new Error(`Failed to delete referral: ${error.message}`);
       }
 
-      // Check for new events to add
-      if (updatedJob.events) {
-        // For events coming from the database, we may have IDs
-        // For new events added by the user, we won't have IDs yet
-        const existingEventIds = new Set(
-          currentJob.events
-            .filter((event) => "id" in event && event.id !== undefined)
-            .map((event) => (event as JobEvent & { id: string }).id)
-        );
+      // Update cache
+      updateJobsCache();
+    } catch (error) {
+      console.error("Error deleting referral:", error);
 
-        const newEvents = updatedJob.events.filter(
-          (event) =>
-            !("id" in event) ||
-            !existingEventIds.has((event as JobEvent & { id: string }).id)
-        );
+      // Revert optimistic update on error
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId ? { ...job, referral: previousReferral } : job
+        )
+      );
 
-        if (newEvents.length > 0) {
-          const eventsToInsert = newEvents.map((event) => ({
-            job_application_id: updatedJob.id,
-            date: event.date,
-            title: event.title,
-            description: event.description || null,
-          }));
+      toast({
+        title: "Error deleting referral",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Record or update why a job application ended
+   * An application has at most one rejection, so this replaces any existing one
+   *
+   * @param jobId The ID of the rejected job
+   * @param rejection The rejection details
+   */
+  const saveRejection = async (
+    jobId: string,
+    rejection: JobRejectionInput
+  ): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to save rejection details",
+        variant: "destructive",
+      });
+      return;
+    }
 
-          const { error: eventsError } = await supabase
-            .from("job_events")
-            .insert(eventsToInsert);
+    // Store a copy of the rejection before editing for recovery
+    const previousRejection = jobs.find((job) => job.id === jobId)?.rejection;
+    const savedRejection: JobRejection = {
+      ...rejection,
+      id: previousRejection?.id || uuidv4(),
+    };
 
-          if (eventsError) {
-            console.error("Error adding new job events:", eventsError);
-            // Continue despite event error
-          }
-        }
+    try {
+      // Optimistically update the UI
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId ? { ...job, rejection: savedRejection } : job
+        )
+      );
+
+      const { error } = await supabase.from("job_rejections").upsert(
+        {
+          ...prepareRejectionForDB(savedRejection),
+          id: savedRejection.id,
+          job_application_id: jobId,
+        },
+        { onConflict: "job_application_id" }
+      );
+
+      if (error) {
+        throw new Error(`Failed to save rejection: ${error.message}`);
       }
 
       // Update cache
       updateJobsCache();
+    } catch (error) {
+      console.error("Error saving rejection:", error);
+
+      // Revert optimistic update on error
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId ? { ...job, rejection: previousRejection } : job
+        )
+      );
 
       toast({
-        title: "Job updated",
-        description: `${updatedJob.position} at ${updatedJob.company} updated`,
+        title: "Error saving rejection",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
       });
-    } catch (error: any) {
-      console.error("Error updating job:", error);
+    }
+  };
+
+  /**
+   * Remove the rejection details from a job application
+   * The application's status is unchanged
+   *
+   * @param jobId The ID of the job to remove the rejection from
+   */
+  const deleteRejection = async (jobId: string): Promise<void> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to delete rejection details",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Store a copy of the rejection before deletion for recovery
+    const previousRejection = jobs.find((job) => job.id === jobId)?.rejection;
+    if (!previousRejection) return;
+
+    try {
+      // Optimistically update the UI
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId ? { ...job, rejection: undefined } : job
+        )
+      );
+
+      const { error } = await supabase
+        .from("job_rejections")
+        .delete()
+        .eq("job_application_id", jobId);
+
+      if (error) {
+        throw new Error(`Failed to delete rejection: ${error.message}`);
+      }
+
+      // Update cache
+      updateJobsCache();
+    } catch (error) {
+      console.error("Error deleting rejection:", error);
 
       // Revert optimistic update on error
-      await loadJobs();
+      safeSetJobs((prev) =>
+        prev.map((job) =>
+          job.id === jobId ? { ...job, rejection: previousRejection } : job
+        )
+      );
 
       toast({
-        title: "Error updating job",
-        description: error.message || "Please try again",
+        title: "Error deleting rejection",
+        description:
+          error instanceof Error ? error.message : "Please try again",
         variant: "destructive",
       });
     }
@@ -945,14 +3266,128 @@ function JobProvider({ children }: JobProviderProps) {
     loadJobs();
   }, [user?.id]);
 
+  // Store salary ranges for jobs saved before they were, once per user
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const backfillKey = `user_${user.id}_salary_backfill`;
+    if (localStorage.getItem(backfillKey)) return;
+
+    backfillSalaryRanges(user.id)
+      .then(() => localStorage.setItem(backfillKey, Date.now().toString()))
+      .catch((error) => console.error("Error backfilling salaries:", error));
+  }, [user?.id]);
+
+  // Replay changes made offline once the connection returns
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const sync = () => syncPendingMutationsRef.current();
+
+    countQueuedMutations(user.id)
+      .then(setPendingCount)
+      .catch(() => setPendingCount(0))
+      .finally(sync);
+
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [user?.id]);
+
+  // Merge changes made in other tabs, devices or the browser extension
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let hasSubscribed = false;
+
+    const channel = supabase
+      .channel(`job-sync:${user.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "job_applications",
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload: RealtimePostgresChangesPayload<JobApplicationDB>) => {
+          realtimeHandlersRef.current
+            .handleJobRowChange(payload)
+            .catch((error) =>
+              console.error("Error applying realtime job change:", error)
+            );
+        }
+      )
+      .on(
+        "postgres_changes",
+        // Row level security limits these to events on the user's own jobs
+        { event: "*", schema: "public", table: "job_events" },
+        (payload: RealtimePostgresChangesPayload<JobEventDB>) => {
+          realtimeHandlersRef.current.handleEventRowChange(payload);
+        }
+      )
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          // Catch up on anything missed while the connection was down
+          if (hasSubscribed) {
+            realtimeHandlersRef.current.fetchJobs(false);
+          }
+          hasSubscribed = true;
+        } else if (status === "CHANNEL_ERROR") {
+          console.error("Realtime job sync is unavailable");
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id]);
+
+  // The browser may report being online while requests still fail,
+  // so keep retrying while anything is queued
+  useEffect(() => {
+    if (!user?.id || pendingMutationCount === 0) return;
+
+    const retryTimer = setInterval(
+      () => syncPendingMutationsRef.current(),
+      30 * 1000
+    );
+    return () => clearInterval(retryTimer);
+  }, [user?.id, pendingMutationCount]);
+
   // Expose the context value
   const value: JobContextType = {
     jobs,
+    trashedJobs,
     isLoading,
+    jobsRevision,
+    reloadCount,
     addJob,
     deleteJob,
+    importJobs,
+    bulkEditJobs,
+    deleteJobs,
+    fetchTrash,
+    restoreJobs,
+    permanentlyDeleteJobs,
+    mergeJobs,
+    pendingMutationCount,
+    syncPendingMutations,
     updateJob,
     refreshJobs,
+    fetchJobPage,
+    fetchAllJobs,
+    fetchJobsById,
+    addNote,
+    updateNote,
+    deleteNote,
+    addContact,
+    updateContact,
+    deleteContact,
+    logContactTouch,
+    saveReferral,
+    deleteReferral,
+    saveRejection,
+    deleteRejection,
   };
 
   return <JobContext.Provider value={value}>{children}</JobContext.Provider>;
@@ -6,6 +6,7 @@ import React, {
   useEffect,
   useRef,
   useCallback,
+  useMemo,
 } from "react";
 import { useAuth } from "./AuthContext";
 import { supabase } from "@/lib/supabase";
@@ -25,15 +26,22 @@ const debugLog = (message: string, data?: any) => {
 
 export interface Notification {
   id: string;
-  type: "interview" | "application" | "jobMatch";
+  type: "interview" | "application" | "jobMatch" | "followUp";
   title: string;
   description: string;
   date: Date;
   read: boolean;
   user_id?: string;
   created_at?: string;
+  job_application_id?: string | null; // The application a follow-up reminder is about
+  snoozed_until?: string | null; // Hidden until then
+  reminder_key?: string | null; // Set on follow-up reminders
+  dismissed_at?: string | null; // Set on dismissed follow-up reminders
 }
 
+// Longest timeout the browser supports, about 24 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 interface NotificationContextType {
   notifications: Notification[];
   unreadCount: number;
@@ -42,6 +50,7 @@ interface NotificationContextType {
   toggleReadStatus: (id: string) => void;
   markAllAsRead: () => void;
   deleteNotification: (id: string) => void;
+  snoozeNotification: (id: string, until: Date) => void;
   loading: boolean;
 }
 
@@ -69,6 +78,8 @@ function NotificationProvider({ children }: NotificationProviderProps) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(true);
+  // Current time, moved on when a snooze ends
+  const [now, setNow] = useState(() => Date.now());
   const { user } = useAuth();
 
   // Create a simpler toast implementation to avoid circular dependency
@@ -276,16 +287,63 @@ function NotificationProvider({ children }: NotificationProviderProps) {
     }
   }, [user]);
 
-  // Delete a notification
+  // Delete a notification. Follow-up reminders are dismissed instead, so
+  // the scheduler doesn't send them again.
   const deleteNotification = useCallback(
     async (id: string) => {
       if (!user) return;
 
+      const notification = notifications.find((n) => n.id === id);
+
+      try {
+        // Delete from the database, or dismiss a reminder
+        const now = new Date().toISOString();
+        const { error } = notification?.reminder_key
+          ? await supabase
+              .from("notifications")
+              .update({ dismissed_at: now, read: true, updated_at: now })
+              .eq("id", id)
+              .eq("user_id", user.id)
+          : await supabase
+              .from("notifications")
+              .delete()
+              .eq("id", id)
+              .eq("user_id", user.id);
+
+        if (error) {
+          throw error;
+        }
+
+        // Update local state
+        if (isMountedRef.current) {
+          setNotifications((prev) =>
+            prev.filter((notification) => notification.id !== id)
+          );
+        }
+      } catch (error) {
+        logger.error("Error deleting notification:", error);
+        if (isMountedRef.current) {
+          showToast("Error", "Failed to delete notification", "destructive");
+        }
+      }
+    },
+    [user, notifications]
+  );
+
+  // Snooze a notification, hiding it until then. It keeps its read state,
+  // so a snoozed reminder isn't counted as handled.
+  const snoozeNotification = useCallback(
+    async (id: string, until: Date) => {
+      if (!user) return;
+
       try {
-        // Delete from the database
+        // Update in the database
         const { error } = await supabase
           .from("notifications")
-          .delete()
+          .update({
+            snoozed_until: until.toISOString(),
+            updated_at: new Date().toISOString(),
+          })
           .eq("id", id)
           .eq("user_id", user.id);
 
@@ -296,17 +354,21 @@ function NotificationProvider({ children }: NotificationProviderProps) {
         // Update local state
         if (isMountedRef.current) {
           setNotifications((prev) =>
-            prev.filter((notification) => notification.id !== id)
+            prev.map((notification) =>
+              notification.id === id
+                ? { ...notification, snoozed_until: until.toISOString() }
+                : notification
+            )
           );
         }
       } catch (error) {
-        logger.error("Error deleting notification:", error);
+        logger.error("Error snoozing notification:", error);
         if (isMountedRef.current) {
-          showToast("Error", "Failed to delete notification", "destructive");
+          showToast("Error", "Failed to snooze notification", "destructive");
         }
       }
     },
-    [user]
+    [user, showToast]
   );
 
   // Fetch notifications - separate effect with its own dependencies
@@ -348,6 +410,7 @@ function NotificationProvider({ children }: NotificationProviderProps) {
             .from("notifications")
             .select("*")
             .eq("user_id", user.id)
+            .is("dismissed_at", null)
             .order("created_at", { ascending: false });
 
           // If there's no error, process the data
@@ -451,10 +514,14 @@ function NotificationProvider({ children }: NotificationProviderProps) {
           CREATE TABLE IF NOT EXISTS public.notifications (
             id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
             user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-            type TEXT NOT NULL CHECK (type IN ('interview', 'application', 'jobMatch')),
+            type TEXT NOT NULL CHECK (type IN ('interview', 'application', 'jobMatch', 'followUp')),
             title TEXT NOT NULL,
             description TEXT NOT NULL,
             read BOOLEAN DEFAULT FALSE,
+            job_application_id UUID REFERENCES public.job_applications(id) ON DELETE CASCADE,
+            reminder_key TEXT,
+            snoozed_until TIMESTAMP WITH TIME ZONE,
+            dismissed_at TIMESTAMP WITH TIME ZONE,
             created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
             updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
           );
@@ -578,19 +645,24 @@ function NotificationProvider({ children }: NotificationProviderProps) {
                   const newNotification: Notification = {
                     ...payload.new,
                     id: payload.new.id,
-                    type: payload.new.type as
-                      | "interview"
-                      | "application"
-                      | "jobMatch",
+                    type: payload.new.type as Notification["type"],
                     title: payload.new.title,
                     description: payload.new.description,
                     date: new Date(payload.new.created_at),
                     read: payload.new.read,
                   };
 
-                  // Use the safe setter to prevent updates after unmount
+                  // Use the safe setter to prevent updates after unmount.
+                  // Skip notifications this tab already added itself.
                   if (isMountedRef.current) {
-                    setNotifications((prev) => [newNotification, ...prev]);
+                    setNotifications((prev) =>
+                      prev.some(
+                        (notification) =>
+                          notification.id === newNotification.id
+                      )
+                        ? prev
+                        : [newNotification, ...prev]
+                    );
                   }
                 } else if (payload.eventType === "UPDATE") {
                   if (isMountedRef.current) {
@@ -600,10 +672,7 @@ function NotificationProvider({ children }: NotificationProviderProps) {
                           ? {
                               ...notification,
                               ...payload.new,
-                              type: payload.new.type as
-                                | "interview"
-                                | "application"
-                                | "jobMatch",
+                              type: payload.new.type as Notification["type"],
                               date: new Date(payload.new.created_at),
                               read: payload.new.read,
                             }
@@ -677,8 +746,10 @@ function NotificationProvider({ children }: NotificationProviderProps) {
     return () => {
       cleanup();
       clearTimeout(loadingClearTimeout);
+      // Resubscribe with the new user's filter when the user changes
+      isSubscriptionSetupRef.current = false;
     };
-  }, []);
+  }, [user?.id]);
 
   // Handle user changes separately to avoid flashing
   useEffect(() => {
@@ -714,6 +785,7 @@ function NotificationProvider({ children }: NotificationProviderProps) {
             .from("notifications")
             .select("*")
             .eq("user_id", user.id)
+            .is("dismissed_at", null)
             .order("created_at", { ascending: false });
 
           if (!error && data && isMountedRef.current) {
@@ -740,16 +812,47 @@ function NotificationProvider({ children }: NotificationProviderProps) {
     }
   }, [user?.id]);
 
+  // Snoozed notifications are hidden until the snooze ends, and dismissed
+  // ones for good
+  const visibleNotifications = useMemo(
+    () =>
+      notifications.filter(
+        (notification) =>
+          !notification.dismissed_at &&
+          (!notification.snoozed_until ||
+            new Date(notification.snoozed_until).getTime() <= now)
+      ),
+    [notifications, now]
+  );
+
+  // Show snoozed notifications again when the first snooze ends
+  useEffect(() => {
+    const snoozeEnds = notifications
+      .map((notification) =>
+        notification.snoozed_until
+          ? new Date(notification.snoozed_until).getTime()
+          : 0
+      )
+      .filter((time) => time > now);
+    if (snoozeEnds.length === 0) return;
+
+    const timeout = setTimeout(
+      () => setNow(Date.now()),
+      Math.min(Math.min(...snoozeEnds) - now, MAX_TIMEOUT_MS)
+    );
+    return () => clearTimeout(timeout);
+  }, [notifications, now]);
+
   // Update unread count whenever notifications change
   useEffect(() => {
-    const count = notifications.filter(
+    const count = visibleNotifications.filter(
       (notification) => !notification.read
     ).length;
 
     if (isMountedRef.current) {
       setUnreadCount(count);
     }
-  }, [notifications]);
+  }, [visibleNotifications]);
 
   // Create an initial loading flag that shows only on first render
   const initialLoadRef = useRef(true);
@@ -770,13 +873,14 @@ function NotificationProvider({ children }: NotificationProviderProps) {
 
   // Create a wrapped version of the provider to handle loading edge cases
   const value = {
-    notifications,
+    notifications: visibleNotifications,
     unreadCount,
     markAsRead,
     markAsUnread,
     toggleReadStatus,
     markAllAsRead,
     deleteNotification,
+    snoozeNotification,
     loading,
   };
 
@@ -0,0 +1,477 @@
+/**
+ * Pipeline Context Provider
+ *
+ * Provides the signed-in user's pipeline stages (the columns of the board
+ * and the values a job application's status can take).
+ * It handles:
+ * - Loading the user's stages from the database, falling back to the defaults
+ * - Adding, renaming, recolouring, reordering and deleting stages
+ * - Moving applications out of a stage before it is deleted
+ * - Resolving a status key to its label, colour and terminal outcome
+ *
+ * Users without saved stages see DEFAULT_PIPELINE_STAGES; the full set is
+ * written to the database the first time they customise it.
+ */
+
+//=============================================================================
+// IMPORTS
+//=============================================================================
+
+import {
+  createContext,
+  useContext,
+  useState,
+  ReactNode,
+  useEffect,
+  useCallback,
+} from "react";
+import {
+  DEFAULT_PIPELINE_STAGES,
+  PipelineStage,
+  StageOutcome,
+} from "@/data/mockJobs";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { useJobs } from "@/contexts/JobContext";
+import { fetchJobColumns, moveJobsToStage } from "@/services/jobRepository";
+import { useToast } from "@/hooks/use-toast";
+import { v4 as uuidv4 } from "uuid";
+import { createStageKey, findStage, sortStages } from "@/utils/pipelineUtils";
+
+//=============================================================================
+// TYPE DEFINITIONS
+//=============================================================================
+
+/**
+ * Database representation of a pipeline stage
+ * This matches the schema in Supabase
+ */
+interface PipelineStageDB {
+  id: string;
+  user_id: string;
+  key: string;
+  label: string;
+  color: string;
+  position: number;
+  outcome: StageOutcome;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Stage fields editable by the user
+ */
+export type PipelineStageInput = Pick<
+  PipelineStage,
+  "label" | "color" | "outcome"
+>;
+
+/**
+ * PipelineContext interface defining the contract for consumers
+ */
+interface PipelineContextType {
+  stages: PipelineStage[];
+  isLoading: boolean;
+  getStage: (key: string) => PipelineStage;
+  getStageLabel: (key: string) => string;
+  getStageColor: (key: string) => string;
+  getOutcome: (key: string) => StageOutcome;
+  addStage: (stage: PipelineStageInput) => Promise<void>;
+  updateStage: (
+    key: string,
+    stage: Partial<PipelineStageInput>
+  ) => Promise<void>;
+  deleteStage: (key: string, reassignTo: string) => Promise<void>;
+  reorderStages: (orderedKeys: string[]) => Promise<void>;
+  resetStages: () => Promise<void>;
+}
+
+//=============================================================================
+// CONTEXT CREATION
+//=============================================================================
+
+const PipelineContext = createContext<PipelineContextType | undefined>(
+  undefined
+);
+
+/**
+ * Custom hook to use the pipeline context
+ * @returns PipelineContextType - The pipeline context value
+ * @throws Error if used outside of PipelineProvider
+ */
+export function usePipeline() {
+  const context = useContext(PipelineContext);
+  if (context === undefined) {
+    throw new Error("usePipeline must be used within a PipelineProvider");
+  }
+  return context;
+}
+
+interface PipelineProviderProps {
+  children: ReactNode;
+}
+
+//=============================================================================
+// DATA TRANSFORMATION FUNCTIONS
+//=============================================================================
+
+/**
+ * Convert a database stage row to the frontend shape
+ */
+const mapStageFromDB = (dbStage: PipelineStageDB): PipelineStage => ({
+  id: dbStage.id,
+  key: dbStage.key,
+  label: dbStage.label,
+  color: dbStage.color,
+  position: dbStage.position,
+  outcome: dbStage.outcome,
+});
+
+/**
+ * Convert stages to database rows, renumbering positions to match order
+ */
+const prepareStagesForDB = (
+  stages: PipelineStage[],
+  userId: string
+): PipelineStageDB[] =>
+  stages.map((stage, index) => ({
+    // Default stages carry placeholder ids until they are first saved
+    id: stage.id.startsWith("default-") ? uuidv4() : stage.id,
+    user_id: userId,
+    key: stage.key,
+    label: stage.label,
+    color: stage.color,
+    position: index,
+    outcome: stage.outcome,
+  }));
+
+//=============================================================================
+// PIPELINE PROVIDER COMPONENT
+//=============================================================================
+
+/**
+ * Pipeline Provider Component
+ *
+ * Must be rendered inside JobProvider, as deleting a stage reassigns the
+ * applications that were in it.
+ */
+export default function PipelineProvider({ children }: PipelineProviderProps) {
+  const [stages, setStages] = useState<PipelineStage[]>(
+    DEFAULT_PIPELINE_STAGES
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const { refreshJobs } = useJobs();
+  const { toast } = useToast();
+
+  //=============================================================================
+  // DATA FETCHING
+  //=============================================================================
+
+  useEffect(() => {
+    if (!user?.id) {
+      setStages(DEFAULT_PIPELINE_STAGES);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadStages = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from("pipeline_stages")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("position", { ascending: true });
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        setStages(
+          data && data.length > 0
+            ? sortStages((data as PipelineStageDB[]).map(mapStageFromDB))
+            : DEFAULT_PIPELINE_STAGES
+        );
+      } catch (error) {
+        console.error("Error loading pipeline stages:", error);
+        if (!cancelled) setStages(DEFAULT_PIPELINE_STAGES);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadStages();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  //=============================================================================
+  // STAGE LOOKUPS
+  //=============================================================================
+
+  const getStage = useCallback(
+    (key: string) => findStage(stages, key),
+    [stages]
+  );
+
+  const getStageLabel = useCallback(
+    (key: string) => findStage(stages, key).label,
+    [stages]
+  );
+
+  const getStageColor = useCallback(
+    (key: string) => findStage(stages, key).color,
+    [stages]
+  );
+
+  const getOutcome = useCallback(
+    (key: string) => findStage(stages, key).outcome,
+    [stages]
+  );
+
+  //=============================================================================
+  // STAGE MANAGEMENT
+  //=============================================================================
+
+  /**
+   * Optimistically replace the stage list and persist it.
+   * Rows whose keys are no longer present are removed; on failure the
+   * previous list is restored.
+   *
+   * @param nextStages The complete, ordered list of stages to save
+   * @param failureTitle Toast title shown if saving fails
+   */
+  const saveStages = async (
+    nextStages: PipelineStage[],
+    failureTitle: string
+  ): Promise<boolean> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to customise your pipeline",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const previousStages = stages;
+    const rows = prepareStagesForDB(nextStages, user.id);
+    setStages(rows.map(mapStageFromDB));
+
+    try {
+      const { error: upsertError } = await supabase
+        .from("pipeline_stages")
+        .upsert(rows, { onConflict: "user_id,key" });
+
+      if (upsertError) {
+        throw new Error(`Failed to save stages: ${upsertError.message}`);
+      }
+
+      const removedKeys = previousStages
+        .map((stage) => stage.key)
+        .filter((key) => !nextStages.some((stage) => stage.key === key));
+
+      if (removedKeys.length > 0) {
+        const { error: deleteError } = await supabase
+          .from("pipeline_stages")
+          .delete()
+          .eq("user_id", user.id)
+          .in("key", removedKeys);
+
+        if (deleteError) {
+          throw new Error(`Failed to remove stages: ${deleteError.message}`);
+        }
+      }
+
+      return true;
+    } catch (error) {
+      console.error("Error saving pipeline stages:", error);
+      setStages(previousStages);
+      toast({
+        title: failureTitle,
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Add a stage to the end of the pipeline
+   *
+   * @param stage Label, colour and outcome for the new stage
+   */
+  const addStage = async (stage: PipelineStageInput): Promise<void> => {
+    const newStage: PipelineStage = {
+      id: uuidv4(),
+      key: createStageKey(stage.label, stages),
+      label: stage.label.trim(),
+      color: stage.color,
+      outcome: stage.outcome,
+      position: stages.length,
+    };
+
+    await saveStages([...stages, newStage], "Error adding stage");
+  };
+
+  /**
+   * Rename, recolour or remap a stage. The key is kept so applications
+   * already in the stage are unaffected.
+   *
+   * @param key Key of the stage to update
+   * @param stage Fields to change
+   */
+  const updateStage = async (
+    key: string,
+    stage: Partial<PipelineStageInput>
+  ): Promise<void> => {
+    const nextStages = stages.map((s) =>
+      s.key === key
+        ? { ...s, ...stage, label: (stage.label ?? s.label).trim() }
+        : s
+    );
+
+    await saveStages(nextStages, "Error updating stage");
+  };
+
+  /**
+   * Delete a stage, first moving its applications to another stage
+   *
+   * @param key Key of the stage to delete
+   * @param reassignTo Key of the stage that receives its applications
+   */
+  const deleteStage = async (
+    key: string,
+    reassignTo: string
+  ): Promise<void> => {
+    if (stages.length <= 1) {
+      toast({
+        title: "Cannot delete stage",
+        description: "Your pipeline needs at least one stage",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (key === reassignTo || !stages.some((s) => s.key === reassignTo)) {
+      toast({
+        title: "Cannot delete stage",
+        description: "Choose another stage to move its applications to",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (user?.id) {
+      try {
+        const movedCount = await moveJobsToStage(user.id, key, reassignTo);
+        if (movedCount > 0) await refreshJobs();
+      } catch (error) {
+        console.error("Error moving applications:", error);
+        toast({
+          title: "Error deleting stage",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    await saveStages(
+      stages.filter((s) => s.key !== key),
+      "Error deleting stage"
+    );
+  };
+
+  /**
+   * Reorder the pipeline
+   *
+   * @param orderedKeys Every stage key in the desired order
+   */
+  const reorderStages = async (orderedKeys: string[]): Promise<void> => {
+    const nextStages = orderedKeys
+      .map((key) => stages.find((s) => s.key === key))
+      .filter(Boolean) as PipelineStage[];
+
+    if (nextStages.length !== stages.length) return;
+
+    await saveStages(nextStages, "Error reordering stages");
+  };
+
+  /**
+   * Restore the default stages. Custom stages that still contain
+   * applications are kept so no job is left without a column.
+   */
+  const resetStages = async (): Promise<void> => {
+    // Check every application, not just the ones lists have loaded
+    let usedKeys: Set<string>;
+    try {
+      usedKeys = new Set(
+        user?.id
+          ? (await fetchJobColumns(user.id, ["status"])).map(
+              (row) => row.status
+            )
+          : []
+      );
+    } catch (error) {
+      console.error("Error checking stages in use:", error);
+      toast({
+        title: "Error resetting stages",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const inUse = stages.filter(
+      (stage) =>
+        !DEFAULT_PIPELINE_STAGES.some((d) => d.key === stage.key) &&
+        usedKeys.has(stage.key)
+    );
+
+    const saved = await saveStages(
+      [...DEFAULT_PIPELINE_STAGES, ...inUse],
+      "Error resetting stages"
+    );
+
+    if (saved && inUse.length > 0) {
+      toast({
+        title: "Some stages were kept",
+        description: `${inUse
+          .map((s) => s.label)
+          .join(", ")} still contain applications`,
+      });
+    }
+  };
+
+  //=============================================================================
+  // CONTEXT VALUE
+  //=============================================================================
+
+  const value: PipelineContextType = {
+    stages,
+    isLoading,
+    getStage,
+    getStageLabel,
+    getStageColor,
+    getOutcome,
+    addStage,
+    updateStage,
+    deleteStage,
+    reorderStages,
+    resetStages,
+  };
+
+  return (
+    <PipelineContext.Provider value={value}>
+      {children}
+    </PipelineContext.Provider>
+  );
+}
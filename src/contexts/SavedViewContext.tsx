@@ -0,0 +1,421 @@
+/**
+ * Saved View Context Provider
+ *
+ * Provides the signed-in user's saved views of the Applications page: named
+ * combinations of tab, sort, filters and visible card fields.
+ * It handles:
+ * - Loading the user's views from the database
+ * - Creating, updating, renaming and deleting views
+ * - Pinning views to the sidebar and choosing the default view
+ *
+ * The view currently on screen lives in the Applications page URL, so it can
+ * be bookmarked or shared; saved views are presets for that URL.
+ */
+
+//=============================================================================
+// IMPORTS
+//=============================================================================
+
+import {
+  createContext,
+  useContext,
+  useState,
+  ReactNode,
+  useEffect,
+  useCallback,
+} from "react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { v4 as uuidv4 } from "uuid";
+import {
+  ApplicationViewState,
+  SavedView,
+  normalizeViewState,
+} from "@/utils/savedViewUtils";
+
+//=============================================================================
+// TYPE DEFINITIONS
+//=============================================================================
+
+/**
+ * Database representation of a saved view
+ * This matches the schema in Supabase
+ */
+interface SavedViewDB {
+  id: string;
+  user_id: string;
+  name: string;
+  view_state: Partial<ApplicationViewState>;
+  is_default: boolean;
+  is_pinned: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Saved view fields editable by the user
+ */
+export type SavedViewInput = Pick<SavedView, "name" | "state" | "isPinned">;
+
+/**
+ * SavedViewContext interface defining the contract for consumers
+ */
+interface SavedViewContextType {
+  views: SavedView[];
+  defaultView: SavedView | undefined;
+  pinnedViews: SavedView[];
+  isLoading: boolean;
+  getView: (id: string) => SavedView | undefined;
+  createView: (
+    view: SavedViewInput,
+    makeDefault?: boolean
+  ) => Promise<SavedView | null>;
+  updateView: (id: string, view: Partial<SavedViewInput>) => Promise<void>;
+  setDefaultView: (id: string | null) => Promise<void>;
+  deleteView: (id: string) => Promise<void>;
+}
+
+//=============================================================================
+// CONTEXT CREATION
+//=============================================================================
+
+const SavedViewContext = createContext<SavedViewContextType | undefined>(
+  undefined
+);
+
+/**
+ * Custom hook to use the saved view context
+ * @returns SavedViewContextType - The saved view context value
+ * @throws Error if used outside of SavedViewProvider
+ */
+export function useSavedViews() {
+  const context = useContext(SavedViewContext);
+  if (context === undefined) {
+    throw new Error("useSavedViews must be used within a SavedViewProvider");
+  }
+  return context;
+}
+
+interface SavedViewProviderProps {
+  children: ReactNode;
+}
+
+//=============================================================================
+// DATA TRANSFORMATION FUNCTIONS
+//=============================================================================
+
+/**
+ * Convert a database view row to the frontend shape
+ */
+const mapViewFromDB = (dbView: SavedViewDB): SavedView => ({
+  id: dbView.id,
+  name: dbView.name,
+  state: normalizeViewState(dbView.view_state),
+  isDefault: dbView.is_default,
+  isPinned: dbView.is_pinned,
+});
+
+/**
+ * Return views in alphabetical order
+ */
+const sortViews = (views: SavedView[]): SavedView[] =>
+  [...views].sort((a, b) => a.name.localeCompare(b.name));
+
+//=============================================================================
+// SAVED VIEW PROVIDER COMPONENT
+//=============================================================================
+
+/**
+ * Saved View Provider Component
+ */
+export default function SavedViewProvider({
+  children,
+}: SavedViewProviderProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  //=============================================================================
+  // DATA FETCHING
+  //=============================================================================
+
+  useEffect(() => {
+    if (!user?.id) {
+      setViews([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadViews = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from("saved_views")
+          .select("*")
+          .eq("user_id", user.id);
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        setViews(sortViews(((data || []) as SavedViewDB[]).map(mapViewFromDB)));
+      } catch (error) {
+        console.error("Error loading saved views:", error);
+        if (!cancelled) setViews([]);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadViews();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  //=============================================================================
+  // VIEW LOOKUPS
+  //=============================================================================
+
+  const getView = useCallback(
+    (id: string) => views.find((view) => view.id === id),
+    [views]
+  );
+
+  const defaultView = views.find((view) => view.isDefault);
+  const pinnedViews = views.filter((view) => view.isPinned);
+
+  //=============================================================================
+  // VIEW MANAGEMENT
+  //=============================================================================
+
+  /**
+   * Show an error toast for a failed view change
+   */
+  const toastError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  /**
+   * Check a view name is present and not used by another of the user's views
+   */
+  const validateName = (name: string, id?: string): boolean => {
+    if (!name) return false;
+
+    const duplicate = views.find(
+      (view) => view.id !== id && view.name.toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      toast({
+        title: "View already exists",
+        description: `You already have a view called "${duplicate.name}"`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Save the current state of the Applications page as a named view
+   *
+   * @param view Name, state and whether to pin it to the sidebar
+   * @param makeDefault Open this view when visiting Applications
+   * @returns The saved view, or null if it could not be saved
+   */
+  const createView = async (
+    view: SavedViewInput,
+    makeDefault = false
+  ): Promise<SavedView | null> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to save views",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    const name = view.name.trim();
+    if (!validateName(name)) return null;
+
+    const newView: SavedView = {
+      id: uuidv4(),
+      name,
+      state: view.state,
+      isPinned: view.isPinned,
+      isDefault: false,
+    };
+    setViews((prev) => sortViews([...prev, newView]));
+
+    try {
+      const { error } = await supabase.from("saved_views").insert({
+        id: newView.id,
+        user_id: user.id,
+        name: newView.name,
+        view_state: newView.state,
+        is_pinned: newView.isPinned,
+        is_default: false,
+      });
+
+      if (error) {
+        throw new Error(`Failed to save view: ${error.message}`);
+      }
+    } catch (error) {
+      console.error("Error saving view:", error);
+      setViews((prev) => prev.filter((v) => v.id !== newView.id));
+      toastError("Error saving view", error);
+      return null;
+    }
+
+    if (makeDefault) {
+      await setDefaultView(newView.id);
+    }
+
+    return newView;
+  };
+
+  /**
+   * Rename a view, replace its saved state or pin it to the sidebar
+   *
+   * @param id ID of the view to update
+   * @param view Fields to change
+   */
+  const updateView = async (
+    id: string,
+    view: Partial<SavedViewInput>
+  ): Promise<void> => {
+    const current = views.find((v) => v.id === id);
+    if (!current || !user?.id) return;
+
+    const name = (view.name ?? current.name).trim();
+    if (!validateName(name, id)) return;
+
+    const previousViews = views;
+    const updated: SavedView = { ...current, ...view, name };
+    setViews((prev) => sortViews(prev.map((v) => (v.id === id ? updated : v))));
+
+    try {
+      const { error } = await supabase
+        .from("saved_views")
+        .update({
+          name: updated.name,
+          view_state: updated.state,
+          is_pinned: updated.isPinned,
+        })
+        .eq("id", id)
+        .eq("user_id", user.id);
+
+      if (error) {
+        throw new Error(`Failed to update view: ${error.message}`);
+      }
+    } catch (error) {
+      console.error("Error updating view:", error);
+      setViews(previousViews);
+      toastError("Error updating view", error);
+    }
+  };
+
+  /**
+   * Choose the view opened when visiting Applications without one in the URL
+   *
+   * @param id ID of the new default view, or null for no default
+   */
+  const setDefaultView = async (id: string | null): Promise<void> => {
+    if (!user?.id) return;
+
+    // Revert by ID rather than restoring the old list, as this also runs
+    // straight after createView adds a view
+    const previousDefaultId = views.find((v) => v.isDefault)?.id ?? null;
+    setViews((prev) => prev.map((v) => ({ ...v, isDefault: v.id === id })));
+
+    try {
+      // Clear the old default first; only one view may be the default
+      const { error: clearError } = await supabase
+        .from("saved_views")
+        .update({ is_default: false })
+        .eq("user_id", user.id)
+        .eq("is_default", true);
+
+      if (clearError) {
+        throw new Error(`Failed to update default view: ${clearError.message}`);
+      }
+
+      if (id) {
+        const { error } = await supabase
+          .from("saved_views")
+          .update({ is_default: true })
+          .eq("id", id)
+          .eq("user_id", user.id);
+
+        if (error) {
+          throw new Error(`Failed to update default view: ${error.message}`);
+        }
+      }
+    } catch (error) {
+      console.error("Error setting default view:", error);
+      setViews((prev) =>
+        prev.map((v) => ({ ...v, isDefault: v.id === previousDefaultId }))
+      );
+      toastError("Error setting default view", error);
+    }
+  };
+
+  /**
+   * Delete a saved view
+   *
+   * @param id ID of the view to delete
+   */
+  const deleteView = async (id: string): Promise<void> => {
+    if (!user?.id) return;
+
+    const previousViews = views;
+    setViews((prev) => prev.filter((v) => v.id !== id));
+
+    try {
+      const { error } = await supabase
+        .from("saved_views")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", user.id);
+
+      if (error) {
+        throw new Error(`Failed to delete view: ${error.message}`);
+      }
+    } catch (error) {
+      console.error("Error deleting view:", error);
+      setViews(previousViews);
+      toastError("Error deleting view", error);
+    }
+  };
+
+  //=============================================================================
+  // CONTEXT VALUE
+  //=============================================================================
+
+  const value: SavedViewContextType = {
+    views,
+    defaultView,
+    pinnedViews,
+    isLoading,
+    getView,
+    createView,
+    updateView,
+    setDefaultView,
+    deleteView,
+  };
+
+  return (
+    <SavedViewContext.Provider value={value}>
+      {children}
+    </SavedViewContext.Provider>
+  );
+}
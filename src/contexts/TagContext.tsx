@@ -0,0 +1,338 @@
+/**
+ * Tag Context Provider
+ *
+ * Provides the signed-in user's tags, the coloured labels used to group job
+ * applications beyond their status (e.g. "dream company" or "referral").
+ * It handles:
+ * - Loading the user's tags from the database
+ * - Creating, renaming, recolouring and deleting tags
+ * - Resolving a job's tag IDs to the tags themselves
+ *
+ * Which tags a job has is stored on the job itself (tagIds) and saved
+ * through JobContext. Deleting a tag removes it from every job in the
+ * database; IDs of deleted tags that are still held locally are ignored.
+ */
+
+//=============================================================================
+// IMPORTS
+//=============================================================================
+
+import {
+  createContext,
+  useContext,
+  useState,
+  ReactNode,
+  useEffect,
+  useCallback,
+} from "react";
+import { JobApplication, JobTag } from "@/data/mockJobs";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { v4 as uuidv4 } from "uuid";
+import {
+  findTagByName,
+  getJobTags,
+  getNextTagColor,
+  sortTags,
+} from "@/utils/tagUtils";
+
+//=============================================================================
+// TYPE DEFINITIONS
+//=============================================================================
+
+/**
+ * Database representation of a tag
+ * This matches the schema in Supabase
+ */
+interface JobTagDB {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Tag fields editable by the user
+ */
+export type JobTagInput = Pick<JobTag, "name" | "color">;
+
+/**
+ * TagContext interface defining the contract for consumers
+ */
+interface TagContextType {
+  tags: JobTag[];
+  isLoading: boolean;
+  getTag: (id: string) => JobTag | undefined;
+  getTagsForJob: (job: JobApplication) => JobTag[];
+  createTag: (name: string, color?: string) => Promise<JobTag | null>;
+  updateTag: (id: string, tag: Partial<JobTagInput>) => Promise<void>;
+  deleteTag: (id: string) => Promise<void>;
+}
+
+//=============================================================================
+// CONTEXT CREATION
+//=============================================================================
+
+const TagContext = createContext<TagContextType | undefined>(undefined);
+
+/**
+ * Custom hook to use the tag context
+ * @returns TagContextType - The tag context value
+ * @throws Error if used outside of TagProvider
+ */
+export function useTags() {
+  const context = useContext(TagContext);
+  if (context === undefined) {
+    throw new Error("useTags must be used within a TagProvider");
+  }
+  return context;
+}
+
+interface TagProviderProps {
+  children: ReactNode;
+}
+
+//=============================================================================
+// DATA TRANSFORMATION FUNCTIONS
+//=============================================================================
+
+/**
+ * Convert a database tag row to the frontend shape
+ */
+const mapTagFromDB = (dbTag: JobTagDB): JobTag => ({
+  id: dbTag.id,
+  name: dbTag.name,
+  color: dbTag.color,
+});
+
+//=============================================================================
+// TAG PROVIDER COMPONENT
+//=============================================================================
+
+/**
+ * Tag Provider Component
+ */
+export default function TagProvider({ children }: TagProviderProps) {
+  const [tags, setTags] = useState<JobTag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  //=============================================================================
+  // DATA FETCHING
+  //=============================================================================
+
+  useEffect(() => {
+    if (!user?.id) {
+      setTags([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadTags = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from("job_tags")
+          .select("*")
+          .eq("user_id", user.id);
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        setTags(sortTags(((data || []) as JobTagDB[]).map(mapTagFromDB)));
+      } catch (error) {
+        console.error("Error loading tags:", error);
+        if (!cancelled) setTags([]);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadTags();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  //=============================================================================
+  // TAG LOOKUPS
+  //=============================================================================
+
+  const getTag = useCallback(
+    (id: string) => tags.find((tag) => tag.id === id),
+    [tags]
+  );
+
+  const getTagsForJob = useCallback(
+    (job: JobApplication) => getJobTags(job, tags),
+    [tags]
+  );
+
+  //=============================================================================
+  // TAG MANAGEMENT
+  //=============================================================================
+
+  /**
+   * Show an error toast for a failed tag change
+   */
+  const toastError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  /**
+   * Create a tag, or return the existing one if the user already has a tag
+   * with that name
+   *
+   * @param name Name of the tag
+   * @param color Hex colour; defaults to the next colour in the palette
+   * @returns The tag, or null if it could not be saved
+   */
+  const createTag = async (
+    name: string,
+    color?: string
+  ): Promise<JobTag | null> => {
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+
+    const existing = findTagByName(tags, trimmed);
+    if (existing) return existing;
+
+    if (!user?.id) {
+      toast({
+        title: "Authentication required",
+        description: "Please log in to create tags",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    const newTag: JobTag = {
+      id: uuidv4(),
+      name: trimmed,
+      color: color || getNextTagColor(tags),
+    };
+    setTags((prev) => sortTags([...prev, newTag]));
+
+    try {
+      const { error } = await supabase.from("job_tags").insert({
+        id: newTag.id,
+        user_id: user.id,
+        name: newTag.name,
+        color: newTag.color,
+      });
+
+      if (error) {
+        throw new Error(`Failed to create tag: ${error.message}`);
+      }
+
+      return newTag;
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      setTags((prev) => prev.filter((tag) => tag.id !== newTag.id));
+      toastError("Error creating tag", error);
+      return null;
+    }
+  };
+
+  /**
+   * Rename or recolour a tag
+   *
+   * @param id ID of the tag to update
+   * @param tag Fields to change
+   */
+  const updateTag = async (
+    id: string,
+    tag: Partial<JobTagInput>
+  ): Promise<void> => {
+    const previousTags = tags;
+    const current = tags.find((t) => t.id === id);
+    if (!current || !user?.id) return;
+
+    const name = (tag.name ?? current.name).trim();
+    if (!name) return;
+
+    const duplicate = findTagByName(tags, name);
+    if (duplicate && duplicate.id !== id) {
+      toast({
+        title: "Tag already exists",
+        description: `You already have a tag called "${duplicate.name}"`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const updated = { ...current, ...tag, name };
+    setTags((prev) => sortTags(prev.map((t) => (t.id === id ? updated : t))));
+
+    try {
+      const { error } = await supabase
+        .from("job_tags")
+        .update({ name: updated.name, color: updated.color })
+        .eq("id", id)
+        .eq("user_id", user.id);
+
+      if (error) {
+        throw new Error(`Failed to update tag: ${error.message}`);
+      }
+    } catch (error) {
+      console.error("Error updating tag:", error);
+      setTags(previousTags);
+      toastError("Error updating tag", error);
+    }
+  };
+
+  /**
+   * Delete a tag. The database removes it from every job it was applied to.
+   *
+   * @param id ID of the tag to delete
+   */
+  const deleteTag = async (id: string): Promise<void> => {
+    if (!user?.id) return;
+
+    const previousTags = tags;
+    setTags((prev) => prev.filter((tag) => tag.id !== id));
+
+    try {
+      const { error } = await supabase
+        .from("job_tags")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", user.id);
+
+      if (error) {
+        throw new Error(`Failed to delete tag: ${error.message}`);
+      }
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      setTags(previousTags);
+      toastError("Error deleting tag", error);
+    }
+  };
+
+  //=============================================================================
+  // CONTEXT VALUE
+  //=============================================================================
+
+  const value: TagContextType = {
+    tags,
+    isLoading,
+    getTag,
+    getTagsForJob,
+    createTag,
+    updateTag,
+    deleteTag,
+  };
+
+  return <TagContext.Provider value={value}>{children}</TagContext.Provider>;
+}
@@ -1,22 +1,162 @@
+export interface JobNote {
+	id: string
+	content: string
+	createdAt: string
+	updatedAt?: string
+}
+
+export interface JobContact {
+	id: string
+	name: string
+	email: string
+	phone?: string
+	position?: string
+	lastContactedAt?: string
+}
+
+export type ReferralRelationship =
+	| 'colleague'
+	| 'formerColleague'
+	| 'friend'
+	| 'alumni'
+	| 'recruiter'
+	| 'other'
+
+// Whether the referrer has been thanked or followed up with
+export type ReferralFollowUpStatus = 'pending' | 'followedUp' | 'thanked'
+
+export interface JobReferral {
+	id: string
+	contactId?: string // The referrer's contact on the application
+	referrerName: string
+	relationship?: ReferralRelationship
+	requestedDate?: string // Day the referral was asked for, as YYYY-MM-DD
+	submittedDate?: string // Day the referrer put the application in
+	followUpStatus: ReferralFollowUpStatus
+}
+
+// How far an application got before it ended
+export type RejectionStage =
+	| 'application'
+	| 'screening'
+	| 'technical'
+	| 'onsite'
+	| 'final'
+	| 'offer'
+
+export type RejectionReason =
+	| 'experience'
+	| 'skills'
+	| 'culture'
+	| 'compensation'
+	| 'positionFilled'
+	| 'roleCancelled'
+	| 'location'
+	| 'timing'
+	| 'noResponse'
+	| 'other'
+
+// company: the company turned the user down; candidate: the user withdrew
+export type RejectedBy = 'company' | 'candidate'
+
+export interface JobRejection {
+	id: string
+	stageReached?: RejectionStage
+	reason?: RejectionReason
+	rejectedBy: RejectedBy
+	feedback?: string // What the company said, or the user's own notes
+}
+
+export type SalaryPeriod = 'annual' | 'monthly' | 'weekly' | 'daily' | 'hourly'
+
+export interface SalaryRange {
+	min?: number
+	max?: number
+	currency?: string // ISO 4217 code, e.g. USD; unset if not stated
+	period: SalaryPeriod
+}
+
+// Where a status change came from
+export type StatusChangeSource =
+	| 'manual'
+	| 'kanban'
+	| 'email'
+	| 'integration'
+	| 'import'
+
+export interface JobStatusChange {
+	id: string
+	fromStatus?: string // Empty for the status a job was created with
+	toStatus: string
+	changedAt: string
+	source: StatusChangeSource
+}
+
+/**
+ * The terminal outcome a pipeline stage rolls up to. Dashboards and
+ * reminders reason about outcomes so they keep working with custom stages.
+ */
+export type StageOutcome =
+	| 'saved'
+	| 'applied'
+	| 'interview'
+	| 'offer'
+	| 'rejected'
+
+export interface PipelineStage {
+	id: string
+	key: string // Stored in job_applications.status
+	label: string
+	color: string // Hex colour, e.g. #3B82F6
+	position: number
+	outcome: StageOutcome
+}
+
+// A user-defined label for grouping applications, e.g. "dream company"
+export interface JobTag {
+	id: string
+	name: string
+	color: string // Hex colour, e.g. #3B82F6
+}
+
+export interface Company {
+	id: string
+	name: string
+	aliases: string[] // Other names applications use, e.g. "Alphabet" for Google
+	domain?: string // e.g. acme.com
+	website?: string
+	logoUrl?: string
+	size?: string // Headcount band, e.g. 51-200
+	industry?: string
+	notes?: string
+}
+
 export interface JobApplication {
 	id: string
 	company: string
+	companyId?: string // The company record, linked by name or alias when saved
 	position: string
 	location: string
-	status: 'applied' | 'interview' | 'offer' | 'rejected' | 'saved'
+	status: string // Key of one of the user's pipeline stages
 	appliedDate: string
 	lastUpdated: string
 	logo?: string
 	companyWebsite?: string
-	salary?: string
+	jobUrl?: string // Link to the original job posting
+	externalId?: string // The job board's ID for imported postings
+	externalPlatform?: string
+	salary?: string // Salary as originally entered or imported
+	salaryRange?: SalaryRange
 	jobDescription: string
-	notes?: string[]
-	contacts?: {
-		name: string
-		email: string
-		phone?: string
-		position?: string
-	}[]
+	notes?: JobNote[]
+	contacts?: JobContact[]
+	referral?: JobReferral
+	rejection?: JobRejection // Why the application ended, if recorded
+	statusHistory?: JobStatusChange[]
+	tagIds?: string[] // IDs of the user's tags applied to this job
+	deletedAt?: string // Set while the application is in the trash
+	archivedAt?: string // Set while the application is archived
+	followUpDate?: string // Day to follow up, as YYYY-MM-DD
 	events?: {
 		date: string
 		title: string
@@ -44,6 +184,58 @@ export const statusLabels = {
 	saved: 'Saved',
 }
 
+export const stageOutcomes: StageOutcome[] = [
+	'saved',
+	'applied',
+	'interview',
+	'offer',
+	'rejected',
+]
+
+// Stage set every user starts with; keys match the original fixed statuses
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+	{
+		id: 'default-saved',
+		key: 'saved',
+		label: 'Saved',
+		color: '#6B7280',
+		position: 0,
+		outcome: 'saved',
+	},
+	{
+		id: 'default-applied',
+		key: 'applied',
+		label: 'Applied',
+		color: '#8B5CF6',
+		position: 1,
+		outcome: 'applied',
+	},
+	{
+		id: 'default-interview',
+		key: 'interview',
+		label: 'Interview',
+		color: '#3B82F6',
+		position: 2,
+		outcome: 'interview',
+	},
+	{
+		id: 'default-offer',
+		key: 'offer',
+		label: 'Offer',
+		color: '#22C55E',
+		position: 3,
+		outcome: 'offer',
+	},
+	{
+		id: 'default-rejected',
+		key: 'rejected',
+		label: 'Rejected',
+		color: '#EF4444',
+		position: 4,
+		outcome: 'rejected',
+	},
+]
+
 export const mockJobs: JobApplication[] = [
 	{
 		id: '1',
@@ -59,14 +251,24 @@ export const mockJobs: JobApplication[] = [
 		jobDescription:
 			'Frontend developer position working with React, TypeScript and modern web technologies.',
 		notes: [
-			'Had initial screening with HR on April 12',
-			'Technical interview scheduled for April 20',
+			{
+				id: 'note-1',
+				content: 'Had initial screening with HR on April 12',
+				createdAt: '2023-04-12T16:00:00Z',
+			},
+			{
+				id: 'note-2',
+				content: 'Technical interview scheduled for April 20',
+				createdAt: '2023-04-15T10:30:00Z',
+			},
 		],
 		contacts: [
 			{
+				id: 'contact-1',
 				name: 'Sarah Johnson',
 				email: 'sjohnson@techcorp.com',
 				position: 'HR Manager',
+				lastContactedAt: '2023-04-12T16:00:00Z',
 			},
 		],
 		events: [
@@ -114,8 +316,17 @@ export const mockJobs: JobApplication[] = [
 		logo: 'https://images.unsplash.com/photo-1486312338219-ce68d2c6f44d?w=40&h=40&fit=crop',
 		companyWebsite: 'https://cloudnet.com',
 		notes: [
-			'Received rejection email on April 10',
-			"Mentioned they'll keep my resume on file for future opportunities",
+			{
+				id: 'note-3',
+				content: 'Received rejection email on April 10',
+				createdAt: '2023-04-10T09:15:00Z',
+			},
+			{
+				id: 'note-4',
+				content:
+					"Mentioned they'll keep my resume on file for future opportunities",
+				createdAt: '2023-04-10T09:20:00Z',
+			},
 		],
 		type: 'Contract',
 		remote: true,
@@ -131,13 +342,26 @@ export const mockJobs: JobApplication[] = [
 		lastUpdated: '2023-04-16',
 		logo: 'https://images.unsplash.com/photo-1581091226825-a6a2a5aee158?w=40&h=40&fit=crop',
 		salary: '$95,000 - $115,000',
-		notes: ['Received offer on April 16', 'Need to respond by April 23'],
+		notes: [
+			{
+				id: 'note-5',
+				content: 'Received offer on April 16',
+				createdAt: '2023-04-16T14:00:00Z',
+			},
+			{
+				id: 'note-6',
+				content: 'Need to respond by April 23',
+				createdAt: '2023-04-16T14:05:00Z',
+			},
+		],
 		contacts: [
 			{
+				id: 'contact-2',
 				name: 'Michael Chen',
 				email: 'mchen@websolutions.com',
 				phone: '555-123-4567',
 				position: 'Tech Lead',
+				lastContactedAt: '2023-04-16T14:00:00Z',
 			},
 		],
 		type: 'Full-time',
@@ -162,13 +386,22 @@ export const mockJobs: JobApplication[] = [
 	},
 ]
 
-export const getStatusCount = (jobs: JobApplication[]) => {
+// Counts are grouped by outcome so custom stages roll up into the totals
+export const getStatusCount = (
+	jobs: JobApplication[],
+	stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES
+) => {
+	const outcomeOf = (status: string) =>
+		stages.find((stage) => stage.key === status)?.outcome || status
+	const countOutcome = (outcome: StageOutcome) =>
+		jobs.filter((job) => outcomeOf(job.status) === outcome).length
+
 	return {
-		applied: jobs.filter((job) => job.status === 'applied').length,
-		interview: jobs.filter((job) => job.status === 'interview').length,
-		offer: jobs.filter((job) => job.status === 'offer').length,
-		rejected: jobs.filter((job) => job.status === 'rejected').length,
-		saved: jobs.filter((job) => job.status === 'saved').length,
+		applied: countOutcome('applied'),
+		interview: countOutcome('interview'),
+		offer: countOutcome('offer'),
+		rejected: countOutcome('rejected'),
+		saved: countOutcome('saved'),
 		total: jobs.length,
 	}
 }
@@ -41,6 +41,69 @@ CREATE POLICY "Users can delete their own AI content"
   FOR DELETE
   USING (auth.uid() = user_id);
 
+-- Create a table for the resume and cover letter sent with each application
+CREATE TABLE IF NOT EXISTS public.job_application_documents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_application_id UUID REFERENCES public.job_applications(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('resume', 'coverletter')),
+  user_document_id UUID REFERENCES public.user_documents(id) ON DELETE SET NULL,
+  ai_content_id UUID REFERENCES public.ai_generated_content(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  attached_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (job_application_id, kind),
+  CHECK (user_document_id IS NULL OR ai_content_id IS NULL)
+);
+
+-- Enable Row Level Security on job_application_documents
+ALTER TABLE public.job_application_documents ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own application documents
+CREATE POLICY "Users can view their own application documents" 
+  ON public.job_application_documents
+  FOR SELECT 
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to update their own application documents
+CREATE POLICY "Users can update their own application documents" 
+  ON public.job_application_documents
+  FOR UPDATE 
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to insert their own application documents
+CREATE POLICY "Users can insert their own application documents" 
+  ON public.job_application_documents
+  FOR INSERT 
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to delete their own application documents
+CREATE POLICY "Users can delete their own application documents" 
+  ON public.job_application_documents
+  FOR DELETE
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_job_application_documents_user_document_id ON public.job_application_documents (user_document_id) WHERE user_document_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_job_application_documents_ai_content_id ON public.job_application_documents (ai_content_id) WHERE ai_content_id IS NOT NULL;
+
 -- Create a payment transactions table
 CREATE TABLE IF NOT EXISTS public.payment_transactions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -78,6 +78,12 @@ CREATE TABLE IF NOT EXISTS public.notification_preferences (
   application_status BOOLEAN DEFAULT TRUE,
   interview_reminders BOOLEAN DEFAULT TRUE,
   marketing BOOLEAN DEFAULT FALSE,
+  stale_application_reminders BOOLEAN DEFAULT TRUE, -- Remind about applications with no update
+  stale_application_days INTEGER DEFAULT 14 CHECK (stale_application_days > 0),
+  interview_outcome_reminders BOOLEAN DEFAULT TRUE, -- Remind about interviews with no outcome
+  interview_outcome_days INTEGER DEFAULT 7 CHECK (interview_outcome_days > 0),
+  follow_up_emails BOOLEAN DEFAULT TRUE, -- Email follow-up reminders too, if email is enabled
+  overdue_task_reminders BOOLEAN DEFAULT TRUE, -- Remind about tasks past their due date
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(user_id)
@@ -104,24 +110,166 @@ CREATE POLICY "Users can insert their own notification preferences"
   FOR INSERT 
   WITH CHECK (auth.uid() = user_id);
 
+-- Create pipeline_stages table
+CREATE TABLE IF NOT EXISTS public.pipeline_stages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#6B7280',
+  position INTEGER NOT NULL DEFAULT 0,
+  outcome TEXT NOT NULL CHECK (outcome IN ('saved', 'applied', 'interview', 'offer', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, key)
+);
+
+-- Enable Row Level Security on pipeline_stages
+ALTER TABLE public.pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own pipeline stages
+CREATE POLICY "Users can view their own pipeline stages" 
+  ON public.pipeline_stages 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own pipeline stages
+CREATE POLICY "Users can insert their own pipeline stages" 
+  ON public.pipeline_stages 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own pipeline stages
+CREATE POLICY "Users can update their own pipeline stages" 
+  ON public.pipeline_stages 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to delete their own pipeline stages
+CREATE POLICY "Users can delete their own pipeline stages" 
+  ON public.pipeline_stages 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Create job_tags table
+CREATE TABLE IF NOT EXISTS public.job_tags (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#6B7280',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+-- Enable Row Level Security on job_tags
+ALTER TABLE public.job_tags ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own job tags
+CREATE POLICY "Users can view their own job tags" 
+  ON public.job_tags 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own job tags
+CREATE POLICY "Users can insert their own job tags" 
+  ON public.job_tags 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own job tags
+CREATE POLICY "Users can update their own job tags" 
+  ON public.job_tags 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to delete their own job tags
+CREATE POLICY "Users can delete their own job tags" 
+  ON public.job_tags 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Create companies table
+CREATE TABLE IF NOT EXISTS public.companies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}', -- Other names applications use
+  domain TEXT,
+  website TEXT,
+  logo_url TEXT,
+  size TEXT,
+  industry TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security on companies
+ALTER TABLE public.companies ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own companies
+CREATE POLICY "Users can view their own companies" 
+  ON public.companies 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own companies
+CREATE POLICY "Users can insert their own companies" 
+  ON public.companies 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own companies
+CREATE POLICY "Users can update their own companies" 
+  ON public.companies 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to delete their own companies
+CREATE POLICY "Users can delete their own companies" 
+  ON public.companies 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Create index so each user has one company per name, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_companies_user_name ON public.companies (user_id, lower(name));
+
 -- Create job_applications table
 CREATE TABLE IF NOT EXISTS public.job_applications (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
   company TEXT NOT NULL,
+  company_id UUID REFERENCES public.companies ON DELETE SET NULL, -- Linked by name or alias when saved
   position TEXT NOT NULL,
   location TEXT,
-  status TEXT NOT NULL CHECK (status IN ('applied', 'interview', 'offer', 'rejected', 'saved')),
+  status TEXT NOT NULL, -- Key of one of the user's pipeline_stages
   applied_date TIMESTAMP WITH TIME ZONE,
   last_updated TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   logo_url TEXT,
   company_website TEXT,
+  external_id TEXT, -- The job board's ID for the posting
+  external_url TEXT, -- Link to the original posting
+  external_platform TEXT,
   salary TEXT,
+  salary_min NUMERIC,
+  salary_max NUMERIC,
+  salary_currency TEXT,
+  salary_period TEXT CHECK (salary_period IN ('annual', 'monthly', 'weekly', 'daily', 'hourly')),
   job_description TEXT,
   type TEXT, -- Full-time, Part-time, Contract
   remote BOOLEAN DEFAULT FALSE,
   work_type TEXT CHECK (work_type IN ('On-site', 'Remote', 'Hybrid')),
   employment_type TEXT CHECK (employment_type IN ('Full-time', 'Part-time')),
+  tag_ids UUID[] NOT NULL DEFAULT '{}', -- IDs from job_tags
+  deleted_at TIMESTAMP WITH TIME ZONE, -- Set while the application is in the trash
+  follow_up_date DATE, -- Day to follow up on the application
+  archived_at TIMESTAMP WITH TIME ZONE, -- Set while the application is archived
+  sort_date TIMESTAMP WITH TIME ZONE GENERATED ALWAYS AS (COALESCE(applied_date, last_updated)) STORED, -- Applied or last updated; used to sort and page lists
+  salary_annual NUMERIC GENERATED ALWAYS AS (
+    COALESCE((salary_min + salary_max) / 2, salary_min, salary_max) *
+    CASE salary_period WHEN 'monthly' THEN 12 WHEN 'weekly' THEN 52 WHEN 'daily' THEN 260 WHEN 'hourly' THEN 2080 ELSE 1 END
+  ) STORED, -- Annualised salary midpoint; used to sort, page and filter by salary
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -153,12 +301,27 @@ CREATE POLICY "Users can delete their own job applications"
   FOR DELETE 
   USING (auth.uid() = user_id);
 
+-- Create indexes for paging through active job applications in each sort order
+CREATE INDEX IF NOT EXISTS idx_job_applications_page_sort_date ON public.job_applications (user_id, sort_date, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_job_applications_page_last_updated ON public.job_applications (user_id, last_updated, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_job_applications_page_company ON public.job_applications (user_id, company, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_job_applications_page_position ON public.job_applications (user_id, position, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_job_applications_page_salary ON public.job_applications (user_id, salary_annual, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_job_applications_page_status ON public.job_applications (user_id, status, last_updated, id) WHERE deleted_at IS NULL;
+
+-- Create index for listing a company's applications
+CREATE INDEX IF NOT EXISTS idx_job_applications_company_id ON public.job_applications (company_id);
+
+-- Create an index for finding follow-ups that are due
+CREATE INDEX IF NOT EXISTS idx_job_applications_follow_up_date ON public.job_applications (user_id, follow_up_date) WHERE follow_up_date IS NOT NULL AND deleted_at IS NULL;
+
 -- Create job_application_notes table
 CREATE TABLE IF NOT EXISTS public.job_application_notes (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   job_application_id UUID REFERENCES public.job_applications ON DELETE CASCADE NOT NULL,
   note TEXT NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Enable Row Level Security on job_application_notes
@@ -186,6 +349,17 @@ CREATE POLICY "Users can insert their own job application notes"
     )
   );
 
+-- Create policy to allow users to update their own job application notes
+CREATE POLICY "Users can update their own job application notes" 
+  ON public.job_application_notes 
+  FOR UPDATE 
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
 -- Create policy to allow users to delete their own job application notes
 CREATE POLICY "Users can delete their own job application notes" 
   ON public.job_application_notes 
@@ -205,6 +379,7 @@ CREATE TABLE IF NOT EXISTS public.job_application_contacts (
   email TEXT NOT NULL,
   phone TEXT,
   position TEXT,
+  last_contacted_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -256,6 +431,382 @@ CREATE POLICY "Users can delete their own job application contacts"
     )
   );
 
+-- Create job_referrals table
+CREATE TABLE IF NOT EXISTS public.job_referrals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_application_id UUID REFERENCES public.job_applications ON DELETE CASCADE NOT NULL UNIQUE,
+  contact_id UUID REFERENCES public.job_application_contacts ON DELETE SET NULL,
+  referrer_name TEXT NOT NULL,
+  relationship TEXT CHECK (relationship IN ('colleague', 'formerColleague', 'friend', 'alumni', 'recruiter', 'other')),
+  requested_date DATE,
+  submitted_date DATE,
+  follow_up_status TEXT NOT NULL DEFAULT 'pending' CHECK (follow_up_status IN ('pending', 'followedUp', 'thanked')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security on job_referrals
+ALTER TABLE public.job_referrals ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own referrals
+CREATE POLICY "Users can view their own referrals" 
+  ON public.job_referrals 
+  FOR SELECT 
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to update their own referrals
+CREATE POLICY "Users can update their own referrals" 
+  ON public.job_referrals 
+  FOR UPDATE 
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to insert their own referrals
+CREATE POLICY "Users can insert their own referrals" 
+  ON public.job_referrals 
+  FOR INSERT 
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to delete their own referrals
+CREATE POLICY "Users can delete their own referrals" 
+  ON public.job_referrals 
+  FOR DELETE 
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create job_rejections table
+CREATE TABLE IF NOT EXISTS public.job_rejections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_application_id UUID REFERENCES public.job_applications ON DELETE CASCADE NOT NULL UNIQUE,
+  stage_reached TEXT CHECK (stage_reached IN ('application', 'screening', 'technical', 'onsite', 'final', 'offer')),
+  reason TEXT CHECK (reason IN ('experience', 'skills', 'culture', 'compensation', 'positionFilled', 'roleCancelled', 'location', 'timing', 'noResponse', 'other')),
+  rejected_by TEXT NOT NULL DEFAULT 'company' CHECK (rejected_by IN ('company', 'candidate')),
+  feedback TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security on job_rejections
+ALTER TABLE public.job_rejections ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own rejections
+CREATE POLICY "Users can view their own rejections" 
+  ON public.job_rejections 
+  FOR SELECT 
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to update their own rejections
+CREATE POLICY "Users can update their own rejections" 
+  ON public.job_rejections 
+  FOR UPDATE 
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to insert their own rejections
+CREATE POLICY "Users can insert their own rejections" 
+  ON public.job_rejections 
+  FOR INSERT 
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to delete their own rejections
+CREATE POLICY "Users can delete their own rejections" 
+  ON public.job_rejections 
+  FOR DELETE 
+  USING (
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create job_offers table
+CREATE TABLE IF NOT EXISTS public.job_offers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_application_id UUID REFERENCES public.job_applications ON DELETE CASCADE NOT NULL UNIQUE,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  base_salary NUMERIC CHECK (base_salary >= 0),
+  bonus NUMERIC CHECK (bonus >= 0),
+  bonus_type TEXT NOT NULL DEFAULT 'amount' CHECK (bonus_type IN ('amount', 'percent')),
+  equity_value NUMERIC CHECK (equity_value >= 0),
+  vesting_years NUMERIC NOT NULL DEFAULT 4 CHECK (vesting_years > 0),
+  vesting_cliff_months INTEGER CHECK (vesting_cliff_months >= 0),
+  sign_on_bonus NUMERIC CHECK (sign_on_bonus >= 0),
+  benefits TEXT,
+  benefits_value NUMERIC CHECK (benefits_value >= 0),
+  pto_days INTEGER CHECK (pto_days >= 0),
+  location TEXT,
+  work_type TEXT CHECK (work_type IN ('On-site', 'Remote', 'Hybrid')),
+  start_date DATE,
+  response_deadline DATE,
+  ratings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security on job_offers
+ALTER TABLE public.job_offers ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own offers
+CREATE POLICY "Users can view their own offers" 
+  ON public.job_offers 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own offers
+CREATE POLICY "Users can update their own offers" 
+  ON public.job_offers 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own offers
+CREATE POLICY "Users can insert their own offers" 
+  ON public.job_offers 
+  FOR INSERT 
+  WITH CHECK (
+    auth.uid() = user_id AND
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to delete their own offers
+CREATE POLICY "Users can delete their own offers" 
+  ON public.job_offers 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_job_offers_user_id ON public.job_offers (user_id);
+
+-- Create offer_criteria table
+CREATE TABLE IF NOT EXISTS public.offer_criteria (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 3 CHECK (weight BETWEEN 0 AND 10),
+  source TEXT NOT NULL DEFAULT 'rating' CHECK (source IN ('rating', 'compensation', 'pto')),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, key)
+);
+
+-- Enable Row Level Security on offer_criteria
+ALTER TABLE public.offer_criteria ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own offer criteria
+CREATE POLICY "Users can view their own offer criteria" 
+  ON public.offer_criteria 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own offer criteria
+CREATE POLICY "Users can insert their own offer criteria" 
+  ON public.offer_criteria 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own offer criteria
+CREATE POLICY "Users can update their own offer criteria" 
+  ON public.offer_criteria 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to delete their own offer criteria
+CREATE POLICY "Users can delete their own offer criteria" 
+  ON public.offer_criteria 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Create offer_comparison_settings table
+CREATE TABLE IF NOT EXISTS public.offer_comparison_settings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  exchange_rates JSONB NOT NULL DEFAULT '{}'::jsonb, -- Currency code to units per US dollar
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id)
+);
+
+-- Enable Row Level Security on offer_comparison_settings
+ALTER TABLE public.offer_comparison_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own offer comparison settings
+CREATE POLICY "Users can view their own offer comparison settings" 
+  ON public.offer_comparison_settings 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own offer comparison settings
+CREATE POLICY "Users can update their own offer comparison settings" 
+  ON public.offer_comparison_settings 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own offer comparison settings
+CREATE POLICY "Users can insert their own offer comparison settings" 
+  ON public.offer_comparison_settings 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create job_tasks table
+CREATE TABLE IF NOT EXISTS public.job_tasks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_application_id UUID REFERENCES public.job_applications ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  due_date DATE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  template_key TEXT, -- The task template it was added from, if any
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (job_application_id, template_key)
+);
+
+-- Enable Row Level Security on job_tasks
+ALTER TABLE public.job_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own tasks
+CREATE POLICY "Users can view their own tasks" 
+  ON public.job_tasks 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own tasks
+CREATE POLICY "Users can update their own tasks" 
+  ON public.job_tasks 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own tasks
+CREATE POLICY "Users can insert their own tasks" 
+  ON public.job_tasks 
+  FOR INSERT 
+  WITH CHECK (
+    auth.uid() = user_id AND
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to delete their own tasks
+CREATE POLICY "Users can delete their own tasks" 
+  ON public.job_tasks 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_job_tasks_user_due_date ON public.job_tasks (user_id, due_date) WHERE completed_at IS NULL;
+
+-- Create task_templates table
+CREATE TABLE IF NOT EXISTS public.task_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  key TEXT NOT NULL,
+  stage_key TEXT NOT NULL,
+  title TEXT NOT NULL,
+  due_in_days INTEGER CHECK (due_in_days >= 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, key)
+);
+
+-- Enable Row Level Security on task_templates
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own task templates
+CREATE POLICY "Users can view their own task templates" 
+  ON public.task_templates 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own task templates
+CREATE POLICY "Users can insert their own task templates" 
+  ON public.task_templates 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own task templates
+CREATE POLICY "Users can update their own task templates" 
+  ON public.task_templates 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to delete their own task templates
+CREATE POLICY "Users can delete their own task templates" 
+  ON public.task_templates 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Create task_template_settings table
+CREATE TABLE IF NOT EXISTS public.task_template_settings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  customised_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- When the templates were first saved
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id)
+);
+
+-- Enable Row Level Security on task_template_settings
+ALTER TABLE public.task_template_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own task template settings
+CREATE POLICY "Users can view their own task template settings" 
+  ON public.task_template_settings 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own task template settings
+CREATE POLICY "Users can insert their own task template settings" 
+  ON public.task_template_settings 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own task template settings
+CREATE POLICY "Users can update their own task template settings" 
+  ON public.task_template_settings 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
 -- Create job_application_events table
 CREATE TABLE IF NOT EXISTS public.job_application_events (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -314,6 +865,162 @@ CREATE POLICY "Users can delete their own job application events"
     )
   );
 
+-- Create job_status_history table
+CREATE TABLE IF NOT EXISTS public.job_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_application_id UUID REFERENCES public.job_applications ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'kanban', 'email', 'integration', 'import')),
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security on job_status_history
+ALTER TABLE public.job_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own status history
+CREATE POLICY "Users can view their own status history" 
+  ON public.job_status_history 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own status history
+CREATE POLICY "Users can insert their own status history" 
+  ON public.job_status_history 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create job_posting_snapshots table
+CREATE TABLE IF NOT EXISTS public.job_posting_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_application_id UUID REFERENCES public.job_applications ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  url TEXT NOT NULL,
+  html TEXT NOT NULL, -- Sanitised posting HTML
+  text TEXT NOT NULL, -- Plain text of the posting, for comparing captures
+  content_hash TEXT NOT NULL, -- SHA-256 of the text
+  captured_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (job_application_id, content_hash)
+);
+
+-- Enable Row Level Security on job_posting_snapshots
+ALTER TABLE public.job_posting_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own posting snapshots
+CREATE POLICY "Users can view their own posting snapshots" 
+  ON public.job_posting_snapshots 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own posting snapshots
+CREATE POLICY "Users can insert their own posting snapshots" 
+  ON public.job_posting_snapshots 
+  FOR INSERT 
+  WITH CHECK (
+    auth.uid() = user_id AND
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to update their own posting snapshots, e.g. when merging duplicates
+CREATE POLICY "Users can update their own posting snapshots" 
+  ON public.job_posting_snapshots 
+  FOR UPDATE 
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    auth.uid() IN (
+      SELECT user_id FROM public.job_applications 
+      WHERE id = job_application_id
+    )
+  );
+
+-- Create policy to allow users to delete their own posting snapshots
+CREATE POLICY "Users can delete their own posting snapshots" 
+  ON public.job_posting_snapshots 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Create job_duplicate_dismissals table
+CREATE TABLE IF NOT EXISTS public.job_duplicate_dismissals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  job_application_id UUID REFERENCES public.job_applications ON DELETE CASCADE NOT NULL,
+  other_job_application_id UUID REFERENCES public.job_applications ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (job_application_id < other_job_application_id),
+  UNIQUE (user_id, job_application_id, other_job_application_id)
+);
+
+-- Enable Row Level Security on job_duplicate_dismissals
+ALTER TABLE public.job_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own duplicate dismissals
+CREATE POLICY "Users can view their own duplicate dismissals" 
+  ON public.job_duplicate_dismissals 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own duplicate dismissals
+CREATE POLICY "Users can insert their own duplicate dismissals" 
+  ON public.job_duplicate_dismissals 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy to allow users to delete their own duplicate dismissals
+CREATE POLICY "Users can delete their own duplicate dismissals" 
+  ON public.job_duplicate_dismissals 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+-- Create saved_views table
+CREATE TABLE IF NOT EXISTS public.saved_views (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  view_state JSONB NOT NULL DEFAULT '{}'::jsonb, -- Tab, sort, filters and visible card fields
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  is_pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+-- A user can have at most one default view
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_views_one_default ON public.saved_views (user_id) WHERE is_default;
+
+-- Enable Row Level Security on saved_views
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own saved views
+CREATE POLICY "Users can view their own saved views" 
+  ON public.saved_views 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to insert their own saved views
+CREATE POLICY "Users can insert their own saved views" 
+  ON public.saved_views 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policy to allow users to update their own saved views
+CREATE POLICY "Users can update their own saved views" 
+  ON public.saved_views 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+-- Create policy to allow users to delete their own saved views
+CREATE POLICY "Users can delete their own saved views" 
+  ON public.saved_views 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
 -- Create user_documents table
 CREATE TABLE IF NOT EXISTS public.user_documents (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
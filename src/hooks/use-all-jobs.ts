@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useJobs } from "@/contexts/JobContext";
+import { JobApplication } from "@/data/mockJobs";
+import { fetchJobSummaries } from "@/services/jobRepository";
+
+// Wait for a run of edits to finish before loading again
+const RELOAD_DELAY_MS = 1000;
+
+/**
+ * A hook that loads every application not in the trash with a query that
+ * leaves out their larger fields, e.g. for stats and pages that cover
+ * applications lists haven't loaded. Loads again after loaded jobs change,
+ * so edits show.
+ *
+ * @param fetchJobs - The repository query to load them with; keep it stable
+ * across renders, as a new one loads them again
+ */
+export function useAllJobs(
+  fetchJobs: (userId: string) => Promise<JobApplication[]> = fetchJobSummaries
+) {
+  const { user } = useAuth();
+  const { isLoading: isLoadingJobs, jobsRevision } = useJobs();
+  const [jobs, setJobs] = useState<JobApplication[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const hasLoadedRef = useRef(false);
+
+  useEffect(() => {
+    // Wait for the job context, whose first load changes jobsRevision
+    if (!user?.id || isLoadingJobs) return;
+
+    let isCurrent = true;
+    const timer = setTimeout(
+      () => {
+        fetchJobs(user.id)
+          .then((loaded) => {
+            if (!isCurrent) return;
+            setJobs(loaded);
+            setError(null);
+          })
+          .catch((err) => {
+            console.error("Error loading applications:", err);
+            if (!isCurrent) return;
+            setError(
+              err instanceof Error
+                ? err
+                : new Error("Failed to load applications")
+            );
+          })
+          .finally(() => {
+            if (isCurrent) setIsLoading(false);
+          });
+      },
+      hasLoadedRef.current ? RELOAD_DELAY_MS : 0
+    );
+    hasLoadedRef.current = true;
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [user?.id, isLoadingJobs, jobsRevision, fetchJobs]);
+
+  return { jobs, isLoading, error };
+}
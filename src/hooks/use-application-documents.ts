@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ApplicationDocument,
+  ApplicationDocumentKind,
+  ApplicationDocumentOption,
+  attachApplicationDocument,
+  detachApplicationDocument,
+  fetchApplicationDocuments,
+} from "@/services/applicationDocumentService";
+
+/**
+ * A hook that loads the resume and cover letter sent with a job, and
+ * changes which were sent
+ *
+ * @param jobId The job, or null while none is shown
+ */
+export function useApplicationDocuments(jobId: string | null) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<ApplicationDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setDocuments([]);
+    if (!jobId || !user?.id) return;
+
+    let isCurrent = true;
+    setIsLoading(true);
+
+    fetchApplicationDocuments(jobId)
+      .then((loaded) => {
+        if (isCurrent) setDocuments(loaded);
+      })
+      .catch((error) =>
+        console.error("Error loading application documents:", error)
+      )
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [jobId, user?.id]);
+
+  const attach = useCallback(
+    async (
+      kind: ApplicationDocumentKind,
+      option: ApplicationDocumentOption
+    ) => {
+      if (!jobId || !user?.id) return;
+
+      try {
+        const document = await attachApplicationDocument(jobId, kind, option);
+        setDocuments((prev) => [
+          ...prev.filter((doc) => doc.kind !== kind),
+          document,
+        ]);
+      } catch (error) {
+        console.error("Error saving application document:", error);
+        toast({
+          title: "Couldn't save the document",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      }
+    },
+    [jobId, user?.id, toast]
+  );
+
+  const detach = useCallback(
+    async (kind: ApplicationDocumentKind) => {
+      if (!jobId || !user?.id) return;
+
+      try {
+        await detachApplicationDocument(jobId, kind);
+        setDocuments((prev) => prev.filter((doc) => doc.kind !== kind));
+      } catch (error) {
+        console.error("Error removing application document:", error);
+        toast({
+          title: "Couldn't remove the document",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      }
+    },
+    [jobId, user?.id, toast]
+  );
+
+  return { documents, isLoading, attach, detach };
+}
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePipeline } from "@/contexts/PipelineContext";
+import { useTags } from "@/contexts/TagContext";
+import { useToast } from "@/hooks/use-toast";
+import { JobApplication } from "@/data/mockJobs";
+import { fetchExportDocuments } from "@/services/exportService";
+import {
+  ExportFormat,
+  buildJobExport,
+  downloadFile,
+  exportToCsv,
+  exportToJson,
+  exportToXlsx,
+  getExportFileName,
+} from "@/utils/exportUtils";
+
+/**
+ * A hook that downloads applications, with their events, notes, contacts
+ * and the user's documents, as CSV, JSON or XLSX
+ */
+export function useJobExport() {
+  const { user } = useAuth();
+  const { stages } = usePipeline();
+  const { tags } = useTags();
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  /**
+   * Download an export
+   *
+   * @param getJobs Loads the applications to export
+   * @param name What is exported, e.g. the saved view's name, for the file name
+   */
+  const exportJobs = async (
+    getJobs: () => Promise<JobApplication[]>,
+    name: string,
+    format: ExportFormat
+  ) => {
+    if (!user?.id) return;
+    setIsExporting(true);
+
+    try {
+      const [jobs, documents] = await Promise.all([
+        getJobs(),
+        fetchExportDocuments(user.id),
+      ]);
+      const data = buildJobExport(jobs, stages, tags, documents);
+      const fileName = getExportFileName(name, format);
+
+      if (format === "csv") {
+        // The byte order mark tells Excel the file is UTF-8
+        downloadFile("\uFEFF" + exportToCsv(data), fileName, "text/csv");
+      } else if (format === "json") {
+        downloadFile(exportToJson(data), fileName, "application/json");
+      } else {
+        downloadFile(exportToXlsx(data), fileName);
+      }
+
+      toast({
+        title:
+          jobs.length === 1
+            ? "1 application exported"
+            : `${jobs.length} applications exported`,
+      });
+    } catch (error) {
+      console.error("Error exporting applications:", error);
+      toast({
+        title: "Export failed",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return { exportJobs, isExporting };
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * A hook that keeps track of the jobs selected for bulk actions.
+ * Shift-selecting extends the selection from the last job selected, in the
+ * order the jobs are shown.
+ *
+ * @param availableIds Jobs that can be selected, e.g. the ones loaded.
+ * Selected jobs no longer available, e.g. moved out of a filtered list,
+ * are dropped from the selection.
+ */
+export function useJobSelection(availableIds: string[]) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const anchorRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const available = new Set(availableIds);
+    setSelectedIds((prev) => {
+      const next = prev.filter((id) => available.has(id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [availableIds]);
+
+  const isSelected = useCallback(
+    (id: string) => selectedIds.includes(id),
+    [selectedIds]
+  );
+
+  /**
+   * Select or unselect a job
+   *
+   * @param orderedIds The jobs around it, in the order shown
+   * @param extend Select every job from the last one selected, e.g. on shift-click
+   */
+  const toggle = useCallback(
+    (id: string, orderedIds: string[], extend = false) => {
+      const anchor = anchorRef.current;
+      const from = anchor ? orderedIds.indexOf(anchor) : -1;
+      const to = orderedIds.indexOf(id);
+
+      if (extend && from !== -1 && to !== -1) {
+        const range = orderedIds.slice(
+          Math.min(from, to),
+          Math.max(from, to) + 1
+        );
+        setSelectedIds((prev) => Array.from(new Set([...prev, ...range])));
+      } else {
+        setSelectedIds((prev) =>
+          prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]
+        );
+      }
+      anchorRef.current = id;
+    },
+    []
+  );
+
+  const selectAll = useCallback((ids: string[]) => {
+    setSelectedIds(ids);
+  }, []);
+
+  const clear = useCallback(() => {
+    setSelectedIds([]);
+    anchorRef.current = null;
+  }, []);
+
+  return { selectedIds, isSelected, toggle, selectAll, clear };
+}
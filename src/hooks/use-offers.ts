@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  JobOffer,
+  JobOfferInput,
+  OfferComparisonSettings,
+  OfferCriterion,
+  deleteOffer,
+  fetchOfferComparisonSettings,
+  fetchOfferCriteria,
+  fetchOffers,
+  saveOffer,
+  saveOfferComparisonSettings,
+  saveOfferCriteria,
+} from "@/services/offerService";
+import {
+  DEFAULT_EXCHANGE_RATES,
+  DEFAULT_OFFER_CRITERIA,
+} from "@/utils/offerUtils";
+import { getUserCurrencyFromLocale } from "@/utils/currencyUtils";
+
+const getDefaultSettings = (): OfferComparisonSettings => ({
+  currency: getUserCurrencyFromLocale().code,
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+});
+
+/**
+ * A hook that loads the user's offers with the criteria and currency they
+ * compare them by, and saves changes to each.
+ * Users who haven't customised their criteria or currency get the defaults.
+ */
+export function useOffers() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [offers, setOffers] = useState<JobOffer[]>([]);
+  const [criteria, setCriteria] = useState<OfferCriterion[]>(
+    DEFAULT_OFFER_CRITERIA
+  );
+  const [settings, setSettings] =
+    useState<OfferComparisonSettings>(getDefaultSettings);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let isCurrent = true;
+    setIsLoading(true);
+
+    Promise.all([
+      fetchOffers(user.id),
+      fetchOfferCriteria(user.id),
+      fetchOfferComparisonSettings(user.id),
+    ])
+      .then(([loadedOffers, loadedCriteria, loadedSettings]) => {
+        if (!isCurrent) return;
+        setOffers(loadedOffers);
+        setCriteria(
+          loadedCriteria.length > 0 ? loadedCriteria : DEFAULT_OFFER_CRITERIA
+        );
+        if (loadedSettings) {
+          // Keep defaults for currencies the user hasn't set a rate for
+          setSettings({
+            currency: loadedSettings.currency,
+            exchangeRates: {
+              ...DEFAULT_EXCHANGE_RATES,
+              ...loadedSettings.exchangeRates,
+            },
+          });
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading offers:", error);
+        toast({
+          title: "Error loading offers",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [user?.id, toast]);
+
+  const saveJobOffer = useCallback(
+    async (jobId: string, input: JobOfferInput): Promise<boolean> => {
+      if (!user?.id) return false;
+
+      try {
+        const offer = await saveOffer(user.id, jobId, input);
+        setOffers((prev) => [...prev.filter((o) => o.jobId !== jobId), offer]);
+        return true;
+      } catch (error) {
+        console.error("Error saving offer:", error);
+        toast({
+          title: "Couldn't save the offer",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+        return false;
+      }
+    },
+    [user?.id, toast]
+  );
+
+  const deleteJobOffer = useCallback(
+    async (jobId: string) => {
+      if (!user?.id) return;
+
+      try {
+        await deleteOffer(jobId);
+        setOffers((prev) => prev.filter((o) => o.jobId !== jobId));
+      } catch (error) {
+        console.error("Error deleting offer:", error);
+        toast({
+          title: "Couldn't delete the offer",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      }
+    },
+    [user?.id, toast]
+  );
+
+  const updateCriteria = useCallback(
+    async (nextCriteria: OfferCriterion[]) => {
+      if (!user?.id) return;
+
+      const previousCriteria = criteria;
+      setCriteria(nextCriteria);
+
+      try {
+        await saveOfferCriteria(user.id, nextCriteria);
+      } catch (error) {
+        console.error("Error saving offer criteria:", error);
+        setCriteria(previousCriteria);
+        toast({
+          title: "Couldn't save your criteria",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      }
+    },
+    [user?.id, criteria, toast]
+  );
+
+  const updateSettings = useCallback(
+    async (nextSettings: OfferComparisonSettings) => {
+      if (!user?.id) return;
+
+      const previousSettings = settings;
+      setSettings(nextSettings);
+
+      try {
+        await saveOfferComparisonSettings(user.id, nextSettings);
+      } catch (error) {
+        console.error("Error saving comparison settings:", error);
+        setSettings(previousSettings);
+        toast({
+          title: "Couldn't save your comparison settings",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      }
+    },
+    [user?.id, settings, toast]
+  );
+
+  return {
+    offers,
+    criteria,
+    settings,
+    isLoading,
+    saveOffer: saveJobOffer,
+    deleteOffer: deleteJobOffer,
+    updateCriteria,
+    updateSettings,
+  };
+}
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useJobs } from "@/contexts/JobContext";
+import { usePipeline } from "@/contexts/PipelineContext";
+import { useTags } from "@/contexts/TagContext";
+import {
+  JobPageCursor,
+  JobPageQuery,
+  getJobSort,
+  isJobWithinCursor,
+  matchesJobPageQuery,
+  sortJobsForPage,
+} from "@/utils/jobPageUtils";
+
+// Wait for typing to pause before asking the database again
+const RELOAD_DELAY_MS = 250;
+
+/**
+ * A hook that pages through the jobs matching a query, sorted and
+ * filtered by the database.
+ *
+ * Loaded pages are kept in the job context, so edits, moves and realtime
+ * changes show straight away. Jobs past the last loaded page are left out
+ * until the list is scrolled to them. When the job context reloads and
+ * drops the pages, the list loads them again from the first.
+ *
+ * @param query - What the list shows and how it is sorted
+ */
+export function usePaginatedJobs(query: JobPageQuery) {
+  const { jobs, reloadCount, fetchJobPage } = useJobs();
+  const { user } = useAuth();
+  const { stages, getStageLabel } = usePipeline();
+  const { tags, getTagsForJob } = useTags();
+
+  const [cursor, setCursor] = useState<JobPageCursor | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Responses for an older query or user are ignored
+  const generationRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  const isMounted = useRef(true);
+
+  // Latest values for loads started from effects and scroll handlers
+  const latestRef = useRef({ query, stages, tags, fetchJobPage });
+  latestRef.current = { query, stages, tags, fetchJobPage };
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  // Stage and tag names only change the results of a search
+  const queryKey = useMemo(
+    () =>
+      JSON.stringify({
+        query,
+        userId: user?.id,
+        names: query.terms?.length
+          ? [stages.map((stage) => stage.label), tags.map((tag) => tag.name)]
+          : null,
+      }),
+    [query, user?.id, stages, tags]
+  );
+
+  const loadPage = useCallback(
+    async (from: JobPageCursor | null, generation: number) => {
+      const { query, stages, tags, fetchJobPage } = latestRef.current;
+
+      try {
+        const page = await fetchJobPage(query, { stages, tags }, from);
+        if (!isMounted.current || generation !== generationRef.current) return;
+
+        setCursor(page.cursor);
+        setHasMore(page.cursor !== null);
+        if (page.totalCount !== null) setTotalCount(page.totalCount);
+        setError(null);
+      } catch (err) {
+        if (!isMounted.current || generation !== generationRef.current) return;
+        console.error("Error loading jobs:", err);
+        setError(err instanceof Error ? err : new Error("Failed to load jobs"));
+      } finally {
+        if (isMounted.current && generation === generationRef.current) {
+          setIsLoading(false);
+          setIsLoadingMore(false);
+          loadingMoreRef.current = false;
+        }
+      }
+    },
+    []
+  );
+
+  /**
+   * Load the first page again, e.g. after the query changes
+   */
+  const reload = useCallback(() => {
+    const generation = ++generationRef.current;
+    loadingMoreRef.current = false;
+    setCursor(null);
+    setHasMore(true);
+    setIsLoadingMore(false);
+    return loadPage(null, generation);
+  }, [loadPage]);
+
+  /**
+   * Load the page after the last one loaded.
+   * After an error, pages only load again once the list is reloaded.
+   */
+  const loadMore = useCallback(() => {
+    if (!cursor || error || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    loadPage(cursor, generationRef.current);
+  }, [cursor, error, loadPage]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    // The first load starts straight away, later ones once typing pauses
+    const timer = setTimeout(
+      reload,
+      generationRef.current === 0 ? 0 : RELOAD_DELAY_MS
+    );
+    return () => clearTimeout(timer);
+  }, [queryKey, user?.id, reloadCount, reload]);
+
+  /**
+   * Loaded jobs that belong in the list, in the order the database pages them.
+   * While a query is reloading, the loaded matches are shown until it answers.
+   */
+  const visibleJobs = useMemo(() => {
+    const sort = getJobSort(query.sortBy);
+    const matching = jobs.filter(
+      (job) =>
+        matchesJobPageQuery(job, query, { getStageLabel, getTagsForJob }) &&
+        (!hasMore || !cursor || isJobWithinCursor(job, cursor, sort))
+    );
+    return sortJobsForPage(matching, sort);
+  }, [jobs, query, hasMore, cursor, getStageLabel, getTagsForJob]);
+
+  return {
+    jobs: visibleJobs,
+    // Exact once every page is loaded, as jobs can change after counting
+    totalCount: hasMore ? totalCount ?? visibleJobs.length : visibleJobs.length,
+    isLoading: isLoading && visibleJobs.length === 0,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    error,
+    reload,
+  };
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PostingSnapshot,
+  capturePostingSnapshot,
+  fetchPostingSnapshots,
+} from "@/services/postingSnapshotService";
+
+/**
+ * A hook that loads a job's posting snapshots, newest first, and captures
+ * the posting again
+ *
+ * @param jobId The job, or null while none is shown
+ * @param url The posting's URL, if the job has one
+ */
+export function usePostingSnapshots(jobId: string | null, url?: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [snapshots, setSnapshots] = useState<PostingSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  useEffect(() => {
+    setSnapshots([]);
+    if (!jobId || !user?.id) return;
+
+    let isCurrent = true;
+    setIsLoading(true);
+
+    fetchPostingSnapshots(jobId)
+      .then((loaded) => {
+        if (isCurrent) setSnapshots(loaded);
+      })
+      .catch((error) =>
+        console.error("Error loading posting snapshots:", error)
+      )
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [jobId, user?.id]);
+
+  const capture = useCallback(async () => {
+    if (!jobId || !url || !user?.id) return;
+    setIsCapturing(true);
+
+    try {
+      const snapshot = await capturePostingSnapshot(user.id, jobId, url);
+
+      if (snapshot) {
+        setSnapshots((prev) => [snapshot, ...prev]);
+        toast({ title: "Posting captured" });
+      } else {
+        toast({
+          title: "Posting unchanged",
+          description: "It matches a snapshot you already have",
+        });
+      }
+    } catch (error) {
+      console.error("Error capturing posting:", error);
+      toast({
+        title: "Couldn't capture the posting",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCapturing(false);
+    }
+  }, [jobId, url, user?.id, toast]);
+
+  return { snapshots, isLoading, isCapturing, capture };
+}
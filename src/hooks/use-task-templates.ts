@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  TaskTemplate,
+  fetchTaskTemplates,
+  saveTaskTemplates,
+} from "@/services/taskService";
+import { DEFAULT_TASK_TEMPLATES } from "@/utils/taskUtils";
+
+/**
+ * A hook that loads the tasks added to applications entering each stage,
+ * and saves changes to them.
+ * Users who haven't customised their templates get the defaults; users
+ * who removed them all get none.
+ */
+export function useTaskTemplates() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<TaskTemplate[]>(
+    DEFAULT_TASK_TEMPLATES
+  );
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let isCurrent = true;
+
+    fetchTaskTemplates(user.id)
+      .then((loaded) => {
+        if (isCurrent && loaded) setTemplates(loaded);
+      })
+      .catch((error) => console.error("Error loading task templates:", error));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [user?.id]);
+
+  const updateTemplates = useCallback(
+    async (nextTemplates: TaskTemplate[]) => {
+      if (!user?.id) return;
+
+      const previousTemplates = templates;
+      setTemplates(nextTemplates);
+
+      try {
+        await saveTaskTemplates(user.id, nextTemplates);
+      } catch (error) {
+        console.error("Error saving task templates:", error);
+        setTemplates(previousTemplates);
+        toast({
+          title: "Couldn't save your task templates",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      }
+    },
+    [user?.id, templates, toast]
+  );
+
+  return { templates, updateTemplates };
+}
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabase";
+import {
+  JobTask,
+  JobTaskInput,
+  createTask,
+  deleteTask,
+  fetchTasks,
+  updateTask,
+} from "@/services/taskService";
+
+/**
+ * A hook that loads the user's tasks, or one application's, and keeps them
+ * in sync as tasks are added, ticked off or removed, including tasks added
+ * when an application changes stage
+ *
+ * @param jobId Only load this application's tasks
+ */
+export function useTasks(jobId?: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<JobTask[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setTasks([]);
+    if (!user?.id) return;
+
+    let isCurrent = true;
+    setIsLoading(true);
+
+    const loadTasks = () =>
+      fetchTasks(user.id, jobId)
+        .then((loaded) => {
+          if (isCurrent) setTasks(loaded);
+        })
+        .catch((error) => console.error("Error loading tasks:", error))
+        .finally(() => {
+          if (isCurrent) setIsLoading(false);
+        });
+
+    loadTasks();
+
+    // Row level security limits these to the user's own tasks
+    const channel = supabase
+      .channel(`job-tasks:${user.id}:${jobId || "all"}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "job_tasks" },
+        () => {
+          loadTasks();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      isCurrent = false;
+      supabase.removeChannel(channel);
+    };
+  }, [jobId, user?.id]);
+
+  const addTask = useCallback(
+    async (taskJobId: string, input: JobTaskInput) => {
+      if (!user?.id) return;
+
+      try {
+        const task = await createTask(user.id, taskJobId, input, tasks.length);
+        setTasks((prev) => [...prev.filter((t) => t.id !== task.id), task]);
+      } catch (error) {
+        console.error("Error adding task:", error);
+        toast({
+          title: "Couldn't add the task",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      }
+    },
+    [user?.id, tasks.length, toast]
+  );
+
+  const saveTask = useCallback(
+    async (
+      taskId: string,
+      changes: Partial<Pick<JobTask, "title" | "dueDate" | "completedAt">>
+    ) => {
+      if (!user?.id) return;
+
+      const previousTasks = tasks;
+      setTasks((prev) =>
+        prev.map((task) =>
+          task.id === taskId ? { ...task, ...changes } : task
+        )
+      );
+
+      try {
+        const task = await updateTask(taskId, changes);
+        setTasks((prev) => prev.map((t) => (t.id === taskId ? task : t)));
+      } catch (error) {
+        console.error("Error updating task:", error);
+        setTasks(previousTasks);
+        toast({
+          title: "Couldn't update the task",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      }
+    },
+    [user?.id, tasks, toast]
+  );
+
+  const toggleTask = useCallback(
+    (task: JobTask) =>
+      saveTask(task.id, {
+        completedAt: task.completedAt ? undefined : new Date().toISOString(),
+      }),
+    [saveTask]
+  );
+
+  const removeTask = useCallback(
+    async (taskId: string) => {
+      if (!user?.id) return;
+
+      try {
+        await deleteTask(taskId);
+        setTasks((prev) => prev.filter((task) => task.id !== taskId));
+      } catch (error) {
+        console.error("Error deleting task:", error);
+        toast({
+          title: "Couldn't delete the task",
+          description:
+            error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      }
+    },
+    [user?.id, toast]
+  );
+
+  return {
+    tasks,
+    isLoading,
+    addTask,
+    updateTask: saveTask,
+    toggleTask,
+    removeTask,
+  };
+}
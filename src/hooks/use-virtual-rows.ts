@@ -0,0 +1,136 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+
+interface UseVirtualRowsOptions {
+  rowKeys: string[]; // A key per row, in order, e.g. the job shown in it
+  estimateRowHeight: number; // Height of rows not yet measured, in pixels
+  overscan?: number; // Rows rendered beyond each edge of the viewport
+  containerRef: RefObject<HTMLElement>; // Element the rows are rendered in
+}
+
+/**
+ * Find the element a container scrolls with, or the window
+ */
+const getScrollParent = (element: HTMLElement | null): HTMLElement | Window => {
+  let parent = element?.parentElement;
+  while (parent) {
+    const { overflowY } = window.getComputedStyle(parent);
+    if (overflowY === "auto" || overflowY === "scroll") return parent;
+    parent = parent.parentElement;
+  }
+  return window;
+};
+
+/**
+ * A hook that works out which rows of a long list are on screen, so only
+ * those are rendered. Rows are measured as they render; spacing between
+ * rows should be padding inside each row so it is measured too.
+ * Heights are kept by row key, so rows keep theirs as others are added,
+ * removed or reordered.
+ *
+ * @param options - Row keys, estimated row height and the list's container
+ * @returns The rows to render, padding standing in for the rest, and a ref
+ * callback each rendered row must be given, by key, to measure it
+ */
+export function useVirtualRows({
+  rowKeys,
+  estimateRowHeight,
+  overscan = 3,
+  containerRef,
+}: UseVirtualRowsOptions) {
+  const count = rowKeys.length;
+  const heightsRef = useRef<Map<string, number>>(new Map());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [range, setRange] = useState({
+    start: 0,
+    end: Math.min(count, overscan * 2),
+  });
+
+  const getRowHeight = useCallback(
+    (index: number) =>
+      heightsRef.current.get(rowKeys[index]) ?? estimateRowHeight,
+    [rowKeys, estimateRowHeight]
+  );
+
+  // Forget the heights of rows no longer in the list
+  useEffect(() => {
+    const keys = new Set(rowKeys);
+    heightsRef.current.forEach((_, key) => {
+      if (!keys.has(key)) heightsRef.current.delete(key);
+    });
+  }, [rowKeys]);
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const scrollParent = getScrollParent(container);
+    const viewportTop =
+      scrollParent === window
+        ? 0
+        : (scrollParent as HTMLElement).getBoundingClientRect().top;
+    const viewportHeight =
+      scrollParent === window
+        ? window.innerHeight
+        : (scrollParent as HTMLElement).clientHeight;
+
+    // Visible part of the container, relative to its top
+    const visibleTop = viewportTop - container.getBoundingClientRect().top;
+    const visibleBottom = visibleTop + viewportHeight;
+
+    let start = 0;
+    let offset = 0;
+    while (start < count && offset + getRowHeight(start) <= visibleTop) {
+      offset += getRowHeight(start);
+      start++;
+    }
+    let end = start;
+    while (end < count && offset < visibleBottom) {
+      offset += getRowHeight(end);
+      end++;
+    }
+
+    const next = {
+      start: Math.max(0, start - overscan),
+      end: Math.min(count, end + overscan),
+    };
+    setRange((prev) =>
+      prev.start === next.start && prev.end === next.end ? prev : next
+    );
+  }, [containerRef, count, overscan, getRowHeight]);
+
+  useEffect(() => {
+    updateRange();
+
+    const scrollParent = getScrollParent(containerRef.current);
+    scrollParent.addEventListener("scroll", updateRange, { passive: true });
+    window.addEventListener("resize", updateRange);
+    return () => {
+      scrollParent.removeEventListener("scroll", updateRange);
+      window.removeEventListener("resize", updateRange);
+    };
+  }, [containerRef, updateRange, measureVersion]);
+
+  /**
+   * Ref callback recording a rendered row's height
+   */
+  const measureRow = useCallback(
+    (key: string) => (element: HTMLElement | null) => {
+      if (!element) return;
+      const height = element.getBoundingClientRect().height;
+      if (height > 0 && heightsRef.current.get(key) !== height) {
+        heightsRef.current.set(key, height);
+        setMeasureVersion((version) => version + 1);
+      }
+    },
+    []
+  );
+
+  const start = Math.min(range.start, count);
+  const end = Math.min(range.end, count);
+  let paddingTop = 0;
+  for (let i = 0; i < start; i++) paddingTop += getRowHeight(i);
+  let paddingBottom = 0;
+  for (let i = end; i < count; i++) paddingBottom += getRowHeight(i);
+
+  return { start, end, paddingTop, paddingBottom, measureRow };
+}
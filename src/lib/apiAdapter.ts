@@ -12,10 +12,16 @@ import {
   syncAllIntegrations,
 } from "@/services/integrationService";
 import {
-  sanitizeInput,
-  sanitizeNumericInput,
-  isSafeUrl,
-} from "@/utils/security";
+  JobListOptions,
+  cleanJobInput,
+  createJob as createJobInRepository,
+  getJobById as getJobFromRepository,
+  getJobsForUser as getJobsFromRepository,
+  searchJobs as searchJobsInRepository,
+  trashJobs,
+  updateJob as updateJobInRepository,
+} from "@/services/jobRepository";
+import { sanitizeInput, sanitizeNumericInput } from "@/utils/security";
 
 // Handler types
 type ApiRequest = {
@@ -274,6 +280,49 @@ const handlers: Record<string, ApiHandler> = {
       });
     }
   },
+
+  // Jobs: list, search (?q=) or get one (?id=); add, update or delete
+  "/api/jobs": async (req, res) => {
+    // Get the user from the session
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session || !session.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const userId = session.user.id;
+    const { id, q } = req.query;
+
+    let result: { success: boolean; error?: string };
+    switch (req.method) {
+      case "GET":
+        result = id
+          ? await getJobById(userId, id)
+          : q
+          ? await searchJobs(userId, q, req.query)
+          : await getJobsForUser(userId, req.query);
+        break;
+      case "POST":
+        result = await createJob(userId, req.body);
+        break;
+      case "PATCH":
+        result = await updateJob(userId, id, req.body);
+        break;
+      case "DELETE":
+        result = await deleteJob(userId, id);
+        break;
+      default:
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    if (result.success) {
+      res.status(req.method === "POST" ? 201 : 200).json(result);
+    } else {
+      res.status(result.error === "Job not found" ? 404 : 400).json(result);
+    }
+  },
 };
 
 // API request handler
@@ -281,7 +330,9 @@ export const handleApiRequest = async (
   path: string,
   options: RequestInit = {}
 ) => {
-  const handler = handlers[path];
+  // Parse query parameters from path
+  const url = new URL(path, window.location.origin);
+  const handler = handlers[url.pathname];
 
   if (!handler) {
     throw new Error(`No handler found for path: ${path}`);
@@ -292,8 +343,6 @@ export const handleApiRequest = async (
   const body = options.body ? JSON.parse(options.body as string) : null;
   const headers = new Headers(options.headers || {});
 
-  // Parse query parameters from path
-  const url = new URL(path, window.location.origin);
   const query: Record<string, string> = {};
   url.searchParams.forEach((value, key) => {
     query[key] = value;
@@ -356,123 +405,48 @@ export const fetchFromApi = async (path: string, options: RequestInit = {}) => {
 };
 
 /**
- * Validate and clean job data to prevent injection attacks
- * @param data Raw job data from user input
- * @returns Sanitized job data
+ * Read list options from request query parameters, e.g.
+ * `?status=applied,interview&sort=company&page=2&limit=20`
  */
-export const validateAndCleanJobData = (data: any) => {
-  if (!data) return null;
-
-  // Create a new object with only allowed fields and sanitized values
-  const cleanedData: any = {};
-
-  // Define allowed fields and their validation/sanitization rules
-  const allowedFields = {
-    title: (val: any) =>
-      typeof val === "string" ? sanitizeInput(val).substring(0, 200) : null,
-    company: (val: any) =>
-      typeof val === "string" ? sanitizeInput(val).substring(0, 100) : null,
-    location: (val: any) =>
-      typeof val === "string" ? sanitizeInput(val).substring(0, 100) : null,
-    description: (val: any) =>
-      typeof val === "string" ? sanitizeInput(val).substring(0, 5000) : null,
-    job_type: (val: any) =>
-      [
-        "full-time",
-        "part-time",
-        "contract",
-        "temporary",
-        "internship",
-        "other",
-      ].includes(val)
-        ? val
-        : null,
-    salary: (val: any) =>
-      typeof val === "string" ? sanitizeInput(val).substring(0, 50) : null,
-    application_date: (val: any) => {
-      // Validate date format (YYYY-MM-DD)
-      if (typeof val !== "string") return null;
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      return dateRegex.test(val) ? val : null;
-    },
-    status: (val: any) =>
-      [
-        "applied",
-        "interview",
-        "offer",
-        "rejected",
-        "accepted",
-        "saved",
-      ].includes(val)
-        ? val
-        : null,
-    notes: (val: any) =>
-      typeof val === "string" ? sanitizeInput(val).substring(0, 2000) : null,
-    url: (val: any) =>
-      typeof val === "string" && isSafeUrl(val)
-        ? sanitizeInput(val).substring(0, 500)
-        : null,
-    contact_name: (val: any) =>
-      typeof val === "string" ? sanitizeInput(val).substring(0, 100) : null,
-    contact_email: (val: any) =>
-      typeof val === "string" ? sanitizeInput(val).substring(0, 100) : null,
-    contact_phone: (val: any) =>
-      typeof val === "string" ? sanitizeInput(val).substring(0, 20) : null,
-    interview_date: (val: any) => {
-      // Validate date format (YYYY-MM-DD)
-      if (typeof val !== "string") return null;
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      return dateRegex.test(val) ? val : null;
-    },
-    priority: (val: any) =>
-      ["low", "medium", "high"].includes(val) ? val : null,
-    user_id: (val: any) => (typeof val === "string" ? val : null), // User IDs should already be validated by Supabase
-  };
+const getJobListOptions = (
+  options: Record<string, any> = {}
+): JobListOptions => {
+  const splitList = (value: any) =>
+    typeof value === "string" && value
+      ? value.split(",").map((item) => sanitizeInput(item.trim()))
+      : undefined;
 
-  // Apply validation rules to each field
-  for (const [field, validator] of Object.entries(allowedFields)) {
-    if (field in data) {
-      const cleaned = validator(data[field]);
-      // Only include non-null values
-      if (cleaned !== null) {
-        cleanedData[field] = cleaned;
-      }
-    }
-  }
-
-  return cleanedData;
+  return {
+    limit: sanitizeNumericInput(options.limit, { min: 1, max: 100 }) || 50,
+    page: sanitizeNumericInput(options.page, { min: 1 }) || 1,
+    sortBy: typeof options.sort === "string" ? options.sort : undefined,
+    statuses: splitList(options.status),
+    tagIds: splitList(options.tags),
+    archived: options.archived === true || options.archived === "true",
+  };
 };
 
 /**
  * Create a new job with proper validation
+ * @param userId ID of the user adding the job
  * @param jobData Job data to save
  * @returns Result of the operation
  */
-export const createJob = async (jobData: any) => {
+export const createJob = async (userId: string, jobData: unknown) => {
   try {
+    // Validate user ID
+    if (!userId || typeof userId !== "string") {
+      throw new Error("Invalid user ID");
+    }
+
     // Validate and clean job data
-    const cleanedData = validateAndCleanJobData(jobData);
+    const cleanedData = cleanJobInput(jobData);
 
     if (!cleanedData) {
       throw new Error("Invalid job data");
     }
 
-    // Ensure required fields are present
-    if (!cleanedData.title || !cleanedData.user_id) {
-      throw new Error("Missing required fields");
-    }
-
-    // Use parameterized query through Supabase
-    const { data, error } = await supabase
-      .from("jobs")
-      .insert(cleanedData)
-      .select();
-
-    if (error) {
-      console.error("Error creating job:", error);
-      throw error;
-    }
-
+    const data = await createJobInRepository(userId, cleanedData);
     return { success: true, data };
   } catch (error) {
     console.error("Job creation failed:", error);
@@ -482,34 +456,35 @@ export const createJob = async (jobData: any) => {
 
 /**
  * Update a job with proper validation
+ * @param userId ID of the user the job belongs to
  * @param jobId ID of the job to update
  * @param jobData New job data
  * @returns Result of the operation
  */
-export const updateJob = async (jobId: string, jobData: any) => {
+export const updateJob = async (
+  userId: string,
+  jobId: string,
+  jobData: unknown
+) => {
   try {
-    // Validate ID
+    // Validate IDs
+    if (!userId || typeof userId !== "string") {
+      throw new Error("Invalid user ID");
+    }
     if (!jobId || typeof jobId !== "string") {
       throw new Error("Invalid job ID");
     }
 
     // Validate and clean job data
-    const cleanedData = validateAndCleanJobData(jobData);
+    const cleanedData = cleanJobInput(jobData);
 
     if (!cleanedData || Object.keys(cleanedData).length === 0) {
       throw new Error("Invalid job data");
     }
 
-    // Use parameterized query through Supabase
-    const { data, error } = await supabase
-      .from("jobs")
-      .update(cleanedData)
-      .eq("id", jobId)
-      .select();
-
-    if (error) {
-      console.error("Error updating job:", error);
-      throw error;
+    const data = await updateJobInRepository(userId, jobId, cleanedData);
+    if (!data) {
+      return { success: false, error: "Job not found" };
     }
 
     return { success: true, data };
@@ -520,25 +495,22 @@ export const updateJob = async (jobId: string, jobData: any) => {
 };
 
 /**
- * Delete a job with proper validation
+ * Move a job to the trash with proper validation
+ * @param userId ID of the user the job belongs to
  * @param jobId ID of the job to delete
  * @returns Result of the operation
  */
-export const deleteJob = async (jobId: string) => {
+export const deleteJob = async (userId: string, jobId: string) => {
   try {
-    // Validate ID
+    // Validate IDs
+    if (!userId || typeof userId !== "string") {
+      throw new Error("Invalid user ID");
+    }
     if (!jobId || typeof jobId !== "string") {
       throw new Error("Invalid job ID");
     }
 
-    // Use parameterized query through Supabase
-    const { error } = await supabase.from("jobs").delete().eq("id", jobId);
-
-    if (error) {
-      console.error("Error deleting job:", error);
-      throw error;
-    }
-
+    await trashJobs(userId, [jobId]);
     return { success: true };
   } catch (error) {
     console.error("Job deletion failed:", error);
@@ -548,26 +520,23 @@ export const deleteJob = async (jobId: string) => {
 
 /**
  * Get a job by ID with proper validation
+ * @param userId ID of the user the job belongs to
  * @param jobId ID of the job to retrieve
  * @returns The job data
  */
-export const getJobById = async (jobId: string) => {
+export const getJobById = async (userId: string, jobId: string) => {
   try {
-    // Validate ID
+    // Validate IDs
+    if (!userId || typeof userId !== "string") {
+      throw new Error("Invalid user ID");
+    }
     if (!jobId || typeof jobId !== "string") {
       throw new Error("Invalid job ID");
     }
 
-    // Use parameterized query through Supabase
-    const { data, error } = await supabase
-      .from("jobs")
-      .select("*")
-      .eq("id", jobId)
-      .single();
-
-    if (error) {
-      console.error("Error fetching job:", error);
-      throw error;
+    const data = await getJobFromRepository(userId, jobId);
+    if (!data) {
+      return { success: false, error: "Job not found" };
     }
 
     return { success: true, data };
@@ -580,66 +549,24 @@ export const getJobById = async (jobId: string) => {
 /**
  * Get jobs for a user with validation and pagination
  * @param userId ID of the user to get jobs for
- * @param options Pagination and filter options
+ * @param options Pagination, sort and filter options, see getJobListOptions
  * @returns List of jobs
  */
-export const getJobsForUser = async (userId: string, options: any = {}) => {
+export const getJobsForUser = async (
+  userId: string,
+  options: Record<string, any> = {}
+) => {
   try {
     // Validate user ID
     if (!userId || typeof userId !== "string") {
       throw new Error("Invalid user ID");
     }
 
-    // Validate and sanitize pagination options
-    const limit =
-      sanitizeNumericInput(options.limit, { min: 1, max: 100 }) || 50;
-    const page = sanitizeNumericInput(options.page, { min: 1 }) || 1;
-    const offset = (page - 1) * limit;
-
-    // Build the query with parameterized values
-    let query = supabase
-      .from("jobs")
-      .select("*", { count: "exact" })
-      .eq("user_id", userId)
-      .order("application_date", { ascending: false });
-
-    // Apply filters if provided
-    if (options.status && typeof options.status === "string") {
-      // Validate status
-      const validStatuses = [
-        "applied",
-        "interview",
-        "offer",
-        "rejected",
-        "accepted",
-        "saved",
-      ];
-      if (validStatuses.includes(options.status)) {
-        query = query.eq("status", options.status);
-      }
-    }
-
-    // Add pagination
-    query = query.range(offset, offset + limit - 1);
-
-    // Execute the query
-    const { data, error, count } = await query;
-
-    if (error) {
-      console.error("Error fetching jobs:", error);
-      throw error;
-    }
-
-    return {
-      success: true,
-      data,
-      pagination: {
-        total: count || 0,
-        page,
-        limit,
-        pages: count ? Math.ceil(count / limit) : 0,
-      },
-    };
+    const { jobs, pagination } = await getJobsFromRepository(
+      userId,
+      getJobListOptions(options)
+    );
+    return { success: true, data: jobs, pagination };
   } catch (error) {
     console.error("Jobs fetch failed:", error);
     return { success: false, error: error.message || "Failed to fetch jobs" };
@@ -649,14 +576,14 @@ export const getJobsForUser = async (userId: string, options: any = {}) => {
 /**
  * Search jobs with proper validation
  * @param userId User ID to search jobs for
- * @param searchTerm Term to search for
- * @param options Additional search options
+ * @param searchTerm Search as written in the search bar, e.g. `acme status:offer`
+ * @param options Additional search options, see getJobListOptions
  * @returns Search results
  */
 export const searchJobs = async (
   userId: string,
   searchTerm: string,
-  options: any = {}
+  options: Record<string, any> = {}
 ) => {
   try {
     // Validate user ID
@@ -664,42 +591,18 @@ export const searchJobs = async (
       throw new Error("Invalid user ID");
     }
 
-    // Sanitize search term and prevent injection
-    const sanitizedTerm = sanitizeInput(searchTerm);
-    if (!sanitizedTerm) {
+    // Search terms are quoted into filters by the repository
+    const term = typeof searchTerm === "string" ? searchTerm.trim() : "";
+    if (!term) {
       return { success: true, data: [], count: 0 }; // Return empty result for empty search
     }
 
-    // Validate and sanitize pagination options
-    const limit =
-      sanitizeNumericInput(options.limit, { min: 1, max: 100 }) || 50;
-    const page = sanitizeNumericInput(options.page, { min: 1 }) || 1;
-    const offset = (page - 1) * limit;
-
-    // Use parameterized full-text search through Supabase
-    // Note: This requires a text search index on the jobs table
-    const { data, error, count } = await supabase
-      .from("jobs")
-      .select("*", { count: "exact" })
-      .eq("user_id", userId)
-      .textSearch("title", sanitizedTerm)
-      .range(offset, offset + limit - 1);
-
-    if (error) {
-      console.error("Error searching jobs:", error);
-      throw error;
-    }
-
-    return {
-      success: true,
-      data,
-      pagination: {
-        total: count || 0,
-        page,
-        limit,
-        pages: count ? Math.ceil(count / limit) : 0,
-      },
-    };
+    const { jobs, pagination } = await searchJobsInRepository(
+      userId,
+      term.substring(0, 500),
+      getJobListOptions(options)
+    );
+    return { success: true, data: jobs, pagination };
   } catch (error) {
     console.error("Job search failed:", error);
     return { success: false, error: error.message || "Failed to search jobs" };
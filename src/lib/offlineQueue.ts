@@ -0,0 +1,131 @@
+/**
+ * Offline mutation queue
+ *
+ * Stores writes that could not reach Supabase in IndexedDB so they survive
+ * reloads, and hands them back in the order they were made once the
+ * connection returns. The queue only stores and orders mutations; applying
+ * them is left to the caller.
+ */
+
+const DB_NAME = "jobtrakr-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "mutations";
+
+/**
+ * A mutation waiting to be written to the database
+ */
+export interface QueuedMutation<T> {
+  seq: number; // Auto-incremented, so sorting by seq preserves write order
+  userId: string;
+  queuedAt: string;
+  mutation: T;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and on first use create) the queue database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("Offline storage is not available in this browser"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, {
+        keyPath: "seq",
+        autoIncrement: true,
+      });
+      store.createIndex("userId", "userId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Run a single request against the mutations store
+ */
+const runRequest = async <R>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<R>
+): Promise<R> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Add a mutation to the end of a user's queue
+ */
+export const enqueueMutation = async <T>(
+  userId: string,
+  mutation: T
+): Promise<void> => {
+  await runRequest("readwrite", (store) =>
+    store.add({ userId, queuedAt: new Date().toISOString(), mutation })
+  );
+};
+
+/**
+ * All of a user's queued mutations, oldest first
+ */
+export const getQueuedMutations = async <T>(
+  userId: string
+): Promise<QueuedMutation<T>[]> => {
+  const entries = await runRequest<QueuedMutation<T>[]>("readonly", (store) =>
+    store.index("userId").getAll(userId)
+  );
+  return entries.sort((a, b) => a.seq - b.seq);
+};
+
+/**
+ * Remove a mutation once it has been applied or discarded
+ */
+export const removeMutation = async (seq: number): Promise<void> => {
+  await runRequest("readwrite", (store) => store.delete(seq));
+};
+
+/**
+ * Number of mutations waiting to sync for a user
+ */
+export const countQueuedMutations = async (userId: string): Promise<number> =>
+  runRequest("readonly", (store) => store.index("userId").count(userId));
+
+/**
+ * Whether an error means the request never reached the server,
+ * as opposed to the server rejecting it
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === "object" && error !== null && "message" in error
+      ? String((error as { message: unknown }).message)
+      : "";
+
+  return /failed to fetch|network ?error|load failed|networkerror/i.test(
+    message
+  );
+};
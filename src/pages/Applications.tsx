@@ -2,22 +2,19 @@ import Layout from "@/components/layout/Layout";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import JobList from "@/components/jobs/JobList";
 import JobListHeader from "@/components/jobs/JobListHeader";
-import { JobApplication } from "@/data/mockJobs";
+import SavedViewsMenu from "@/components/jobs/SavedViewsMenu";
+import ExportMenu from "@/components/jobs/ExportMenu";
 import { useJobs } from "@/contexts/JobContext";
-import {
-  NavigationMenu,
-  NavigationMenuContent,
-  NavigationMenuItem,
-  NavigationMenuLink,
-  NavigationMenuList,
-  NavigationMenuTrigger,
-  navigationMenuTriggerStyle,
-} from "@/components/ui/navigation-menu";
+import { usePipeline } from "@/contexts/PipelineContext";
+import { useSavedViews } from "@/contexts/SavedViewContext";
 import { Button } from "@/components/ui/button";
-import { AlertCircle, Plus, Trash, RefreshCw } from "lucide-react";
-import { useState, useEffect } from "react";
+import { AlertCircle, Copy, Trash, RefreshCw } from "lucide-react";
+import { useState, useEffect, useMemo } from "react";
+import { StageOutcome } from "@/data/mockJobs";
+import { JobPageQuery } from "@/utils/jobPageUtils";
+import { parseJobQuery } from "@/utils/jobQueryUtils";
 import { useToast } from "@/components/ui/use-toast";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import {
   Dialog,
   DialogContent,
@@ -33,41 +30,58 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import EmailParserForm from "@/components/ai/EmailParserForm";
 import JobRecommendationsAI from "@/components/ai/JobRecommendationsAI";
 import AIContentDisplay from "@/components/ai/AIContentDisplay";
-import CreditsDisplay from "@/components/payment/CreditsDisplay";
 import { fetchUserAIContent } from "@/lib/ai-service";
 import { AIGeneratedContent } from "@/types/ai";
 import {
   Card,
   CardContent,
   CardDescription,
-  CardFooter,
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
 import { Sparkles, Lightbulb } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import EmailTrackedItems from "@/components/jobs/EmailTrackedItems";
+import { TRASH_RETENTION_DAYS } from "@/utils/trashUtils";
+import {
+  ApplicationViewMode,
+  ApplicationViewState,
+  JobCardField,
+  JobListFilters,
+  SavedView,
+  getViewIdFromSearchParams,
+  hasViewStateParams,
+  viewStateFromSearchParams,
+  viewStateToSearchParams,
+} from "@/utils/savedViewUtils";
 
 const Applications = () => {
-  const [viewMode, setViewMode] = useState<
-    "all" | "active" | "saved" | "rejected" | "offers"
-  >("all");
-  const [sortBy, setSortBy] = useState("newest");
+  // The tab, sort, filters and card fields live in the URL, so the page can
+  // be bookmarked or shared and saved views can be opened by link
+  const [searchParams, setSearchParams] = useSearchParams();
+  const viewState = useMemo(
+    () => viewStateFromSearchParams(searchParams),
+    [searchParams]
+  );
+  const activeViewId = getViewIdFromSearchParams(searchParams);
+  const { viewMode, sortBy, fields: visibleFields } = viewState;
+  const filters: JobListFilters = {
+    search: viewState.search,
+    statuses: viewState.statuses,
+    tags: viewState.tags,
+  };
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [statusesToDelete, setStatusesToDelete] = useState<
     Record<string, boolean>
-  >({
-    saved: false,
-    applied: false,
-    interview: false,
-    offer: false,
-    rejected: false,
-  });
+  >({});
   const [isDeleting, setIsDeleting] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { jobs, isLoading, deleteJob, refreshJobs } = useJobs();
+  const { deleteJobs, refreshJobs, fetchAllJobs } = useJobs();
+  const { stages } = usePipeline();
+  const [jobCount, setJobCount] = useState(0);
+  const { views, defaultView, isLoading: viewsLoading } = useSavedViews();
   const [jobRecommendations, setJobRecommendations] = useState<
     AIGeneratedContent[]
   >([]);
@@ -75,25 +89,81 @@ const Applications = () => {
     useState(true);
   const { user } = useAuth();
 
-  // Get the current job count based on active tab
-  const getCurrentJobCount = () => {
-    switch (viewMode) {
-      case "active":
-        return jobs.filter(
-          (job) => job.status === "applied" || job.status === "interview"
-        ).length;
-      case "saved":
-        return jobs.filter((job) => job.status === "saved").length;
-      case "rejected":
-        return jobs.filter((job) => job.status === "rejected").length;
-      case "offers":
-        return jobs.filter((job) => job.status === "offer").length;
-      case "all":
-      default:
-        return jobs.length;
-    }
+  /**
+   * Change part of the view, keeping the saved view it came from (if any) so
+   * the views menu can offer to update it
+   */
+  const updateViewState = (changes: Partial<ApplicationViewState>) => {
+    setSearchParams(
+      viewStateToSearchParams({ ...viewState, ...changes }, activeViewId),
+      { replace: true }
+    );
   };
 
+  const setViewMode = (value: ApplicationViewMode) =>
+    updateViewState({ viewMode: value });
+  const setSortBy = (value: string) => updateViewState({ sortBy: value });
+  const setFilters = (value: JobListFilters) => updateViewState(value);
+  const setVisibleFields = (value: JobCardField[]) =>
+    updateViewState({ fields: value });
+
+  const openView = (view: SavedView) => {
+    setSearchParams(viewStateToSearchParams(view.state, view.id));
+  };
+
+  // Open the saved view named in the URL (e.g. from the sidebar), or the
+  // default view when visiting the page without one
+  useEffect(() => {
+    if (viewsLoading || hasViewStateParams(searchParams)) return;
+
+    const view = activeViewId
+      ? views.find((v) => v.id === activeViewId)
+      : defaultView;
+
+    if (view) {
+      setSearchParams(viewStateToSearchParams(view.state, view.id), {
+        replace: true,
+      });
+    } else if (activeViewId) {
+      // The view has been deleted; fall back to the plain page
+      setSearchParams(new URLSearchParams(), { replace: true });
+    }
+  }, [searchParams, activeViewId, views, defaultView, viewsLoading]);
+
+  // Stage keys shown on each tab
+  const tabScopes = useMemo(() => {
+    const keysFor = (...outcomes: StageOutcome[]) =>
+      stages
+        .filter((stage) => outcomes.includes(stage.outcome))
+        .map((stage) => stage.key);
+
+    return {
+      active: keysFor("applied", "interview"),
+      saved: keysFor("saved"),
+      rejected: keysFor("rejected"),
+      offers: keysFor("offer"),
+    };
+  }, [stages]);
+
+  // What the list shows, for exporting
+  const exportQuery = useMemo<JobPageQuery>(
+    () => ({
+      sortBy,
+      scope:
+        viewMode === "all" || viewMode === "archived"
+          ? undefined
+          : tabScopes[viewMode],
+      statuses: viewState.statuses,
+      tagIds: viewState.tags,
+      terms: parseJobQuery(viewState.search),
+      archived: viewMode === "archived",
+    }),
+    [sortBy, viewMode, tabScopes, viewState]
+  );
+  const exportName =
+    views.find((view) => view.id === activeViewId)?.name ||
+    (viewMode === "all" ? "applications" : `${viewMode} applications`);
+
   // Toggle a status selection
   const toggleStatus = (status: string) => {
     setStatusesToDelete((prev) => ({
@@ -121,9 +191,10 @@ const Applications = () => {
     setIsDeleting(true);
 
     try {
-      // Filter jobs by the selected statuses
-      const jobsToDelete = jobs.filter((job) =>
-        selectedStatuses.includes(job.status)
+      // Load every job with the selected statuses, not just the pages shown
+      const jobsToDelete = await fetchAllJobs(
+        { sortBy: "updated", scope: selectedStatuses },
+        { stages, tags: [] }
       );
 
       if (jobsToDelete.length === 0) {
@@ -137,18 +208,8 @@ const Applications = () => {
         return;
       }
 
-      // Delete each job sequentially
-      for (const job of jobsToDelete) {
-        await deleteJob(job.id);
-      }
-
-      const statusText =
-        selectedStatuses.length > 1 ? "selected statuses" : selectedStatuses[0];
-
-      toast({
-        title: "Jobs deleted",
-        description: `Successfully deleted ${jobsToDelete.length} jobs with ${statusText}.`,
-      });
+      // Move them to the trash together so a single undo restores them all
+      await deleteJobs(jobsToDelete.map((job) => job.id));
 
       setIsDeleteDialogOpen(false);
     } catch (error) {
@@ -201,28 +262,6 @@ const Applications = () => {
     }
   };
 
-  // This effect runs when the component mounts to ensure data freshness
-  useEffect(() => {
-    // Force a rerender when the page is visited
-    console.log("Applications page mounted, jobs count:", jobs.length);
-
-    // If we have data already, we're good, if not, the JobContext will fetch it
-    if (jobs.length === 0 && !isLoading) {
-      console.log("No jobs found, attempting to refresh...");
-      refreshJobs();
-    }
-  }, []);
-
-  // Add a diagnostic effect to track when jobs change
-  useEffect(() => {
-    console.log(
-      "Applications: Jobs data changed, now has",
-      jobs.length,
-      "jobs. Loading:",
-      isLoading
-    );
-  }, [jobs, isLoading]);
-
   // Load job recommendations when user is available
   useEffect(() => {
     if (user?.id) {
@@ -263,9 +302,9 @@ const Applications = () => {
         </div>
 
         <Tabs
-          defaultValue="all"
+          value={viewMode}
           className="w-full"
-          onValueChange={(value) => setViewMode(value as any)}
+          onValueChange={(value) => setViewMode(value as ApplicationViewMode)}
         >
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4">
             <div className="w-full sm:w-auto overflow-x-auto pb-2 sm:pb-0">
@@ -275,193 +314,188 @@ const Applications = () => {
                 <TabsTrigger value="saved">Saved</TabsTrigger>
                 <TabsTrigger value="rejected">Rejected</TabsTrigger>
                 <TabsTrigger value="offers">Offers</TabsTrigger>
+                <TabsTrigger value="archived">Archived</TabsTrigger>
               </TabsList>
             </div>
 
-            <Dialog
-              open={isDeleteDialogOpen}
-              onOpenChange={setIsDeleteDialogOpen}
-            >
-              <DialogTrigger asChild>
-                <Button
-                  className="mt-2 sm:mt-0 rounded-md text-sm h-9"
-                  variant="destructive"
-                  size="sm"
-                >
-                  <Trash className="mr-2 h-4 w-4" />
-                  Mass Delete
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Delete Jobs by Status</DialogTitle>
-                  <DialogDescription>
-                    This will permanently delete all jobs with the selected
-                    statuses.
-                  </DialogDescription>
-                </DialogHeader>
-
-                <div className="py-4">
-                  <Alert variant="destructive" className="mb-4">
-                    <AlertCircle className="h-4 w-4" />
-                    <AlertTitle>Warning</AlertTitle>
-                    <AlertDescription>
-                      This action cannot be undone. All selected jobs will be
-                      permanently deleted.
-                    </AlertDescription>
-                  </Alert>
-
-                  <div className="space-y-3">
-                    <div className="text-sm font-medium">
-                      Select statuses to delete
-                    </div>
-                    <div className="space-y-2">
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="saved"
-                          checked={statusesToDelete.saved}
-                          onCheckedChange={() => toggleStatus("saved")}
-                        />
-                        <label
-                          htmlFor="saved"
-                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                        >
-                          Saved
-                        </label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="applied"
-                          checked={statusesToDelete.applied}
-                          onCheckedChange={() => toggleStatus("applied")}
-                        />
-                        <label
-                          htmlFor="applied"
-                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                        >
-                          Applied
-                        </label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="interview"
-                          checked={statusesToDelete.interview}
-                          onCheckedChange={() => toggleStatus("interview")}
-                        />
-                        <label
-                          htmlFor="interview"
-                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                        >
-                          Interview
-                        </label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="offer"
-                          checked={statusesToDelete.offer}
-                          onCheckedChange={() => toggleStatus("offer")}
-                        />
-                        <label
-                          htmlFor="offer"
-                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                        >
-                          Offer
-                        </label>
+            <div className="flex gap-2 mt-2 sm:mt-0">
+              <SavedViewsMenu
+                state={viewState}
+                activeViewId={activeViewId}
+                onSelectView={openView}
+              />
+              <ExportMenu query={exportQuery} name={exportName} />
+              <Button
+                variant="outline"
+                size="sm"
+                className="rounded-md text-sm h-9"
+                onClick={() => navigate("/trash")}
+              >
+                <Trash className="mr-2 h-4 w-4" />
+                Trash
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="rounded-md text-sm h-9"
+                onClick={() => navigate("/duplicates")}
+              >
+                <Copy className="mr-2 h-4 w-4" />
+                Duplicates
+              </Button>
+              <Dialog
+                open={isDeleteDialogOpen}
+                onOpenChange={setIsDeleteDialogOpen}
+              >
+                <DialogTrigger asChild>
+                  <Button
+                    className="rounded-md text-sm h-9"
+                    variant="destructive"
+                    size="sm"
+                  >
+                    <Trash className="mr-2 h-4 w-4" />
+                    Mass Delete
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Delete Jobs by Status</DialogTitle>
+                    <DialogDescription>
+                      This will move all jobs with the selected statuses to the
+                      trash.
+                    </DialogDescription>
+                  </DialogHeader>
+
+                  <div className="py-4">
+                    <Alert variant="destructive" className="mb-4">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle>Warning</AlertTitle>
+                      <AlertDescription>
+                        Deleted jobs can be restored from the trash for{" "}
+                        {TRASH_RETENTION_DAYS} days, after which they are
+                        permanently deleted.
+                      </AlertDescription>
+                    </Alert>
+
+                    <div className="space-y-3">
+                      <div className="text-sm font-medium">
+                        Select statuses to delete
                       </div>
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="rejected"
-                          checked={statusesToDelete.rejected}
-                          onCheckedChange={() => toggleStatus("rejected")}
-                        />
-                        <label
-                          htmlFor="rejected"
-                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                        >
-                          Rejected
-                        </label>
+                      <div className="space-y-2">
+                        {stages.map((stage) => (
+                          <div
+                            key={stage.key}
+                            className="flex items-center space-x-2"
+                          >
+                            <Checkbox
+                              id={`delete-${stage.key}`}
+                              checked={!!statusesToDelete[stage.key]}
+                              onCheckedChange={() => toggleStatus(stage.key)}
+                            />
+                            <label
+                              htmlFor={`delete-${stage.key}`}
+                              className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                            >
+                              {stage.label}
+                            </label>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
-                </div>
 
-                <DialogFooter>
-                  <DialogClose asChild>
-                    <Button variant="outline">Cancel</Button>
-                  </DialogClose>
-                  <Button
-                    variant="destructive"
-                    onClick={deleteJobsByStatus}
-                    disabled={
-                      isDeleting ||
-                      !Object.values(statusesToDelete).some(Boolean)
-                    }
-                  >
-                    {isDeleting ? "Deleting..." : "Delete All"}
-                  </Button>
-                </DialogFooter>
-              </DialogContent>
-            </Dialog>
+                  <DialogFooter>
+                    <DialogClose asChild>
+                      <Button variant="outline">Cancel</Button>
+                    </DialogClose>
+                    <Button
+                      variant="destructive"
+                      onClick={deleteJobsByStatus}
+                      disabled={
+                        isDeleting ||
+                        !Object.values(statusesToDelete).some(Boolean)
+                      }
+                    >
+                      {isDeleting ? "Deleting..." : "Delete All"}
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
 
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
             <JobListHeader
-              jobCount={getCurrentJobCount()}
+              jobCount={jobCount}
               sortBy={sortBy}
               setSortBy={setSortBy}
+              visibleFields={visibleFields}
+              setVisibleFields={setVisibleFields}
             />
 
             <div className="mt-6">
               <TabsContent value="all" className="p-0 mt-0">
                 <JobList
-                  jobs={jobs}
-                  isLoading={isLoading}
-                  onRetry={handleRefresh}
                   sortBy={sortBy}
-                  setSortBy={setSortBy}
+                  filters={filters}
+                  setFilters={setFilters}
+                  visibleFields={visibleFields}
+                  onTotalCountChange={setJobCount}
                 />
               </TabsContent>
 
               <TabsContent value="active" className="p-0 mt-0">
                 <JobList
-                  jobs={jobs.filter(
-                    (job) =>
-                      job.status === "applied" || job.status === "interview"
-                  )}
-                  isLoading={isLoading}
-                  onRetry={handleRefresh}
+                  scope={tabScopes.active}
                   sortBy={sortBy}
-                  setSortBy={setSortBy}
+                  filters={filters}
+                  setFilters={setFilters}
+                  visibleFields={visibleFields}
+                  onTotalCountChange={setJobCount}
                 />
               </TabsContent>
 
               <TabsContent value="saved" className="p-0 mt-0">
                 <JobList
-                  jobs={jobs.filter((job) => job.status === "saved")}
-                  isLoading={isLoading}
-                  onRetry={handleRefresh}
+                  scope={tabScopes.saved}
                   sortBy={sortBy}
-                  setSortBy={setSortBy}
+                  filters={filters}
+                  setFilters={setFilters}
+                  visibleFields={visibleFields}
+                  onTotalCountChange={setJobCount}
                 />
               </TabsContent>
 
               <TabsContent value="rejected" className="p-0 mt-0">
                 <JobList
-                  jobs={jobs.filter((job) => job.status === "rejected")}
-                  isLoading={isLoading}
-                  onRetry={handleRefresh}
+                  scope={tabScopes.rejected}
                   sortBy={sortBy}
-                  setSortBy={setSortBy}
+                  filters={filters}
+                  setFilters={setFilters}
+                  visibleFields={visibleFields}
+                  onTotalCountChange={setJobCount}
                 />
               </TabsContent>
 
               <TabsContent value="offers" className="p-0 mt-0">
                 <JobList
-                  jobs={jobs.filter((job) => job.status === "offer")}
-                  isLoading={isLoading}
-                  onRetry={handleRefresh}
+                  scope={tabScopes.offers}
+                  sortBy={sortBy}
+                  filters={filters}
+                  setFilters={setFilters}
+                  visibleFields={visibleFields}
+                  onTotalCountChange={setJobCount}
+                />
+              </TabsContent>
+
+              <TabsContent value="archived" className="p-0 mt-0">
+                <JobList
+                  archived
                   sortBy={sortBy}
-                  setSortBy={setSortBy}
+                  filters={filters}
+                  setFilters={setFilters}
+                  visibleFields={visibleFields}
+                  onTotalCountChange={setJobCount}
                 />
               </TabsContent>
             </div>
@@ -3,7 +3,8 @@ import Layout from "@/components/layout/Layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Calendar as CalendarPicker } from "@/components/ui/calendar";
-import { useJobs } from "@/contexts/JobContext";
+import { useAllJobs } from "@/hooks/use-all-jobs";
+import { fetchJobsWithEvents } from "@/services/jobRepository";
 import JobDetailsModal from "@/components/jobs/JobDetailsModal";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
@@ -75,7 +76,8 @@ const COLORS = [
 ];
 
 const CalendarPage = () => {
-  const { jobs } = useJobs();
+  // Events of applications lists haven't loaded are shown too
+  const { jobs } = useAllJobs(fetchJobsWithEvents);
   const [currentWeek, setCurrentWeek] = useState<Date>(new Date());
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
@@ -679,6 +681,7 @@ const CalendarPage = () => {
           isOpen={true}
           onClose={() => setSelectedJobId(null)}
           jobId={selectedJobId}
+          fallbackJob={jobs.find((job) => job.id === selectedJobId)}
         />
       )}
     </Layout>
@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { format } from 'date-fns'
+import { Building2, Search } from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { useAuth } from '@/contexts/AuthContext'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import CompanyLogo from '@/components/jobs/CompanyLogo'
+import { useToast } from '@/hooks/use-toast'
+import { useDocumentTitle } from '@/hooks/use-document-title'
+import { CompanySummary, fetchCompanies } from '@/services/companyService'
+
+type CompanySort = 'recent' | 'name' | 'applications'
+
+const sortCompanies = (companies: CompanySummary[], sortBy: CompanySort) =>
+	[...companies].sort((a, b) => {
+		switch (sortBy) {
+			case 'name':
+				return a.name.localeCompare(b.name)
+			case 'applications':
+				return b.applicationCount - a.applicationCount
+			case 'recent':
+			default:
+				return (b.lastAppliedAt || '').localeCompare(a.lastAppliedAt || '')
+		}
+	})
+
+const Companies = () => {
+	useDocumentTitle('Companies | JobTrakr')
+	const { user } = useAuth()
+	const { toast } = useToast()
+	const [companies, setCompanies] = useState<CompanySummary[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	const [searchTerm, setSearchTerm] = useState('')
+	const [sortBy, setSortBy] = useState<CompanySort>('recent')
+
+	useEffect(() => {
+		if (!user?.id) return
+
+		fetchCompanies(user.id)
+			.then(setCompanies)
+			.catch((error) => {
+				console.error('Error loading companies:', error)
+				toast({
+					title: 'Error loading companies',
+					description:
+						error instanceof Error ? error.message : 'Please try again',
+					variant: 'destructive',
+				})
+			})
+			.finally(() => setIsLoading(false))
+	}, [user?.id, toast])
+
+	const visibleCompanies = useMemo(() => {
+		const term = searchTerm.trim().toLowerCase()
+		const filtered = term
+			? companies.filter(
+					(company) =>
+						company.name.toLowerCase().includes(term) ||
+						company.aliases.some((alias) =>
+							alias.toLowerCase().includes(term)
+						) ||
+						company.industry?.toLowerCase().includes(term) ||
+						company.domain?.includes(term)
+			  )
+			: companies
+		return sortCompanies(
+			filtered.filter((company) => company.applicationCount > 0),
+			sortBy
+		)
+	}, [companies, searchTerm, sortBy])
+
+	if (isLoading) {
+		return (
+			<Layout>
+				<div className='w-full max-w-5xl mx-auto space-y-4'>
+					<Skeleton className='h-8 w-40' />
+					{[1, 2, 3].map((i) => (
+						<Skeleton
+							key={i}
+							className='h-20 w-full rounded-xl'
+						/>
+					))}
+				</div>
+			</Layout>
+		)
+	}
+
+	return (
+		<Layout>
+			<div className='w-full max-w-5xl mx-auto'>
+				<div className='flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4'>
+					<div>
+						<h1 className='text-2xl font-bold text-gray-900'>Companies</h1>
+						<p className='text-sm text-gray-500 mt-1'>
+							Every company you've applied to, with everything that happened
+						</p>
+					</div>
+					<div className='flex w-full md:w-auto gap-2'>
+						<div className='relative flex-1 md:w-64'>
+							<Search className='absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400' />
+							<Input
+								value={searchTerm}
+								onChange={(e) => setSearchTerm(e.target.value)}
+								placeholder='Search companies...'
+								className='pl-9'
+							/>
+						</div>
+						<Select
+							value={sortBy}
+							onValueChange={(value) => setSortBy(value as CompanySort)}
+						>
+							<SelectTrigger className='w-[170px]'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value='recent'>Recently applied</SelectItem>
+								<SelectItem value='applications'>Most applications</SelectItem>
+								<SelectItem value='name'>Name</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+
+				{visibleCompanies.length === 0 ? (
+					<div className='text-center text-gray-500 py-16'>
+						<Building2 className='h-12 w-12 mx-auto mb-4 text-gray-300' />
+						<p>No companies found</p>
+						<p className='text-sm'>
+							Companies are added as you save applications
+						</p>
+					</div>
+				) : (
+					<div className='space-y-3'>
+						{visibleCompanies.map((company) => (
+							<Link
+								key={company.id}
+								to={`/companies/${company.id}`}
+								className='block'
+							>
+								<Card className='shadow-sm hover:shadow-md transition-shadow'>
+									<CardContent className='p-4 flex items-center gap-4'>
+										<CompanyLogo
+											company={company.name}
+											logo={company.logoUrl}
+										/>
+										<div className='flex-1 min-w-0'>
+											<p className='font-semibold text-gray-900 truncate'>
+												{company.name}
+											</p>
+											<p className='text-sm text-gray-500 truncate'>
+												{[
+													company.industry,
+													company.size && `${company.size} people`,
+													company.domain,
+												]
+													.filter(Boolean)
+													.join(' · ') || 'No details yet'}
+											</p>
+										</div>
+										<div className='text-right flex-shrink-0'>
+											<Badge variant='secondary'>
+												{company.applicationCount}{' '}
+												{company.applicationCount === 1
+													? 'application'
+													: 'applications'}
+											</Badge>
+											{company.lastAppliedAt && (
+												<p className='text-xs text-gray-500 mt-1'>
+													Last{' '}
+													{format(
+														new Date(company.lastAppliedAt),
+														'MMM d, yyyy'
+													)}
+												</p>
+											)}
+										</div>
+									</CardContent>
+								</Card>
+							</Link>
+						))}
+					</div>
+				)}
+			</div>
+		</Layout>
+	)
+}
+
+export default Companies
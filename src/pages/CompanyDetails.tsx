@@ -0,0 +1,407 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { format } from 'date-fns'
+import {
+	Briefcase,
+	CalendarDays,
+	ChevronLeft,
+	ExternalLink,
+	GitCommitHorizontal,
+	Mail,
+	Pencil,
+	Plus,
+	Users,
+} from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { useAuth } from '@/contexts/AuthContext'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import CompanyLogo from '@/components/jobs/CompanyLogo'
+import CompanyFormDialog from '@/components/jobs/CompanyFormDialog'
+import JobDetailsModal from '@/components/jobs/JobDetailsModal'
+import { useToast } from '@/hooks/use-toast'
+import { useDocumentTitle } from '@/hooks/use-document-title'
+import { Company, StageOutcome, stageOutcomes } from '@/data/mockJobs'
+import {
+	CompanyActivity,
+	fetchCompany,
+	fetchCompanyActivity,
+	updateCompany,
+} from '@/services/companyService'
+import {
+	CompanyTimelineEntry,
+	countCompanyOutcomes,
+	getCompanyTimeline,
+} from '@/utils/companyUtils'
+import { outcomeLabels } from '@/utils/pipelineUtils'
+
+const timelineIcons: Record<CompanyTimelineEntry['type'], React.ElementType> = {
+	applied: Plus,
+	status: GitCommitHorizontal,
+	interview: CalendarDays,
+	email: Mail,
+	contact: Users,
+}
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy')
+
+const CompanyDetails = () => {
+	const { companyId } = useParams<{ companyId: string }>()
+	const { user } = useAuth()
+	const { getStage, getStageLabel, getOutcome } = usePipeline()
+	const { toast } = useToast()
+	const [company, setCompany] = useState<Company | null>(null)
+	const [activity, setActivity] = useState<CompanyActivity | null>(null)
+	const [isLoading, setIsLoading] = useState(true)
+	const [isEditing, setIsEditing] = useState(false)
+	const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+	useDocumentTitle(`${company?.name || 'Company'} | JobTrakr`)
+
+	useEffect(() => {
+		if (!user?.id || !companyId) return
+
+		setIsLoading(true)
+		Promise.all([
+			fetchCompany(companyId),
+			fetchCompanyActivity(user.id, companyId),
+		])
+			.then(([loadedCompany, loadedActivity]) => {
+				setCompany(loadedCompany)
+				setActivity(loadedActivity)
+			})
+			.catch((error) => {
+				console.error('Error loading company:', error)
+				toast({
+					title: 'Error loading company',
+					description:
+						error instanceof Error ? error.message : 'Please try again',
+					variant: 'destructive',
+				})
+			})
+			.finally(() => setIsLoading(false))
+	}, [user?.id, companyId, toast])
+
+	const timeline = useMemo(
+		() => (activity ? getCompanyTimeline(activity, getStageLabel) : []),
+		[activity, getStageLabel]
+	)
+
+	const outcomeCounts = useMemo(
+		() => (activity ? countCompanyOutcomes(activity, getOutcome) : {}),
+		[activity, getOutcome]
+	)
+
+	const positionById = useMemo(
+		() =>
+			new Map(
+				(activity?.applications || []).map((job) => [job.id, job.position])
+			),
+		[activity]
+	)
+
+	const handleSave = async (changes: Company) => {
+		const saved = await updateCompany(changes)
+		setCompany(saved)
+		toast({ title: 'Company saved' })
+	}
+
+	if (isLoading) {
+		return (
+			<Layout>
+				<div className='w-full max-w-5xl mx-auto space-y-4'>
+					<Skeleton className='h-16 w-72' />
+					<Skeleton className='h-40 w-full rounded-xl' />
+					<Skeleton className='h-64 w-full rounded-xl' />
+				</div>
+			</Layout>
+		)
+	}
+
+	if (!company || !activity) {
+		return (
+			<Layout>
+				<div className='w-full max-w-5xl mx-auto text-center text-gray-500 py-16'>
+					<p>This company couldn't be found</p>
+					<Link
+						to='/companies'
+						className='text-sm text-blue-600 hover:underline'
+					>
+						Back to companies
+					</Link>
+				</div>
+			</Layout>
+		)
+	}
+
+	const applicationCount = activity.applications.length
+	const selectedJob = activity.applications.find(
+		(job) => job.id === selectedJobId
+	)
+
+	return (
+		<Layout>
+			<div className='w-full max-w-5xl mx-auto space-y-6'>
+				<Link
+					to='/companies'
+					className='inline-flex items-center text-sm text-gray-500 hover:text-gray-900'
+				>
+					<ChevronLeft className='h-4 w-4 mr-1' />
+					Companies
+				</Link>
+
+				<div className='flex flex-col md:flex-row md:items-start justify-between gap-4'>
+					<div className='flex items-start gap-4'>
+						<CompanyLogo
+							company={company.name}
+							logo={company.logoUrl}
+							size='lg'
+						/>
+						<div className='space-y-1'>
+							<h1 className='text-2xl font-bold text-gray-900'>
+								{company.name}
+							</h1>
+							{company.aliases.length > 0 && (
+								<p className='text-sm text-gray-500'>
+									Also known as {company.aliases.join(', ')}
+								</p>
+							)}
+							<div className='flex flex-wrap items-center gap-2 text-sm text-gray-500'>
+								{company.industry && <span>{company.industry}</span>}
+								{company.size && <span>{company.size} people</span>}
+								{company.website && (
+									<a
+										href={company.website}
+										target='_blank'
+										rel='noopener noreferrer'
+										className='text-blue-600 hover:underline inline-flex items-center'
+									>
+										{company.domain || 'Website'}
+										<ExternalLink className='h-3 w-3 ml-1' />
+									</a>
+								)}
+							</div>
+						</div>
+					</div>
+					<Button
+						variant='outline'
+						onClick={() => setIsEditing(true)}
+					>
+						<Pencil className='h-4 w-4 mr-2' />
+						Edit
+					</Button>
+				</div>
+
+				{company.notes && (
+					<p className='text-sm text-gray-700 whitespace-pre-wrap bg-gray-50 rounded-md p-4'>
+						{company.notes}
+					</p>
+				)}
+
+				<div className='flex flex-wrap items-center gap-2 text-sm'>
+					<span className='font-medium text-gray-900'>
+						Applied {applicationCount}{' '}
+						{applicationCount === 1 ? 'time' : 'times'}
+					</span>
+					{stageOutcomes
+						.filter((outcome: StageOutcome) => outcomeCounts[outcome])
+						.map((outcome: StageOutcome) => (
+							<Badge
+								key={outcome}
+								variant='outline'
+								className='font-normal'
+							>
+								{outcomeCounts[outcome]} {outcomeLabels[outcome]}
+							</Badge>
+						))}
+				</div>
+
+				<div className='grid grid-cols-1 lg:grid-cols-3 gap-6'>
+					<div className='lg:col-span-2 space-y-6'>
+						<Card>
+							<CardHeader>
+								<CardTitle className='text-base flex items-center'>
+									<Briefcase className='h-4 w-4 mr-2' />
+									Applications
+								</CardTitle>
+							</CardHeader>
+							<CardContent className='space-y-2'>
+								{activity.applications.length === 0 ? (
+									<p className='text-sm text-gray-500 italic'>
+										No applications to this company
+									</p>
+								) : (
+									activity.applications.map((job) => {
+										const stage = getStage(job.status)
+										return (
+											<button
+												key={job.id}
+												type='button'
+												onClick={() => setSelectedJobId(job.id)}
+												className='w-full flex items-center justify-between gap-4 rounded-md border p-3 text-left hover:bg-gray-50'
+											>
+												<div className='min-w-0'>
+													<p className='font-medium text-gray-900 truncate'>
+														{job.position}
+													</p>
+													<p className='text-xs text-gray-500'>
+														{job.appliedDate
+															? `Applied ${formatDate(job.appliedDate)}`
+															: `Added ${formatDate(job.lastUpdated)}`}
+														{job.archivedAt && ' · Archived'}
+													</p>
+												</div>
+												<Badge
+													variant='outline'
+													className='flex-shrink-0'
+												>
+													<span
+														className='w-2 h-2 rounded-full mr-1.5'
+														style={{ backgroundColor: stage.color }}
+													/>
+													{stage.label}
+												</Badge>
+											</button>
+										)
+									})
+								)}
+							</CardContent>
+						</Card>
+
+						<Card>
+							<CardHeader>
+								<CardTitle className='text-base'>Timeline</CardTitle>
+							</CardHeader>
+							<CardContent>
+								{timeline.length === 0 ? (
+									<p className='text-sm text-gray-500 italic'>
+										Nothing has happened yet
+									</p>
+								) : (
+									<ol className='relative border-l border-gray-200 ml-3 space-y-4'>
+										{timeline.map((entry) => {
+											const Icon = timelineIcons[entry.type]
+											return (
+												<li
+													key={entry.id}
+													className='ml-6'
+												>
+													<span className='absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-white border border-gray-200'>
+														<Icon className='h-3 w-3 text-gray-500' />
+													</span>
+													<p className='text-xs text-gray-500'>
+														{formatDate(entry.date)}
+													</p>
+													<p className='text-sm font-medium text-gray-900'>
+														{entry.title}
+													</p>
+													{entry.description && (
+														<p className='text-sm text-gray-600'>
+															{entry.description}
+														</p>
+													)}
+												</li>
+											)
+										})}
+									</ol>
+								)}
+							</CardContent>
+						</Card>
+					</div>
+
+					<div className='space-y-6'>
+						<Card>
+							<CardHeader>
+								<CardTitle className='text-base flex items-center'>
+									<Users className='h-4 w-4 mr-2' />
+									Contacts
+								</CardTitle>
+							</CardHeader>
+							<CardContent className='space-y-3'>
+								{activity.contacts.length === 0 ? (
+									<p className='text-sm text-gray-500 italic'>
+										No contacts at this company
+									</p>
+								) : (
+									activity.contacts.map((contact) => (
+										<div
+											key={contact.id}
+											className='text-sm'
+										>
+											<p className='font-medium text-gray-900'>
+												{contact.name}
+												{contact.position && (
+													<span className='font-normal text-gray-500'>
+														{' '}
+														· {contact.position}
+													</span>
+												)}
+											</p>
+											<a
+												href={`mailto:${contact.email}`}
+												className='text-blue-600 hover:underline'
+											>
+												{contact.email}
+											</a>
+											<p className='text-xs text-gray-500'>
+												For {positionById.get(contact.jobId)}
+											</p>
+										</div>
+									))
+								)}
+							</CardContent>
+						</Card>
+
+						<Card>
+							<CardHeader>
+								<CardTitle className='text-base flex items-center'>
+									<Mail className='h-4 w-4 mr-2' />
+									Emails
+								</CardTitle>
+							</CardHeader>
+							<CardContent className='space-y-3'>
+								{activity.emails.length === 0 ? (
+									<p className='text-sm text-gray-500 italic'>
+										No emails linked to these applications
+									</p>
+								) : (
+									activity.emails.map((email) => (
+										<div
+											key={email.id}
+											className='text-sm'
+										>
+											<p className='font-medium text-gray-900 truncate'>
+												{email.subject || '(No subject)'}
+											</p>
+											<p className='text-xs text-gray-500 truncate'>
+												{email.sender} · {formatDate(email.receivedAt)}
+											</p>
+										</div>
+									))
+								)}
+							</CardContent>
+						</Card>
+					</div>
+				</div>
+			</div>
+
+			<CompanyFormDialog
+				isOpen={isEditing}
+				onClose={() => setIsEditing(false)}
+				onSubmit={handleSave}
+				company={company}
+			/>
+
+			<JobDetailsModal
+				isOpen={!!selectedJobId}
+				onClose={() => setSelectedJobId(null)}
+				jobId={selectedJobId}
+				fallbackJob={selectedJob}
+			/>
+		</Layout>
+	)
+}
+
+export default CompanyDetails
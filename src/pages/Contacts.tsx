@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Mail, Phone, Search, Users, MessageSquare } from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { useJobs } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import JobDetailsModal from '@/components/jobs/JobDetailsModal'
+import { useDocumentTitle } from '@/hooks/use-document-title'
+import { useAllJobs } from '@/hooks/use-all-jobs'
+import { fetchJobsWithContacts } from '@/services/jobRepository'
+import {
+	AggregatedContact,
+	aggregateContacts,
+	needsFollowUp,
+} from '@/utils/contactUtils'
+
+type ContactSort = 'follow-up' | 'name' | 'recent'
+
+const sortContacts = (contacts: AggregatedContact[], sortBy: ContactSort) => {
+	const lastContactedTime = (contact: AggregatedContact) =>
+		contact.lastContactedAt ? new Date(contact.lastContactedAt).getTime() : 0
+
+	return [...contacts].sort((a, b) => {
+		switch (sortBy) {
+			case 'name':
+				return a.name.localeCompare(b.name)
+			case 'recent':
+				return lastContactedTime(b) - lastContactedTime(a)
+			case 'follow-up':
+			default:
+				// Longest without contact first, never-contacted at the top
+				return lastContactedTime(a) - lastContactedTime(b)
+		}
+	})
+}
+
+const Contacts = () => {
+	useDocumentTitle('Contacts | JobTrakr')
+	const { logContactTouch } = useJobs()
+	// Contacts of applications lists haven't loaded are listed too
+	const { jobs, isLoading } = useAllJobs(fetchJobsWithContacts)
+	const { getStageLabel } = usePipeline()
+	const [searchTerm, setSearchTerm] = useState('')
+	const [sortBy, setSortBy] = useState<ContactSort>('follow-up')
+	const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+
+	const contacts = useMemo(() => aggregateContacts(jobs), [jobs])
+
+	const visibleContacts = useMemo(() => {
+		const term = searchTerm.trim().toLowerCase()
+		const filtered = term
+			? contacts.filter(
+					(contact) =>
+						contact.name.toLowerCase().includes(term) ||
+						contact.email.includes(term) ||
+						contact.position?.toLowerCase().includes(term) ||
+						contact.applications.some((app) =>
+							app.company.toLowerCase().includes(term)
+						)
+			  )
+			: contacts
+		return sortContacts(filtered, sortBy)
+	}, [contacts, searchTerm, sortBy])
+
+	const followUpCount = contacts.filter((contact) =>
+		needsFollowUp(contact.lastContactedAt)
+	).length
+
+	if (isLoading) {
+		return (
+			<Layout>
+				<div className='w-full max-w-5xl mx-auto space-y-4'>
+					<Skeleton className='h-8 w-40' />
+					{[1, 2, 3].map((i) => (
+						<Skeleton
+							key={i}
+							className='h-28 w-full rounded-xl'
+						/>
+					))}
+				</div>
+			</Layout>
+		)
+	}
+
+	return (
+		<Layout>
+			<div className='w-full max-w-5xl mx-auto'>
+				<div className='flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4'>
+					<div>
+						<h1 className='text-2xl font-bold text-gray-900'>Contacts</h1>
+						<p className='text-sm text-gray-500 mt-1'>
+							{contacts.length} {contacts.length === 1 ? 'person' : 'people'}{' '}
+							across your applications
+							{followUpCount > 0 && ` · ${followUpCount} due a follow-up`}
+						</p>
+					</div>
+					<div className='flex w-full md:w-auto gap-2'>
+						<div className='relative flex-1 md:w-64'>
+							<Search className='absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400' />
+							<Input
+								value={searchTerm}
+								onChange={(e) => setSearchTerm(e.target.value)}
+								placeholder='Search contacts...'
+								className='pl-9'
+							/>
+						</div>
+						<Select
+							value={sortBy}
+							onValueChange={(value) => setSortBy(value as ContactSort)}
+						>
+							<SelectTrigger className='w-[170px]'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value='follow-up'>Needs follow-up</SelectItem>
+								<SelectItem value='recent'>Recently contacted</SelectItem>
+								<SelectItem value='name'>Name</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+
+				{visibleContacts.length === 0 ? (
+					<div className='text-center text-gray-500 py-16'>
+						<Users className='h-12 w-12 mx-auto mb-4 text-gray-300' />
+						<p>No contacts found</p>
+						<p className='text-sm'>
+							Add recruiters and hiring managers from an application's details
+						</p>
+					</div>
+				) : (
+					<div className='space-y-4'>
+						{visibleContacts.map((contact) => (
+							<Card
+								key={contact.email}
+								className='shadow-sm'
+							>
+								<CardContent className='p-4'>
+									<div className='flex flex-col md:flex-row md:items-start md:justify-between gap-3'>
+										<div className='space-y-1'>
+											<div className='flex items-center gap-2'>
+												<p className='font-semibold text-gray-900'>
+													{contact.name}
+												</p>
+												{contact.position && (
+													<Badge variant='outline'>{contact.position}</Badge>
+												)}
+											</div>
+											<div className='flex flex-wrap items-center gap-4 text-sm'>
+												<a
+													href={`mailto:${contact.email}`}
+													className='text-blue-600 hover:underline flex items-center'
+												>
+													<Mail className='w-4 h-4 mr-1' />
+													{contact.email}
+												</a>
+												{contact.phone && (
+													<a
+														href={`tel:${contact.phone}`}
+														className='text-blue-600 hover:underline flex items-center'
+													>
+														<Phone className='w-4 h-4 mr-1' />
+														{contact.phone}
+													</a>
+												)}
+											</div>
+										</div>
+
+										<div className='flex items-center gap-2'>
+											<span className='text-xs text-gray-500'>
+												{contact.lastContactedAt
+													? `Last contacted ${formatDistanceToNow(
+															new Date(contact.lastContactedAt),
+															{ addSuffix: true }
+													  )}`
+													: 'Never contacted'}
+											</span>
+											{needsFollowUp(contact.lastContactedAt) && (
+												<Badge className='bg-amber-100 text-amber-800 hover:bg-amber-100'>
+													Follow up
+												</Badge>
+											)}
+											<Button
+												variant='outline'
+												size='sm'
+												onClick={() => logContactTouch(contact.email)}
+											>
+												<MessageSquare className='w-4 h-4 mr-1' />
+												Contacted today
+											</Button>
+										</div>
+									</div>
+
+									<div className='flex flex-wrap gap-2 mt-3'>
+										{contact.applications.map((app) => (
+											<button
+												key={app.contactId}
+												onClick={() => setSelectedJobId(app.jobId)}
+												className='text-xs px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded-full text-gray-700 transition-colors'
+											>
+												{app.company} · {app.position} ·{' '}
+												<span className='font-medium'>
+													{getStageLabel(app.status)}
+												</span>
+											</button>
+										))}
+									</div>
+								</CardContent>
+							</Card>
+						))}
+					</div>
+				)}
+			</div>
+
+			<JobDetailsModal
+				isOpen={!!selectedJobId}
+				onClose={() => setSelectedJobId(null)}
+				jobId={selectedJobId}
+				fallbackJob={jobs.find((job) => job.id === selectedJobId)}
+			/>
+		</Layout>
+	)
+}
+
+export default Contacts
@@ -22,9 +22,18 @@ import AIContentDisplay from "@/components/ai/AIContentDisplay";
 import CreditsDisplay from "@/components/payment/CreditsDisplay";
 import { Sparkles, FileText, Clock } from "lucide-react";
 import { Document } from "@/hooks/useDocuments";
+import { useToast } from "@/hooks/use-toast";
+import JobDetailsModal from "@/components/jobs/JobDetailsModal";
+import { JobApplication } from "@/data/mockJobs";
+import { getJobById } from "@/services/jobRepository";
+import {
+  DocumentApplication,
+  fetchDocumentApplications,
+} from "@/services/applicationDocumentService";
 
 const Documents = () => {
   const { user } = useAuth();
+  const { toast } = useToast();
   const hasLoadedRef = useRef(false);
   const [aiResumes, setAiResumes] = useState<AIGeneratedContent[]>([]);
   const [aiCoverLetters, setAiCoverLetters] = useState<AIGeneratedContent[]>(
@@ -35,6 +44,10 @@ const Documents = () => {
     id: string;
     name: string;
   } | null>(null);
+  const [documentApplications, setDocumentApplications] = useState<
+    DocumentApplication[]
+  >([]);
+  const [openedJob, setOpenedJob] = useState<JobApplication | null>(null);
 
   // Preload documents data for all tabs when page loads, but only once
   useEffect(() => {
@@ -75,8 +88,34 @@ const Documents = () => {
 
     loadDocuments();
     loadAIContent();
+    fetchDocumentApplications(user.id)
+      .then(setDocumentApplications)
+      .catch((error) =>
+        console.error("Error loading document applications:", error)
+      );
   }, [user?.id]);
 
+  // Open an application a document was sent with
+  const handleApplicationClick = async (jobId: string) => {
+    if (!user?.id) return;
+
+    try {
+      const job = await getJobById(user.id, jobId);
+      if (!job) {
+        throw new Error("This application couldn't be found");
+      }
+      setOpenedJob(job);
+    } catch (error) {
+      console.error("Error opening application:", error);
+      toast({
+        title: "Error opening application",
+        description:
+          error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Load AI generated content
   const loadAIContent = async () => {
     if (!user?.id) return;
@@ -138,6 +177,8 @@ const Documents = () => {
                   fileType="resume"
                   acceptedFileTypes=".pdf,.docx,.txt"
                   onDocumentClick={handleResumeSelect}
+                  applications={documentApplications}
+                  onApplicationClick={handleApplicationClick}
                 />
               </div>
               <div>
@@ -199,6 +240,8 @@ const Documents = () => {
                   description="Upload your cover letters. These can be tailored for different job applications."
                   fileType="coverletter"
                   acceptedFileTypes=".pdf,.docx,.txt"
+                  applications={documentApplications}
+                  onApplicationClick={handleApplicationClick}
                 />
               </div>
               <div>
@@ -262,6 +305,13 @@ const Documents = () => {
           </TabsContent>
         </Tabs>
       </div>
+
+      <JobDetailsModal
+        isOpen={!!openedJob}
+        onClose={() => setOpenedJob(null)}
+        jobId={openedJob?.id || null}
+        fallbackJob={openedJob || undefined}
+      />
     </Layout>
   );
 };
@@ -0,0 +1,249 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { Link } from 'react-router-dom'
+import { Check, ChevronLeft, Copy, X } from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { useAuth } from '@/contexts/AuthContext'
+import { useJobs } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useToast } from '@/hooks/use-toast'
+import { useDocumentTitle } from '@/hooks/use-document-title'
+import { JobApplication } from '@/data/mockJobs'
+import {
+	dismissDuplicatePair,
+	fetchDismissedDuplicatePairs,
+	fetchDuplicateCandidates,
+} from '@/services/duplicateService'
+import {
+	DuplicatePair,
+	duplicateReasonLabels,
+	findDuplicatePairs,
+} from '@/utils/duplicateUtils'
+import { formatSalaryForDisplay } from '@/utils/currencyUtils'
+
+const Duplicates = () => {
+	useDocumentTitle('Duplicates | JobTrakr')
+	const { user } = useAuth()
+	const { jobs, mergeJobs, fetchJobsById } = useJobs()
+	const { getStage } = usePipeline()
+	const { toast } = useToast()
+	const [dismissedKeys, setDismissedKeys] = useState<Set<string>>(new Set())
+	// Every application, with just the fields duplicate checks compare
+	const [candidates, setCandidates] = useState<JobApplication[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	// Key of the pair currently being merged or dismissed
+	const [busyKey, setBusyKey] = useState<string | null>(null)
+
+	const loadCandidates = useCallback(async () => {
+		if (!user?.id) return
+		try {
+			setCandidates(await fetchDuplicateCandidates(user.id))
+		} catch (error) {
+			console.error('Error loading applications:', error)
+			toast({
+				title: 'Error loading applications',
+				description:
+					error instanceof Error ? error.message : 'Please try again',
+				variant: 'destructive',
+			})
+		}
+	}, [user?.id, toast])
+
+	useEffect(() => {
+		if (!user?.id) return
+
+		Promise.all([
+			fetchDismissedDuplicatePairs(user.id)
+				.then(setDismissedKeys)
+				.catch((error) => {
+					console.error('Error loading dismissed duplicates:', error)
+				}),
+			loadCandidates(),
+		]).finally(() => setIsLoading(false))
+	}, [user?.id, loadCandidates])
+
+	const pairs = useMemo(
+		() => findDuplicatePairs(candidates, dismissedKeys),
+		[candidates, dismissedKeys]
+	)
+
+	// Load the applications in pairs, to show their details
+	useEffect(() => {
+		const ids = Array.from(
+			new Set(pairs.flatMap((pair) => pair.jobs.map((job) => job.id)))
+		)
+		if (ids.length === 0) return
+
+		fetchJobsById(ids).catch((error) => {
+			console.error('Error loading duplicate applications:', error)
+		})
+	}, [pairs, fetchJobsById])
+
+	const loadedJobs = useMemo(
+		() => new Map(jobs.map((job) => [job.id, job])),
+		[jobs]
+	)
+
+	const handleKeep = async (pair: DuplicatePair, keep: JobApplication) => {
+		const duplicate = pair.jobs[0].id === keep.id ? pair.jobs[1] : pair.jobs[0]
+
+		setBusyKey(pair.key)
+		try {
+			await mergeJobs(keep.id, duplicate.id)
+			// The merged record is in the trash now, unless the merge failed
+			await loadCandidates()
+		} finally {
+			setBusyKey(null)
+		}
+	}
+
+	const handleDismiss = async (pair: DuplicatePair) => {
+		if (!user) return
+
+		setBusyKey(pair.key)
+		try {
+			await dismissDuplicatePair(user.id, pair.jobs[0].id, pair.jobs[1].id)
+			setDismissedKeys((prev) => new Set(prev).add(pair.key))
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error ? error.message : 'Please try again',
+				variant: 'destructive',
+			})
+		} finally {
+			setBusyKey(null)
+		}
+	}
+
+	const renderJob = (pair: DuplicatePair, job: JobApplication) => {
+		const stage = getStage(job.status)
+
+		return (
+			<div
+				key={job.id}
+				className='flex-1 rounded-md border p-3 space-y-2'
+			>
+				<div className='flex items-center gap-2'>
+					<p className='font-semibold text-gray-900'>{job.position}</p>
+					<Badge variant='outline'>
+						<span
+							className='w-2 h-2 rounded-full mr-1.5'
+							style={{ backgroundColor: stage.color }}
+						/>
+						{stage.label}
+					</Badge>
+				</div>
+				<p className='text-sm text-gray-600'>{job.company}</p>
+				<div className='text-xs text-gray-500 space-y-0.5'>
+					{job.location && <p>{job.location}</p>}
+					{job.appliedDate && (
+						<p>Applied {format(new Date(job.appliedDate), 'MMM d, yyyy')}</p>
+					)}
+					{job.salary && (
+						<p>
+							{formatSalaryForDisplay(
+								job.salaryRange || job.salary,
+								job.location
+							)}
+						</p>
+					)}
+					{job.jobUrl && <p className='truncate'>{job.jobUrl}</p>}
+					<p>
+						{job.events?.length || 0} events · {job.contacts?.length || 0}{' '}
+						contacts
+					</p>
+				</div>
+				<Button
+					size='sm'
+					className='w-full'
+					disabled={busyKey === pair.key}
+					onClick={() => handleKeep(pair, job)}
+				>
+					<Check className='w-4 h-4 mr-1' />
+					Keep this one
+				</Button>
+			</div>
+		)
+	}
+
+	if (isLoading) {
+		return (
+			<Layout>
+				<div className='w-full max-w-5xl mx-auto space-y-4'>
+					<Skeleton className='h-8 w-40' />
+					{[1, 2].map((i) => (
+						<Skeleton
+							key={i}
+							className='h-48 w-full rounded-xl'
+						/>
+					))}
+				</div>
+			</Layout>
+		)
+	}
+
+	return (
+		<Layout>
+			<div className='w-full max-w-5xl mx-auto'>
+				<Link
+					to='/applications'
+					className='flex items-center text-blue-500 hover:text-blue-700 mb-2'
+				>
+					<ChevronLeft className='h-4 w-4 mr-1' />
+					Back to Applications
+				</Link>
+				<div className='mb-6'>
+					<h1 className='text-2xl font-bold text-gray-900'>Duplicates</h1>
+					<p className='text-sm text-gray-500 mt-1'>
+						Keep one record to merge the other into it. Events, notes, contacts,
+						tasks, documents and history from both are kept, and the other
+						record moves to the trash.
+					</p>
+				</div>
+
+				{pairs.length === 0 ? (
+					<div className='text-center text-gray-500 py-16'>
+						<Copy className='h-12 w-12 mx-auto mb-4 text-gray-300' />
+						<p>No duplicate applications found</p>
+					</div>
+				) : (
+					<div className='space-y-4'>
+						{pairs.map((pair) => (
+							<Card
+								key={pair.key}
+								className='shadow-sm'
+							>
+								<CardHeader className='flex flex-row items-center justify-between space-y-0 pb-3'>
+									<Badge variant='secondary'>
+										{duplicateReasonLabels[pair.reason]}
+									</Badge>
+									<Button
+										variant='ghost'
+										size='sm'
+										disabled={busyKey === pair.key}
+										onClick={() => handleDismiss(pair)}
+									>
+										<X className='w-4 h-4 mr-1' />
+										Not duplicates
+									</Button>
+								</CardHeader>
+								<CardContent className='flex flex-col md:flex-row gap-3'>
+									{pair.jobs.map((job) =>
+										renderJob(pair, loadedJobs.get(job.id) || job)
+									)}
+								</CardContent>
+							</Card>
+						))}
+					</div>
+				)}
+			</div>
+		</Layout>
+	)
+}
+
+export default Duplicates
@@ -2,15 +2,42 @@ import Layout from "@/components/layout/Layout";
 import StatsOverview from "@/components/dashboard/StatsOverview";
 import JobList from "@/components/jobs/JobList";
 import { JobApplication } from "@/data/mockJobs";
+import { useMemo } from "react";
 import { useJobs } from "@/contexts/JobContext";
+import { useAllJobs } from "@/hooks/use-all-jobs";
+import { usePipeline } from "@/contexts/PipelineContext";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import ApplicationStats from "@/components/dashboard/ApplicationStats";
 import ApplicationTimeline from "@/components/dashboard/ApplicationTimeline";
 import JobTypeAnalysis from "@/components/dashboard/JobTypeAnalysis";
 import RecentActivity from "@/components/dashboard/RecentActivity";
+import ReferralStats from "@/components/dashboard/ReferralStats";
+import RejectionStats from "@/components/dashboard/RejectionStats";
 
 const Index = () => {
-  const { jobs, addJob, isLoading } = useJobs();
+  const { jobs, addJob } = useJobs();
+  // Stats cover every application, not just the ones lists have loaded
+  const { jobs: allJobs, isLoading: isLoadingAllJobs } = useAllJobs();
+  const { stages } = usePipeline();
+
+  // Stage keys shown on the active and saved tabs
+  const activeScope = useMemo(
+    () =>
+      stages
+        .filter(
+          (stage) =>
+            stage.outcome === "applied" || stage.outcome === "interview"
+        )
+        .map((stage) => stage.key),
+    [stages]
+  );
+  const savedScope = useMemo(
+    () =>
+      stages
+        .filter((stage) => stage.outcome === "saved")
+        .map((stage) => stage.key),
+    [stages]
+  );
 
   const handleAddJob = (newJob: JobApplication) => {
     addJob(newJob);
@@ -25,23 +52,33 @@ const Index = () => {
           </h1>
         </div>
 
-        <StatsOverview jobs={jobs} />
+        <StatsOverview jobs={allJobs} />
 
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <div className="md:col-span-3">
-            <ApplicationStats jobs={jobs} />
+            <ApplicationStats jobs={allJobs} />
           </div>
           <div className="md:col-span-1">
+            {/* The most recently updated jobs are always loaded */}
             <RecentActivity jobs={jobs} />
           </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <div className="md:col-span-2">
-            <ApplicationTimeline jobs={jobs} />
+            <ApplicationTimeline jobs={allJobs} />
+          </div>
+          <div className="md:col-span-2">
+            <JobTypeAnalysis jobs={allJobs} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="md:col-span-2">
+            <ReferralStats jobs={allJobs} isLoading={isLoadingAllJobs} />
           </div>
           <div className="md:col-span-2">
-            <JobTypeAnalysis jobs={jobs} />
+            <RejectionStats jobs={allJobs} isLoading={isLoadingAllJobs} />
           </div>
         </div>
 
@@ -56,24 +93,15 @@ const Index = () => {
             </TabsList>
 
             <TabsContent value="all">
-              <JobList jobs={jobs} isLoading={isLoading} />
+              <JobList />
             </TabsContent>
 
             <TabsContent value="active">
-              <JobList
-                jobs={jobs.filter(
-                  (job) =>
-                    job.status === "applied" || job.status === "interview"
-                )}
-                isLoading={isLoading}
-              />
+              <JobList scope={activeScope} />
             </TabsContent>
 
             <TabsContent value="saved">
-              <JobList
-                jobs={jobs.filter((job) => job.status === "saved")}
-                isLoading={isLoading}
-              />
+              <JobList scope={savedScope} />
             </TabsContent>
           </Tabs>
         </div>
@@ -1,16 +1,29 @@
-import { useState, useEffect } from 'react'
+import { useMemo } from 'react'
 import Layout from '@/components/layout/Layout'
 import { JobApplication } from '@/data/mockJobs'
 import { useJobs } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
 import KanbanBoard from '@/components/kanban/KanbanBoard'
+import BulkActionBar from '@/components/jobs/BulkActionBar'
+import { useJobSelection } from '@/hooks/use-job-selection'
 import { useToast } from '@/hooks/use-toast'
 import { Skeleton } from '@/components/ui/skeleton'
-import { ChevronRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ChevronRight, Settings2 } from 'lucide-react'
+import { Link } from 'react-router-dom'
 
 const Kanban = () => {
 	const { jobs, updateJob, isLoading } = useJobs()
+	const { getStageLabel } = usePipeline()
 	const { toast } = useToast()
 
+	// Cards selected for bulk actions, from any column
+	const boardJobIds = useMemo(
+		() => jobs.filter((job) => !job.archivedAt).map((job) => job.id),
+		[jobs]
+	)
+	const { selectedIds, toggle, clear } = useJobSelection(boardJobIds)
+
 	const handleCardMove = (id: string, newStatus: JobApplication['status']) => {
 		const job = jobs.find((job) => job.id === id)
 
@@ -21,11 +34,13 @@ const Kanban = () => {
 				lastUpdated: new Date().toISOString(),
 			}
 
-			updateJob(updatedJob)
+			updateJob(updatedJob, 'kanban')
 
 			toast({
 				title: 'Job status updated',
-				description: `${job.position} at ${job.company} moved to ${newStatus}`,
+				description: `${job.position} at ${
+					job.company
+				} moved to ${getStageLabel(newStatus)}`,
 			})
 		}
 	}
@@ -78,12 +93,29 @@ const Kanban = () => {
 							<ChevronRight className='h-4 w-4 mr-1' />
 							Swipe to see more columns
 						</span>
+						<Button
+							variant='outline'
+							size='sm'
+							asChild
+							className='ml-auto md:ml-0'
+						>
+							<Link to='/settings/pipeline'>
+								<Settings2 className='h-4 w-4 mr-1' />
+								Edit stages
+							</Link>
+						</Button>
 					</div>
 				</div>
 
 				<KanbanBoard
-					jobs={jobs}
 					onCardMove={handleCardMove}
+					selectedIds={selectedIds}
+					onToggleSelect={toggle}
+				/>
+
+				<BulkActionBar
+					selectedIds={selectedIds}
+					onClear={clear}
 				/>
 			</div>
 		</Layout>
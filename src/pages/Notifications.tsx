@@ -1,7 +1,9 @@
 import { useState, useEffect } from "react";
 import Layout from "@/components/layout/Layout";
 import {
+  AlarmClock,
   Calendar,
+  CalendarClock,
   Bookmark,
   Info,
   Bell,
@@ -24,11 +26,26 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { AnimatePresence, motion } from "framer-motion";
 
+// How long a follow-up reminder can be snoozed for
+const SNOOZE_OPTIONS = [
+  { label: "1 day", days: 1 },
+  { label: "3 days", days: 3 },
+  { label: "1 week", days: 7 },
+  { label: "2 weeks", days: 14 },
+];
+
 const Notifications = () => {
   const [activeTab, setActiveTab] = useState("all");
   const { toast } = useToast();
@@ -39,6 +56,7 @@ const Notifications = () => {
     markAllAsRead,
     toggleReadStatus,
     deleteNotification,
+    snoozeNotification,
     loading,
   } = useNotifications();
 
@@ -68,6 +86,8 @@ const Notifications = () => {
       return notifications.filter((n) => n.type === "application");
     if (activeTab === "jobMatch")
       return notifications.filter((n) => n.type === "jobMatch");
+    if (activeTab === "followUp")
+      return notifications.filter((n) => n.type === "followUp");
     return notifications;
   };
 
@@ -87,6 +107,18 @@ const Notifications = () => {
     });
   };
 
+  const handleSnoozeNotification = (id: string, days: number) => {
+    const until = new Date();
+    until.setDate(until.getDate() + days);
+    snoozeNotification(id, until);
+    toast({
+      title: "Reminder snoozed",
+      description: `You'll be reminded again in ${days} day${
+        days === 1 ? "" : "s"
+      }`,
+    });
+  };
+
   const getTimeAgo = (date: Date) => {
     const seconds = Math.floor((new Date().getTime() - date.getTime()) / 1000);
 
@@ -116,6 +148,8 @@ const Notifications = () => {
         return <Bookmark className="h-4 w-4" />;
       case "jobMatch":
         return <Info className="h-4 w-4" />;
+      case "followUp":
+        return <CalendarClock className="h-4 w-4" />;
       default:
         return <Bell className="h-4 w-4" />;
     }
@@ -129,6 +163,8 @@ const Notifications = () => {
         return "bg-green-100 text-green-600";
       case "jobMatch":
         return "bg-yellow-100 text-yellow-600";
+      case "followUp":
+        return "bg-orange-100 text-orange-600";
       default:
         return "bg-gray-100 text-gray-600";
     }
@@ -170,6 +206,7 @@ const Notifications = () => {
             <TabsTrigger value="interview">Interviews</TabsTrigger>
             <TabsTrigger value="application">Applications</TabsTrigger>
             <TabsTrigger value="jobMatch">Job Matches</TabsTrigger>
+            <TabsTrigger value="followUp">Follow-ups</TabsTrigger>
           </TabsList>
 
           {/* Content for all tabs */}
@@ -313,6 +350,38 @@ const Notifications = () => {
                                   {notification.title}
                                 </h3>
                                 <div className="flex gap-2">
+                                  {notification.type === "followUp" && (
+                                    <DropdownMenu>
+                                      <DropdownMenuTrigger asChild>
+                                        <Button
+                                          size="sm"
+                                          variant="ghost"
+                                          className="h-8 w-8 p-0 text-slate-400 hover:text-orange-500"
+                                          aria-label="Snooze reminder"
+                                        >
+                                          <AlarmClock className="h-4 w-4" />
+                                        </Button>
+                                      </DropdownMenuTrigger>
+                                      <DropdownMenuContent align="end">
+                                        <DropdownMenuLabel>
+                                          Snooze for
+                                        </DropdownMenuLabel>
+                                        {SNOOZE_OPTIONS.map((option) => (
+                                          <DropdownMenuItem
+                                            key={option.days}
+                                            onSelect={() =>
+                                              handleSnoozeNotification(
+                                                notification.id,
+                                                option.days
+                                              )
+                                            }
+                                          >
+                                            {option.label}
+                                          </DropdownMenuItem>
+                                        ))}
+                                      </DropdownMenuContent>
+                                    </DropdownMenu>
+                                  )}
                                   <TooltipProvider>
                                     <Tooltip>
                                       <TooltipTrigger asChild>
@@ -0,0 +1,566 @@
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import {
+	Clock,
+	Coins,
+	Pencil,
+	Plus,
+	Scale,
+	SlidersHorizontal,
+	Trash2,
+} from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import OfferFormDialog from '@/components/offers/OfferFormDialog'
+import OfferCriteriaDialog from '@/components/offers/OfferCriteriaDialog'
+import ExchangeRatesDialog from '@/components/offers/ExchangeRatesDialog'
+import { useDocumentTitle } from '@/hooks/use-document-title'
+import { useOffers } from '@/hooks/use-offers'
+import { useAllJobs } from '@/hooks/use-all-jobs'
+import { JobApplication } from '@/data/mockJobs'
+import { JobOffer } from '@/services/offerService'
+import { supportedCurrencies } from '@/utils/currencyUtils'
+import {
+	DEADLINE_WARNING_DAYS,
+	OfferCompensation,
+	formatDeadline,
+	formatOfferAmount,
+	getDaysUntilDeadline,
+	getOfferCompensation,
+	scoreOffers,
+} from '@/utils/offerUtils'
+
+// Dates are stored as YYYY-MM-DD; parse as local time, not UTC midnight
+const formatDay = (date: string) =>
+	format(new Date(`${date}T00:00:00`), 'MMM d, yyyy')
+
+const getDeadlineBadgeColor = (daysLeft: number) =>
+	daysLeft < 0
+		? 'border-red-200 bg-red-50 text-red-700'
+		: daysLeft <= DEADLINE_WARNING_DAYS
+		? 'border-amber-200 bg-amber-50 text-amber-700'
+		: 'border-gray-200 bg-gray-50 text-gray-700'
+
+interface OfferRow {
+	offer: JobOffer
+	job: JobApplication
+	compensation: OfferCompensation | null
+}
+
+const Offers = () => {
+	useDocumentTitle('Offers | JobTrakr')
+	// Any application can be given an offer, not just the ones lists have loaded
+	const { jobs } = useAllJobs()
+	const { getOutcome } = usePipeline()
+	const {
+		offers,
+		criteria,
+		settings,
+		isLoading,
+		saveOffer,
+		deleteOffer,
+		updateCriteria,
+		updateSettings,
+	} = useOffers()
+	const [editingJobId, setEditingJobId] = useState<string | null>(null)
+	const [isCriteriaOpen, setIsCriteriaOpen] = useState(false)
+	const [isRatesOpen, setIsRatesOpen] = useState(false)
+
+	const { currency, exchangeRates } = settings
+
+	// Offers are loaded with their application, whether or not it's in jobs
+	const rows = useMemo<OfferRow[]>(
+		() =>
+			offers.map((offer) => ({
+				offer,
+				job: offer.job,
+				compensation: getOfferCompensation(offer, currency, exchangeRates),
+			})),
+		[offers, currency, exchangeRates]
+	)
+
+	const scores = useMemo(
+		() =>
+			scoreOffers(
+				rows.map((row) => row.offer),
+				criteria,
+				currency,
+				exchangeRates
+			),
+		[rows, criteria, currency, exchangeRates]
+	)
+
+	const rankedRows = useMemo(
+		() =>
+			[...rows].sort(
+				(a, b) =>
+					(scores[b.offer.jobId]?.total ?? -1) -
+					(scores[a.offer.jobId]?.total ?? -1)
+			),
+		[rows, scores]
+	)
+
+	const deadlines = useMemo(
+		() =>
+			rows
+				.filter((row) => row.offer.responseDeadline)
+				.map((row) => ({
+					...row,
+					daysLeft: getDaysUntilDeadline(row.offer.responseDeadline),
+				}))
+				.sort((a, b) => a.daysLeft - b.daysLeft),
+		[rows]
+	)
+
+	// Applications at an offer stage come first when adding an offer
+	const jobsWithoutOffers = useMemo(
+		() =>
+			jobs
+				.filter((job) => !offers.some((offer) => offer.jobId === job.id))
+				.sort(
+					(a, b) =>
+						Number(getOutcome(b.status) === 'offer') -
+						Number(getOutcome(a.status) === 'offer')
+				),
+		[jobs, offers, getOutcome]
+	)
+	const awaitingTerms = jobsWithoutOffers.filter(
+		(job) => getOutcome(job.status) === 'offer'
+	)
+
+	const editingOffer = offers.find((offer) => offer.jobId === editingJobId)
+	const editingJob =
+		editingOffer?.job || jobs.find((job) => job.id === editingJobId) || null
+
+	const formatAmount = (amount: number) => formatOfferAmount(amount, currency)
+
+	if (isLoading) {
+		return (
+			<Layout>
+				<div className='w-full max-w-6xl mx-auto space-y-4'>
+					<Skeleton className='h-8 w-40' />
+					<Skeleton className='h-32 w-full rounded-xl' />
+					<Skeleton className='h-64 w-full rounded-xl' />
+				</div>
+			</Layout>
+		)
+	}
+
+	return (
+		<Layout>
+			<div className='w-full max-w-6xl mx-auto space-y-6'>
+				<div className='flex flex-col md:flex-row justify-between items-start md:items-center gap-4'>
+					<div>
+						<h1 className='text-2xl font-bold text-gray-900'>Offers</h1>
+						<p className='text-sm text-gray-500 mt-1'>
+							Compare offers by yearly total compensation and what matters to
+							you
+						</p>
+					</div>
+					<div className='flex flex-wrap gap-2'>
+						<Select
+							value={currency}
+							onValueChange={(code) =>
+								updateSettings({ ...settings, currency: code })
+							}
+						>
+							<SelectTrigger
+								className='w-[110px]'
+								aria-label='Compare in currency'
+							>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{supportedCurrencies.map((code) => (
+									<SelectItem
+										key={code}
+										value={code}
+									>
+										{code}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button
+							variant='outline'
+							onClick={() => setIsRatesOpen(true)}
+						>
+							<Coins className='w-4 h-4 mr-2' />
+							Rates
+						</Button>
+						<Button
+							variant='outline'
+							onClick={() => setIsCriteriaOpen(true)}
+						>
+							<SlidersHorizontal className='w-4 h-4 mr-2' />
+							Criteria
+						</Button>
+						<Select
+							value=''
+							onValueChange={setEditingJobId}
+							disabled={jobsWithoutOffers.length === 0}
+						>
+							<SelectTrigger className='w-[180px]'>
+								<Plus className='w-4 h-4 mr-1' />
+								<SelectValue placeholder='Add offer' />
+							</SelectTrigger>
+							<SelectContent>
+								{jobsWithoutOffers.map((job) => (
+									<SelectItem
+										key={job.id}
+										value={job.id}
+									>
+										{job.position} at {job.company}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+
+				{awaitingTerms.length > 0 && (
+					<Card className='shadow-sm border-blue-200 bg-blue-50/50'>
+						<CardContent className='p-4 space-y-2'>
+							<p className='text-sm font-medium text-gray-900'>
+								Add the terms of these offers to compare them
+							</p>
+							<div className='flex flex-wrap gap-2'>
+								{awaitingTerms.map((job) => (
+									<Button
+										key={job.id}
+										variant='outline'
+										size='sm'
+										className='bg-white'
+										onClick={() => setEditingJobId(job.id)}
+									>
+										<Plus className='w-3.5 h-3.5 mr-1' />
+										{job.company}
+									</Button>
+								))}
+							</div>
+						</CardContent>
+					</Card>
+				)}
+
+				{deadlines.length > 0 && (
+					<Card className='shadow-sm'>
+						<CardHeader className='pb-2'>
+							<CardTitle className='text-base flex items-center'>
+								<Clock className='w-4 h-4 mr-2 text-gray-500' />
+								Response Deadlines
+							</CardTitle>
+						</CardHeader>
+						<CardContent className='space-y-2'>
+							{deadlines.map(({ offer, job, daysLeft }) => (
+								<div
+									key={offer.jobId}
+									className='flex items-center justify-between gap-3 text-sm'
+								>
+									<div className='min-w-0'>
+										<p className='font-medium truncate'>{job.company}</p>
+										<p className='text-xs text-gray-500 truncate'>
+											{job.position}
+										</p>
+									</div>
+									<div className='text-right flex-shrink-0'>
+										<Badge
+											variant='outline'
+											className={getDeadlineBadgeColor(daysLeft)}
+										>
+											{formatDeadline(daysLeft)}
+										</Badge>
+										<p className='text-xs text-gray-500 mt-1'>
+											{formatDay(offer.responseDeadline)}
+										</p>
+									</div>
+								</div>
+							))}
+						</CardContent>
+					</Card>
+				)}
+
+				{rankedRows.length === 0 ? (
+					<div className='text-center text-gray-500 py-16'>
+						<Scale className='h-12 w-12 mx-auto mb-4 text-gray-300' />
+						<p>No offers yet</p>
+						<p className='text-sm'>
+							Add the terms of an offer to compare it with others
+						</p>
+					</div>
+				) : (
+					<Card className='shadow-sm'>
+						<CardContent className='p-0 overflow-x-auto'>
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead className='w-[180px]' />
+										{rankedRows.map(({ offer, job }) => (
+											<TableHead
+												key={offer.jobId}
+												className='min-w-[180px] align-top py-3'
+											>
+												<div className='flex items-start justify-between gap-2'>
+													<div className='min-w-0'>
+														<p className='font-semibold text-gray-900 truncate'>
+															{job.company}
+														</p>
+														<p className='text-xs font-normal truncate'>
+															{job.position}
+														</p>
+													</div>
+													<div className='flex flex-shrink-0'>
+														<Button
+															variant='ghost'
+															size='sm'
+															className='h-7 w-7 p-0'
+															onClick={() => setEditingJobId(offer.jobId)}
+															aria-label='Edit offer'
+														>
+															<Pencil className='w-3.5 h-3.5' />
+														</Button>
+														<Button
+															variant='ghost'
+															size='sm'
+															className='h-7 w-7 p-0 text-red-600 hover:text-red-700'
+															onClick={() => deleteOffer(offer.jobId)}
+															aria-label='Delete offer'
+														>
+															<Trash2 className='w-3.5 h-3.5' />
+														</Button>
+													</div>
+												</div>
+											</TableHead>
+										))}
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									<TableRow className='bg-gray-50'>
+										<TableCell className='font-medium'>Score</TableCell>
+										{rankedRows.map(({ offer }, index) => {
+											const score = scores[offer.jobId]
+											return (
+												<TableCell key={offer.jobId}>
+													<span className='text-lg font-semibold'>
+														{score?.total ?? '—'}
+													</span>
+													{score?.total !== null && (
+														<span className='text-xs text-gray-500'>
+															{' '}
+															/ 100
+														</span>
+													)}
+													{index === 0 && rankedRows.length > 1 && (
+														<Badge className='ml-2 bg-green-600'>Top</Badge>
+													)}
+													{score?.unscored.length > 0 && (
+														<p className='text-xs text-gray-500'>
+															{score.unscored.length} of {criteria.length}{' '}
+															criteria not scored
+														</p>
+													)}
+												</TableCell>
+											)
+										})}
+									</TableRow>
+									{(
+										[
+											['Base salary', 'base'],
+											['Bonus', 'bonus'],
+											['Equity per year', 'equityPerYear'],
+											['Benefits', 'benefits'],
+										] as [string, keyof OfferCompensation][]
+									).map(([label, field]) => (
+										<TableRow key={field}>
+											<TableCell className='text-gray-600'>{label}</TableCell>
+											{rankedRows.map(({ offer, compensation }) => (
+												<TableCell key={offer.jobId}>
+													{compensation
+														? formatAmount(compensation[field])
+														: `No rate for ${offer.currency}`}
+													{field === 'equityPerYear' &&
+														offer.equityValue > 0 && (
+															<p className='text-xs text-gray-500'>
+																{offer.vestingYears}-year vesting
+																{offer.vestingCliffMonths
+																	? `, ${offer.vestingCliffMonths}-month cliff`
+																	: ''}
+															</p>
+														)}
+													{field === 'benefits' && offer.benefits && (
+														<p className='text-xs text-gray-500'>
+															{offer.benefits}
+														</p>
+													)}
+												</TableCell>
+											))}
+										</TableRow>
+									))}
+									<TableRow className='bg-gray-50'>
+										<TableCell className='font-medium'>
+											Annual total ({currency})
+										</TableCell>
+										{rankedRows.map(({ offer, compensation }) => (
+											<TableCell
+												key={offer.jobId}
+												className='font-semibold'
+											>
+												{compensation
+													? formatAmount(compensation.annualTotal)
+													: '—'}
+											</TableCell>
+										))}
+									</TableRow>
+									<TableRow>
+										<TableCell className='text-gray-600'>
+											Sign-on bonus
+										</TableCell>
+										{rankedRows.map(({ offer, compensation }) => (
+											<TableCell key={offer.jobId}>
+												{compensation ? formatAmount(compensation.signOn) : '—'}
+											</TableCell>
+										))}
+									</TableRow>
+									<TableRow>
+										<TableCell className='text-gray-600'>
+											First-year total
+										</TableCell>
+										{rankedRows.map(({ offer, compensation }) => (
+											<TableCell key={offer.jobId}>
+												{compensation
+													? formatAmount(compensation.firstYearTotal)
+													: '—'}
+											</TableCell>
+										))}
+									</TableRow>
+									<TableRow>
+										<TableCell className='text-gray-600'>PTO</TableCell>
+										{rankedRows.map(({ offer }) => (
+											<TableCell key={offer.jobId}>
+												{offer.ptoDays !== undefined
+													? `${offer.ptoDays} days`
+													: '—'}
+											</TableCell>
+										))}
+									</TableRow>
+									<TableRow>
+										<TableCell className='text-gray-600'>Location</TableCell>
+										{rankedRows.map(({ offer }) => (
+											<TableCell key={offer.jobId}>
+												{[offer.location, offer.workType]
+													.filter(Boolean)
+													.join(' · ') || '—'}
+											</TableCell>
+										))}
+									</TableRow>
+									<TableRow>
+										<TableCell className='text-gray-600'>Start date</TableCell>
+										{rankedRows.map(({ offer }) => (
+											<TableCell key={offer.jobId}>
+												{offer.startDate ? formatDay(offer.startDate) : '—'}
+											</TableCell>
+										))}
+									</TableRow>
+									<TableRow>
+										<TableCell className='text-gray-600'>Respond by</TableCell>
+										{rankedRows.map(({ offer }) => {
+											if (!offer.responseDeadline) {
+												return <TableCell key={offer.jobId}>—</TableCell>
+											}
+											const daysLeft = getDaysUntilDeadline(
+												offer.responseDeadline
+											)
+											return (
+												<TableCell key={offer.jobId}>
+													{formatDay(offer.responseDeadline)}
+													<div>
+														<Badge
+															variant='outline'
+															className={getDeadlineBadgeColor(daysLeft)}
+														>
+															{formatDeadline(daysLeft)}
+														</Badge>
+													</div>
+												</TableCell>
+											)
+										})}
+									</TableRow>
+									{criteria.map((criterion) => (
+										<TableRow key={criterion.key}>
+											<TableCell className='text-gray-600'>
+												{criterion.label}
+												<span className='text-xs text-gray-400'>
+													{' '}
+													× {criterion.weight}
+												</span>
+											</TableCell>
+											{rankedRows.map(({ offer }) => {
+												const score =
+													scores[offer.jobId]?.criteria[criterion.key]
+												return (
+													<TableCell key={offer.jobId}>
+														{score === null || score === undefined
+															? criterion.source === 'rating'
+																? 'Not rated'
+																: '—'
+															: criterion.source === 'rating'
+															? `${offer.ratings[criterion.key]} / 5`
+															: `${Math.round(score * 100)}%`}
+													</TableCell>
+												)
+											})}
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</CardContent>
+					</Card>
+				)}
+			</div>
+
+			<OfferFormDialog
+				isOpen={!!editingJobId}
+				onClose={() => setEditingJobId(null)}
+				onSubmit={(input) => saveOffer(editingJobId, input)}
+				job={editingJob}
+				criteria={criteria}
+				defaultCurrency={currency}
+				initialData={editingOffer}
+			/>
+			<OfferCriteriaDialog
+				isOpen={isCriteriaOpen}
+				onClose={() => setIsCriteriaOpen(false)}
+				onSubmit={updateCriteria}
+				criteria={criteria}
+			/>
+			<ExchangeRatesDialog
+				isOpen={isRatesOpen}
+				onClose={() => setIsRatesOpen(false)}
+				onSubmit={(rates) =>
+					updateSettings({ ...settings, exchangeRates: rates })
+				}
+				rates={exchangeRates}
+			/>
+		</Layout>
+	)
+}
+
+export default Offers
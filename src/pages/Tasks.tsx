@@ -0,0 +1,192 @@
+import { useMemo, useState } from 'react'
+import { ListChecks, ListTodo } from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Switch } from '@/components/ui/switch'
+import JobDetailsModal from '@/components/jobs/JobDetailsModal'
+import TaskItem from '@/components/tasks/TaskItem'
+import TaskTemplatesDialog from '@/components/tasks/TaskTemplatesDialog'
+import { useDocumentTitle } from '@/hooks/use-document-title'
+import { useTasks } from '@/hooks/use-tasks'
+import { useTaskTemplates } from '@/hooks/use-task-templates'
+import { useToast } from '@/hooks/use-toast'
+import { JobApplication } from '@/data/mockJobs'
+import { JobTask } from '@/services/taskService'
+import { getJobById } from '@/services/jobRepository'
+import { getDaysUntilDue, sortTasksByDueDate } from '@/utils/taskUtils'
+
+interface TaskGroup {
+	title: string
+	tasks: JobTask[]
+}
+
+const Tasks = () => {
+	useDocumentTitle('My Tasks | JobTrakr')
+	const { user } = useAuth()
+	const { toast } = useToast()
+	const { tasks, isLoading, toggleTask, removeTask } = useTasks()
+	const { templates, updateTemplates } = useTaskTemplates()
+	const [showCompleted, setShowCompleted] = useState(false)
+	const [isTemplatesOpen, setIsTemplatesOpen] = useState(false)
+	const [openedJob, setOpenedJob] = useState<JobApplication | null>(null)
+
+	// Open tasks by when they're due, then completed ones if shown
+	const groups = useMemo<TaskGroup[]>(() => {
+		const sorted = sortTasksByDueDate(tasks)
+		const open = sorted.filter((task) => !task.completedAt)
+		const daysLeft = (task: JobTask) => getDaysUntilDue(task)
+
+		return [
+			{
+				title: 'Overdue',
+				tasks: open.filter((task) => daysLeft(task) < 0),
+			},
+			{
+				title: 'Due today',
+				tasks: open.filter((task) => daysLeft(task) === 0),
+			},
+			{
+				title: 'Upcoming',
+				tasks: open.filter((task) => daysLeft(task) > 0),
+			},
+			{
+				title: 'No due date',
+				tasks: open.filter((task) => daysLeft(task) === undefined),
+			},
+			{
+				title: 'Completed',
+				tasks: showCompleted ? sorted.filter((task) => task.completedAt) : [],
+			},
+		].filter((group) => group.tasks.length > 0)
+	}, [tasks, showCompleted])
+
+	const openCount = tasks.filter((task) => !task.completedAt).length
+	const overdueCount = groups.find((g) => g.title === 'Overdue')?.tasks.length
+
+	// Open the application a task is on
+	const handleOpenJob = async (jobId: string) => {
+		if (!user?.id) return
+
+		try {
+			const job = await getJobById(user.id, jobId)
+			if (!job) {
+				throw new Error("This application couldn't be found")
+			}
+			setOpenedJob(job)
+		} catch (error) {
+			console.error('Error opening application:', error)
+			toast({
+				title: 'Error opening application',
+				description:
+					error instanceof Error ? error.message : 'Please try again',
+				variant: 'destructive',
+			})
+		}
+	}
+
+	if (isLoading) {
+		return (
+			<Layout>
+				<div className='w-full max-w-4xl mx-auto space-y-4'>
+					<Skeleton className='h-8 w-40' />
+					<Skeleton className='h-64 w-full rounded-xl' />
+				</div>
+			</Layout>
+		)
+	}
+
+	return (
+		<Layout>
+			<div className='w-full max-w-4xl mx-auto space-y-6'>
+				<div className='flex flex-col md:flex-row justify-between items-start md:items-center gap-4'>
+					<div>
+						<h1 className='text-2xl font-bold text-gray-900'>My Tasks</h1>
+						<p className='text-sm text-gray-500 mt-1'>
+							{openCount === 0
+								? 'Everything is done'
+								: `${openCount} open ${openCount === 1 ? 'task' : 'tasks'}${
+										overdueCount ? `, ${overdueCount} overdue` : ''
+								  }`}
+						</p>
+					</div>
+					<div className='flex flex-wrap items-center gap-4'>
+						<div className='flex items-center gap-2'>
+							<Switch
+								id='show-completed'
+								checked={showCompleted}
+								onCheckedChange={setShowCompleted}
+							/>
+							<Label htmlFor='show-completed'>Show completed</Label>
+						</div>
+						<Button
+							variant='outline'
+							onClick={() => setIsTemplatesOpen(true)}
+						>
+							<ListChecks className='w-4 h-4 mr-2' />
+							Stage Tasks
+						</Button>
+					</div>
+				</div>
+
+				{groups.length === 0 ? (
+					<div className='text-center text-gray-500 py-16'>
+						<ListTodo className='h-12 w-12 mx-auto mb-4 text-gray-300' />
+						<p>No tasks to do</p>
+						<p className='text-sm'>
+							Add tasks from an application, or set up tasks added when one
+							changes stage
+						</p>
+					</div>
+				) : (
+					groups.map((group) => (
+						<Card
+							key={group.title}
+							className='shadow-sm'
+						>
+							<CardHeader className='pb-2'>
+								<CardTitle
+									className={`text-base ${
+										group.title === 'Overdue' ? 'text-red-700' : ''
+									}`}
+								>
+									{group.title} ({group.tasks.length})
+								</CardTitle>
+							</CardHeader>
+							<CardContent className='divide-y'>
+								{group.tasks.map((task) => (
+									<TaskItem
+										key={task.id}
+										task={task}
+										onToggle={toggleTask}
+										onDelete={removeTask}
+										onOpenJob={handleOpenJob}
+									/>
+								))}
+							</CardContent>
+						</Card>
+					))
+				)}
+			</div>
+
+			<TaskTemplatesDialog
+				isOpen={isTemplatesOpen}
+				onClose={() => setIsTemplatesOpen(false)}
+				onSubmit={updateTemplates}
+				templates={templates}
+			/>
+
+			<JobDetailsModal
+				isOpen={!!openedJob}
+				onClose={() => setOpenedJob(null)}
+				jobId={openedJob?.id || null}
+				fallbackJob={openedJob || undefined}
+			/>
+		</Layout>
+	)
+}
+
+export default Tasks
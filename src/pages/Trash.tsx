@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Link } from 'react-router-dom'
+import { ChevronLeft, RotateCcw, Trash2 } from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { useJobs } from '@/contexts/JobContext'
+import { usePipeline } from '@/contexts/PipelineContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { useDocumentTitle } from '@/hooks/use-document-title'
+import { TRASH_RETENTION_DAYS, getDaysUntilPurge } from '@/utils/trashUtils'
+
+const Trash = () => {
+	useDocumentTitle('Trash | JobTrakr')
+	const { trashedJobs, fetchTrash, restoreJobs, permanentlyDeleteJobs } =
+		useJobs()
+	const { getStage } = usePipeline()
+	const [isLoading, setIsLoading] = useState(true)
+	const [selectedIds, setSelectedIds] = useState<string[]>([])
+	// IDs awaiting confirmation before being permanently deleted
+	const [idsToPurge, setIdsToPurge] = useState<string[]>([])
+
+	useEffect(() => {
+		fetchTrash().finally(() => setIsLoading(false))
+	}, [fetchTrash])
+
+	// Drop selections for jobs that have left the trash
+	useEffect(() => {
+		setSelectedIds((prev) =>
+			prev.filter((id) => trashedJobs.some((job) => job.id === id))
+		)
+	}, [trashedJobs])
+
+	const allSelected =
+		trashedJobs.length > 0 && selectedIds.length === trashedJobs.length
+
+	const toggleSelected = (id: string) => {
+		setSelectedIds((prev) =>
+			prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+		)
+	}
+
+	const toggleAll = () => {
+		setSelectedIds(allSelected ? [] : trashedJobs.map((job) => job.id))
+	}
+
+	const handleConfirmPurge = async () => {
+		await permanentlyDeleteJobs(idsToPurge)
+		setIdsToPurge([])
+	}
+
+	if (isLoading) {
+		return (
+			<Layout>
+				<div className='w-full max-w-5xl mx-auto space-y-4'>
+					<Skeleton className='h-8 w-40' />
+					{[1, 2, 3].map((i) => (
+						<Skeleton
+							key={i}
+							className='h-20 w-full rounded-xl'
+						/>
+					))}
+				</div>
+			</Layout>
+		)
+	}
+
+	return (
+		<Layout>
+			<div className='w-full max-w-5xl mx-auto'>
+				<Link
+					to='/applications'
+					className='flex items-center text-blue-500 hover:text-blue-700 mb-2'
+				>
+					<ChevronLeft className='h-4 w-4 mr-1' />
+					Back to Applications
+				</Link>
+				<div className='flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4'>
+					<div>
+						<h1 className='text-2xl font-bold text-gray-900'>Trash</h1>
+						<p className='text-sm text-gray-500 mt-1'>
+							Deleted applications are permanently removed after{' '}
+							{TRASH_RETENTION_DAYS} days
+						</p>
+					</div>
+					{trashedJobs.length > 0 && (
+						<div className='flex gap-2'>
+							<Button
+								variant='outline'
+								size='sm'
+								onClick={() => restoreJobs(selectedIds)}
+								disabled={selectedIds.length === 0}
+							>
+								<RotateCcw className='w-4 h-4 mr-1' />
+								Restore selected
+							</Button>
+							<Button
+								variant='destructive'
+								size='sm'
+								onClick={() =>
+									setIdsToPurge(
+										selectedIds.length > 0
+											? selectedIds
+											: trashedJobs.map((job) => job.id)
+									)
+								}
+							>
+								<Trash2 className='w-4 h-4 mr-1' />
+								{selectedIds.length > 0 ? 'Delete selected' : 'Empty trash'}
+							</Button>
+						</div>
+					)}
+				</div>
+
+				{trashedJobs.length === 0 ? (
+					<div className='text-center text-gray-500 py-16'>
+						<Trash2 className='h-12 w-12 mx-auto mb-4 text-gray-300' />
+						<p>The trash is empty</p>
+					</div>
+				) : (
+					<div className='space-y-3'>
+						<label className='flex items-center gap-2 px-1 text-sm text-gray-600'>
+							<Checkbox
+								checked={allSelected}
+								onCheckedChange={toggleAll}
+							/>
+							Select all ({trashedJobs.length})
+						</label>
+						{trashedJobs.map((job) => {
+							const stage = getStage(job.status)
+							const daysLeft = job.deletedAt
+								? getDaysUntilPurge(job.deletedAt)
+								: TRASH_RETENTION_DAYS
+
+							return (
+								<Card
+									key={job.id}
+									className='shadow-sm'
+								>
+									<CardContent className='p-4 flex flex-col md:flex-row md:items-center gap-3'>
+										<Checkbox
+											checked={selectedIds.includes(job.id)}
+											onCheckedChange={() => toggleSelected(job.id)}
+											aria-label={`Select ${job.position} at ${job.company}`}
+										/>
+										<div className='flex-1 space-y-1'>
+											<div className='flex items-center gap-2'>
+												<p className='font-semibold text-gray-900'>
+													{job.position}
+												</p>
+												<Badge variant='outline'>
+													<span
+														className='w-2 h-2 rounded-full mr-1.5'
+														style={{ backgroundColor: stage.color }}
+													/>
+													{stage.label}
+												</Badge>
+											</div>
+											<p className='text-sm text-gray-600'>{job.company}</p>
+											<p className='text-xs text-gray-500'>
+												{job.deletedAt &&
+													`Deleted ${format(
+														new Date(job.deletedAt),
+														'MMM d, yyyy'
+													)} · `}
+												{daysLeft === 0
+													? 'Will be removed today'
+													: `${daysLeft} ${
+															daysLeft === 1 ? 'day' : 'days'
+													  } left`}
+											</p>
+										</div>
+										<div className='flex gap-2'>
+											<Button
+												variant='outline'
+												size='sm'
+												onClick={() => restoreJobs([job.id])}
+											>
+												<RotateCcw className='w-4 h-4 mr-1' />
+												Restore
+											</Button>
+											<Button
+												variant='ghost'
+												size='sm'
+												className='text-red-600 hover:text-red-700'
+												onClick={() => setIdsToPurge([job.id])}
+											>
+												Delete forever
+											</Button>
+										</div>
+									</CardContent>
+								</Card>
+							)
+						})}
+					</div>
+				)}
+			</div>
+
+			<AlertDialog
+				open={idsToPurge.length > 0}
+				onOpenChange={(open) => !open && setIdsToPurge([])}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>
+							Permanently delete{' '}
+							{idsToPurge.length === 1
+								? 'this application'
+								: `${idsToPurge.length} applications`}
+							?
+						</AlertDialogTitle>
+						<AlertDialogDescription>
+							Their events, notes and contacts will be deleted too. This cannot
+							be undone.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Cancel</AlertDialogCancel>
+						<AlertDialogAction
+							onClick={handleConfirmPurge}
+							className='bg-red-600 hover:bg-red-700'
+						>
+							Delete forever
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</Layout>
+	)
+}
+
+export default Trash
@@ -7,7 +7,7 @@ import {
 	CardTitle,
 	CardDescription,
 } from '@/components/ui/card'
-import { User, Bell, Shield } from 'lucide-react'
+import { User, Bell, Shield, Columns } from 'lucide-react'
 
 const SettingsIndex = () => {
 	return (
@@ -57,6 +57,25 @@ const SettingsIndex = () => {
 						</Card>
 					</Link>
 
+					{/* Pipeline Settings */}
+					<Link
+						to='/settings/pipeline'
+						className='block h-full'
+					>
+						<Card className='hover:bg-slate-50 transition-colors cursor-pointer h-full'>
+							<CardHeader className='flex flex-row items-center gap-3'>
+								<Columns className='h-6 w-6 text-blue-500' />
+								<CardTitle className='text-lg'>Pipeline & Tags</CardTitle>
+							</CardHeader>
+							<CardContent>
+								<p className='text-slate-500'>
+									Customise the stages of your application board and the tags
+									you group applications with
+								</p>
+							</CardContent>
+						</Card>
+					</Link>
+
 					{/* Security Settings */}
 					<Link
 						to='/settings/security'
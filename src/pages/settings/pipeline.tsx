@@ -0,0 +1,43 @@
+import PipelineStagesSettings from "@/components/settings/PipelineStagesSettings";
+import TagsSettings from "@/components/settings/TagsSettings";
+import { useDocumentTitle } from "@/hooks/use-document-title";
+import { ChevronLeft } from "lucide-react";
+import { Link } from "react-router-dom";
+import Layout from "@/components/layout/Layout";
+
+/**
+ * Pipeline Settings Page
+ *
+ * This page allows users to customise the stages of their application
+ * pipeline, including their order, colours and the outcome each maps to,
+ * and to manage the tags used to group applications across stages.
+ */
+const PipelineSettingsPage = () => {
+  useDocumentTitle("Pipeline Settings - JobTrakr");
+
+  return (
+    <Layout>
+      <div className="container mx-auto max-w-4xl py-6">
+        <div className="border-b border-gray-200 pb-4 mb-6">
+          <Link
+            to="/settings"
+            className="flex items-center text-blue-500 hover:text-blue-700 mb-2"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Back to Settings
+          </Link>
+          <h1 className="text-2xl font-bold text-slate-800">
+            Pipeline Settings
+          </h1>
+        </div>
+
+        <div className="space-y-6">
+          <PipelineStagesSettings />
+          <TagsSettings />
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default PipelineSettingsPage;
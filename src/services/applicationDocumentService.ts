@@ -0,0 +1,283 @@
+import { supabase } from "@/lib/supabase";
+
+/**
+ * Which document sent with an application this is
+ */
+export type ApplicationDocumentKind = "resume" | "coverletter";
+
+/**
+ * A resume or cover letter sent with an application.
+ * Points at either an uploaded document or AI-generated content; neither is
+ * set if what was sent has since been deleted.
+ */
+export interface ApplicationDocument {
+  id: string;
+  jobId: string;
+  kind: ApplicationDocumentKind;
+  documentId?: string;
+  aiContentId?: string;
+  name: string;
+  attachedAt: string;
+}
+
+/**
+ * A document the user could send with an application
+ */
+export interface ApplicationDocumentOption {
+  documentId?: string;
+  aiContentId?: string;
+  name: string;
+  createdAt: string;
+  jobId?: string; // Application AI content was generated for
+}
+
+/**
+ * An application a document was sent with
+ */
+export interface DocumentApplication {
+  jobId: string;
+  company: string;
+  position: string;
+  kind: ApplicationDocumentKind;
+  documentId?: string;
+  aiContentId?: string;
+  attachedAt: string;
+}
+
+/**
+ * What to show when opening a sent document: a link to an uploaded file, or
+ * the text of AI-generated content
+ */
+export interface ApplicationDocumentContent {
+  url?: string;
+  mimeType?: string;
+  text?: string;
+}
+
+/**
+ * Database representation of a document sent with an application
+ * This matches the schema in Supabase
+ */
+interface ApplicationDocumentDB {
+  id: string;
+  job_application_id: string;
+  kind: ApplicationDocumentKind;
+  user_document_id: string | null;
+  ai_content_id: string | null;
+  name: string;
+  attached_at: string;
+}
+
+// How long links to open uploaded documents stay valid, in seconds
+const SIGNED_URL_EXPIRY = 300;
+
+// AI content types matching each kind of application document
+const aiContentTypes: Record<ApplicationDocumentKind, string> = {
+  resume: "resume",
+  coverletter: "cover_letter",
+};
+
+// Map DB row to frontend format
+const mapApplicationDocumentFromDB = (
+  row: ApplicationDocumentDB
+): ApplicationDocument => ({
+  id: row.id,
+  jobId: row.job_application_id,
+  kind: row.kind,
+  documentId: row.user_document_id || undefined,
+  aiContentId: row.ai_content_id || undefined,
+  name: row.name,
+  attachedAt: row.attached_at,
+});
+
+/**
+ * The resume and cover letter sent with an application
+ */
+export const fetchApplicationDocuments = async (
+  jobId: string
+): Promise<ApplicationDocument[]> => {
+  const { data, error } = await supabase
+    .from("job_application_documents")
+    .select("*")
+    .eq("job_application_id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to load documents: ${error.message}`);
+  }
+
+  return ((data || []) as ApplicationDocumentDB[]).map(
+    mapApplicationDocumentFromDB
+  );
+};
+
+/**
+ * The user's uploaded documents and AI-generated content of a kind, newest
+ * first, for choosing what was sent with an application
+ */
+export const fetchApplicationDocumentOptions = async (
+  userId: string,
+  kind: ApplicationDocumentKind
+): Promise<ApplicationDocumentOption[]> => {
+  const [documentsResult, aiContentResult] = await Promise.all([
+    supabase
+      .from("user_documents")
+      .select("id, name, created_at")
+      .eq("user_id", userId)
+      .eq("file_type", kind),
+    supabase
+      .from("ai_generated_content")
+      .select("id, title, created_at, job_application_id")
+      .eq("user_id", userId)
+      .eq("content_type", aiContentTypes[kind]),
+  ]);
+
+  if (documentsResult.error) {
+    throw new Error(
+      `Failed to load documents: ${documentsResult.error.message}`
+    );
+  }
+  if (aiContentResult.error) {
+    // Uploaded documents can still be chosen
+    console.error("Error loading AI content:", aiContentResult.error);
+  }
+
+  return [
+    ...(documentsResult.data || []).map((doc) => ({
+      documentId: doc.id,
+      name: doc.name,
+      createdAt: doc.created_at,
+    })),
+    ...(aiContentResult.data || []).map((content) => ({
+      aiContentId: content.id,
+      name: content.title,
+      createdAt: content.created_at,
+      jobId: content.job_application_id || undefined,
+    })),
+  ].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Record the resume or cover letter sent with an application, replacing
+ * whichever was recorded before
+ */
+export const attachApplicationDocument = async (
+  jobId: string,
+  kind: ApplicationDocumentKind,
+  option: ApplicationDocumentOption
+): Promise<ApplicationDocument> => {
+  const { data, error } = await supabase
+    .from("job_application_documents")
+    .upsert(
+      {
+        job_application_id: jobId,
+        kind,
+        user_document_id: option.documentId || null,
+        ai_content_id: option.aiContentId || null,
+        name: option.name,
+        attached_at: new Date().toISOString(),
+      },
+      { onConflict: "job_application_id,kind" }
+    )
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save document: ${error.message}`);
+  }
+
+  return mapApplicationDocumentFromDB(data as ApplicationDocumentDB);
+};
+
+/**
+ * Forget which resume or cover letter was sent with an application
+ */
+export const detachApplicationDocument = async (
+  jobId: string,
+  kind: ApplicationDocumentKind
+): Promise<void> => {
+  const { error } = await supabase
+    .from("job_application_documents")
+    .delete()
+    .eq("job_application_id", jobId)
+    .eq("kind", kind);
+
+  if (error) {
+    throw new Error(`Failed to remove document: ${error.message}`);
+  }
+};
+
+/**
+ * Every application the user sent a document with, newest first, for
+ * answering which applications used a document.
+ * Applications in the trash are left out.
+ */
+export const fetchDocumentApplications = async (
+  userId: string
+): Promise<DocumentApplication[]> => {
+  const { data, error } = await supabase
+    .from("job_application_documents")
+    .select("*, job_applications!inner(company, position)")
+    .eq("job_applications.user_id", userId)
+    .is("job_applications.deleted_at", null)
+    .order("attached_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load document usage: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    jobId: row.job_application_id,
+    company: row.job_applications.company,
+    position: row.job_applications.position,
+    kind: row.kind,
+    documentId: row.user_document_id || undefined,
+    aiContentId: row.ai_content_id || undefined,
+    attachedAt: row.attached_at,
+  }));
+};
+
+/**
+ * Load a sent document for viewing: a short-lived link to an uploaded file,
+ * or the text of AI-generated content
+ */
+export const fetchApplicationDocumentContent = async (
+  document: ApplicationDocument
+): Promise<ApplicationDocumentContent> => {
+  if (document.documentId) {
+    const { data: doc, error } = await supabase
+      .from("user_documents")
+      .select("file_path, mime_type")
+      .eq("id", document.documentId)
+      .single();
+
+    if (error || !doc) {
+      throw new Error("This document couldn't be found");
+    }
+
+    const { data: signed, error: urlError } = await supabase.storage
+      .from("documents")
+      .createSignedUrl(doc.file_path, SIGNED_URL_EXPIRY);
+
+    if (urlError || !signed?.signedUrl) {
+      throw new Error("Could not generate a link to the document");
+    }
+
+    return { url: signed.signedUrl, mimeType: doc.mime_type };
+  }
+
+  if (document.aiContentId) {
+    const { data: content, error } = await supabase
+      .from("ai_generated_content")
+      .select("content")
+      .eq("id", document.aiContentId)
+      .single();
+
+    if (error || !content) {
+      throw new Error("This document couldn't be found");
+    }
+
+    return { text: content.content };
+  }
+
+  throw new Error("This document has been deleted");
+};
@@ -0,0 +1,259 @@
+import { supabase } from "@/lib/supabase";
+import {
+  Company,
+  JobApplication,
+  JobContact,
+  JobStatusChange,
+} from "@/data/mockJobs";
+import { TrackedEmail } from "@/types/email";
+import { mapTrackedEmailFromDB } from "@/services/emailService";
+import {
+  JobStatusChangeDB,
+  mapStatusChangeFromDB,
+} from "@/services/statusHistoryService";
+import { fetchJobColumns, fetchJobsForCompany } from "@/services/jobRepository";
+
+/**
+ * Database representation of a company
+ * This matches the schema in Supabase
+ */
+interface CompanyDB {
+  id: string;
+  user_id: string;
+  name: string;
+  aliases: string[] | null;
+  domain: string | null;
+  website: string | null;
+  logo_url: string | null;
+  size: string | null;
+  industry: string | null;
+  notes: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * A company with how many of the user's applications are for it
+ */
+export interface CompanySummary extends Company {
+  applicationCount: number;
+  lastAppliedAt?: string; // Most recent application, by applied or updated date
+}
+
+/**
+ * A contact at a company, with the application they were added to
+ */
+export interface CompanyContact extends JobContact {
+  jobId: string;
+}
+
+/**
+ * An interview or other event on one of a company's applications
+ */
+export interface CompanyInterview {
+  id: string;
+  jobId: string;
+  date: string;
+  title: string;
+  description?: string;
+}
+
+/**
+ * Everything the user has had to do with a company
+ */
+export interface CompanyActivity {
+  applications: JobApplication[]; // With status history, newest first
+  contacts: CompanyContact[];
+  emails: TrackedEmail[];
+  interviews: CompanyInterview[];
+}
+
+// Map DB row to frontend format
+const mapCompanyFromDB = (row: CompanyDB): Company => ({
+  id: row.id,
+  name: row.name,
+  aliases: row.aliases || [],
+  domain: row.domain || undefined,
+  website: row.website || undefined,
+  logoUrl: row.logo_url || undefined,
+  size: row.size || undefined,
+  industry: row.industry || undefined,
+  notes: row.notes || undefined,
+});
+
+// Map frontend format to DB columns
+const prepareCompanyForDB = (company: Omit<Company, "id">) => ({
+  name: company.name.trim(),
+  aliases: company.aliases.map((alias) => alias.trim()).filter(Boolean),
+  domain: company.domain?.trim().toLowerCase() || null,
+  website: company.website?.trim() || null,
+  logo_url: company.logoUrl?.trim() || null,
+  size: company.size || null,
+  industry: company.industry?.trim() || null,
+  notes: company.notes?.trim() || null,
+});
+
+/**
+ * The user's companies, by name, with their application counts
+ */
+export const fetchCompanies = async (
+  userId: string
+): Promise<CompanySummary[]> => {
+  const [companiesResult, jobs] = await Promise.all([
+    supabase
+      .from("companies")
+      .select("*")
+      .eq("user_id", userId)
+      .order("name", { ascending: true }),
+    fetchJobColumns(userId, ["company_id", "sort_date"]),
+  ]);
+
+  if (companiesResult.error) {
+    throw new Error(
+      `Failed to load companies: ${companiesResult.error.message}`
+    );
+  }
+
+  const statsById = new Map<string, { count: number; last?: string }>();
+  jobs.forEach((job) => {
+    if (!job.company_id) return;
+    const stats = statsById.get(job.company_id) || { count: 0 };
+    stats.count++;
+    if (job.sort_date && (!stats.last || job.sort_date > stats.last)) {
+      stats.last = job.sort_date;
+    }
+    statsById.set(job.company_id, stats);
+  });
+
+  return ((companiesResult.data || []) as CompanyDB[]).map((row) => ({
+    ...mapCompanyFromDB(row),
+    applicationCount: statsById.get(row.id)?.count || 0,
+    lastAppliedAt: statsById.get(row.id)?.last,
+  }));
+};
+
+/**
+ * One of the user's companies
+ *
+ * @returns The company, or null if there is no such company
+ */
+export const fetchCompany = async (
+  companyId: string
+): Promise<Company | null> => {
+  const { data, error } = await supabase
+    .from("companies")
+    .select("*")
+    .eq("id", companyId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load company: ${error.message}`);
+  }
+
+  return data ? mapCompanyFromDB(data as CompanyDB) : null;
+};
+
+/**
+ * Save changes to a company's details
+ */
+export const updateCompany = async (company: Company): Promise<Company> => {
+  const { id, ...details } = company;
+  const { data, error } = await supabase
+    .from("companies")
+    .update(prepareCompanyForDB(details))
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(
+      error.code === "23505"
+        ? "You already have a company with that name"
+        : `Failed to save company: ${error.message}`
+    );
+  }
+
+  return mapCompanyFromDB(data as CompanyDB);
+};
+
+/**
+ * Everything linked to a company's applications: the applications with
+ * their status history, contacts, emails and interviews.
+ * Related records are supplementary, so failures loading them are logged
+ * and the rest is still returned.
+ */
+export const fetchCompanyActivity = async (
+  userId: string,
+  companyId: string
+): Promise<CompanyActivity> => {
+  const jobs = await fetchJobsForCompany(userId, companyId);
+  const jobIds = jobs.map((job) => job.id);
+  if (jobIds.length === 0) {
+    return { applications: [], contacts: [], emails: [], interviews: [] };
+  }
+
+  const [historyResult, contactsResult, emailsResult, eventsResult] =
+    await Promise.all([
+      supabase
+        .from("job_status_history")
+        .select("*")
+        .in("job_application_id", jobIds)
+        .order("changed_at", { ascending: true }),
+      supabase
+        .from("job_application_contacts")
+        .select("*")
+        .in("job_application_id", jobIds)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("tracked_emails")
+        .select("*")
+        .in("job_application_id", jobIds)
+        .order("received_at", { ascending: false }),
+      supabase
+        .from("job_events")
+        .select("*")
+        .in("job_application_id", jobIds)
+        .order("date", { ascending: false }),
+    ]);
+
+  [historyResult, contactsResult, emailsResult, eventsResult].forEach(
+    (result) => {
+      if (result.error) {
+        console.error("Error loading company activity:", result.error);
+      }
+    }
+  );
+
+  const historyById: Record<string, JobStatusChange[]> = {};
+  ((historyResult.data || []) as JobStatusChangeDB[]).forEach((change) => {
+    const jobId = change.job_application_id;
+    if (!historyById[jobId]) {
+      historyById[jobId] = [];
+    }
+    historyById[jobId].push(mapStatusChangeFromDB(change));
+  });
+
+  return {
+    applications: jobs.map((job) => ({
+      ...job,
+      statusHistory: historyById[job.id] || [],
+    })),
+    contacts: (contactsResult.data || []).map((contact) => ({
+      id: contact.id,
+      jobId: contact.job_application_id,
+      name: contact.name,
+      email: contact.email,
+      phone: contact.phone || undefined,
+      position: contact.position || undefined,
+      lastContactedAt: contact.last_contacted_at || undefined,
+    })),
+    emails: (emailsResult.data || []).map(mapTrackedEmailFromDB),
+    interviews: (eventsResult.data || []).map((event) => ({
+      id: event.id,
+      jobId: event.job_application_id,
+      date: event.date,
+      title: event.title,
+      description: event.description || undefined,
+    })),
+  };
+};
@@ -0,0 +1,127 @@
+import { supabase } from "@/lib/supabase";
+import { JobApplication } from "@/data/mockJobs";
+import { fetchJobColumns, prepareJobForDB } from "@/services/jobRepository";
+import { getDuplicatePairKey } from "@/utils/duplicateUtils";
+
+/**
+ * Database representation of a pair marked as not duplicates
+ * This matches the schema in Supabase
+ */
+interface JobDuplicateDismissalDB {
+  id: string;
+  user_id: string;
+  job_application_id: string;
+  other_job_application_id: string;
+  created_at?: string;
+}
+
+/**
+ * Keys of the application pairs a user has marked as not duplicates
+ */
+export const fetchDismissedDuplicatePairs = async (
+  userId: string
+): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from("job_duplicate_dismissals")
+    .select("*")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to load dismissed duplicates: ${error.message}`);
+  }
+
+  return new Set(
+    ((data || []) as JobDuplicateDismissalDB[]).map((row) =>
+      getDuplicatePairKey(row.job_application_id, row.other_job_application_id)
+    )
+  );
+};
+
+/**
+ * Remember that two applications are not duplicates
+ */
+export const dismissDuplicatePair = async (
+  userId: string,
+  jobIdA: string,
+  jobIdB: string
+): Promise<void> => {
+  // Stored lowest ID first, matching the table's check constraint
+  const [first, second] = [jobIdA, jobIdB].sort();
+
+  const { error } = await supabase.from("job_duplicate_dismissals").upsert(
+    {
+      user_id: userId,
+      job_application_id: first,
+      other_job_application_id: second,
+    },
+    { onConflict: "user_id,job_application_id,other_job_application_id" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to dismiss duplicate: ${error.message}`);
+  }
+};
+
+/**
+ * Every active application with just the fields duplicate checks compare,
+ * e.g. to check imported rows against applications not loaded yet
+ */
+export const fetchDuplicateCandidates = async (
+  userId: string
+): Promise<JobApplication[]> => {
+  const rows = await fetchJobColumns(userId, [
+    "company",
+    "position",
+    "location",
+    "status",
+    "applied_date",
+    "external_url",
+    "external_id",
+  ]);
+
+  return rows.map((row) => ({
+    id: row.id,
+    company: row.company,
+    position: row.position,
+    location: row.location || "",
+    status: row.status,
+    appliedDate: row.applied_date || "",
+    lastUpdated: "",
+    jobDescription: "",
+    jobUrl: row.external_url || undefined,
+    externalId: row.external_id || undefined,
+  }));
+};
+
+/**
+ * Merge a duplicate application into the one kept, in one transaction.
+ * The duplicate's events, notes, emails, posting snapshots, documents,
+ * tasks, referral, offer, rejection, status history and the given contacts
+ * move to the kept application, which is saved with its merged fields, and
+ * the duplicate is moved to the trash. Rows the kept application already
+ * has, e.g. its own offer or a task from the same template, stay with the
+ * duplicate.
+ *
+ * @param merged The kept application, with the fields filled in by the merge
+ * @param duplicateId The application to merge in and trash
+ * @param movedContactIds The duplicate's contacts to move across
+ * @param deletedAt When the duplicate is moved to the trash
+ */
+export const mergeDuplicateJob = async (
+  merged: JobApplication,
+  duplicateId: string,
+  movedContactIds: string[],
+  deletedAt: string
+): Promise<void> => {
+  const { error } = await supabase.rpc("merge_job_applications", {
+    primary_job_id: merged.id,
+    duplicate_job_id: duplicateId,
+    merged_fields: prepareJobForDB(merged),
+    moved_contact_ids: movedContactIds,
+    trashed_at: deletedAt,
+  });
+
+  if (error) {
+    throw new Error(`Failed to merge jobs: ${error.message}`);
+  }
+};
@@ -11,6 +11,12 @@ import {
   STATUS_KEYWORDS,
   EmailJobStatus,
 } from "@/types/email";
+import { recordStatusChange } from "@/services/statusHistoryService";
+import {
+  fetchJobColumns,
+  fetchJobStatus,
+  updateJobColumns,
+} from "@/services/jobRepository";
 
 // Convert DB row to frontend format
 export const mapEmailIntegrationFromDB = (
@@ -242,6 +248,7 @@ export const saveTrackedEmail = async (
       // If we have a status and it matches a job application, update the job status
       if (parseResult.status && parseResult.relatedJobId) {
         await updateJobApplicationStatus(
+          userId,
           parseResult.relatedJobId,
           parseResult.status
         );
@@ -300,23 +307,33 @@ export const parseEmailContent = (
 
 // Update job application status based on email
 export const updateJobApplicationStatus = async (
+  userId: string,
   jobId: string,
   status: EmailJobStatus
 ): Promise<void> => {
   if (!status) return;
 
   try {
-    const { error } = await supabase
-      .from("job_applications")
-      .update({
-        status,
-        last_updated: new Date().toISOString(),
-      })
-      .eq("id", jobId);
-
-    if (error) {
-      throw error;
+    // Read the current status so the transition can be recorded
+    const currentStatus = await fetchJobStatus(userId, jobId);
+    if (currentStatus === null) {
+      throw new Error("Job application not found");
     }
+
+    if (currentStatus === status) return;
+
+    const now = new Date().toISOString();
+    await updateJobColumns(userId, [jobId], {
+      status,
+      last_updated: now,
+    });
+
+    await recordStatusChange(jobId, userId, {
+      fromStatus: currentStatus,
+      toStatus: status,
+      changedAt: now,
+      source: "email",
+    });
   } catch (error) {
     console.error("Error updating job status:", error);
     throw error;
@@ -843,17 +860,7 @@ export const matchEmailsToJobs = async (userId: string): Promise<number> => {
     }
 
     // Get all job applications for the user
-    const { data: jobsData, error: jobsError } = await supabase
-      .from("job_applications")
-      .select("id, company, position");
-
-    if (jobsError) {
-      throw jobsError;
-    }
-
-    if (!jobsData) {
-      return 0;
-    }
+    const jobsData = await fetchJobColumns(userId, ["company", "position"]);
 
     let matchCount = 0;
 
@@ -883,6 +890,7 @@ export const matchEmailsToJobs = async (userId: string): Promise<number> => {
             // If email has a status, update the job
             if (trackedEmail.parsedStatus) {
               await updateJobApplicationStatus(
+                userId,
                 job.id,
                 trackedEmail.parsedStatus
               );
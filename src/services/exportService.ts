@@ -0,0 +1,45 @@
+import { supabase } from "@/lib/supabase";
+import { ExportedDocument } from "@/utils/exportUtils";
+
+/**
+ * Database representation of an uploaded document
+ * This matches the schema in Supabase
+ */
+interface UserDocumentDB {
+  id: string;
+  user_id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  file_type: "resume" | "coverletter" | "other";
+  file_path: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+/**
+ * The user's uploaded documents, for including in an export.
+ * Only the details are exported, not the files themselves.
+ */
+export const fetchExportDocuments = async (
+  userId: string
+): Promise<ExportedDocument[]> => {
+  const { data, error } = await supabase
+    .from("user_documents")
+    .select("id, name, mime_type, size, file_type, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load documents: ${error.message}`);
+  }
+
+  return ((data || []) as UserDocumentDB[]).map((row) => ({
+    id: row.id,
+    name: row.name,
+    type: row.file_type,
+    mimeType: row.mime_type,
+    size: row.size,
+    uploadedAt: row.created_at,
+  }));
+};
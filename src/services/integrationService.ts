@@ -1,5 +1,9 @@
 import { supabase } from "@/lib/supabase";
+import { JobApplication } from "@/data/mockJobs";
 import { createApplicationNotification } from "@/utils/notificationUtils";
+import { recordStatusChange } from "@/services/statusHistoryService";
+import { fetchJobColumns, insertJob } from "@/services/jobRepository";
+import { normalizeJobUrl } from "@/utils/duplicateUtils";
 
 // Define integration types
 export type IntegrationType = "indeed" | "linkedin";
@@ -235,50 +239,63 @@ export const importExternalJobs = async (
   let importedCount = 0;
 
   try {
-    // First, get existing external IDs to avoid duplicates
-    const { data: existingJobs } = await supabase
-      .from("job_applications")
-      .select("external_id")
-      .eq("user_id", userId)
-      .not("external_id", "is", null);
-
-    const existingExternalIds =
-      existingJobs?.map((job) => job.external_id) || [];
+    // First, get existing posting IDs and URLs to avoid duplicates. Jobs in
+    // the trash don't count, so a trashed job can be imported again.
+    const existingJobs = await fetchJobColumns(userId, [
+      "external_id",
+      "external_url",
+    ]);
+
+    const existingExternalIds = existingJobs
+      .map((job) => job.external_id)
+      .filter(Boolean);
+    const existingUrls = new Set(
+      existingJobs
+        .map((job) => normalizeJobUrl(job.external_url))
+        .filter(Boolean)
+    );
 
-    // Filter out jobs that are already imported
+    // Filter out jobs that are already imported or were added by hand from
+    // the same posting. Looser matches are left for the duplicates screen.
     const newJobs = jobs.filter(
-      (job) => !existingExternalIds.includes(job.external_id)
+      (job) =>
+        !existingExternalIds.includes(job.external_id) &&
+        !existingUrls.has(normalizeJobUrl(job.url))
     );
 
     for (const job of newJobs) {
       // Convert 'saved' status to 'bookmarked' or other appropriate status in your system
       const jobStatus = job.status === "saved" ? "bookmarked" : job.status;
 
-      // Insert the job into the database
-      const { data, error } = await supabase
-        .from("job_applications")
-        .insert({
-          user_id: userId,
-          company: job.company,
-          position: job.position,
-          location: job.location || null,
-          status: jobStatus,
-          applied_date: job.applied_date.toISOString(),
-          last_updated: new Date().toISOString(),
-          external_id: job.external_id,
-          external_url: job.url || null,
-          external_platform: job.platform,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .select("*")
-        .single();
+      const importedJob: JobApplication = {
+        id: "",
+        company: job.company,
+        position: job.position,
+        location: job.location || "",
+        status: jobStatus,
+        appliedDate: job.applied_date.toISOString(),
+        lastUpdated: new Date().toISOString(),
+        jobUrl: job.url,
+        jobDescription: "",
+        externalId: job.external_id,
+        externalPlatform: job.platform,
+      };
 
-      if (error) {
+      // Insert the job into the database
+      let savedJob: JobApplication;
+      try {
+        savedJob = await insertJob(userId, importedJob);
+      } catch (error) {
         console.error("Error importing job:", error);
         continue;
       }
 
+      await recordStatusChange(savedJob.id, userId, {
+        toStatus: jobStatus,
+        changedAt: new Date().toISOString(),
+        source: "integration",
+      });
+
       // Only create notification for applied jobs, not saved/bookmarked
       if (jobStatus === "applied") {
         // Create notification for the imported job
@@ -0,0 +1,1266 @@
+import { supabase } from "@/lib/supabase";
+import {
+  DEFAULT_PIPELINE_STAGES,
+  JobApplication,
+  JobContact,
+  JobNote,
+  JobReferral,
+  JobRejection,
+  JobStatusChange,
+  JobTag,
+  SalaryPeriod,
+  SalaryRange,
+} from "@/data/mockJobs";
+import { parseSalary } from "@/utils/currencyUtils";
+import { isSafeUrl, sanitizeInput } from "@/utils/security";
+import { getTrashPurgeCutoff } from "@/utils/trashUtils";
+import { QueryFilterContext, parseJobQuery } from "@/utils/jobQueryUtils";
+import {
+  JobPageCursor,
+  JobPageQuery,
+  getCursorFilter,
+  getJobPageFilters,
+  getJobSort,
+} from "@/utils/jobPageUtils";
+import {
+  recordStatusChange,
+  recordStatusChanges,
+} from "@/services/statusHistoryService";
+import { addStageTasks } from "@/services/taskService";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Job application repository
+ *
+ * Reads and writes job_applications rows. This is the one place that maps
+ * between the database and frontend shapes of a job, for JobContext and
+ * the /api/jobs routes in apiAdapter alike.
+ */
+
+//=============================================================================
+// TYPE DEFINITIONS
+//=============================================================================
+
+/**
+ * Database representation of a job application
+ * This matches the schema in Supabase
+ */
+export interface JobApplicationDB {
+  id: string;
+  user_id: string;
+  company: string;
+  company_id: string | null;
+  position: string;
+  location: string | null;
+  status: string;
+  applied_date: string | null;
+  last_updated: string;
+  company_website: string | null;
+  external_url: string | null;
+  external_id: string | null;
+  external_platform: string | null;
+  salary: string | null;
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: SalaryPeriod | null;
+  job_description: string | null;
+  work_type: string | null;
+  employment_type: string | null;
+  remote: boolean;
+  tag_ids: string[] | null;
+  deleted_at?: string | null;
+  archived_at?: string | null;
+  follow_up_date?: string | null;
+  sort_date?: string | null; // Generated, read only
+  salary_annual?: number | null; // Generated, read only
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Job fields accepted from users and other apps, before validation
+ */
+export interface JobInput {
+  company?: string;
+  position?: string;
+  location?: string;
+  status?: string;
+  appliedDate?: string;
+  jobUrl?: string;
+  companyWebsite?: string;
+  salary?: string;
+  jobDescription?: string;
+  workType?: JobApplication["workType"];
+  employmentType?: JobApplication["employmentType"];
+  remote?: boolean;
+  note?: string; // A first note, e.g. from an imported spreadsheet
+}
+
+/**
+ * How a list of jobs is filtered, ordered and paged
+ */
+export interface JobListOptions {
+  page?: number; // From 1
+  limit?: number;
+  sortBy?: string; // e.g. "newest", see getJobSort
+  statuses?: string[];
+  tagIds?: string[];
+  archived?: boolean; // List archived jobs instead of the others
+}
+
+/**
+ * One page of a job list, with the jobs' related records not loaded
+ */
+export interface JobList {
+  jobs: JobApplication[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    pages: number;
+  };
+}
+
+/**
+ * One page of job rows, read by cursor
+ */
+export interface JobRowPage {
+  rows: JobApplicationDB[];
+  cursor: JobPageCursor | null; // Where the next page starts, null on the last page
+  totalCount: number | null; // Rows matching the query, counted on the first page only
+}
+
+/**
+ * Job columns read for summaries: all but the description, which can be long
+ */
+type JobSummaryDB = Omit<JobApplicationDB, "job_description">;
+
+// Related rows embedded in summaries, with just the columns read
+interface JobReferralSummaryDB {
+  id: string;
+  referrer_name: string;
+  follow_up_status: string;
+}
+
+interface JobRejectionSummaryDB {
+  id: string;
+  stage_reached: string | null;
+  reason: string | null;
+  rejected_by: string;
+}
+
+interface JobStatusChangeSummaryDB {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  source: string;
+  changed_at: string;
+}
+
+interface JobContactSummaryDB {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  position: string | null;
+  last_contacted_at: string | null;
+}
+
+interface JobEventSummaryDB {
+  id: string;
+  date: string;
+  title: string;
+  description: string | null;
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+const COLUMN_PAGE_SIZE = 1000;
+
+const SUMMARY_COLUMNS = [
+  "id",
+  "user_id",
+  "company",
+  "company_id",
+  "position",
+  "location",
+  "status",
+  "applied_date",
+  "last_updated",
+  "company_website",
+  "external_url",
+  "external_id",
+  "external_platform",
+  "salary",
+  "salary_min",
+  "salary_max",
+  "salary_currency",
+  "salary_period",
+  "work_type",
+  "employment_type",
+  "remote",
+  "tag_ids",
+  "archived_at",
+  "follow_up_date",
+].join(", ");
+
+//=============================================================================
+// MAPPING
+//=============================================================================
+
+/**
+ * Read the structured salary columns, parsing the free-text salary
+ * for jobs saved before the columns existed
+ */
+const mapSalaryFromDB = (dbJob: JobApplicationDB): SalaryRange | undefined => {
+  if (dbJob.salary_min === null && dbJob.salary_max === null) {
+    return parseSalary(dbJob.salary, dbJob.location || undefined) || undefined;
+  }
+
+  return {
+    min: dbJob.salary_min ?? undefined,
+    max: dbJob.salary_max ?? undefined,
+    currency: dbJob.salary_currency || undefined,
+    period: dbJob.salary_period || "annual",
+  };
+};
+
+/**
+ * Prepare the structured salary columns for database insertion/update
+ */
+const prepareSalaryForDB = (job: JobApplication) => {
+  const range = job.salaryRange || parseSalary(job.salary, job.location);
+
+  return {
+    salary_min: range?.min ?? null,
+    salary_max: range?.max ?? null,
+    salary_currency: range?.currency || null,
+    salary_period: range?.period || null,
+  };
+};
+
+/**
+ * Convert a database job record to frontend format
+ * Maps database field names to frontend property names
+ */
+export const mapJobFromDB = (
+  dbJob: JobApplicationDB,
+  events: JobApplication["events"] = [],
+  notes: JobNote[] = [],
+  contacts: JobContact[] = [],
+  statusHistory: JobStatusChange[] = [],
+  referral?: JobReferral,
+  rejection?: JobRejection
+): JobApplication => ({
+  id: dbJob.id,
+  company: dbJob.company,
+  companyId: dbJob.company_id || undefined,
+  position: dbJob.position,
+  location: dbJob.location || "",
+  status: dbJob.status as JobApplication["status"],
+  appliedDate: dbJob.applied_date || "",
+  lastUpdated: dbJob.last_updated,
+  companyWebsite: dbJob.company_website || "",
+  jobUrl: dbJob.external_url || undefined,
+  externalId: dbJob.external_id || undefined,
+  externalPlatform: dbJob.external_platform || undefined,
+  salary: dbJob.salary || "",
+  salaryRange: mapSalaryFromDB(dbJob),
+  jobDescription: dbJob.job_description || "",
+  workType: (dbJob.work_type || "On-site") as JobApplication["workType"],
+  employmentType: (dbJob.employment_type ||
+    "Full-time") as JobApplication["employmentType"],
+  remote: dbJob.remote || false,
+  events: events,
+  notes: notes,
+  contacts: contacts,
+  referral: referral,
+  rejection: rejection,
+  statusHistory: statusHistory,
+  tagIds: dbJob.tag_ids || [],
+  deletedAt: dbJob.deleted_at || undefined,
+  archivedAt: dbJob.archived_at || undefined,
+  followUpDate: dbJob.follow_up_date || undefined,
+});
+
+/**
+ * Convert a job summary to frontend format, with whichever related
+ * records were read alongside it
+ */
+const mapJobSummaryFromDB = (
+  dbJob: JobSummaryDB,
+  related: Partial<
+    Pick<
+      JobApplication,
+      "events" | "contacts" | "statusHistory" | "referral" | "rejection"
+    >
+  >
+): JobApplication => ({
+  ...mapJobFromDB({ ...dbJob, job_description: null }),
+  ...related,
+});
+
+/**
+ * Prepare job data for database insertion/update
+ * Maps frontend property names to database field names
+ */
+export const prepareJobForDB = (
+  job: JobApplication
+): Omit<JobApplicationDB, "id" | "user_id"> => ({
+  company: job.company,
+  // Linked by the database from the company name when empty
+  company_id: job.companyId || null,
+  position: job.position,
+  location: job.location || null,
+  status: job.status,
+  applied_date: job.appliedDate || null,
+  last_updated: job.lastUpdated || new Date().toISOString(),
+  company_website: job.companyWebsite || null,
+  external_url: job.jobUrl || null,
+  external_id: job.externalId || null,
+  external_platform: job.externalPlatform || null,
+  salary: job.salary || null,
+  ...prepareSalaryForDB(job),
+  job_description:
+    typeof job.jobDescription === "string" ? job.jobDescription : "",
+  work_type: job.workType || "On-site",
+  employment_type: job.employmentType || "Full-time",
+  remote: job.remote || false,
+  tag_ids: job.tagIds || [],
+  archived_at: job.archivedAt || null,
+  follow_up_date: job.followUpDate || null,
+});
+
+//=============================================================================
+// VALIDATION
+//=============================================================================
+
+const cleanText = (maxLength: number) => (value: unknown) =>
+  typeof value === "string"
+    ? sanitizeInput(value).substring(0, maxLength)
+    : null;
+
+// Validation for each accepted field; null drops the value
+const JOB_INPUT_RULES: Record<keyof JobInput, (value: unknown) => unknown> = {
+  company: cleanText(100),
+  position: cleanText(200),
+  location: cleanText(100),
+  status: cleanText(50), // A stage key; stages are user-defined
+  appliedDate: (value) =>
+    typeof value === "string" && !isNaN(new Date(value).getTime())
+      ? value
+      : null,
+  jobUrl: (value) =>
+    typeof value === "string" && isSafeUrl(value)
+      ? sanitizeInput(value).substring(0, 500)
+      : null,
+  companyWebsite: (value) =>
+    typeof value === "string" && isSafeUrl(value)
+      ? sanitizeInput(value).substring(0, 500)
+      : null,
+  salary: cleanText(50),
+  jobDescription: cleanText(5000),
+  workType: (value) =>
+    ["Remote", "On-site", "Hybrid"].includes(value as string) ? value : null,
+  employmentType: (value) =>
+    ["Full-time", "Part-time"].includes(value as string) ? value : null,
+  remote: (value) => (typeof value === "boolean" ? value : null),
+  note: cleanText(2000),
+};
+
+/**
+ * Validate and clean job data from user input to prevent injection
+ * attacks. Unknown fields and invalid values are dropped; text is
+ * sanitised and shortened to its limit.
+ *
+ * @param data Raw job data from user input
+ * @returns Sanitized job data, or null if there was none
+ */
+export const cleanJobInput = (data: unknown): JobInput | null => {
+  if (!data || typeof data !== "object") return null;
+
+  const cleaned: Record<string, unknown> = {};
+  for (const [field, validate] of Object.entries(JOB_INPUT_RULES)) {
+    if (field in data) {
+      const value = validate((data as Record<string, unknown>)[field]);
+      if (value !== null) cleaned[field] = value;
+    }
+  }
+  return cleaned as JobInput;
+};
+
+//=============================================================================
+// QUERIES
+//=============================================================================
+
+/**
+ * The user's stages and tags, which status and tag search terms refer to
+ */
+export const fetchQueryFilterContext = async (
+  userId: string
+): Promise<QueryFilterContext> => {
+  const [stagesResult, tagsResult] = await Promise.all([
+    supabase.from("pipeline_stages").select("key, label").eq("user_id", userId),
+    supabase.from("job_tags").select("id, name, color").eq("user_id", userId),
+  ]);
+
+  if (stagesResult.error) {
+    throw new Error(`Failed to load stages: ${stagesResult.error.message}`);
+  }
+  if (tagsResult.error) {
+    throw new Error(`Failed to load tags: ${tagsResult.error.message}`);
+  }
+
+  return {
+    stages:
+      stagesResult.data && stagesResult.data.length > 0
+        ? stagesResult.data
+        : DEFAULT_PIPELINE_STAGES,
+    tags: (tagsResult.data || []) as JobTag[],
+  };
+};
+
+/**
+ * The user's most recently updated jobs, archived or not
+ */
+export const fetchRecentJobRows = async (
+  userId: string,
+  limit: number
+): Promise<JobApplicationDB[]> => {
+  const { data, error } = await supabase
+    .from("job_applications")
+    .select("*")
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .order("last_updated", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Error fetching jobs: ${error.message}`);
+  }
+
+  return (data || []) as JobApplicationDB[];
+};
+
+/**
+ * Some of the user's jobs not in the trash, in no particular order
+ *
+ * @param jobIds The jobs to read; ones in the trash or not found are left out
+ */
+export const fetchJobRowsById = async (
+  userId: string,
+  jobIds: string[]
+): Promise<JobApplicationDB[]> => {
+  if (jobIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("job_applications")
+    .select("*")
+    .eq("user_id", userId)
+    .in("id", jobIds)
+    .is("deleted_at", null);
+
+  if (error) {
+    throw new Error(`Error fetching jobs: ${error.message}`);
+  }
+
+  return (data || []) as JobApplicationDB[];
+};
+
+/**
+ * Read one page of jobs, sorted and filtered in the database
+ *
+ * @param query What the list shows and how it is sorted
+ * @param context Stages and tags that search terms refer to
+ * @param cursor Where the previous page ended, null for the first page
+ * @param limit Jobs per page
+ */
+export const fetchJobRowPage = async (
+  userId: string,
+  query: JobPageQuery,
+  context: QueryFilterContext,
+  cursor: JobPageCursor | null,
+  limit: number
+): Promise<JobRowPage> => {
+  const sort = getJobSort(query.sortBy);
+  const filters = getJobPageFilters(query, context);
+  if (cursor) filters.push(getCursorFilter(sort, cursor));
+
+  let request = supabase
+    .from("job_applications")
+    .select("*", cursor ? undefined : { count: "exact" })
+    .eq("user_id", userId)
+    .is("deleted_at", null);
+
+  if (filters.length > 0) {
+    request = request.or(`and(${filters.join(",")})`);
+  }
+
+  const { data, count, error } = await request
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+    .order("id", { ascending: sort.ascending })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Error fetching jobs: ${error.message}`);
+  }
+
+  const rows = (data || []) as JobApplicationDB[];
+  const last = rows[rows.length - 1];
+  return {
+    rows,
+    cursor:
+      rows.length === limit
+        ? { value: last[sort.column] ?? null, id: last.id }
+        : null,
+    totalCount: cursor ? null : count ?? rows.length,
+  };
+};
+
+/**
+ * Read a numbered page of jobs matching a query
+ */
+const fetchJobList = async (
+  userId: string,
+  query: JobPageQuery,
+  context: QueryFilterContext,
+  options: JobListOptions
+): Promise<JobList> => {
+  const limit = options.limit || DEFAULT_LIST_LIMIT;
+  const page = options.page || 1;
+  const offset = (page - 1) * limit;
+
+  const sort = getJobSort(query.sortBy);
+  const filters = getJobPageFilters(query, context);
+
+  let request = supabase
+    .from("job_applications")
+    .select("*", { count: "exact" })
+    .eq("user_id", userId)
+    .is("deleted_at", null);
+
+  if (filters.length > 0) {
+    request = request.or(`and(${filters.join(",")})`);
+  }
+
+  const { data, count, error } = await request
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+    .order("id", { ascending: sort.ascending })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Error fetching jobs: ${error.message}`);
+  }
+
+  return {
+    jobs: ((data || []) as JobApplicationDB[]).map((row) => mapJobFromDB(row)),
+    pagination: {
+      total: count || 0,
+      page,
+      limit,
+      pages: count ? Math.ceil(count / limit) : 0,
+    },
+  };
+};
+
+/**
+ * A page of the user's jobs, newest first unless sorted otherwise
+ */
+export const getJobsForUser = async (
+  userId: string,
+  options: JobListOptions = {}
+): Promise<JobList> => {
+  const context = options.statuses?.length
+    ? await fetchQueryFilterContext(userId)
+    : { stages: [], tags: [] };
+
+  return fetchJobList(
+    userId,
+    {
+      sortBy: options.sortBy || "newest",
+      statuses: options.statuses,
+      tagIds: options.tagIds,
+      archived: options.archived,
+    },
+    context,
+    options
+  );
+};
+
+/**
+ * A page of the user's jobs matching a search, written as in the search
+ * bar, e.g. `acme status:interview salary:>90k`
+ */
+export const searchJobs = async (
+  userId: string,
+  searchTerm: string,
+  options: JobListOptions = {}
+): Promise<JobList> => {
+  const terms = parseJobQuery(searchTerm);
+  if (terms.length === 0) {
+    return {
+      jobs: [],
+      pagination: {
+        total: 0,
+        page: options.page || 1,
+        limit: options.limit || DEFAULT_LIST_LIMIT,
+        pages: 0,
+      },
+    };
+  }
+
+  return fetchJobList(
+    userId,
+    {
+      sortBy: options.sortBy || "newest",
+      statuses: options.statuses,
+      tagIds: options.tagIds,
+      archived: options.archived,
+      terms,
+    },
+    await fetchQueryFilterContext(userId),
+    options
+  );
+};
+
+/**
+ * One of the user's jobs, without its related records
+ *
+ * @returns The job, or null if there is no such job
+ */
+export const getJobById = async (
+  userId: string,
+  jobId: string
+): Promise<JobApplication | null> => {
+  const { data, error } = await supabase
+    .from("job_applications")
+    .select("*")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load job: ${error.message}`);
+  }
+
+  return data ? mapJobFromDB(data as JobApplicationDB) : null;
+};
+
+/**
+ * Every application for one of the user's companies, archived or not,
+ * most recent first
+ */
+export const fetchJobsForCompany = async (
+  userId: string,
+  companyId: string
+): Promise<JobApplication[]> => {
+  const { data, error } = await supabase
+    .from("job_applications")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("company_id", companyId)
+    .is("deleted_at", null)
+    .order("sort_date", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load applications: ${error.message}`);
+  }
+
+  return ((data || []) as JobApplicationDB[]).map((row) => mapJobFromDB(row));
+};
+
+/**
+ * Every job not in the trash, read with a select that can embed related
+ * rows. Read in pages, as the API caps the rows returned per request.
+ */
+const fetchActiveJobRows = async <T extends { id: string }>(
+  userId: string,
+  select: string
+): Promise<T[]> => {
+  const rows: T[] = [];
+  let afterId: string | null = null;
+
+  while (true) {
+    let request = supabase
+      .from("job_applications")
+      .select(select)
+      .eq("user_id", userId)
+      .is("deleted_at", null);
+
+    if (afterId) {
+      request = request.gt("id", afterId);
+    }
+
+    const { data, error } = await request
+      .order("id", { ascending: true })
+      .limit(COLUMN_PAGE_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load applications: ${error.message}`);
+    }
+
+    // The select is only known at runtime, so the row type is asserted
+    const page = (data || []) as unknown as T[];
+    rows.push(...page);
+
+    if (page.length < COLUMN_PAGE_SIZE) return rows;
+    afterId = page[page.length - 1].id;
+  }
+};
+
+/**
+ * Some columns of every job not in the trash, e.g. to count or compare
+ * jobs that aren't loaded
+ */
+export const fetchJobColumns = async <K extends keyof JobApplicationDB>(
+  userId: string,
+  columns: K[]
+): Promise<Pick<JobApplicationDB, K | "id">[]> =>
+  fetchActiveJobRows<Pick<JobApplicationDB, K | "id">>(
+    userId,
+    Array.from(new Set(["id", ...columns])).join(", ")
+  );
+
+/**
+ * Every job not in the trash with the records dashboards count: its
+ * referral, rejection and status history. Descriptions, events, notes and
+ * contacts are left out.
+ */
+export const fetchJobSummaries = async (
+  userId: string
+): Promise<JobApplication[]> => {
+  const rows = await fetchActiveJobRows<
+    JobSummaryDB & {
+      job_referrals: JobReferralSummaryDB | null;
+      job_rejections: JobRejectionSummaryDB | null;
+      job_status_history: JobStatusChangeSummaryDB[];
+    }
+  >(
+    userId,
+    `${SUMMARY_COLUMNS},
+    job_referrals(id, referrer_name, follow_up_status),
+    job_rejections(id, stage_reached, reason, rejected_by),
+    job_status_history(id, from_status, to_status, source, changed_at)`
+  );
+
+  return rows.map((row) =>
+    mapJobSummaryFromDB(row, {
+      statusHistory: row.job_status_history.map((change) => ({
+        id: change.id,
+        fromStatus: change.from_status || undefined,
+        toStatus: change.to_status,
+        changedAt: change.changed_at,
+        source: change.source as JobStatusChange["source"],
+      })),
+      referral: row.job_referrals
+        ? {
+            id: row.job_referrals.id,
+            referrerName: row.job_referrals.referrer_name,
+            followUpStatus: row.job_referrals
+              .follow_up_status as JobReferral["followUpStatus"],
+          }
+        : undefined,
+      rejection: row.job_rejections
+        ? {
+            id: row.job_rejections.id,
+            stageReached:
+              (row.job_rejections
+                .stage_reached as JobRejection["stageReached"]) || undefined,
+            reason:
+              (row.job_rejections.reason as JobRejection["reason"]) ||
+              undefined,
+            rejectedBy: row.job_rejections
+              .rejected_by as JobRejection["rejectedBy"],
+          }
+        : undefined,
+    })
+  );
+};
+
+/**
+ * Every job not in the trash that has contacts, with its contacts, e.g. to
+ * list everyone across the user's applications
+ */
+export const fetchJobsWithContacts = async (
+  userId: string
+): Promise<JobApplication[]> => {
+  const rows = await fetchActiveJobRows<
+    JobSummaryDB & { job_application_contacts: JobContactSummaryDB[] }
+  >(
+    userId,
+    `${SUMMARY_COLUMNS},
+    job_application_contacts!inner(id, name, email, phone, position, last_contacted_at)`
+  );
+
+  return rows.map((row) =>
+    mapJobSummaryFromDB(row, {
+      contacts: row.job_application_contacts.map((contact) => ({
+        id: contact.id,
+        name: contact.name,
+        email: contact.email,
+        phone: contact.phone || undefined,
+        position: contact.position || undefined,
+        lastContactedAt: contact.last_contacted_at || undefined,
+      })),
+    })
+  );
+};
+
+/**
+ * Every job not in the trash with its events, e.g. to show them on a
+ * calendar
+ */
+export const fetchJobsWithEvents = async (
+  userId: string
+): Promise<JobApplication[]> => {
+  const rows = await fetchActiveJobRows<
+    JobSummaryDB & { job_events: JobEventSummaryDB[] }
+  >(userId, `${SUMMARY_COLUMNS}, job_events(id, date, title, description)`);
+
+  return rows.map((row) =>
+    mapJobSummaryFromDB(row, {
+      events: row.job_events.map((event) => ({
+        id: event.id,
+        date: event.date,
+        title: event.title,
+        description: event.description || undefined,
+      })),
+    })
+  );
+};
+
+/**
+ * When one of the user's jobs was last changed
+ *
+ * @returns The time, or null if there is no such job
+ */
+export const fetchJobLastUpdated = async (
+  userId: string,
+  jobId: string
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from("job_applications")
+    .select("last_updated")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check for conflicts: ${error.message}`);
+  }
+
+  return data ? data.last_updated : null;
+};
+
+/**
+ * The stage one of the user's jobs is in
+ *
+ * @returns The status, or null if there is no such job
+ */
+export const fetchJobStatus = async (
+  userId: string,
+  jobId: string
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from("job_applications")
+    .select("status")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load job status: ${error.message}`);
+  }
+
+  return data ? data.status : null;
+};
+
+//=============================================================================
+// WRITES
+//=============================================================================
+
+/**
+ * Add a note to a job. The job is saved either way, so failures are logged.
+ */
+const addNote = async (jobId: string, note: string): Promise<void> => {
+  const { error } = await supabase
+    .from("job_application_notes")
+    .insert({ job_application_id: jobId, note });
+
+  if (error) {
+    console.error("Error adding job note:", error);
+  }
+};
+
+/**
+ * Save a new job. Jobs created offline keep the ID they were given.
+ */
+export const insertJob = async (
+  userId: string,
+  job: JobApplication
+): Promise<JobApplication> => {
+  const { data, error } = await supabase
+    .from("job_applications")
+    .insert({
+      ...prepareJobForDB(job),
+      ...(job.id ? { id: job.id } : {}),
+      user_id: userId,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to add job: ${error.message}`);
+  }
+
+  return mapJobFromDB(data as JobApplicationDB);
+};
+
+/**
+ * Save many new jobs at once. Jobs already saved, e.g. by an interrupted
+ * import or offline change, are skipped.
+ *
+ * @returns The IDs of the jobs saved now
+ */
+export const insertJobs = async (
+  userId: string,
+  jobs: JobApplication[]
+): Promise<string[]> => {
+  // Only rows inserted now are returned
+  const { data, error } = await supabase
+    .from("job_applications")
+    .upsert(
+      jobs.map((job) => ({
+        ...prepareJobForDB(job),
+        id: job.id,
+        user_id: userId,
+      })),
+      { onConflict: "id", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to import jobs: ${error.message}`);
+  }
+
+  return ((data || []) as { id: string }[]).map((row) => row.id);
+};
+
+/**
+ * Save all of a job's fields
+ *
+ * @returns The saved job, or null if there is no such job
+ */
+export const saveJob = async (
+  userId: string,
+  job: JobApplication
+): Promise<JobApplication | null> => {
+  const { data, error } = await supabase
+    .from("job_applications")
+    .update(prepareJobForDB(job))
+    .eq("id", job.id)
+    .eq("user_id", userId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update job: ${error.message}`);
+  }
+
+  return data ? mapJobFromDB(data as JobApplicationDB) : null;
+};
+
+/**
+ * Give many jobs the same values, e.g. move them all to one stage
+ */
+export const updateJobColumns = async (
+  userId: string,
+  jobIds: string[],
+  changes: Partial<JobApplicationDB>
+): Promise<void> => {
+  const { error } = await supabase
+    .from("job_applications")
+    .update(changes)
+    .in("id", jobIds)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to update jobs: ${error.message}`);
+  }
+};
+
+/**
+ * Add a job from validated input, recording its first status
+ */
+export const createJob = async (
+  userId: string,
+  input: JobInput
+): Promise<JobApplication> => {
+  if (!input.company || !input.position) {
+    throw new Error("Company and position are required");
+  }
+
+  const now = new Date().toISOString();
+  const job: JobApplication = {
+    id: "",
+    company: input.company,
+    position: input.position,
+    location: input.location || "",
+    status: input.status || DEFAULT_PIPELINE_STAGES[0].key,
+    appliedDate: input.appliedDate || "",
+    lastUpdated: now,
+    companyWebsite: input.companyWebsite,
+    jobUrl: input.jobUrl,
+    salary: input.salary,
+    jobDescription: input.jobDescription || "",
+    workType: input.workType,
+    employmentType: input.employmentType,
+    remote: input.remote,
+  };
+
+  const created = await insertJob(userId, job);
+
+  await recordStatusChange(created.id, userId, {
+    toStatus: job.status,
+    changedAt: now,
+    source: "manual",
+  });
+
+  if (input.note) await addNote(created.id, input.note);
+
+  return created;
+};
+
+/**
+ * Change some of a job's fields, recording a status change
+ *
+ * @returns The updated job, or null if there is no such job
+ */
+export const updateJob = async (
+  userId: string,
+  jobId: string,
+  input: JobInput
+): Promise<JobApplication | null> => {
+  const existing = await getJobById(userId, jobId);
+  if (!existing) return null;
+
+  const now = new Date().toISOString();
+  const { note, ...changes } = input;
+  const updated: JobApplication = {
+    ...existing,
+    ...changes,
+    // A new free-text salary replaces the stored range
+    salaryRange:
+      changes.salary !== undefined ? undefined : existing.salaryRange,
+    lastUpdated: now,
+  };
+
+  const saved = await saveJob(userId, updated);
+  if (!saved) return null;
+
+  if (updated.status !== existing.status) {
+    await recordStatusChange(jobId, userId, {
+      fromStatus: existing.status,
+      toStatus: updated.status,
+      changedAt: now,
+      source: "manual",
+    });
+  }
+
+  if (note) await addNote(jobId, note);
+
+  return saved;
+};
+
+/**
+ * Parse the free-text salary of jobs saved before the structured salary
+ * columns existed, so the database can sort and filter them by pay.
+ * Salaries that can't be parsed are left as they are, and the currency is
+ * left unset when neither the salary nor the job's location gives it.
+ *
+ * @returns How many jobs were given a salary range
+ */
+export const backfillSalaryRanges = async (userId: string): Promise<number> => {
+  let backfilled = 0;
+  let afterId: string | null = null;
+
+  while (true) {
+    let request = supabase
+      .from("job_applications")
+      .select("id, salary, location")
+      .eq("user_id", userId)
+      .not("salary", "is", null)
+      .is("salary_min", null)
+      .is("salary_max", null);
+
+    if (afterId) {
+      request = request.gt("id", afterId);
+    }
+
+    const { data, error } = await request
+      .order("id", { ascending: true })
+      .limit(DEFAULT_LIST_LIMIT);
+
+    if (error) {
+      throw new Error(`Failed to load salaries: ${error.message}`);
+    }
+
+    const rows = (data || []) as Pick<
+      JobApplicationDB,
+      "id" | "salary" | "location"
+    >[];
+
+    for (const row of rows) {
+      const range = parseSalary(row.salary, row.location || undefined);
+      if (!range) continue;
+
+      // Only the salary columns change, so the job doesn't look edited
+      const { error: updateError } = await supabase
+        .from("job_applications")
+        .update({
+          salary_min: range.min ?? null,
+          salary_max: range.max ?? null,
+          salary_currency: range.currency ?? null,
+          salary_period: range.period,
+        })
+        .eq("id", row.id)
+        .eq("user_id", userId);
+
+      if (updateError) {
+        throw new Error(`Failed to save salary: ${updateError.message}`);
+      }
+      backfilled++;
+    }
+
+    if (rows.length < DEFAULT_LIST_LIMIT) return backfilled;
+    afterId = rows[rows.length - 1].id;
+  }
+};
+
+/**
+ * Move jobs to the trash, from where they can be restored for a while
+ */
+export const trashJobs = async (
+  userId: string,
+  jobIds: string[],
+  deletedAt = new Date().toISOString()
+): Promise<void> => {
+  const { error } = await supabase
+    .from("job_applications")
+    .update({ deleted_at: deletedAt, last_updated: deletedAt })
+    .in("id", jobIds)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to delete jobs: ${error.message}`);
+  }
+};
+
+/**
+ * Move every job in one stage to another with a single update, e.g. before
+ * the stage is deleted. Trashed jobs move too, so none are restored into a
+ * stage that no longer exists.
+ *
+ * @returns How many jobs were moved
+ */
+export const moveJobsToStage = async (
+  userId: string,
+  fromStatus: string,
+  toStatus: string
+): Promise<number> => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("job_applications")
+    .update({ status: toStatus, last_updated: now })
+    .eq("user_id", userId)
+    .eq("status", fromStatus)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to move jobs: ${error.message}`);
+  }
+
+  const changes = ((data || []) as { id: string }[]).map((row) => ({
+    jobId: row.id,
+    change: {
+      id: uuidv4(),
+      fromStatus,
+      toStatus,
+      changedAt: now,
+      source: "manual" as const,
+    },
+  }));
+  await recordStatusChanges(userId, changes);
+  await addStageTasks(userId, changes);
+
+  return changes.length;
+};
+
+/**
+ * Take jobs back out of the trash
+ */
+export const restoreTrashedJobs = async (
+  userId: string,
+  jobIds: string[]
+): Promise<void> => {
+  const { error } = await supabase
+    .from("job_applications")
+    .update({ deleted_at: null })
+    .in("id", jobIds)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to restore jobs: ${error.message}`);
+  }
+};
+
+/**
+ * Delete jobs for good. Only jobs in the trash are ever deleted.
+ */
+export const deleteTrashedJobs = async (
+  userId: string,
+  jobIds: string[]
+): Promise<void> => {
+  const { error } = await supabase
+    .from("job_applications")
+    .delete()
+    .in("id", jobIds)
+    .eq("user_id", userId)
+    .not("deleted_at", "is", null);
+
+  if (error) {
+    throw new Error(`Failed to delete jobs: ${error.message}`);
+  }
+};
+
+/**
+ * The user's trashed jobs, most recently deleted first. Jobs kept past
+ * the retention period are purged first.
+ */
+export const fetchTrashedJobs = async (
+  userId: string
+): Promise<JobApplication[]> => {
+  const { error: purgeError } = await supabase
+    .from("job_applications")
+    .delete()
+    .eq("user_id", userId)
+    .lt("deleted_at", getTrashPurgeCutoff().toISOString());
+
+  if (purgeError) {
+    // Expired rows are purged again next time, so keep loading
+    console.error("Error purging trash:", purgeError);
+  }
+
+  const { data, error } = await supabase
+    .from("job_applications")
+    .select("*")
+    .eq("user_id", userId)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load trash: ${error.message}`);
+  }
+
+  return ((data || []) as JobApplicationDB[]).map((row) => mapJobFromDB(row));
+};
@@ -0,0 +1,339 @@
+import { supabase } from "@/lib/supabase";
+import { JobApplication } from "@/data/mockJobs";
+import { JobApplicationDB, mapJobFromDB } from "@/services/jobRepository";
+
+/**
+ * Whether an offer's bonus is an amount or a percentage of base salary
+ */
+export type OfferBonusType = "amount" | "percent";
+
+/**
+ * Where an offer criterion's score comes from: the user's 1-5 rating, or
+ * the offer's terms compared with the other offers
+ */
+export type OfferCriterionSource = "rating" | "compensation" | "pto";
+
+/**
+ * The terms of an offer on an application. Amounts are yearly and in the
+ * offer's own currency, except the equity value (the whole grant) and the
+ * one-off sign-on bonus.
+ */
+export interface JobOffer {
+  id: string;
+  jobId: string;
+  currency: string; // ISO 4217 code, e.g. USD
+  baseSalary?: number;
+  bonus?: number;
+  bonusType: OfferBonusType;
+  equityValue?: number;
+  vestingYears: number;
+  vestingCliffMonths?: number;
+  signOnBonus?: number;
+  benefits?: string;
+  benefitsValue?: number; // Estimated yearly value, e.g. pension match
+  ptoDays?: number;
+  location?: string;
+  workType?: "On-site" | "Remote" | "Hybrid";
+  startDate?: string; // YYYY-MM-DD
+  responseDeadline?: string; // Day the offer must be answered by, as YYYY-MM-DD
+  ratings: Record<string, number>; // Criterion key to a 1-5 rating
+  notes?: string;
+  job: JobApplication; // The application the offer is on
+}
+
+/**
+ * Offer fields editable by the user
+ */
+export type JobOfferInput = Omit<JobOffer, "id" | "jobId" | "job">;
+
+/**
+ * Something the user weighs offers on, and how much it matters to them
+ */
+export interface OfferCriterion {
+  id: string;
+  key: string;
+  label: string;
+  weight: number; // 0-10
+  source: OfferCriterionSource;
+  position: number;
+}
+
+/**
+ * The currency offers are compared in, and the exchange rates used to get
+ * there
+ */
+export interface OfferComparisonSettings {
+  currency: string;
+  exchangeRates: Record<string, number>; // Currency code to units per US dollar
+}
+
+/**
+ * Database representation of an offer
+ * This matches the schema in Supabase
+ */
+interface JobOfferDB {
+  id: string;
+  job_application_id: string;
+  user_id: string;
+  currency: string;
+  base_salary: number | null;
+  bonus: number | null;
+  bonus_type: OfferBonusType;
+  equity_value: number | null;
+  vesting_years: number;
+  vesting_cliff_months: number | null;
+  sign_on_bonus: number | null;
+  benefits: string | null;
+  benefits_value: number | null;
+  pto_days: number | null;
+  location: string | null;
+  work_type: JobOffer["workType"] | null;
+  start_date: string | null;
+  response_deadline: string | null;
+  ratings: Record<string, number> | null;
+  notes: string | null;
+  created_at?: string;
+  updated_at?: string;
+  job_applications: JobApplicationDB;
+}
+
+/**
+ * Database representation of an offer criterion
+ * This matches the schema in Supabase
+ */
+interface OfferCriterionDB {
+  id: string;
+  user_id: string;
+  key: string;
+  label: string;
+  weight: number;
+  source: OfferCriterionSource;
+  position: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Offers are loaded with the application they're on
+const OFFER_COLUMNS = "*, job_applications!inner(*)";
+
+// NUMERIC columns may come back as strings
+const toNumber = (value: number | string | null): number | undefined =>
+  value === null || value === undefined ? undefined : Number(value);
+
+// Map DB row to frontend format
+const mapOfferFromDB = (row: JobOfferDB): JobOffer => ({
+  id: row.id,
+  jobId: row.job_application_id,
+  currency: row.currency,
+  baseSalary: toNumber(row.base_salary),
+  bonus: toNumber(row.bonus),
+  bonusType: row.bonus_type,
+  equityValue: toNumber(row.equity_value),
+  vestingYears: toNumber(row.vesting_years) || 4,
+  vestingCliffMonths: toNumber(row.vesting_cliff_months),
+  signOnBonus: toNumber(row.sign_on_bonus),
+  benefits: row.benefits || undefined,
+  benefitsValue: toNumber(row.benefits_value),
+  ptoDays: toNumber(row.pto_days),
+  location: row.location || undefined,
+  workType: row.work_type || undefined,
+  startDate: row.start_date || undefined,
+  responseDeadline: row.response_deadline || undefined,
+  ratings: row.ratings || {},
+  notes: row.notes || undefined,
+  job: mapJobFromDB(row.job_applications),
+});
+
+// Map frontend format to DB row
+const prepareOfferForDB = (
+  jobId: string,
+  userId: string,
+  offer: JobOfferInput
+) => ({
+  job_application_id: jobId,
+  user_id: userId,
+  currency: offer.currency,
+  base_salary: offer.baseSalary ?? null,
+  bonus: offer.bonus ?? null,
+  bonus_type: offer.bonusType,
+  equity_value: offer.equityValue ?? null,
+  vesting_years: offer.vestingYears,
+  vesting_cliff_months: offer.vestingCliffMonths ?? null,
+  sign_on_bonus: offer.signOnBonus ?? null,
+  benefits: offer.benefits || null,
+  benefits_value: offer.benefitsValue ?? null,
+  pto_days: offer.ptoDays ?? null,
+  location: offer.location || null,
+  work_type: offer.workType || null,
+  start_date: offer.startDate || null,
+  response_deadline: offer.responseDeadline || null,
+  ratings: offer.ratings,
+  notes: offer.notes || null,
+});
+
+const mapCriterionFromDB = (row: OfferCriterionDB): OfferCriterion => ({
+  id: row.id,
+  key: row.key,
+  label: row.label,
+  weight: row.weight,
+  source: row.source,
+  position: row.position,
+});
+
+/**
+ * All of the user's offers. Offers on applications in the trash are
+ * left out.
+ */
+export const fetchOffers = async (userId: string): Promise<JobOffer[]> => {
+  const { data, error } = await supabase
+    .from("job_offers")
+    .select(OFFER_COLUMNS)
+    .eq("user_id", userId)
+    .is("job_applications.deleted_at", null);
+
+  if (error) {
+    throw new Error(`Failed to load offers: ${error.message}`);
+  }
+
+  return ((data || []) as JobOfferDB[]).map(mapOfferFromDB);
+};
+
+/**
+ * Save the terms of the offer on an application, creating it if needed
+ */
+export const saveOffer = async (
+  userId: string,
+  jobId: string,
+  offer: JobOfferInput
+): Promise<JobOffer> => {
+  const { data, error } = await supabase
+    .from("job_offers")
+    .upsert(prepareOfferForDB(jobId, userId, offer), {
+      onConflict: "job_application_id",
+    })
+    .select(OFFER_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save offer: ${error.message}`);
+  }
+
+  return mapOfferFromDB(data as JobOfferDB);
+};
+
+/**
+ * Remove the offer recorded on an application
+ */
+export const deleteOffer = async (jobId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("job_offers")
+    .delete()
+    .eq("job_application_id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to delete offer: ${error.message}`);
+  }
+};
+
+/**
+ * The user's saved offer criteria in order; empty if they haven't
+ * customised them
+ */
+export const fetchOfferCriteria = async (
+  userId: string
+): Promise<OfferCriterion[]> => {
+  const { data, error } = await supabase
+    .from("offer_criteria")
+    .select("*")
+    .eq("user_id", userId)
+    .order("position", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load offer criteria: ${error.message}`);
+  }
+
+  return ((data || []) as OfferCriterionDB[]).map(mapCriterionFromDB);
+};
+
+/**
+ * Replace the user's offer criteria with the full set given. Criteria no
+ * longer in the set are deleted.
+ */
+export const saveOfferCriteria = async (
+  userId: string,
+  criteria: OfferCriterion[]
+): Promise<void> => {
+  const rows = criteria.map((criterion, index) => ({
+    user_id: userId,
+    key: criterion.key,
+    label: criterion.label.trim(),
+    weight: criterion.weight,
+    source: criterion.source,
+    position: index,
+  }));
+
+  const { error: upsertError } = await supabase
+    .from("offer_criteria")
+    .upsert(rows, { onConflict: "user_id,key" });
+
+  if (upsertError) {
+    throw new Error(`Failed to save offer criteria: ${upsertError.message}`);
+  }
+
+  const keys = criteria.map((criterion) => criterion.key);
+  let deleteQuery = supabase
+    .from("offer_criteria")
+    .delete()
+    .eq("user_id", userId);
+  if (keys.length > 0) {
+    deleteQuery = deleteQuery.not("key", "in", `(${keys.join(",")})`);
+  }
+  const { error: deleteError } = await deleteQuery;
+
+  if (deleteError) {
+    throw new Error(`Failed to remove offer criteria: ${deleteError.message}`);
+  }
+};
+
+/**
+ * The user's comparison currency and exchange rates, or null if they
+ * haven't set them
+ */
+export const fetchOfferComparisonSettings = async (
+  userId: string
+): Promise<OfferComparisonSettings | null> => {
+  const { data, error } = await supabase
+    .from("offer_comparison_settings")
+    .select("currency, exchange_rates")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load comparison settings: ${error.message}`);
+  }
+
+  return data
+    ? { currency: data.currency, exchangeRates: data.exchange_rates || {} }
+    : null;
+};
+
+/**
+ * Save the user's comparison currency and exchange rates
+ */
+export const saveOfferComparisonSettings = async (
+  userId: string,
+  settings: OfferComparisonSettings
+): Promise<void> => {
+  const { error } = await supabase.from("offer_comparison_settings").upsert(
+    {
+      user_id: userId,
+      currency: settings.currency,
+      exchange_rates: settings.exchangeRates,
+    },
+    { onConflict: "user_id" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save comparison settings: ${error.message}`);
+  }
+};
@@ -0,0 +1,126 @@
+import { supabase } from "@/lib/supabase";
+import { extractPosting, hashPostingText } from "@/utils/postingSnapshotUtils";
+
+/**
+ * A read-only copy of a job posting, as it was when captured
+ */
+export interface PostingSnapshot {
+  id: string;
+  jobId: string;
+  url: string;
+  html: string; // Sanitised posting HTML
+  text: string;
+  capturedAt: string;
+}
+
+/**
+ * Database representation of a posting snapshot
+ * This matches the schema in Supabase
+ */
+interface PostingSnapshotDB {
+  id: string;
+  job_application_id: string;
+  user_id: string;
+  url: string;
+  html: string;
+  text: string;
+  content_hash: string;
+  captured_at: string;
+  created_at?: string;
+}
+
+// Map DB row to frontend format
+const mapSnapshotFromDB = (row: PostingSnapshotDB): PostingSnapshot => ({
+  id: row.id,
+  jobId: row.job_application_id,
+  url: row.url,
+  html: row.html,
+  text: row.text,
+  capturedAt: row.captured_at,
+});
+
+/**
+ * Download a posting's page through the server, which can read other sites
+ */
+const fetchPostingPage = async (url: string): Promise<string> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const authToken = sessionData.session?.access_token;
+
+  const response = await fetch("/api/postings/fetch", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: authToken ? `Bearer ${authToken}` : "",
+    },
+    body: JSON.stringify({ url }),
+  });
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || "Couldn't download the posting");
+  }
+  return result.html;
+};
+
+/**
+ * A job's posting snapshots, newest first
+ */
+export const fetchPostingSnapshots = async (
+  jobId: string
+): Promise<PostingSnapshot[]> => {
+  const { data, error } = await supabase
+    .from("job_posting_snapshots")
+    .select("*")
+    .eq("job_application_id", jobId)
+    .order("captured_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load posting snapshots: ${error.message}`);
+  }
+
+  return ((data || []) as PostingSnapshotDB[]).map(mapSnapshotFromDB);
+};
+
+/**
+ * Capture a job's posting, storing it as sanitised HTML and plain text
+ *
+ * @param pageHtml The posting's page, if already at hand, e.g. from the
+ * extension; otherwise it is downloaded from the URL
+ * @returns The new snapshot, or null if the posting is unchanged since an
+ * earlier capture
+ */
+export const capturePostingSnapshot = async (
+  userId: string,
+  jobId: string,
+  url: string,
+  pageHtml?: string
+): Promise<PostingSnapshot | null> => {
+  const posting = extractPosting(pageHtml ?? (await fetchPostingPage(url)));
+  if (!posting.text) {
+    throw new Error("Couldn't find a job posting on that page");
+  }
+
+  const { data, error } = await supabase
+    .from("job_posting_snapshots")
+    .upsert(
+      {
+        job_application_id: jobId,
+        user_id: userId,
+        url,
+        html: posting.html,
+        text: posting.text,
+        content_hash: await hashPostingText(posting.text),
+        captured_at: new Date().toISOString(),
+      },
+      // Several tabs may capture a posting saved from the extension
+      { onConflict: "job_application_id,content_hash", ignoreDuplicates: true }
+    )
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to save posting snapshot: ${error.message}`);
+  }
+
+  const [row] = (data || []) as PostingSnapshotDB[];
+  return row ? mapSnapshotFromDB(row) : null;
+};
@@ -0,0 +1,89 @@
+import { supabase } from "@/lib/supabase";
+import { JobStatusChange, StatusChangeSource } from "@/data/mockJobs";
+
+/**
+ * Database representation of a status transition
+ * This matches the schema in Supabase
+ */
+export interface JobStatusChangeDB {
+  id: string;
+  job_application_id: string;
+  user_id: string;
+  from_status: string | null;
+  to_status: string;
+  source: StatusChangeSource;
+  changed_at: string;
+  created_at?: string;
+}
+
+// Map DB row to frontend format
+export const mapStatusChangeFromDB = (
+  dbChange: JobStatusChangeDB
+): JobStatusChange => ({
+  id: dbChange.id,
+  fromStatus: dbChange.from_status || undefined,
+  toStatus: dbChange.to_status,
+  changedAt: dbChange.changed_at,
+  source: dbChange.source,
+});
+
+/**
+ * Append a status transition to a job's history.
+ * History is supplementary, so failures are logged rather than thrown and
+ * never block the status update itself.
+ */
+export const recordStatusChange = async (
+  jobId: string,
+  userId: string,
+  change: Omit<JobStatusChange, "id"> & { id?: string }
+): Promise<void> => {
+  try {
+    const { error } = await supabase.from("job_status_history").insert({
+      ...(change.id ? { id: change.id } : {}),
+      job_application_id: jobId,
+      user_id: userId,
+      from_status: change.fromStatus || null,
+      to_status: change.toStatus,
+      source: change.source,
+      changed_at: change.changedAt,
+    });
+
+    if (error) {
+      console.error("Error recording status change:", error);
+    }
+  } catch (error) {
+    console.error("Error recording status change:", error);
+  }
+};
+
+/**
+ * Append transitions for several jobs at once, e.g. the first status of
+ * each imported job. Like recordStatusChange, failures are only logged.
+ */
+export const recordStatusChanges = async (
+  userId: string,
+  changes: { jobId: string; change: JobStatusChange }[]
+): Promise<void> => {
+  if (changes.length === 0) return;
+
+  try {
+    const { error } = await supabase.from("job_status_history").upsert(
+      changes.map(({ jobId, change }) => ({
+        id: change.id,
+        job_application_id: jobId,
+        user_id: userId,
+        from_status: change.fromStatus || null,
+        to_status: change.toStatus,
+        source: change.source,
+        changed_at: change.changedAt,
+      })),
+      { onConflict: "id", ignoreDuplicates: true }
+    );
+
+    if (error) {
+      console.error("Error recording status changes:", error);
+    }
+  } catch (error) {
+    console.error("Error recording status changes:", error);
+  }
+};
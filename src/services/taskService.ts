@@ -0,0 +1,326 @@
+import { supabase } from "@/lib/supabase";
+import { JobApplication, JobStatusChange } from "@/data/mockJobs";
+import { DEFAULT_TASK_TEMPLATES, getTemplateDueDate } from "@/utils/taskUtils";
+
+/**
+ * A chore on an application's checklist, e.g. tailoring the CV
+ */
+export interface JobTask {
+  id: string;
+  jobId: string;
+  title: string;
+  dueDate?: string; // YYYY-MM-DD
+  completedAt?: string; // Set while the task is ticked off
+  templateKey?: string; // The task template it was added from, if any
+  position: number;
+  createdAt: string;
+  job: Pick<JobApplication, "company" | "position" | "status">;
+}
+
+/**
+ * Task fields editable by the user
+ */
+export type JobTaskInput = Pick<JobTask, "title" | "dueDate">;
+
+/**
+ * A task added to every application that moves into a stage
+ */
+export interface TaskTemplate {
+  id: string;
+  key: string;
+  stageKey: string; // Pipeline stage key, as in a job's status
+  title: string;
+  dueInDays?: number; // Days after the stage change; no due date if unset
+  position: number;
+}
+
+/**
+ * Database representation of a task
+ * This matches the schema in Supabase
+ */
+interface JobTaskDB {
+  id: string;
+  job_application_id: string;
+  user_id: string;
+  title: string;
+  due_date: string | null;
+  completed_at: string | null;
+  template_key: string | null;
+  position: number;
+  created_at: string;
+  updated_at?: string;
+  job_applications: Pick<JobApplication, "company" | "position" | "status">;
+}
+
+/**
+ * Database representation of a task template
+ * This matches the schema in Supabase
+ */
+interface TaskTemplateDB {
+  id: string;
+  user_id: string;
+  key: string;
+  stage_key: string;
+  title: string;
+  due_in_days: number | null;
+  position: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Tasks are loaded with the application they're on
+const TASK_COLUMNS = "*, job_applications!inner(company, position, status)";
+
+// Map DB row to frontend format
+const mapTaskFromDB = (row: JobTaskDB): JobTask => ({
+  id: row.id,
+  jobId: row.job_application_id,
+  title: row.title,
+  dueDate: row.due_date || undefined,
+  completedAt: row.completed_at || undefined,
+  templateKey: row.template_key || undefined,
+  position: row.position,
+  createdAt: row.created_at,
+  job: row.job_applications,
+});
+
+const mapTemplateFromDB = (row: TaskTemplateDB): TaskTemplate => ({
+  id: row.id,
+  key: row.key,
+  stageKey: row.stage_key,
+  title: row.title,
+  dueInDays: row.due_in_days ?? undefined,
+  position: row.position,
+});
+
+/**
+ * All of the user's tasks, or one application's.
+ * Tasks on applications in the trash are left out.
+ *
+ * @param jobId Only load this application's tasks
+ */
+export const fetchTasks = async (
+  userId: string,
+  jobId?: string
+): Promise<JobTask[]> => {
+  let query = supabase
+    .from("job_tasks")
+    .select(TASK_COLUMNS)
+    .eq("user_id", userId)
+    .is("job_applications.deleted_at", null)
+    .order("position", { ascending: true })
+    .order("created_at", { ascending: true });
+  if (jobId) {
+    query = query.eq("job_application_id", jobId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load tasks: ${error.message}`);
+  }
+
+  return ((data || []) as JobTaskDB[]).map(mapTaskFromDB);
+};
+
+/**
+ * Add a task to an application's checklist
+ */
+export const createTask = async (
+  userId: string,
+  jobId: string,
+  input: JobTaskInput,
+  position: number
+): Promise<JobTask> => {
+  const { data, error } = await supabase
+    .from("job_tasks")
+    .insert({
+      job_application_id: jobId,
+      user_id: userId,
+      title: input.title.trim(),
+      due_date: input.dueDate || null,
+      position,
+    })
+    .select(TASK_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to add task: ${error.message}`);
+  }
+
+  return mapTaskFromDB(data as JobTaskDB);
+};
+
+/**
+ * Change a task's title or due date, or tick it off
+ */
+export const updateTask = async (
+  taskId: string,
+  changes: Partial<Pick<JobTask, "title" | "dueDate" | "completedAt">>
+): Promise<JobTask> => {
+  const row: Partial<JobTaskDB> = {};
+  if (changes.title !== undefined) row.title = changes.title.trim();
+  if ("dueDate" in changes) row.due_date = changes.dueDate || null;
+  if ("completedAt" in changes) row.completed_at = changes.completedAt || null;
+
+  const { data, error } = await supabase
+    .from("job_tasks")
+    .update(row)
+    .eq("id", taskId)
+    .select(TASK_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update task: ${error.message}`);
+  }
+
+  return mapTaskFromDB(data as JobTaskDB);
+};
+
+/**
+ * Remove a task from its application's checklist
+ */
+export const deleteTask = async (taskId: string): Promise<void> => {
+  const { error } = await supabase.from("job_tasks").delete().eq("id", taskId);
+
+  if (error) {
+    throw new Error(`Failed to delete task: ${error.message}`);
+  }
+};
+
+/**
+ * The user's saved task templates in order, which may be none; null if
+ * they haven't customised them
+ */
+export const fetchTaskTemplates = async (
+  userId: string
+): Promise<TaskTemplate[] | null> => {
+  const [templatesResult, settingsResult] = await Promise.all([
+    supabase
+      .from("task_templates")
+      .select("*")
+      .eq("user_id", userId)
+      .order("position", { ascending: true }),
+    supabase
+      .from("task_template_settings")
+      .select("customised_at")
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ]);
+
+  if (templatesResult.error) {
+    throw new Error(
+      `Failed to load task templates: ${templatesResult.error.message}`
+    );
+  }
+  if (settingsResult.error) {
+    throw new Error(
+      `Failed to load task templates: ${settingsResult.error.message}`
+    );
+  }
+
+  const templates = (templatesResult.data || []) as TaskTemplateDB[];
+  if (templates.length === 0 && !settingsResult.data) return null;
+
+  return templates.map(mapTemplateFromDB);
+};
+
+/**
+ * Replace the user's task templates with the full set given. Templates no
+ * longer in the set are deleted; tasks already added from them are kept.
+ * An empty set is kept, so no tasks are added rather than the defaults.
+ */
+export const saveTaskTemplates = async (
+  userId: string,
+  templates: TaskTemplate[]
+): Promise<void> => {
+  const rows = templates.map((template, index) => ({
+    user_id: userId,
+    key: template.key,
+    stage_key: template.stageKey,
+    title: template.title.trim(),
+    due_in_days: template.dueInDays ?? null,
+    position: index,
+  }));
+
+  const { error: upsertError } = await supabase
+    .from("task_templates")
+    .upsert(rows, { onConflict: "user_id,key" });
+
+  if (upsertError) {
+    throw new Error(`Failed to save task templates: ${upsertError.message}`);
+  }
+
+  const keys = templates.map((template) => template.key);
+  let deleteQuery = supabase
+    .from("task_templates")
+    .delete()
+    .eq("user_id", userId);
+  if (keys.length > 0) {
+    deleteQuery = deleteQuery.not("key", "in", `(${keys.join(",")})`);
+  }
+  const { error: deleteError } = await deleteQuery;
+
+  if (deleteError) {
+    throw new Error(`Failed to remove task templates: ${deleteError.message}`);
+  }
+
+  // Set once; later saves keep when the templates were first customised
+  const { error: settingsError } = await supabase
+    .from("task_template_settings")
+    .upsert(
+      { user_id: userId },
+      { onConflict: "user_id", ignoreDuplicates: true }
+    );
+
+  if (settingsError) {
+    throw new Error(`Failed to save task templates: ${settingsError.message}`);
+  }
+};
+
+/**
+ * Add the user's templated tasks for the stage each job moved into, due
+ * relative to when it moved. A template is only ever added to a job once,
+ * so replaying a change or re-entering a stage adds nothing new.
+ * Like status history, tasks are supplementary, so failures are logged
+ * rather than thrown and never block the status update itself.
+ */
+export const addStageTasks = async (
+  userId: string,
+  changes: {
+    jobId: string;
+    change: Pick<JobStatusChange, "toStatus" | "changedAt">;
+  }[]
+): Promise<void> => {
+  if (changes.length === 0) return;
+
+  try {
+    const templates =
+      (await fetchTaskTemplates(userId)) ?? DEFAULT_TASK_TEMPLATES;
+
+    const rows = changes.flatMap(({ jobId, change }) =>
+      templates
+        .filter((template) => template.stageKey === change.toStatus)
+        .map((template) => ({
+          job_application_id: jobId,
+          user_id: userId,
+          title: template.title,
+          due_date: getTemplateDueDate(template, change.changedAt) || null,
+          template_key: template.key,
+          position: template.position,
+        }))
+    );
+    if (rows.length === 0) return;
+
+    const { error } = await supabase.from("job_tasks").upsert(rows, {
+      onConflict: "job_application_id,template_key",
+      ignoreDuplicates: true,
+    });
+
+    if (error) {
+      console.error("Error adding stage tasks:", error);
+    }
+  } catch (error) {
+    console.error("Error adding stage tasks:", error);
+  }
+};
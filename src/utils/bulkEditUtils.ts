@@ -0,0 +1,104 @@
+import { JobApplication } from "@/data/mockJobs";
+
+/**
+ * A change made to many applications at once from the bulk action bar
+ */
+export type JobBulkEdit =
+  | { type: "status"; status: string }
+  | { type: "addTags"; tagIds: string[] }
+  | { type: "removeTags"; tagIds: string[] }
+  | { type: "followUp"; date: string | null } // YYYY-MM-DD, null to clear
+  | { type: "archive" }
+  | { type: "unarchive" };
+
+/**
+ * Apply a bulk edit to one application
+ *
+ * @param now When the edit was made, used as the archive time
+ */
+export const applyBulkEdit = (
+  job: JobApplication,
+  edit: JobBulkEdit,
+  now: string
+): JobApplication => {
+  switch (edit.type) {
+    case "status":
+      return { ...job, status: edit.status };
+    case "addTags":
+      return {
+        ...job,
+        tagIds: Array.from(new Set([...(job.tagIds || []), ...edit.tagIds])),
+      };
+    case "removeTags":
+      return {
+        ...job,
+        tagIds: (job.tagIds || []).filter((id) => !edit.tagIds.includes(id)),
+      };
+    case "followUp":
+      return { ...job, followUpDate: edit.date || undefined };
+    case "archive":
+      return { ...job, archivedAt: job.archivedAt || now };
+    case "unarchive":
+      return { ...job, archivedAt: undefined };
+  }
+};
+
+/**
+ * Put back the fields a bulk edit can change, keeping any other edits
+ * made to the application since
+ *
+ * @param job The application as it is now
+ * @param previous The application before the bulk edit
+ */
+export const revertBulkEdit = (
+  job: JobApplication,
+  previous: JobApplication
+): JobApplication => ({
+  ...job,
+  status: previous.status,
+  tagIds: previous.tagIds,
+  followUpDate: previous.followUpDate,
+  archivedAt: previous.archivedAt,
+});
+
+/**
+ * Whether a bulk edit changed an application
+ */
+export const isChangedByBulkEdit = (
+  job: JobApplication,
+  edited: JobApplication
+): boolean =>
+  job.status !== edited.status ||
+  job.followUpDate !== edited.followUpDate ||
+  job.archivedAt !== edited.archivedAt ||
+  (job.tagIds || []).join() !== (edited.tagIds || []).join();
+
+/**
+ * Toast title for a bulk edit, e.g. "3 applications moved to Interview"
+ *
+ * @param getStageLabel Name of the stage for a status key
+ */
+export const describeBulkEdit = (
+  edit: JobBulkEdit,
+  count: number,
+  getStageLabel: (key: string) => string
+): string => {
+  const applications = count === 1 ? "1 application" : `${count} applications`;
+
+  switch (edit.type) {
+    case "status":
+      return `${applications} moved to ${getStageLabel(edit.status)}`;
+    case "addTags":
+      return `Tags added to ${applications}`;
+    case "removeTags":
+      return `Tags removed from ${applications}`;
+    case "followUp":
+      return edit.date
+        ? `Follow-up set for ${applications}`
+        : `Follow-up cleared for ${applications}`;
+    case "archive":
+      return `${applications} archived`;
+    case "unarchive":
+      return `${applications} restored from the archive`;
+  }
+};
@@ -0,0 +1,144 @@
+import { StageOutcome } from "@/data/mockJobs";
+import { CompanyActivity } from "@/services/companyService";
+
+/**
+ * Something that happened with a company, for its timeline
+ */
+export interface CompanyTimelineEntry {
+  id: string;
+  type: "applied" | "status" | "interview" | "email" | "contact";
+  date: string;
+  jobId: string;
+  title: string;
+  description?: string;
+}
+
+/**
+ * How the user's applications to a company turned out, by outcome
+ */
+export type CompanyOutcomeCounts = Partial<Record<StageOutcome, number>>;
+
+/**
+ * Every application, status change, interview, email and contact with a
+ * company, newest first
+ *
+ * @param getStageLabel Label of a stage key, for status changes
+ */
+export const getCompanyTimeline = (
+  activity: CompanyActivity,
+  getStageLabel: (key: string) => string
+): CompanyTimelineEntry[] => {
+  const positionById = new Map(
+    activity.applications.map((job) => [job.id, job.position])
+  );
+  const entries: CompanyTimelineEntry[] = [];
+
+  activity.applications.forEach((job) => {
+    const [first, ...changes] = job.statusHistory || [];
+    entries.push({
+      id: `applied:${job.id}`,
+      type: "applied",
+      date: job.appliedDate || first?.changedAt || job.lastUpdated,
+      jobId: job.id,
+      title: `Added ${job.position}`,
+      description: job.location || undefined,
+    });
+
+    changes.forEach((change) => {
+      entries.push({
+        id: `status:${change.id}`,
+        type: "status",
+        date: change.changedAt,
+        jobId: job.id,
+        title: `${job.position} moved to ${getStageLabel(change.toStatus)}`,
+        description: change.fromStatus
+          ? `From ${getStageLabel(change.fromStatus)}`
+          : undefined,
+      });
+    });
+  });
+
+  activity.interviews.forEach((interview) => {
+    entries.push({
+      id: `interview:${interview.id}`,
+      type: "interview",
+      date: interview.date,
+      jobId: interview.jobId,
+      title: interview.title,
+      description: positionById.get(interview.jobId),
+    });
+  });
+
+  activity.emails.forEach((email) => {
+    entries.push({
+      id: `email:${email.id}`,
+      type: "email",
+      date: email.receivedAt,
+      jobId: email.jobApplicationId,
+      title: email.subject || "(No subject)",
+      description: `From ${email.sender}`,
+    });
+  });
+
+  activity.contacts.forEach((contact) => {
+    if (!contact.lastContactedAt) return;
+    entries.push({
+      id: `contact:${contact.id}`,
+      type: "contact",
+      date: contact.lastContactedAt,
+      jobId: contact.jobId,
+      title: `Last contacted ${contact.name}`,
+      description: contact.position,
+    });
+  });
+
+  return entries
+    .filter((entry) => !isNaN(new Date(entry.date).getTime()))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
+
+/**
+ * Count a company's applications by the outcome of their current stage
+ */
+export const countCompanyOutcomes = (
+  activity: CompanyActivity,
+  getOutcome: (key: string) => StageOutcome
+): CompanyOutcomeCounts => {
+  const counts: CompanyOutcomeCounts = {};
+  activity.applications.forEach((job) => {
+    const outcome = getOutcome(job.status);
+    counts[outcome] = (counts[outcome] || 0) + 1;
+  });
+  return counts;
+};
+
+/**
+ * Domain of a website, without www, e.g. acme.com for https://www.acme.com/jobs
+ */
+export const getCompanyDomain = (website?: string): string | undefined => {
+  if (!website) return undefined;
+  try {
+    const url = new URL(
+      /^https?:\/\//i.test(website) ? website : `https://${website}`
+    );
+    return url.hostname.replace(/^www\./, "").toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Split a comma-separated list of aliases, dropping blanks and repeats
+ */
+export const parseCompanyAliases = (value: string): string[] => {
+  const seen = new Set<string>();
+  return value
+    .split(",")
+    .map((alias) => alias.trim())
+    .filter((alias) => {
+      const key = alias.toLowerCase();
+      if (!alias || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
@@ -0,0 +1,133 @@
+import { JobApplication, JobContact } from "@/data/mockJobs";
+
+/**
+ * A single application a contact is linked to
+ */
+export interface ContactApplicationLink {
+  contactId: string;
+  jobId: string;
+  company: string;
+  position: string;
+  status: JobApplication["status"];
+}
+
+/**
+ * A person aggregated across every application they appear on,
+ * de-duplicated by email address
+ */
+export interface AggregatedContact {
+  email: string;
+  name: string;
+  phone?: string;
+  position?: string;
+  lastContactedAt?: string;
+  applications: ContactApplicationLink[];
+}
+
+/**
+ * Number of days without contact after which we suggest a follow-up
+ */
+export const FOLLOW_UP_AFTER_DAYS = 14;
+
+/**
+ * Normalise an email address so it can be used as a de-duplication key
+ */
+export const normalizeEmail = (email: string): string =>
+  (email || "").trim().toLowerCase();
+
+/**
+ * Return whichever of two ISO timestamps is more recent
+ */
+const latestDate = (a?: string, b?: string): string | undefined => {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+};
+
+/**
+ * Find a contact on a job with the same email address
+ */
+export const findContactByEmail = (
+  contacts: JobContact[] | undefined,
+  email: string
+): JobContact | undefined => {
+  const key = normalizeEmail(email);
+  return (contacts || []).find(
+    (contact) => normalizeEmail(contact.email) === key
+  );
+};
+
+/**
+ * Build the global contact list from every application.
+ * Contacts sharing an email are merged into one entry; the most recently
+ * contacted record wins for name, phone and position.
+ */
+export const aggregateContacts = (
+  jobs: JobApplication[]
+): AggregatedContact[] => {
+  const byEmail = new Map<string, AggregatedContact>();
+
+  jobs.forEach((job) => {
+    (job.contacts || []).forEach((contact) => {
+      const key = normalizeEmail(contact.email);
+      if (!key) return;
+
+      const link: ContactApplicationLink = {
+        contactId: contact.id,
+        jobId: job.id,
+        company: job.company,
+        position: job.position,
+        status: job.status,
+      };
+
+      const existing = byEmail.get(key);
+      if (!existing) {
+        byEmail.set(key, {
+          email: key,
+          name: contact.name,
+          phone: contact.phone,
+          position: contact.position,
+          lastContactedAt: contact.lastContactedAt,
+          applications: [link],
+        });
+        return;
+      }
+
+      const isNewer =
+        latestDate(existing.lastContactedAt, contact.lastContactedAt) !==
+        existing.lastContactedAt;
+
+      byEmail.set(key, {
+        ...existing,
+        name: isNewer ? contact.name : existing.name,
+        phone: (isNewer ? contact.phone : existing.phone) || existing.phone,
+        position:
+          (isNewer ? contact.position : existing.position) || existing.position,
+        lastContactedAt: latestDate(
+          existing.lastContactedAt,
+          contact.lastContactedAt
+        ),
+        applications: [...existing.applications, link],
+      });
+    });
+  });
+
+  return Array.from(byEmail.values());
+};
+
+/**
+ * Whole days since a contact was last reached, or null if never
+ */
+export const daysSinceContact = (lastContactedAt?: string): number | null => {
+  if (!lastContactedAt) return null;
+  const diff = Date.now() - new Date(lastContactedAt).getTime();
+  return Math.max(0, Math.floor(diff / (1000 * 60 * 60 * 24)));
+};
+
+/**
+ * Whether a contact is due a follow-up
+ */
+export const needsFollowUp = (lastContactedAt?: string): boolean => {
+  const days = daysSinceContact(lastContactedAt);
+  return days === null || days >= FOLLOW_UP_AFTER_DAYS;
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { PipelineStage } from "@/data/mockJobs";
+import {
+  ColumnMapping,
+  DateFormat,
+  ParsedCsv,
+  detectDateFormat,
+  guessColumnMapping,
+  guessStatusMapping,
+  parseCsv,
+  parseImportDate,
+} from "@/utils/csvImportUtils";
+
+describe("parseCsv", () => {
+  it.each<[string, string, ParsedCsv]>([
+    [
+      "comma separated",
+      "Company,Position\nAcme,Engineer\n",
+      { headers: ["Company", "Position"], rows: [["Acme", "Engineer"]] },
+    ],
+    [
+      "tab separated with a byte order mark and CRLF",
+      "\uFEFFCompany\tRole\r\nAcme\tEngineer",
+      { headers: ["Company", "Role"], rows: [["Acme", "Engineer"]] },
+    ],
+    [
+      "semicolon separated with quotes",
+      'Company;Notes\nAcme;"Said ""hi""; call back"',
+      {
+        headers: ["Company", "Notes"],
+        rows: [["Acme", 'Said "hi"; call back']],
+      },
+    ],
+    [
+      "line breaks in quotes and blank rows",
+      'Company,Notes\nAcme,"Line one\nLine two"\n\n , \n',
+      { headers: ["Company", "Notes"], rows: [["Acme", "Line one\nLine two"]] },
+    ],
+    ["an empty file", "", { headers: [], rows: [] }],
+  ])("parses %s", (_, text, expected) => {
+    expect(parseCsv(text)).toEqual(expected);
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it.each<[string[], ColumnMapping]>([
+    [
+      ["Company Name", "Job Title", "Date Applied", "Link", "Recruiter"],
+      ["company", "position", "appliedDate", "jobUrl", null],
+    ],
+    [
+      ["Title", "Role"],
+      ["position", null],
+    ],
+    [
+      ["STATUS", " notes ", "Salary-Range"],
+      ["status", "notes", "salary"],
+    ],
+  ])("maps %j", (headers, expected) => {
+    expect(guessColumnMapping(headers)).toEqual(expected);
+  });
+});
+
+describe("detectDateFormat", () => {
+  it.each<[string[], DateFormat]>([
+    [["2024-03-31"], "ymd"],
+    [["03/04/2024", "31/03/2024"], "dmy"],
+    [["03/04/2024", "03/31/2024"], "mdy"],
+    [["03/04/2024"], "mdy"],
+    [["", "soon"], "ymd"],
+  ])("detects %j as %s", (values, expected) => {
+    expect(detectDateFormat(values)).toBe(expected);
+  });
+});
+
+describe("parseImportDate", () => {
+  it.each<[string, DateFormat, string | null]>([
+    ["2024-03-31", "dmy", "2024-03-31"],
+    ["2024-03-31T09:00:00Z", "mdy", "2024-03-31"],
+    ["31/03/2024", "dmy", "2024-03-31"],
+    ["03/31/2024", "mdy", "2024-03-31"],
+    ["31.03.24", "dmy", "2024-03-31"],
+    ["Mar 31, 2024", "mdy", "2024-03-31"],
+    ["31 March 2024", "ymd", "2024-03-31"],
+    ["2024-02-29", "ymd", "2024-02-29"],
+    ["02/30/2024", "mdy", null],
+    ["soon", "ymd", null],
+    ["", "ymd", null],
+  ])("parses %j as %s", (value, format, expected) => {
+    expect(parseImportDate(value, format)).toBe(expected);
+  });
+});
+
+describe("guessStatusMapping", () => {
+  const stages: PipelineStage[] = [
+    ["saved", "Wishlist", "saved"],
+    ["applied", "Applied", "applied"],
+    ["phone", "Phone screen", "interview"],
+    ["onsite", "Onsite", "interview"],
+    ["offer", "Offer", "offer"],
+    ["rejected", "Rejected", "rejected"],
+  ].map(([key, label, outcome], position) => ({
+    id: key,
+    key,
+    label,
+    color: "#3B82F6",
+    position,
+    outcome: outcome as PipelineStage["outcome"],
+  }));
+
+  it.each<[string, string]>([
+    ["Applied", "applied"],
+    ["onsite", "onsite"],
+    ["Technical interview", "phone"],
+    ["Rejected after onsite", "rejected"],
+    ["No", "rejected"],
+    ["Know more", "saved"],
+    ["Offer accepted", "offer"],
+    ["To apply", "saved"],
+  ])("maps %j to %s", (value, expected) => {
+    expect(guessStatusMapping([value], stages, "saved")[value]).toBe(expected);
+  });
+});
@@ -0,0 +1,520 @@
+import { v4 as uuidv4 } from "uuid";
+import { JobApplication, PipelineStage, StageOutcome } from "@/data/mockJobs";
+import { cleanJobInput } from "@/services/jobRepository";
+import { parseSalary } from "@/utils/currencyUtils";
+import { DuplicateMatch, findDuplicates } from "@/utils/duplicateUtils";
+
+/**
+ * Application fields a spreadsheet column can be imported into
+ */
+export type ImportField =
+  | "company"
+  | "position"
+  | "location"
+  | "status"
+  | "appliedDate"
+  | "jobUrl"
+  | "salary"
+  | "jobDescription"
+  | "notes";
+
+export const importFieldLabels: Record<ImportField, string> = {
+  company: "Company",
+  position: "Position",
+  location: "Location",
+  status: "Status",
+  appliedDate: "Applied date",
+  jobUrl: "Job posting URL",
+  salary: "Salary",
+  jobDescription: "Job description",
+  notes: "Notes",
+};
+
+export const importFields = Object.keys(importFieldLabels) as ImportField[];
+
+// Every imported application needs these
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ["company", "position"];
+
+/**
+ * The field each column is imported into, by column index; null to skip it
+ */
+export type ColumnMapping = (ImportField | null)[];
+
+/**
+ * Order of the day, month and year in the file's dates
+ */
+export type DateFormat = "ymd" | "mdy" | "dmy";
+
+export const dateFormatLabels: Record<DateFormat, string> = {
+  ymd: "Year-month-day (2024-03-31)",
+  mdy: "Month/day/year (03/31/2024)",
+  dmy: "Day/month/year (31/03/2024)",
+};
+
+/**
+ * A parsed CSV or TSV file
+ */
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * How to turn the file's rows into applications
+ */
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  statusMapping: Record<string, string>; // Status as written in the file -> stage key
+  defaultStatus: string; // Stage key for rows without a status
+}
+
+/**
+ * One row of the file, ready to import unless it has errors
+ */
+export interface ImportRow {
+  line: number; // Line in the file, counting the header as line 1
+  job: JobApplication;
+  errors: string[]; // The row can't be imported
+  warnings: string[]; // The row is imported with changes
+  duplicate: DuplicateMatch | null; // An application it looks like
+}
+
+//=============================================================================
+// PARSING
+//=============================================================================
+
+/**
+ * The delimiter used most in a line, outside quoted values
+ */
+const detectDelimiter = (line: string): string => {
+  const counts: Record<string, number> = { ",": 0, "\t": 0, ";": 0 };
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char in counts) counts[char]++;
+  }
+  const [delimiter, count] = Object.entries(counts).sort(
+    (a, b) => b[1] - a[1]
+  )[0];
+  return count > 0 ? delimiter : ",";
+};
+
+/**
+ * Parse a CSV or TSV export from a spreadsheet. The delimiter (comma, tab or
+ * semicolon) is detected from the header row, quoted values may contain
+ * delimiters, quotes ("") and line breaks, and blank rows are dropped.
+ */
+export const parseCsv = (text: string): ParsedCsv => {
+  const content = text.replace(/^\uFEFF/, ""); // Byte order mark from Excel
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || "");
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      record.push(value);
+      records.push(record);
+      record = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+  record.push(value);
+  records.push(record);
+
+  const [headers = [], ...rows] = records
+    .map((r) => r.map((cell) => cell.trim()))
+    .filter((r) => r.some((cell) => cell !== ""));
+
+  return { headers, rows };
+};
+
+//=============================================================================
+// COLUMN MAPPING
+//=============================================================================
+
+// Header names commonly used for each field, normalised
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  company: [
+    "company",
+    "company name",
+    "employer",
+    "organisation",
+    "organization",
+  ],
+  position: ["position", "title", "job title", "role", "job", "job name"],
+  location: ["location", "city", "place", "office"],
+  status: ["status", "stage", "state", "application status", "result"],
+  appliedDate: [
+    "applied",
+    "applied date",
+    "date applied",
+    "application date",
+    "applied on",
+    "date",
+  ],
+  jobUrl: [
+    "url",
+    "link",
+    "job url",
+    "job link",
+    "posting",
+    "posting url",
+    "job posting",
+    "job posting url",
+  ],
+  salary: ["salary", "pay", "compensation", "salary range", "rate"],
+  jobDescription: ["description", "job description", "details"],
+  notes: ["notes", "note", "comments", "comment"],
+};
+
+const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/**
+ * Guess which field each column holds from its header. Each field is
+ * used for at most one column.
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportField>();
+
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const field = importFields.find(
+      (f) => !used.has(f) && FIELD_ALIASES[f].includes(normalized)
+    );
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+};
+
+/**
+ * Values of the column mapped to a field
+ */
+export const getFieldValues = (
+  csv: ParsedCsv,
+  mapping: ColumnMapping,
+  field: ImportField
+): string[] => {
+  const column = mapping.indexOf(field);
+  return column === -1 ? [] : csv.rows.map((row) => row[column] || "");
+};
+
+//=============================================================================
+// DATES
+//=============================================================================
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (
+    date.getUTCFullYear() !== fullYear ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Guess the date format of a column: a first part over 12 can only be a
+ * day, a second part over 12 can only be a day in month/day/year
+ */
+export const detectDateFormat = (values: string[]): DateFormat => {
+  let format: DateFormat = "ymd";
+
+  for (const value of values) {
+    const parts = value.trim().match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{2,4})/);
+    if (!parts || parts[1].length === 4) continue;
+    if (Number(parts[1]) > 12) return "dmy";
+    if (Number(parts[2]) > 12) return "mdy";
+    format = "mdy";
+  }
+  return format;
+};
+
+/**
+ * Parse a date as written in a spreadsheet, e.g. "2024-03-31",
+ * "31/03/2024" or "Mar 31, 2024"
+ *
+ * @param format Order of numeric dates that aren't year first
+ * @returns The date as YYYY-MM-DD, or null if it isn't a valid date
+ */
+export const parseImportDate = (
+  value: string,
+  format: DateFormat
+): string | null => {
+  const text = value.trim();
+  if (!text) return null;
+
+  // Year first, e.g. 2024-03-31 or 2024-03-31T09:00:00Z
+  let parts = text.match(/^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})/);
+  if (parts) {
+    return toIsoDate(Number(parts[1]), Number(parts[2]), Number(parts[3]));
+  }
+
+  parts = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})\b/);
+  if (parts) {
+    const [first, second, year] = parts.slice(1).map(Number);
+    return format === "dmy"
+      ? toIsoDate(year, second, first)
+      : toIsoDate(year, first, second);
+  }
+
+  // Month names, e.g. "Mar 31, 2024" or "31 March 2024"
+  const month = MONTHS.findIndex((m) => text.toLowerCase().includes(m)) + 1;
+  const numbers = text.match(/\d+/g)?.map(Number) || [];
+  if (month > 0 && numbers.length >= 2) {
+    const year = numbers.find((n) => n > 31) ?? numbers[1];
+    const day = numbers.find((n) => n !== year && n <= 31);
+    return day ? toIsoDate(year, month, day) : null;
+  }
+
+  return null;
+};
+
+//=============================================================================
+// STATUSES
+//=============================================================================
+
+// Words that suggest which outcome a status written in a file belongs to
+const OUTCOME_KEYWORDS: [StageOutcome, string[]][] = [
+  ["offer", ["offer", "accepted", "hired"]],
+  [
+    "rejected",
+    [
+      "reject",
+      "declin",
+      "decline",
+      "no",
+      "withdrawn",
+      "ghosted",
+      "closed",
+      "not selected",
+    ],
+  ],
+  [
+    "interview",
+    ["interview", "screen", "phone", "onsite", "assessment", "test"],
+  ],
+  [
+    "saved",
+    ["saved", "bookmark", "wishlist", "interested", "to apply", "todo"],
+  ],
+  ["applied", ["applied", "submitted", "sent", "pending", "waiting"]],
+];
+
+/**
+ * Guess the stage for each status written in the file: an exact stage name
+ * or key first, then the first stage of the outcome the words suggest
+ *
+ * @param values Statuses as written in the file
+ * @param stages The user's pipeline stages
+ * @param defaultStatus Stage for statuses that can't be matched
+ */
+export const guessStatusMapping = (
+  values: string[],
+  stages: PipelineStage[],
+  defaultStatus: string
+): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+
+  for (const value of new Set(values.map((v) => v.trim()).filter(Boolean))) {
+    const normalized = value.toLowerCase();
+    const exact = stages.find(
+      (stage) =>
+        stage.label.toLowerCase() === normalized ||
+        stage.key.toLowerCase() === normalized
+    );
+    if (exact) {
+      mapping[value] = exact.key;
+      continue;
+    }
+
+    const outcome = OUTCOME_KEYWORDS.find(([, keywords]) =>
+      keywords.some((keyword) =>
+        keyword.length <= 2
+          ? normalized === keyword
+          : normalized.includes(keyword)
+      )
+    )?.[0];
+    mapping[value] =
+      stages.find((stage) => stage.outcome === outcome)?.key || defaultStatus;
+  }
+
+  return mapping;
+};
+
+//=============================================================================
+// VALIDATION
+//=============================================================================
+
+// Limits applied by cleanJobInput
+const FIELD_LIMITS: Partial<Record<ImportField, number>> = {
+  company: 100,
+  position: 200,
+  location: 100,
+  salary: 50,
+  jobDescription: 5000,
+  notes: 2000,
+  jobUrl: 500,
+};
+
+/**
+ * Undo the HTML escaping of sanitised text, keeping the markup removed,
+ * e.g. "AT&amp;T" back to "AT&T"
+ */
+const decodeEntities = (text: string): string =>
+  new DOMParser().parseFromString(text, "text/html").documentElement
+    .textContent || "";
+
+/**
+ * Turn the file's rows into applications, validating each with
+ * cleanJobInput and flagging likely duplicates
+ *
+ * @param existingJobs Applications already tracked, to find duplicates
+ */
+export const buildImportRows = (
+  csv: ParsedCsv,
+  options: ImportOptions,
+  existingJobs: JobApplication[]
+): ImportRow[] => {
+  const { mapping, dateFormat, statusMapping, defaultStatus } = options;
+  const now = new Date().toISOString();
+  const imported: JobApplication[] = [];
+
+  return csv.rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const raw: Partial<Record<ImportField, string>> = {};
+    mapping.forEach((field, column) => {
+      if (field) raw[field] = (row[column] || "").trim();
+    });
+
+    const appliedDate = raw.appliedDate
+      ? parseImportDate(raw.appliedDate, dateFormat)
+      : null;
+    if (raw.appliedDate && !appliedDate) {
+      errors.push(`"${raw.appliedDate}" isn't a valid date`);
+    }
+
+    const cleaned =
+      cleanJobInput({
+        company: raw.company,
+        position: raw.position,
+        location: raw.location,
+        salary: raw.salary,
+        jobDescription: raw.jobDescription,
+        note: raw.notes,
+        jobUrl: raw.jobUrl,
+        appliedDate: appliedDate || undefined,
+      }) || {};
+
+    const cleanedFields: Partial<Record<ImportField, string>> = {
+      company: cleaned.company,
+      position: cleaned.position,
+      location: cleaned.location,
+      salary: cleaned.salary,
+      jobDescription: cleaned.jobDescription,
+      notes: cleaned.note,
+      jobUrl: cleaned.jobUrl,
+    };
+
+    const values: Partial<Record<ImportField, string>> = {};
+    (Object.keys(cleanedFields) as ImportField[]).forEach((field) => {
+      const value = decodeEntities(cleanedFields[field] || "").trim();
+      values[field] = value;
+      if (!raw[field]) return;
+
+      if (field === "jobUrl" && !value) {
+        errors.push(`"${raw.jobUrl}" isn't a valid link`);
+      } else if (raw[field].length > FIELD_LIMITS[field]) {
+        warnings.push(
+          `${importFieldLabels[field]} shortened to ${FIELD_LIMITS[
+            field
+          ].toLocaleString()} characters`
+        );
+      } else if (value !== raw[field]) {
+        warnings.push(
+          `HTML removed from ${importFieldLabels[field].toLowerCase()}`
+        );
+      }
+    });
+
+    REQUIRED_IMPORT_FIELDS.forEach((field) => {
+      if (!values[field]) errors.push(`${importFieldLabels[field]} is missing`);
+    });
+
+    const status = (raw.status && statusMapping[raw.status]) || defaultStatus;
+    const job: JobApplication = {
+      id: uuidv4(),
+      company: values.company,
+      position: values.position,
+      location: values.location,
+      status,
+      appliedDate: appliedDate || "",
+      lastUpdated: now,
+      jobUrl: values.jobUrl || undefined,
+      salary: values.salary,
+      salaryRange: parseSalary(values.salary, values.location) || undefined,
+      jobDescription: values.jobDescription,
+      notes: values.notes
+        ? [{ id: uuidv4(), content: values.notes, createdAt: now }]
+        : [],
+      contacts: [],
+      events: [],
+      tagIds: [],
+    };
+
+    // Compare with tracked applications and the rows before this one
+    const [duplicate = null] =
+      errors.length === 0
+        ? findDuplicates(job, [...existingJobs, ...imported])
+        : [];
+    if (errors.length === 0) imported.push(job);
+
+    return { line: index + 2, job, errors, warnings, duplicate };
+  });
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { SalaryRange } from '@/data/mockJobs'
+import {
+	formatSalaryRange,
+	getAnnualSalary,
+	parseSalary,
+} from '@/utils/currencyUtils'
+
+describe('parseSalary', () => {
+	it.each<[string, string | undefined, SalaryRange | null]>([
+		[
+			'$90,000 - $120,000',
+			undefined,
+			{ min: 90000, max: 120000, currency: 'USD', period: 'annual' },
+		],
+		[
+			'90-120k',
+			undefined,
+			{ min: 90000, max: 120000, currency: undefined, period: 'annual' },
+		],
+		[
+			'£450/day',
+			undefined,
+			{ min: 450, max: undefined, currency: 'GBP', period: 'daily' },
+		],
+		[
+			'€55 per hour',
+			undefined,
+			{ min: 55, max: undefined, currency: 'EUR', period: 'hourly' },
+		],
+		[
+			'Up to $120k',
+			undefined,
+			{ min: undefined, max: 120000, currency: 'USD', period: 'annual' },
+		],
+		[
+			'£500/week',
+			undefined,
+			{ min: 500, max: undefined, currency: 'GBP', period: 'weekly' },
+		],
+		[
+			'£600 pw',
+			undefined,
+			{ min: 600, max: undefined, currency: 'GBP', period: 'weekly' },
+		],
+		[
+			'£3,000 pcm',
+			undefined,
+			{ min: 3000, max: undefined, currency: 'GBP', period: 'monthly' },
+		],
+		[
+			'C$80k',
+			undefined,
+			{ min: 80000, max: undefined, currency: 'CAD', period: 'annual' },
+		],
+		[
+			'45k',
+			'London, UK',
+			{ min: 45000, max: undefined, currency: 'GBP', period: 'annual' },
+		],
+		[
+			'45k',
+			'Berlin',
+			{ min: 45000, max: undefined, currency: undefined, period: 'annual' },
+		],
+		[
+			'$25',
+			undefined,
+			{ min: 25, max: undefined, currency: 'USD', period: 'hourly' },
+		],
+		[
+			'$600',
+			undefined,
+			{ min: 600, max: undefined, currency: 'USD', period: 'daily' },
+		],
+		['Competitive', undefined, null],
+		['', undefined, null],
+	])('parses "%s" (%s)', (text, location, expected) => {
+		expect(parseSalary(text, location)).toEqual(expected)
+	})
+})
+
+describe('formatSalaryRange', () => {
+	it.each<[SalaryRange, string]>([
+		[
+			{ min: 90000, max: 120000, currency: 'USD', period: 'annual' },
+			'$90,000 - $120,000/yr',
+		],
+		[{ max: 120000, currency: 'USD', period: 'annual' }, 'Up to $120,000/yr'],
+		[{ min: 500, currency: 'GBP', period: 'weekly' }, '£500/wk'],
+		[{ currency: 'USD', period: 'annual' }, 'Not specified'],
+	])('formats %o', (range, expected) => {
+		expect(formatSalaryRange(range)).toBe(expected)
+	})
+})
+
+describe('getAnnualSalary', () => {
+	it.each<[SalaryRange | null, number | null]>([
+		[{ min: 90000, max: 120000, currency: 'USD', period: 'annual' }, 105000],
+		[{ min: 500, currency: 'GBP', period: 'weekly' }, 26000],
+		[{ min: 20, max: 30, currency: 'USD', period: 'hourly' }, 52000],
+		[{ currency: 'USD', period: 'annual' }, null],
+		[null, null],
+	])('annualises %o', (range, expected) => {
+		expect(getAnnualSalary(range)).toBe(expected)
+	})
+})
@@ -1,5 +1,6 @@
 import { DollarSign, Euro, PoundSterling } from 'lucide-react'
 import { ReactNode } from 'react'
+import { JobApplication, SalaryPeriod, SalaryRange } from '@/data/mockJobs'
 
 // UK locations to check (fallback when browser locale isn't available)
 const ukLocations = [
@@ -115,15 +116,26 @@ export function getCurrencySymbol(location?: string): '$' | '£' | '€' {
 	}
 
 	// Fallback to location-based inference
+	return getLocationCurrency(location) === 'GBP' ? '£' : '$'
+}
+
+/**
+ * Determines the currency of a job from its location alone.
+ * @param location Job location string
+ * @returns The currency code, or undefined if the location isn't recognised
+ */
+export function getLocationCurrency(
+	location?: string
+): 'USD' | 'GBP' | undefined {
 	if (!location || typeof location !== 'string') {
-		return '$'
+		return undefined
 	}
 
 	const locationLower = location.toLowerCase()
 
 	// Special case for "New York"
 	if (locationLower.includes('new york') || locationLower.includes('ny,')) {
-		return '$'
+		return 'USD'
 	}
 
 	// Check if it's a UK location
@@ -139,15 +151,14 @@ export function getCurrencySymbol(location?: string): '$' | '£' | '€' {
 	)
 
 	if (isUkLocation && !isUsLocation) {
-		return '£'
+		return 'GBP'
 	}
 
 	if (isUsLocation) {
-		return '$'
+		return 'USD'
 	}
 
-	// Default to dollar sign
-	return '$'
+	return undefined
 }
 
 /**
@@ -172,17 +183,22 @@ export function getCurrencyIcon(location?: string): ReactNode {
 }
 
 /**
- * Formats a salary string/number with the user's currency symbol.
- * For ranges we simply prefix the detected symbol if none is present.
+ * Formats a salary with the user's currency symbol.
+ * Structured ranges are formatted in their own currency and period;
+ * for free-text ranges we simply prefix the detected symbol if none is present.
  */
 export function formatSalaryForDisplay(
-	salary: string | number | null | undefined,
+	salary: string | number | SalaryRange | null | undefined,
 	location?: string
 ): string {
 	if (salary === null || salary === undefined || salary === '') {
 		return 'Not specified'
 	}
 
+	if (typeof salary === 'object') {
+		return formatSalaryRange(salary)
+	}
+
 	const symbol = getCurrencySymbol(location)
 	const code = getUserCurrencyFromLocale().code
 
@@ -203,3 +219,167 @@ export function formatSalaryForDisplay(
 
 	return `${symbol}${salaryString}`
 }
+
+export const salaryPeriodLabels: Record<SalaryPeriod, string> = {
+	annual: 'per year',
+	monthly: 'per month',
+	weekly: 'per week',
+	daily: 'per day',
+	hourly: 'per hour',
+}
+
+const salaryPeriodSuffixes: Record<SalaryPeriod, string> = {
+	annual: '/yr',
+	monthly: '/mo',
+	weekly: '/wk',
+	daily: '/day',
+	hourly: '/hr',
+}
+
+// Working periods in a year, used to compare pay across periods
+const periodsPerYear: Record<SalaryPeriod, number> = {
+	annual: 1,
+	monthly: 12,
+	weekly: 52,
+	daily: 260,
+	hourly: 2080,
+}
+
+export const supportedCurrencies = ['USD', 'GBP', 'EUR', 'CAD', 'AUD', 'INR']
+
+// Checked in order, so prefixed dollar signs come before the plain '$'
+const currencyPatterns: { pattern: RegExp; code: string }[] = [
+	{ pattern: /\b(?:C\$|CA\$|CAD)/i, code: 'CAD' },
+	{ pattern: /\b(?:A\$|AU\$|AUD)/i, code: 'AUD' },
+	{ pattern: /£|\bGBP\b/i, code: 'GBP' },
+	{ pattern: /€|\bEUR\b/i, code: 'EUR' },
+	{ pattern: /₹|\bINR\b/i, code: 'INR' },
+	{ pattern: /\$|\bUSD\b/i, code: 'USD' },
+]
+
+const periodPatterns: { pattern: RegExp; period: SalaryPeriod }[] = [
+	{ pattern: /\b(?:hour|hourly|hr|ph)\b|\/\s*h\b/i, period: 'hourly' },
+	{ pattern: /\b(?:day|daily|pd|per diem)\b|\/\s*d\b/i, period: 'daily' },
+	{ pattern: /\b(?:week|weekly|wk|pw)\b|\/\s*w\b/i, period: 'weekly' },
+	{ pattern: /\b(?:month|monthly|mo|pcm|pm)\b/i, period: 'monthly' },
+	{ pattern: /\b(?:year|yearly|annum|annual|annually|yr|pa|p\.a)\b/i, period: 'annual' },
+]
+
+// A single amount after one of these is the most that's paid
+const ceilingPattern = /\b(?:up\s*to|max|maximum|under|below)\b/i
+
+/**
+ * Parse a free-text salary such as "$90,000 - $120,000", "90-120k",
+ * "£450/day" or "Up to €55 per hour" into a structured range.
+ * The currency falls back to the job's location and is left unset when
+ * neither gives it; the period is inferred from the size of the amount
+ * when not stated.
+ * @returns The parsed range, or null if no amount could be found
+ */
+export function parseSalary(
+	text: string | null | undefined,
+	location?: string
+): SalaryRange | null {
+	if (!text || typeof text !== 'string') return null
+
+	const amounts: { value: number; suffix: string }[] = []
+	const amountPattern = /(\d[\d,]*(?:\.\d+)?)\s*([km])?(?![a-z])/gi
+	let match: RegExpExecArray | null
+	while ((match = amountPattern.exec(text)) !== null && amounts.length < 2) {
+		amounts.push({
+			value: parseFloat(match[1].replace(/,/g, '')),
+			suffix: (match[2] || '').toLowerCase(),
+		})
+	}
+	if (amounts.length === 0 || amounts.some((a) => isNaN(a.value))) return null
+
+	// "90-120k": a multiplier on the upper bound applies to both
+	const sharedSuffix = amounts[amounts.length - 1].suffix
+	const values = amounts.map(({ value, suffix }) => {
+		const multiplier = suffix || (amounts.length > 1 ? sharedSuffix : '')
+		if (multiplier === 'k') return value * 1000
+		if (multiplier === 'm') return value * 1000000
+		return value
+	})
+
+	const [min, max] =
+		values.length > 1
+			? [Math.min(...values), Math.max(...values)]
+			: [values[0], values[0]]
+	const isCeiling = values.length === 1 && ceilingPattern.test(text)
+
+	const currency =
+		currencyPatterns.find(({ pattern }) => pattern.test(text))?.code ||
+		getLocationCurrency(location)
+
+	const statedPeriod = periodPatterns.find(({ pattern }) =>
+		pattern.test(text)
+	)?.period
+	const period: SalaryPeriod =
+		statedPeriod || (max < 300 ? 'hourly' : max < 2000 ? 'daily' : 'annual')
+
+	return {
+		min: isCeiling ? undefined : min,
+		max: isCeiling || max !== min ? max : undefined,
+		currency,
+		period,
+	}
+}
+
+/**
+ * Format a structured salary range, e.g. "$90,000 - $120,000/yr".
+ * Ranges with no currency are shown in the user's currency.
+ */
+export function formatSalaryRange(range: SalaryRange): string {
+	if (range.min === undefined && range.max === undefined) {
+		return 'Not specified'
+	}
+
+	let formatter: Intl.NumberFormat
+	try {
+		formatter = new Intl.NumberFormat(undefined, {
+			style: 'currency',
+			currency: range.currency || getUserCurrencyFromLocale().code,
+			maximumFractionDigits: range.period === 'hourly' ? 2 : 0,
+		})
+	} catch {
+		formatter = new Intl.NumberFormat(undefined, {
+			maximumFractionDigits: 0,
+		})
+	}
+
+	const amounts = [range.min, range.max]
+		.filter((value) => value !== undefined && value !== null)
+		.map((value) => formatter.format(value))
+	// A maximum alone is a ceiling, as in "Up to $120,000"
+	const prefix = range.min === undefined || range.min === null ? 'Up to ' : ''
+
+	return `${prefix}${amounts.join(' - ')}${
+		salaryPeriodSuffixes[range.period] || ''
+	}`
+}
+
+/**
+ * The structured salary for a job, parsing the free-text salary
+ * for jobs saved before ranges were stored
+ */
+export function getSalaryRange(
+	job: Pick<JobApplication, 'salary' | 'salaryRange' | 'location'>
+): SalaryRange | null {
+	return job.salaryRange || parseSalary(job.salary, job.location)
+}
+
+/**
+ * Annualised midpoint of a salary range, used to sort and compare jobs.
+ * Amounts are not converted between currencies.
+ */
+export function getAnnualSalary(range: SalaryRange | null): number | null {
+	if (!range) return null
+	const values = [range.min, range.max].filter(
+		(value) => typeof value === 'number' && !isNaN(value)
+	)
+	if (values.length === 0) return null
+
+	const midpoint = values.reduce((sum, value) => sum + value, 0) / values.length
+	return midpoint * (periodsPerYear[range.period] || 1)
+}
@@ -0,0 +1,231 @@
+import { JobApplication } from "@/data/mockJobs";
+
+/**
+ * Why two applications look like the same role
+ */
+export type DuplicateReason = "posting-id" | "url" | "company-position";
+
+/**
+ * An application that looks like a duplicate of another
+ */
+export interface DuplicateMatch {
+  job: JobApplication;
+  score: number; // 0-1, where 1 means certainly the same posting
+  reason: DuplicateReason;
+}
+
+/**
+ * Two applications that look like the same role, for the review screen
+ */
+export interface DuplicatePair {
+  key: string;
+  jobs: [JobApplication, JobApplication];
+  score: number;
+  reason: DuplicateReason;
+}
+
+export const duplicateReasonLabels: Record<DuplicateReason, string> = {
+  "posting-id": "Same posting ID",
+  url: "Same posting URL",
+  "company-position": "Similar company and position",
+};
+
+// Scores at or above this are reported as possible duplicates
+const DUPLICATE_THRESHOLD = 0.82;
+
+const COMPANY_SUFFIXES =
+  /\b(inc|incorporated|ltd|limited|llc|llp|plc|corp|corporation|co|company|gmbh|ag|sa|bv|pty|the)\b/g;
+
+const POSITION_ABBREVIATIONS: Record<string, string> = {
+  sr: "senior",
+  jr: "junior",
+  eng: "engineer",
+  engr: "engineer",
+  dev: "developer",
+  mgr: "manager",
+  swe: "software engineer",
+  pm: "product manager",
+  fe: "frontend",
+  be: "backend",
+};
+
+// Query parameters and paths that identify a posting on common job boards
+const POSTING_ID_PATTERNS = [
+  /linkedin\.com\/jobs\/view\/(?:[^/]*-)?(\d+)/i,
+  /[?&]currentJobId=(\d+)/i,
+  /indeed\.[a-z.]+\/.*[?&]jk=([a-f0-9]+)/i,
+  /[?&]gh_jid=(\d+)/i,
+  /greenhouse\.io\/[^/]+\/jobs\/(\d+)/i,
+  /lever\.co\/[^/]+\/([0-9a-f-]{36})/i,
+  /workable\.com\/.*\/j\/([A-Z0-9]+)/i,
+];
+
+const normalizeText = (text: string) =>
+  (text || "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Normalise a company name, dropping legal suffixes such as "Inc" or "Ltd"
+ */
+export const normalizeCompany = (company: string): string =>
+  normalizeText(company)
+    .replace(COMPANY_SUFFIXES, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Normalise a job title, expanding common abbreviations such as "Sr"
+ */
+export const normalizePosition = (position: string): string =>
+  normalizeText(position)
+    .split(" ")
+    .map((word) => POSITION_ABBREVIATIONS[word] || word)
+    .join(" ");
+
+/**
+ * Normalise a posting URL to host and path, ignoring tracking parameters
+ */
+export const normalizeJobUrl = (url?: string): string | null => {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+    const path = parsed.pathname.replace(/\/+$/, "").toLowerCase();
+    return `${host}${path}`;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The job board's own ID for a posting, from the imported ID or the URL
+ */
+export const getPostingId = (job: JobApplication): string | null => {
+  if (job.externalId) return job.externalId.toLowerCase();
+  if (!job.jobUrl) return null;
+
+  for (const pattern of POSTING_ID_PATTERNS) {
+    const match = job.jobUrl.match(pattern);
+    if (match) return match[1].toLowerCase();
+  }
+  return null;
+};
+
+/**
+ * Similarity of two strings from 0 to 1, using shared character pairs
+ * (Sørensen–Dice), so small typos and word order changes still match
+ */
+export const stringSimilarity = (a: string, b: string): number => {
+  if (a === b) return a ? 1 : 0;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const pairs = (text: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const pair = text.slice(i, i + 2);
+      counts.set(pair, (counts.get(pair) || 0) + 1);
+    }
+    return counts;
+  };
+
+  const pairsA = pairs(a);
+  const pairsB = pairs(b);
+  let shared = 0;
+  pairsA.forEach((count, pair) => {
+    shared += Math.min(count, pairsB.get(pair) || 0);
+  });
+
+  return (2 * shared) / (a.length - 1 + (b.length - 1));
+};
+
+/**
+ * How likely two applications are to be the same role
+ * @returns The score and strongest reason, or null if they differ
+ */
+export const compareJobs = (
+  a: JobApplication,
+  b: JobApplication
+): { score: number; reason: DuplicateReason } | null => {
+  if (a.id === b.id) return null;
+
+  const postingA = getPostingId(a);
+  if (postingA && postingA === getPostingId(b)) {
+    return { score: 1, reason: "posting-id" };
+  }
+
+  const urlA = normalizeJobUrl(a.jobUrl);
+  if (urlA && urlA === normalizeJobUrl(b.jobUrl)) {
+    return { score: 1, reason: "url" };
+  }
+
+  const companySimilarity = stringSimilarity(
+    normalizeCompany(a.company),
+    normalizeCompany(b.company)
+  );
+  if (companySimilarity < DUPLICATE_THRESHOLD) return null;
+
+  const positionSimilarity = stringSimilarity(
+    normalizePosition(a.position),
+    normalizePosition(b.position)
+  );
+  const score = (companySimilarity + positionSimilarity) / 2;
+
+  return positionSimilarity >= DUPLICATE_THRESHOLD
+    ? { score, reason: "company-position" }
+    : null;
+};
+
+/**
+ * Existing applications that look like duplicates of a job, best match first
+ *
+ * @param job The job being added
+ * @param jobs Applications to compare against
+ */
+export const findDuplicates = (
+  job: JobApplication,
+  jobs: JobApplication[]
+): DuplicateMatch[] =>
+  jobs
+    .map((other) => {
+      const match = compareJobs(job, other);
+      return match ? { job: other, ...match } : null;
+    })
+    .filter((match): match is DuplicateMatch => match !== null)
+    .sort((a, b) => b.score - a.score);
+
+/**
+ * Stable key for a pair of applications, regardless of order
+ */
+export const getDuplicatePairKey = (idA: string, idB: string): string =>
+  [idA, idB].sort().join(":");
+
+/**
+ * Every pair of applications that look like duplicates, best match first
+ *
+ * @param jobs Applications to check
+ * @param dismissedKeys Pair keys the user has marked as not duplicates
+ */
+export const findDuplicatePairs = (
+  jobs: JobApplication[],
+  dismissedKeys: Set<string> = new Set()
+): DuplicatePair[] => {
+  const pairs: DuplicatePair[] = [];
+
+  for (let i = 0; i < jobs.length; i++) {
+    for (let j = i + 1; j < jobs.length; j++) {
+      const key = getDuplicatePairKey(jobs[i].id, jobs[j].id);
+      if (dismissedKeys.has(key)) continue;
+
+      const match = compareJobs(jobs[i], jobs[j]);
+      if (match) {
+        pairs.push({ key, jobs: [jobs[i], jobs[j]], ...match });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+};
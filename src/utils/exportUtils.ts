@@ -0,0 +1,453 @@
+import { v4 as uuidv4 } from "uuid";
+import { JobApplication, JobTag, PipelineStage } from "@/data/mockJobs";
+import {
+  ImportField,
+  ImportRow,
+  ParsedCsv,
+  importFieldLabels,
+} from "@/utils/csvImportUtils";
+import { findStage } from "@/utils/pipelineUtils";
+import { statusChangeSourceLabels } from "@/utils/statusHistoryUtils";
+import { findTagByName, getJobTags } from "@/utils/tagUtils";
+import { CellValue, createXlsx } from "@/utils/xlsxUtils";
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  csv: "CSV (one row per application)",
+  json: "JSON (everything, re-importable)",
+  xlsx: "Excel (one sheet per kind of record)",
+};
+
+export const exportFormats = Object.keys(exportFormatLabels) as ExportFormat[];
+
+// Bumped when the JSON layout changes, so older files can still be read
+export const EXPORT_VERSION = 1;
+
+/**
+ * Details of an uploaded resume, cover letter or other document
+ */
+export interface ExportedDocument {
+  id: string;
+  name: string;
+  type: "resume" | "coverletter" | "other";
+  mimeType: string;
+  size: number; // In bytes
+  uploadedAt: string;
+}
+
+/**
+ * An application with its stage and tags written out, so the file reads
+ * the same for a user whose stages or tags have changed
+ */
+export interface ExportedJob extends JobApplication {
+  statusLabel: string;
+  tags: { name: string; color: string }[];
+}
+
+/**
+ * Everything in an export, as written to JSON
+ */
+export interface JobExport {
+  version: number;
+  exportedAt: string;
+  jobs: ExportedJob[];
+  documents: ExportedDocument[];
+}
+
+/**
+ * Gather applications and documents for exporting
+ *
+ * @param jobs Applications with their notes, contacts, events and history
+ */
+export const buildJobExport = (
+  jobs: JobApplication[],
+  stages: PipelineStage[],
+  tags: JobTag[],
+  documents: ExportedDocument[]
+): JobExport => ({
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  jobs: jobs.map((job) => ({
+    ...job,
+    statusLabel: findStage(stages, job.status).label,
+    tags: getJobTags(job, tags).map(({ name, color }) => ({ name, color })),
+  })),
+  documents,
+});
+
+/**
+ * File name for an export, e.g. "applications-2024-03-31.csv"
+ *
+ * @param name What was exported, e.g. the saved view's name
+ */
+export const getExportFileName = (
+  name: string,
+  format: ExportFormat
+): string => {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const date = new Date().toISOString().slice(0, 10);
+  return `${slug || "applications"}-${date}.${format}`;
+};
+
+//=============================================================================
+// SPREADSHEET ROWS
+//=============================================================================
+
+// Application columns; the first ones are named as the importer expects
+const applicationColumns: [string, (job: ExportedJob) => CellValue][] = [
+  [importFieldLabels.company, (job) => job.company],
+  [importFieldLabels.position, (job) => job.position],
+  [importFieldLabels.location, (job) => job.location],
+  [importFieldLabels.status, (job) => job.statusLabel],
+  [importFieldLabels.appliedDate, (job) => job.appliedDate],
+  [importFieldLabels.jobUrl, (job) => job.jobUrl],
+  [importFieldLabels.salary, (job) => job.salary],
+  ["Salary min", (job) => job.salaryRange?.min],
+  ["Salary max", (job) => job.salaryRange?.max],
+  ["Currency", (job) => job.salaryRange?.currency],
+  ["Pay period", (job) => job.salaryRange?.period],
+  ["Work type", (job) => job.workType],
+  ["Employment type", (job) => job.employmentType],
+  ["Tags", (job) => job.tags.map((tag) => tag.name).join(", ")],
+  ["Follow-up date", (job) => job.followUpDate],
+  ["Archived", (job) => job.archivedAt],
+  ["Company website", (job) => job.companyWebsite],
+  ["Source", (job) => job.externalPlatform],
+  ["Last updated", (job) => job.lastUpdated],
+  [importFieldLabels.jobDescription, (job) => job.jobDescription],
+  ["Application ID", (job) => job.id],
+];
+
+const applicationRows = (data: JobExport): CellValue[][] => [
+  applicationColumns.map(([header]) => header),
+  ...data.jobs.map((job) => applicationColumns.map(([, value]) => value(job))),
+];
+
+//=============================================================================
+// CSV
+//=============================================================================
+
+/**
+ * Quote a CSV value if needed. Values a spreadsheet would run as a formula
+ * are prefixed with an apostrophe so they are shown as text.
+ */
+const toCsvValue = (value: CellValue): string => {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per application, with notes and contacts in a column each.
+ * The file can be imported again from a spreadsheet.
+ */
+export const exportToCsv = (data: JobExport): string => {
+  const [headers, ...rows] = applicationRows(data);
+  const extraHeaders = [importFieldLabels.notes, "Contacts"];
+  const extras = data.jobs.map((job) => [
+    (job.notes || []).map((note) => note.content).join("\n\n"),
+    (job.contacts || [])
+      .map((contact) => `${contact.name} <${contact.email}>`)
+      .join("\n"),
+  ]);
+
+  return [
+    [...headers, ...extraHeaders],
+    ...rows.map((row, i) => [...row, ...extras[i]]),
+  ]
+    .map((row) => row.map(toCsvValue).join(","))
+    .join("\r\n");
+};
+
+//=============================================================================
+// XLSX
+//=============================================================================
+
+/**
+ * A workbook with a sheet each for applications, events, notes, contacts,
+ * status history and documents. Rows link to applications by ID.
+ */
+export const exportToXlsx = (data: JobExport): Blob => {
+  const statusLabels = new Map(
+    data.jobs.map((job) => [job.status, job.statusLabel])
+  );
+  const label = (key?: string) => (key ? statusLabels.get(key) || key : "");
+
+  return createXlsx([
+    { name: "Applications", rows: applicationRows(data) },
+    {
+      name: "Events",
+      rows: [
+        ["Application ID", "Company", "Date", "Title", "Description"],
+        ...data.jobs.flatMap((job) =>
+          (job.events || []).map((event) => [
+            job.id,
+            job.company,
+            event.date,
+            event.title,
+            event.description,
+          ])
+        ),
+      ],
+    },
+    {
+      name: "Notes",
+      rows: [
+        ["Application ID", "Company", "Created", "Updated", "Note"],
+        ...data.jobs.flatMap((job) =>
+          (job.notes || []).map((note) => [
+            job.id,
+            job.company,
+            note.createdAt,
+            note.updatedAt,
+            note.content,
+          ])
+        ),
+      ],
+    },
+    {
+      name: "Contacts",
+      rows: [
+        [
+          "Application ID",
+          "Company",
+          "Name",
+          "Email",
+          "Phone",
+          "Position",
+          "Last contacted",
+        ],
+        ...data.jobs.flatMap((job) =>
+          (job.contacts || []).map((contact) => [
+            job.id,
+            job.company,
+            contact.name,
+            contact.email,
+            contact.phone,
+            contact.position,
+            contact.lastContactedAt,
+          ])
+        ),
+      ],
+    },
+    {
+      name: "Status history",
+      rows: [
+        ["Application ID", "Company", "Date", "From", "To", "Source"],
+        ...data.jobs.flatMap((job) =>
+          (job.statusHistory || []).map((change) => [
+            job.id,
+            job.company,
+            change.changedAt,
+            label(change.fromStatus),
+            label(change.toStatus),
+            statusChangeSourceLabels[change.source] || change.source,
+          ])
+        ),
+      ],
+    },
+    {
+      name: "Documents",
+      rows: [
+        ["Document ID", "Name", "Type", "Size (bytes)", "Uploaded"],
+        ...data.documents.map((document) => [
+          document.id,
+          document.name,
+          document.type,
+          document.size,
+          document.uploadedAt,
+        ]),
+      ],
+    },
+  ]);
+};
+
+//=============================================================================
+// JSON
+//=============================================================================
+
+export const exportToJson = (data: JobExport): string =>
+  JSON.stringify(data, null, 2);
+
+/**
+ * Read a JSON export
+ *
+ * @returns The export, or null if the text isn't one
+ */
+export const parseJobExport = (text: string): JobExport | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const candidate = data as Partial<JobExport> | null;
+  if (
+    !candidate ||
+    typeof candidate.version !== "number" ||
+    candidate.version > EXPORT_VERSION ||
+    !Array.isArray(candidate.jobs)
+  ) {
+    return null;
+  }
+
+  return {
+    version: candidate.version,
+    exportedAt: String(candidate.exportedAt || ""),
+    jobs: candidate.jobs.filter(
+      (job): job is ExportedJob => !!job && typeof job === "object"
+    ),
+    documents: Array.isArray(candidate.documents) ? candidate.documents : [],
+  };
+};
+
+// Fields of an exported application checked like a spreadsheet's columns
+const exportImportFields: ImportField[] = [
+  "company",
+  "position",
+  "location",
+  "status",
+  "appliedDate",
+  "jobUrl",
+  "salary",
+  "jobDescription",
+];
+
+/**
+ * Lay out exported applications as spreadsheet rows, so they are validated
+ * and matched to stages the same way as an imported spreadsheet.
+ * Statuses are written by stage name, to match the importing user's stages.
+ */
+export const exportToParsedCsv = (data: JobExport): ParsedCsv => ({
+  headers: exportImportFields.map((field) => importFieldLabels[field]),
+  rows: data.jobs.map((job) =>
+    exportImportFields.map((field) => {
+      const value =
+        field === "status" ? job.statusLabel || job.status : job[field];
+      return typeof value === "string" ? value : "";
+    })
+  ),
+});
+
+/**
+ * Add what a spreadsheet can't hold to rows built from an export: notes,
+ * contacts, events, status history and tags. Everything gets a new ID, so
+ * an export can be imported into another account or alongside the original.
+ *
+ * @param rows Rows built from exportToParsedCsv, in the same order
+ * @param tags The importing user's tags; tags missing are reported
+ */
+export const addExportedDetails = (
+  rows: ImportRow[],
+  data: JobExport,
+  tags: JobTag[]
+): ImportRow[] =>
+  rows.map((row, index) => {
+    const exported = data.jobs[index];
+    if (!exported) return row;
+
+    const warnings = [...row.warnings];
+    const tagIds = (exported.tags || []).flatMap((exportedTag) => {
+      const tag = findTagByName(tags, exportedTag.name || "");
+      if (!tag) warnings.push(`Tag "${exportedTag.name}" will be created`);
+      return tag ? [tag.id] : [];
+    });
+
+    const statusHistory = (exported.statusHistory || []).map((change) => ({
+      ...change,
+      id: uuidv4(),
+    }));
+    // The status the job is imported in ends its history
+    const last = statusHistory[statusHistory.length - 1];
+    if (last && last.toStatus !== row.job.status) {
+      statusHistory.push({
+        id: uuidv4(),
+        fromStatus: last.toStatus,
+        toStatus: row.job.status,
+        changedAt: new Date().toISOString(),
+        source: "import",
+      });
+    }
+
+    return {
+      ...row,
+      warnings,
+      job: {
+        ...row.job,
+        companyWebsite: exported.companyWebsite,
+        externalPlatform: exported.externalPlatform,
+        salaryRange: exported.salaryRange || row.job.salaryRange,
+        workType: exported.workType,
+        employmentType: exported.employmentType,
+        remote: exported.remote,
+        type: exported.type,
+        followUpDate: exported.followUpDate,
+        archivedAt: exported.archivedAt,
+        notes: (exported.notes || []).map((note) => ({
+          ...note,
+          id: uuidv4(),
+        })),
+        contacts: (exported.contacts || []).map((contact) => ({
+          ...contact,
+          id: uuidv4(),
+        })),
+        events: exported.events || [],
+        statusHistory,
+        tagIds,
+      },
+    };
+  });
+
+/**
+ * Tags an export uses that the user doesn't have yet
+ */
+export const getMissingExportTags = (
+  data: JobExport,
+  tags: JobTag[]
+): { name: string; color: string }[] => {
+  const missing = new Map<string, { name: string; color: string }>();
+  data.jobs.forEach((job) =>
+    (job.tags || []).forEach((tag) => {
+      const key = (tag.name || "").trim().toLowerCase();
+      if (key && !findTagByName(tags, tag.name) && !missing.has(key)) {
+        missing.set(key, tag);
+      }
+    })
+  );
+  return [...missing.values()];
+};
+
+//=============================================================================
+// DOWNLOAD
+//=============================================================================
+
+/**
+ * Save a file through the browser's download prompt
+ *
+ * @param mimeType Type of text content; blobs keep their own
+ */
+export const downloadFile = (
+  content: Blob | string,
+  fileName: string,
+  mimeType = "text/plain"
+) => {
+  const blob =
+    content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,243 @@
+import { JobApplication } from "@/data/mockJobs";
+import { getAnnualSalary, getSalaryRange } from "@/utils/currencyUtils";
+import { hasAnyTag } from "@/utils/tagUtils";
+import {
+  QueryFilterContext,
+  QueryMatchContext,
+  QueryTerm,
+  getJobQueryFilters,
+  matchesJobQuery,
+  quoteFilterValue,
+} from "@/utils/jobQueryUtils";
+
+/**
+ * Jobs fetched per page. Lists load the next page as they are scrolled.
+ */
+export const JOB_PAGE_SIZE = 50;
+
+/**
+ * Columns job lists can be ordered by. sort_date and salary_annual are
+ * generated columns, see the job_pagination migration.
+ */
+export type JobSortColumn =
+  | "sort_date"
+  | "last_updated"
+  | "company"
+  | "position"
+  | "salary_annual";
+
+export interface JobSort {
+  column: JobSortColumn;
+  ascending: boolean;
+}
+
+/**
+ * What a paged job list shows. All conditions must hold.
+ */
+export interface JobPageQuery {
+  sortBy: string; // e.g. "newest", see getJobSort
+  scope?: string[]; // Stage keys the list is limited to, e.g. a tab or kanban column
+  statuses?: string[]; // Status filter
+  tagIds?: string[]; // Jobs with any of these tags
+  terms?: QueryTerm[]; // Parsed search query
+  archived?: boolean; // Show archived jobs instead of the others
+}
+
+/**
+ * Where a page ended: the last job's sort value and ID.
+ * The next page starts after it.
+ */
+export interface JobPageCursor {
+  value: string | number | null; // As stored in the database
+  id: string;
+}
+
+const JOB_SORTS: Record<string, JobSort> = {
+  newest: { column: "sort_date", ascending: false },
+  oldest: { column: "sort_date", ascending: true },
+  updated: { column: "last_updated", ascending: false },
+  company: { column: "company", ascending: true },
+  position: { column: "position", ascending: true },
+  "salary-high": { column: "salary_annual", ascending: false },
+  "salary-low": { column: "salary_annual", ascending: true },
+};
+
+/**
+ * The column and direction for a sort option, newest first by default.
+ * Jobs with the same value are ordered by ID, and empty values go last.
+ */
+export const getJobSort = (sortBy: string): JobSort =>
+  JOB_SORTS[sortBy] || JOB_SORTS.newest;
+
+/**
+ * PostgREST filters selecting the jobs a query shows
+ */
+export const getJobPageFilters = (
+  query: JobPageQuery,
+  context: QueryFilterContext
+): string[] => {
+  const filters: string[] = [];
+  const inList = (values: string[]) => values.map(quoteFilterValue).join(",");
+
+  filters.push(
+    query.archived ? "archived_at.not.is.null" : "archived_at.is.null"
+  );
+  if (query.scope) {
+    // An empty scope, e.g. a tab with no stages, shows nothing
+    filters.push(
+      query.scope.length > 0
+        ? `status.in.(${inList(query.scope)})`
+        : "id.is.null"
+    );
+  }
+  if (query.statuses?.length) {
+    filters.push(`status.in.(${inList(query.statuses)})`);
+  }
+  if (query.tagIds?.length) {
+    filters.push(`tag_ids.ov.{${query.tagIds.join(",")}}`);
+  }
+  if (query.terms?.length) {
+    filters.push(...getJobQueryFilters(query.terms, context));
+  }
+  return filters;
+};
+
+/**
+ * PostgREST filter selecting the jobs after a cursor, in sort order
+ */
+export const getCursorFilter = (
+  sort: JobSort,
+  cursor: JobPageCursor
+): string => {
+  const { column } = sort;
+  const operator = sort.ascending ? "gt" : "lt";
+  const id = quoteFilterValue(cursor.id);
+
+  // Jobs without a value come last, ordered by ID
+  if (cursor.value === null) {
+    return `and(${column}.is.null,id.${operator}.${id})`;
+  }
+
+  const value = quoteFilterValue(cursor.value);
+  return `or(${column}.${operator}.${value},and(${column}.eq.${value},id.${operator}.${id}),${column}.is.null)`;
+};
+
+/**
+ * The value a job is sorted by, comparable with a cursor value
+ */
+const getSortValue = (
+  job: JobApplication,
+  column: JobSortColumn
+): string | number | null => {
+  switch (column) {
+    case "sort_date":
+      return toTime(job.appliedDate || job.lastUpdated);
+    case "last_updated":
+      return toTime(job.lastUpdated);
+    case "company":
+      return job.company;
+    case "position":
+      return job.position;
+    case "salary_annual":
+      return getAnnualSalary(getSalaryRange(job));
+  }
+};
+
+const toTime = (date: string | null | undefined): number | null => {
+  if (!date) return null;
+  const time = new Date(date).getTime();
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * Cursor values as stored, e.g. timestamps, as comparable sort values
+ */
+const normalizeCursorValue = (
+  value: JobPageCursor["value"],
+  column: JobSortColumn
+): string | number | null => {
+  if (value === null) return null;
+  if (column === "sort_date" || column === "last_updated") {
+    return toTime(String(value));
+  }
+  if (column === "salary_annual") return Number(value);
+  return value;
+};
+
+const compareValues = (
+  a: string | number | null,
+  b: string | number | null,
+  ascending: boolean
+): number => {
+  // Empty values go last whichever way the list is sorted
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+  const order =
+    typeof a === "number" && typeof b === "number"
+      ? a - b
+      : String(a).localeCompare(String(b));
+  return ascending ? order : -order;
+};
+
+const compareSortKeys = (
+  a: { value: string | number | null; id: string },
+  b: { value: string | number | null; id: string },
+  sort: JobSort
+): number => {
+  const order = compareValues(a.value, b.value, sort.ascending);
+  if (order !== 0) return order;
+  // Plain comparison matches how the database orders UUIDs
+  const idOrder = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  return sort.ascending ? idOrder : -idOrder;
+};
+
+/**
+ * Order jobs the way the database pages them
+ */
+export const sortJobsForPage = (
+  jobs: JobApplication[],
+  sort: JobSort
+): JobApplication[] => {
+  const keys = new Map(
+    jobs.map((job) => [
+      job.id,
+      { value: getSortValue(job, sort.column), id: job.id },
+    ])
+  );
+  return [...jobs].sort((a, b) =>
+    compareSortKeys(keys.get(a.id), keys.get(b.id), sort)
+  );
+};
+
+/**
+ * Whether a job sorts at or before a cursor, i.e. within the pages loaded so far
+ */
+export const isJobWithinCursor = (
+  job: JobApplication,
+  cursor: JobPageCursor,
+  sort: JobSort
+): boolean =>
+  compareSortKeys(
+    { value: getSortValue(job, sort.column), id: job.id },
+    {
+      value: normalizeCursorValue(cursor.value, sort.column),
+      id: cursor.id,
+    },
+    sort
+  ) <= 0;
+
+/**
+ * Whether a loaded job belongs in a list, checked in the app so edits
+ * move jobs in and out of lists without fetching them again
+ */
+export const matchesJobPageQuery = (
+  job: JobApplication,
+  query: JobPageQuery,
+  context: QueryMatchContext
+): boolean =>
+  !!job.archivedAt === !!query.archived &&
+  (!query.scope || query.scope.includes(job.status)) &&
+  (!query.statuses?.length || query.statuses.includes(job.status)) &&
+  (!query.tagIds?.length || hasAnyTag(job, query.tagIds)) &&
+  (!query.terms?.length || matchesJobQuery(job, query.terms, context));
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import { JobApplication, JobTag } from "@/data/mockJobs";
+import {
+  QueryFilterContext,
+  QueryMatchContext,
+  QuerySuggestion,
+  QueryTerm,
+  getActiveToken,
+  getJobQueryFilters,
+  getQuerySuggestions,
+  matchesJobQuery,
+  parseJobQuery,
+} from "@/utils/jobQueryUtils";
+
+const tags: JobTag[] = [
+  { id: "t1", name: "Contract", color: "#3B82F6" },
+  { id: "t2", name: "Dream company", color: "#10B981" },
+];
+
+const stages = [
+  { key: "interview", label: "Phone screen" },
+  { key: "offer", label: "Offer" },
+];
+
+const now = new Date("2026-02-01T00:00:00.000Z");
+
+const job: JobApplication = {
+  id: "job-1",
+  company: "Acme Labs",
+  position: "Frontend Engineer",
+  location: "London",
+  status: "interview",
+  appliedDate: "2026-01-10T12:00:00.000Z",
+  lastUpdated: "2026-01-20T12:00:00.000Z",
+  jobDescription: "",
+  salaryRange: { min: 80000, max: 100000, currency: "GBP", period: "annual" },
+  tagIds: ["t1"],
+};
+
+const matchContext: QueryMatchContext = {
+  getStageLabel: (status) =>
+    stages.find((stage) => stage.key === status)?.label || status,
+  getTagsForJob: (job) => tags.filter((tag) => job.tagIds?.includes(tag.id)),
+  now,
+};
+
+const filterContext: QueryFilterContext = { stages, tags, now };
+
+describe("parseJobQuery", () => {
+  it.each<[string, QueryTerm[]]>([
+    [
+      "company:stripe",
+      [{ field: "company", operator: ":", value: "stripe", negated: false }],
+    ],
+    [
+      "salary>80000",
+      [{ field: "salary", operator: ">", value: "80000", negated: false }],
+    ],
+    [
+      "applied:<30d",
+      [{ field: "applied", operator: "<", value: "30d", negated: false }],
+    ],
+    [
+      "-tag:contract",
+      [{ field: "tag", operator: ":", value: "contract", negated: true }],
+    ],
+    [
+      'company:"Acme Labs"',
+      [{ field: "company", operator: ":", value: "acme labs", negated: false }],
+    ],
+    [
+      "title:Engineer",
+      [{ field: "position", operator: ":", value: "engineer", negated: false }],
+    ],
+    [
+      "Remote -jobs",
+      [
+        { field: null, operator: ":", value: "remote", negated: false },
+        { field: null, operator: ":", value: "jobs", negated: true },
+      ],
+    ],
+    [
+      "foo:bar",
+      [{ field: null, operator: ":", value: "foo:bar", negated: false }],
+    ],
+    ["company:", []],
+    ["", []],
+  ])("parses %j", (query, expected) => {
+    expect(parseJobQuery(query)).toEqual(expected);
+  });
+});
+
+describe("matchesJobQuery", () => {
+  it.each<[string, boolean]>([
+    ["acme", true],
+    ["london engineer", true],
+    ["company:stripe", false],
+    ["-company:stripe", true],
+    ["status:interview", true],
+    ["stage:phone", true],
+    ["status:offer", false],
+    ["tag:contract", true],
+    ["-tag:contract", false],
+    ["tag:dream", false],
+    ["salary>85000", true],
+    ["salary<85000", false],
+    ["salary:95k", true],
+    ["salary:120k", false],
+    ["applied:<30d", true],
+    ["applied:>30d", false],
+    ["updated:<2026-01-25", true],
+    ["remote:true", false],
+    ["worktype:on", true],
+    ["employment:part", false],
+    ["acme -tag:dream", true],
+  ])("%j matches: %s", (query, expected) => {
+    expect(matchesJobQuery(job, parseJobQuery(query), matchContext)).toBe(
+      expected
+    );
+  });
+});
+
+describe("getJobQueryFilters", () => {
+  it.each<[string, string[]]>([
+    ["company:acme", ['company.ilike."*acme*"']],
+    ["-company:acme", ['company.not.ilike."*acme*"']],
+    ['company:"a,b"', ['company.ilike."*a,b*"']],
+    ["company:50%_off", ['company.ilike."*50\\\\%\\\\_off*"']],
+    [
+      "-location:london",
+      ['or(location.is.null,location.not.ilike."*london*")'],
+    ],
+    ["status:phone", ['status.in.("interview")']],
+    ["status:unknown", ["id.is.null"]],
+    ["-status:unknown", []],
+    ["tag:contract", ["tag_ids.ov.{t1}"]],
+    ["salary>80k", ["salary_annual.gt.80000"]],
+    ["applied:<7d", ['applied_date.gt."2026-01-25T00:00:00.000Z"']],
+    ["remote:false", ["remote.not.is.true"]],
+    ["worktype:on", ['or(work_type.is.null,work_type.ilike."on*")']],
+    [
+      "-worktype:remote",
+      ['or(work_type.is.null,work_type.not.ilike."remote*")'],
+    ],
+  ])("translates %j", (query, expected) => {
+    expect(getJobQueryFilters(parseJobQuery(query), filterContext)).toEqual(
+      expected
+    );
+  });
+});
+
+describe("getActiveToken", () => {
+  it.each<[string, number, string]>([
+    ["company:acme salary>", 3, "company:acme"],
+    ["company:acme salary>", 20, "salary>"],
+    ["company:acme ", 13, ""],
+  ])("finds the token in %j at %i", (query, caret, expected) => {
+    expect(getActiveToken(query, caret).text).toBe(expected);
+  });
+});
+
+describe("getQuerySuggestions", () => {
+  const values = {
+    companies: ["Acme Labs", "Globex"],
+    locations: [],
+    statuses: [],
+    tags: [],
+  };
+
+  it.each<[string, QuerySuggestion[]]>([
+    [
+      "comp",
+      [{ value: "company:", label: "company:", description: "Company name" }],
+    ],
+    ["-company:ac", [{ value: '-company:"Acme Labs"', label: "Acme Labs" }]],
+    [
+      "applied:<",
+      [
+        { value: "applied:<7d", label: "7d" },
+        { value: "applied:<30d", label: "30d" },
+      ],
+    ],
+    ["unknown:x", []],
+  ])("suggests for %j", (token, expected) => {
+    expect(getQuerySuggestions(token, values)).toEqual(expected);
+  });
+});
@@ -0,0 +1,644 @@
+import { JobApplication, JobTag, PipelineStage } from "@/data/mockJobs";
+import { getAnnualSalary, getSalaryRange } from "@/utils/currencyUtils";
+
+/**
+ * Fields that can be filtered on with `field:value` terms
+ */
+export type QueryField =
+  | "company"
+  | "position"
+  | "location"
+  | "status"
+  | "tag"
+  | "salary"
+  | "applied"
+  | "updated"
+  | "remote"
+  | "worktype"
+  | "employment";
+
+export type QueryOperator = ":" | ">" | "<" | ">=" | "<=";
+
+/**
+ * One term of a search query, e.g. `-tag:contract` or `salary>80000`
+ */
+export interface QueryTerm {
+  field: QueryField | null; // Null for free text
+  operator: QueryOperator;
+  value: string; // Lower-cased, without surrounding quotes
+  negated: boolean;
+}
+
+/**
+ * Describes a query field for autocomplete and help text
+ */
+export interface QueryFieldDefinition {
+  field: QueryField;
+  description: string;
+  example: string;
+}
+
+/**
+ * A completion offered while typing a query
+ */
+export interface QuerySuggestion {
+  value: string; // Replaces the token being typed
+  label: string;
+  description?: string;
+}
+
+/**
+ * Values offered as completions for fields that take free text
+ */
+export interface QueryValueSource {
+  companies: string[];
+  locations: string[];
+  statuses: string[];
+  tags: string[];
+}
+
+/**
+ * Resolves the parts of a job that live outside the job itself
+ */
+export interface QueryMatchContext {
+  getStageLabel: (status: string) => string;
+  getTagsForJob: (job: JobApplication) => JobTag[];
+  now?: Date;
+}
+
+/**
+ * Stages and tags that status and tag terms are resolved against
+ * when filtering in the database
+ */
+export interface QueryFilterContext {
+  stages: Pick<PipelineStage, "key" | "label">[];
+  tags: JobTag[];
+  now?: Date;
+}
+
+/**
+ * Text fields of a job that matches can be highlighted in
+ */
+export type HighlightField = "company" | "position" | "location";
+
+export type QueryHighlights = Record<HighlightField, string[]>;
+
+export const queryFields: QueryFieldDefinition[] = [
+  { field: "company", description: "Company name", example: "company:stripe" },
+  {
+    field: "position",
+    description: "Job title",
+    example: "position:engineer",
+  },
+  { field: "location", description: "Location", example: "location:london" },
+  {
+    field: "status",
+    description: "Pipeline stage",
+    example: "status:interview",
+  },
+  { field: "tag", description: "Tag name", example: "-tag:contract" },
+  {
+    field: "salary",
+    description: "Annual salary",
+    example: "salary>80000",
+  },
+  {
+    field: "applied",
+    description: "Applied date or age",
+    example: "applied:<30d",
+  },
+  {
+    field: "updated",
+    description: "Last updated date or age",
+    example: "updated:>2w",
+  },
+  { field: "remote", description: "Remote or hybrid", example: "remote:true" },
+  {
+    field: "worktype",
+    description: "On-site, Remote or Hybrid",
+    example: "worktype:hybrid",
+  },
+  {
+    field: "employment",
+    description: "Full-time or Part-time",
+    example: "employment:part-time",
+  },
+];
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  title: "position",
+  role: "position",
+  stage: "status",
+  tags: "tag",
+  pay: "salary",
+};
+
+// Fixed values offered for fields that don't come from the user's data
+const STATIC_VALUES: Partial<Record<QueryField, string[]>> = {
+  salary: [">50000", ">80000", ">100000", "<60000"],
+  applied: ["<7d", "<30d", ">30d", ">90d"],
+  updated: ["<7d", "<30d", ">30d"],
+  remote: ["true", "false"],
+  worktype: ["on-site", "remote", "hybrid"],
+  employment: ["full-time", "part-time"],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DURATION_UNITS: Record<string, number> = {
+  d: DAY_MS,
+  w: 7 * DAY_MS,
+  m: 30 * DAY_MS,
+  y: 365 * DAY_MS,
+};
+
+const TOKEN_PATTERN = /(?:[^\s"]+|"[^"]*"?)+/g;
+const TERM_PATTERN = /^(-)?([a-z]+)(:>=|:<=|:>|:<|>=|<=|:|>|<)(.*)$/i;
+
+const stripQuotes = (value: string) => value.replace(/"/g, "");
+
+const resolveField = (name: string): QueryField | null => {
+  const lower = name.toLowerCase();
+  if (queryFields.some((definition) => definition.field === lower)) {
+    return lower as QueryField;
+  }
+  return FIELD_ALIASES[lower] || null;
+};
+
+/**
+ * Parse a query such as `company:stripe salary>80000 -tag:contract`.
+ * Words without a known field prefix search company, position and location.
+ * Values containing spaces can be quoted: `company:"acme labs"`.
+ */
+export const parseJobQuery = (query: string): QueryTerm[] => {
+  const tokens = query.match(TOKEN_PATTERN) || [];
+
+  return tokens
+    .map((token): QueryTerm | null => {
+      const match = token.match(TERM_PATTERN);
+      const field = match ? resolveField(match[2]) : null;
+
+      if (match && field) {
+        const value = stripQuotes(match[4]).trim().toLowerCase();
+        if (!value) return null; // Still being typed, e.g. "company:"
+
+        return {
+          field,
+          operator: (match[3].replace(":", "") || ":") as QueryOperator,
+          value,
+          negated: match[1] === "-",
+        };
+      }
+
+      const negated = token.length > 1 && token.startsWith("-");
+      const value = stripQuotes(negated ? token.slice(1) : token)
+        .trim()
+        .toLowerCase();
+      if (!value) return null;
+
+      return { field: null, operator: ":", value, negated };
+    })
+    .filter((term): term is QueryTerm => term !== null);
+};
+
+/**
+ * Parse a salary such as "80000", "80k" or "1.2m"
+ */
+const parseAmount = (value: string): number | null => {
+  const match = value
+    .replace(/[,$£€\s]/g, "")
+    .match(/^(\d+(?:\.\d+)?)([km])?$/);
+  if (!match) return null;
+
+  const multiplier = match[2] === "k" ? 1000 : match[2] === "m" ? 1000000 : 1;
+  return parseFloat(match[1]) * multiplier;
+};
+
+const compareNumbers = (
+  actual: number,
+  operator: QueryOperator,
+  expected: number
+): boolean => {
+  switch (operator) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+/**
+ * Match a date against either an age (`<30d` means within the last 30 days)
+ * or a calendar date (`<2026-01-01` means before that day)
+ */
+const matchesDate = (
+  dateString: string | undefined,
+  operator: QueryOperator,
+  value: string,
+  now: Date
+): boolean => {
+  if (!dateString) return false;
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return false;
+
+  const duration = value.match(/^(\d+)([dwmy])$/);
+  if (duration) {
+    const age = now.getTime() - date.getTime();
+    const limit = parseInt(duration[1], 10) * DURATION_UNITS[duration[2]];
+    // A bare age such as "applied:30d" means "within the last 30 days"
+    return compareNumbers(age, operator === ":" ? "<=" : operator, limit);
+  }
+
+  const target = new Date(value);
+  if (isNaN(target.getTime())) return false;
+
+  if (operator === ":") {
+    return date.toDateString() === target.toDateString();
+  }
+  return compareNumbers(date.getTime(), operator, target.getTime());
+};
+
+const matchesTerm = (
+  job: JobApplication,
+  term: QueryTerm,
+  context: QueryMatchContext
+): boolean => {
+  const { value, operator } = term;
+  const includes = (text?: string) =>
+    !!text && text.toLowerCase().includes(value);
+
+  switch (term.field) {
+    case null:
+      return (
+        includes(job.company) ||
+        includes(job.position) ||
+        includes(job.location)
+      );
+    case "company":
+      return includes(job.company);
+    case "position":
+      return includes(job.position);
+    case "location":
+      return includes(job.location);
+    case "status":
+      return (
+        job.status.toLowerCase() === value ||
+        includes(context.getStageLabel(job.status))
+      );
+    case "tag":
+      return context.getTagsForJob(job).some((tag) => includes(tag.name));
+    case "salary": {
+      const amount = parseAmount(value);
+      const salary = getAnnualSalary(getSalaryRange(job));
+      if (amount === null || salary === null) return false;
+
+      if (operator === ":") {
+        // "salary:90k" matches ranges that include 90k
+        const range = getSalaryRange(job);
+        const min = range?.min ?? salary;
+        const max = range?.max ?? salary;
+        return amount >= Math.min(min, max) && amount <= Math.max(min, max);
+      }
+      return compareNumbers(salary, operator, amount);
+    }
+    case "applied":
+      return matchesDate(job.appliedDate, operator, value, context.now);
+    case "updated":
+      return matchesDate(job.lastUpdated, operator, value, context.now);
+    case "remote":
+      return ["true", "yes", "1"].includes(value) === !!job.remote;
+    case "worktype":
+      return (job.workType || "On-site").toLowerCase().startsWith(value);
+    case "employment":
+      return (job.employmentType || "Full-time")
+        .toLowerCase()
+        .startsWith(value);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Whether a job satisfies every term of a parsed query
+ */
+export const matchesJobQuery = (
+  job: JobApplication,
+  terms: QueryTerm[],
+  context: QueryMatchContext
+): boolean => {
+  const fullContext = { ...context, now: context.now || new Date() };
+  return terms.every(
+    (term) => matchesTerm(job, term, fullContext) !== term.negated
+  );
+};
+
+//=============================================================================
+// DATABASE FILTERS
+//=============================================================================
+
+// A filter no row satisfies, for terms that can't match anything
+const NO_MATCH = "id.is.null";
+
+const COMPARISON_OPERATORS: Record<QueryOperator, string> = {
+  ":": "eq",
+  ">": "gt",
+  ">=": "gte",
+  "<": "lt",
+  "<=": "lte",
+};
+
+// Comparing an age flips the comparison on the date: older means earlier
+const AGE_OPERATORS: Record<QueryOperator, string> = {
+  ":": "gte",
+  ">": "lt",
+  ">=": "lte",
+  "<": "gt",
+  "<=": "gte",
+};
+
+/**
+ * Quote a value for a PostgREST filter, so commas, brackets and dots in
+ * user input can't change the filter's meaning
+ */
+export const quoteFilterValue = (value: string | number): string =>
+  `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+const containsFilter = (column: string, value: string, negated = false) => {
+  // PostgREST reads * as the LIKE wildcard; escape the SQL wildcards
+  const pattern = `*${value.replace(/\*/g, "").replace(/[%_\\]/g, "\\$&")}*`;
+  return `${column}.${negated ? "not." : ""}ilike.${quoteFilterValue(pattern)}`;
+};
+
+/**
+ * Negate a filter. Rows where a nullable column is empty never match the
+ * positive term in the app, so they always match its negation.
+ */
+const negateFilter = (filter: string, nullableColumn?: string) => {
+  const negated = /^(and|or)\(/.test(filter)
+    ? `not.${filter}`
+    : filter.replace(/^([a-z_]+)\./, "$1.not.");
+  return nullableColumn ? `or(${nullableColumn}.is.null,${negated})` : negated;
+};
+
+/**
+ * Match a text column that the app reads as a default value when empty,
+ * e.g. work_type, which is shown as On-site when unset
+ */
+const prefixWithDefault = (
+  column: string,
+  defaultValue: string,
+  term: QueryTerm
+) => {
+  const filter = `${column}.ilike.${quoteFilterValue(`${term.value}*`)}`;
+  const matchesDefault = defaultValue.startsWith(term.value);
+
+  if (term.negated) {
+    return matchesDefault
+      ? `and(${column}.not.is.null,${negateFilter(filter)})`
+      : negateFilter(filter, column);
+  }
+  return matchesDefault ? `or(${column}.is.null,${filter})` : filter;
+};
+
+/**
+ * Filter on a date column, as an age (`<30d`) or a calendar date
+ */
+const dateFilter = (
+  column: string,
+  term: QueryTerm,
+  now: Date
+): string | null => {
+  const duration = term.value.match(/^(\d+)([dwmy])$/);
+  if (duration) {
+    const limit = parseInt(duration[1], 10) * DURATION_UNITS[duration[2]];
+    const cutoff = new Date(now.getTime() - limit).toISOString();
+    return `${column}.${AGE_OPERATORS[term.operator]}.${quoteFilterValue(
+      cutoff
+    )}`;
+  }
+
+  const target = new Date(term.value);
+  if (isNaN(target.getTime())) return null;
+
+  if (term.operator === ":") {
+    const start = new Date(target.toDateString());
+    const end = new Date(start.getTime() + DAY_MS);
+    return `and(${column}.gte.${quoteFilterValue(
+      start.toISOString()
+    )},${column}.lt.${quoteFilterValue(end.toISOString())})`;
+  }
+  return `${column}.${COMPARISON_OPERATORS[term.operator]}.${quoteFilterValue(
+    target.toISOString()
+  )}`;
+};
+
+/**
+ * Filter matching the same jobs as a term does in matchesJobQuery
+ * (undefined when the term matches every job)
+ */
+const termFilter = (
+  term: QueryTerm,
+  context: QueryFilterContext,
+  now: Date
+): string | undefined => {
+  const { value, negated } = term;
+  // Use this when nothing can match the term
+  const noMatch = negated ? undefined : NO_MATCH;
+  const withNegation = (filter: string, nullableColumn?: string) =>
+    negated ? negateFilter(filter, nullableColumn) : filter;
+
+  switch (term.field) {
+    case null:
+      return negated
+        ? `and(${containsFilter("company", value, true)},${containsFilter(
+            "position",
+            value,
+            true
+          )},${negateFilter(containsFilter("location", value), "location")})`
+        : `or(${containsFilter("company", value)},${containsFilter(
+            "position",
+            value
+          )},${containsFilter("location", value)})`;
+    case "company":
+    case "position":
+      return containsFilter(term.field, value, negated);
+    case "location":
+      return withNegation(containsFilter("location", value), "location");
+    case "status": {
+      const keys = context.stages
+        .filter(
+          (stage) =>
+            stage.key.toLowerCase() === value ||
+            stage.label.toLowerCase().includes(value)
+        )
+        .map((stage) => quoteFilterValue(stage.key));
+      if (keys.length === 0) return noMatch;
+      return withNegation(`status.in.(${keys.join(",")})`);
+    }
+    case "tag": {
+      const ids = context.tags
+        .filter((tag) => tag.name.toLowerCase().includes(value))
+        .map((tag) => tag.id);
+      if (ids.length === 0) return noMatch;
+      return withNegation(`tag_ids.ov.{${ids.join(",")}}`);
+    }
+    case "salary": {
+      const amount = parseAmount(value);
+      if (amount === null) return noMatch;
+
+      // "salary:90k" matches ranges that include 90k
+      const filter =
+        term.operator === ":"
+          ? `or(and(salary_min.lte.${amount},salary_max.gte.${amount}),and(or(salary_min.is.null,salary_max.is.null),salary_annual.eq.${amount}))`
+          : `salary_annual.${COMPARISON_OPERATORS[term.operator]}.${amount}`;
+      return withNegation(filter, "salary_annual");
+    }
+    case "applied":
+    case "updated": {
+      const column = term.field === "applied" ? "applied_date" : "last_updated";
+      const filter = dateFilter(column, term, now);
+      if (!filter) return noMatch;
+      return withNegation(filter, column);
+    }
+    case "remote": {
+      const remote = ["true", "yes", "1"].includes(value) !== negated;
+      return remote ? "remote.is.true" : "remote.not.is.true";
+    }
+    case "worktype":
+      return prefixWithDefault("work_type", "on-site", term);
+    case "employment":
+      return prefixWithDefault("employment_type", "full-time", term);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Translate parsed query terms into PostgREST filters, so a query can be
+ * applied in the database. Every filter must hold, as with matchesJobQuery.
+ *
+ * Jobs saved before salaries were stored as ranges are only matched by
+ * salary terms in the app, where their free-text salary is parsed.
+ */
+export const getJobQueryFilters = (
+  terms: QueryTerm[],
+  context: QueryFilterContext
+): string[] => {
+  const now = context.now || new Date();
+  return terms
+    .map((term) => termFilter(term, context, now))
+    .filter((filter): filter is string => filter !== undefined);
+};
+
+/**
+ * The text to highlight in each field of matching jobs
+ */
+export const getQueryHighlights = (terms: QueryTerm[]): QueryHighlights => {
+  const highlights: QueryHighlights = {
+    company: [],
+    position: [],
+    location: [],
+  };
+
+  terms
+    .filter((term) => !term.negated)
+    .forEach((term) => {
+      if (term.field === null) {
+        highlights.company.push(term.value);
+        highlights.position.push(term.value);
+        highlights.location.push(term.value);
+      } else if (term.field in highlights) {
+        highlights[term.field as HighlightField].push(term.value);
+      }
+    });
+
+  return highlights;
+};
+
+/**
+ * The whitespace-delimited token around the caret, which autocomplete replaces
+ */
+export const getActiveToken = (
+  query: string,
+  caret: number
+): { start: number; end: number; text: string } => {
+  let start = caret;
+  while (start > 0 && !/\s/.test(query[start - 1])) start--;
+  let end = caret;
+  while (end < query.length && !/\s/.test(query[end])) end++;
+
+  return { start, end, text: query.slice(start, end) };
+};
+
+const quoteIfNeeded = (value: string) =>
+  /\s/.test(value) ? `"${value}"` : value;
+
+/**
+ * Completions for the token being typed: field names until a field has been
+ * chosen, then values for that field
+ *
+ * @param token The token around the caret
+ * @param values Companies, locations, stages and tags to offer as values
+ */
+export const getQuerySuggestions = (
+  token: string,
+  values: QueryValueSource
+): QuerySuggestion[] => {
+  const negation = token.startsWith("-") ? "-" : "";
+  const body = negation ? token.slice(1) : token;
+  const match = body.match(/^([a-z]+)(:>=|:<=|:>|:<|>=|<=|:|>|<)(.*)$/i);
+
+  if (!match) {
+    const prefix = body.toLowerCase();
+    return queryFields
+      .filter((definition) => definition.field.startsWith(prefix))
+      .map((definition) => ({
+        value: `${negation}${definition.field}:`,
+        label: `${definition.field}:`,
+        description: definition.description,
+      }));
+  }
+
+  const field = resolveField(match[1]);
+  if (!field) return [];
+
+  const operator = match[2];
+  const partial = stripQuotes(match[3]).toLowerCase();
+  let options =
+    field === "company"
+      ? values.companies
+      : field === "location"
+      ? values.locations
+      : field === "status"
+      ? values.statuses
+      : field === "tag"
+      ? values.tags
+      : STATIC_VALUES[field] || [];
+
+  // Static values such as "<30d" carry their own operator, so once one has
+  // been typed only offer values that use it
+  if (operator !== ":") {
+    const typed = operator.replace(":", "");
+    options = options
+      .filter((option) => option.startsWith(typed))
+      .map((option) => option.slice(typed.length));
+  }
+
+  return Array.from(new Set(options))
+    .filter(
+      (option) =>
+        option.toLowerCase().includes(partial) &&
+        option.toLowerCase() !== partial
+    )
+    .slice(0, 8)
+    .map((option) => ({
+      value: `${negation}${match[1]}${operator}${quoteIfNeeded(option)}`,
+      label: option,
+    }));
+};
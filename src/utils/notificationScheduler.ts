@@ -156,6 +156,7 @@ class NotificationScheduler {
         .from('job_applications')
         .select('id, user_id, company, position, status')
         .eq('id', event.job_application_id)
+        .is('deleted_at', null)
         .single();
 
       if (jobError || !jobApp) {
@@ -0,0 +1,268 @@
+import { differenceInCalendarDays } from "date-fns";
+import {
+  JobOffer,
+  OfferCriterion,
+  OfferCriterionSource,
+} from "@/services/offerService";
+
+/**
+ * Units of each supported currency per US dollar. Only a starting point:
+ * users edit the rates they compare offers with.
+ */
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  GBP: 0.79,
+  EUR: 0.92,
+  CAD: 1.37,
+  AUD: 1.52,
+  INR: 83.5,
+};
+
+/**
+ * Criteria for users who haven't customised them
+ */
+export const DEFAULT_OFFER_CRITERIA: OfferCriterion[] = [
+  {
+    id: "default-compensation",
+    key: "compensation",
+    label: "Total compensation",
+    weight: 5,
+    source: "compensation",
+    position: 0,
+  },
+  {
+    id: "default-pto",
+    key: "pto",
+    label: "Time off",
+    weight: 2,
+    source: "pto",
+    position: 1,
+  },
+  {
+    id: "default-growth",
+    key: "growth",
+    label: "Growth",
+    weight: 3,
+    source: "rating",
+    position: 2,
+  },
+  {
+    id: "default-balance",
+    key: "balance",
+    label: "Work-life balance",
+    weight: 3,
+    source: "rating",
+    position: 3,
+  },
+  {
+    id: "default-team",
+    key: "team",
+    label: "Team & manager",
+    weight: 3,
+    source: "rating",
+    position: 4,
+  },
+];
+
+/**
+ * Human readable names for where a criterion's score comes from
+ */
+export const criterionSourceLabels: Record<OfferCriterionSource, string> = {
+  rating: "Your rating (1-5)",
+  compensation: "Total compensation",
+  pto: "Days of PTO",
+};
+
+// Offers with a deadline this close are highlighted
+export const DEADLINE_WARNING_DAYS = 3;
+
+/**
+ * An offer's yearly compensation in the comparison currency
+ */
+export interface OfferCompensation {
+  base: number;
+  bonus: number;
+  equityPerYear: number; // Grant value spread over the vesting period
+  benefits: number;
+  signOn: number;
+  annualTotal: number; // A typical year: everything but the sign-on bonus
+  firstYearTotal: number; // Including the sign-on bonus and any vesting cliff
+}
+
+/**
+ * How an offer scored on each criterion and overall
+ */
+export interface OfferScore {
+  jobId: string;
+  total: number | null; // 0-100, null if no criterion could be scored
+  criteria: Record<string, number | null>; // Criterion key to a 0-1 score
+  unscored: string[]; // Keys of weighted criteria missing a rating or value
+}
+
+/**
+ * Convert an amount between currencies using rates per US dollar
+ * @returns The converted amount, or null if either rate is unknown
+ */
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: Record<string, number>
+): number | null => {
+  if (from === to) return amount;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+};
+
+/**
+ * Normalise an offer to yearly amounts in one currency
+ * @returns The breakdown, or null if the offer's currency can't be converted
+ */
+export const getOfferCompensation = (
+  offer: JobOffer,
+  currency: string,
+  rates: Record<string, number>
+): OfferCompensation | null => {
+  const convert = (amount?: number) =>
+    convertAmount(amount || 0, offer.currency, currency, rates);
+
+  const base = convert(offer.baseSalary);
+  if (base === null) return null;
+
+  const bonus =
+    offer.bonusType === "percent"
+      ? (base * (offer.bonus || 0)) / 100
+      : convert(offer.bonus);
+  const equityPerYear = convert(offer.equityValue) / (offer.vestingYears || 1);
+  const benefits = convert(offer.benefitsValue);
+  const signOn = convert(offer.signOnBonus);
+
+  const annualTotal = base + bonus + equityPerYear + benefits;
+  // Nothing vests in the first year if the cliff is longer than a year
+  const firstYearEquity =
+    (offer.vestingCliffMonths || 0) > 12 ? 0 : equityPerYear;
+
+  return {
+    base,
+    bonus,
+    equityPerYear,
+    benefits,
+    signOn,
+    annualTotal,
+    firstYearTotal: base + bonus + firstYearEquity + benefits + signOn,
+  };
+};
+
+/**
+ * Score offers against the user's weighted criteria. Compensation and PTO
+ * are scored relative to the best offer, ratings from 1 (0) to 5 (1).
+ * Criteria an offer has no value for are left out of its total rather than
+ * counted as zero.
+ */
+export const scoreOffers = (
+  offers: JobOffer[],
+  criteria: OfferCriterion[],
+  currency: string,
+  rates: Record<string, number>
+): Record<string, OfferScore> => {
+  const totals = new Map(
+    offers.map((offer) => [
+      offer.jobId,
+      getOfferCompensation(offer, currency, rates)?.annualTotal,
+    ])
+  );
+  const bestTotal = Math.max(0, ...[...totals.values()].filter(Boolean));
+  const bestPto = Math.max(0, ...offers.map((offer) => offer.ptoDays || 0));
+
+  const scoreCriterion = (
+    offer: JobOffer,
+    criterion: OfferCriterion
+  ): number | null => {
+    switch (criterion.source) {
+      case "compensation": {
+        const total = totals.get(offer.jobId);
+        return total && bestTotal > 0 ? total / bestTotal : null;
+      }
+      case "pto":
+        return offer.ptoDays !== undefined && bestPto > 0
+          ? offer.ptoDays / bestPto
+          : null;
+      case "rating":
+      default: {
+        const rating = offer.ratings[criterion.key];
+        return rating ? (Math.min(Math.max(rating, 1), 5) - 1) / 4 : null;
+      }
+    }
+  };
+
+  return Object.fromEntries(
+    offers.map((offer) => {
+      const scores: Record<string, number | null> = {};
+      const unscored: string[] = [];
+      let weighted = 0;
+      let totalWeight = 0;
+
+      criteria.forEach((criterion) => {
+        const score = scoreCriterion(offer, criterion);
+        scores[criterion.key] = score;
+        if (criterion.weight <= 0) return;
+        if (score === null) {
+          unscored.push(criterion.key);
+          return;
+        }
+        weighted += score * criterion.weight;
+        totalWeight += criterion.weight;
+      });
+
+      return [
+        offer.jobId,
+        {
+          jobId: offer.jobId,
+          total:
+            totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : null,
+          criteria: scores,
+          unscored,
+        },
+      ];
+    })
+  );
+};
+
+/**
+ * Days left to answer an offer; negative once the deadline has passed
+ * @param deadline Day the offer must be answered by, as YYYY-MM-DD
+ */
+export const getDaysUntilDeadline = (
+  deadline: string,
+  now: Date = new Date()
+): number => differenceInCalendarDays(new Date(`${deadline}T00:00:00`), now);
+
+/**
+ * Describe how long is left to answer an offer, e.g. "Due in 3 days"
+ */
+export const formatDeadline = (daysLeft: number): string => {
+  if (daysLeft < 0) {
+    const overdue = -daysLeft;
+    return `Overdue by ${overdue} ${overdue === 1 ? "day" : "days"}`;
+  }
+  if (daysLeft === 0) return "Due today";
+  if (daysLeft === 1) return "Due tomorrow";
+  return `Due in ${daysLeft} days`;
+};
+
+/**
+ * Format an amount in the comparison currency, without decimals
+ */
+export const formatOfferAmount = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${Math.round(amount).toLocaleString()} ${currency}`;
+  }
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { PipelineStage, StageOutcome } from "@/data/mockJobs";
+import {
+  createStageKey,
+  findStage,
+  getStageOutcome,
+  hexToRgba,
+  sortStages,
+} from "@/utils/pipelineUtils";
+
+const stage = (
+  key: string,
+  position: number,
+  outcome: StageOutcome
+): PipelineStage => ({
+  id: key,
+  key,
+  label: key,
+  color: "#3B82F6",
+  position,
+  outcome,
+});
+
+const stages = [
+  stage("offer", 2, "offer"),
+  stage("phone_screen", 1, "interview"),
+  stage("wishlist", 0, "saved"),
+];
+
+describe("sortStages", () => {
+  it("orders stages by position", () => {
+    expect(sortStages(stages).map((s) => s.key)).toEqual([
+      "wishlist",
+      "phone_screen",
+      "offer",
+    ]);
+  });
+});
+
+describe("getStageOutcome", () => {
+  it.each<[string, StageOutcome]>([
+    ["phone_screen", "interview"],
+    ["wishlist", "saved"],
+    ["offer", "offer"],
+    // Keys of default stages the user no longer has
+    ["rejected", "rejected"],
+    ["applied", "applied"],
+    // Keys of no stage at all
+    ["ghosted", "applied"],
+  ])("resolves %j to %s", (key, expected) => {
+    expect(getStageOutcome(stages, key)).toBe(expected);
+  });
+
+  it("shows unknown keys as a stage of their own", () => {
+    expect(findStage(stages, "ghosted")).toMatchObject({
+      key: "ghosted",
+      label: "ghosted",
+    });
+  });
+});
+
+describe("createStageKey", () => {
+  it.each<[string, string[], string]>([
+    ["Phone Screen", [], "phone_screen"],
+    ["  Final round! ", [], "final_round"],
+    ["Phone screen", ["phone_screen"], "phone_screen_2"],
+    ["Phone screen", ["phone_screen", "phone_screen_2"], "phone_screen_3"],
+    ["!!!", [], "stage"],
+  ])("creates a key for %j", (label, existingKeys, expected) => {
+    const existing = existingKeys.map((key) => ({ key }));
+    expect(createStageKey(label, existing)).toBe(expected);
+  });
+});
+
+describe("hexToRgba", () => {
+  it.each<[string, number, string]>([
+    ["#3B82F6", 0.5, "rgba(59, 130, 246, 0.5)"],
+    ["#fff", 1, "rgba(255, 255, 255, 1)"],
+    ["000000", 0.1, "rgba(0, 0, 0, 0.1)"],
+  ])("converts %s", (hex, alpha, expected) => {
+    expect(hexToRgba(hex, alpha)).toBe(expected);
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  DEFAULT_PIPELINE_STAGES,
+  PipelineStage,
+  StageOutcome,
+  stageOutcomes,
+} from "@/data/mockJobs";
+
+/**
+ * Human readable names for each stage outcome
+ */
+export const outcomeLabels: Record<StageOutcome, string> = {
+  saved: "Saved",
+  applied: "Applied",
+  interview: "Interviewing",
+  offer: "Offer",
+  rejected: "Closed",
+};
+
+/**
+ * Return stages in board order
+ */
+export const sortStages = (stages: PipelineStage[]): PipelineStage[] =>
+  [...stages].sort((a, b) => a.position - b.position);
+
+/**
+ * Find the stage a status key belongs to.
+ * Unknown keys (e.g. a stage that was removed on another device) fall back
+ * to the default stage with the same key, then to a synthetic stage so the
+ * job is still rendered rather than disappearing.
+ */
+export const findStage = (
+  stages: PipelineStage[],
+  key: string
+): PipelineStage => {
+  const stage =
+    stages.find((s) => s.key === key) ||
+    DEFAULT_PIPELINE_STAGES.find((s) => s.key === key);
+  if (stage) return stage;
+
+  return {
+    id: `unknown-${key}`,
+    key,
+    label: key,
+    color: "#9CA3AF",
+    position: Number.MAX_SAFE_INTEGER,
+    outcome: stageOutcomes.includes(key as StageOutcome)
+      ? (key as StageOutcome)
+      : "applied",
+  };
+};
+
+/**
+ * Resolve the terminal outcome for a status key
+ */
+export const getStageOutcome = (
+  stages: PipelineStage[],
+  key: string
+): StageOutcome => findStage(stages, key).outcome;
+
+/**
+ * Build a stable, URL safe key for a new stage (or other user-defined item,
+ * e.g. an offer criterion) from its label, suffixed with a counter if the
+ * user already has one with that key
+ */
+export const createStageKey = (
+  label: string,
+  existing: { key: string }[]
+): string => {
+  const base =
+    label
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "stage";
+
+  let key = base;
+  let suffix = 2;
+  while (existing.some((item) => item.key === key)) {
+    key = `${base}_${suffix}`;
+    suffix++;
+  }
+  return key;
+};
+
+/**
+ * Convert a hex colour to an rgba() string, used for tinted backgrounds
+ */
+export const hexToRgba = (hex: string, alpha: number): string => {
+  const value = hex.replace("#", "");
+  const full =
+    value.length === 3
+      ? value
+          .split("")
+          .map((c) => c + c)
+          .join("")
+      : value;
+  const r = parseInt(full.slice(0, 2), 16) || 0;
+  const g = parseInt(full.slice(2, 4), 16) || 0;
+  const b = parseInt(full.slice(4, 6), 16) || 0;
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  PostingDiffLine,
+  diffPostingText,
+  hashPostingText,
+} from "@/utils/postingSnapshotUtils";
+
+const same = (text: string): PostingDiffLine => ({ type: "same", text });
+const added = (text: string): PostingDiffLine => ({ type: "added", text });
+const removed = (text: string): PostingDiffLine => ({ type: "removed", text });
+
+describe("diffPostingText", () => {
+  it.each<[string, string, string, PostingDiffLine[]]>([
+    ["two empty captures", "", "", []],
+    ["identical captures", "a\nb", "a\nb", [same("a"), same("b")]],
+    ["a removed line", "a\nb\nc", "a\nc", [same("a"), removed("b"), same("c")]],
+    ["an added line", "a\nc", "a\nb\nc", [same("a"), added("b"), same("c")]],
+    ["a changed line", "a\nb", "a\nB", [same("a"), removed("b"), added("B")]],
+    ["a first capture", "", "a", [added("a")]],
+    ["an emptied posting", "a", "", [removed("a")]],
+    [
+      "changes in several places",
+      "Engineer\nPay: 80k\nPerks",
+      "Engineer\nPay: 90k\nPerks\nRemote",
+      [
+        same("Engineer"),
+        removed("Pay: 80k"),
+        added("Pay: 90k"),
+        same("Perks"),
+        added("Remote"),
+      ],
+    ],
+  ])("compares %s", (_, before, after, expected) => {
+    expect(diffPostingText(before, after)).toEqual(expected);
+  });
+
+  it("compares captures too long to diff as entirely replaced", () => {
+    const before = Array.from({ length: 1001 }, (_, i) => `old ${i}`);
+    const after = Array.from({ length: 1001 }, (_, i) => `new ${i}`);
+
+    expect(diffPostingText(before.join("\n"), after.join("\n"))).toEqual([
+      ...before.map(removed),
+      ...after.map(added),
+    ]);
+  });
+});
+
+describe("hashPostingText", () => {
+  it.each<[string, string]>([
+    ["", "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"],
+    ["abc", "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"],
+  ])("hashes %j", async (text, expected) => {
+    expect(await hashPostingText(text)).toBe(expected);
+  });
+});
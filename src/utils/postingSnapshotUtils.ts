@@ -0,0 +1,262 @@
+import DOMPurify from "dompurify";
+
+/**
+ * Utilities for job posting snapshots: picking the posting out of a job
+ * board's page, sanitising it and comparing two captures
+ */
+
+// Tags kept in a snapshot; everything else is removed with its attributes
+const POSTING_ALLOWED_TAGS = [
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "p",
+  "br",
+  "hr",
+  "div",
+  "span",
+  "section",
+  "ul",
+  "ol",
+  "li",
+  "dl",
+  "dt",
+  "dd",
+  "b",
+  "strong",
+  "i",
+  "em",
+  "u",
+  "a",
+  "blockquote",
+  "pre",
+  "code",
+  "table",
+  "thead",
+  "tbody",
+  "tr",
+  "th",
+  "td",
+];
+
+// Page furniture dropped before looking for the posting
+const PAGE_CHROME_SELECTOR =
+  "script, style, noscript, template, iframe, svg, nav, header, footer, aside, form, button";
+
+// Elements that start a new line in the plain text
+const BLOCK_TAGS = new Set([
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "P",
+  "DIV",
+  "SECTION",
+  "UL",
+  "OL",
+  "LI",
+  "DL",
+  "DT",
+  "DD",
+  "BLOCKQUOTE",
+  "PRE",
+  "TABLE",
+  "TR",
+  "HR",
+]);
+
+// Above this many line pairs, a capture is compared as entirely replaced
+const MAX_DIFF_CELLS = 1000 * 1000;
+
+export interface ExtractedPosting {
+  html: string; // Sanitised posting HTML
+  text: string; // Plain text, one line per paragraph or list item
+}
+
+export interface PostingDiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Remove anything unsafe from posting HTML. Links open in a new tab.
+ * Snapshots are sanitised again before display, as the extension can
+ * store them too.
+ */
+export const sanitizePostingHtml = (html: string): string => {
+  const clean = DOMPurify.sanitize(html, {
+    ALLOWED_TAGS: POSTING_ALLOWED_TAGS,
+    ALLOWED_ATTR: ["href", "target", "rel"],
+  });
+
+  const doc = new DOMParser().parseFromString(clean, "text/html");
+  doc.querySelectorAll("a").forEach((link) => {
+    link.setAttribute("target", "_blank");
+    link.setAttribute("rel", "noopener noreferrer nofollow");
+  });
+  return doc.body.innerHTML;
+};
+
+/**
+ * Plain text of posting HTML, with a line for each block and list item
+ */
+export const postingHtmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+
+  doc.querySelectorAll("br").forEach((br) => br.replaceWith("\n"));
+  doc.body.querySelectorAll("*").forEach((element) => {
+    if (!BLOCK_TAGS.has(element.tagName)) return;
+    if (element.tagName === "LI") element.prepend("• ");
+    element.before("\n");
+    element.after("\n");
+  });
+
+  return (doc.body.textContent || "")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line)
+    .join("\n");
+};
+
+/**
+ * Find a schema.org JobPosting in a JSON-LD value, which may be a list or
+ * a graph of several things
+ */
+const findJobPosting = (value: unknown): Record<string, unknown> | null => {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const posting = findJobPosting(item);
+      if (posting) return posting;
+    }
+    return null;
+  }
+  if (!value || typeof value !== "object") return null;
+
+  const record = value as Record<string, unknown>;
+  const type = record["@type"];
+  if (
+    type === "JobPosting" ||
+    (Array.isArray(type) && type.includes("JobPosting"))
+  ) {
+    return record;
+  }
+  return findJobPosting(record["@graph"]);
+};
+
+/**
+ * The description from the page's JobPosting structured data, which most
+ * job boards include
+ */
+const getStructuredDescription = (doc: Document): string | null => {
+  const scripts = doc.querySelectorAll('script[type="application/ld+json"]');
+
+  for (const script of Array.from(scripts)) {
+    try {
+      const posting = findJobPosting(JSON.parse(script.textContent || ""));
+      const description = posting?.description;
+      if (typeof description !== "string" || !description.trim()) continue;
+
+      // Some boards escape the description's HTML a second time
+      if (!/<[a-z]/i.test(description) && /&lt;[a-z]/i.test(description)) {
+        return (
+          new DOMParser().parseFromString(description, "text/html").body
+            .textContent || ""
+        );
+      }
+      return description;
+    } catch {
+      // Not valid JSON; try the next script
+    }
+  }
+  return null;
+};
+
+/**
+ * Pick the job posting out of a job board's page
+ *
+ * @param pageHtml The whole page, as downloaded or sent by the extension
+ * @returns Sanitised HTML and plain text; both empty if nothing was found
+ */
+export const extractPosting = (pageHtml: string): ExtractedPosting => {
+  const doc = new DOMParser().parseFromString(pageHtml, "text/html");
+
+  let html = getStructuredDescription(doc);
+  if (!html) {
+    doc
+      .querySelectorAll(PAGE_CHROME_SELECTOR)
+      .forEach((element) => element.remove());
+    const main = doc.querySelector("main, [role='main'], article") || doc.body;
+    html = main?.innerHTML || "";
+  }
+
+  const sanitized = sanitizePostingHtml(html);
+  return { html: sanitized, text: postingHtmlToText(sanitized) };
+};
+
+/**
+ * SHA-256 of a posting's text, to spot a capture identical to an earlier one
+ */
+export const hashPostingText = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+/**
+ * Line-by-line changes between two captures of a posting
+ */
+export const diffPostingText = (
+  before: string,
+  after: string
+): PostingDiffLine[] => {
+  const oldLines = before ? before.split("\n") : [];
+  const newLines = after ? after.split("\n") : [];
+
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [
+      ...oldLines.map((text) => ({ type: "removed" as const, text })),
+      ...newLines.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // Length of the longest common subsequence of the remaining lines
+  const lengths = Array.from({ length: oldLines.length + 1 }, () =>
+    new Array<number>(newLines.length + 1).fill(0)
+  );
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldLines[i] === newLines[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: PostingDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      lines.push({ type: "same", text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "removed", text: oldLines[i++] });
+    } else {
+      lines.push({ type: "added", text: newLines[j++] });
+    }
+  }
+  oldLines.slice(i).forEach((text) => lines.push({ type: "removed", text }));
+  newLines.slice(j).forEach((text) => lines.push({ type: "added", text }));
+
+  return lines;
+};
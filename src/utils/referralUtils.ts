@@ -0,0 +1,108 @@
+import {
+  JobApplication,
+  ReferralFollowUpStatus,
+  ReferralRelationship,
+  StageOutcome,
+} from "@/data/mockJobs";
+import { getStatusHistory } from "@/utils/statusHistoryUtils";
+
+/**
+ * How often applications in a group got to an interview and to an offer
+ */
+export interface ConversionStats {
+  applications: number;
+  interviews: number; // Applications that reached an interview stage
+  offers: number;
+  interviewRate: number; // 0-1, 0 when there are no applications
+  offerRate: number;
+}
+
+/**
+ * Conversion of referred applications compared with cold ones
+ */
+export interface ReferralComparison {
+  referral: ConversionStats;
+  cold: ConversionStats;
+}
+
+/**
+ * Human readable names for how the user knows a referrer
+ */
+export const referralRelationshipLabels: Record<ReferralRelationship, string> =
+  {
+    colleague: "Colleague",
+    formerColleague: "Former colleague",
+    friend: "Friend",
+    alumni: "Alumni",
+    recruiter: "Recruiter",
+    other: "Other",
+  };
+
+/**
+ * Human readable names for each referral follow-up status
+ */
+export const referralFollowUpLabels: Record<ReferralFollowUpStatus, string> = {
+  pending: "Thank-you not sent",
+  followedUp: "Followed up",
+  thanked: "Thanked",
+};
+
+/**
+ * Outcomes every stage the job has been in, including its current one
+ */
+const getReachedOutcomes = (
+  job: JobApplication,
+  getOutcome: (key: string) => StageOutcome
+): Set<StageOutcome> =>
+  new Set([
+    getOutcome(job.status),
+    ...getStatusHistory(job).map((change) => getOutcome(change.toStatus)),
+  ]);
+
+const getConversionStats = (
+  jobs: JobApplication[],
+  getOutcome: (key: string) => StageOutcome
+): ConversionStats => {
+  let interviews = 0;
+  let offers = 0;
+  jobs.forEach((job) => {
+    const reached = getReachedOutcomes(job, getOutcome);
+    if (reached.has("offer")) {
+      offers++;
+    }
+    if (reached.has("interview") || reached.has("offer")) {
+      interviews++;
+    }
+  });
+
+  return {
+    applications: jobs.length,
+    interviews,
+    offers,
+    interviewRate: jobs.length ? interviews / jobs.length : 0,
+    offerRate: jobs.length ? offers / jobs.length : 0,
+  };
+};
+
+/**
+ * Compare how referred and cold applications convert to interviews and
+ * offers. Jobs still in a saved stage haven't been applied to and are left
+ * out; any job with a referral recorded counts as referred.
+ */
+export const getReferralComparison = (
+  jobs: JobApplication[],
+  getOutcome: (key: string) => StageOutcome
+): ReferralComparison => {
+  const applied = jobs.filter((job) => getOutcome(job.status) !== "saved");
+
+  return {
+    referral: getConversionStats(
+      applied.filter((job) => job.referral),
+      getOutcome
+    ),
+    cold: getConversionStats(
+      applied.filter((job) => !job.referral),
+      getOutcome
+    ),
+  };
+};
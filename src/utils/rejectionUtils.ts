@@ -0,0 +1,138 @@
+import {
+  JobApplication,
+  RejectedBy,
+  RejectionReason,
+  RejectionStage,
+  StageOutcome,
+} from "@/data/mockJobs";
+import { getStatusHistory } from "@/utils/statusHistoryUtils";
+
+/**
+ * How many rejections share a stage, reason or direction
+ */
+export interface RejectionCount<T extends string> {
+  key: T;
+  label: string;
+  count: number;
+}
+
+/**
+ * Patterns across the user's rejected applications
+ */
+export interface RejectionAnalysis {
+  rejected: number; // Applications currently in a rejected stage
+  recorded: number; // Of those, how many have rejection details
+  byStage: RejectionCount<RejectionStage>[]; // In pipeline order
+  byReason: RejectionCount<RejectionReason>[]; // Most common first
+  byRejectedBy: RejectionCount<RejectedBy>[];
+  topStage?: RejectionCount<RejectionStage>; // Where the company most often said no
+}
+
+/**
+ * Human readable names for how far an application got, in pipeline order
+ */
+export const rejectionStageLabels: Record<RejectionStage, string> = {
+  application: "Application review",
+  screening: "Recruiter screen",
+  technical: "Technical round",
+  onsite: "Onsite / panel",
+  final: "Final round",
+  offer: "Offer",
+};
+
+/**
+ * Human readable names for each rejection reason
+ */
+export const rejectionReasonLabels: Record<RejectionReason, string> = {
+  experience: "Not enough experience",
+  skills: "Skills gap",
+  culture: "Culture or team fit",
+  compensation: "Compensation",
+  positionFilled: "Position filled",
+  roleCancelled: "Role cancelled",
+  location: "Location",
+  timing: "Timing",
+  noResponse: "No response",
+  other: "Other",
+};
+
+/**
+ * Human readable names for who ended the application
+ */
+export const rejectedByLabels: Record<RejectedBy, string> = {
+  company: "They rejected me",
+  candidate: "I withdrew or declined",
+};
+
+/**
+ * Best guess at how far a job got, from the stages it has been in.
+ * Interview stages aren't split into rounds, so jobs that reached one
+ * return nothing and the user picks the round.
+ */
+export const guessRejectionStage = (
+  job: JobApplication,
+  getOutcome: (key: string) => StageOutcome
+): RejectionStage | undefined => {
+  const reached = new Set(
+    getStatusHistory(job).map((change) => getOutcome(change.toStatus))
+  );
+  if (reached.has("offer")) return "offer";
+  if (reached.has("interview")) return undefined;
+  return "application";
+};
+
+const countBy = <T extends string>(
+  values: T[],
+  labels: Record<T, string>
+): RejectionCount<T>[] =>
+  (Object.keys(labels) as T[])
+    .map((key) => ({
+      key,
+      label: labels[key],
+      count: values.filter((value) => value === key).length,
+    }))
+    .filter((entry) => entry.count > 0);
+
+/**
+ * Count rejected applications by the stage they reached, the reason and who
+ * ended them. Only jobs currently in a rejected stage are counted, so details
+ * left on a job that was later moved back into the pipeline are ignored.
+ */
+export const getRejectionAnalysis = (
+  jobs: JobApplication[],
+  getOutcome: (key: string) => StageOutcome
+): RejectionAnalysis => {
+  const rejectedJobs = jobs.filter(
+    (job) => getOutcome(job.status) === "rejected"
+  );
+  const rejections = rejectedJobs.map((job) => job.rejection).filter(Boolean);
+
+  const companyStages = countBy(
+    rejections
+      .filter((rejection) => rejection.rejectedBy === "company")
+      .map((rejection) => rejection.stageReached)
+      .filter(Boolean),
+    rejectionStageLabels
+  );
+
+  return {
+    rejected: rejectedJobs.length,
+    recorded: rejections.length,
+    byStage: countBy(
+      rejections.map((rejection) => rejection.stageReached).filter(Boolean),
+      rejectionStageLabels
+    ),
+    byReason: countBy(
+      rejections.map((rejection) => rejection.reason).filter(Boolean),
+      rejectionReasonLabels
+    ).sort((a, b) => b.count - a.count),
+    byRejectedBy: countBy(
+      rejections.map((rejection) => rejection.rejectedBy),
+      rejectedByLabels
+    ),
+    topStage: companyStages.reduce<RejectionCount<RejectionStage> | undefined>(
+      (top, entry) => (!top || entry.count > top.count ? entry : top),
+      undefined
+    ),
+  };
+};
@@ -0,0 +1,185 @@
+/**
+ * Tabs on the Applications page
+ */
+export type ApplicationViewMode =
+  | "all"
+  | "active"
+  | "saved"
+  | "rejected"
+  | "offers"
+  | "archived";
+
+/**
+ * Optional details a job card can show
+ */
+export type JobCardField = "tags" | "details" | "notes" | "salary";
+
+/**
+ * Search and filters applied to a job list
+ */
+export interface JobListFilters {
+  search: string; // Query, e.g. "company:stripe salary>80k"
+  statuses: string[]; // Pipeline stage keys
+  tags: string[]; // Tag IDs
+}
+
+/**
+ * Everything a saved view restores on the Applications page
+ */
+export interface ApplicationViewState extends JobListFilters {
+  viewMode: ApplicationViewMode;
+  sortBy: string;
+  fields: JobCardField[];
+}
+
+/**
+ * A named view of the Applications page
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  state: ApplicationViewState;
+  isDefault: boolean;
+  isPinned: boolean; // Shown under My Applications in the sidebar
+}
+
+export const applicationViewModes: ApplicationViewMode[] = [
+  "all",
+  "active",
+  "saved",
+  "rejected",
+  "offers",
+  "archived",
+];
+
+export const jobCardFieldLabels: Record<JobCardField, string> = {
+  tags: "Tags",
+  details: "Work and employment type",
+  notes: "Note count",
+  salary: "Salary",
+};
+
+export const jobCardFields = Object.keys(jobCardFieldLabels) as JobCardField[];
+
+export const EMPTY_JOB_LIST_FILTERS: JobListFilters = {
+  search: "",
+  statuses: [],
+  tags: [],
+};
+
+export const DEFAULT_VIEW_STATE: ApplicationViewState = {
+  ...EMPTY_JOB_LIST_FILTERS,
+  viewMode: "all",
+  sortBy: "newest",
+  fields: jobCardFields,
+};
+
+// Query parameter names, kept short so shared links stay readable
+const PARAMS = {
+  view: "view",
+  viewMode: "tab",
+  sortBy: "sort",
+  search: "q",
+  statuses: "status",
+  tags: "tag",
+  fields: "fields",
+};
+
+const splitList = (value: string | null): string[] =>
+  value ? value.split(",").filter(Boolean) : [];
+
+const isSameList = (a: string[], b: string[]) =>
+  a.length === b.length && [...a].sort().join(",") === [...b].sort().join(",");
+
+/**
+ * Fill in anything missing from a stored or shared view state,
+ * e.g. views saved before a setting existed
+ */
+export const normalizeViewState = (
+  state: Partial<ApplicationViewState> | null | undefined
+): ApplicationViewState => ({
+  viewMode: applicationViewModes.includes(state?.viewMode)
+    ? state.viewMode
+    : DEFAULT_VIEW_STATE.viewMode,
+  sortBy: state?.sortBy || DEFAULT_VIEW_STATE.sortBy,
+  search: state?.search || "",
+  statuses: Array.isArray(state?.statuses) ? state.statuses : [],
+  tags: Array.isArray(state?.tags) ? state.tags : [],
+  fields: Array.isArray(state?.fields)
+    ? state.fields.filter((field) => jobCardFields.includes(field))
+    : DEFAULT_VIEW_STATE.fields,
+});
+
+/**
+ * Encode a view state as URL query parameters.
+ * The tab is always written, so a URL that has been through this function
+ * is never mistaken for a bare visit that should open the default view.
+ *
+ * @param state The view to encode
+ * @param viewId ID of the saved view it came from, if any
+ */
+export const viewStateToSearchParams = (
+  state: ApplicationViewState,
+  viewId?: string | null
+): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (viewId) params.set(PARAMS.view, viewId);
+  params.set(PARAMS.viewMode, state.viewMode);
+  if (state.sortBy !== DEFAULT_VIEW_STATE.sortBy) {
+    params.set(PARAMS.sortBy, state.sortBy);
+  }
+  if (state.search) params.set(PARAMS.search, state.search);
+  if (state.statuses.length > 0) {
+    params.set(PARAMS.statuses, state.statuses.join(","));
+  }
+  if (state.tags.length > 0) params.set(PARAMS.tags, state.tags.join(","));
+  if (!isSameList(state.fields, DEFAULT_VIEW_STATE.fields)) {
+    params.set(PARAMS.fields, state.fields.join(","));
+  }
+  return params;
+};
+
+/**
+ * Decode a view state from URL query parameters, using defaults for
+ * anything not present
+ */
+export const viewStateFromSearchParams = (
+  params: URLSearchParams
+): ApplicationViewState =>
+  normalizeViewState({
+    viewMode: params.get(PARAMS.viewMode) as ApplicationViewMode,
+    sortBy: params.get(PARAMS.sortBy) || undefined,
+    search: params.get(PARAMS.search) || "",
+    statuses: splitList(params.get(PARAMS.statuses)),
+    tags: splitList(params.get(PARAMS.tags)),
+    fields: params.has(PARAMS.fields)
+      ? (splitList(params.get(PARAMS.fields)) as JobCardField[])
+      : undefined,
+  });
+
+/**
+ * Whether the URL already describes a view, rather than being a bare visit
+ */
+export const hasViewStateParams = (params: URLSearchParams): boolean =>
+  params.has(PARAMS.viewMode);
+
+/**
+ * ID of the saved view named in the URL, if any
+ */
+export const getViewIdFromSearchParams = (
+  params: URLSearchParams
+): string | null => params.get(PARAMS.view);
+
+/**
+ * Whether two view states would show the same thing
+ */
+export const isSameViewState = (
+  a: ApplicationViewState,
+  b: ApplicationViewState
+): boolean =>
+  a.viewMode === b.viewMode &&
+  a.sortBy === b.sortBy &&
+  a.search.trim() === b.search.trim() &&
+  isSameList(a.statuses, b.statuses) &&
+  isSameList(a.tags, b.tags) &&
+  isSameList(a.fields, b.fields);
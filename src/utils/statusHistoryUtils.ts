@@ -0,0 +1,142 @@
+import {
+  JobApplication,
+  JobStatusChange,
+  StageOutcome,
+  StatusChangeSource,
+} from "@/data/mockJobs";
+
+/**
+ * A continuous period a job spent in one status
+ */
+export interface StagePeriod {
+  status: string;
+  enteredAt: string;
+  exitedAt?: string; // Empty while the job is still in this status
+  durationMs: number;
+}
+
+/**
+ * Human readable names for each status change source
+ */
+export const statusChangeSourceLabels: Record<StatusChangeSource, string> = {
+  manual: "Manual",
+  kanban: "Kanban board",
+  email: "Email match",
+  integration: "Integration sync",
+  import: "File import",
+};
+
+/**
+ * Return a job's status history oldest first.
+ * Jobs created before history was recorded get a single synthetic entry
+ * starting at the applied (or last updated) date.
+ */
+export const getStatusHistory = (job: JobApplication): JobStatusChange[] => {
+  if (job.statusHistory && job.statusHistory.length > 0) {
+    return [...job.statusHistory].sort(
+      (a, b) =>
+        new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime()
+    );
+  }
+
+  const startedAt = job.appliedDate || job.lastUpdated;
+  if (!startedAt) return [];
+
+  return [
+    {
+      id: `initial-${job.id}`,
+      toStatus: job.status,
+      changedAt: startedAt,
+      source: "manual",
+    },
+  ];
+};
+
+/**
+ * Split a job's history into the periods it spent in each status
+ *
+ * @param job The job to analyse
+ * @param now End time for the current, still open period
+ */
+export const getStagePeriods = (
+  job: JobApplication,
+  now: Date = new Date()
+): StagePeriod[] => {
+  const history = getStatusHistory(job);
+
+  return history.map((change, index) => {
+    const next = history[index + 1];
+    const start = new Date(change.changedAt).getTime();
+    const end = next ? new Date(next.changedAt).getTime() : now.getTime();
+
+    return {
+      status: change.toStatus,
+      enteredAt: change.changedAt,
+      exitedAt: next?.changedAt,
+      durationMs: Math.max(0, end - start),
+    };
+  });
+};
+
+/**
+ * How long a job has been in its current status, in milliseconds
+ */
+export const getTimeInCurrentStage = (
+  job: JobApplication,
+  now: Date = new Date()
+): number | null => {
+  const periods = getStagePeriods(job, now);
+  const current = periods[periods.length - 1];
+  return current ? current.durationMs : null;
+};
+
+/**
+ * How long a company took to reply: the time from first entering an
+ * "applied" stage to first moving on to any later outcome.
+ * Returns null if the job was never applied to or has had no reply yet.
+ *
+ * @param job The job to analyse
+ * @param getOutcome Resolves a status key to its stage outcome
+ */
+export const getResponseTime = (
+  job: JobApplication,
+  getOutcome: (status: string) => StageOutcome
+): number | null => {
+  const history = getStatusHistory(job);
+  const appliedIndex = history.findIndex(
+    (change) => getOutcome(change.toStatus) === "applied"
+  );
+  if (appliedIndex === -1) return null;
+
+  const reply = history.slice(appliedIndex + 1).find((change) => {
+    const outcome = getOutcome(change.toStatus);
+    return outcome !== "applied" && outcome !== "saved";
+  });
+  if (!reply) return null;
+
+  return (
+    new Date(reply.changedAt).getTime() -
+    new Date(history[appliedIndex].changedAt).getTime()
+  );
+};
+
+/**
+ * Format a duration as a compact string, e.g. "3d 4h" or "45m"
+ */
+export const formatDuration = (durationMs: number): string => {
+  const minutes = Math.floor(durationMs / (1000 * 60));
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) {
+    const remainingHours = hours % 24;
+    return remainingHours > 0 ? `${days}d ${remainingHours}h` : `${days}d`;
+  }
+  if (hours > 0) {
+    const remainingMinutes = minutes % 60;
+    return remainingMinutes > 0
+      ? `${hours}h ${remainingMinutes}m`
+      : `${hours}h`;
+  }
+  return `${Math.max(minutes, 1)}m`;
+};
@@ -0,0 +1,51 @@
+import { JobApplication, JobTag } from "@/data/mockJobs";
+
+/**
+ * Colours offered for new tags, picked in turn so neighbouring tags differ
+ */
+export const TAG_COLORS = [
+  "#3B82F6",
+  "#10B981",
+  "#F59E0B",
+  "#EF4444",
+  "#8B5CF6",
+  "#EC4899",
+  "#14B8A6",
+  "#6B7280",
+];
+
+/**
+ * Return tags in alphabetical order
+ */
+export const sortTags = (tags: JobTag[]): JobTag[] =>
+  [...tags].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Find a tag by name, ignoring case and surrounding whitespace
+ */
+export const findTagByName = (
+  tags: JobTag[],
+  name: string
+): JobTag | undefined => {
+  const normalized = name.trim().toLowerCase();
+  return tags.find((tag) => tag.name.toLowerCase() === normalized);
+};
+
+/**
+ * Colour for the next tag a user creates
+ */
+export const getNextTagColor = (tags: JobTag[]): string =>
+  TAG_COLORS[tags.length % TAG_COLORS.length];
+
+/**
+ * The tags applied to a job, in display order.
+ * IDs of tags that have since been deleted are skipped.
+ */
+export const getJobTags = (job: JobApplication, tags: JobTag[]): JobTag[] =>
+  tags.filter((tag) => job.tagIds?.includes(tag.id));
+
+/**
+ * Whether a job has at least one of the given tags
+ */
+export const hasAnyTag = (job: JobApplication, tagIds: string[]): boolean =>
+  tagIds.some((id) => job.tagIds?.includes(id));
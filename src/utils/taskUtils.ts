@@ -0,0 +1,95 @@
+import { addDays, format } from "date-fns";
+import { JobTask, TaskTemplate } from "@/services/taskService";
+import { getDaysUntilDeadline } from "@/utils/offerUtils";
+
+/**
+ * Tasks added to applications entering each default stage, until the user
+ * saves their own templates
+ */
+export const DEFAULT_TASK_TEMPLATES: TaskTemplate[] = [
+  {
+    id: "default-tailor-resume",
+    key: "tailor_resume",
+    stageKey: "saved",
+    title: "Tailor your resume",
+    dueInDays: 2,
+    position: 0,
+  },
+  {
+    id: "default-cover-letter",
+    key: "cover_letter",
+    stageKey: "saved",
+    title: "Write a cover letter",
+    dueInDays: 2,
+    position: 1,
+  },
+  {
+    id: "default-interview-prep",
+    key: "interview_prep",
+    stageKey: "interview",
+    title: "Prepare for the interview",
+    dueInDays: 1,
+    position: 2,
+  },
+  {
+    id: "default-thank-you",
+    key: "thank_you_notes",
+    stageKey: "interview",
+    title: "Send thank-you notes",
+    position: 3,
+  },
+  {
+    id: "default-review-offer",
+    key: "review_offer",
+    stageKey: "offer",
+    title: "Review the offer terms",
+    dueInDays: 2,
+    position: 4,
+  },
+];
+
+/**
+ * When a task added from a template is due, as YYYY-MM-DD, or undefined if
+ * the template has no due date
+ *
+ * @param changedAt When the job moved into the template's stage
+ */
+export const getTemplateDueDate = (
+  template: Pick<TaskTemplate, "dueInDays">,
+  changedAt: string
+): string | undefined =>
+  template.dueInDays === undefined || template.dueInDays === null
+    ? undefined
+    : format(addDays(new Date(changedAt), template.dueInDays), "yyyy-MM-dd");
+
+/**
+ * Days until a task is due; negative once overdue, undefined if it has no
+ * due date
+ */
+export const getDaysUntilDue = (
+  task: JobTask,
+  now: Date = new Date()
+): number | undefined =>
+  task.dueDate ? getDaysUntilDeadline(task.dueDate, now) : undefined;
+
+/**
+ * Whether a task is still open after the day it was due
+ */
+export const isTaskOverdue = (task: JobTask, now: Date = new Date()) =>
+  !task.completedAt && (getDaysUntilDue(task, now) ?? 0) < 0;
+
+/**
+ * Open tasks first, soonest due first, then tasks with no due date, in the
+ * order they were added. Completed tasks follow, most recently done first.
+ */
+export const sortTasksByDueDate = (tasks: JobTask[]): JobTask[] =>
+  [...tasks].sort((a, b) => {
+    if (!!a.completedAt !== !!b.completedAt) return a.completedAt ? 1 : -1;
+    if (a.completedAt) return b.completedAt.localeCompare(a.completedAt);
+    if (a.dueDate !== b.dueDate) {
+      if (!a.dueDate) return 1;
+      if (!b.dueDate) return -1;
+      return a.dueDate.localeCompare(b.dueDate);
+    }
+    return a.position - b.position || a.createdAt.localeCompare(b.createdAt);
+  });
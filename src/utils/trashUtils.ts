@@ -0,0 +1,26 @@
+import { differenceInCalendarDays } from "date-fns";
+
+/**
+ * Days a deleted application stays in the trash before it is purged
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * The cut-off before which trashed applications are due to be purged
+ */
+export const getTrashPurgeCutoff = (now: Date = new Date()): Date =>
+  new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * Days left before a trashed application is permanently deleted
+ *
+ * @param deletedAt When the application was moved to the trash
+ */
+export const getDaysUntilPurge = (
+  deletedAt: string,
+  now: Date = new Date()
+): number =>
+  Math.max(
+    0,
+    TRASH_RETENTION_DAYS - differenceInCalendarDays(now, new Date(deletedAt))
+  );
@@ -0,0 +1,55 @@
+-- Extend job_application_notes so notes can be edited after creation
+ALTER TABLE public.job_application_notes
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- Create policy to allow users to update their own job application notes (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_application_notes' 
+    AND policyname = 'Users can update their own job application notes'
+  ) THEN
+    CREATE POLICY "Users can update their own job application notes" 
+      ON public.job_application_notes 
+      FOR UPDATE 
+      USING (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create index on job_application_id for faster lookups (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_application_notes' 
+    AND indexname = 'idx_job_application_notes_job_application_id'
+  ) THEN
+    CREATE INDEX idx_job_application_notes_job_application_id ON public.job_application_notes (job_application_id);
+  END IF;
+END
+$$;
+
+-- Keep updated_at current on edits
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = CURRENT_TIMESTAMP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_job_application_notes_updated_at ON public.job_application_notes;
+CREATE TRIGGER update_job_application_notes_updated_at
+BEFORE UPDATE ON public.job_application_notes
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comment
+COMMENT ON TABLE public.job_application_notes IS 'Stores timestamped notes attached to job applications';
@@ -0,0 +1,47 @@
+-- Track when each recruiter or hiring manager was last contacted
+ALTER TABLE public.job_application_contacts
+  ADD COLUMN IF NOT EXISTS last_contacted_at TIMESTAMPTZ;
+
+-- Create index on job_application_id for faster lookups (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_application_contacts' 
+    AND indexname = 'idx_job_application_contacts_job_application_id'
+  ) THEN
+    CREATE INDEX idx_job_application_contacts_job_application_id ON public.job_application_contacts (job_application_id);
+  END IF;
+END
+$$;
+
+-- Create index on lower-cased email so contacts can be de-duplicated across applications (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_application_contacts' 
+    AND indexname = 'idx_job_application_contacts_email'
+  ) THEN
+    CREATE INDEX idx_job_application_contacts_email ON public.job_application_contacts (lower(email));
+  END IF;
+END
+$$;
+
+-- Keep updated_at current on edits
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = CURRENT_TIMESTAMP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_job_application_contacts_updated_at ON public.job_application_contacts;
+CREATE TRIGGER update_job_application_contacts_updated_at
+BEFORE UPDATE ON public.job_application_contacts
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comment
+COMMENT ON TABLE public.job_application_contacts IS 'Stores recruiters and hiring managers linked to job applications';
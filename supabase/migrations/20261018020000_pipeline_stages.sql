@@ -0,0 +1,117 @@
+-- Create pipeline_stages table so each user can define their own board columns
+CREATE TABLE IF NOT EXISTS public.pipeline_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#6B7280',
+  position INTEGER NOT NULL DEFAULT 0,
+  outcome TEXT NOT NULL CHECK (outcome IN ('saved', 'applied', 'interview', 'offer', 'rejected')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, key)
+);
+
+-- Add RLS policies
+ALTER TABLE public.pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own stages (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'pipeline_stages' 
+    AND policyname = 'Users can view their own pipeline stages'
+  ) THEN
+    CREATE POLICY "Users can view their own pipeline stages" 
+      ON public.pipeline_stages 
+      FOR SELECT 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own stages (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'pipeline_stages' 
+    AND policyname = 'Users can insert their own pipeline stages'
+  ) THEN
+    CREATE POLICY "Users can insert their own pipeline stages" 
+      ON public.pipeline_stages 
+      FOR INSERT 
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own stages (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'pipeline_stages' 
+    AND policyname = 'Users can update their own pipeline stages'
+  ) THEN
+    CREATE POLICY "Users can update their own pipeline stages" 
+      ON public.pipeline_stages 
+      FOR UPDATE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own stages (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'pipeline_stages' 
+    AND policyname = 'Users can delete their own pipeline stages'
+  ) THEN
+    CREATE POLICY "Users can delete their own pipeline stages" 
+      ON public.pipeline_stages 
+      FOR DELETE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create index on user_id for faster lookups (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'pipeline_stages' 
+    AND indexname = 'idx_pipeline_stages_user_id'
+  ) THEN
+    CREATE INDEX idx_pipeline_stages_user_id ON public.pipeline_stages (user_id, position);
+  END IF;
+END
+$$;
+
+-- Keep updated_at current on edits
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = CURRENT_TIMESTAMP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_pipeline_stages_updated_at ON public.pipeline_stages;
+CREATE TRIGGER update_pipeline_stages_updated_at
+BEFORE UPDATE ON public.pipeline_stages
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Job statuses now hold a stage key rather than one of five fixed values.
+-- Existing values (saved, applied, interview, offer, rejected) are the keys of
+-- the default stage set, so no data needs to be rewritten.
+ALTER TABLE public.job_applications
+  DROP CONSTRAINT IF EXISTS job_applications_status_check;
+
+-- Add comment
+COMMENT ON TABLE public.pipeline_stages IS 'Stores each user''s custom pipeline stages and the outcome each one maps to';
@@ -0,0 +1,79 @@
+-- Create job_status_history table to record every status transition of an application
+CREATE TABLE IF NOT EXISTS public.job_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'kanban', 'email', 'integration')),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add RLS policies
+ALTER TABLE public.job_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own status history (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_status_history' 
+    AND policyname = 'Users can view their own status history'
+  ) THEN
+    CREATE POLICY "Users can view their own status history" 
+      ON public.job_status_history 
+      FOR SELECT 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own status history (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_status_history' 
+    AND policyname = 'Users can insert their own status history'
+  ) THEN
+    CREATE POLICY "Users can insert their own status history" 
+      ON public.job_status_history 
+      FOR INSERT 
+      WITH CHECK (
+        auth.uid() = user_id AND
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- History is append-only, so no update or delete policies are created
+
+-- Create index on job_application_id for faster lookups (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_status_history' 
+    AND indexname = 'idx_job_status_history_job_application_id'
+  ) THEN
+    CREATE INDEX idx_job_status_history_job_application_id ON public.job_status_history (job_application_id, changed_at);
+  END IF;
+END
+$$;
+
+-- Seed one entry per existing application with its current status, so every job has a starting point for time-in-stage
+INSERT INTO public.job_status_history (job_application_id, user_id, from_status, to_status, source, changed_at)
+SELECT ja.id, ja.user_id, NULL, ja.status, 'manual', COALESCE(ja.last_updated, ja.created_at, now())
+FROM public.job_applications ja
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.job_status_history h
+  WHERE h.job_application_id = ja.id
+);
+
+-- Add comment
+COMMENT ON TABLE public.job_status_history IS 'Stores every status transition of a job application and what triggered it';
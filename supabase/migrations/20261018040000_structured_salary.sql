@@ -0,0 +1,39 @@
+-- Store salary as a structured range alongside the original free-text value.
+-- The text column is kept as entered; the app parses it into these columns
+-- for existing rows once per user when it next loads, and reads the parsed
+-- value in the meantime.
+ALTER TABLE public.job_applications
+  ADD COLUMN IF NOT EXISTS salary_min NUMERIC,
+  ADD COLUMN IF NOT EXISTS salary_max NUMERIC,
+  ADD COLUMN IF NOT EXISTS salary_currency TEXT,
+  ADD COLUMN IF NOT EXISTS salary_period TEXT;
+
+-- Restrict pay periods to the values the app understands (if the constraint doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint 
+    WHERE conname = 'job_applications_salary_period_check'
+  ) THEN
+    ALTER TABLE public.job_applications
+      ADD CONSTRAINT job_applications_salary_period_check
+      CHECK (salary_period IN ('annual', 'monthly', 'daily', 'hourly'));
+  END IF;
+END
+$$;
+
+-- Create index to sort and filter by pay (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_applications' 
+    AND indexname = 'idx_job_applications_salary'
+  ) THEN
+    CREATE INDEX idx_job_applications_salary ON public.job_applications (user_id, salary_period, salary_max);
+  END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.job_applications.salary IS 'Salary as originally entered or imported';
+COMMENT ON COLUMN public.job_applications.salary_currency IS 'ISO 4217 currency code of salary_min and salary_max';
@@ -0,0 +1,58 @@
+-- Soft deletion for job applications. Deleted applications keep their events,
+-- notes and contacts until they are purged from the trash.
+ALTER TABLE public.job_applications
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Create index to list active and trashed applications separately (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_applications' 
+    AND indexname = 'idx_job_applications_deleted_at'
+  ) THEN
+    CREATE INDEX idx_job_applications_deleted_at ON public.job_applications (user_id, deleted_at);
+  END IF;
+END
+$$;
+
+-- Permanently remove applications that have been in the trash for more than
+-- 30 days (TRASH_RETENTION_DAYS in the app), across all users.
+-- Related rows are removed by their ON DELETE CASCADE foreign keys.
+-- An earlier version took the retention period as a parameter; drop it so
+-- callers can't choose their own.
+DROP FUNCTION IF EXISTS public.purge_deleted_job_applications(INTERVAL);
+
+CREATE OR REPLACE FUNCTION public.purge_deleted_job_applications()
+RETURNS INTEGER AS $$
+DECLARE
+  purged_count INTEGER;
+BEGIN
+  DELETE FROM public.job_applications
+  WHERE deleted_at IS NOT NULL
+  AND deleted_at < now() - INTERVAL '30 days';
+
+  GET DIAGNOSTICS purged_count = ROW_COUNT;
+  RETURN purged_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The function bypasses row level security, so only the cron job (running
+-- as the database owner) may call it, never API clients
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_job_applications() FROM PUBLIC, anon, authenticated;
+
+-- Purge daily where pg_cron is available. The app also purges a user's own
+-- expired applications whenever they open the trash.
+DO $$ 
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'purge-deleted-job-applications',
+      '0 3 * * *',
+      'SELECT public.purge_deleted_job_applications()'
+    );
+  END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.job_applications.deleted_at IS 'When the application was moved to the trash; NULL for active applications';
@@ -0,0 +1,23 @@
+-- Publish changes to job applications, their events and notifications over
+-- Supabase realtime so open tabs and devices stay in sync.
+-- Realtime applies the tables' row level security policies to each subscriber.
+DO $$ 
+DECLARE
+  table_name TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH table_name IN ARRAY ARRAY['job_applications', 'job_events', 'notifications'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables 
+      WHERE pubname = 'supabase_realtime' 
+      AND schemaname = 'public' 
+      AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END
+$$;
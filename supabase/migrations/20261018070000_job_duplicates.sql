@@ -0,0 +1,85 @@
+-- Posting details used to spot duplicate applications. Imports have always
+-- written these columns; manual and extension entries now can too.
+ALTER TABLE public.job_applications
+  ADD COLUMN IF NOT EXISTS external_id TEXT,
+  ADD COLUMN IF NOT EXISTS external_url TEXT,
+  ADD COLUMN IF NOT EXISTS external_platform TEXT;
+
+-- Create index to look up applications by posting ID (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_applications' 
+    AND indexname = 'idx_job_applications_external_id'
+  ) THEN
+    CREATE INDEX idx_job_applications_external_id ON public.job_applications (user_id, external_id);
+  END IF;
+END
+$$;
+
+-- Create job_duplicate_dismissals table to remember pairs the user marked as not duplicates
+CREATE TABLE IF NOT EXISTS public.job_duplicate_dismissals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  job_application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  other_job_application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Pairs are stored with the lower ID first so each pair has one row
+  CHECK (job_application_id < other_job_application_id),
+  UNIQUE (user_id, job_application_id, other_job_application_id)
+);
+
+-- Add RLS policies
+ALTER TABLE public.job_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own dismissals (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_duplicate_dismissals' 
+    AND policyname = 'Users can view their own duplicate dismissals'
+  ) THEN
+    CREATE POLICY "Users can view their own duplicate dismissals" 
+      ON public.job_duplicate_dismissals 
+      FOR SELECT 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own dismissals (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_duplicate_dismissals' 
+    AND policyname = 'Users can insert their own duplicate dismissals'
+  ) THEN
+    CREATE POLICY "Users can insert their own duplicate dismissals" 
+      ON public.job_duplicate_dismissals 
+      FOR INSERT 
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own dismissals (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_duplicate_dismissals' 
+    AND policyname = 'Users can delete their own duplicate dismissals'
+  ) THEN
+    CREATE POLICY "Users can delete their own duplicate dismissals" 
+      ON public.job_duplicate_dismissals 
+      FOR DELETE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Add comment
+COMMENT ON TABLE public.job_duplicate_dismissals IS 'Pairs of job applications the user has confirmed are not duplicates';
@@ -0,0 +1,134 @@
+-- Create job_tags table for user-defined labels such as "dream company" or "referral"
+CREATE TABLE IF NOT EXISTS public.job_tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#6B7280',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- Tags applied to each application, as IDs from job_tags
+ALTER TABLE public.job_applications
+  ADD COLUMN IF NOT EXISTS tag_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Add RLS policies
+ALTER TABLE public.job_tags ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own tags (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_tags' 
+    AND policyname = 'Users can view their own job tags'
+  ) THEN
+    CREATE POLICY "Users can view their own job tags" 
+      ON public.job_tags 
+      FOR SELECT 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own tags (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_tags' 
+    AND policyname = 'Users can insert their own job tags'
+  ) THEN
+    CREATE POLICY "Users can insert their own job tags" 
+      ON public.job_tags 
+      FOR INSERT 
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own tags (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_tags' 
+    AND policyname = 'Users can update their own job tags'
+  ) THEN
+    CREATE POLICY "Users can update their own job tags" 
+      ON public.job_tags 
+      FOR UPDATE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own tags (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_tags' 
+    AND policyname = 'Users can delete their own job tags'
+  ) THEN
+    CREATE POLICY "Users can delete their own job tags" 
+      ON public.job_tags 
+      FOR DELETE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create index on user_id for faster lookups (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_tags' 
+    AND indexname = 'idx_job_tags_user_id'
+  ) THEN
+    CREATE INDEX idx_job_tags_user_id ON public.job_tags (user_id);
+  END IF;
+END
+$$;
+
+-- Create index for filtering applications by tag (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_applications' 
+    AND indexname = 'idx_job_applications_tag_ids'
+  ) THEN
+    CREATE INDEX idx_job_applications_tag_ids ON public.job_applications USING GIN (tag_ids);
+  END IF;
+END
+$$;
+
+DROP TRIGGER IF EXISTS update_job_tags_updated_at ON public.job_tags;
+CREATE TRIGGER update_job_tags_updated_at
+BEFORE UPDATE ON public.job_tags
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Remove a deleted tag from every application it was applied to
+CREATE OR REPLACE FUNCTION public.remove_deleted_job_tag()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.job_applications
+  SET tag_ids = array_remove(tag_ids, OLD.id)
+  WHERE user_id = OLD.user_id
+    AND OLD.id = ANY (tag_ids);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS remove_deleted_job_tag ON public.job_tags;
+CREATE TRIGGER remove_deleted_job_tag
+AFTER DELETE ON public.job_tags
+FOR EACH ROW
+EXECUTE FUNCTION public.remove_deleted_job_tag();
+
+-- Add comment
+COMMENT ON TABLE public.job_tags IS 'Stores each user''s coloured tags for grouping job applications';
@@ -0,0 +1,114 @@
+-- Create saved_views table for named filter, sort and layout presets on the Applications page
+CREATE TABLE IF NOT EXISTS public.saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  view_state JSONB NOT NULL DEFAULT '{}'::jsonb, -- Tab, sort, filters and visible card fields
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  is_pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- Add RLS policies
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own saved views (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'saved_views' 
+    AND policyname = 'Users can view their own saved views'
+  ) THEN
+    CREATE POLICY "Users can view their own saved views" 
+      ON public.saved_views 
+      FOR SELECT 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own saved views (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'saved_views' 
+    AND policyname = 'Users can insert their own saved views'
+  ) THEN
+    CREATE POLICY "Users can insert their own saved views" 
+      ON public.saved_views 
+      FOR INSERT 
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own saved views (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'saved_views' 
+    AND policyname = 'Users can update their own saved views'
+  ) THEN
+    CREATE POLICY "Users can update their own saved views" 
+      ON public.saved_views 
+      FOR UPDATE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own saved views (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'saved_views' 
+    AND policyname = 'Users can delete their own saved views'
+  ) THEN
+    CREATE POLICY "Users can delete their own saved views" 
+      ON public.saved_views 
+      FOR DELETE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create index on user_id for faster lookups (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'saved_views' 
+    AND indexname = 'idx_saved_views_user_id'
+  ) THEN
+    CREATE INDEX idx_saved_views_user_id ON public.saved_views (user_id);
+  END IF;
+END
+$$;
+
+-- A user can have at most one default view (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'saved_views' 
+    AND indexname = 'idx_saved_views_one_default'
+  ) THEN
+    CREATE UNIQUE INDEX idx_saved_views_one_default ON public.saved_views (user_id) WHERE is_default;
+  END IF;
+END
+$$;
+
+DROP TRIGGER IF EXISTS update_saved_views_updated_at ON public.saved_views;
+CREATE TRIGGER update_saved_views_updated_at
+BEFORE UPDATE ON public.saved_views
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comment
+COMMENT ON TABLE public.saved_views IS 'Stores each user''s named views of the Applications page';
@@ -0,0 +1,92 @@
+-- Columns and indexes for paging through job applications in the database.
+-- Lists are paged with a cursor on (sort column, id), so each sort order
+-- needs a stored column it can be ordered and compared on.
+
+-- The date lists are sorted by: when the job was applied to, or when it was
+-- last updated for jobs not applied to yet
+ALTER TABLE public.job_applications
+  ADD COLUMN IF NOT EXISTS sort_date TIMESTAMPTZ
+  GENERATED ALWAYS AS (COALESCE(applied_date, last_updated)) STORED;
+
+-- Annualised midpoint of the salary range, matching getAnnualSalary in the app,
+-- so hourly, daily, monthly and yearly pay can be sorted and compared together
+ALTER TABLE public.job_applications
+  ADD COLUMN IF NOT EXISTS salary_annual NUMERIC
+  GENERATED ALWAYS AS (
+    COALESCE((salary_min + salary_max) / 2, salary_min, salary_max) *
+    CASE salary_period
+      WHEN 'monthly' THEN 12
+      WHEN 'daily' THEN 260
+      WHEN 'hourly' THEN 2080
+      ELSE 1
+    END
+  ) STORED;
+
+-- Create an index for each sort order of the active applications (if they don't exist)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'job_applications'
+    AND indexname = 'idx_job_applications_page_sort_date'
+  ) THEN
+    CREATE INDEX idx_job_applications_page_sort_date
+      ON public.job_applications (user_id, sort_date, id)
+      WHERE deleted_at IS NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'job_applications'
+    AND indexname = 'idx_job_applications_page_last_updated'
+  ) THEN
+    CREATE INDEX idx_job_applications_page_last_updated
+      ON public.job_applications (user_id, last_updated, id)
+      WHERE deleted_at IS NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'job_applications'
+    AND indexname = 'idx_job_applications_page_company'
+  ) THEN
+    CREATE INDEX idx_job_applications_page_company
+      ON public.job_applications (user_id, company, id)
+      WHERE deleted_at IS NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'job_applications'
+    AND indexname = 'idx_job_applications_page_position'
+  ) THEN
+    CREATE INDEX idx_job_applications_page_position
+      ON public.job_applications (user_id, position, id)
+      WHERE deleted_at IS NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'job_applications'
+    AND indexname = 'idx_job_applications_page_salary'
+  ) THEN
+    CREATE INDEX idx_job_applications_page_salary
+      ON public.job_applications (user_id, salary_annual, id)
+      WHERE deleted_at IS NULL;
+  END IF;
+
+  -- Kanban columns page through one status at a time
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'job_applications'
+    AND indexname = 'idx_job_applications_page_status'
+  ) THEN
+    CREATE INDEX idx_job_applications_page_status
+      ON public.job_applications (user_id, status, last_updated, id)
+      WHERE deleted_at IS NULL;
+  END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.job_applications.sort_date IS 'Applied date, or last updated for jobs not applied to yet; used to sort and page lists';
+COMMENT ON COLUMN public.job_applications.salary_annual IS 'Annualised midpoint of salary_min and salary_max; used to sort, page and filter by salary';
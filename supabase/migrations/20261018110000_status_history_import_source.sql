@@ -0,0 +1,8 @@
+-- Allow 'import' as a status history source, for applications imported from
+-- a CSV or TSV file
+ALTER TABLE public.job_status_history
+  DROP CONSTRAINT IF EXISTS job_status_history_source_check;
+
+ALTER TABLE public.job_status_history
+  ADD CONSTRAINT job_status_history_source_check
+  CHECK (source IN ('manual', 'kanban', 'email', 'integration', 'import'));
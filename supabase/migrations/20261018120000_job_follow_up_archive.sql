@@ -0,0 +1,29 @@
+-- Follow-up dates and archiving for job applications, both set from the
+-- bulk actions on the Applications page and the kanban board
+
+-- The day to follow up on the application, e.g. chase the recruiter
+ALTER TABLE public.job_applications
+  ADD COLUMN IF NOT EXISTS follow_up_date DATE;
+
+-- Set while the application is archived. Archived applications are kept,
+-- unlike trashed ones, but left out of the lists and the board.
+ALTER TABLE public.job_applications
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- Create an index for finding follow-ups that are due (if it doesn't exist)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'job_applications'
+    AND indexname = 'idx_job_applications_follow_up_date'
+  ) THEN
+    CREATE INDEX idx_job_applications_follow_up_date
+      ON public.job_applications (user_id, follow_up_date)
+      WHERE follow_up_date IS NOT NULL AND deleted_at IS NULL;
+  END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.job_applications.follow_up_date IS 'Day to follow up on the application';
+COMMENT ON COLUMN public.job_applications.archived_at IS 'When the application was archived; archived applications are hidden from lists but not deleted';
@@ -0,0 +1,51 @@
+-- Follow-up reminders: the notification scheduler reminds users about
+-- applications left in an "applied" stage with no update, and interviews
+-- that have no outcome yet
+
+-- Rules for follow-up reminders, read by the notification scheduler
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS stale_application_reminders BOOLEAN DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS stale_application_days INTEGER DEFAULT 14 CHECK (stale_application_days > 0),
+  ADD COLUMN IF NOT EXISTS interview_outcome_reminders BOOLEAN DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS interview_outcome_days INTEGER DEFAULT 7 CHECK (interview_outcome_days > 0),
+  ADD COLUMN IF NOT EXISTS follow_up_emails BOOLEAN DEFAULT TRUE;
+
+-- Allow 'followUp' notifications
+ALTER TABLE public.notifications
+  DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('interview', 'application', 'jobMatch', 'followUp'));
+
+-- The application a reminder is about
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS job_application_id UUID REFERENCES public.job_applications(id) ON DELETE CASCADE;
+
+-- Identifies what a reminder is for, e.g. one interview of one application,
+-- so the scheduler sends each reminder once
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS reminder_key TEXT;
+
+-- Set while the user has snoozed the notification. The scheduler marks it
+-- unread again, and emails it again, once the snooze is over.
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMP WITH TIME ZONE;
+
+-- Create an index for finding a user's reminder by key (if it doesn't exist)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'notifications'
+    AND indexname = 'idx_notifications_reminder_key'
+  ) THEN
+    CREATE UNIQUE INDEX idx_notifications_reminder_key
+      ON public.notifications (user_id, reminder_key)
+      WHERE reminder_key IS NOT NULL;
+  END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.notifications.reminder_key IS 'Rule, application and what the reminder is about, e.g. the interview; one reminder per key';
+COMMENT ON COLUMN public.notifications.snoozed_until IS 'The notification is hidden until then';
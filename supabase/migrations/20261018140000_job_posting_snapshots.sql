@@ -0,0 +1,89 @@
+-- Create job_posting_snapshots table: copies of job postings taken when a
+-- job is saved with a URL, so the posting can still be read after it is
+-- taken down
+CREATE TABLE IF NOT EXISTS public.job_posting_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  html TEXT NOT NULL, -- Sanitised posting HTML
+  text TEXT NOT NULL, -- Plain text of the posting, for comparing captures
+  content_hash TEXT NOT NULL, -- SHA-256 of the text
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- A capture identical to an earlier one is not stored again
+  UNIQUE (job_application_id, content_hash)
+);
+
+-- Add RLS policies
+ALTER TABLE public.job_posting_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own posting snapshots (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_posting_snapshots' 
+    AND policyname = 'Users can view their own posting snapshots'
+  ) THEN
+    CREATE POLICY "Users can view their own posting snapshots" 
+      ON public.job_posting_snapshots 
+      FOR SELECT 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own posting snapshots (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_posting_snapshots' 
+    AND policyname = 'Users can insert their own posting snapshots'
+  ) THEN
+    CREATE POLICY "Users can insert their own posting snapshots" 
+      ON public.job_posting_snapshots 
+      FOR INSERT 
+      WITH CHECK (
+        auth.uid() = user_id AND
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own posting snapshots (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_posting_snapshots' 
+    AND policyname = 'Users can delete their own posting snapshots'
+  ) THEN
+    CREATE POLICY "Users can delete their own posting snapshots" 
+      ON public.job_posting_snapshots 
+      FOR DELETE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create index for listing a job's snapshots, newest first (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_posting_snapshots' 
+    AND indexname = 'idx_job_posting_snapshots_job_application_id'
+  ) THEN
+    CREATE INDEX idx_job_posting_snapshots_job_application_id ON public.job_posting_snapshots (job_application_id, captured_at DESC);
+  END IF;
+END
+$$;
+
+-- Add comment
+COMMENT ON TABLE public.job_posting_snapshots IS 'Read-only copies of job postings, captured when a job is saved and when re-captured';
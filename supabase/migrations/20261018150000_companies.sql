@@ -0,0 +1,194 @@
+-- Create companies table: one record per company a user applies to, so
+-- applications, contacts, emails and interviews can be seen together
+CREATE TABLE IF NOT EXISTS public.companies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL DEFAULT '{}', -- Other names applications use, e.g. "Alphabet" for Google
+  domain TEXT, -- e.g. acme.com
+  website TEXT,
+  logo_url TEXT,
+  size TEXT, -- Headcount band, e.g. 51-200
+  industry TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- The company each application is for
+ALTER TABLE public.job_applications
+  ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL;
+
+-- Add RLS policies
+ALTER TABLE public.companies ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own companies (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'companies'
+    AND policyname = 'Users can view their own companies'
+  ) THEN
+    CREATE POLICY "Users can view their own companies"
+      ON public.companies
+      FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own companies (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'companies'
+    AND policyname = 'Users can insert their own companies'
+  ) THEN
+    CREATE POLICY "Users can insert their own companies"
+      ON public.companies
+      FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own companies (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'companies'
+    AND policyname = 'Users can update their own companies'
+  ) THEN
+    CREATE POLICY "Users can update their own companies"
+      ON public.companies
+      FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own companies (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'companies'
+    AND policyname = 'Users can delete their own companies'
+  ) THEN
+    CREATE POLICY "Users can delete their own companies"
+      ON public.companies
+      FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create unique index so each user has one company per name, ignoring case (if it doesn't exist)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'companies'
+    AND indexname = 'idx_companies_user_name'
+  ) THEN
+    CREATE UNIQUE INDEX idx_companies_user_name ON public.companies (user_id, lower(name));
+  END IF;
+END
+$$;
+
+-- Create index for listing a company's applications (if it doesn't exist)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'job_applications'
+    AND indexname = 'idx_job_applications_company_id'
+  ) THEN
+    CREATE INDEX idx_job_applications_company_id ON public.job_applications (company_id);
+  END IF;
+END
+$$;
+
+DROP TRIGGER IF EXISTS update_companies_updated_at ON public.companies;
+CREATE TRIGGER update_companies_updated_at
+BEFORE UPDATE ON public.companies
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Link an application to the company it names, by name or alias, adding
+-- the company if it is new. Runs for every insert, so applications from
+-- the extension, integrations and imports are linked too. Renaming an
+-- application's company relinks it unless company_id is changed as well.
+CREATE OR REPLACE FUNCTION public.link_job_application_company()
+RETURNS TRIGGER AS $$
+DECLARE
+  company_name TEXT := btrim(NEW.company);
+BEGIN
+  IF NEW.company_id IS NOT NULL AND NOT (
+    TG_OP = 'UPDATE'
+    AND NEW.company IS DISTINCT FROM OLD.company
+    AND NEW.company_id IS NOT DISTINCT FROM OLD.company_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF company_name = '' THEN
+    NEW.company_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO NEW.company_id
+  FROM public.companies
+  WHERE user_id = NEW.user_id
+    AND (
+      lower(name) = lower(company_name)
+      OR EXISTS (
+        SELECT 1 FROM unnest(aliases) AS alias
+        WHERE lower(alias) = lower(company_name)
+      )
+    )
+  ORDER BY lower(name) = lower(company_name) DESC
+  LIMIT 1;
+
+  IF NEW.company_id IS NULL THEN
+    INSERT INTO public.companies (user_id, name, website, domain)
+    VALUES (
+      NEW.user_id,
+      company_name,
+      NEW.company_website,
+      NULLIF(
+        lower(regexp_replace(NEW.company_website, '^(https?://)?(www\.)?([^/:?#]+).*$', '\3')),
+        ''
+      )
+    )
+    ON CONFLICT (user_id, lower(name)) DO NOTHING
+    RETURNING id INTO NEW.company_id;
+
+    -- Added by another application at the same time
+    IF NEW.company_id IS NULL THEN
+      SELECT id INTO NEW.company_id
+      FROM public.companies
+      WHERE user_id = NEW.user_id AND lower(name) = lower(company_name);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS link_job_application_company ON public.job_applications;
+CREATE TRIGGER link_job_application_company
+BEFORE INSERT OR UPDATE OF company, company_id ON public.job_applications
+FOR EACH ROW
+EXECUTE FUNCTION public.link_job_application_company();
+
+-- Link existing applications, adding a company for each name in use
+UPDATE public.job_applications
+SET company = company
+WHERE company_id IS NULL;
+
+-- Add comment
+COMMENT ON TABLE public.companies IS 'Stores the companies each user applies to, with the names their applications use';
@@ -0,0 +1,112 @@
+-- Create job_referrals table: who referred the user for an application,
+-- linked to that person's contact on the application. An application has
+-- at most one referral.
+CREATE TABLE IF NOT EXISTS public.job_referrals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_application_id UUID NOT NULL UNIQUE REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.job_application_contacts(id) ON DELETE SET NULL,
+  referrer_name TEXT NOT NULL, -- Kept so the referral still shows who it was if the contact is removed
+  relationship TEXT CHECK (relationship IN ('colleague', 'formerColleague', 'friend', 'alumni', 'recruiter', 'other')),
+  requested_date DATE,
+  submitted_date DATE,
+  follow_up_status TEXT NOT NULL DEFAULT 'pending' CHECK (follow_up_status IN ('pending', 'followedUp', 'thanked')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add RLS policies
+ALTER TABLE public.job_referrals ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own referrals (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_referrals' 
+    AND policyname = 'Users can view their own referrals'
+  ) THEN
+    CREATE POLICY "Users can view their own referrals" 
+      ON public.job_referrals 
+      FOR SELECT 
+      USING (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own referrals (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_referrals' 
+    AND policyname = 'Users can insert their own referrals'
+  ) THEN
+    CREATE POLICY "Users can insert their own referrals" 
+      ON public.job_referrals 
+      FOR INSERT 
+      WITH CHECK (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own referrals (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_referrals' 
+    AND policyname = 'Users can update their own referrals'
+  ) THEN
+    CREATE POLICY "Users can update their own referrals" 
+      ON public.job_referrals 
+      FOR UPDATE 
+      USING (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own referrals (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_referrals' 
+    AND policyname = 'Users can delete their own referrals'
+  ) THEN
+    CREATE POLICY "Users can delete their own referrals" 
+      ON public.job_referrals 
+      FOR DELETE 
+      USING (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_job_referrals_updated_at ON public.job_referrals;
+CREATE TRIGGER update_job_referrals_updated_at
+  BEFORE UPDATE ON public.job_referrals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comment
+COMMENT ON TABLE public.job_referrals IS 'Referrals for job applications, one per application, linked to the referring contact';
@@ -0,0 +1,125 @@
+-- Create job_application_documents table: the resume and cover letter sent
+-- with each application, either an uploaded document or AI-generated content
+CREATE TABLE IF NOT EXISTS public.job_application_documents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('resume', 'coverletter')),
+  user_document_id UUID REFERENCES public.user_documents(id) ON DELETE SET NULL,
+  ai_content_id UUID REFERENCES public.ai_generated_content(id) ON DELETE SET NULL,
+  name TEXT NOT NULL, -- Kept so the application still shows what was sent if the document is deleted
+  attached_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- One resume and one cover letter per application
+  UNIQUE (job_application_id, kind),
+  CHECK (user_document_id IS NULL OR ai_content_id IS NULL)
+);
+
+-- Add RLS policies
+ALTER TABLE public.job_application_documents ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own application documents (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_application_documents' 
+    AND policyname = 'Users can view their own application documents'
+  ) THEN
+    CREATE POLICY "Users can view their own application documents" 
+      ON public.job_application_documents 
+      FOR SELECT 
+      USING (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own application documents (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_application_documents' 
+    AND policyname = 'Users can insert their own application documents'
+  ) THEN
+    CREATE POLICY "Users can insert their own application documents" 
+      ON public.job_application_documents 
+      FOR INSERT 
+      WITH CHECK (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own application documents (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_application_documents' 
+    AND policyname = 'Users can update their own application documents'
+  ) THEN
+    CREATE POLICY "Users can update their own application documents" 
+      ON public.job_application_documents 
+      FOR UPDATE 
+      USING (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own application documents (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_application_documents' 
+    AND policyname = 'Users can delete their own application documents'
+  ) THEN
+    CREATE POLICY "Users can delete their own application documents" 
+      ON public.job_application_documents 
+      FOR DELETE 
+      USING (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create indexes for finding the applications a document was sent with (if they don't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_application_documents' 
+    AND indexname = 'idx_job_application_documents_user_document_id'
+  ) THEN
+    CREATE INDEX idx_job_application_documents_user_document_id ON public.job_application_documents (user_document_id) WHERE user_document_id IS NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_application_documents' 
+    AND indexname = 'idx_job_application_documents_ai_content_id'
+  ) THEN
+    CREATE INDEX idx_job_application_documents_ai_content_id ON public.job_application_documents (ai_content_id) WHERE ai_content_id IS NOT NULL;
+  END IF;
+END
+$$;
+
+-- Add comment
+COMMENT ON TABLE public.job_application_documents IS 'The resume and cover letter sent with each job application';
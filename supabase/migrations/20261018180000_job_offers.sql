@@ -0,0 +1,277 @@
+-- Create job_offers table: the structured terms of an offer on an
+-- application, for comparing offers side by side
+CREATE TABLE IF NOT EXISTS public.job_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_application_id UUID NOT NULL UNIQUE REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  currency TEXT NOT NULL DEFAULT 'USD', -- ISO 4217 code all amounts are in
+  base_salary NUMERIC CHECK (base_salary >= 0), -- Per year
+  bonus NUMERIC CHECK (bonus >= 0), -- Yearly target bonus
+  bonus_type TEXT NOT NULL DEFAULT 'amount' CHECK (bonus_type IN ('amount', 'percent')), -- percent: bonus is a percentage of base
+  equity_value NUMERIC CHECK (equity_value >= 0), -- Value of the whole grant
+  vesting_years NUMERIC NOT NULL DEFAULT 4 CHECK (vesting_years > 0),
+  vesting_cliff_months INTEGER CHECK (vesting_cliff_months >= 0),
+  sign_on_bonus NUMERIC CHECK (sign_on_bonus >= 0),
+  benefits TEXT,
+  benefits_value NUMERIC CHECK (benefits_value >= 0), -- Estimated yearly value, e.g. pension match
+  pto_days INTEGER CHECK (pto_days >= 0),
+  location TEXT,
+  work_type TEXT CHECK (work_type IN ('On-site', 'Remote', 'Hybrid')),
+  start_date DATE,
+  response_deadline DATE,
+  ratings JSONB NOT NULL DEFAULT '{}'::jsonb, -- Offer criterion key to a 1-5 rating
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create offer_criteria table: what each user weighs offers on. Users without
+-- saved criteria get the app's defaults.
+CREATE TABLE IF NOT EXISTS public.offer_criteria (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 3 CHECK (weight BETWEEN 0 AND 10),
+  -- rating: scored by the user; compensation and pto: scored from the offer's terms
+  source TEXT NOT NULL DEFAULT 'rating' CHECK (source IN ('rating', 'compensation', 'pto')),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, key)
+);
+
+-- Create offer_comparison_settings table: the currency offers are compared
+-- in and the exchange rates used to get there
+CREATE TABLE IF NOT EXISTS public.offer_comparison_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users ON DELETE CASCADE,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  exchange_rates JSONB NOT NULL DEFAULT '{}'::jsonb, -- Currency code to units per US dollar
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add RLS policies
+ALTER TABLE public.job_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.offer_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.offer_comparison_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own offers (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_offers' 
+    AND policyname = 'Users can view their own offers'
+  ) THEN
+    CREATE POLICY "Users can view their own offers" 
+      ON public.job_offers 
+      FOR SELECT 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own offers (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_offers' 
+    AND policyname = 'Users can insert their own offers'
+  ) THEN
+    CREATE POLICY "Users can insert their own offers" 
+      ON public.job_offers 
+      FOR INSERT 
+      WITH CHECK (
+        auth.uid() = user_id AND
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own offers (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_offers' 
+    AND policyname = 'Users can update their own offers'
+  ) THEN
+    CREATE POLICY "Users can update their own offers" 
+      ON public.job_offers 
+      FOR UPDATE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own offers (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_offers' 
+    AND policyname = 'Users can delete their own offers'
+  ) THEN
+    CREATE POLICY "Users can delete their own offers" 
+      ON public.job_offers 
+      FOR DELETE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to view their own offer criteria (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'offer_criteria' 
+    AND policyname = 'Users can view their own offer criteria'
+  ) THEN
+    CREATE POLICY "Users can view their own offer criteria" 
+      ON public.offer_criteria 
+      FOR SELECT 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own offer criteria (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'offer_criteria' 
+    AND policyname = 'Users can insert their own offer criteria'
+  ) THEN
+    CREATE POLICY "Users can insert their own offer criteria" 
+      ON public.offer_criteria 
+      FOR INSERT 
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own offer criteria (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'offer_criteria' 
+    AND policyname = 'Users can update their own offer criteria'
+  ) THEN
+    CREATE POLICY "Users can update their own offer criteria" 
+      ON public.offer_criteria 
+      FOR UPDATE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own offer criteria (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'offer_criteria' 
+    AND policyname = 'Users can delete their own offer criteria'
+  ) THEN
+    CREATE POLICY "Users can delete their own offer criteria" 
+      ON public.offer_criteria 
+      FOR DELETE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to view their own offer comparison settings (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'offer_comparison_settings' 
+    AND policyname = 'Users can view their own offer comparison settings'
+  ) THEN
+    CREATE POLICY "Users can view their own offer comparison settings" 
+      ON public.offer_comparison_settings 
+      FOR SELECT 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own offer comparison settings (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'offer_comparison_settings' 
+    AND policyname = 'Users can insert their own offer comparison settings'
+  ) THEN
+    CREATE POLICY "Users can insert their own offer comparison settings" 
+      ON public.offer_comparison_settings 
+      FOR INSERT 
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own offer comparison settings (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'offer_comparison_settings' 
+    AND policyname = 'Users can update their own offer comparison settings'
+  ) THEN
+    CREATE POLICY "Users can update their own offer comparison settings" 
+      ON public.offer_comparison_settings 
+      FOR UPDATE 
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create index for loading a user's offers (if it doesn't exist)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes 
+    WHERE tablename = 'job_offers' 
+    AND indexname = 'idx_job_offers_user_id'
+  ) THEN
+    CREATE INDEX idx_job_offers_user_id ON public.job_offers (user_id);
+  END IF;
+END
+$$;
+
+-- Create triggers for updated_at
+DROP TRIGGER IF EXISTS update_job_offers_updated_at ON public.job_offers;
+CREATE TRIGGER update_job_offers_updated_at
+  BEFORE UPDATE ON public.job_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_offer_criteria_updated_at ON public.offer_criteria;
+CREATE TRIGGER update_offer_criteria_updated_at
+  BEFORE UPDATE ON public.offer_criteria
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_offer_comparison_settings_updated_at ON public.offer_comparison_settings;
+CREATE TRIGGER update_offer_comparison_settings_updated_at
+  BEFORE UPDATE ON public.offer_comparison_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments
+COMMENT ON TABLE public.job_offers IS 'Structured terms of job offers, one per application';
+COMMENT ON TABLE public.offer_criteria IS 'Weighted criteria each user scores offers on';
+COMMENT ON TABLE public.offer_comparison_settings IS 'Currency and exchange rates each user compares offers in';
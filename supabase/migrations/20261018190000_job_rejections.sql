@@ -0,0 +1,109 @@
+-- Create job_rejections table: why an application ended, how far it got and
+-- who ended it. An application has at most one rejection record.
+CREATE TABLE IF NOT EXISTS public.job_rejections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_application_id UUID NOT NULL UNIQUE REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  stage_reached TEXT CHECK (stage_reached IN ('application', 'screening', 'technical', 'onsite', 'final', 'offer')),
+  reason TEXT CHECK (reason IN ('experience', 'skills', 'culture', 'compensation', 'positionFilled', 'roleCancelled', 'location', 'timing', 'noResponse', 'other')),
+  rejected_by TEXT NOT NULL DEFAULT 'company' CHECK (rejected_by IN ('company', 'candidate')), -- candidate: the user withdrew or declined
+  feedback TEXT, -- What the company said, or the user's own notes
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add RLS policies
+ALTER TABLE public.job_rejections ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own rejections (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_rejections' 
+    AND policyname = 'Users can view their own rejections'
+  ) THEN
+    CREATE POLICY "Users can view their own rejections" 
+      ON public.job_rejections 
+      FOR SELECT 
+      USING (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own rejections (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_rejections' 
+    AND policyname = 'Users can insert their own rejections'
+  ) THEN
+    CREATE POLICY "Users can insert their own rejections" 
+      ON public.job_rejections 
+      FOR INSERT 
+      WITH CHECK (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own rejections (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_rejections' 
+    AND policyname = 'Users can update their own rejections'
+  ) THEN
+    CREATE POLICY "Users can update their own rejections" 
+      ON public.job_rejections 
+      FOR UPDATE 
+      USING (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own rejections (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_rejections' 
+    AND policyname = 'Users can delete their own rejections'
+  ) THEN
+    CREATE POLICY "Users can delete their own rejections" 
+      ON public.job_rejections 
+      FOR DELETE 
+      USING (
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_job_rejections_updated_at ON public.job_rejections;
+CREATE TRIGGER update_job_rejections_updated_at
+  BEFORE UPDATE ON public.job_rejections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comment
+COMMENT ON TABLE public.job_rejections IS 'Why and at what stage job applications were rejected, one per application';
@@ -0,0 +1,226 @@
+-- Create job_tasks table: the checklist of chores for an application, e.g.
+-- tailoring the CV or sending thank-you notes
+CREATE TABLE IF NOT EXISTS public.job_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_application_id UUID NOT NULL REFERENCES public.job_applications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  due_date DATE,
+  completed_at TIMESTAMPTZ, -- Set while the task is ticked off
+  template_key TEXT, -- The task template it was added from, if any
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Each template is added to an application once, however often it
+  -- re-enters the stage
+  UNIQUE (job_application_id, template_key)
+);
+
+-- Create task_templates table: tasks added to an application when it moves
+-- into a stage. Users without saved templates get the app's defaults.
+CREATE TABLE IF NOT EXISTS public.task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  stage_key TEXT NOT NULL, -- Pipeline stage key, as in job_applications.status
+  title TEXT NOT NULL,
+  due_in_days INTEGER CHECK (due_in_days >= 0), -- Days after the stage change; no due date if null
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, key)
+);
+
+-- Rule for overdue task reminders, read by the notification scheduler
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS overdue_task_reminders BOOLEAN DEFAULT TRUE;
+
+-- Add RLS policies
+ALTER TABLE public.job_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own tasks (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'job_tasks'
+    AND policyname = 'Users can view their own tasks'
+  ) THEN
+    CREATE POLICY "Users can view their own tasks"
+      ON public.job_tasks
+      FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own tasks (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'job_tasks'
+    AND policyname = 'Users can insert their own tasks'
+  ) THEN
+    CREATE POLICY "Users can insert their own tasks"
+      ON public.job_tasks
+      FOR INSERT
+      WITH CHECK (
+        auth.uid() = user_id AND
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own tasks (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'job_tasks'
+    AND policyname = 'Users can update their own tasks'
+  ) THEN
+    CREATE POLICY "Users can update their own tasks"
+      ON public.job_tasks
+      FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own tasks (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'job_tasks'
+    AND policyname = 'Users can delete their own tasks'
+  ) THEN
+    CREATE POLICY "Users can delete their own tasks"
+      ON public.job_tasks
+      FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to view their own task templates (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'task_templates'
+    AND policyname = 'Users can view their own task templates'
+  ) THEN
+    CREATE POLICY "Users can view their own task templates"
+      ON public.task_templates
+      FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own task templates (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'task_templates'
+    AND policyname = 'Users can insert their own task templates'
+  ) THEN
+    CREATE POLICY "Users can insert their own task templates"
+      ON public.task_templates
+      FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own task templates (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'task_templates'
+    AND policyname = 'Users can update their own task templates'
+  ) THEN
+    CREATE POLICY "Users can update their own task templates"
+      ON public.task_templates
+      FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to delete their own task templates (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'task_templates'
+    AND policyname = 'Users can delete their own task templates'
+  ) THEN
+    CREATE POLICY "Users can delete their own task templates"
+      ON public.task_templates
+      FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create index for loading a user's open tasks by due date (if it doesn't exist)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'job_tasks'
+    AND indexname = 'idx_job_tasks_user_due_date'
+  ) THEN
+    CREATE INDEX idx_job_tasks_user_due_date
+      ON public.job_tasks (user_id, due_date)
+      WHERE completed_at IS NULL;
+  END IF;
+END
+$$;
+
+-- Publish task changes over Supabase realtime, so tasks added when an
+-- application changes stage show up in open checklists
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'job_tasks'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.job_tasks;
+  END IF;
+END
+$$;
+
+-- Create triggers for updated_at
+DROP TRIGGER IF EXISTS update_job_tasks_updated_at ON public.job_tasks;
+CREATE TRIGGER update_job_tasks_updated_at
+  BEFORE UPDATE ON public.job_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_task_templates_updated_at ON public.task_templates;
+CREATE TRIGGER update_task_templates_updated_at
+  BEFORE UPDATE ON public.task_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments
+COMMENT ON TABLE public.job_tasks IS 'Checklist tasks on job applications, with optional due dates';
+COMMENT ON TABLE public.task_templates IS 'Tasks added to each user''s applications when they enter a pipeline stage';
+COMMENT ON COLUMN public.notification_preferences.overdue_task_reminders IS 'Remind about tasks past their due date';
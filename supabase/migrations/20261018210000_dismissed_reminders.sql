@@ -0,0 +1,8 @@
+-- Dismissed reminders: deleting a follow-up reminder marks it dismissed
+-- instead, so the notification scheduler doesn't send it again
+
+-- Set once the user has dismissed the notification, which is then hidden
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS dismissed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.notifications.dismissed_at IS 'The notification was dismissed and is hidden; reminders with its key are not sent again';
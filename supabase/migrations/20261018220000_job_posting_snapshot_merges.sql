@@ -0,0 +1,25 @@
+-- Merging duplicate applications moves posting snapshots to the
+-- application kept, which needs them to be updatable
+
+-- Create policy to allow users to update their own posting snapshots (check if it exists first)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE tablename = 'job_posting_snapshots' 
+    AND policyname = 'Users can update their own posting snapshots'
+  ) THEN
+    CREATE POLICY "Users can update their own posting snapshots" 
+      ON public.job_posting_snapshots 
+      FOR UPDATE 
+      USING (auth.uid() = user_id)
+      WITH CHECK (
+        auth.uid() = user_id AND
+        auth.uid() IN (
+          SELECT user_id FROM public.job_applications 
+          WHERE id = job_application_id
+        )
+      );
+  END IF;
+END
+$$;
@@ -0,0 +1,78 @@
+-- Create task_template_settings table: whether each user has saved their
+-- own task templates, so saving none turns stage tasks off rather than
+-- bringing back the app's defaults
+CREATE TABLE IF NOT EXISTS public.task_template_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users ON DELETE CASCADE,
+  customised_at TIMESTAMPTZ NOT NULL DEFAULT now(), -- When the templates were first saved
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Users who have already saved templates have customised them
+INSERT INTO public.task_template_settings (user_id, customised_at)
+SELECT user_id, MIN(created_at)
+FROM public.task_templates
+GROUP BY user_id
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Add RLS policies
+ALTER TABLE public.task_template_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policy to allow users to view their own task template settings (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'task_template_settings'
+    AND policyname = 'Users can view their own task template settings'
+  ) THEN
+    CREATE POLICY "Users can view their own task template settings"
+      ON public.task_template_settings
+      FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to insert their own task template settings (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'task_template_settings'
+    AND policyname = 'Users can insert their own task template settings'
+  ) THEN
+    CREATE POLICY "Users can insert their own task template settings"
+      ON public.task_template_settings
+      FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create policy to allow users to update their own task template settings (check if it exists first)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies
+    WHERE tablename = 'task_template_settings'
+    AND policyname = 'Users can update their own task template settings'
+  ) THEN
+    CREATE POLICY "Users can update their own task template settings"
+      ON public.task_template_settings
+      FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_task_template_settings_updated_at ON public.task_template_settings;
+CREATE TRIGGER update_task_template_settings_updated_at
+  BEFORE UPDATE ON public.task_template_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments
+COMMENT ON TABLE public.task_template_settings IS 'Whether each user has customised their task templates; an empty set is then kept empty';
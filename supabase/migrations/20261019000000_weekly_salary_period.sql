@@ -0,0 +1,54 @@
+-- Weekly pay: allow a weekly salary period and count it in the annualised
+-- salary that lists are sorted and filtered by
+
+-- Allow weekly pay periods (if the check doesn't allow them yet)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'job_applications_salary_period_check'
+    AND pg_get_constraintdef(oid) LIKE '%weekly%'
+  ) THEN
+    ALTER TABLE public.job_applications
+      DROP CONSTRAINT IF EXISTS job_applications_salary_period_check;
+    ALTER TABLE public.job_applications
+      ADD CONSTRAINT job_applications_salary_period_check
+      CHECK (salary_period IN ('annual', 'monthly', 'weekly', 'daily', 'hourly'));
+  END IF;
+END
+$$;
+
+-- A generated column's expression can't be changed, so salary_annual is
+-- recreated with weekly pay, along with the index lists page it by
+-- (if it doesn't count weekly pay yet)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'job_applications'
+    AND column_name = 'salary_annual'
+    AND generation_expression LIKE '%weekly%'
+  ) THEN
+    ALTER TABLE public.job_applications DROP COLUMN IF EXISTS salary_annual;
+    ALTER TABLE public.job_applications
+      ADD COLUMN salary_annual NUMERIC
+      GENERATED ALWAYS AS (
+        COALESCE((salary_min + salary_max) / 2, salary_min, salary_max) *
+        CASE salary_period
+          WHEN 'monthly' THEN 12
+          WHEN 'weekly' THEN 52
+          WHEN 'daily' THEN 260
+          WHEN 'hourly' THEN 2080
+          ELSE 1
+        END
+      ) STORED;
+
+    CREATE INDEX IF NOT EXISTS idx_job_applications_page_salary
+      ON public.job_applications (user_id, salary_annual, id)
+      WHERE deleted_at IS NULL;
+  END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.job_applications.salary_annual IS 'Annualised midpoint of salary_min and salary_max; used to sort, page and filter by salary';
@@ -0,0 +1,132 @@
+-- Merge a duplicate job application into the one kept. Everything happens in
+-- one transaction, so a merge that fails part way leaves both applications
+-- as they were instead of splitting their records between them.
+-- Runs with the caller's permissions, so row level security limits it to
+-- the caller's own applications.
+CREATE OR REPLACE FUNCTION public.merge_job_applications(
+  primary_job_id UUID,
+  duplicate_job_id UUID,
+  merged_fields JSONB, -- The kept application's columns after the merge
+  moved_contact_ids UUID[], -- Contacts of the duplicate to move across
+  trashed_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+DECLARE
+  fields public.job_applications;
+BEGIN
+  IF primary_job_id = duplicate_job_id THEN
+    RAISE EXCEPTION 'An application can''t be merged into itself';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.job_applications
+    WHERE id IN (primary_job_id, duplicate_job_id)
+    AND user_id = auth.uid()
+    AND deleted_at IS NULL
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Both applications must exist and not be in the trash';
+  END IF;
+
+  -- Rows an application can have any number of
+  UPDATE public.job_events
+  SET job_application_id = primary_job_id
+  WHERE job_application_id = duplicate_job_id;
+
+  UPDATE public.job_application_notes
+  SET job_application_id = primary_job_id
+  WHERE job_application_id = duplicate_job_id;
+
+  UPDATE public.tracked_emails
+  SET job_application_id = primary_job_id
+  WHERE job_application_id = duplicate_job_id;
+
+  UPDATE public.job_application_contacts
+  SET job_application_id = primary_job_id
+  WHERE job_application_id = duplicate_job_id
+  AND id = ANY(moved_contact_ids);
+
+  -- Rows the kept application can only have one of per value, or one of in
+  -- all. Any it already has stay with the duplicate.
+  UPDATE public.job_posting_snapshots AS moved
+  SET job_application_id = primary_job_id
+  WHERE moved.job_application_id = duplicate_job_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.job_posting_snapshots AS kept
+    WHERE kept.job_application_id = primary_job_id
+    AND kept.content_hash = moved.content_hash
+  );
+
+  UPDATE public.job_application_documents AS moved
+  SET job_application_id = primary_job_id
+  WHERE moved.job_application_id = duplicate_job_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.job_application_documents AS kept
+    WHERE kept.job_application_id = primary_job_id
+    AND kept.kind = moved.kind
+  );
+
+  UPDATE public.job_tasks AS moved
+  SET job_application_id = primary_job_id
+  WHERE moved.job_application_id = duplicate_job_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.job_tasks AS kept
+    WHERE kept.job_application_id = primary_job_id
+    AND kept.template_key = moved.template_key
+  );
+
+  UPDATE public.job_referrals
+  SET job_application_id = primary_job_id
+  WHERE job_application_id = duplicate_job_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.job_referrals WHERE job_application_id = primary_job_id
+  );
+
+  UPDATE public.job_offers
+  SET job_application_id = primary_job_id
+  WHERE job_application_id = duplicate_job_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.job_offers WHERE job_application_id = primary_job_id
+  );
+
+  UPDATE public.job_rejections
+  SET job_application_id = primary_job_id
+  WHERE job_application_id = duplicate_job_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.job_rejections WHERE job_application_id = primary_job_id
+  );
+
+  -- History is append-only, so the duplicate's entries are copied across
+  INSERT INTO public.job_status_history (
+    job_application_id, user_id, from_status, to_status, source, changed_at
+  )
+  SELECT primary_job_id, user_id, from_status, to_status, source, changed_at
+  FROM public.job_status_history
+  WHERE job_application_id = duplicate_job_id;
+
+  -- Fields the merge fills in on the kept application
+  fields := jsonb_populate_record(NULL::public.job_applications, merged_fields);
+
+  UPDATE public.job_applications
+  SET
+    location = fields.location,
+    company_website = fields.company_website,
+    external_url = fields.external_url,
+    external_id = fields.external_id,
+    external_platform = fields.external_platform,
+    salary = fields.salary,
+    salary_min = fields.salary_min,
+    salary_max = fields.salary_max,
+    salary_currency = fields.salary_currency,
+    salary_period = fields.salary_period,
+    job_description = fields.job_description,
+    applied_date = fields.applied_date,
+    tag_ids = fields.tag_ids,
+    last_updated = fields.last_updated
+  WHERE id = primary_job_id;
+
+  -- Anything not moved (e.g. repeated contacts) stays with it in the trash
+  UPDATE public.job_applications
+  SET deleted_at = trashed_at, last_updated = trashed_at
+  WHERE id = duplicate_job_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;